@@ -0,0 +1,106 @@
+import { ChannelMember, IUser } from "../models/index.js";
+import type { CommandDefinition } from "../services/command.service.js";
+import { channelMembershipService } from "../services/channelMembership.service.js";
+import { channelSettingsService } from "../services/channelSettings.service.js";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  formatDuration,
+} from "../utils/index.js";
+
+const topic: CommandDefinition = {
+  name: "topic",
+  description: "Set the channel topic",
+  usage: "/topic <text>",
+  args: [{ name: "text", type: "text", required: true }],
+  permission: "channel-admin",
+  async execute({ organizationId, userId, role, channel }, args) {
+    // Posts the system message and tells the channel's members
+    await channelSettingsService.update(
+      organizationId,
+      userId,
+      role,
+      channel._id.toString(),
+      { topic: String(args.text) }
+    );
+    return {};
+  },
+};
+
+const invite: CommandDefinition = {
+  name: "invite",
+  description: "Add someone to this channel",
+  usage: "/invite @person",
+  args: [{ name: "user", type: "user", required: true }],
+  async execute({ userId, role, channel, membership }, args) {
+    const target = args.user as IUser;
+
+    if (!channelMembershipService.canInvite(channel, role, membership)) {
+      throw new ForbiddenError(
+        "Only channel admins can invite people to a private channel."
+      );
+    }
+
+    const existing = await ChannelMember.findOne({
+      channelId: channel._id,
+      userId: target._id,
+    });
+    if (existing) {
+      throw new ConflictError(`${target.name} is already in #${channel.name}.`);
+    }
+
+    await channelMembershipService.addMember(channel, target, userId);
+    return { text: `Added ${target.name} to #${channel.name}.` };
+  },
+};
+
+const leave: CommandDefinition = {
+  name: "leave",
+  description: "Leave this channel",
+  usage: "/leave",
+  args: [],
+  async execute({ user, channel }) {
+    await channelMembershipService.leave(channel, user);
+    return { text: `You left #${channel.name}.` };
+  },
+};
+
+const mute: CommandDefinition = {
+  name: "mute",
+  description: "Mute notifications from this channel, for a while or until unmuted",
+  usage: "/mute [duration | off]",
+  args: [{ name: "duration", type: "duration" }, { name: "off", type: "word" }],
+  allowInDM: true,
+  async execute({ membership }, args) {
+    if (args.off !== undefined && String(args.off).toLowerCase() !== "off") {
+      throw new BadRequestError("Usage: /mute [duration | off]");
+    }
+
+    const notifications = membership.notifications || {
+      notifyOn: "ALL",
+      sound: "default",
+    };
+
+    let text: string;
+    if (args.off !== undefined) {
+      notifications.muteUntil = undefined;
+      if (notifications.notifyOn === "NONE") notifications.notifyOn = "ALL";
+      text = "Notifications for this conversation are back on.";
+    } else if (typeof args.duration === "number") {
+      notifications.muteUntil = new Date(Date.now() + args.duration);
+      text = `Muted for ${formatDuration(args.duration)}.`;
+    } else {
+      notifications.notifyOn = "NONE";
+      text = "Muted until you turn notifications back on with /mute off.";
+    }
+
+    membership.notifications = notifications;
+    membership.markModified("notifications");
+    await membership.save();
+
+    return { text };
+  },
+};
+
+export const channelCommands = [topic, invite, leave, mute];
@@ -0,0 +1,12 @@
+import type { CommandDefinition } from "../services/command.service.js";
+import { channelCommands } from "./channel.commands.js";
+import { messageCommands } from "./message.commands.js";
+import { taskCommands } from "./task.commands.js";
+import { userCommands } from "./user.commands.js";
+
+export const builtinCommands: CommandDefinition[] = [
+  ...channelCommands,
+  ...messageCommands,
+  ...taskCommands,
+  ...userCommands,
+];
@@ -0,0 +1,57 @@
+import type { CommandDefinition } from "../services/command.service.js";
+import { messageService } from "../services/message.service.js";
+import { pollService } from "../services/poll.service.js";
+import { BadRequestError } from "../utils/index.js";
+
+const SHRUG = "¯\\_(ツ)_/¯";
+
+const shrug: CommandDefinition = {
+  name: "shrug",
+  description: "Post a message followed by ¯\\_(ツ)_/¯",
+  usage: "/shrug [message]",
+  args: [{ name: "text", type: "text" }],
+  allowInDM: true,
+  async execute({ organizationId, userId, channel }, args) {
+    const content = args.text ? `${args.text} ${SHRUG}` : SHRUG;
+    await messageService.post({
+      organizationId,
+      channelId: channel._id.toString(),
+      senderId: userId,
+      content,
+    });
+    return {};
+  },
+};
+
+const poll: CommandDefinition = {
+  name: "poll",
+  description: "Ask a question and let people vote",
+  usage: '/poll "Question" "Option 1" "Option 2" ... [multiple] [anonymous]',
+  args: [{ name: "text", type: "text", required: true }],
+  async execute({ organizationId, userId, channel }, args) {
+    const text = String(args.text);
+    const parts = [...text.matchAll(/"([^"]+)"/g)].map((m) => m[1].trim());
+    const [question, ...options] = parts.filter(Boolean);
+
+    if (!question || options.length < 2) {
+      throw new BadRequestError(
+        'A poll needs a question and at least two options, each in quotes. Usage: /poll "Question" "Option 1" "Option 2"'
+      );
+    }
+
+    // Words outside the quotes switch on poll settings
+    const flags = text.replace(/"[^"]*"/g, " ").toLowerCase().split(/\s+/);
+    await pollService.create({
+      organizationId,
+      channelId: channel._id.toString(),
+      senderId: userId,
+      question,
+      options,
+      multipleChoice: flags.includes("multiple"),
+      anonymous: flags.includes("anonymous"),
+    });
+    return {};
+  },
+};
+
+export const messageCommands = [shrug, poll];
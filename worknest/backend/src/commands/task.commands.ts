@@ -0,0 +1,46 @@
+import { Task } from "../models/index.js";
+import type { CommandDefinition } from "../services/command.service.js";
+import { webhookService } from "../services/webhook.service.js";
+import { BadRequestError } from "../utils/index.js";
+
+const task: CommandDefinition = {
+  name: "task",
+  description: "Add a task to this channel's board",
+  usage: "/task <title>",
+  args: [{ name: "title", type: "text", required: true }],
+  async execute({ organizationId, userId, channel }, args) {
+    const title = String(args.title);
+    if (title.length > 200) {
+      throw new BadRequestError("Task titles cannot exceed 200 characters.");
+    }
+
+    // New tasks go to the end of the To Do column
+    const lastTask = await Task.findOne({
+      channelId: channel._id,
+      status: "todo",
+    }).sort({ order: -1 });
+
+    const created = await Task.create({
+      title,
+      status: "todo",
+      priority: "medium",
+      channelId: channel._id,
+      organizationId,
+      creatorId: userId,
+      labels: [],
+      order: lastTask ? lastTask.order + 1 : 0,
+    });
+    await created.populate([{ path: "creatorId", select: "name avatar" }]);
+
+    webhookService.dispatchChannelEvent(
+      organizationId,
+      "task.created",
+      channel._id,
+      webhookService.serializeTask(created)
+    );
+
+    return { text: `Added "${title}" to the task board.` };
+  },
+};
+
+export const taskCommands = [task];
@@ -0,0 +1,92 @@
+import { getIO } from "../config/socket.js";
+import type { CommandDefinition } from "../services/command.service.js";
+import { reminderService } from "../services/reminder.service.js";
+import {
+  BadRequestError,
+  formatDuration,
+  formatZonedTime,
+} from "../utils/index.js";
+
+// A leading emoji in "/status 🌴 On holiday" becomes the status emoji
+const LEADING_EMOJI = /^(\p{Extended_Pictographic}(?:️|‍\p{Extended_Pictographic})*)\s*/u;
+
+const status: CommandDefinition = {
+  name: "status",
+  description: "Set or clear your status, optionally for a while",
+  usage: "/status [duration] <text> | /status clear",
+  args: [
+    { name: "duration", type: "duration" },
+    { name: "text", type: "text" },
+  ],
+  allowInDM: true,
+  async execute({ user }, args) {
+    const text = args.text ? String(args.text) : "";
+    const duration = args.duration as number | undefined;
+
+    let reply: string;
+    if (!text || text.toLowerCase() === "clear") {
+      if (duration !== undefined) {
+        throw new BadRequestError("Usage: /status [duration] <text>");
+      }
+      user.customStatus = { text: "", emoji: undefined, expiresAt: undefined };
+      reply = "Your status has been cleared.";
+    } else {
+      const emoji = text.match(LEADING_EMOJI)?.[1];
+      const statusText = emoji ? text.slice(text.indexOf(emoji) + emoji.length).trim() : text;
+      if (statusText.length > 100) {
+        throw new BadRequestError("Statuses cannot exceed 100 characters.");
+      }
+
+      user.customStatus = {
+        text: statusText,
+        emoji,
+        expiresAt: duration ? new Date(Date.now() + duration) : undefined,
+      };
+      reply = duration
+        ? `Your status is set for ${formatDuration(duration)}.`
+        : "Your status is set.";
+    }
+
+    await user.save();
+
+    try {
+      getIO().to(`org:${user.organizationId}`).emit("user-status-changed", {
+        userId: user._id,
+        customStatus: user.customStatus,
+      });
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+
+    return { text: reply };
+  },
+};
+
+const remind: CommandDefinition = {
+  name: "remind",
+  description: "Get a reminder later, e.g. in 2 hours or tomorrow at 9am",
+  usage: "/remind <when> <text>",
+  args: [
+    { name: "when", type: "time", required: true },
+    { name: "text", type: "text", required: true },
+  ],
+  allowInDM: true,
+  async execute({ organizationId, userId, user, channel }, args) {
+    const remindAt = args.when as Date;
+    const text = String(args.text).replace(/^to\s+/i, "");
+
+    await reminderService.create({
+      organizationId,
+      userId,
+      channelId: channel._id.toString(),
+      text,
+      remindAt,
+    });
+
+    return {
+      text: `I'll remind you on ${formatZonedTime(remindAt, user.profile?.timezone || "UTC")}: "${text}"`,
+    };
+  },
+};
+
+export const userCommands = [status, remind];
@@ -0,0 +1,32 @@
+import { createClient, RedisClientType } from "redis";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+let client: RedisClientType | null = null;
+
+/**
+ * Connect to Redis when REDIS_URL is set. Redis is optional: without it the
+ * server keeps socket state in memory and can only run as a single instance.
+ */
+export const connectRedis = async (): Promise<RedisClientType | null> => {
+  const url = process.env.REDIS_URL;
+  if (!url) return null;
+
+  try {
+    client = createClient({ url });
+    client.on("error", (error) => {
+      console.error("❌ Redis error:", error);
+    });
+    await client.connect();
+    console.log("✅ Redis connected successfully");
+    return client;
+  } catch (error) {
+    console.error("❌ Failed to connect to Redis:", error);
+    process.exit(1);
+  }
+};
+
+export const getRedis = (): RedisClientType | null => client;
+
+export default { connectRedis, getRedis };
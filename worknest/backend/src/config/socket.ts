@@ -1,7 +1,10 @@
 import { Server as HttpServer } from "http";
 import { Server, Socket } from "socket.io";
+import { createAdapter } from "@socket.io/redis-adapter";
+import type { RedisClientType } from "redis";
 import jwt from "jsonwebtoken";
 import { JWTPayload } from "../types/index.js";
+import { sessionService } from "../services/session.service.js";
 
 let io: Server;
 
@@ -9,6 +12,7 @@ export interface AuthenticatedSocket extends Socket {
   userId?: string;
   organizationId?: string;
   role?: string;
+  sessionId?: string;
 }
 
 export const initializeSocket = (httpServer: HttpServer): Server => {
@@ -25,7 +29,7 @@ export const initializeSocket = (httpServer: HttpServer): Server => {
   });
 
   // Socket authentication middleware
-  io.use((socket: AuthenticatedSocket, next) => {
+  io.use(async (socket: AuthenticatedSocket, next) => {
     const token =
       socket.handshake.auth.token ||
       socket.handshake.headers.authorization?.split(" ")[1];
@@ -34,23 +38,72 @@ export const initializeSocket = (httpServer: HttpServer): Server => {
       return next(new Error("Authentication required"));
     }
 
+    let decoded: JWTPayload;
     try {
-      const decoded = jwt.verify(
+      decoded = jwt.verify(
         token,
         process.env.JWT_SECRET || "secret"
       ) as JWTPayload;
-      socket.userId = decoded.userId;
-      socket.organizationId = decoded.organizationId;
-      socket.role = decoded.role;
-      next();
     } catch (error) {
-      next(new Error("Invalid token"));
+      return next(
+        new Error(
+          error instanceof jwt.TokenExpiredError
+            ? "Token expired"
+            : "Invalid token"
+        )
+      );
     }
+
+    try {
+      const session = decoded.sessionId
+        ? await sessionService.getActiveSession(decoded.sessionId)
+        : null;
+      if (!session || session.userId.toString() !== decoded.userId) {
+        return next(new Error("Session expired"));
+      }
+    } catch (error) {
+      console.error("Socket session check failed:", error);
+      return next(new Error("Authentication failed"));
+    }
+
+    socket.userId = decoded.userId;
+    socket.organizationId = decoded.organizationId;
+    socket.role = decoded.role;
+    socket.sessionId = decoded.sessionId;
+    next();
+  });
+
+  // Each socket joins its session room so revoking or expiring the session
+  // (see sessionService) can disconnect it; socket traffic counts as activity
+  io.on("connection", (socket: AuthenticatedSocket) => {
+    const sessionId = socket.sessionId;
+    if (!sessionId) return;
+
+    socket.join(`session:${sessionId}`);
+    socket.use((_event, next) => {
+      sessionService.touch(sessionId);
+      next();
+    });
   });
 
   return io;
 };
 
+/**
+ * Broadcast through Redis so rooms span every backend instance
+ */
+export const attachRedisAdapter = async (
+  client: RedisClientType
+): Promise<void> => {
+  // A subscribed connection can't run other commands, so it gets its own
+  const subClient = client.duplicate();
+  subClient.on("error", (error) => {
+    console.error("❌ Redis subscriber error:", error);
+  });
+  await subClient.connect();
+  getIO().adapter(createAdapter(client, subClient));
+};
+
 export const getIO = (): Server => {
   if (!io) {
     throw new Error("Socket.IO not initialized");
@@ -58,4 +111,4 @@ export const getIO = (): Server => {
   return io;
 };
 
-export default { initializeSocket, getIO };
+export default { initializeSocket, attachRedisAdapter, getIO };
@@ -1,6 +1,5 @@
 import { Response } from "express";
 import { AuthenticatedRequest } from "../types/index.js";
-import { generateToken } from "../middlewares/auth.middleware.js";
 import { Organization, User, Channel, ChannelMember } from "../models/index.js";
 import {
   BadRequestError,
@@ -9,7 +8,18 @@ import {
   NotFoundError,
   ConflictError,
 } from "../utils/AppError.js";
-import { emailService } from "../utils/index.js";
+import {
+  emailService,
+  resolvePasswordPolicy,
+  assertPasswordPolicy,
+  passwordExpiryDate,
+} from "../utils/index.js";
+import {
+  defaultChannelService,
+  organizationAdminService,
+  sessionService,
+  webhookService,
+} from "../services/index.js";
 import xss from "xss";
 import crypto from "crypto";
 
@@ -30,6 +40,10 @@ class AuthController {
       throw new BadRequestError("All fields are required.");
     }
 
+    // New organizations start on the default policy
+    const passwordPolicy = resolvePasswordPolicy();
+    assertPasswordPolicy(password, passwordPolicy);
+
     // Check if subdomain already exists
     const existingOrg = await Organization.findOne({
       subdomain: subdomain.toLowerCase(),
@@ -53,10 +67,16 @@ class AuthController {
       name: xss(name),
       email: email.toLowerCase(),
       passwordHash: password,
+      passwordChangedAt: new Date(),
+      passwordExpiresAt: passwordExpiryDate(passwordPolicy),
       role: "ADMIN",
       status: "ACTIVE",
     });
 
+    // Whoever registers the organization owns it
+    organization.ownerId = user._id;
+    await organization.save();
+
     // Create default general channel
     const generalChannel = await Channel.create({
       organizationId: organization._id,
@@ -66,21 +86,30 @@ class AuthController {
       createdBy: user._id,
     });
 
-    // Add admin to general channel
-    await ChannelMember.create({
-      organizationId: organization._id,
-      channelId: generalChannel._id,
-      userId: user._id,
-      role: "ADMIN",
-    });
+    // Create the rest of the organization's default channels
+    const defaultChannels = await defaultChannelService.ensureChannels(
+      organization._id.toString(),
+      organization.settings?.channelPolicies?.defaultChannels || [],
+      user._id.toString()
+    );
+
+    // Add admin to general and the default channels
+    const channelIds = new Set([
+      generalChannel._id.toString(),
+      ...defaultChannels.map(({ channel }) => channel._id.toString()),
+    ]);
+    await ChannelMember.insertMany(
+      [...channelIds].map((channelId) => ({
+        organizationId: organization._id,
+        channelId,
+        userId: user._id,
+        role: "ADMIN",
+      }))
+    );
 
     // Generate token
-    const token = generateToken({
-      userId: user._id.toString(),
-      organizationId: organization._id.toString(),
-      role: user.role,
-      tokenVersion: user.tokenVersion,
-    });
+    // Start a session for this device
+    const { token, refreshToken } = await sessionService.create(user, req);
 
     // Send welcome email (non-blocking)
     emailService
@@ -99,6 +128,7 @@ class AuthController {
           id: organization._id,
           name: organization.name,
           subdomain: organization.subdomain,
+          ownerId: organization.ownerId,
           settings: organization.settings,
         },
         user: {
@@ -109,6 +139,7 @@ class AuthController {
           settings: user.settings,
         },
         token,
+        refreshToken,
       },
       message: "Organization and admin account created successfully.",
     });
@@ -161,13 +192,11 @@ class AuthController {
     user.lastSeenAt = new Date();
     await user.save();
 
-    // Generate token
-    const token = generateToken({
-      userId: user._id.toString(),
-      organizationId: user.organizationId.toString(),
-      role: user.role,
-      tokenVersion: user.tokenVersion,
-    });
+    // Start a session for this device
+    const { token, refreshToken, sessionId } = await sessionService.create(
+      user,
+      req
+    );
 
     // Get organization info
     const organization = await Organization.findById(organizationId);
@@ -180,7 +209,8 @@ class AuthController {
       const expectedHost = `${organization.subdomain}.${baseDomain}`;
 
       if (!host.startsWith(expectedHost)) {
-        redirectUrl = `http://${expectedHost}:5173/auth-callback?token=${token}&subdomain=${organization.subdomain}`;
+        const code = await sessionService.createHandoffCode(sessionId);
+        redirectUrl = `http://${expectedHost}:5173/auth-callback?code=${code}&subdomain=${organization.subdomain}`;
       }
     }
 
@@ -196,6 +226,7 @@ class AuthController {
           status: user.status,
           statusMessage: user.statusMessage,
           settings: user.settings,
+          passwordExpired: this.isPasswordExpired(user.passwordExpiresAt),
         },
         organization: organization
           ? {
@@ -203,10 +234,14 @@ class AuthController {
               name: organization.name,
               subdomain: organization.subdomain,
               logo: organization.logo,
+              ownerId: await organizationAdminService.resolveOwnerId(
+                organization
+              ),
               settings: organization.settings,
             }
           : null,
         token,
+        refreshToken,
         redirectUrl,
       },
     });
@@ -242,6 +277,7 @@ class AuthController {
           statusMessage: user.statusMessage,
           lastSeenAt: user.lastSeenAt,
           settings: user.settings,
+          passwordExpired: this.isPasswordExpired(user.passwordExpiresAt),
         },
         organization: {
           id: organization._id,
@@ -249,6 +285,7 @@ class AuthController {
           subdomain: organization.subdomain,
           plan: organization.plan,
           logo: organization.logo,
+          ownerId: await organizationAdminService.resolveOwnerId(organization),
           settings: organization.settings,
         },
       },
@@ -311,6 +348,14 @@ class AuthController {
         .catch((err) => console.error("Invitation email failed", err));
     }
 
+    webhookService.dispatch(req.user.organizationId, "user.invited", {
+      id: user._id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      invitedBy: req.user.userId,
+    });
+
     res.status(201).json({
       success: true,
       data: {
@@ -349,45 +394,39 @@ class AuthController {
       throw new NotFoundError("Invitation invalid, expired, or already used.");
     }
 
+    const passwordPolicy = await this.getOrganizationPasswordPolicy(
+      user.organizationId.toString()
+    );
+    assertPasswordPolicy(newPassword, passwordPolicy);
+
     // Update password, status, and clear token
     if (name) user.name = xss(name);
-    user.passwordHash = newPassword;
+    user.setPassword(
+      newPassword,
+      passwordPolicy.historyCount,
+      passwordExpiryDate(passwordPolicy)
+    );
     user.status = "ACTIVE";
     user.invitationToken = undefined;
     user.invitationExpires = undefined;
     await user.save();
 
-    // Add user to all public channels ONLY NOW when they are active
-    const publicChannels = await Channel.find({
-      organizationId: user.organizationId,
-      type: "PUBLIC",
-    });
+    // Join the organization's default channels ONLY NOW when they are active
+    await defaultChannelService.join(user);
 
-    for (const channel of publicChannels) {
-      // Check if already a member
-      const existing = await ChannelMember.findOne({
-        channelId: channel._id,
-        userId: user._id,
-      });
-
-      if (!existing) {
-        await ChannelMember.create({
-          organizationId: user.organizationId,
-          channelId: channel._id,
-          userId: user._id,
-          role: "MEMBER",
-        });
-      }
-    }
-
-    // Generate login token
-    const token = generateToken({
-      userId: user._id.toString(),
-      organizationId: user.organizationId.toString(),
+    webhookService.dispatch(user.organizationId, "user.joined", {
+      id: user._id,
+      name: user.name,
+      email: user.email,
       role: user.role,
-      tokenVersion: user.tokenVersion,
     });
 
+    // Start a session for this device
+    const { token, refreshToken, sessionId } = await sessionService.create(
+      user,
+      req
+    );
+
     // Get organization info for redirect
     const organization = await Organization.findById(user.organizationId);
 
@@ -399,7 +438,8 @@ class AuthController {
       const expectedHost = `${organization.subdomain}.${baseDomain}`;
 
       if (!host.startsWith(expectedHost)) {
-        redirectUrl = `http://${expectedHost}:5173/auth-callback?token=${token}&subdomain=${organization.subdomain}`;
+        const code = await sessionService.createHandoffCode(sessionId);
+        redirectUrl = `http://${expectedHost}:5173/auth-callback?code=${code}&subdomain=${organization.subdomain}`;
       }
     }
 
@@ -422,6 +462,7 @@ class AuthController {
             }
           : null,
         token,
+        refreshToken,
         redirectUrl,
       },
       message: "Account activated successfully.",
@@ -448,12 +489,10 @@ class AuthController {
       );
     }
 
-    if (newPassword.length < 8) {
-      throw new BadRequestError("New password must be at least 8 characters.");
-    }
-
     // Find user with password
-    const user = await User.findById(req.user.userId).select("+passwordHash");
+    const user = await User.findById(req.user.userId).select(
+      "+passwordHash +passwordHistory"
+    );
 
     if (!user) {
       throw new NotFoundError("User not found.");
@@ -465,15 +504,141 @@ class AuthController {
       throw new UnauthorizedError("Current password is incorrect.");
     }
 
+    const passwordPolicy = await this.getOrganizationPasswordPolicy(
+      user.organizationId.toString()
+    );
+    const reused = await user.isPasswordReused(
+      newPassword,
+      passwordPolicy.historyCount
+    );
+    assertPasswordPolicy(newPassword, passwordPolicy, reused);
+
     // Update password
-    user.passwordHash = newPassword;
+    user.setPassword(
+      newPassword,
+      passwordPolicy.historyCount,
+      passwordExpiryDate(passwordPolicy)
+    );
     await user.save();
 
+    // Sign out the user's other devices
+    await sessionService.revokeUserSessions(
+      req.user.userId,
+      "REVOKED",
+      req.user.sessionId
+    );
+
     res.json({
       success: true,
       message: "Password changed successfully.",
     });
   }
+
+  /**
+   * Exchange a refresh token for a new access token (rotates the refresh token)
+   * @route POST /api/auth/refresh
+   */
+  async refresh(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== "string") {
+      throw new BadRequestError("Refresh token is required.");
+    }
+
+    const tokens = await sessionService.refresh(refreshToken);
+
+    res.json({
+      success: true,
+      data: {
+        token: tokens.token,
+        refreshToken: tokens.refreshToken,
+      },
+    });
+  }
+
+  /**
+   * Exchange the one-time code from a subdomain redirect for the tokens of
+   * the session it was created for
+   * @route POST /api/auth/exchange
+   */
+  async exchange(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { code } = req.body;
+
+    if (!code || typeof code !== "string") {
+      throw new BadRequestError("Code is required.");
+    }
+
+    const tokens = await sessionService.redeemHandoffCode(code);
+
+    res.json({
+      success: true,
+      data: {
+        token: tokens.token,
+        refreshToken: tokens.refreshToken,
+      },
+    });
+  }
+
+  /**
+   * End the session belonging to a refresh token
+   * @route POST /api/auth/logout
+   */
+  async logout(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const { refreshToken } = req.body;
+
+    if (refreshToken && typeof refreshToken === "string") {
+      await sessionService.end(refreshToken);
+    }
+
+    res.json({
+      success: true,
+      message: "Logged out successfully.",
+    });
+  }
+
+  /**
+   * Get the password policy new passwords are checked against, so the
+   * client can render the rules before submitting
+   * @route GET /api/auth/password-policy
+   */
+  async getPasswordPolicy(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    const { token: invitationToken } = req.query;
+    let organizationId = req.organizationId;
+
+    // Invite links may be opened without the org subdomain
+    if (typeof invitationToken === "string" && invitationToken) {
+      const invitedUser = await User.findOne({
+        invitationToken,
+        status: "INVITED",
+      }).select("organizationId");
+      if (invitedUser) organizationId = invitedUser.organizationId.toString();
+    }
+
+    const policy = organizationId
+      ? await this.getOrganizationPasswordPolicy(organizationId)
+      : resolvePasswordPolicy();
+
+    res.json({
+      success: true,
+      data: { policy },
+    });
+  }
+
+  private async getOrganizationPasswordPolicy(organizationId: string) {
+    const organization = await Organization.findById(organizationId).select(
+      "settings.security.passwordPolicy"
+    );
+    return resolvePasswordPolicy(
+      organization?.settings?.security?.passwordPolicy
+    );
+  }
+
+  private isPasswordExpired(expiresAt?: Date | null): boolean {
+    return !!expiresAt && expiresAt.getTime() <= Date.now();
+  }
 }
 
 // Export singleton instance
@@ -1,5 +1,7 @@
 import { Request, Response } from "express";
 import { Canvas } from "../models/Canvas.js";
+import { Channel } from "../models/index.js";
+import { ARCHIVED_CHANNEL_MESSAGE } from "../services/index.js";
 
 export const getCanvas = async (req: Request, res: Response) => {
   try {
@@ -31,6 +33,12 @@ export const updateCanvas = async (req: Request, res: Response) => {
     const organizationId = (req as any).orgId;
     const userId = (req as any).userId;
 
+    if (await Channel.isArchived(channelId)) {
+      return res
+        .status(403)
+        .json({ success: false, message: ARCHIVED_CHANNEL_MESSAGE });
+    }
+
     const canvas = await Canvas.findOneAndUpdate(
       { channelId, organizationId },
       {
@@ -1,6 +1,11 @@
 import { Response } from "express";
 import { AuthenticatedRequest } from "../types/index.js";
-import { Channel, ChannelMember, User, Message } from "../models/index.js";
+import {
+  Channel,
+  ChannelMember,
+  User,
+  Message,
+} from "../models/index.js";
 import { io } from "../server.js";
 import {
   BadRequestError,
@@ -10,6 +15,15 @@ import {
   ConflictError,
 } from "../utils/AppError.js";
 import xss from "xss";
+import {
+  channelArchiveService,
+  channelDirectoryService,
+  channelMembershipService,
+  directMessageService,
+  channelSettingsService,
+  serializeChannelDeletion,
+  webhookService,
+} from "../services/index.js";
 
 /**
  * Channel Controller
@@ -25,6 +39,12 @@ class ChannelController {
       throw new UnauthorizedError("Authentication required.");
     }
 
+    // Archived channels are listed on their own with ?archived=true
+    const archived = req.query.archived === "true";
+    const deleting = await channelArchiveService.getDeletingChannelIds(
+      req.user.organizationId
+    );
+
     // Get user's channel memberships
     const memberships = await ChannelMember.find({
       organizationId: req.user.organizationId,
@@ -32,27 +52,36 @@ class ChannelController {
     }).populate({
       path: "channelId",
       select:
-        "name description type createdBy lastMessageAt dmParticipants kanbanColumns",
+        "name description topic type createdBy lastMessageAt dmParticipants kanbanColumns isArchived archivedAt",
+    });
+
+    const listed = memberships.filter((membership) => {
+      const channel = membership.channelId as unknown as typeof Channel.prototype;
+      return (
+        !!channel &&
+        !!channel.isArchived === archived &&
+        !deleting.includes(channel._id.toString())
+      );
     });
 
     // Format channels
     const channels = await Promise.all(
-      memberships.map(async (membership) => {
+      listed.map(async (membership) => {
         const channel =
           membership.channelId as unknown as typeof Channel.prototype;
 
-        // For DM channels, get the other participant's info
-        let dmUser = null;
-        if (channel.type === "DM" && channel.dmParticipants) {
-          const otherUserId = channel.dmParticipants.find(
-            (id: { toString: () => string }) =>
-              id.toString() !== req.user!.userId
+        // For DM channels, get the other participants' info
+        let dm = null;
+        if (channel.type === "DM") {
+          const others = await directMessageService.getOthers(
+            channel,
+            req.user!.userId
           );
-          if (otherUserId) {
-            dmUser = await User.findById(otherUserId).select(
-              "name email avatar status lastSeenAt"
-            );
-          }
+          const lastSeenHidden = await User.findLastSeenHidden(
+            req.user!.userId,
+            others.map((user) => user._id.toString())
+          );
+          dm = directMessageService.describe(others, lastSeenHidden);
         }
 
         // Get member count
@@ -67,39 +96,32 @@ class ChannelController {
         })
           .sort({ createdAt: -1 })
           .populate("senderId", "name")
-          .select("content contentType createdAt senderId");
+          .select("content contentType createdAt senderId bot");
 
         return {
           id: channel._id,
-          name:
-            channel.type === "DM"
-              ? dmUser?.name || "Direct Message"
-              : channel.name,
+          name: dm ? dm.name : channel.name,
           description: channel.description,
+          topic: channel.topic || "",
           type: channel.type,
           memberCount,
           unreadCount: membership.unreadCount,
           lastMessage: lastMessage
             ? {
                 content: lastMessage.content,
-                senderName: (
-                  lastMessage.senderId as unknown as { name: string }
-                )?.name,
+                senderName:
+                  lastMessage.bot?.name ||
+                  (lastMessage.senderId as unknown as { name: string })?.name,
                 createdAt: lastMessage.createdAt,
               }
             : null,
-          dmUser: dmUser
-            ? {
-                id: dmUser._id,
-                name: dmUser.name,
-                avatar: dmUser.avatar,
-                status: dmUser.status,
-                lastSeenAt: dmUser.lastSeenAt,
-              }
-            : null,
+          dmUser: dm?.dmUser ?? null,
+          dmUsers: dm?.dmUsers ?? null,
           role: membership.role,
           joinedAt: membership.joinedAt,
           kanbanColumns: channel.kanbanColumns || [],
+          isArchived: !!channel.isArchived,
+          archivedAt: channel.archivedAt ?? null,
         };
       })
     );
@@ -121,9 +143,11 @@ class ChannelController {
 
     const { name, description, type = "PUBLIC", members = [] } = req.body;
 
-    // Restrict private channel creation to admins
-    if (type === "PRIVATE" && req.user.role !== "ADMIN") {
-      throw new ForbiddenError("Only admins can create private channels.");
+    if (type === "PRIVATE") {
+      await channelSettingsService.assertPrivateAllowed(
+        req.user.organizationId,
+        req.user.role
+      );
     }
 
     if (!name && type !== "DM") {
@@ -221,6 +245,16 @@ class ChannelController {
       }
     }
 
+    if (type !== "DM") {
+      webhookService.dispatch(req.user.organizationId, "channel.created", {
+        id: channel._id,
+        name: channel.name,
+        description: channel.description,
+        type: channel.type,
+        createdBy: req.user.userId,
+      });
+    }
+
     res.status(201).json({
       success: true,
       data: {
@@ -264,9 +298,7 @@ class ChannelController {
     }
 
     // Get members
-    const members = await ChannelMember.find({ channelId: id })
-      .populate("userId", "name email avatar status lastSeenAt")
-      .select("role joinedAt userId");
+    const members = await ChannelMember.getChannelMembers(id, req.user.userId);
 
     res.json({
       success: true,
@@ -274,9 +306,13 @@ class ChannelController {
         id: channel._id,
         name: channel.name,
         description: channel.description,
+        topic: channel.topic || "",
         type: channel.type,
         createdAt: channel.createdAt,
         kanbanColumns: channel.kanbanColumns || [],
+        retentionDays: channel.retentionDays ?? null,
+        isArchived: channel.isArchived,
+        archivedAt: channel.archivedAt ?? null,
         members: members.map((m) => ({
           user: m.userId,
           role: m.role,
@@ -286,6 +322,135 @@ class ChannelController {
     });
   }
 
+  /**
+   * Edit channel name, purpose, topic or type
+   * @route PUT /api/channels/:id
+   */
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { name, description, topic, type } = req.body;
+
+    const channel = await channelSettingsService.update(
+      req.user.organizationId,
+      req.user.userId,
+      req.user.role,
+      req.params.id,
+      { name, description, topic, type }
+    );
+
+    res.json({
+      success: true,
+      data: channelSettingsService.serialize(channel),
+      message: "Channel updated.",
+    });
+  }
+
+  /**
+   * Browse the organization's public channels
+   * @route GET /api/channels/browse
+   */
+  async browse(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { q, sort, page } = req.query;
+
+    const result = await channelDirectoryService.browse(
+      req.user.organizationId,
+      req.user.userId,
+      {
+        search: typeof q === "string" ? q : undefined,
+        sort: typeof sort === "string" ? sort : undefined,
+        page: page ? parseInt(page as string, 10) || 1 : 1,
+      }
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+
+  /**
+   * Preview a public channel's recent messages before joining
+   * @route GET /api/channels/:id/preview
+   */
+  async preview(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const preview = await channelDirectoryService.preview(
+      req.user.organizationId,
+      req.params.id
+    );
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  }
+
+  /**
+   * Join a public channel
+   * @route POST /api/channels/:id/join
+   */
+  async join(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const [channel, user] = await Promise.all([
+      Channel.findOne({
+        _id: req.params.id,
+        organizationId: req.user.organizationId,
+      }),
+      User.findById(req.user.userId),
+    ]);
+    if (!channel || !user) {
+      throw new NotFoundError("Channel not found.");
+    }
+
+    await channelMembershipService.join(channel, user);
+
+    res.json({
+      success: true,
+      message: `Joined #${channel.name}.`,
+    });
+  }
+
+  /**
+   * Leave a channel
+   * @route POST /api/channels/:id/leave
+   */
+  async leave(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const [channel, user] = await Promise.all([
+      Channel.findOne({
+        _id: req.params.id,
+        organizationId: req.user.organizationId,
+      }),
+      User.findById(req.user.userId),
+    ]);
+    if (!channel || !user) {
+      throw new NotFoundError("Channel not found.");
+    }
+
+    await channelMembershipService.leave(channel, user);
+
+    res.json({
+      success: true,
+      message: `Left #${channel.name}.`,
+    });
+  }
+
   /**
    * Add member to channel
    * @route POST /api/channels/:id/members
@@ -328,87 +493,7 @@ class ChannelController {
       throw new ConflictError("User is already a member.");
     }
 
-    // Add member
-    await ChannelMember.create({
-      organizationId: req.user.organizationId,
-      channelId: id,
-      userId,
-      role: "MEMBER",
-    });
-
-    // Create system message
-    const systemMessage = await Message.create({
-      organizationId: req.user.organizationId,
-      channelId: id,
-      senderId: req.user.userId,
-      content: `${user.name} was added to the channel`,
-      contentType: "SYSTEM",
-    });
-
-    // Populate sender for system message
-    await systemMessage.populate("senderId", "name avatar");
-
-    const messageData = {
-      id: systemMessage._id,
-      content: systemMessage.content,
-      contentType: systemMessage.contentType,
-      sender: systemMessage.senderId,
-      channelId: id,
-      createdAt: systemMessage.createdAt,
-    };
-
-    // Broadcast system message to channel
-    io.to(`channel:${id}`).emit("receive-message", messageData);
-
-    // Prepare member data for other users
-    const newMemberData = {
-      user: {
-        id: user._id,
-        name: user.name,
-        email: user.email,
-        avatar: user.avatar,
-        status: user.status,
-        lastSeenAt: user.lastSeenAt,
-      },
-      role: "MEMBER",
-      joinedAt: new Date(),
-    };
-
-    // Notify existing channel members
-    io.to(`channel:${id}`).emit("member-added", {
-      channelId: id,
-      member: newMemberData,
-    });
-
-    // Notify the added user with the full channel info
-    // We can use the same logic as getAll but for a single channel
-    const lastMsg = await Message.findOne({
-      channelId: channel._id,
-      isDeleted: false,
-    })
-      .sort({ createdAt: -1 })
-      .populate("senderId", "name")
-      .select("content contentType createdAt senderId");
-
-    const channelData = {
-      id: channel._id,
-      name: channel.name,
-      description: channel.description,
-      type: channel.type,
-      memberCount: await ChannelMember.countDocuments({ channelId: id }),
-      unreadCount: 0,
-      lastMessage: lastMsg
-        ? {
-            content: lastMsg.content,
-            senderName: (lastMsg.senderId as any)?.name,
-            createdAt: lastMsg.createdAt,
-          }
-        : null,
-      role: "MEMBER",
-      joinedAt: newMemberData.joinedAt,
-    };
-
-    io.to(`user:${userId}`).emit("channel-added", channelData);
+    await channelMembershipService.addMember(channel, user, req.user.userId);
 
     res.json({
       success: true,
@@ -427,12 +512,21 @@ class ChannelController {
 
     const { id, userId } = req.params;
 
-    await ChannelMember.deleteOne({
+    const result = await ChannelMember.deleteOne({
       channelId: id,
       userId,
       organizationId: req.user.organizationId,
     });
 
+    if (result.deletedCount > 0) {
+      webhookService.dispatchChannelEvent(
+        req.user.organizationId,
+        "member.removed",
+        id,
+        { channelId: id, userId, removedBy: req.user.userId }
+      );
+    }
+
     res.json({
       success: true,
       message: "Member removed successfully.",
@@ -440,42 +534,100 @@ class ChannelController {
   }
 
   /**
-   * Delete channel
-   * @route DELETE /api/channels/:id
+   * Archive channel: it becomes read-only and leaves the sidebar
+   * @route POST /api/channels/:id/archive
    */
-  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
-    if (!req.user || req.user.role !== "ADMIN") {
-      throw new ForbiddenError("Only admins can delete channels.");
+  async archive(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
     }
 
-    const { id } = req.params;
+    const channel = await channelArchiveService.archive(
+      req.user.organizationId,
+      req.user.userId,
+      req.user.role,
+      req.params.id
+    );
 
-    const channel = await Channel.findOne({
-      _id: id,
-      organizationId: req.user.organizationId,
+    res.json({
+      success: true,
+      data: {
+        id: channel._id,
+        isArchived: channel.isArchived,
+        archivedAt: channel.archivedAt,
+      },
+      message: "Channel archived.",
     });
+  }
 
-    if (!channel) {
-      throw new NotFoundError("Channel not found.");
+  /**
+   * Restore an archived channel
+   * @route POST /api/channels/:id/unarchive
+   */
+  async unarchive(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
     }
-    // Get all member IDs to notify them
-    const memberIds = (await ChannelMember.find({ channelId: id })).map((m) =>
-      m.userId.toString()
+
+    const channel = await channelArchiveService.unarchive(
+      req.user.organizationId,
+      req.user.userId,
+      req.user.role,
+      req.params.id
     );
 
-    // Delete all related data
-    await ChannelMember.deleteMany({ channelId: id });
-    await Message.deleteMany({ channelId: id });
-    await Channel.deleteOne({ _id: id });
+    res.json({
+      success: true,
+      data: {
+        id: channel._id,
+        isArchived: channel.isArchived,
+        archivedAt: null,
+      },
+      message: "Channel restored.",
+    });
+  }
 
-    // Notify members
-    for (const memberId of memberIds) {
-      io.to(`user:${memberId}`).emit("channel-deleted", { id });
+  /**
+   * Permanently delete an archived channel. The deletion runs in the
+   * background; its progress is at GET /api/channels/:id/deletion.
+   * @route DELETE /api/channels/:id
+   */
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
     }
 
+    const deletion = await channelArchiveService.requestDeletion(
+      req.user.organizationId,
+      req.user.userId,
+      req.user.role,
+      req.params.id
+    );
+
+    res.status(202).json({
+      success: true,
+      data: serializeChannelDeletion(deletion),
+      message: "Channel deletion started.",
+    });
+  }
+
+  /**
+   * Get the progress of a channel's permanent deletion
+   * @route GET /api/channels/:id/deletion
+   */
+  async getDeletion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user || req.user.role !== "ADMIN") {
+      throw new ForbiddenError("Only admins can view channel deletions.");
+    }
+
+    const deletion = await channelArchiveService.getDeletion(
+      req.user.organizationId,
+      req.params.id
+    );
+
     res.json({
       success: true,
-      message: "Channel deleted successfully.",
+      data: serializeChannelDeletion(deletion),
     });
   }
 
@@ -488,61 +640,64 @@ class ChannelController {
       throw new UnauthorizedError("Authentication required.");
     }
 
-    const { userId: targetUserId } = req.body;
+    // `userIds` starts a group conversation; `userId` is still accepted
+    const { userId: targetUserId, userIds } = req.body;
+    const targets: unknown[] = Array.isArray(userIds)
+      ? userIds
+      : targetUserId
+        ? [targetUserId]
+        : [];
 
-    if (!targetUserId) {
+    if (targets.length === 0) {
       throw new BadRequestError("Target user ID is required.");
     }
 
-    // Verify target user exists in org
-    const targetUser = await User.findOne({
-      _id: targetUserId,
-      organizationId: req.user.organizationId,
-    });
-
-    if (!targetUser) {
-      throw new NotFoundError("User not found.");
-    }
-
-    // Find or create DM channel
-    const channel = await Channel.findOrCreateDM(req.user.organizationId, [
+    const { channel, others } = await directMessageService.open(
+      req.user.organizationId,
       req.user.userId,
-      targetUserId,
-    ]);
-
-    // Ensure both users are members
-    for (const participantId of [req.user.userId, targetUserId]) {
-      const existing = await ChannelMember.findOne({
-        channelId: channel._id,
-        userId: participantId,
-      });
-
-      if (!existing) {
-        await ChannelMember.create({
-          organizationId: req.user.organizationId,
-          channelId: channel._id,
-          userId: participantId,
-          role: "MEMBER",
-        });
-      }
-    }
+      targets.map(String)
+    );
+    const dm = directMessageService.describe(others);
 
     res.json({
       success: true,
       data: {
         id: channel._id,
-        name: targetUser.name,
+        name: dm.name,
         type: "DM",
-        dmUser: {
-          id: targetUser._id,
-          name: targetUser.name,
-          avatar: targetUser.avatar,
-          status: targetUser.status,
-        },
+        dmUser: dm.dmUser,
+        dmUsers: dm.dmUsers,
       },
     });
   }
 
+  /**
+   * Turn a group DM into a private channel
+   * @route POST /api/channels/:id/convert
+   */
+  async convertToChannel(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const channel = await channelSettingsService.convertGroupDM(
+      req.user.organizationId,
+      req.user.userId,
+      req.user.role,
+      req.params.id,
+      req.body.name
+    );
+
+    res.json({
+      success: true,
+      data: channelSettingsService.serialize(channel),
+      message: `Converted to #${channel.name}.`,
+    });
+  }
+
   /**
    * Get all files/attachments in a channel
    * @route GET /api/channels/:id/files
@@ -700,6 +855,48 @@ class ChannelController {
     });
   }
 
+  /**
+   * Override the organization message retention window for a channel
+   * @route PUT /api/channels/:id/retention
+   */
+  async updateRetention(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user || req.user.role !== "ADMIN") {
+      throw new ForbiddenError("Only admins can change channel retention.");
+    }
+
+    const { id } = req.params;
+    const { retentionDays } = req.body;
+
+    // null clears the override and falls back to the organization policy
+    if (
+      retentionDays !== null &&
+      (!Number.isInteger(retentionDays) || retentionDays < 0)
+    ) {
+      throw new BadRequestError(
+        "Retention must be a whole number of days (0 = forever) or null to inherit."
+      );
+    }
+
+    const channel = await Channel.findOneAndUpdate(
+      { _id: id, organizationId: req.user.organizationId },
+      { retentionDays },
+      { new: true }
+    );
+
+    if (!channel) {
+      throw new NotFoundError("Channel not found.");
+    }
+
+    res.json({
+      success: true,
+      data: { retentionDays: channel.retentionDays ?? null },
+      message: "Channel retention updated.",
+    });
+  }
+
   /**
    * Update Kanban columns
    * @route PUT /api/channels/:id/columns
@@ -721,6 +918,7 @@ class ChannelController {
     if (!membership) {
       throw new ForbiddenError("You are not a member of this channel.");
     }
+    await channelArchiveService.assertWritable(id);
 
     const channel = await Channel.findByIdAndUpdate(
       id,
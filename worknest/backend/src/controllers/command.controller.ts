@@ -0,0 +1,73 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types/index.js";
+import { commandService } from "../services/index.js";
+import { UnauthorizedError, BadRequestError } from "../utils/AppError.js";
+
+/**
+ * Command Controller
+ * Lists and runs the slash commands available in the composer
+ */
+class CommandController {
+  /**
+   * List the commands the user can run, optionally in a specific channel
+   * @route GET /api/commands
+   */
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const channelId =
+      typeof req.query.channelId === "string" ? req.query.channelId : undefined;
+
+    const commands = await commandService.getAvailable(
+      req.user.organizationId,
+      req.user.userId,
+      req.user.role,
+      channelId
+    );
+
+    res.json({
+      success: true,
+      data: commands,
+    });
+  }
+
+  /**
+   * Run a command in a channel. The reply is also pushed to the user's
+   * sessions as an ephemeral message.
+   * @route POST /api/commands/execute
+   */
+  async execute(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { channelId, text } = req.body;
+    if (!channelId) {
+      throw new BadRequestError("Channel ID is required.");
+    }
+    if (typeof text !== "string" || !text.trim().startsWith("/")) {
+      throw new BadRequestError("A command is required.");
+    }
+    if (text.length > 4000) {
+      throw new BadRequestError("Commands cannot exceed 4000 characters.");
+    }
+
+    const result = await commandService.execute(
+      req.user.organizationId,
+      req.user.userId,
+      req.user.role,
+      channelId,
+      text
+    );
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  }
+}
+
+export const commandController = new CommandController();
+export default CommandController;
@@ -0,0 +1,79 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types/index.js";
+import { draftService } from "../services/index.js";
+import { UnauthorizedError } from "../utils/AppError.js";
+
+/**
+ * Draft Controller
+ * Unsent composer text, synced between a user's devices
+ */
+class DraftController {
+  /**
+   * List your drafts
+   * @route GET /api/drafts
+   */
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const drafts = await draftService.list(
+      req.user.organizationId,
+      req.user.userId
+    );
+
+    res.json({
+      success: true,
+      data: drafts,
+    });
+  }
+
+  /**
+   * Save the draft of a channel, or of a thread with `threadId`. An empty
+   * draft is deleted and `data` is null.
+   * @route PUT /api/drafts/:channelId
+   */
+  async save(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { content, threadId, replyToId, attachments } = req.body;
+    const draft = await draftService.save(
+      req.user.organizationId,
+      req.user.userId,
+      req.params.channelId,
+      { content, threadId, replyToId, attachments }
+    );
+
+    res.json({
+      success: true,
+      data: draft,
+    });
+  }
+
+  /**
+   * @route DELETE /api/drafts/:channelId?threadId=
+   */
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { threadId } = req.query;
+    await draftService.delete(
+      req.user.organizationId,
+      req.user.userId,
+      req.params.channelId,
+      typeof threadId === "string" && threadId ? threadId : null
+    );
+
+    res.json({
+      success: true,
+      message: "Draft deleted.",
+    });
+  }
+}
+
+export const draftController = new DraftController();
+export default DraftController;
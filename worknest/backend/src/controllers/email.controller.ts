@@ -0,0 +1,66 @@
+import { Request, Response } from "express";
+import { emailDigestService } from "../services/index.js";
+import { BadRequestError } from "../utils/AppError.js";
+
+const page = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>${title}</title></head>
+  <body style="font-family: Arial, sans-serif; max-width: 480px; margin: 60px auto; padding: 20px; text-align: center;">
+    <h2 style="color: #4f46e5;">${title}</h2>
+    ${body}
+  </body>
+</html>`;
+
+/**
+ * Email Controller
+ * Public endpoints behind the links in notification emails
+ */
+class EmailController {
+  /**
+   * Confirm before unsubscribing, so link scanners can't do it by
+   * following the link
+   * @route GET /email/unsubscribe?token=
+   */
+  async unsubscribePage(req: Request, res: Response): Promise<void> {
+    emailDigestService.verifyUnsubscribeToken(this.token(req));
+
+    res.type("html").send(
+      page(
+        "Unsubscribe from WorkNest emails",
+        `<p>You'll stop getting email digests of missed mentions and messages. You can turn them back on in your notification settings.</p>
+    <form method="POST">
+      <button type="submit" style="background-color: #4f46e5; color: white; padding: 12px 24px; border: 0; border-radius: 5px; font-weight: bold; cursor: pointer;">Unsubscribe</button>
+    </form>`
+      )
+    );
+  }
+
+  /**
+   * Turn off email notifications. Also the target of one-click unsubscribe
+   * (List-Unsubscribe-Post) from mail clients.
+   * @route POST /email/unsubscribe?token=
+   */
+  async unsubscribe(req: Request, res: Response): Promise<void> {
+    await emailDigestService.unsubscribe(this.token(req));
+
+    res
+      .type("html")
+      .send(
+        page(
+          "You're unsubscribed",
+          "<p>You won't get any more email digests. You can turn them back on in your notification settings.</p>"
+        )
+      );
+  }
+
+  private token(req: Request): string {
+    const { token } = req.query;
+    if (!token || typeof token !== "string") {
+      throw new BadRequestError("Unsubscribe token is required.");
+    }
+    return token;
+  }
+}
+
+export const emailController = new EmailController();
+export default EmailController;
@@ -0,0 +1,36 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types/index.js";
+import { ephemeralService } from "../services/index.js";
+import { UnauthorizedError, BadRequestError } from "../utils/AppError.js";
+
+/**
+ * Ephemeral Controller
+ * Handles clicks on ephemeral message action buttons
+ */
+class EphemeralController {
+  /**
+   * Run a button's action. Returns the message that replaces the clicked one,
+   * or null when it should be removed.
+   * @route POST /api/ephemeral/actions
+   */
+  async runAction(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { token } = req.body;
+    if (!token || typeof token !== "string") {
+      throw new BadRequestError("Action token is required.");
+    }
+
+    const message = await ephemeralService.runAction(req.user, token);
+
+    res.json({
+      success: true,
+      data: { message },
+    });
+  }
+}
+
+export const ephemeralController = new EphemeralController();
+export default EphemeralController;
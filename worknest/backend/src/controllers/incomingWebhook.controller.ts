@@ -0,0 +1,246 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import xss from "xss";
+import { AuthenticatedRequest } from "../types/index.js";
+import { Channel, ChannelMember, IncomingWebhook } from "../models/index.js";
+import { incomingWebhookService } from "../services/index.js";
+import {
+  UnauthorizedError,
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  isHttpUrl,
+} from "../utils/index.js";
+
+const MAX_INCOMING_WEBHOOKS_PER_CHANNEL = 10;
+
+/**
+ * Incoming Webhook Controller
+ * Channel-level management of incoming webhook URLs and the public endpoint
+ * integrations post to
+ */
+class IncomingWebhookController {
+  /**
+   * Post a message through an incoming webhook
+   * @route POST /hooks/:token
+   */
+  async receive(req: Request, res: Response): Promise<void> {
+    const webhook = await incomingWebhookService.findByToken(req.params.token);
+    if (!webhook) {
+      throw new NotFoundError("Webhook not found.");
+    }
+
+    const message = await incomingWebhookService.post(webhook, req.body || {});
+
+    res.status(201).json({
+      success: true,
+      data: { id: message.id, channelId: message.channelId },
+    });
+  }
+
+  /**
+   * List a channel's incoming webhooks
+   * @route GET /api/channels/:id/incoming-webhooks
+   */
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const channel = await this.findManagedChannel(req);
+    const webhooks = await IncomingWebhook.findByChannel(channel._id.toString());
+
+    res.json({
+      success: true,
+      data: webhooks,
+    });
+  }
+
+  /**
+   * Create an incoming webhook. The URL is only returned here and when its
+   * token is regenerated.
+   * @route POST /api/channels/:id/incoming-webhooks
+   */
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const channel = await this.findManagedChannel(req);
+    if (channel.type === "DM") {
+      throw new BadRequestError("Incoming webhooks cannot post to direct messages.");
+    }
+
+    const { name, avatar } = req.body;
+    this.assertName(name);
+    this.assertAvatar(avatar);
+
+    const count = await IncomingWebhook.countDocuments({ channelId: channel._id });
+    if (count >= MAX_INCOMING_WEBHOOKS_PER_CHANNEL) {
+      throw new BadRequestError(
+        `A channel can have up to ${MAX_INCOMING_WEBHOOKS_PER_CHANNEL} incoming webhooks.`
+      );
+    }
+
+    const { webhook, token } = await incomingWebhookService.create({
+      organizationId: req.user.organizationId,
+      channelId: channel._id.toString(),
+      name: xss(name.trim()),
+      avatar: avatar || null,
+      createdBy: req.user.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { webhook, url: this.buildUrl(req, token) },
+      message: "Incoming webhook created.",
+    });
+  }
+
+  /**
+   * Update an incoming webhook's bot name, avatar or active state
+   * @route PUT /api/channels/:id/incoming-webhooks/:webhookId
+   */
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const webhook = await this.findWebhook(req);
+    const { name, avatar, isActive } = req.body;
+
+    if (name !== undefined) {
+      this.assertName(name);
+      webhook.name = xss(name.trim());
+    }
+
+    if (avatar !== undefined) {
+      this.assertAvatar(avatar);
+      webhook.avatar = avatar || null;
+    }
+
+    if (isActive !== undefined) {
+      webhook.isActive = !!isActive;
+    }
+
+    await webhook.save();
+
+    res.json({
+      success: true,
+      data: webhook,
+      message: "Incoming webhook updated.",
+    });
+  }
+
+  /**
+   * Delete an incoming webhook. Messages it posted stay in the channel.
+   * @route DELETE /api/channels/:id/incoming-webhooks/:webhookId
+   */
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const webhook = await this.findWebhook(req);
+    await webhook.deleteOne();
+
+    res.json({
+      success: true,
+      message: "Incoming webhook deleted.",
+    });
+  }
+
+  /**
+   * Issue a new URL, invalidating the old one
+   * @route POST /api/channels/:id/incoming-webhooks/:webhookId/regenerate
+   */
+  async regenerate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const webhook = await this.findWebhook(req);
+    const token = await incomingWebhookService.regenerateToken(webhook);
+
+    res.json({
+      success: true,
+      data: { webhook, url: this.buildUrl(req, token) },
+      message: "Incoming webhook URL regenerated.",
+    });
+  }
+
+  /**
+   * Channel the user may manage webhooks for: organization admins and
+   * channel admins
+   */
+  private async findManagedChannel(req: AuthenticatedRequest) {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new NotFoundError("Channel not found.");
+    }
+
+    const channel = await Channel.findOne({
+      _id: id,
+      organizationId: req.user!.organizationId,
+    });
+    if (!channel) {
+      throw new NotFoundError("Channel not found.");
+    }
+
+    if (req.user!.role !== "ADMIN") {
+      const membership = await ChannelMember.findOne({
+        channelId: channel._id,
+        userId: req.user!.userId,
+      });
+      if (membership?.role !== "ADMIN") {
+        throw new ForbiddenError(
+          "Only channel admins can manage incoming webhooks."
+        );
+      }
+    }
+
+    return channel;
+  }
+
+  private async findWebhook(req: AuthenticatedRequest) {
+    const channel = await this.findManagedChannel(req);
+    const { webhookId } = req.params;
+    if (!mongoose.isValidObjectId(webhookId)) {
+      throw new NotFoundError("Incoming webhook not found.");
+    }
+
+    const webhook = await IncomingWebhook.findOne({
+      _id: webhookId,
+      channelId: channel._id,
+    });
+    if (!webhook) {
+      throw new NotFoundError("Incoming webhook not found.");
+    }
+
+    return webhook;
+  }
+
+  private buildUrl(req: Request, token: string): string {
+    const baseUrl =
+      process.env.PUBLIC_API_URL || `${req.protocol}://${req.get("host")}`;
+    return `${baseUrl.replace(/\/$/, "")}/hooks/${token}`;
+  }
+
+  private assertName(name: unknown): asserts name is string {
+    if (typeof name !== "string" || name.trim().length === 0) {
+      throw new BadRequestError("Webhook name is required.");
+    }
+    if (name.trim().length > 80) {
+      throw new BadRequestError("Webhook name cannot exceed 80 characters.");
+    }
+  }
+
+  private assertAvatar(avatar: unknown): void {
+    if (avatar && !isHttpUrl(avatar)) {
+      throw new BadRequestError("Avatar must be an http(s) URL.");
+    }
+  }
+}
+
+export const incomingWebhookController = new IncomingWebhookController();
+export default IncomingWebhookController;
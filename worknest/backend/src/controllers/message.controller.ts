@@ -1,14 +1,28 @@
 import { Response } from "express";
 import { AuthenticatedRequest } from "../types/index.js";
-import { Message, ChannelMember, Channel } from "../models/index.js";
+import {
+  Message,
+  ChannelMember,
+  Channel,
+  getMessageSender,
+  serializePoll,
+} from "../models/index.js";
 import { io } from "../server.js";
+import {
+  channelArchiveService,
+  emailDigestService,
+  messageService,
+  readStateService,
+  searchHistoryService,
+  webhookService,
+} from "../services/index.js";
 import {
   BadRequestError,
   UnauthorizedError,
   ForbiddenError,
   NotFoundError,
 } from "../utils/AppError.js";
-import xss from "xss";
+import { sanitizeMessageContent } from "../utils/messageContent.js";
 
 /**
  * Message Controller
@@ -81,9 +95,11 @@ class MessageController {
     }
 
     // Mark as read
-    membership.lastReadAt = new Date();
-    membership.unreadCount = 0;
-    await membership.save();
+    await readStateService.markRead(
+      req.user.organizationId,
+      channelId,
+      req.user.userId
+    );
 
     res.json({
       success: true,
@@ -91,18 +107,19 @@ class MessageController {
         id: msg._id,
         content: msg.content,
         contentType: msg.contentType,
-        sender: msg.senderId,
+        sender: getMessageSender(msg),
         attachments: msg.attachments,
+        blocks: msg.blocks,
+        poll: msg.poll ? serializePoll(msg.poll, req.user!.userId) : undefined,
         replyTo: msg.replyTo
           ? {
               id: (msg.replyTo as any).id || (msg.replyTo as any)._id,
               content: (msg.replyTo as any).content,
-              sender: (msg.replyTo as any).senderId,
+              sender: getMessageSender(msg.replyTo as any),
             }
           : null,
         isEdited: msg.isEdited,
         reactions: msg.reactions,
-        readBy: msg.readBy,
         createdAt: msg.createdAt,
       })),
     });
@@ -134,54 +151,16 @@ class MessageController {
       throw new ForbiddenError("You are not a member of this channel.");
     }
 
-    // Create message
-    const message = await Message.create({
+    const { messageData } = await messageService.post({
       organizationId: req.user.organizationId,
       channelId,
       senderId: req.user.userId,
-      content: xss(content.trim()),
+      content,
       contentType,
-      replyTo: replyTo || null,
-      attachments: attachments || [],
+      replyTo,
+      attachments,
     });
 
-    // Update channel's last message time
-    await Channel.updateOne({ _id: channelId }, { lastMessageAt: new Date() });
-
-    // Increment unread count for other members
-    await ChannelMember.updateMany(
-      { channelId, userId: { $ne: req.user.userId } },
-      { $inc: { unreadCount: 1 } }
-    );
-
-    // Populate sender and replyTo info
-    await message.populate([
-      { path: "senderId", select: "name email avatar" },
-      {
-        path: "replyTo",
-        populate: { path: "senderId", select: "name" },
-      },
-    ]);
-
-    const messageData = {
-      id: message._id,
-      content: message.content,
-      contentType: message.contentType,
-      sender: message.senderId,
-      replyTo: message.replyTo
-        ? {
-            id: (message.replyTo as any).id || (message.replyTo as any)._id,
-            content: (message.replyTo as any).content,
-            sender: (message.replyTo as any).senderId,
-          }
-        : null,
-      attachments: message.attachments || [],
-      createdAt: message.createdAt,
-    };
-
-    // Broadcast new message
-    io.to(`channel:${channelId}`).emit("receive-message", messageData);
-
     res.status(201).json({
       success: true,
       data: messageData,
@@ -214,8 +193,12 @@ class MessageController {
     if (!message) {
       throw new NotFoundError("Message not found or you cannot edit it.");
     }
+    if (message.contentType === "POLL") {
+      throw new BadRequestError("Polls cannot be edited.");
+    }
+    await channelArchiveService.assertWritable(message.channelId);
 
-    message.content = xss(content.trim());
+    message.content = sanitizeMessageContent(content.trim());
     message.isEdited = true;
     message.editedAt = new Date();
     await message.save();
@@ -234,6 +217,16 @@ class MessageController {
     // Broadcast update
     io.to(`channel:${message.channelId}`).emit("message-updated", updatedData);
 
+    webhookService.dispatchChannelEvent(
+      req.user.organizationId,
+      "message.updated",
+      message.channelId,
+      {
+        ...webhookService.serializeMessage(message),
+        editedAt: message.editedAt,
+      }
+    );
+
     res.json({
       success: true,
       data: updatedData,
@@ -267,6 +260,7 @@ class MessageController {
     if (!message) {
       throw new NotFoundError("Message not found or you cannot delete it.");
     }
+    await channelArchiveService.assertWritable(message.channelId);
 
     message.isDeleted = true;
     message.deletedAt = new Date();
@@ -283,6 +277,18 @@ class MessageController {
       isDeleted: true,
     });
 
+    webhookService.dispatchChannelEvent(
+      req.user.organizationId,
+      "message.deleted",
+      message.channelId,
+      {
+        id: message._id,
+        channelId: message.channelId,
+        deletedBy: req.user.userId,
+        deletedAt: message.deletedAt,
+      }
+    );
+
     res.json({
       success: true,
       message: "Message deleted successfully.",
@@ -327,6 +333,7 @@ class MessageController {
     if (!membership) {
       throw new ForbiddenError("You are not a member of this channel.");
     }
+    await channelArchiveService.assertWritable(message.channelId);
 
     // Initialize reactions map if needed
     if (!message.reactions) {
@@ -373,43 +380,65 @@ class MessageController {
 
     const { channelId } = req.params;
 
-    // Verify membership
-    const membership = await ChannelMember.findOne({
+    const lastReadAt = await readStateService.markRead(
+      req.user.organizationId,
       channelId,
-      userId: req.user.userId,
+      req.user.userId
+    );
+
+    if (!lastReadAt) {
+      throw new ForbiddenError("You are not a member of this channel.");
+    }
+
+    res.json({
+      success: true,
+      data: { lastReadAt },
+      message: "Messages marked as read.",
     });
+  }
 
-    if (!membership) {
+  /**
+   * Get the read cursors of a channel's members
+   * @route GET /api/messages/:channelId/read-state
+   */
+  async getReadState(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { channelId } = req.params;
+
+    const isMember = await ChannelMember.isMember(channelId, req.user.userId);
+    if (!isMember) {
       throw new ForbiddenError("You are not a member of this channel.");
     }
 
-    // Update unread count for member
-    membership.lastReadAt = new Date();
-    membership.unreadCount = 0;
-    await membership.save();
+    const cursors = await readStateService.getCursors(channelId);
 
-    // Mark messages as read by this user
-    // Only mark messages sent before or at current time
-    await Message.updateMany(
-      {
-        channelId,
-        organizationId: req.user.organizationId,
-        "readBy.userId": { $ne: req.user.userId },
-        isDeleted: false,
-      },
-      {
-        $push: {
-          readBy: {
-            userId: req.user.userId,
-            readAt: new Date(),
-          },
-        },
-      }
+    res.json({
+      success: true,
+      data: cursors,
+    });
+  }
+
+  /**
+   * Get who has seen a message
+   * @route GET /api/messages/:id/seen-by
+   */
+  async getSeenBy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const seenBy = await readStateService.getSeenBy(
+      req.user.organizationId,
+      req.params.id,
+      req.user.userId
     );
 
     res.json({
       success: true,
-      message: "Messages marked as read.",
+      data: seenBy,
     });
   }
 
@@ -443,6 +472,7 @@ class MessageController {
     if (!membership) {
       throw new ForbiddenError("You are not a member of this channel.");
     }
+    await channelArchiveService.assertWritable(message.channelId);
 
     message.isPinned = !message.isPinned;
     if (message.isPinned) {
@@ -508,7 +538,7 @@ class MessageController {
       data: messages.map((msg) => ({
         id: msg._id,
         content: msg.content,
-        sender: msg.senderId,
+        sender: getMessageSender(msg),
         isPinned: msg.isPinned,
         pinnedAt: msg.pinnedAt,
         createdAt: msg.createdAt,
@@ -557,7 +587,7 @@ class MessageController {
       data: messages.map((msg) => ({
         id: msg._id,
         content: msg.content,
-        sender: msg.senderId,
+        sender: getMessageSender(msg),
         createdAt: msg.createdAt,
       })),
     });
@@ -616,7 +646,7 @@ class MessageController {
         parent: {
           id: parentMessage._id,
           content: parentMessage.content,
-          sender: parentMessage.senderId,
+          sender: getMessageSender(parentMessage),
           attachments: parentMessage.attachments,
           createdAt: parentMessage.createdAt,
           threadCount: parentMessage.threadCount,
@@ -624,7 +654,7 @@ class MessageController {
         replies: replies.map((msg) => ({
           id: msg._id,
           content: msg.content,
-          sender: msg.senderId,
+          sender: getMessageSender(msg),
           attachments: msg.attachments,
           createdAt: msg.createdAt,
           isEdited: msg.isEdited,
@@ -673,13 +703,14 @@ class MessageController {
     if (!membership) {
       throw new ForbiddenError("You are not a member of this channel.");
     }
+    await channelArchiveService.assertWritable(parentMessage.channelId);
 
     // Create thread reply
     const threadReply = await Message.create({
       organizationId: req.user.organizationId,
       channelId: parentMessage.channelId,
       senderId: req.user.userId,
-      content: xss(content.trim()),
+      content: sanitizeMessageContent(content.trim()),
       contentType: attachments.length > 0 ? "FILE" : "TEXT",
       attachments,
       parentMessageId: messageId,
@@ -710,6 +741,21 @@ class MessageController {
       threadCount: parentMessage.threadCount + 1,
     });
 
+    searchHistoryService
+      .notifyMatches(threadReply)
+      .catch((error) =>
+        console.error("Saved search notifications failed:", error)
+      );
+    webhookService.dispatchChannelEvent(
+      req.user.organizationId,
+      "message.created",
+      parentMessage.channelId,
+      webhookService.serializeMessage(threadReply)
+    );
+    emailDigestService
+      .queueMessage(threadReply)
+      .catch((error) => console.error("Email digest queueing failed:", error));
+
     res.status(201).json({
       success: true,
       data: replyData,
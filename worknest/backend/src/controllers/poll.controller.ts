@@ -0,0 +1,90 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types/index.js";
+import { pollService } from "../services/index.js";
+import { BadRequestError, UnauthorizedError } from "../utils/AppError.js";
+
+/**
+ * Poll Controller
+ * Creating, voting on and closing POLL messages
+ */
+class PollController {
+  /**
+   * Post a poll to a channel
+   * @route POST /api/polls
+   */
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { channelId, question, options, multipleChoice, anonymous, closesAt } =
+      req.body;
+    if (!channelId || typeof channelId !== "string") {
+      throw new BadRequestError("Channel ID is required.");
+    }
+
+    const message = await pollService.create({
+      organizationId: req.user.organizationId,
+      channelId,
+      senderId: req.user.userId,
+      question,
+      options,
+      multipleChoice,
+      anonymous,
+      closesAt,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: message,
+    });
+  }
+
+  /**
+   * Replace your votes on a poll; an empty `optionIds` removes them
+   * @route PUT /api/polls/:messageId/votes
+   */
+  async vote(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const poll = await pollService.vote(
+      req.user.organizationId,
+      req.user.userId,
+      req.params.messageId,
+      req.body.optionIds
+    );
+
+    res.json({
+      success: true,
+      data: { poll },
+    });
+  }
+
+  /**
+   * Close a poll before its close time
+   * @route POST /api/polls/:messageId/close
+   */
+  async close(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const poll = await pollService.close(
+      req.user.organizationId,
+      req.user.userId,
+      req.user.role,
+      req.params.messageId
+    );
+
+    res.json({
+      success: true,
+      data: { poll },
+      message: "Poll closed.",
+    });
+  }
+}
+
+export const pollController = new PollController();
+export default PollController;
@@ -0,0 +1,123 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types/index.js";
+import { reminderService } from "../services/index.js";
+import { UnauthorizedError } from "../utils/AppError.js";
+
+/**
+ * Reminder Controller
+ * A user's own reminders about free text or messages
+ */
+class ReminderController {
+  /**
+   * List your reminders that are not completed
+   * @route GET /api/reminders
+   */
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const reminders = await reminderService.list(
+      req.user.organizationId,
+      req.user.userId
+    );
+
+    res.json({
+      success: true,
+      data: reminders,
+    });
+  }
+
+  /**
+   * Set a reminder. `when` is "in 2 hours", "tomorrow at 9am" and the like
+   * on the user's clock, or an ISO time.
+   * @route POST /api/reminders
+   */
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { text, messageId, channelId, when } = req.body;
+    const reminder = await reminderService.create({
+      organizationId: req.user.organizationId,
+      userId: req.user.userId,
+      channelId: typeof channelId === "string" ? channelId : null,
+      messageId: typeof messageId === "string" ? messageId : null,
+      text: typeof text === "string" ? text : "",
+      remindAt: await reminderService.resolveTime(req.user.userId, when),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: reminder,
+      message: "Reminder set.",
+    });
+  }
+
+  /**
+   * Deliver a reminder again later
+   * @route POST /api/reminders/:id/snooze
+   */
+  async snooze(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const reminder = await reminderService.snooze(
+      req.user.organizationId,
+      req.user.userId,
+      req.params.id,
+      req.body.when
+    );
+
+    res.json({
+      success: true,
+      data: reminder,
+      message: "Reminder snoozed.",
+    });
+  }
+
+  /**
+   * @route POST /api/reminders/:id/complete
+   */
+  async complete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    await reminderService.complete(
+      req.user.organizationId,
+      req.user.userId,
+      req.params.id
+    );
+
+    res.json({
+      success: true,
+      message: "Reminder completed.",
+    });
+  }
+
+  /**
+   * @route DELETE /api/reminders/:id
+   */
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    await reminderService.delete(
+      req.user.organizationId,
+      req.user.userId,
+      req.params.id
+    );
+
+    res.json({
+      success: true,
+      message: "Reminder deleted.",
+    });
+  }
+}
+
+export const reminderController = new ReminderController();
+export default ReminderController;
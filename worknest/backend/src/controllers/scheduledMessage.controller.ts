@@ -0,0 +1,111 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types/index.js";
+import { scheduledMessageService } from "../services/index.js";
+import { BadRequestError, UnauthorizedError } from "../utils/AppError.js";
+
+/**
+ * Scheduled Message Controller
+ * A user's own "send later" messages
+ */
+class ScheduledMessageController {
+  /**
+   * List your pending and failed scheduled messages
+   * @route GET /api/scheduled-messages?channelId=
+   */
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { channelId } = req.query;
+    const scheduledMessages = await scheduledMessageService.list(
+      req.user.organizationId,
+      req.user.userId,
+      typeof channelId === "string" && channelId ? channelId : undefined
+    );
+
+    res.json({
+      success: true,
+      data: scheduledMessages,
+    });
+  }
+
+  /**
+   * Schedule a message. `sendAt` is a local time in `timezone`, which
+   * defaults to the user's profile timezone.
+   * @route POST /api/scheduled-messages
+   */
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { channelId, content, sendAt, timezone } = req.body;
+    if (!channelId || typeof channelId !== "string") {
+      throw new BadRequestError("Channel ID is required.");
+    }
+
+    const scheduledMessage = await scheduledMessageService.schedule({
+      organizationId: req.user.organizationId,
+      channelId,
+      senderId: req.user.userId,
+      content,
+      sendAt,
+      timezone,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: scheduledMessage,
+      message: "Message scheduled.",
+    });
+  }
+
+  /**
+   * Edit the text or send time of a scheduled message
+   * @route PUT /api/scheduled-messages/:id
+   */
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { content, sendAt, timezone } = req.body;
+    const scheduledMessage = await scheduledMessageService.update(
+      req.user.organizationId,
+      req.user.userId,
+      req.params.id,
+      { content, sendAt, timezone }
+    );
+
+    res.json({
+      success: true,
+      data: scheduledMessage,
+      message: "Scheduled message updated.",
+    });
+  }
+
+  /**
+   * Cancel a scheduled message
+   * @route DELETE /api/scheduled-messages/:id
+   */
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    await scheduledMessageService.cancel(
+      req.user.organizationId,
+      req.user.userId,
+      req.params.id
+    );
+
+    res.json({
+      success: true,
+      message: "Scheduled message cancelled.",
+    });
+  }
+}
+
+export const scheduledMessageController = new ScheduledMessageController();
+export default ScheduledMessageController;
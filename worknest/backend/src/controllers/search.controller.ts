@@ -1,15 +1,25 @@
 import { Response } from "express";
+import mongoose from "mongoose";
 import { AuthenticatedRequest } from "../types/index.js";
-import { Message, ChannelMember, Channel } from "../models/index.js";
-import { UnauthorizedError, BadRequestError } from "../utils/AppError.js";
+import { SearchHistory, SavedSearch } from "../models/index.js";
+import { MAX_SAVED_SEARCHES } from "../models/SavedSearch.js";
+import { searchService, searchHistoryService } from "../services/index.js";
+import { SearchType, SEARCH_TYPES } from "../services/search.service.js";
+import {
+  UnauthorizedError,
+  BadRequestError,
+  NotFoundError,
+  ConflictError,
+} from "../utils/AppError.js";
 
 /**
  * Search Controller
- * Handles global search across messages and files
+ * Handles global search across messages, threads, files, wiki pages and tasks
  */
 class SearchController {
   /**
-   * Global search across all accessible channels
+   * Global search across all accessible channels. `q` may contain operators
+   * (from:, in:, has:, is:, before:, after:, on:) alongside the search text
    * @route GET /api/search
    */
   async search(req: AuthenticatedRequest, res: Response): Promise<void> {
@@ -23,7 +33,7 @@ class SearchController {
       userId,
       startDate,
       endDate,
-      type = "all", // all, messages, files
+      type = "all",
       page = "1",
       limit = "20",
     } = req.query;
@@ -32,208 +42,310 @@ class SearchController {
       throw new BadRequestError("Search query must be at least 2 characters.");
     }
 
+    if (!SEARCH_TYPES.includes(type as SearchType)) {
+      throw new BadRequestError(
+        `Search type must be one of: ${SEARCH_TYPES.join(", ")}.`
+      );
+    }
+
     const searchQuery = (q as string).trim();
-    const pageNum = Math.max(1, parseInt(page as string));
-    const limitNum = Math.min(50, Math.max(1, parseInt(limit as string)));
-    const skip = (pageNum - 1) * limitNum;
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(50, Math.max(1, parseInt(limit as string) || 20));
 
-    // Get all channels the user is a member of
-    const userMemberships = await ChannelMember.find({
-      userId: req.user.userId,
+    const result = await searchService.search({
       organizationId: req.user.organizationId,
-    }).select("channelId");
-
-    const accessibleChannelIds = userMemberships.map((m) => m.channelId);
-
-    if (accessibleChannelIds.length === 0) {
-      res.json({
-        success: true,
-        data: {
-          messages: [],
-          files: [],
-          total: 0,
-          page: pageNum,
-          totalPages: 0,
-        },
-      });
-      return;
+      userId: req.user.userId,
+      text: searchQuery,
+      type: type as SearchType,
+      filters: {
+        channelIds: channelId ? [channelId as string] : undefined,
+        senderIds:
+          userId && mongoose.isValidObjectId(userId)
+            ? [userId as string]
+            : undefined,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      },
+      page: pageNum,
+      limit: limitNum,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        ...result.results,
+        facets: result.facets,
+        total: result.total,
+        page: result.page,
+        totalPages: result.totalPages,
+        query: result.query,
+        ignoredOperators: result.ignoredOperators,
+      },
+    });
+  }
+
+  /**
+   * Get recent search history for the user
+   * @route GET /api/search/history
+   */
+  async getHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
     }
 
-    // Build search query
-    const baseQuery: Record<string, unknown> = {
-      organizationId: req.user.organizationId,
-      channelId: channelId ? channelId : { $in: accessibleChannelIds },
-      isDeleted: false,
-    };
+    const recentSearches = await SearchHistory.findRecent(req.user.userId);
+
+    res.json({
+      success: true,
+      data: {
+        recentSearches,
+      },
+    });
+  }
 
-    // Filter by user if specified
-    if (userId) {
-      baseQuery.senderId = userId;
+  /**
+   * Record a search the user ran
+   * @route POST /api/search/history
+   */
+  async recordHistory(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
     }
 
-    // Filter by date range
-    if (startDate || endDate) {
-      baseQuery.createdAt = {};
-      if (startDate) {
-        (baseQuery.createdAt as Record<string, unknown>).$gte = new Date(
-          startDate as string
-        );
-      }
-      if (endDate) {
-        (baseQuery.createdAt as Record<string, unknown>).$lte = new Date(
-          endDate as string
-        );
-      }
+    const { query, filters } = req.body;
+    this.assertQuery(query);
+
+    const entry = await searchHistoryService.record(
+      req.user.organizationId,
+      req.user.userId,
+      query,
+      filters
+    );
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+    });
+  }
+
+  /**
+   * Clear the user's search history
+   * @route DELETE /api/search/history
+   */
+  async clearHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    await SearchHistory.deleteMany({ userId: req.user.userId });
+
+    res.json({
+      success: true,
+      message: "Search history cleared.",
+    });
+  }
+
+  /**
+   * Remove a single entry from the user's search history
+   * @route DELETE /api/search/history/:id
+   */
+  async deleteHistoryEntry(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const result = await SearchHistory.deleteOne({
+      _id: req.params.id,
+      userId: req.user.userId,
+    });
+
+    if (result.deletedCount === 0) {
+      throw new NotFoundError("Search history entry not found.");
     }
 
-    let messages: unknown[] = [];
-    let files: unknown[] = [];
-    let totalMessages = 0;
-    let totalFiles = 0;
-
-    // Search messages
-    if (type === "all" || type === "messages") {
-      const messageQuery = {
-        ...baseQuery,
-        content: { $regex: searchQuery, $options: "i" },
-        parentMessageId: null, // Only search main messages, not thread replies
-      };
-
-      [messages, totalMessages] = await Promise.all([
-        Message.find(messageQuery)
-          .populate("senderId", "name email avatar")
-          .populate("channelId", "name type")
-          .sort({ createdAt: -1 })
-          .skip(type === "messages" ? skip : 0)
-          .limit(type === "messages" ? limitNum : 10),
-        Message.countDocuments(messageQuery),
-      ]);
-    }
-
-    // Search files (attachments)
-    if (type === "all" || type === "files") {
-      const fileQuery = {
-        ...baseQuery,
-        "attachments.0": { $exists: true }, // Has at least one attachment
-        $or: [
-          { "attachments.name": { $regex: searchQuery, $options: "i" } },
-          { content: { $regex: searchQuery, $options: "i" } },
-        ],
-      };
-
-      const fileMessages = await Message.find(fileQuery)
-        .populate("senderId", "name email avatar")
-        .populate("channelId", "name type")
-        .sort({ createdAt: -1 })
-        .skip(type === "files" ? skip : 0)
-        .limit(type === "files" ? limitNum : 10);
-
-      // Extract individual files from messages
-      files = fileMessages.flatMap((msg) =>
-        (msg.attachments || []).map((att) => ({
-          id: `${msg._id}-${att.name}`,
-          messageId: msg._id,
-          channelId: msg.channelId,
-          sender: msg.senderId,
-          file: att,
-          createdAt: msg.createdAt,
-        }))
+    res.json({
+      success: true,
+      message: "Search removed from history.",
+    });
+  }
+
+  /**
+   * Get the user's saved searches
+   * @route GET /api/search/saved
+   */
+  async getSavedSearches(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const savedSearches = await SavedSearch.find({
+      userId: req.user.userId,
+    }).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: savedSearches,
+    });
+  }
+
+  /**
+   * Save a named search
+   * @route POST /api/search/saved
+   */
+  async createSavedSearch(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { name, query, filters, notify = false } = req.body;
+    this.assertName(name);
+    this.assertQuery(query);
+
+    const count = await SavedSearch.countDocuments({ userId: req.user.userId });
+    if (count >= MAX_SAVED_SEARCHES) {
+      throw new BadRequestError(
+        `You can save up to ${MAX_SAVED_SEARCHES} searches.`
       );
+    }
 
-      totalFiles = await Message.countDocuments(fileQuery);
+    const existing = await SavedSearch.findOne({
+      userId: req.user.userId,
+      name: name.trim(),
+    });
+    if (existing) {
+      throw new ConflictError("A saved search with this name already exists.");
     }
 
-    // Get channel info for context
-    const channelIds = [
-      ...new Set([
-        ...messages.map((m: any) => m.channelId?._id?.toString()),
-        ...files.map((f: any) => f.channelId?._id?.toString()),
-      ]),
-    ].filter(Boolean);
+    const savedSearch = new SavedSearch({
+      organizationId: req.user.organizationId,
+      userId: req.user.userId,
+      name: name.trim(),
+      query: query.trim(),
+      filters: searchHistoryService.normalizeFilters(filters),
+      notify: !!notify,
+    });
+    await searchHistoryService.resolve(savedSearch);
+    await savedSearch.save();
 
-    const channels = await Channel.find({
-      _id: { $in: channelIds },
-    }).select("name type");
+    res.status(201).json({
+      success: true,
+      data: savedSearch,
+      message: "Search saved.",
+    });
+  }
 
-    const channelMap = new Map(
-      channels.map((c) => [c._id.toString(), { name: c.name, type: c.type }])
-    );
+  /**
+   * Rename, change or toggle notifications for a saved search
+   * @route PUT /api/search/saved/:id
+   */
+  async updateSavedSearch(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
 
-    // Format results
-    const formattedMessages = messages.map((msg: any) => ({
-      id: msg._id,
-      content: msg.content,
-      contentType: msg.contentType,
-      sender: msg.senderId,
-      channel: {
-        id: msg.channelId?._id || msg.channelId,
-        name:
-          msg.channelId?.name ||
-          channelMap.get(msg.channelId?.toString())?.name,
-        type:
-          msg.channelId?.type ||
-          channelMap.get(msg.channelId?.toString())?.type,
-      },
-      attachments: msg.attachments,
-      createdAt: msg.createdAt,
-      threadCount: msg.threadCount,
-    }));
-
-    const formattedFiles = files.map((f: any) => ({
-      id: f.id,
-      messageId: f.messageId,
-      channel: {
-        id: f.channelId?._id || f.channelId,
-        name:
-          f.channelId?.name || channelMap.get(f.channelId?.toString())?.name,
-        type:
-          f.channelId?.type || channelMap.get(f.channelId?.toString())?.type,
-      },
-      sender: f.sender,
-      file: f.file,
-      createdAt: f.createdAt,
-    }));
-
-    const total =
-      type === "messages"
-        ? totalMessages
-        : type === "files"
-        ? totalFiles
-        : totalMessages + totalFiles;
-    const totalPages = Math.ceil(total / limitNum);
+    const savedSearch = await SavedSearch.findOne({
+      _id: req.params.id,
+      userId: req.user.userId,
+    });
+    if (!savedSearch) {
+      throw new NotFoundError("Saved search not found.");
+    }
+
+    const { name, query, filters, notify } = req.body;
+
+    if (name !== undefined) {
+      this.assertName(name);
+      const duplicate = await SavedSearch.findOne({
+        userId: req.user.userId,
+        name: name.trim(),
+        _id: { $ne: savedSearch._id },
+      });
+      if (duplicate) {
+        throw new ConflictError(
+          "A saved search with this name already exists."
+        );
+      }
+      savedSearch.name = name.trim();
+    }
+
+    if (query !== undefined) {
+      this.assertQuery(query);
+      savedSearch.query = query.trim();
+    }
+
+    if (filters !== undefined) {
+      savedSearch.filters = searchHistoryService.normalizeFilters(filters);
+    }
+
+    if (notify !== undefined) {
+      savedSearch.notify = !!notify;
+    }
+
+    if (query !== undefined || filters !== undefined) {
+      await searchHistoryService.resolve(savedSearch);
+    }
+    await savedSearch.save();
 
     res.json({
       success: true,
-      data: {
-        messages: formattedMessages,
-        files: formattedFiles,
-        total,
-        totalMessages,
-        totalFiles,
-        page: pageNum,
-        totalPages,
-        query: searchQuery,
-      },
+      data: savedSearch,
+      message: "Saved search updated.",
     });
   }
 
   /**
-   * Get recent search history for the user
-   * @route GET /api/search/history
+   * Delete a saved search
+   * @route DELETE /api/search/saved/:id
    */
-  async getHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+  async deleteSavedSearch(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
     if (!req.user) {
       throw new UnauthorizedError("Authentication required.");
     }
 
-    // For now, return empty - could be stored in Redis or user preferences
+    const result = await SavedSearch.deleteOne({
+      _id: req.params.id,
+      userId: req.user.userId,
+    });
+
+    if (result.deletedCount === 0) {
+      throw new NotFoundError("Saved search not found.");
+    }
+
     res.json({
       success: true,
-      data: {
-        recentSearches: [],
-      },
+      message: "Saved search deleted.",
     });
   }
+
+  private assertQuery(query: unknown): asserts query is string {
+    if (typeof query !== "string" || query.trim().length < 2) {
+      throw new BadRequestError("Search query must be at least 2 characters.");
+    }
+  }
+
+  private assertName(name: unknown): asserts name is string {
+    if (typeof name !== "string" || name.trim().length === 0) {
+      throw new BadRequestError("Saved search name is required.");
+    }
+  }
 }
 
 export const searchController = new SearchController();
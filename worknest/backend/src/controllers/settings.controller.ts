@@ -1,12 +1,24 @@
 import { Response } from "express";
+import mongoose from "mongoose";
 import { AuthenticatedRequest } from "../types/index.js";
+import { getIO } from "../config/socket.js";
 import { Organization, User } from "../models/index.js";
+import {
+  defaultChannelService,
+  organizationAdminService,
+  retentionService,
+  sessionService,
+} from "../services/index.js";
 import {
   BadRequestError,
   UnauthorizedError,
   ForbiddenError,
   NotFoundError,
 } from "../utils/AppError.js";
+import {
+  MIN_PASSWORD_LENGTH,
+  MAX_PASSWORD_HISTORY,
+} from "../utils/passwordPolicy.js";
 
 /**
  * Settings Controller
@@ -44,12 +56,15 @@ class SettingsController {
           defaultChannels: ["general"],
           allowPrivateChannels: true,
           messageRetentionDays: 0,
+          retentionMode: "SOFT",
         },
         security: {
           passwordPolicy: {
             minLength: 8,
             requireNumbers: false,
             requireSymbols: false,
+            historyCount: 0,
+            expiryDays: 0,
           },
           sessionTimeoutMinutes: 1440,
         },
@@ -73,15 +88,73 @@ class SettingsController {
         };
       }
       if (settings.channelPolicies) {
+        const { messageRetentionDays, retentionMode } =
+          settings.channelPolicies;
+        if (
+          messageRetentionDays !== undefined &&
+          (!Number.isInteger(messageRetentionDays) || messageRetentionDays < 0)
+        ) {
+          throw new BadRequestError(
+            "Message retention must be a whole number of days (0 = forever)."
+          );
+        }
+        if (
+          retentionMode !== undefined &&
+          !["SOFT", "HARD"].includes(retentionMode)
+        ) {
+          throw new BadRequestError("Retention mode must be SOFT or HARD.");
+        }
         organization.settings.channelPolicies = {
           ...organization.settings.channelPolicies,
           ...settings.channelPolicies,
         };
+        if (settings.channelPolicies.defaultChannels !== undefined) {
+          organization.settings.channelPolicies.defaultChannels =
+            defaultChannelService.normalizeNames(
+              settings.channelPolicies.defaultChannels
+            );
+        }
       }
       if (settings.security) {
+        const passwordPolicy = settings.security.passwordPolicy;
+        if (passwordPolicy) {
+          const { minLength, historyCount, expiryDays } = passwordPolicy;
+          if (
+            minLength !== undefined &&
+            (!Number.isInteger(minLength) ||
+              minLength < MIN_PASSWORD_LENGTH ||
+              minLength > 128)
+          ) {
+            throw new BadRequestError(
+              `Minimum password length must be between ${MIN_PASSWORD_LENGTH} and 128.`
+            );
+          }
+          if (
+            historyCount !== undefined &&
+            (!Number.isInteger(historyCount) ||
+              historyCount < 0 ||
+              historyCount > MAX_PASSWORD_HISTORY)
+          ) {
+            throw new BadRequestError(
+              `Password history must be between 0 and ${MAX_PASSWORD_HISTORY}.`
+            );
+          }
+          if (
+            expiryDays !== undefined &&
+            (!Number.isInteger(expiryDays) || expiryDays < 0)
+          ) {
+            throw new BadRequestError(
+              "Password expiry must be a whole number of days (0 = never)."
+            );
+          }
+        }
         organization.settings.security = {
           ...organization.settings.security,
           ...settings.security,
+          passwordPolicy: {
+            ...organization.settings.security.passwordPolicy,
+            ...passwordPolicy,
+          },
         };
       }
       if (settings.notifications) {
@@ -103,6 +176,223 @@ class SettingsController {
     });
   }
 
+  /**
+   * Dry-run report of messages the retention policy would purge (Admin only)
+   * @route GET /api/settings/organization/retention/report
+   */
+  async getRetentionReport(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user || req.user.role !== "ADMIN") {
+      throw new ForbiddenError(
+        "Only organization admins can view the retention report."
+      );
+    }
+
+    const report = await retentionService.buildReport(
+      req.user.organizationId
+    );
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  }
+
+  /**
+   * Run the retention purge immediately instead of waiting for the job (Admin only)
+   * @route POST /api/settings/organization/retention/run
+   */
+  async runRetention(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user || req.user.role !== "ADMIN") {
+      throw new ForbiddenError(
+        "Only organization admins can run the retention purge."
+      );
+    }
+
+    const report = await retentionService.purgeOrganization(
+      req.user.organizationId
+    );
+
+    res.json({
+      success: true,
+      data: report,
+      message: "Retention policy applied successfully.",
+    });
+  }
+
+  /**
+   * Add existing users to the default channels, creating any that are missing
+   * (Admin only). Pass `channels` to backfill only some of them.
+   * @route POST /api/settings/organization/default-channels/backfill
+   */
+  async backfillDefaultChannels(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user || req.user.role !== "ADMIN") {
+      throw new ForbiddenError(
+        "Only organization admins can backfill default channels."
+      );
+    }
+
+    const { channels } = req.body;
+    const names =
+      channels === undefined
+        ? undefined
+        : defaultChannelService.normalizeNames(channels);
+
+    const result = await defaultChannelService.backfill(
+      req.user.organizationId,
+      req.user.userId,
+      names
+    );
+
+    res.json({
+      success: true,
+      data: result,
+      message: "Default channels backfilled successfully.",
+    });
+  }
+
+  /**
+   * The organization's owner and any ownership transfer waiting to be
+   * confirmed (Admin only)
+   * @route GET /api/settings/organization/ownership
+   */
+  async getOwnership(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user || req.user.role !== "ADMIN") {
+      throw new ForbiddenError(
+        "Only organization admins can view the organization's ownership."
+      );
+    }
+
+    const ownership = await organizationAdminService.getOwnership(
+      req.user.organizationId
+    );
+
+    res.json({
+      success: true,
+      data: ownership,
+    });
+  }
+
+  /**
+   * Offer ownership of the organization to another member, who confirms it
+   * from an email (Owner only)
+   * @route POST /api/settings/organization/ownership/transfer
+   */
+  async transferOwnership(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { userId } = req.body;
+
+    if (!userId || !mongoose.isValidObjectId(userId)) {
+      throw new BadRequestError("A valid user ID is required.");
+    }
+
+    const pendingTransfer = await organizationAdminService.requestTransfer(
+      req.user.organizationId,
+      req.user.userId,
+      userId
+    );
+
+    res.json({
+      success: true,
+      data: pendingTransfer,
+      message: `We emailed ${pendingTransfer.toUser.name} to confirm the transfer.`,
+    });
+  }
+
+  /**
+   * Cancel a pending ownership transfer (Owner only)
+   * @route DELETE /api/settings/organization/ownership/transfer
+   */
+  async cancelOwnershipTransfer(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    await organizationAdminService.cancelTransfer(
+      req.user.organizationId,
+      req.user.userId
+    );
+
+    res.json({
+      success: true,
+      message: "Ownership transfer cancelled.",
+    });
+  }
+
+  /**
+   * Accept ownership of the organization with the token from the email
+   * @route POST /api/settings/organization/ownership/accept
+   */
+  async acceptOwnershipTransfer(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { token } = req.body;
+
+    if (!token || typeof token !== "string") {
+      throw new BadRequestError("Transfer token is required.");
+    }
+
+    const result = await organizationAdminService.acceptTransfer(
+      req.user.organizationId,
+      req.user.userId,
+      token
+    );
+
+    res.json({
+      success: true,
+      data: result,
+      message: "You are now the owner of this organization.",
+    });
+  }
+
+  /**
+   * Admin and ownership changes, newest first (Admin only)
+   * @route GET /api/settings/organization/audit-log
+   */
+  async getAuditLog(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user || req.user.role !== "ADMIN") {
+      throw new ForbiddenError(
+        "Only organization admins can view the audit log."
+      );
+    }
+
+    const { before } = req.query;
+    const beforeDate = before ? new Date(String(before)) : undefined;
+
+    if (beforeDate && isNaN(beforeDate.getTime())) {
+      throw new BadRequestError("Invalid date for before.");
+    }
+
+    const log = await organizationAdminService.listAuditLog(
+      req.user.organizationId,
+      beforeDate
+    );
+
+    res.json({
+      success: true,
+      data: log,
+    });
+  }
+
   /**
    * Update user settings (Per employee)
    * @route PUT /api/settings/user
@@ -123,6 +413,7 @@ class SettingsController {
     if (!user) {
       throw new NotFoundError("User not found.");
     }
+    const wasInvisible = user.settings?.privacy?.showOnlineStatus === false;
 
     // Safe initialization
     if (!user.settings) {
@@ -178,6 +469,16 @@ class SettingsController {
         };
       }
       if (settings.privacy) {
+        if (
+          settings.privacy.lastSeenVisibility !== undefined &&
+          !["everyone", "contacts", "none"].includes(
+            settings.privacy.lastSeenVisibility
+          )
+        ) {
+          throw new BadRequestError(
+            "Last seen visibility must be everyone, contacts or none."
+          );
+        }
         user.settings.privacy = {
           ...user.settings.privacy,
           ...settings.privacy,
@@ -190,6 +491,22 @@ class SettingsController {
 
     await user.save();
 
+    // Going invisible looks like going offline, and back again
+    const isInvisible = user.settings.privacy?.showOnlineStatus === false;
+    if (wasInvisible !== isInvisible) {
+      try {
+        getIO()
+          .to(`org:${user.organizationId}`)
+          .except(`user:${userId}`)
+          .emit(isInvisible ? "user-offline" : "user-online", {
+            userId,
+            timestamp: new Date(),
+          });
+      } catch {
+        // Socket.IO is not initialized when running outside the server
+      }
+    }
+
     res.json({
       success: true,
       data: user,
@@ -215,6 +532,7 @@ class SettingsController {
 
     // Increment tokenVersion for all users in this organization
     await User.updateMany({ organizationId }, { $inc: { tokenVersion: 1 } });
+    await sessionService.revokeOrganizationSessions(organizationId, "REVOKED");
 
     res.json({
       success: true,
@@ -243,12 +561,72 @@ class SettingsController {
 
     user.tokenVersion += 1;
     await user.save();
+    await sessionService.revokeUserSessions(userId, "REVOKED");
 
     res.json({
       success: true,
       message: "You have been logged out from all devices.",
     });
   }
+
+  /**
+   * List the signed-in devices of the current user
+   * @route GET /api/settings/user/sessions
+   */
+  async getSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const sessions = await sessionService.listForUser(req.user.userId);
+
+    res.json({
+      success: true,
+      data: sessions.map((session) => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastActiveAt: session.lastActiveAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === req.user!.sessionId,
+      })),
+    });
+  }
+
+  /**
+   * Sign out a single device of the current user
+   * @route DELETE /api/settings/user/sessions/:id
+   */
+  async revokeSession(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { id } = req.params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      throw new BadRequestError("Invalid session ID.");
+    }
+
+    const revoked = await sessionService.revoke(
+      id,
+      "REVOKED",
+      req.user.userId
+    );
+
+    if (!revoked) {
+      throw new NotFoundError("Session not found or already signed out.");
+    }
+
+    res.json({
+      success: true,
+      message: "Device signed out successfully.",
+    });
+  }
 }
 
 // Export singleton instance
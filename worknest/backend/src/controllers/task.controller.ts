@@ -1,6 +1,10 @@
 import { Request, Response } from "express";
-import { Task, ChannelMember } from "../models/index.js";
+import { Task, Channel, ChannelMember } from "../models/index.js";
 import mongoose from "mongoose";
+import {
+  ARCHIVED_CHANNEL_MESSAGE,
+  webhookService,
+} from "../services/index.js";
 
 export const getChannelTasks = async (req: Request, res: Response) => {
   try {
@@ -57,6 +61,10 @@ export const createTask = async (req: Request, res: Response) => {
         .json({ message: "You are not a member of this channel" });
     }
 
+    if (await Channel.isArchived(channelId)) {
+      return res.status(403).json({ message: ARCHIVED_CHANNEL_MESSAGE });
+    }
+
     // Get the highest order to append to the end
     const lastTask = await Task.findOne({ channelId, status }).sort({
       order: -1,
@@ -82,6 +90,13 @@ export const createTask = async (req: Request, res: Response) => {
       { path: "creatorId", select: "name avatar" },
     ]);
 
+    webhookService.dispatchChannelEvent(
+      organizationId,
+      "task.created",
+      populatedTask.channelId,
+      webhookService.serializeTask(populatedTask)
+    );
+
     res.status(201).json(populatedTask);
   } catch (error: any) {
     res.status(500).json({ message: error.message });
@@ -111,6 +126,12 @@ export const updateTask = async (req: Request, res: Response) => {
         .json({ message: "You are not a member of this channel" });
     }
 
+    if (await Channel.isArchived(task.channelId.toString())) {
+      return res.status(403).json({ message: ARCHIVED_CHANNEL_MESSAGE });
+    }
+
+    const previousStatus = task.status;
+
     // If status changed, we might want to recalculate order, but for simplicity we'll just move it to the end
     if (updates.status && updates.status !== task.status) {
       const lastTask = await Task.findOne({
@@ -124,6 +145,24 @@ export const updateTask = async (req: Request, res: Response) => {
       .populate("assigneeId", "name avatar")
       .populate("creatorId", "name avatar");
 
+    if (updatedTask) {
+      const data = webhookService.serializeTask(updatedTask);
+      webhookService.dispatchChannelEvent(
+        task.organizationId,
+        "task.updated",
+        task.channelId,
+        data
+      );
+      if (updatedTask.status !== previousStatus) {
+        webhookService.dispatchChannelEvent(
+          task.organizationId,
+          "task.moved",
+          task.channelId,
+          { ...data, previousStatus }
+        );
+      }
+    }
+
     res.json(updatedTask);
   } catch (error: any) {
     res.status(500).json({ message: error.message });
@@ -152,8 +191,24 @@ export const deleteTask = async (req: Request, res: Response) => {
         .json({ message: "You are not a member of this channel" });
     }
 
+    if (await Channel.isArchived(task.channelId.toString())) {
+      return res.status(403).json({ message: ARCHIVED_CHANNEL_MESSAGE });
+    }
+
     await Task.findByIdAndDelete(id);
 
+    webhookService.dispatchChannelEvent(
+      task.organizationId,
+      "task.deleted",
+      task.channelId,
+      {
+        id: task._id,
+        channelId: task.channelId,
+        title: task.title,
+        deletedBy: userId,
+      }
+    );
+
     res.json({ message: "Task deleted successfully" });
   } catch (error: any) {
     res.status(500).json({ message: error.message });
@@ -171,7 +226,41 @@ export const updateTaskOrder = async (req: Request, res: Response) => {
       },
     }));
 
+    const previous = await Task.find({
+      _id: { $in: tasks.map((t: any) => t.id) },
+    }).select("status organizationId channelId");
+
+    // Tasks in archived channels are read-only
+    const channelIds = [...new Set(previous.map((t) => t.channelId.toString()))];
+    const archived = await Channel.exists({
+      _id: { $in: channelIds },
+      isArchived: true,
+    });
+    if (archived) {
+      return res.status(403).json({ message: ARCHIVED_CHANNEL_MESSAGE });
+    }
+
     await Task.bulkWrite(bulkOps);
+
+    // Reordering within a column is not a move; only status changes are
+    for (const task of previous) {
+      const next = tasks.find((t: any) => t.id === task._id.toString());
+      if (next && next.status && next.status !== task.status) {
+        webhookService.dispatchChannelEvent(
+          task.organizationId,
+          "task.moved",
+          task.channelId,
+          {
+            id: task._id,
+            channelId: task.channelId,
+            status: next.status,
+            previousStatus: task.status,
+            order: next.order,
+          }
+        );
+      }
+    }
+
     res.json({ message: "Task orders updated successfully" });
   } catch (error: any) {
     res.status(500).json({ message: error.message });
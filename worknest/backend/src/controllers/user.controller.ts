@@ -1,6 +1,7 @@
 import { Response } from "express";
 import { AuthenticatedRequest } from "../types/index.js";
 import { User } from "../models/index.js";
+import { organizationAdminService } from "../services/index.js";
 import { io } from "../server.js";
 import {
   BadRequestError,
@@ -47,19 +48,28 @@ class UserController {
     const users = await User.find(query)
       .select("name email role status avatar lastSeenAt createdAt")
       .sort({ name: 1 });
+    const hidden = await User.findLastSeenHidden(
+      req.user.userId,
+      users.map((user) => user._id.toString())
+    );
 
     res.json({
       success: true,
-      data: users.map((user) => ({
-        id: user._id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        status: user.status,
-        avatar: user.avatar,
-        lastSeenAt: user.lastSeenAt,
-        isOnline: this.isUserOnline(user.lastSeenAt),
-      })),
+      data: users.map((user) => {
+        const lastSeenAt = hidden.has(user._id.toString())
+          ? null
+          : user.lastSeenAt;
+        return {
+          id: user._id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          status: user.status,
+          avatar: user.avatar,
+          lastSeenAt,
+          isOnline: this.isUserOnline(lastSeenAt),
+        };
+      }),
     });
   }
 
@@ -83,6 +93,11 @@ class UserController {
       throw new NotFoundError("User not found.");
     }
 
+    const hidden = await User.findLastSeenHidden(req.user.userId, [
+      user._id.toString(),
+    ]);
+    const lastSeenAt = hidden.size > 0 ? null : user.lastSeenAt;
+
     res.json({
       success: true,
       data: {
@@ -92,8 +107,8 @@ class UserController {
         role: user.role,
         status: user.status,
         avatar: user.avatar,
-        lastSeenAt: user.lastSeenAt,
-        isOnline: this.isUserOnline(user.lastSeenAt),
+        lastSeenAt,
+        isOnline: this.isUserOnline(lastSeenAt),
       },
     });
   }
@@ -130,8 +145,32 @@ class UserController {
 
     // Only admin can update role and status
     if (req.user.role === "ADMIN") {
-      if (role) user.role = role;
-      if (status) user.status = status;
+      // Role changes are audited and can't leave the organization without
+      // an admin
+      if (role && role !== user.role) {
+        if (role === "ADMIN") {
+          await organizationAdminService.promote(
+            req.user.organizationId,
+            req.user.userId,
+            id
+          );
+        } else if (role === "EMPLOYEE") {
+          await organizationAdminService.demote(
+            req.user.organizationId,
+            req.user.userId,
+            id
+          );
+        } else {
+          throw new BadRequestError("Role must be ADMIN or EMPLOYEE.");
+        }
+        user.role = role;
+      }
+      if (status && status !== user.status) {
+        if (status === "BLOCKED") {
+          await organizationAdminService.block(req.user.organizationId, user);
+        }
+        user.status = status;
+      }
     }
 
     await user.save();
@@ -176,8 +215,7 @@ class UserController {
     }
 
     // Soft delete by blocking
-    user.status = "BLOCKED";
-    await user.save();
+    await organizationAdminService.block(req.user.organizationId, user);
 
     res.json({
       success: true,
@@ -185,6 +223,64 @@ class UserController {
     });
   }
 
+  /**
+   * Make a member an admin (Admin only)
+   * @route POST /api/users/:id/promote
+   */
+  async promote(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user || req.user.role !== "ADMIN") {
+      throw new ForbiddenError("Only admins can change member roles.");
+    }
+
+    const user = await organizationAdminService.promote(
+      req.user.organizationId,
+      req.user.userId,
+      req.params.id
+    );
+
+    res.json({
+      success: true,
+      data: {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        status: user.status,
+        avatar: user.avatar,
+      },
+      message: `${user.name} is now an admin.`,
+    });
+  }
+
+  /**
+   * Take a member's admin rights away (Admin only)
+   * @route POST /api/users/:id/demote
+   */
+  async demote(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user || req.user.role !== "ADMIN") {
+      throw new ForbiddenError("Only admins can change member roles.");
+    }
+
+    const user = await organizationAdminService.demote(
+      req.user.organizationId,
+      req.user.userId,
+      req.params.id
+    );
+
+    res.json({
+      success: true,
+      data: {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        status: user.status,
+        avatar: user.avatar,
+      },
+      message: `${user.name} is no longer an admin.`,
+    });
+  }
+
   /**
    * Delete own account
    * @route DELETE /api/users/me
@@ -196,22 +292,32 @@ class UserController {
 
     const { userId, organizationId, role } = req.user;
 
-    // Logic for Admin: cannot delete if there are other members
-    if (role === "ADMIN") {
-      const otherUsersCount = await User.countDocuments({
-        organizationId,
-        _id: { $ne: userId },
-      });
+    // The owner hands the organization over first, and the last admin
+    // can't leave while there are other members
+    const otherUsersCount = await User.countDocuments({
+      organizationId,
+      _id: { $ne: userId },
+    });
 
-      if (otherUsersCount > 0) {
+    if (otherUsersCount > 0) {
+      const ownerId = await organizationAdminService.getOwnerId(organizationId);
+      if (ownerId === userId) {
         throw new BadRequestError(
-          "You cannot delete your account while there are still other members in your organization. Please remove all members or transfer ownership first."
+          "You own this organization. Transfer ownership to another member before deleting your account."
         );
       }
     }
 
     // Perform deletion
-    const result = await User.findByIdAndDelete(userId);
+    const deleteUser = () => User.findByIdAndDelete(userId);
+    const result =
+      otherUsersCount > 0 && role === "ADMIN"
+        ? await organizationAdminService.withAdminKept(
+            organizationId,
+            userId,
+            deleteUser
+          )
+        : await deleteUser();
 
     if (!result) {
       throw new NotFoundError("User not found.");
@@ -226,7 +332,7 @@ class UserController {
   /**
    * Helper function to check if user is online
    */
-  private isUserOnline(lastSeenAt: Date): boolean {
+  private isUserOnline(lastSeenAt: Date | null): boolean {
     if (!lastSeenAt) return false;
     const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
     return new Date(lastSeenAt) > fiveMinutesAgo;
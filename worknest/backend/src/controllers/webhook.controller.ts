@@ -0,0 +1,337 @@
+import { Response } from "express";
+import mongoose from "mongoose";
+import { AuthenticatedRequest } from "../types/index.js";
+import {
+  Webhook,
+  WebhookDelivery,
+  WEBHOOK_EVENTS,
+} from "../models/index.js";
+import { webhookService } from "../services/index.js";
+import {
+  UnauthorizedError,
+  BadRequestError,
+  NotFoundError,
+} from "../utils/AppError.js";
+
+const MAX_WEBHOOKS_PER_ORGANIZATION = 25;
+
+/**
+ * Webhook Controller
+ * Admin management of outgoing webhooks and their delivery log
+ */
+class WebhookController {
+  /**
+   * List the organization's webhooks
+   * @route GET /api/webhooks
+   */
+  async getAll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const webhooks = await Webhook.find({
+      organizationId: req.user.organizationId,
+    }).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        webhooks,
+        events: WEBHOOK_EVENTS,
+      },
+    });
+  }
+
+  /**
+   * Create a webhook. The signing secret is only returned here and when it
+   * is rotated.
+   * @route POST /api/webhooks
+   */
+  async create(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const { name, url, events } = req.body;
+    this.assertName(name);
+    this.assertUrl(url);
+    this.assertEvents(events);
+
+    const count = await Webhook.countDocuments({
+      organizationId: req.user.organizationId,
+    });
+    if (count >= MAX_WEBHOOKS_PER_ORGANIZATION) {
+      throw new BadRequestError(
+        `An organization can have up to ${MAX_WEBHOOKS_PER_ORGANIZATION} webhooks.`
+      );
+    }
+
+    const secret = webhookService.generateSecret();
+    const webhook = await Webhook.create({
+      organizationId: req.user.organizationId,
+      name: name.trim(),
+      url: url.trim(),
+      events,
+      secret,
+      createdBy: req.user.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { webhook, secret },
+      message: "Webhook created.",
+    });
+  }
+
+  /**
+   * Update a webhook's name, URL, events or active state. Re-enabling a
+   * webhook clears its failure count.
+   * @route PUT /api/webhooks/:id
+   */
+  async update(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const webhook = await this.findWebhook(req);
+    const { name, url, events, isActive } = req.body;
+
+    if (name !== undefined) {
+      this.assertName(name);
+      webhook.name = name.trim();
+    }
+
+    if (url !== undefined) {
+      this.assertUrl(url);
+      webhook.url = url.trim();
+    }
+
+    if (events !== undefined) {
+      this.assertEvents(events);
+      webhook.events = events;
+    }
+
+    if (isActive !== undefined) {
+      webhook.isActive = !!isActive;
+      if (webhook.isActive) {
+        webhook.consecutiveFailures = 0;
+        webhook.disabledAt = null;
+        webhook.disabledReason = null;
+      } else if (!webhook.disabledAt) {
+        webhook.disabledAt = new Date();
+        webhook.disabledReason = "Disabled by an admin";
+      }
+    }
+
+    await webhook.save();
+
+    res.json({
+      success: true,
+      data: webhook,
+      message: "Webhook updated.",
+    });
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   * @route DELETE /api/webhooks/:id
+   */
+  async delete(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const webhook = await this.findWebhook(req);
+    await WebhookDelivery.deleteMany({ webhookId: webhook._id });
+    await webhook.deleteOne();
+
+    res.json({
+      success: true,
+      message: "Webhook deleted.",
+    });
+  }
+
+  /**
+   * Replace the signing secret
+   * @route POST /api/webhooks/:id/rotate-secret
+   */
+  async rotateSecret(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const webhook = await this.findWebhook(req);
+    const secret = webhookService.generateSecret();
+    webhook.secret = secret;
+    await webhook.save();
+
+    res.json({
+      success: true,
+      data: { webhook, secret },
+      message: "Webhook secret rotated.",
+    });
+  }
+
+  /**
+   * Send a ping event
+   * @route POST /api/webhooks/:id/test
+   */
+  async test(req: AuthenticatedRequest, res: Response): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const webhook = await this.findWebhook(req);
+    if (!webhook.isActive) {
+      throw new BadRequestError("Enable the webhook before sending a test.");
+    }
+
+    const delivery = await webhookService.ping(webhook);
+
+    res.status(202).json({
+      success: true,
+      data: delivery,
+      message: "Test event queued.",
+    });
+  }
+
+  /**
+   * Delivery log for a webhook, newest first
+   * @route GET /api/webhooks/:id/deliveries
+   */
+  async getDeliveries(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const webhook = await this.findWebhook(req);
+    const { status, page = "1", limit = "20" } = req.query;
+    const pageNum = Math.max(1, parseInt(page as string) || 1);
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+
+    const query: Record<string, unknown> = { webhookId: webhook._id };
+    if (status && ["PENDING", "SUCCESS", "FAILED"].includes(status as string)) {
+      query.status = status;
+    }
+
+    const [deliveries, total] = await Promise.all([
+      WebhookDelivery.find(query)
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum),
+      WebhookDelivery.countDocuments(query),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        deliveries,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+    });
+  }
+
+  /**
+   * Deliver a logged event again
+   * @route POST /api/webhooks/:id/deliveries/:deliveryId/replay
+   */
+  async replayDelivery(
+    req: AuthenticatedRequest,
+    res: Response
+  ): Promise<void> {
+    if (!req.user) {
+      throw new UnauthorizedError("Authentication required.");
+    }
+
+    const webhook = await this.findWebhook(req);
+    if (!webhook.isActive) {
+      throw new BadRequestError("Enable the webhook before replaying events.");
+    }
+
+    const { deliveryId } = req.params;
+    if (!mongoose.isValidObjectId(deliveryId)) {
+      throw new NotFoundError("Delivery not found.");
+    }
+
+    const original = await WebhookDelivery.findOne({
+      _id: deliveryId,
+      webhookId: webhook._id,
+    });
+    if (!original) {
+      throw new NotFoundError("Delivery not found.");
+    }
+
+    const delivery = await webhookService.replay(original);
+
+    res.json({
+      success: true,
+      data: delivery,
+      message:
+        delivery.status === "SUCCESS"
+          ? "Event delivered."
+          : "Delivery failed; it will be retried.",
+    });
+  }
+
+  private async findWebhook(req: AuthenticatedRequest) {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new NotFoundError("Webhook not found.");
+    }
+
+    const webhook = await Webhook.findOne({
+      _id: id,
+      organizationId: req.user!.organizationId,
+    });
+    if (!webhook) {
+      throw new NotFoundError("Webhook not found.");
+    }
+
+    return webhook;
+  }
+
+  private assertName(name: unknown): asserts name is string {
+    if (typeof name !== "string" || name.trim().length === 0) {
+      throw new BadRequestError("Webhook name is required.");
+    }
+  }
+
+  private assertUrl(url: unknown): asserts url is string {
+    let parsed: URL | null = null;
+    try {
+      parsed = typeof url === "string" ? new URL(url.trim()) : null;
+    } catch {
+      parsed = null;
+    }
+
+    if (!parsed || !["http:", "https:"].includes(parsed.protocol)) {
+      throw new BadRequestError("Webhook URL must be a valid http(s) URL.");
+    }
+  }
+
+  private assertEvents(events: unknown): asserts events is string[] {
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      !events.every(
+        (e) =>
+          e === "*" || (WEBHOOK_EVENTS as readonly string[]).includes(e)
+      )
+    ) {
+      throw new BadRequestError(
+        `Choose at least one event: ${WEBHOOK_EVENTS.join(", ")} or *.`
+      );
+    }
+  }
+}
+
+export const webhookController = new WebhookController();
+export default WebhookController;
@@ -1,5 +1,9 @@
 import { Request, Response } from "express";
-import { WikiPage, ChannelMember } from "../models/index.js";
+import { WikiPage, Channel, ChannelMember } from "../models/index.js";
+import {
+  ARCHIVED_CHANNEL_MESSAGE,
+  webhookService,
+} from "../services/index.js";
 
 // Helper to generate slug from title
 const generateSlug = (title: string): string => {
@@ -80,6 +84,10 @@ export const createWikiPage = async (req: Request, res: Response) => {
         .json({ message: "You are not a member of this channel" });
     }
 
+    if (await Channel.isArchived(channelId)) {
+      return res.status(403).json({ message: ARCHIVED_CHANNEL_MESSAGE });
+    }
+
     // Generate slug
     let slug = generateSlug(title);
 
@@ -120,6 +128,13 @@ export const createWikiPage = async (req: Request, res: Response) => {
       { path: "lastEditedBy", select: "name avatar" },
     ]);
 
+    webhookService.dispatchChannelEvent(
+      organizationId,
+      "wiki.page.created",
+      populatedPage.channelId,
+      webhookService.serializeWikiPage(populatedPage)
+    );
+
     res.status(201).json(populatedPage);
   } catch (error: any) {
     res.status(500).json({ message: error.message });
@@ -141,6 +156,10 @@ export const updateWikiPage = async (req: Request, res: Response) => {
         .json({ message: "You are not a member of this channel" });
     }
 
+    if (await Channel.isArchived(channelId)) {
+      return res.status(403).json({ message: ARCHIVED_CHANNEL_MESSAGE });
+    }
+
     const page = await WikiPage.findOne({ channelId, slug });
     if (!page) {
       return res.status(404).json({ message: "Page not found" });
@@ -183,6 +202,15 @@ export const updateWikiPage = async (req: Request, res: Response) => {
       .populate("authorId", "name avatar")
       .populate("lastEditedBy", "name avatar");
 
+    if (updatedPage) {
+      webhookService.dispatchChannelEvent(
+        page.organizationId,
+        "wiki.page.updated",
+        page.channelId,
+        webhookService.serializeWikiPage(updatedPage)
+      );
+    }
+
     res.json(updatedPage);
   } catch (error: any) {
     res.status(500).json({ message: error.message });
@@ -203,6 +231,10 @@ export const deleteWikiPage = async (req: Request, res: Response) => {
         .json({ message: "You are not a member of this channel" });
     }
 
+    if (await Channel.isArchived(channelId)) {
+      return res.status(403).json({ message: ARCHIVED_CHANNEL_MESSAGE });
+    }
+
     const page = await WikiPage.findOne({ channelId, slug });
     if (!page) {
       return res.status(404).json({ message: "Page not found" });
@@ -217,6 +249,19 @@ export const deleteWikiPage = async (req: Request, res: Response) => {
     }
 
     await WikiPage.findByIdAndDelete(page._id);
+
+    webhookService.dispatchChannelEvent(
+      page.organizationId,
+      "wiki.page.deleted",
+      page.channelId,
+      {
+        id: page._id,
+        channelId: page.channelId,
+        title: page.title,
+        slug: page.slug,
+        deletedBy: userId,
+      }
+    );
     res.json({ message: "Page deleted successfully" });
   } catch (error: any) {
     res.status(500).json({ message: error.message });
@@ -267,6 +312,10 @@ export const restoreWikiPageVersion = async (req: Request, res: Response) => {
         .json({ message: "You are not a member of this channel" });
     }
 
+    if (await Channel.isArchived(channelId)) {
+      return res.status(403).json({ message: ARCHIVED_CHANNEL_MESSAGE });
+    }
+
     const page = await WikiPage.findOne({ channelId, slug });
     if (!page) {
       return res.status(404).json({ message: "Page not found" });
@@ -296,6 +345,15 @@ export const restoreWikiPageVersion = async (req: Request, res: Response) => {
       .populate("authorId", "name avatar")
       .populate("lastEditedBy", "name avatar");
 
+    if (updatedPage) {
+      webhookService.dispatchChannelEvent(
+        page.organizationId,
+        "wiki.page.updated",
+        page.channelId,
+        webhookService.serializeWikiPage(updatedPage)
+      );
+    }
+
     res.json(updatedPage);
   } catch (error: any) {
     res.status(500).json({ message: error.message });
@@ -317,6 +375,10 @@ export const reorderWikiPages = async (req: Request, res: Response) => {
         .json({ message: "You are not a member of this channel" });
     }
 
+    if (await Channel.isArchived(channelId)) {
+      return res.status(403).json({ message: ARCHIVED_CHANNEL_MESSAGE });
+    }
+
     // Update each page
     await Promise.all(
       pages.map((p: { id: string; parentId: string | null; order: number }) =>
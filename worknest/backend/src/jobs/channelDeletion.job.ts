@@ -0,0 +1,33 @@
+import { channelArchiveService } from "../services/channelArchive.service.js";
+import {
+  intervalFromEnv,
+  startIntervalJob,
+  stopIntervalJob,
+} from "./intervalJob.js";
+
+const JOB_NAME = "Channel deletion";
+const DEFAULT_INTERVAL_MS = 30 * 1000; // 30 seconds
+
+/**
+ * Permanently delete channels queued for deletion
+ */
+export const runChannelDeletionJob = async (): Promise<void> => {
+  const deleted = await channelArchiveService.runPendingDeletions();
+  if (deleted > 0) {
+    console.log(`🗑️ Channel deletion job deleted ${deleted} channels`);
+  }
+};
+
+/**
+ * Start the channel deletion worker
+ */
+export const startChannelDeletionJob = (): void =>
+  startIntervalJob(
+    JOB_NAME,
+    intervalFromEnv("CHANNEL_DELETION_JOB_INTERVAL_MS", DEFAULT_INTERVAL_MS),
+    runChannelDeletionJob
+  );
+
+export const stopChannelDeletionJob = (): void => stopIntervalJob(JOB_NAME);
+
+export default { startChannelDeletionJob, stopChannelDeletionJob, runChannelDeletionJob };
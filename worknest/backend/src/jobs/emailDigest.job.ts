@@ -0,0 +1,33 @@
+import { emailDigestService } from "../services/emailDigest.service.js";
+import {
+  intervalFromEnv,
+  startIntervalJob,
+  stopIntervalJob,
+} from "./intervalJob.js";
+
+const JOB_NAME = "Email digest";
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Send email digests to users who have been away
+ */
+export const runEmailDigestJob = async (): Promise<void> => {
+  const sent = await emailDigestService.sendDue();
+  if (sent > 0) {
+    console.log(`📧 Email digest job sent ${sent} digests`);
+  }
+};
+
+/**
+ * Start the email digest worker
+ */
+export const startEmailDigestJob = (): void =>
+  startIntervalJob(
+    JOB_NAME,
+    intervalFromEnv("EMAIL_DIGEST_JOB_INTERVAL_MS", DEFAULT_INTERVAL_MS),
+    runEmailDigestJob
+  );
+
+export const stopEmailDigestJob = (): void => stopIntervalJob(JOB_NAME);
+
+export default { startEmailDigestJob, stopEmailDigestJob, runEmailDigestJob };
@@ -0,0 +1,40 @@
+export {
+  startRetentionJob,
+  stopRetentionJob,
+  runRetentionJob,
+} from "./retention.job.js";
+export {
+  startSessionJob,
+  stopSessionJob,
+  runSessionJob,
+} from "./session.job.js";
+export {
+  startWebhookJob,
+  stopWebhookJob,
+  runWebhookJob,
+} from "./webhook.job.js";
+export {
+  startReminderJob,
+  stopReminderJob,
+  runReminderJob,
+} from "./reminder.job.js";
+export {
+  startEmailDigestJob,
+  stopEmailDigestJob,
+  runEmailDigestJob,
+} from "./emailDigest.job.js";
+export {
+  startScheduledMessageJob,
+  stopScheduledMessageJob,
+  runScheduledMessageJob,
+} from "./scheduledMessage.job.js";
+export {
+  startPollJob,
+  stopPollJob,
+  runPollJob,
+} from "./poll.job.js";
+export {
+  startChannelDeletionJob,
+  stopChannelDeletionJob,
+  runChannelDeletionJob,
+} from "./channelDeletion.job.js";
@@ -0,0 +1,61 @@
+interface IntervalJobOptions {
+  /** Run a first pass this long after starting instead of waiting a full interval */
+  initialDelayMs?: number;
+}
+
+interface IntervalJob {
+  timers: NodeJS.Timeout[];
+  isRunning: boolean;
+}
+
+const jobs = new Map<string, IntervalJob>();
+
+/**
+ * Read a job interval from the environment, falling back to its default
+ */
+export const intervalFromEnv = (name: string, defaultMs: number): number =>
+  parseInt(process.env[name] || `${defaultMs}`);
+
+/**
+ * Run `run` every `intervalMs` until stopped. A pass is skipped while the
+ * previous one is still going, and failures are logged rather than thrown.
+ * Starting a job that is already running does nothing.
+ */
+export const startIntervalJob = (
+  name: string,
+  intervalMs: number,
+  run: () => Promise<void>,
+  { initialDelayMs }: IntervalJobOptions = {}
+): void => {
+  if (jobs.has(name)) return;
+
+  const job: IntervalJob = { timers: [], isRunning: false };
+  const tick = async (): Promise<void> => {
+    if (job.isRunning) return;
+    job.isRunning = true;
+
+    try {
+      await run();
+    } catch (error) {
+      console.error(`${name} job failed:`, error);
+    } finally {
+      job.isRunning = false;
+    }
+  };
+
+  job.timers.push(setInterval(tick, intervalMs));
+  if (initialDelayMs !== undefined) {
+    job.timers.push(setTimeout(tick, initialDelayMs));
+  }
+  job.timers.forEach((timer) => timer.unref());
+  jobs.set(name, job);
+};
+
+export const stopIntervalJob = (name: string): void => {
+  const job = jobs.get(name);
+  if (!job) return;
+
+  // clearTimeout clears intervals as well
+  job.timers.forEach((timer) => clearTimeout(timer));
+  jobs.delete(name);
+};
@@ -0,0 +1,33 @@
+import { pollService } from "../services/poll.service.js";
+import {
+  intervalFromEnv,
+  startIntervalJob,
+  stopIntervalJob,
+} from "./intervalJob.js";
+
+const JOB_NAME = "Poll";
+const DEFAULT_INTERVAL_MS = 60 * 1000; // 1 minute
+
+/**
+ * Close polls whose close time has passed
+ */
+export const runPollJob = async (): Promise<void> => {
+  const closed = await pollService.closeDue();
+  if (closed > 0) {
+    console.log(`📊 Poll job closed ${closed} polls`);
+  }
+};
+
+/**
+ * Start the poll closing worker
+ */
+export const startPollJob = (): void =>
+  startIntervalJob(
+    JOB_NAME,
+    intervalFromEnv("POLL_JOB_INTERVAL_MS", DEFAULT_INTERVAL_MS),
+    runPollJob
+  );
+
+export const stopPollJob = (): void => stopIntervalJob(JOB_NAME);
+
+export default { startPollJob, stopPollJob, runPollJob };
@@ -0,0 +1,33 @@
+import { reminderService } from "../services/reminder.service.js";
+import {
+  intervalFromEnv,
+  startIntervalJob,
+  stopIntervalJob,
+} from "./intervalJob.js";
+
+const JOB_NAME = "Reminder";
+const DEFAULT_INTERVAL_MS = 30 * 1000; // 30 seconds
+
+/**
+ * Deliver reminders that are due
+ */
+export const runReminderJob = async (): Promise<void> => {
+  const delivered = await reminderService.deliverDue();
+  if (delivered > 0) {
+    console.log(`⏰ Reminder job delivered ${delivered} reminders`);
+  }
+};
+
+/**
+ * Start the scheduled reminder worker
+ */
+export const startReminderJob = (): void =>
+  startIntervalJob(
+    JOB_NAME,
+    intervalFromEnv("REMINDER_JOB_INTERVAL_MS", DEFAULT_INTERVAL_MS),
+    runReminderJob
+  );
+
+export const stopReminderJob = (): void => stopIntervalJob(JOB_NAME);
+
+export default { startReminderJob, stopReminderJob, runReminderJob };
@@ -0,0 +1,41 @@
+import { retentionService } from "../services/retention.service.js";
+import {
+  intervalFromEnv,
+  startIntervalJob,
+  stopIntervalJob,
+} from "./intervalJob.js";
+
+const JOB_NAME = "Retention";
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Run a single retention pass across all organizations
+ */
+export const runRetentionJob = async (): Promise<void> => {
+  const reports = await retentionService.runAll();
+  const purged = reports.reduce(
+    (sum, r) => sum + r.totals.messages + r.totals.threadReplies,
+    0
+  );
+  if (purged > 0) {
+    console.log(
+      `🧹 Retention job purged ${purged} messages across ${reports.length} organizations`
+    );
+  }
+};
+
+/**
+ * Start the scheduled retention worker
+ */
+export const startRetentionJob = (): void =>
+  startIntervalJob(
+    JOB_NAME,
+    intervalFromEnv("RETENTION_JOB_INTERVAL_MS", DEFAULT_INTERVAL_MS),
+    runRetentionJob,
+    // Kick off an initial pass shortly after boot
+    { initialDelayMs: 30 * 1000 }
+  );
+
+export const stopRetentionJob = (): void => stopIntervalJob(JOB_NAME);
+
+export default { startRetentionJob, stopRetentionJob, runRetentionJob };
@@ -0,0 +1,33 @@
+import { scheduledMessageService } from "../services/scheduledMessage.service.js";
+import {
+  intervalFromEnv,
+  startIntervalJob,
+  stopIntervalJob,
+} from "./intervalJob.js";
+
+const JOB_NAME = "Scheduled message";
+const DEFAULT_INTERVAL_MS = 15 * 1000; // 15 seconds
+
+/**
+ * Send scheduled messages that are due
+ */
+export const runScheduledMessageJob = async (): Promise<void> => {
+  const sent = await scheduledMessageService.sendDue();
+  if (sent > 0) {
+    console.log(`📨 Scheduled message job sent ${sent} messages`);
+  }
+};
+
+/**
+ * Start the scheduled message worker
+ */
+export const startScheduledMessageJob = (): void =>
+  startIntervalJob(
+    JOB_NAME,
+    intervalFromEnv("SCHEDULED_MESSAGE_JOB_INTERVAL_MS", DEFAULT_INTERVAL_MS),
+    runScheduledMessageJob
+  );
+
+export const stopScheduledMessageJob = (): void => stopIntervalJob(JOB_NAME);
+
+export default { startScheduledMessageJob, stopScheduledMessageJob, runScheduledMessageJob };
@@ -0,0 +1,33 @@
+import { sessionService } from "../services/session.service.js";
+import {
+  intervalFromEnv,
+  startIntervalJob,
+  stopIntervalJob,
+} from "./intervalJob.js";
+
+const JOB_NAME = "Session";
+const DEFAULT_INTERVAL_MS = 60 * 1000; // 1 minute
+
+/**
+ * Revoke idle and expired sessions, disconnecting their sockets
+ */
+export const runSessionJob = async (): Promise<void> => {
+  const expired = await sessionService.expireSessions();
+  if (expired > 0) {
+    console.log(`🔒 Session job expired ${expired} sessions`);
+  }
+};
+
+/**
+ * Start the scheduled session expiry worker
+ */
+export const startSessionJob = (): void =>
+  startIntervalJob(
+    JOB_NAME,
+    intervalFromEnv("SESSION_JOB_INTERVAL_MS", DEFAULT_INTERVAL_MS),
+    runSessionJob
+  );
+
+export const stopSessionJob = (): void => stopIntervalJob(JOB_NAME);
+
+export default { startSessionJob, stopSessionJob, runSessionJob };
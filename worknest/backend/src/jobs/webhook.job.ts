@@ -0,0 +1,33 @@
+import { webhookService } from "../services/webhook.service.js";
+import {
+  intervalFromEnv,
+  startIntervalJob,
+  stopIntervalJob,
+} from "./intervalJob.js";
+
+const JOB_NAME = "Webhook";
+const DEFAULT_INTERVAL_MS = 15 * 1000; // 15 seconds
+
+/**
+ * Retry webhook deliveries whose backoff has elapsed
+ */
+export const runWebhookJob = async (): Promise<void> => {
+  const attempted = await webhookService.processDueDeliveries();
+  if (attempted > 0) {
+    console.log(`🪝 Webhook job retried ${attempted} deliveries`);
+  }
+};
+
+/**
+ * Start the scheduled webhook retry worker
+ */
+export const startWebhookJob = (): void =>
+  startIntervalJob(
+    JOB_NAME,
+    intervalFromEnv("WEBHOOK_JOB_INTERVAL_MS", DEFAULT_INTERVAL_MS),
+    runWebhookJob
+  );
+
+export const stopWebhookJob = (): void => stopIntervalJob(JOB_NAME);
+
+export default { startWebhookJob, stopWebhookJob, runWebhookJob };
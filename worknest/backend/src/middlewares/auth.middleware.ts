@@ -2,6 +2,7 @@ import { Response, NextFunction } from "express";
 import jwt, { SignOptions } from "jsonwebtoken";
 import { AuthenticatedRequest, JWTPayload } from "../types/index.js";
 import User from "../models/User.js";
+import { sessionService } from "../services/session.service.js";
 
 /**
  * Authentication Middleware
@@ -64,16 +65,33 @@ export const authenticate = async (
       res.status(401).json({
         success: false,
         error: "Session expired or revoked. Please login again.",
+        code: "SESSION_EXPIRED",
       });
       return;
     }
 
-    // Attach user to request
+    // Check the device session (revocation, idle timeout)
+    const session = decoded.sessionId
+      ? await sessionService.getActiveSession(decoded.sessionId)
+      : null;
+
+    if (!session || session.userId.toString() !== decoded.userId) {
+      res.status(401).json({
+        success: false,
+        error: "Session expired or revoked. Please login again.",
+        code: "SESSION_EXPIRED",
+      });
+      return;
+    }
+
+    // Attach user to request. The role comes from the database so that
+    // promotions and demotions apply without signing in again.
     req.user = {
       userId: decoded.userId,
       organizationId: decoded.organizationId,
-      role: decoded.role,
+      role: user.role,
       tokenVersion: decoded.tokenVersion,
+      sessionId: decoded.sessionId,
     };
 
     // Update last seen
@@ -86,6 +104,7 @@ export const authenticate = async (
       res.status(401).json({
         success: false,
         error: "Token expired. Please login again.",
+        code: "TOKEN_EXPIRED",
       });
       return;
     }
@@ -136,11 +155,13 @@ export const authorize = (...roles: string[]) => {
 };
 
 /**
- * Generate JWT Token
+ * Generate JWT access token
+ * Kept short-lived; clients renew it with the session's refresh token
  */
 export const generateToken = (payload: JWTPayload): string => {
   const options: SignOptions = {
-    expiresIn: (process.env.JWT_EXPIRES_IN || "7d") as SignOptions["expiresIn"],
+    expiresIn: (process.env.JWT_EXPIRES_IN ||
+      "15m") as SignOptions["expiresIn"],
   };
   return jwt.sign(payload, process.env.JWT_SECRET || "secret", options);
 };
@@ -66,6 +66,9 @@ export const extractSubdomain = async (
         "/api/organizations/register",
         "/api/auth/register",
         "/api/auth/activate",
+        "/api/auth/password-policy",
+        "/api/auth/refresh",
+        "/api/auth/logout",
         "/api/auth/me",
         "/register",
       ];
@@ -110,6 +113,9 @@ export const validateOrganization = async (
         "/api/organizations/register",
         "/api/auth/register",
         "/api/auth/activate",
+        "/api/auth/password-policy",
+        "/api/auth/refresh",
+        "/api/auth/logout",
         "/api/auth/me",
         "/register",
       ];
@@ -0,0 +1,85 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { ChannelMember, Message } from "../models/index.js";
+
+dotenv.config();
+
+const MONGODB_URI =
+  process.env.MONGODB_URI || "mongodb://localhost:27017/worknest";
+
+const BATCH_SIZE = 500;
+
+/**
+ * Collapse Message.readBy into read cursors
+ *
+ * Messages used to record every reader in a readBy array. Read state now
+ * lives on ChannelMember.lastReadAt, so each member's cursor is moved to the
+ * latest time they were recorded reading the channel (if it is behind), and
+ * the arrays are removed. Safe to run more than once.
+ */
+const collapseReadBy = async () => {
+  try {
+    await mongoose.connect(MONGODB_URI);
+    console.log("✅ Connected to MongoDB");
+
+    // readBy is no longer part of the schema, so work on the raw collection
+    const cursors = Message.collection.aggregate<{
+      _id: { channelId: mongoose.Types.ObjectId; userId: mongoose.Types.ObjectId };
+      lastReadAt: Date;
+    }>(
+      [
+        { $match: { "readBy.0": { $exists: true } } },
+        { $unwind: "$readBy" },
+        {
+          $group: {
+            _id: { channelId: "$channelId", userId: "$readBy.userId" },
+            lastReadAt: { $max: "$readBy.readAt" },
+          },
+        },
+      ],
+      { allowDiskUse: true }
+    );
+
+    let batch: Parameters<typeof ChannelMember.bulkWrite>[0] = [];
+    let moved = 0;
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const result = await ChannelMember.bulkWrite(batch, { ordered: false });
+      moved += result.modifiedCount;
+      batch = [];
+    };
+
+    for await (const cursor of cursors) {
+      batch.push({
+        updateOne: {
+          filter: {
+            channelId: cursor._id.channelId,
+            userId: cursor._id.userId,
+            $or: [
+              { lastReadAt: { $lt: cursor.lastReadAt } },
+              { lastReadAt: null },
+            ],
+          },
+          update: { $set: { lastReadAt: cursor.lastReadAt } },
+        },
+      });
+      if (batch.length >= BATCH_SIZE) await flush();
+    }
+    await flush();
+    console.log(`📌 Moved ${moved} read cursors forward`);
+
+    const { modifiedCount } = await Message.collection.updateMany(
+      { readBy: { $exists: true } },
+      { $unset: { readBy: "" } }
+    );
+    console.log(`🧹 Removed readBy from ${modifiedCount} messages`);
+
+    await mongoose.connection.close();
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Migration failed:", error);
+    process.exit(1);
+  }
+};
+
+collapseReadBy();
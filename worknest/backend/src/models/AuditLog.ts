@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type AuditAction =
+  | "ADMIN_PROMOTED"
+  | "ADMIN_DEMOTED"
+  | "OWNERSHIP_TRANSFER_REQUESTED"
+  | "OWNERSHIP_TRANSFER_CANCELLED"
+  | "OWNERSHIP_TRANSFERRED";
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  "ADMIN_PROMOTED",
+  "ADMIN_DEMOTED",
+  "OWNERSHIP_TRANSFER_REQUESTED",
+  "OWNERSHIP_TRANSFER_CANCELLED",
+  "OWNERSHIP_TRANSFERRED",
+];
+
+// A record of who changed an organization's administration, and when
+export interface IAuditLog extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  actorId: mongoose.Types.ObjectId;
+  action: AuditAction;
+  targetUserId?: mongoose.Types.ObjectId | null;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: true,
+    },
+    targetUserId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+auditLogSchema.index({ organizationId: 1, createdAt: -1 });
+
+const AuditLog = mongoose.model<IAuditLog>("AuditLog", auditLogSchema);
+
+export default AuditLog;
@@ -5,11 +5,17 @@ export interface IChannel extends Document {
   _id: mongoose.Types.ObjectId;
   organizationId: mongoose.Types.ObjectId;
   name: string;
-  description?: string;
+  description?: string; // The channel's purpose
+  topic?: string; // What the channel is discussing right now
   type: ChannelType;
   createdBy: mongoose.Types.ObjectId;
-  dmParticipants?: mongoose.Types.ObjectId[]; // For DM channels
+  dmParticipants?: mongoose.Types.ObjectId[]; // For DM channels, 2 or more
   lastMessageAt?: Date;
+  retentionDays?: number | null; // Overrides org messageRetentionDays (null = inherit)
+  // Archived channels are read-only and hidden from the sidebar
+  isArchived: boolean;
+  archivedAt?: Date | null;
+  archivedBy?: mongoose.Types.ObjectId | null;
   kanbanColumns?: {
     id: string;
     title: string;
@@ -39,6 +45,12 @@ const channelSchema = new Schema<IChannel>(
       maxlength: [500, "Description cannot exceed 500 characters"],
       default: "",
     },
+    topic: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Topic cannot exceed 500 characters"],
+      default: "",
+    },
     type: {
       type: String,
       enum: ["PUBLIC", "PRIVATE", "DM"],
@@ -59,6 +71,24 @@ const channelSchema = new Schema<IChannel>(
       type: Date,
       default: null,
     },
+    retentionDays: {
+      type: Number,
+      min: [0, "Retention days cannot be negative"],
+      default: null,
+    },
+    isArchived: {
+      type: Boolean,
+      default: false,
+    },
+    archivedAt: {
+      type: Date,
+      default: null,
+    },
+    archivedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
     kanbanColumns: [
       {
         _id: false,
@@ -88,18 +118,22 @@ channelSchema.virtual("members", {
   foreignField: "channelId",
 });
 
-// Static method to find or create DM channel
+// Static method to find or create a DM channel. One-to-one and group DMs
+// are both identified by their exact set of participants.
 channelSchema.statics.findOrCreateDM = async function (
   organizationId: string,
   participants: string[]
 ): Promise<IChannel> {
   // Sort participants to ensure consistent lookup
-  const sortedParticipants = participants.sort();
+  const sortedParticipants = [...participants].sort();
 
   let channel = await this.findOne({
     organizationId,
     type: "DM",
-    dmParticipants: { $all: sortedParticipants, $size: 2 },
+    dmParticipants: {
+      $all: sortedParticipants,
+      $size: sortedParticipants.length,
+    },
   });
 
   if (!channel) {
@@ -115,11 +149,20 @@ channelSchema.statics.findOrCreateDM = async function (
   return channel;
 };
 
+// Static method to check whether a channel is archived (read-only)
+channelSchema.statics.isArchived = async function (
+  channelId: string
+): Promise<boolean> {
+  const channel = await this.exists({ _id: channelId, isArchived: true });
+  return !!channel;
+};
+
 export interface IChannelModel extends Model<IChannel> {
   findOrCreateDM(
     organizationId: string,
     participants: string[]
   ): Promise<IChannel>;
+  isArchived(channelId: string): Promise<boolean>;
 }
 
 const Channel = mongoose.model<IChannel, IChannelModel>(
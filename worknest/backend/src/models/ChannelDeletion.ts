@@ -0,0 +1,106 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export type ChannelDeletionStatus = "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+
+export interface ChannelDeletionCounts {
+  messages: number;
+  attachments: number;
+  members: number;
+  tasks: number;
+  wikiPages: number;
+  canvases: number;
+}
+
+// A permanent channel deletion, run by a background job. Kept after the
+// channel is gone so its progress and outcome can be looked up.
+export interface IChannelDeletion extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  channelId: mongoose.Types.ObjectId;
+  channelName: string;
+  requestedBy: mongoose.Types.ObjectId;
+  status: ChannelDeletionStatus;
+  counts: ChannelDeletionCounts;
+  attempts: number;
+  error?: string | null;
+  startedAt?: Date | null;
+  completedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const channelDeletionSchema = new Schema<IChannelDeletion>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    channelId: {
+      type: Schema.Types.ObjectId,
+      required: [true, "Channel ID is required"],
+    },
+    channelName: {
+      type: String,
+      required: true,
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["PENDING", "RUNNING", "COMPLETED", "FAILED"],
+      default: "PENDING",
+    },
+    counts: {
+      messages: { type: Number, default: 0 },
+      attachments: { type: Number, default: 0 },
+      members: { type: Number, default: 0 },
+      tasks: { type: Number, default: 0 },
+      wikiPages: { type: Number, default: 0 },
+      canvases: { type: Number, default: 0 },
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    startedAt: {
+      type: Date,
+      default: null,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+channelDeletionSchema.index({ status: 1, createdAt: 1 });
+channelDeletionSchema.index({ organizationId: 1, channelId: 1, createdAt: -1 });
+
+// Static method to find deletions waiting for the job
+channelDeletionSchema.statics.findPending = function (
+  limit = 5
+): Promise<IChannelDeletion[]> {
+  return this.find({ status: "PENDING" }).sort({ createdAt: 1 }).limit(limit);
+};
+
+export interface IChannelDeletionModel extends Model<IChannelDeletion> {
+  findPending(limit?: number): Promise<IChannelDeletion[]>;
+}
+
+const ChannelDeletion = mongoose.model<IChannelDeletion, IChannelDeletionModel>(
+  "ChannelDeletion",
+  channelDeletionSchema
+);
+
+export default ChannelDeletion;
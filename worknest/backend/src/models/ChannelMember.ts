@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema, Model } from "mongoose";
 import { ChannelMemberRole } from "../types/index.js";
+import User, { IUser } from "./User.js";
 
 export interface IChannelMember extends Document {
   _id: mongoose.Types.ObjectId;
@@ -96,13 +97,29 @@ channelMemberSchema.statics.getUserChannels = async function (
     .sort({ updatedAt: -1 });
 };
 
-// Static method to get channel members
+// Static method to get channel members, hiding the last seen time of users
+// whose privacy settings don't allow the viewer to see it
 channelMemberSchema.statics.getChannelMembers = async function (
-  channelId: string
+  channelId: string,
+  viewerId: string
 ): Promise<IChannelMember[]> {
-  return this.find({ channelId })
+  const members: IChannelMember[] = await this.find({ channelId })
     .populate("userId", "name email avatar status lastSeenAt")
     .sort({ joinedAt: 1 });
+
+  const users = members
+    .map((member) => member.userId as unknown as IUser | null)
+    .filter((user): user is IUser => !!user);
+  const hidden = await User.findLastSeenHidden(
+    viewerId,
+    users.map((user) => user._id.toString())
+  );
+  for (const user of users) {
+    if (hidden.has(user._id.toString())) {
+      user.set("lastSeenAt", undefined);
+    }
+  }
+  return members;
 };
 
 export interface IChannelMemberModel extends Model<IChannelMember> {
@@ -111,7 +128,10 @@ export interface IChannelMemberModel extends Model<IChannelMember> {
     organizationId: string,
     userId: string
   ): Promise<IChannelMember[]>;
-  getChannelMembers(channelId: string): Promise<IChannelMember[]>;
+  getChannelMembers(
+    channelId: string,
+    viewerId: string
+  ): Promise<IChannelMember[]>;
 }
 
 const ChannelMember = mongoose.model<IChannelMember, IChannelMemberModel>(
@@ -0,0 +1,111 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export type DigestReason = "MENTION" | "DM" | "KEYWORD";
+export type DigestItemStatus = "PENDING" | "SENDING";
+
+/**
+ * A message waiting to go out in a user's email digest
+ */
+export interface IDigestItem extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  channelId: mongoose.Types.ObjectId;
+  messageId: mongoose.Types.ObjectId;
+  // Set when the message is a thread reply
+  parentMessageId?: mongoose.Types.ObjectId | null;
+  reason: DigestReason;
+  keyword?: string;
+  // SENDING while a digest run has claimed the item
+  status: DigestItemStatus;
+  claimedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const digestItemSchema = new Schema<IDigestItem>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    channelId: {
+      type: Schema.Types.ObjectId,
+      ref: "Channel",
+      required: [true, "Channel ID is required"],
+    },
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+      required: [true, "Message ID is required"],
+    },
+    parentMessageId: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+      default: null,
+    },
+    reason: {
+      type: String,
+      enum: ["MENTION", "DM", "KEYWORD"],
+      required: true,
+    },
+    keyword: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ["PENDING", "SENDING"],
+      default: "PENDING",
+    },
+    claimedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+digestItemSchema.index({ userId: 1, messageId: 1 }, { unique: true });
+digestItemSchema.index({ status: 1, createdAt: 1 });
+// Items nobody picked up (e.g. the user stayed in DND) are dropped after a week
+digestItemSchema.index(
+  { updatedAt: 1 },
+  { expireAfterSeconds: 7 * 24 * 60 * 60 }
+);
+
+// Static method to find users with items older than the cutoff
+digestItemSchema.statics.findDueUserIds = function (
+  cutoff: Date,
+  limit = 100
+) {
+  return this.aggregate<{ _id: mongoose.Types.ObjectId }>([
+    { $match: { status: "PENDING", createdAt: { $lte: cutoff } } },
+    { $group: { _id: "$userId", oldest: { $min: "$createdAt" } } },
+    { $sort: { oldest: 1 } },
+    { $limit: limit },
+  ]).then((rows) => rows.map((row) => row._id));
+};
+
+export interface IDigestItemModel extends Model<IDigestItem> {
+  findDueUserIds(
+    cutoff: Date,
+    limit?: number
+  ): Promise<mongoose.Types.ObjectId[]>;
+}
+
+const DigestItem = mongoose.model<IDigestItem, IDigestItemModel>(
+  "DigestItem",
+  digestItemSchema
+);
+
+export default DigestItem;
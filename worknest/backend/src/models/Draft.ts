@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IDraftAttachment {
+  url: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+/**
+ * Unsent composer text of one user in a channel, or in a thread of it when
+ * threadId is set. Attachments are already uploaded; only their metadata is
+ * kept here.
+ */
+export interface IDraft extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  channelId: mongoose.Types.ObjectId;
+  // Parent message of the thread the draft is a reply in
+  threadId: mongoose.Types.ObjectId | null;
+  content: string;
+  replyToId: mongoose.Types.ObjectId | null;
+  attachments: IDraftAttachment[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const draftAttachmentSchema = new Schema<IDraftAttachment>(
+  {
+    url: { type: String, required: true },
+    name: { type: String, required: true },
+    type: { type: String, required: true },
+    size: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const draftSchema = new Schema<IDraft>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    channelId: {
+      type: Schema.Types.ObjectId,
+      ref: "Channel",
+      required: [true, "Channel ID is required"],
+    },
+    threadId: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+      default: null,
+    },
+    content: {
+      type: String,
+      default: "",
+      maxlength: [4000, "Message cannot exceed 4000 characters"],
+    },
+    replyToId: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+      default: null,
+    },
+    attachments: {
+      type: [draftAttachmentSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+draftSchema.index({ userId: 1, channelId: 1, threadId: 1 }, { unique: true });
+draftSchema.index({ userId: 1, updatedAt: -1 });
+
+const Draft = mongoose.model<IDraft>("Draft", draftSchema);
+
+export default Draft;
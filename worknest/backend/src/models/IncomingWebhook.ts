@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export interface IIncomingWebhook extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  channelId: mongoose.Types.ObjectId;
+  // Bot identity shown on the posted messages
+  name: string;
+  avatar?: string | null;
+  // Only the hash of the URL token is stored
+  tokenHash: string;
+  // First characters of the token so admins can tell URLs apart
+  tokenPrefix: string;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  messageCount: number;
+  lastUsedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const incomingWebhookSchema = new Schema<IIncomingWebhook>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    channelId: {
+      type: Schema.Types.ObjectId,
+      ref: "Channel",
+      required: [true, "Channel ID is required"],
+    },
+    name: {
+      type: String,
+      required: [true, "Webhook name is required"],
+      trim: true,
+      maxlength: [80, "Webhook name cannot exceed 80 characters"],
+    },
+    avatar: {
+      type: String,
+      default: null,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    tokenPrefix: {
+      type: String,
+      required: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    messageCount: {
+      type: Number,
+      default: 0,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.tokenHash;
+        return ret;
+      },
+    },
+    toObject: { virtuals: true },
+  }
+);
+
+incomingWebhookSchema.index({ organizationId: 1, channelId: 1 });
+
+// Static method to list a channel's incoming webhooks
+incomingWebhookSchema.statics.findByChannel = function (channelId: string) {
+  return this.find({ channelId }).sort({ createdAt: -1 });
+};
+
+export interface IIncomingWebhookModel extends Model<IIncomingWebhook> {
+  findByChannel(channelId: string): Promise<IIncomingWebhook[]>;
+}
+
+const IncomingWebhook = mongoose.model<IIncomingWebhook, IIncomingWebhookModel>(
+  "IncomingWebhook",
+  incomingWebhookSchema
+);
+
+export default IncomingWebhook;
@@ -1,11 +1,30 @@
 import mongoose, { Document, Schema, Model } from "mongoose";
-import { ContentType } from "../types/index.js";
+import { ContentType, MessageBlock, MessageBot } from "../types/index.js";
+
+export interface IPollOption {
+  _id: mongoose.Types.ObjectId;
+  text: string;
+  votes: mongoose.Types.ObjectId[];
+}
+
+// The question and votes of a POLL message
+export interface IMessagePoll {
+  question: string;
+  options: IPollOption[];
+  multipleChoice: boolean;
+  // Voters are only ever shown as counts
+  anonymous: boolean;
+  closesAt?: Date | null;
+  closedAt?: Date | null;
+}
 
 export interface IMessage extends Document {
   _id: mongoose.Types.ObjectId;
   organizationId: mongoose.Types.ObjectId;
   channelId: mongoose.Types.ObjectId;
+  // Unset for messages posted by an integration; see `bot`
   senderId: mongoose.Types.ObjectId;
+  bot?: MessageBot | null;
   content: string;
   contentType: ContentType;
   attachments?: {
@@ -17,6 +36,8 @@ export interface IMessage extends Document {
     waveform?: number[];
     duration?: number;
   }[];
+  blocks?: MessageBlock[];
+  poll?: IMessagePoll | null;
   replyTo?: mongoose.Types.ObjectId;
   // Thread-related fields
   parentMessageId?: mongoose.Types.ObjectId; // For thread replies
@@ -30,10 +51,6 @@ export interface IMessage extends Document {
   pinnedAt?: Date;
   pinnedBy?: mongoose.Types.ObjectId;
   reactions?: Map<string, mongoose.Types.ObjectId[]>;
-  readBy: {
-    userId: mongoose.Types.ObjectId;
-    readAt: Date;
-  }[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -51,6 +68,31 @@ const attachmentSchema = new Schema(
   { _id: false }
 );
 
+const pollSchema = new Schema(
+  {
+    question: {
+      type: String,
+      required: true,
+      maxlength: [300, "Poll question cannot exceed 300 characters"],
+    },
+    options: [
+      {
+        text: {
+          type: String,
+          required: true,
+          maxlength: [200, "Poll option cannot exceed 200 characters"],
+        },
+        votes: { type: [Schema.Types.ObjectId], ref: "User", default: [] },
+      },
+    ],
+    multipleChoice: { type: Boolean, default: false },
+    anonymous: { type: Boolean, default: false },
+    closesAt: { type: Date, default: null },
+    closedAt: { type: Date, default: null },
+  },
+  { _id: false }
+);
+
 const messageSchema = new Schema<IMessage>(
   {
     organizationId: {
@@ -67,7 +109,27 @@ const messageSchema = new Schema<IMessage>(
     senderId: {
       type: Schema.Types.ObjectId,
       ref: "User",
-      required: [true, "Sender ID is required"],
+      required: [
+        function (this: IMessage) {
+          return !this.bot;
+        },
+        "Sender ID is required",
+      ],
+    },
+    bot: {
+      type: new Schema(
+        {
+          incomingWebhookId: {
+            type: Schema.Types.ObjectId,
+            ref: "IncomingWebhook",
+            required: true,
+          },
+          name: { type: String, required: true },
+          avatar: { type: String, default: null },
+        },
+        { _id: false }
+      ),
+      default: null,
     },
     content: {
       type: String,
@@ -76,13 +138,21 @@ const messageSchema = new Schema<IMessage>(
     },
     contentType: {
       type: String,
-      enum: ["TEXT", "FILE", "SYSTEM", "AUDIO"],
+      enum: ["TEXT", "FILE", "SYSTEM", "AUDIO", "POLL"],
       default: "TEXT",
     },
     attachments: {
       type: [attachmentSchema],
       default: [],
     },
+    blocks: {
+      type: [Schema.Types.Mixed],
+      default: undefined,
+    },
+    poll: {
+      type: pollSchema,
+      default: undefined,
+    },
     replyTo: {
       type: Schema.Types.ObjectId,
       ref: "Message",
@@ -137,19 +207,6 @@ const messageSchema = new Schema<IMessage>(
       of: [Schema.Types.ObjectId],
       default: new Map(),
     },
-    readBy: [
-      {
-        userId: {
-          type: Schema.Types.ObjectId,
-          ref: "User",
-          required: true,
-        },
-        readAt: {
-          type: Date,
-          default: Date.now,
-        },
-      },
-    ],
   },
   {
     timestamps: true,
@@ -162,6 +219,19 @@ const messageSchema = new Schema<IMessage>(
 messageSchema.index({ channelId: 1, createdAt: -1 });
 messageSchema.index({ organizationId: 1, createdAt: -1 });
 messageSchema.index({ senderId: 1, createdAt: -1 });
+// Open polls with a close time (see jobs/poll.job.ts)
+messageSchema.index(
+  { "poll.closesAt": 1 },
+  { partialFilterExpression: { contentType: "POLL" } }
+);
+// Full-text search (see services/search.service.ts)
+messageSchema.index(
+  { content: "text", "attachments.name": "text" },
+  {
+    name: "message_text_search",
+    weights: { content: 10, "attachments.name": 5 },
+  }
+);
 
 // Virtual for sender info
 messageSchema.virtual("sender", {
@@ -171,6 +241,60 @@ messageSchema.virtual("sender", {
   justOne: true,
 });
 
+/**
+ * Sender as sent to clients: the populated user, or a stand-in built from the
+ * bot identity for messages posted by an integration
+ */
+export const getMessageSender = (message: IMessage) => {
+  if (!message.bot) return message.senderId;
+  const id = `bot:${message.bot.incomingWebhookId}`;
+  return {
+    _id: id,
+    id,
+    name: message.bot.name,
+    avatar: message.bot.avatar || undefined,
+    isBot: true,
+  };
+};
+
+/**
+ * Poll as sent to clients. Voter ids are left out of anonymous polls;
+ * `myVotes` is only included when the poll is serialized for one viewer.
+ */
+export const serializePoll = (poll: IMessagePoll, viewerId?: string) => {
+  const voters = new Set<string>();
+  const options = poll.options.map((option) => {
+    const voterIds = option.votes.map((id) => id.toString());
+    voterIds.forEach((id) => voters.add(id));
+    return {
+      id: option._id.toString(),
+      text: option.text,
+      voteCount: voterIds.length,
+      ...(poll.anonymous ? {} : { voterIds }),
+    };
+  });
+
+  return {
+    question: poll.question,
+    options,
+    multipleChoice: poll.multipleChoice,
+    anonymous: poll.anonymous,
+    closesAt: poll.closesAt || null,
+    closedAt: poll.closedAt || null,
+    isClosed:
+      !!poll.closedAt ||
+      (!!poll.closesAt && poll.closesAt.getTime() <= Date.now()),
+    voterCount: voters.size,
+    ...(viewerId
+      ? {
+          myVotes: poll.options
+            .filter((option) => option.votes.some((id) => id.toString() === viewerId))
+            .map((option) => option._id.toString()),
+        }
+      : {}),
+  };
+};
+
 // Static method to get channel messages with pagination
 messageSchema.statics.getChannelMessages = async function (
   channelId: string,
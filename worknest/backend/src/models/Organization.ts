@@ -1,5 +1,9 @@
 import mongoose, { Document, Schema, Model } from "mongoose";
-import { OrganizationStatus, OrganizationPlan } from "../types/index.js";
+import {
+  OrganizationStatus,
+  OrganizationPlan,
+  RetentionMode,
+} from "../types/index.js";
 
 export interface IOrganization extends Document {
   _id: mongoose.Types.ObjectId;
@@ -8,6 +12,18 @@ export interface IOrganization extends Document {
   status: OrganizationStatus;
   plan: OrganizationPlan;
   logo?: string;
+  // Resolved lazily for organizations created before owners existed
+  ownerId?: mongoose.Types.ObjectId | null;
+  // A transfer waiting for the new owner to confirm from their email
+  ownershipTransfer?: {
+    toUserId: mongoose.Types.ObjectId;
+    requestedBy: mongoose.Types.ObjectId;
+    tokenHash: string;
+    expiresAt: Date;
+  } | null;
+  // Held while a change that takes someone's admin rights away runs, so
+  // two of them cannot each leave the other as the last admin
+  adminChangeLockedUntil?: Date | null;
   settings?: {
     general: {
       timezone: string;
@@ -17,12 +33,15 @@ export interface IOrganization extends Document {
       defaultChannels: string[];
       allowPrivateChannels: boolean;
       messageRetentionDays: number;
+      retentionMode: RetentionMode;
     };
     security: {
       passwordPolicy: {
         minLength: number;
         requireNumbers: boolean;
         requireSymbols: boolean;
+        historyCount: number;
+        expiryDays: number;
       };
       sessionTimeoutMinutes: number;
     };
@@ -74,21 +93,52 @@ const organizationSchema = new Schema<IOrganization>(
       type: String,
       default: null,
     },
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    ownershipTransfer: {
+      type: {
+        toUserId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        requestedBy: {
+          type: Schema.Types.ObjectId,
+          ref: "User",
+          required: true,
+        },
+        tokenHash: { type: String, required: true },
+        expiresAt: { type: Date, required: true },
+      },
+      default: null,
+      select: false,
+    },
+    adminChangeLockedUntil: {
+      type: Date,
+      default: null,
+      select: false,
+    },
     settings: {
       general: {
         timezone: { type: String, default: "UTC" },
         language: { type: String, default: "en" },
       },
       channelPolicies: {
-        defaultChannels: [{ type: String, default: ["general"] }],
+        defaultChannels: { type: [String], default: ["general"] },
         allowPrivateChannels: { type: Boolean, default: true },
-        messageRetentionDays: { type: Number, default: 0 }, // 0 = forever
+        messageRetentionDays: { type: Number, default: 0, min: 0 }, // 0 = forever
+        retentionMode: {
+          type: String,
+          enum: ["SOFT", "HARD"],
+          default: "SOFT",
+        },
       },
       security: {
         passwordPolicy: {
-          minLength: { type: Number, default: 8 },
+          minLength: { type: Number, default: 8, min: 6 },
           requireNumbers: { type: Boolean, default: false },
           requireSymbols: { type: Boolean, default: false },
+          historyCount: { type: Number, default: 0, min: 0, max: 24 }, // 0 = allow reuse
+          expiryDays: { type: Number, default: 0, min: 0 }, // 0 = never
         },
         sessionTimeoutMinutes: { type: Number, default: 1440 }, // 24 hours
       },
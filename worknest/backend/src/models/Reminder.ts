@@ -0,0 +1,91 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export interface IReminder extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  // Channel the reminder was set from
+  channelId?: mongoose.Types.ObjectId | null;
+  // Message the reminder is about, if any
+  messageId?: mongoose.Types.ObjectId | null;
+  text: string;
+  remindAt: Date;
+  deliveredAt?: Date | null;
+  completedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reminderSchema = new Schema<IReminder>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    channelId: {
+      type: Schema.Types.ObjectId,
+      ref: "Channel",
+      default: null,
+    },
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+      default: null,
+    },
+    // Optional for reminders about a message
+    text: {
+      type: String,
+      default: "",
+      trim: true,
+      maxlength: [1000, "Reminder cannot exceed 1000 characters"],
+    },
+    remindAt: {
+      type: Date,
+      required: [true, "Reminder time is required"],
+    },
+    deliveredAt: {
+      type: Date,
+      default: null,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+reminderSchema.index({ deliveredAt: 1, remindAt: 1 });
+reminderSchema.index({ userId: 1, completedAt: 1, remindAt: 1 });
+
+// Static method to find undelivered reminders that are due
+reminderSchema.statics.findDue = function (limit = 100) {
+  return this.find({
+    deliveredAt: null,
+    completedAt: null,
+    remindAt: { $lte: new Date() },
+  })
+    .sort({ remindAt: 1 })
+    .limit(limit);
+};
+
+export interface IReminderModel extends Model<IReminder> {
+  findDue(limit?: number): Promise<IReminder[]>;
+}
+
+const Reminder = mongoose.model<IReminder, IReminderModel>(
+  "Reminder",
+  reminderSchema
+);
+
+export default Reminder;
@@ -0,0 +1,112 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+import { ResolvedSearch, SearchFilterParams } from "../types/index.js";
+import { searchFiltersSchema } from "./SearchHistory.js";
+
+export const MAX_SAVED_SEARCHES = 50;
+
+export interface ISavedSearch extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  query: string;
+  filters: SearchFilterParams;
+  // Push a notification when a new message matches
+  notify: boolean;
+  lastNotifiedAt?: Date | null;
+  // The query resolved when it is saved; null when it can never match and
+  // missing on searches saved before it was kept
+  resolved?: ResolvedSearch | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedSearchSchema = new Schema<ISavedSearch>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    name: {
+      type: String,
+      required: [true, "Saved search name is required"],
+      trim: true,
+      maxlength: [80, "Saved search name cannot exceed 80 characters"],
+    },
+    query: {
+      type: String,
+      required: [true, "Search query is required"],
+      trim: true,
+      maxlength: [500, "Search query cannot exceed 500 characters"],
+    },
+    filters: {
+      type: searchFiltersSchema,
+      default: () => ({}),
+    },
+    notify: {
+      type: Boolean,
+      default: false,
+    },
+    lastNotifiedAt: {
+      type: Date,
+      default: null,
+    },
+    resolved: {
+      type: Schema.Types.Mixed,
+      default: undefined,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.resolved;
+        return ret;
+      },
+    },
+    toObject: { virtuals: true },
+  }
+);
+
+savedSearchSchema.index({ userId: 1, name: 1 }, { unique: true });
+savedSearchSchema.index({ organizationId: 1, notify: 1 });
+
+// Static method to get the saved searches that want new-message
+// notifications, leaving out those limited to other channels
+savedSearchSchema.statics.findNotifying = function (
+  organizationId: string,
+  userIds: string[],
+  channelId: string
+) {
+  return this.find({
+    organizationId,
+    notify: true,
+    userId: { $in: userIds },
+    $or: [
+      { "resolved.filters.channelIds": channelId },
+      { "resolved.filters.channelIds.0": { $exists: false } },
+    ],
+  });
+};
+
+export interface ISavedSearchModel extends Model<ISavedSearch> {
+  findNotifying(
+    organizationId: string,
+    userIds: string[],
+    channelId: string
+  ): Promise<ISavedSearch[]>;
+}
+
+const SavedSearch = mongoose.model<ISavedSearch, ISavedSearchModel>(
+  "SavedSearch",
+  savedSearchSchema
+);
+
+export default SavedSearch;
@@ -0,0 +1,98 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export type ScheduledMessageStatus = "PENDING" | "SENDING" | "SENT" | "FAILED";
+
+/**
+ * A message written now and posted to its channel at scheduledAt. It is
+ * marked SENT right before it is posted, so it is never posted twice, and
+ * deleted afterwards; one that can't be posted is kept as FAILED so its
+ * author can see why.
+ */
+export interface IScheduledMessage extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  channelId: mongoose.Types.ObjectId;
+  senderId: mongoose.Types.ObjectId;
+  content: string;
+  scheduledAt: Date;
+  // Timezone the send time was picked in, for display
+  timezone: string;
+  status: ScheduledMessageStatus;
+  // When a worker claimed the message for sending
+  claimedAt?: Date | null;
+  failureReason?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scheduledMessageSchema = new Schema<IScheduledMessage>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    channelId: {
+      type: Schema.Types.ObjectId,
+      ref: "Channel",
+      required: [true, "Channel ID is required"],
+    },
+    senderId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Sender ID is required"],
+    },
+    content: {
+      type: String,
+      required: [true, "Message content is required"],
+      maxlength: [4000, "Message cannot exceed 4000 characters"],
+    },
+    scheduledAt: {
+      type: Date,
+      required: [true, "Send time is required"],
+    },
+    timezone: {
+      type: String,
+      default: "UTC",
+    },
+    status: {
+      type: String,
+      enum: ["PENDING", "SENDING", "SENT", "FAILED"],
+      default: "PENDING",
+    },
+    claimedAt: {
+      type: Date,
+      default: null,
+    },
+    failureReason: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+scheduledMessageSchema.index({ status: 1, scheduledAt: 1 });
+scheduledMessageSchema.index({ senderId: 1, status: 1, scheduledAt: 1 });
+
+// Static method to find pending messages that are due
+scheduledMessageSchema.statics.findDue = function (limit = 100) {
+  return this.find({ status: "PENDING", scheduledAt: { $lte: new Date() } })
+    .sort({ scheduledAt: 1 })
+    .limit(limit);
+};
+
+export interface IScheduledMessageModel extends Model<IScheduledMessage> {
+  findDue(limit?: number): Promise<IScheduledMessage[]>;
+}
+
+const ScheduledMessage = mongoose.model<
+  IScheduledMessage,
+  IScheduledMessageModel
+>("ScheduledMessage", scheduledMessageSchema);
+
+export default ScheduledMessage;
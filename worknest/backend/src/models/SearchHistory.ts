@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+import { SearchFilterParams } from "../types/index.js";
+
+// Entries kept per user; older ones are trimmed when a new search is recorded
+export const MAX_RECENT_SEARCHES = 20;
+
+export interface ISearchHistory extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  query: string;
+  filters: SearchFilterParams;
+  // query + filters, so the same search is stored once
+  signature: string;
+  searchedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const searchFiltersSchema = new Schema<SearchFilterParams>(
+  {
+    channelId: { type: String, default: undefined },
+    userId: { type: String, default: undefined },
+    type: {
+      type: String,
+      enum: ["all", "messages", "threads", "files", "wiki", "tasks"],
+      default: "all",
+    },
+  },
+  { _id: false }
+);
+
+const searchHistorySchema = new Schema<ISearchHistory>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    query: {
+      type: String,
+      required: [true, "Search query is required"],
+      trim: true,
+      maxlength: [500, "Search query cannot exceed 500 characters"],
+    },
+    filters: {
+      type: searchFiltersSchema,
+      default: () => ({}),
+    },
+    signature: {
+      type: String,
+      required: true,
+    },
+    searchedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.signature;
+        return ret;
+      },
+    },
+    toObject: { virtuals: true },
+  }
+);
+
+searchHistorySchema.index({ userId: 1, signature: 1 }, { unique: true });
+searchHistorySchema.index({ userId: 1, searchedAt: -1 });
+
+// Static method to get a user's most recent searches
+searchHistorySchema.statics.findRecent = function (
+  userId: string,
+  limit: number = MAX_RECENT_SEARCHES
+) {
+  return this.find({ userId }).sort({ searchedAt: -1 }).limit(limit);
+};
+
+export interface ISearchHistoryModel extends Model<ISearchHistory> {
+  findRecent(userId: string, limit?: number): Promise<ISearchHistory[]>;
+}
+
+const SearchHistory = mongoose.model<ISearchHistory, ISearchHistoryModel>(
+  "SearchHistory",
+  searchHistorySchema
+);
+
+export default SearchHistory;
@@ -0,0 +1,130 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+import { SessionRevokeReason } from "../types/index.js";
+
+export interface ISession extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string | null;
+  rotatedAt?: Date | null;
+  handoffCodeHash?: string | null;
+  handoffExpiresAt?: Date | null;
+  userAgent?: string;
+  ipAddress?: string;
+  lastActiveAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokeReason | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    // The refresh token replaced by the last rotation, still accepted for a
+    // few seconds so a concurrent refresh from another tab is not taken as reuse
+    previousRefreshTokenHash: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    rotatedAt: {
+      type: Date,
+      default: null,
+    },
+    // One-time code that carries a new session over to the organization's
+    // subdomain in a redirect
+    handoffCodeHash: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    handoffExpiresAt: {
+      type: Date,
+      default: null,
+    },
+    userAgent: {
+      type: String,
+      maxlength: 500,
+      default: null,
+    },
+    ipAddress: {
+      type: String,
+      default: null,
+    },
+    lastActiveAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      enum: ["LOGOUT", "REVOKED", "IDLE_TIMEOUT", "EXPIRED", "TOKEN_REUSE"],
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.refreshTokenHash;
+        delete ret.previousRefreshTokenHash;
+        delete ret.handoffCodeHash;
+        return ret;
+      },
+    },
+    toObject: { virtuals: true },
+  }
+);
+
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+sessionSchema.index({ organizationId: 1, revokedAt: 1, lastActiveAt: 1 });
+// Drop session records a week after they can no longer be refreshed
+sessionSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: 7 * 24 * 60 * 60 }
+);
+
+// Static method to find sessions that can still be used
+sessionSchema.statics.findActiveByUser = function (userId: string) {
+  return this.find({
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  }).sort({ lastActiveAt: -1 });
+};
+
+export interface ISessionModel extends Model<ISession> {
+  findActiveByUser(userId: string): Promise<ISession[]>;
+}
+
+const Session = mongoose.model<ISession, ISessionModel>(
+  "Session",
+  sessionSchema
+);
+
+export default Session;
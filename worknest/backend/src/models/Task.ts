@@ -80,5 +80,12 @@ const taskSchema = new Schema<ITask>(
 
 // Index for efficient fetching of tasks in a channel
 taskSchema.index({ channelId: 1, status: 1, order: 1 });
+taskSchema.index(
+  { title: "text", description: "text", labels: "text" },
+  {
+    name: "task_text_search",
+    weights: { title: 10, labels: 5, description: 3 },
+  }
+);
 
 export default mongoose.model<ITask>("Task", taskSchema);
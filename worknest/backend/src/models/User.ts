@@ -1,6 +1,7 @@
 import mongoose, { Document, Schema, Model } from "mongoose";
 import bcrypt from "bcryptjs";
 import { UserRole, UserStatus } from "../types/index.js";
+import Channel from "./Channel.js";
 
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
@@ -8,6 +9,9 @@ export interface IUser extends Document {
   name: string;
   email: string;
   passwordHash: string;
+  passwordHistory?: string[];
+  passwordChangedAt?: Date | null;
+  passwordExpiresAt?: Date | null;
   role: UserRole;
   status: UserStatus;
   avatar?: string;
@@ -58,6 +62,15 @@ export interface IUser extends Document {
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
+  isPasswordReused(
+    candidatePassword: string,
+    historyCount: number
+  ): Promise<boolean>;
+  setPassword(
+    password: string,
+    historyCount: number,
+    expiresAt: Date | null
+  ): void;
 }
 
 const userSchema = new Schema<IUser>(
@@ -87,6 +100,19 @@ const userSchema = new Schema<IUser>(
       minlength: [6, "Password must be at least 6 characters"],
       select: false, // Don't include in queries by default
     },
+    passwordHistory: {
+      type: [String], // Previous hashes, newest first
+      default: [],
+      select: false,
+    },
+    passwordChangedAt: {
+      type: Date,
+      default: null,
+    },
+    passwordExpiresAt: {
+      type: Date,
+      default: null,
+    },
     role: {
       type: String,
       enum: ["ADMIN", "EMPLOYEE"],
@@ -178,6 +204,7 @@ const userSchema = new Schema<IUser>(
       virtuals: true,
       transform: function (_doc, ret: Record<string, unknown>) {
         delete ret.passwordHash;
+        delete ret.passwordHistory;
         return ret;
       },
     },
@@ -212,6 +239,45 @@ userSchema.methods.comparePassword = async function (
   return bcrypt.compare(candidatePassword, this.passwordHash);
 };
 
+// Method to check a candidate against the current and previous passwords.
+// Requires +passwordHash and +passwordHistory to be selected.
+userSchema.methods.isPasswordReused = async function (
+  candidatePassword: string,
+  historyCount: number
+): Promise<boolean> {
+  if (historyCount <= 0) return false;
+
+  const hashes = [this.passwordHash, ...(this.passwordHistory || [])]
+    .filter(Boolean)
+    .slice(0, historyCount);
+
+  for (const hash of hashes) {
+    if (await bcrypt.compare(candidatePassword, hash)) return true;
+  }
+  return false;
+};
+
+// Method to set a new password, remembering the current hash when history is
+// enabled. The pre-save hook takes care of hashing the new value.
+userSchema.methods.setPassword = function (
+  password: string,
+  historyCount: number,
+  expiresAt: Date | null
+): void {
+  if (historyCount > 0 && this.passwordHash && !this.isNew) {
+    this.passwordHistory = [
+      this.passwordHash,
+      ...(this.passwordHistory || []),
+    ].slice(0, historyCount - 1);
+  } else if (historyCount <= 0) {
+    this.passwordHistory = [];
+  }
+
+  this.passwordHash = password;
+  this.passwordChangedAt = new Date();
+  this.passwordExpiresAt = expiresAt;
+};
+
 // Static method to find by email within organization
 userSchema.statics.findByEmail = function (
   organizationId: string,
@@ -222,8 +288,51 @@ userSchema.statics.findByEmail = function (
   );
 };
 
+// Static method to find whose last seen time the viewer may not see. Users
+// who hide their online status also hide their last seen time, since it
+// changes with every request they make. "contacts" are people the user has a
+// direct message with.
+userSchema.statics.findLastSeenHidden = async function (
+  viewerId: string,
+  userIds: string[]
+): Promise<Set<string>> {
+  const others = [...new Set(userIds)].filter((id) => id !== viewerId);
+  const hidden = new Set<string>();
+  if (others.length === 0) return hidden;
+
+  const users = await this.find({ _id: { $in: others } }).select(
+    "settings.privacy"
+  );
+  const contactsOnly: string[] = [];
+  for (const user of users) {
+    const privacy = user.settings?.privacy;
+    const id = user._id.toString();
+    if (privacy?.showOnlineStatus === false || privacy?.lastSeenVisibility === "none") {
+      hidden.add(id);
+    } else if (privacy?.lastSeenVisibility === "contacts") {
+      contactsOnly.push(id);
+    }
+  }
+
+  if (contactsOnly.length > 0) {
+    const dms = await Channel.find({
+      type: "DM",
+      dmParticipants: viewerId,
+    }).select("dmParticipants");
+    const contacts = new Set(
+      dms.flatMap((dm) => (dm.dmParticipants || []).map((id) => id.toString()))
+    );
+    for (const id of contactsOnly) {
+      if (!contacts.has(id)) hidden.add(id);
+    }
+  }
+
+  return hidden;
+};
+
 export interface IUserModel extends Model<IUser> {
   findByEmail(organizationId: string, email: string): Promise<IUser | null>;
+  findLastSeenHidden(viewerId: string, userIds: string[]): Promise<Set<string>>;
 }
 
 const User = mongoose.model<IUser, IUserModel>("User", userSchema);
@@ -0,0 +1,148 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export const WEBHOOK_EVENTS = [
+  "message.created",
+  "message.updated",
+  "message.deleted",
+  "channel.created",
+  "channel.updated",
+  "channel.deleted",
+  "channel.archived",
+  "channel.unarchived",
+  "member.added",
+  "member.removed",
+  "task.created",
+  "task.updated",
+  "task.moved",
+  "task.deleted",
+  "wiki.page.created",
+  "wiki.page.updated",
+  "wiki.page.deleted",
+  "user.invited",
+  "user.joined",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface IWebhook extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  name: string;
+  url: string;
+  // Subscribed events; "*" subscribes to everything
+  events: string[];
+  secret: string;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  consecutiveFailures: number;
+  disabledAt?: Date | null;
+  disabledReason?: string | null;
+  lastDeliveryAt?: Date | null;
+  lastSuccessAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookSchema = new Schema<IWebhook>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    name: {
+      type: String,
+      required: [true, "Webhook name is required"],
+      trim: true,
+      maxlength: [100, "Webhook name cannot exceed 100 characters"],
+    },
+    url: {
+      type: String,
+      required: [true, "Webhook URL is required"],
+      trim: true,
+      maxlength: [2000, "Webhook URL cannot exceed 2000 characters"],
+    },
+    events: {
+      type: [String],
+      validate: {
+        validator: (events: string[]) =>
+          events.length > 0 &&
+          events.every(
+            (e) => e === "*" || (WEBHOOK_EVENTS as readonly string[]).includes(e)
+          ),
+        message: "Webhook events must be known event names or *",
+      },
+    },
+    secret: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    consecutiveFailures: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    disabledAt: {
+      type: Date,
+      default: null,
+    },
+    disabledReason: {
+      type: String,
+      default: null,
+    },
+    lastDeliveryAt: {
+      type: Date,
+      default: null,
+    },
+    lastSuccessAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function (_doc, ret: Record<string, unknown>) {
+        delete ret.secret;
+        return ret;
+      },
+    },
+    toObject: { virtuals: true },
+  }
+);
+
+webhookSchema.index({ organizationId: 1, isActive: 1 });
+
+// Static method to find active webhooks subscribed to an event
+webhookSchema.statics.findSubscribed = function (
+  organizationId: string,
+  event: string
+) {
+  return this.find({
+    organizationId,
+    isActive: true,
+    events: { $in: [event, "*"] },
+  });
+};
+
+export interface IWebhookModel extends Model<IWebhook> {
+  findSubscribed(organizationId: string, event: string): Promise<IWebhook[]>;
+}
+
+const Webhook = mongoose.model<IWebhook, IWebhookModel>(
+  "Webhook",
+  webhookSchema
+);
+
+export default Webhook;
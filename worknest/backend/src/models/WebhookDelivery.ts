@@ -0,0 +1,128 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export type WebhookDeliveryStatus = "PENDING" | "SUCCESS" | "FAILED";
+
+export interface IWebhookDelivery extends Document {
+  _id: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId;
+  webhookId: mongoose.Types.ObjectId;
+  // Shared by replays of the same event so receivers can deduplicate
+  eventId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date | null;
+  lastAttemptAt?: Date | null;
+  deliveredAt?: Date | null;
+  responseStatus?: number | null;
+  responseBody?: string | null;
+  error?: string | null;
+  durationMs?: number | null;
+  replayOf?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Organization",
+      required: [true, "Organization ID is required"],
+    },
+    webhookId: {
+      type: Schema.Types.ObjectId,
+      ref: "Webhook",
+      required: [true, "Webhook ID is required"],
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    event: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["PENDING", "SUCCESS", "FAILED"],
+      default: "PENDING",
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastAttemptAt: {
+      type: Date,
+      default: null,
+    },
+    deliveredAt: {
+      type: Date,
+      default: null,
+    },
+    responseStatus: {
+      type: Number,
+      default: null,
+    },
+    responseBody: {
+      type: String,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    durationMs: {
+      type: Number,
+      default: null,
+    },
+    replayOf: {
+      type: Schema.Types.ObjectId,
+      ref: "WebhookDelivery",
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+// Keep the delivery log for 30 days
+webhookDeliverySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 30 * 24 * 60 * 60 }
+);
+
+// Static method to find deliveries whose next attempt is due
+webhookDeliverySchema.statics.findDue = function (limit: number = 50) {
+  return this.find({
+    status: "PENDING",
+    nextAttemptAt: { $lte: new Date() },
+  })
+    .sort({ nextAttemptAt: 1 })
+    .limit(limit);
+};
+
+export interface IWebhookDeliveryModel extends Model<IWebhookDelivery> {
+  findDue(limit?: number): Promise<IWebhookDelivery[]>;
+}
+
+const WebhookDelivery = mongoose.model<
+  IWebhookDelivery,
+  IWebhookDeliveryModel
+>("WebhookDelivery", webhookDeliverySchema);
+
+export default WebhookDelivery;
@@ -108,5 +108,9 @@ const wikiPageSchema = new Schema<IWikiPage>(
 // Compound index for efficient fetching
 wikiPageSchema.index({ channelId: 1, slug: 1 }, { unique: true });
 wikiPageSchema.index({ channelId: 1, parentId: 1, order: 1 });
+wikiPageSchema.index(
+  { title: "text", content: "text" },
+  { name: "wiki_text_search", weights: { title: 10, content: 2 } }
+);
 
 export default mongoose.model<IWikiPage>("WikiPage", wikiPageSchema);
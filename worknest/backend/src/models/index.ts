@@ -10,11 +10,88 @@ export {
   IChannelMember,
   IChannelMemberModel,
 } from "./ChannelMember.js";
-export { default as Message, IMessage, IMessageModel } from "./Message.js";
+export {
+  default as Message,
+  IMessage,
+  IMessageModel,
+  IMessagePoll,
+  IPollOption,
+  getMessageSender,
+  serializePoll,
+} from "./Message.js";
+export {
+  default as Session,
+  ISession,
+  ISessionModel,
+} from "./Session.js";
+export {
+  default as Draft,
+  IDraft,
+  IDraftAttachment,
+} from "./Draft.js";
+export {
+  default as Reminder,
+  IReminder,
+  IReminderModel,
+} from "./Reminder.js";
+export {
+  default as SearchHistory,
+  ISearchHistory,
+  ISearchHistoryModel,
+} from "./SearchHistory.js";
+export {
+  default as SavedSearch,
+  ISavedSearch,
+  ISavedSearchModel,
+} from "./SavedSearch.js";
+export {
+  default as IncomingWebhook,
+  IIncomingWebhook,
+  IIncomingWebhookModel,
+} from "./IncomingWebhook.js";
+export {
+  default as DigestItem,
+  IDigestItem,
+  IDigestItemModel,
+  DigestItemStatus,
+  DigestReason,
+} from "./DigestItem.js";
+export {
+  default as ScheduledMessage,
+  IScheduledMessage,
+  IScheduledMessageModel,
+  ScheduledMessageStatus,
+} from "./ScheduledMessage.js";
 export { default as Task, ITask } from "./Task.js";
+export {
+  default as Webhook,
+  IWebhook,
+  IWebhookModel,
+  WebhookEvent,
+  WEBHOOK_EVENTS,
+} from "./Webhook.js";
+export {
+  default as WebhookDelivery,
+  IWebhookDelivery,
+  IWebhookDeliveryModel,
+  WebhookDeliveryStatus,
+} from "./WebhookDelivery.js";
 export {
   default as WikiPage,
   IWikiPage,
   IWikiPageVersion,
 } from "./WikiPage.js";
 export { Canvas, ICanvas, ICanvasElement } from "./Canvas.js";
+export {
+  default as ChannelDeletion,
+  IChannelDeletion,
+  IChannelDeletionModel,
+  ChannelDeletionCounts,
+  ChannelDeletionStatus,
+} from "./ChannelDeletion.js";
+export {
+  default as AuditLog,
+  IAuditLog,
+  AuditAction,
+  AUDIT_ACTIONS,
+} from "./AuditLog.js";
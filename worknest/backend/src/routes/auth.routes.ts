@@ -22,6 +22,33 @@ router.post(
  */
 router.post("/login", asyncHandler(authController.login.bind(authController)));
 
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Exchange a refresh token for a new access token
+ * @access  Public (requires refresh token)
+ */
+router.post(
+  "/refresh",
+  asyncHandler(authController.refresh.bind(authController))
+);
+
+/**
+ * @route   POST /api/auth/exchange
+ * @desc    Exchange a one-time code from a subdomain redirect for tokens
+ * @access  Public (requires code)
+ */
+router.post(
+  "/exchange",
+  asyncHandler(authController.exchange.bind(authController))
+);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    End the current device session
+ * @access  Public (requires refresh token)
+ */
+router.post("/logout", asyncHandler(authController.logout.bind(authController)));
+
 /**
  * @route   GET /api/auth/me
  * @desc    Get current user info
@@ -54,6 +81,16 @@ router.post(
   asyncHandler(authController.activate.bind(authController))
 );
 
+/**
+ * @route   GET /api/auth/password-policy
+ * @desc    Get the password policy for the organization or an invitation
+ * @access  Public
+ */
+router.get(
+  "/password-policy",
+  asyncHandler(authController.getPasswordPolicy.bind(authController))
+);
+
 /**
  * @route   POST /api/auth/change-password
  * @desc    Change user password
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { channelController } from "../controllers/index.js";
+import { incomingWebhookController } from "../controllers/incomingWebhook.controller.js";
 import { asyncHandler } from "../utils/index.js";
 
 const router = Router();
@@ -23,7 +24,7 @@ router.post(
 
 /**
  * @route   POST /api/channels/dm
- * @desc    Create or get DM channel
+ * @desc    Create or get a DM channel with one person (userId) or a group (userIds)
  * @access  Private
  */
 router.post(
@@ -31,6 +32,16 @@ router.post(
   asyncHandler(channelController.createDM.bind(channelController))
 );
 
+/**
+ * @route   GET /api/channels/browse
+ * @desc    Browse public channels (?q=&sort=members|activity|name&page=)
+ * @access  Private
+ */
+router.get(
+  "/browse",
+  asyncHandler(channelController.browse.bind(channelController))
+);
+
 /**
  * @route   GET /api/channels/:id
  * @desc    Get channel details
@@ -41,9 +52,19 @@ router.get(
   asyncHandler(channelController.getById.bind(channelController))
 );
 
+/**
+ * @route   PUT /api/channels/:id
+ * @desc    Edit channel name, purpose, topic or type
+ * @access  Private (Admin or channel admin)
+ */
+router.put(
+  "/:id",
+  asyncHandler(channelController.update.bind(channelController))
+);
+
 /**
  * @route   DELETE /api/channels/:id
- * @desc    Delete channel
+ * @desc    Permanently delete an archived channel (runs in the background)
  * @access  Private (Admin only)
  */
 router.delete(
@@ -51,6 +72,76 @@ router.delete(
   asyncHandler(channelController.delete.bind(channelController))
 );
 
+/**
+ * @route   GET /api/channels/:id/deletion
+ * @desc    Get the progress of a channel's permanent deletion
+ * @access  Private (Admin only)
+ */
+router.get(
+  "/:id/deletion",
+  asyncHandler(channelController.getDeletion.bind(channelController))
+);
+
+/**
+ * @route   GET /api/channels/:id/preview
+ * @desc    Preview a public channel's recent messages
+ * @access  Private
+ */
+router.get(
+  "/:id/preview",
+  asyncHandler(channelController.preview.bind(channelController))
+);
+
+/**
+ * @route   POST /api/channels/:id/join
+ * @desc    Join a public channel
+ * @access  Private
+ */
+router.post(
+  "/:id/join",
+  asyncHandler(channelController.join.bind(channelController))
+);
+
+/**
+ * @route   POST /api/channels/:id/leave
+ * @desc    Leave a channel
+ * @access  Private (member only)
+ */
+router.post(
+  "/:id/leave",
+  asyncHandler(channelController.leave.bind(channelController))
+);
+
+/**
+ * @route   POST /api/channels/:id/convert
+ * @desc    Turn a group DM into a private channel
+ * @access  Private (participants only)
+ */
+router.post(
+  "/:id/convert",
+  asyncHandler(channelController.convertToChannel.bind(channelController))
+);
+
+/**
+ * @route   POST /api/channels/:id/archive
+ * @desc    Archive channel (read-only, hidden from the sidebar)
+ * @access  Private (Admin or channel admin)
+ */
+router.post(
+  "/:id/archive",
+  asyncHandler(channelController.archive.bind(channelController))
+);
+
+/**
+ * @route   POST /api/channels/:id/unarchive
+ * @desc    Restore an archived channel
+ * @access  Private (Admin only)
+ */
+router.post(
+  "/:id/unarchive",
+  asyncHandler(channelController.unarchive.bind(channelController))
+);
+
 /**
  * @route   POST /api/channels/:id/members
  * @desc    Add member to channel
@@ -93,6 +184,16 @@ router.put(
   )
 );
 
+/**
+ * @route   PUT /api/channels/:id/retention
+ * @desc    Override message retention for a channel
+ * @access  Private (Admin only)
+ */
+router.put(
+  "/:id/retention",
+  asyncHandler(channelController.updateRetention.bind(channelController))
+);
+
 /**
  * @route   PUT /api/channels/:id/columns
  * @desc    Update Kanban columns
@@ -103,4 +204,56 @@ router.put(
   asyncHandler(channelController.updateColumns.bind(channelController))
 );
 
+/**
+ * @route   GET /api/channels/:id/incoming-webhooks
+ * @desc    List the channel's incoming webhooks
+ * @access  Private (Admin or channel admin)
+ */
+router.get(
+  "/:id/incoming-webhooks",
+  asyncHandler(incomingWebhookController.getAll.bind(incomingWebhookController))
+);
+
+/**
+ * @route   POST /api/channels/:id/incoming-webhooks
+ * @desc    Create an incoming webhook URL for the channel
+ * @access  Private (Admin or channel admin)
+ */
+router.post(
+  "/:id/incoming-webhooks",
+  asyncHandler(incomingWebhookController.create.bind(incomingWebhookController))
+);
+
+/**
+ * @route   PUT /api/channels/:id/incoming-webhooks/:webhookId
+ * @desc    Update an incoming webhook's bot identity or active state
+ * @access  Private (Admin or channel admin)
+ */
+router.put(
+  "/:id/incoming-webhooks/:webhookId",
+  asyncHandler(incomingWebhookController.update.bind(incomingWebhookController))
+);
+
+/**
+ * @route   DELETE /api/channels/:id/incoming-webhooks/:webhookId
+ * @desc    Delete an incoming webhook
+ * @access  Private (Admin or channel admin)
+ */
+router.delete(
+  "/:id/incoming-webhooks/:webhookId",
+  asyncHandler(incomingWebhookController.delete.bind(incomingWebhookController))
+);
+
+/**
+ * @route   POST /api/channels/:id/incoming-webhooks/:webhookId/regenerate
+ * @desc    Replace the webhook URL token
+ * @access  Private (Admin or channel admin)
+ */
+router.post(
+  "/:id/incoming-webhooks/:webhookId/regenerate",
+  asyncHandler(
+    incomingWebhookController.regenerate.bind(incomingWebhookController)
+  )
+);
+
 export default router;
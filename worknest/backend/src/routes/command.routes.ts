@@ -0,0 +1,24 @@
+import { Router } from "express";
+import { commandController } from "../controllers/command.controller.js";
+import { asyncHandler } from "../utils/index.js";
+
+const router = Router();
+
+/**
+ * @route   GET /api/commands
+ * @desc    List the slash commands available to the user in a channel
+ * @access  Private
+ */
+router.get("/", asyncHandler(commandController.getAll.bind(commandController)));
+
+/**
+ * @route   POST /api/commands/execute
+ * @desc    Run a slash command in a channel
+ * @access  Private
+ */
+router.post(
+  "/execute",
+  asyncHandler(commandController.execute.bind(commandController))
+);
+
+export default router;
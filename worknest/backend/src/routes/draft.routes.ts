@@ -0,0 +1,34 @@
+import { Router } from "express";
+import { draftController } from "../controllers/draft.controller.js";
+import { asyncHandler } from "../utils/index.js";
+
+const router = Router();
+
+/**
+ * @route   GET /api/drafts
+ * @desc    List your drafts
+ * @access  Private
+ */
+router.get("/", asyncHandler(draftController.getAll.bind(draftController)));
+
+/**
+ * @route   PUT /api/drafts/:channelId
+ * @desc    Save the draft of a channel or one of its threads
+ * @access  Private (member only)
+ */
+router.put(
+  "/:channelId",
+  asyncHandler(draftController.save.bind(draftController))
+);
+
+/**
+ * @route   DELETE /api/drafts/:channelId
+ * @desc    Delete the draft of a channel or one of its threads (?threadId=)
+ * @access  Private
+ */
+router.delete(
+  "/:channelId",
+  asyncHandler(draftController.delete.bind(draftController))
+);
+
+export default router;
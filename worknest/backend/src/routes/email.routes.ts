@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { emailController } from "../controllers/email.controller.js";
+import { asyncHandler } from "../utils/index.js";
+
+const router = Router();
+
+/**
+ * @route   GET /email/unsubscribe?token=
+ * @desc    Confirmation page for unsubscribing from email digests
+ * @access  Public (token in URL)
+ */
+router.get(
+  "/unsubscribe",
+  asyncHandler(emailController.unsubscribePage.bind(emailController))
+);
+
+/**
+ * @route   POST /email/unsubscribe?token=
+ * @desc    Unsubscribe from email digests (also one-click from mail clients)
+ * @access  Public (token in URL)
+ */
+router.post(
+  "/unsubscribe",
+  asyncHandler(emailController.unsubscribe.bind(emailController))
+);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { ephemeralController } from "../controllers/ephemeral.controller.js";
+import { asyncHandler } from "../utils/index.js";
+
+const router = Router();
+
+/**
+ * @route   POST /api/ephemeral/actions
+ * @desc    Run the action behind an ephemeral message button
+ * @access  Private
+ */
+router.post(
+  "/actions",
+  asyncHandler(ephemeralController.runAction.bind(ephemeralController))
+);
+
+export default router;
@@ -0,0 +1,53 @@
+import { Router } from "express";
+import rateLimit from "express-rate-limit";
+import { incomingWebhookController } from "../controllers/incomingWebhook.controller.js";
+import { asyncHandler } from "../utils/index.js";
+
+const router = Router();
+
+// Unknown tokens are counted per address before the token is looked up, so
+// guessing webhook URLs can't get around the per-webhook budget below by
+// trying a new token on every request
+const invalidTokenLimiter = rateLimit({
+  windowMs: parseInt(
+    process.env.INCOMING_WEBHOOK_INVALID_WINDOW_MS || "900000"
+  ),
+  max: parseInt(process.env.INCOMING_WEBHOOK_INVALID_LIMIT || "20"),
+  keyGenerator: (req) => `hook-invalid:${req.ip}`,
+  skipSuccessfulRequests: true,
+  requestWasSuccessful: (_req, res) => res.statusCode !== 404,
+  message: {
+    success: false,
+    error: "Too many unknown webhook URLs, please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Each webhook URL gets its own budget, separate from the per-IP API limiter,
+// so a chatty CI job cannot lock out users behind the same address
+const hookLimiter = rateLimit({
+  windowMs: parseInt(process.env.INCOMING_WEBHOOK_RATE_WINDOW_MS || "60000"),
+  max: parseInt(process.env.INCOMING_WEBHOOK_RATE_LIMIT || "30"),
+  keyGenerator: (req) => `hook:${req.params.token}`,
+  message: {
+    success: false,
+    error: "Too many messages from this webhook, please slow down.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * @route   POST /hooks/:token
+ * @desc    Post a message to a channel through an incoming webhook
+ * @access  Public (token in URL)
+ */
+router.post(
+  "/:token",
+  invalidTokenLimiter,
+  hookLimiter,
+  asyncHandler(incomingWebhookController.receive.bind(incomingWebhookController))
+);
+
+export default router;
@@ -8,3 +8,12 @@ export { default as searchRoutes } from "./search.routes.js";
 export { default as taskRoutes } from "./task.routes.js";
 export { default as wikiRoutes } from "./wiki.routes.js";
 export { default as canvasRoutes } from "./canvas.routes.js";
+export { default as webhookRoutes } from "./webhook.routes.js";
+export { default as incomingWebhookRoutes } from "./incomingWebhook.routes.js";
+export { default as commandRoutes } from "./command.routes.js";
+export { default as ephemeralRoutes } from "./ephemeral.routes.js";
+export { default as emailRoutes } from "./email.routes.js";
+export { default as scheduledMessageRoutes } from "./scheduledMessage.routes.js";
+export { default as reminderRoutes } from "./reminder.routes.js";
+export { default as draftRoutes } from "./draft.routes.js";
+export { default as pollRoutes } from "./poll.routes.js";
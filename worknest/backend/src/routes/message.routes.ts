@@ -64,6 +64,26 @@ router.post(
   asyncHandler(messageController.markRead.bind(messageController))
 );
 
+/**
+ * @route   GET /api/messages/:channelId/read-state
+ * @desc    Get the read cursors of the channel's members
+ * @access  Private (member only)
+ */
+router.get(
+  "/:channelId/read-state",
+  asyncHandler(messageController.getReadState.bind(messageController))
+);
+
+/**
+ * @route   GET /api/messages/:id/seen-by
+ * @desc    Get the members who have seen a message
+ * @access  Private (member only)
+ */
+router.get(
+  "/:id/seen-by",
+  asyncHandler(messageController.getSeenBy.bind(messageController))
+);
+
 /**
  * @route   GET /api/messages/:channelId/search
  * @desc    Search messages in a channel
@@ -0,0 +1,34 @@
+import { Router } from "express";
+import { pollController } from "../controllers/poll.controller.js";
+import { asyncHandler } from "../utils/index.js";
+
+const router = Router();
+
+/**
+ * @route   POST /api/polls
+ * @desc    Post a poll to a channel
+ * @access  Private (member only)
+ */
+router.post("/", asyncHandler(pollController.create.bind(pollController)));
+
+/**
+ * @route   PUT /api/polls/:messageId/votes
+ * @desc    Replace your votes on a poll
+ * @access  Private (member only)
+ */
+router.put(
+  "/:messageId/votes",
+  asyncHandler(pollController.vote.bind(pollController))
+);
+
+/**
+ * @route   POST /api/polls/:messageId/close
+ * @desc    Close a poll before its close time
+ * @access  Private (creator or admin)
+ */
+router.post(
+  "/:messageId/close",
+  asyncHandler(pollController.close.bind(pollController))
+);
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from "express";
+import { reminderController } from "../controllers/reminder.controller.js";
+import { asyncHandler } from "../utils/index.js";
+
+const router = Router();
+
+/**
+ * @route   GET /api/reminders
+ * @desc    List your reminders that are not completed
+ * @access  Private
+ */
+router.get("/", asyncHandler(reminderController.getAll.bind(reminderController)));
+
+/**
+ * @route   POST /api/reminders
+ * @desc    Set a reminder about free text or a message
+ * @access  Private
+ */
+router.post("/", asyncHandler(reminderController.create.bind(reminderController)));
+
+/**
+ * @route   POST /api/reminders/:id/snooze
+ * @desc    Deliver a reminder again later
+ * @access  Private (owner only)
+ */
+router.post(
+  "/:id/snooze",
+  asyncHandler(reminderController.snooze.bind(reminderController))
+);
+
+/**
+ * @route   POST /api/reminders/:id/complete
+ * @desc    Mark a reminder as complete
+ * @access  Private (owner only)
+ */
+router.post(
+  "/:id/complete",
+  asyncHandler(reminderController.complete.bind(reminderController))
+);
+
+/**
+ * @route   DELETE /api/reminders/:id
+ * @desc    Delete a reminder
+ * @access  Private (owner only)
+ */
+router.delete("/:id", asyncHandler(reminderController.delete.bind(reminderController)));
+
+export default router;
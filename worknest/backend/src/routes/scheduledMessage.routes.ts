@@ -0,0 +1,55 @@
+import { Router } from "express";
+import { scheduledMessageController } from "../controllers/scheduledMessage.controller.js";
+import { asyncHandler } from "../utils/index.js";
+
+const router = Router();
+
+/**
+ * @route   GET /api/scheduled-messages
+ * @desc    List your pending and failed scheduled messages (optionally ?channelId=)
+ * @access  Private
+ */
+router.get(
+  "/",
+  asyncHandler(
+    scheduledMessageController.getAll.bind(scheduledMessageController)
+  )
+);
+
+/**
+ * @route   POST /api/scheduled-messages
+ * @desc    Schedule a message to be sent later
+ * @access  Private (member only)
+ */
+router.post(
+  "/",
+  asyncHandler(
+    scheduledMessageController.create.bind(scheduledMessageController)
+  )
+);
+
+/**
+ * @route   PUT /api/scheduled-messages/:id
+ * @desc    Edit a scheduled message's text or send time
+ * @access  Private (author only)
+ */
+router.put(
+  "/:id",
+  asyncHandler(
+    scheduledMessageController.update.bind(scheduledMessageController)
+  )
+);
+
+/**
+ * @route   DELETE /api/scheduled-messages/:id
+ * @desc    Cancel a scheduled message
+ * @access  Private (author only)
+ */
+router.delete(
+  "/:id",
+  asyncHandler(
+    scheduledMessageController.delete.bind(scheduledMessageController)
+  )
+);
+
+export default router;
@@ -6,7 +6,7 @@ const router = Router();
 
 /**
  * @route   GET /api/search
- * @desc    Global search across messages and files
+ * @desc    Full-text search across messages, threads, files, wiki pages and tasks
  * @access  Private
  */
 router.get("/", asyncHandler(searchController.search.bind(searchController)));
@@ -21,4 +21,74 @@ router.get(
   asyncHandler(searchController.getHistory.bind(searchController))
 );
 
+/**
+ * @route   POST /api/search/history
+ * @desc    Record a search in the user's history
+ * @access  Private
+ */
+router.post(
+  "/history",
+  asyncHandler(searchController.recordHistory.bind(searchController))
+);
+
+/**
+ * @route   DELETE /api/search/history
+ * @desc    Clear user's search history
+ * @access  Private
+ */
+router.delete(
+  "/history",
+  asyncHandler(searchController.clearHistory.bind(searchController))
+);
+
+/**
+ * @route   DELETE /api/search/history/:id
+ * @desc    Remove one search from the history
+ * @access  Private
+ */
+router.delete(
+  "/history/:id",
+  asyncHandler(searchController.deleteHistoryEntry.bind(searchController))
+);
+
+/**
+ * @route   GET /api/search/saved
+ * @desc    Get user's saved searches
+ * @access  Private
+ */
+router.get(
+  "/saved",
+  asyncHandler(searchController.getSavedSearches.bind(searchController))
+);
+
+/**
+ * @route   POST /api/search/saved
+ * @desc    Save a named search
+ * @access  Private
+ */
+router.post(
+  "/saved",
+  asyncHandler(searchController.createSavedSearch.bind(searchController))
+);
+
+/**
+ * @route   PUT /api/search/saved/:id
+ * @desc    Update a saved search
+ * @access  Private
+ */
+router.put(
+  "/saved/:id",
+  asyncHandler(searchController.updateSavedSearch.bind(searchController))
+);
+
+/**
+ * @route   DELETE /api/search/saved/:id
+ * @desc    Delete a saved search
+ * @access  Private
+ */
+router.delete(
+  "/saved/:id",
+  asyncHandler(searchController.deleteSavedSearch.bind(searchController))
+);
+
 export default router;
@@ -31,6 +31,107 @@ router.post(
   asyncHandler(settingsController.forceLogoutAllUsers.bind(settingsController))
 );
 
+/**
+ * @route   GET /api/settings/organization/retention/report
+ * @desc    Dry-run report of messages the retention policy would purge
+ * @access  Private (Admin only)
+ */
+router.get(
+  "/organization/retention/report",
+  authenticate,
+  authorize("ADMIN"),
+  asyncHandler(settingsController.getRetentionReport.bind(settingsController))
+);
+
+/**
+ * @route   POST /api/settings/organization/retention/run
+ * @desc    Apply the retention policy immediately
+ * @access  Private (Admin only)
+ */
+router.post(
+  "/organization/retention/run",
+  authenticate,
+  authorize("ADMIN"),
+  asyncHandler(settingsController.runRetention.bind(settingsController))
+);
+
+/**
+ * @route   POST /api/settings/organization/default-channels/backfill
+ * @desc    Add existing users to the default channels
+ * @access  Private (Admin only)
+ */
+router.post(
+  "/organization/default-channels/backfill",
+  authenticate,
+  authorize("ADMIN"),
+  asyncHandler(
+    settingsController.backfillDefaultChannels.bind(settingsController)
+  )
+);
+
+/**
+ * @route   GET /api/settings/organization/ownership
+ * @desc    Organization owner and pending ownership transfer
+ * @access  Private (Admin only)
+ */
+router.get(
+  "/organization/ownership",
+  authenticate,
+  authorize("ADMIN"),
+  asyncHandler(settingsController.getOwnership.bind(settingsController))
+);
+
+/**
+ * @route   POST /api/settings/organization/ownership/transfer
+ * @desc    Offer ownership to another member, confirmed by email
+ * @access  Private (Owner only)
+ */
+router.post(
+  "/organization/ownership/transfer",
+  authenticate,
+  authorize("ADMIN"),
+  asyncHandler(settingsController.transferOwnership.bind(settingsController))
+);
+
+/**
+ * @route   DELETE /api/settings/organization/ownership/transfer
+ * @desc    Cancel a pending ownership transfer
+ * @access  Private (Owner only)
+ */
+router.delete(
+  "/organization/ownership/transfer",
+  authenticate,
+  authorize("ADMIN"),
+  asyncHandler(
+    settingsController.cancelOwnershipTransfer.bind(settingsController)
+  )
+);
+
+/**
+ * @route   POST /api/settings/organization/ownership/accept
+ * @desc    Accept ownership with the token from the transfer email
+ * @access  Private (the member the transfer was offered to)
+ */
+router.post(
+  "/organization/ownership/accept",
+  authenticate,
+  asyncHandler(
+    settingsController.acceptOwnershipTransfer.bind(settingsController)
+  )
+);
+
+/**
+ * @route   GET /api/settings/organization/audit-log
+ * @desc    Admin and ownership changes, newest first
+ * @access  Private (Admin only)
+ */
+router.get(
+  "/organization/audit-log",
+  authenticate,
+  authorize("ADMIN"),
+  asyncHandler(settingsController.getAuditLog.bind(settingsController))
+);
+
 /**
  * @route   PUT /api/settings/user
  * @desc    Update user settings
@@ -53,4 +154,26 @@ router.post(
   asyncHandler(settingsController.logoutFromAllDevices.bind(settingsController))
 );
 
+/**
+ * @route   GET /api/settings/user/sessions
+ * @desc    List signed-in devices for current user
+ * @access  Private
+ */
+router.get(
+  "/user/sessions",
+  authenticate,
+  asyncHandler(settingsController.getSessions.bind(settingsController))
+);
+
+/**
+ * @route   DELETE /api/settings/user/sessions/:id
+ * @desc    Sign out a single device
+ * @access  Private
+ */
+router.delete(
+  "/user/sessions/:id",
+  authenticate,
+  asyncHandler(settingsController.revokeSession.bind(settingsController))
+);
+
 export default router;
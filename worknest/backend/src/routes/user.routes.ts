@@ -55,6 +55,26 @@ router.get("/:id", asyncHandler(userController.getById.bind(userController)));
  */
 router.put("/:id", asyncHandler(userController.update.bind(userController)));
 
+/**
+ * @route   POST /api/users/:id/promote
+ * @desc    Make a member an admin
+ * @access  Private (admin only)
+ */
+router.post(
+  "/:id/promote",
+  asyncHandler(userController.promote.bind(userController))
+);
+
+/**
+ * @route   POST /api/users/:id/demote
+ * @desc    Take a member's admin rights away
+ * @access  Private (admin only)
+ */
+router.post(
+  "/:id/demote",
+  asyncHandler(userController.demote.bind(userController))
+);
+
 /**
  * @route   DELETE /api/users/:id
  * @desc    Delete/block user
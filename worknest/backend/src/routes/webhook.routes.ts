@@ -0,0 +1,85 @@
+import { Router } from "express";
+import { webhookController } from "../controllers/webhook.controller.js";
+import { asyncHandler } from "../utils/index.js";
+import { authenticate, authorize } from "../middlewares/auth.middleware.js";
+
+const router = Router();
+
+// Webhooks are managed by organization admins only
+router.use(authenticate, authorize("ADMIN"));
+
+/**
+ * @route   GET /api/webhooks
+ * @desc    List organization webhooks and the available events
+ * @access  Private (Admin only)
+ */
+router.get("/", asyncHandler(webhookController.getAll.bind(webhookController)));
+
+/**
+ * @route   POST /api/webhooks
+ * @desc    Create a webhook subscription
+ * @access  Private (Admin only)
+ */
+router.post("/", asyncHandler(webhookController.create.bind(webhookController)));
+
+/**
+ * @route   PUT /api/webhooks/:id
+ * @desc    Update a webhook (name, URL, events, enabled)
+ * @access  Private (Admin only)
+ */
+router.put(
+  "/:id",
+  asyncHandler(webhookController.update.bind(webhookController))
+);
+
+/**
+ * @route   DELETE /api/webhooks/:id
+ * @desc    Delete a webhook and its delivery log
+ * @access  Private (Admin only)
+ */
+router.delete(
+  "/:id",
+  asyncHandler(webhookController.delete.bind(webhookController))
+);
+
+/**
+ * @route   POST /api/webhooks/:id/rotate-secret
+ * @desc    Generate a new signing secret
+ * @access  Private (Admin only)
+ */
+router.post(
+  "/:id/rotate-secret",
+  asyncHandler(webhookController.rotateSecret.bind(webhookController))
+);
+
+/**
+ * @route   POST /api/webhooks/:id/test
+ * @desc    Send a ping event to the webhook
+ * @access  Private (Admin only)
+ */
+router.post(
+  "/:id/test",
+  asyncHandler(webhookController.test.bind(webhookController))
+);
+
+/**
+ * @route   GET /api/webhooks/:id/deliveries
+ * @desc    Delivery log for a webhook
+ * @access  Private (Admin only)
+ */
+router.get(
+  "/:id/deliveries",
+  asyncHandler(webhookController.getDeliveries.bind(webhookController))
+);
+
+/**
+ * @route   POST /api/webhooks/:id/deliveries/:deliveryId/replay
+ * @desc    Deliver a logged event again
+ * @access  Private (Admin only)
+ */
+router.post(
+  "/:id/deliveries/:deliveryId/replay",
+  asyncHandler(webhookController.replayDelivery.bind(webhookController))
+);
+
+export default router;
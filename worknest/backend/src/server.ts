@@ -6,8 +6,20 @@ import rateLimit from "express-rate-limit";
 import dotenv from "dotenv";
 
 import { connectDatabase } from "./config/db.js";
-import { initializeSocket } from "./config/socket.js";
+import { connectRedis } from "./config/redis.js";
+import { attachRedisAdapter, initializeSocket } from "./config/socket.js";
 import { initializeChatSocket } from "./sockets/chat.socket.js";
+import { RedisSocketState, setSocketState } from "./sockets/state/index.js";
+import {
+  startRetentionJob,
+  startSessionJob,
+  startWebhookJob,
+  startReminderJob,
+  startEmailDigestJob,
+  startScheduledMessageJob,
+  startPollJob,
+  startChannelDeletionJob,
+} from "./jobs/index.js";
 import {
   authenticate,
   extractSubdomain,
@@ -26,6 +38,15 @@ import {
   searchRoutes,
   taskRoutes,
   wikiRoutes,
+  webhookRoutes,
+  incomingWebhookRoutes,
+  emailRoutes,
+  commandRoutes,
+  ephemeralRoutes,
+  scheduledMessageRoutes,
+  reminderRoutes,
+  draftRoutes,
+  pollRoutes,
 } from "./routes/index.js";
 
 // Load environment variables
@@ -114,6 +135,13 @@ app.get("/health", (_req: Request, res: Response) => {
 
 // ============= PUBLIC ROUTES =============
 
+// Incoming webhooks: the URL token identifies the organization and channel,
+// so these skip subdomain resolution and the per-IP API limiter
+app.use("/hooks", incomingWebhookRoutes);
+
+// Email links: the token identifies the user
+app.use("/email", emailRoutes);
+
 // Apply subdomain extraction to all routes
 app.use(extractSubdomain);
 
@@ -140,6 +168,18 @@ app.use("/api/channels", channelRoutes);
 // Message routes
 app.use("/api/messages", messageRoutes);
 
+// Scheduled message routes
+app.use("/api/scheduled-messages", scheduledMessageRoutes);
+
+// Reminder routes
+app.use("/api/reminders", reminderRoutes);
+
+// Draft routes
+app.use("/api/drafts", draftRoutes);
+
+// Poll routes
+app.use("/api/polls", pollRoutes);
+
 // User routes
 app.use("/api/users", userRoutes);
 
@@ -158,6 +198,15 @@ app.use("/api/tasks", taskRoutes);
 // Wiki routes
 app.use("/api/wiki", wikiRoutes);
 
+// Webhook routes
+app.use("/api/webhooks", webhookRoutes);
+
+// Slash command routes
+app.use("/api/commands", commandRoutes);
+
+// Ephemeral message action routes
+app.use("/api/ephemeral", ephemeralRoutes);
+
 // Static files for uploads
 app.use("/uploads", express.static("uploads"));
 
@@ -178,6 +227,23 @@ const startServer = async () => {
     // Connect to MongoDB
     await connectDatabase();
 
+    // Share socket state and broadcasts between instances through Redis
+    const redis = await connectRedis();
+    if (redis) {
+      await attachRedisAdapter(redis);
+      setSocketState(new RedisSocketState(redis));
+    }
+
+    // Start background workers
+    startRetentionJob();
+    startSessionJob();
+    startWebhookJob();
+    startReminderJob();
+    startEmailDigestJob();
+    startScheduledMessageJob();
+    startPollJob();
+    startChannelDeletionJob();
+
     // Start HTTP server
     httpServer.listen(PORT, () => {
       console.log(`
@@ -0,0 +1,392 @@
+import { getIO } from "../config/socket.js";
+import {
+  Canvas,
+  Channel,
+  ChannelDeletion,
+  ChannelMember,
+  DigestItem,
+  Draft,
+  IChannel,
+  IncomingWebhook,
+  Message,
+  Reminder,
+  ScheduledMessage,
+  Task,
+  User,
+  WikiPage,
+} from "../models/index.js";
+import { IChannelDeletion } from "../models/ChannelDeletion.js";
+import { UserRole } from "../types/index.js";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  destroyAttachmentAssets,
+} from "../utils/index.js";
+import { messageService } from "./message.service.js";
+import { webhookService } from "./webhook.service.js";
+
+const BATCH_SIZE = 500;
+const MAX_ATTEMPTS = 3;
+// A RUNNING deletion this old was interrupted, e.g. by a restart
+const STALE_RUN_MS = 60 * 60 * 1000; // 1 hour
+
+export const ARCHIVED_CHANNEL_MESSAGE =
+  "This channel is archived and is read-only.";
+
+/**
+ * Channel Archive Service
+ * Archiving makes a channel read-only and hides it from the sidebar while
+ * keeping its history searchable. Archived channels can be restored, or
+ * permanently deleted by a background job that removes everything in them.
+ */
+class ChannelArchiveService {
+  /**
+   * Throw if the channel is archived, for every path that writes to one
+   */
+  async assertWritable(channelId: { toString(): string }): Promise<void> {
+    if (await Channel.isArchived(channelId.toString())) {
+      throw new ForbiddenError(ARCHIVED_CHANNEL_MESSAGE);
+    }
+  }
+
+  /**
+   * Archive a channel. Organization admins and the channel's admins can.
+   */
+  async archive(
+    organizationId: string,
+    userId: string,
+    role: UserRole,
+    channelId: string
+  ): Promise<IChannel> {
+    const channel = await this.findChannel(organizationId, channelId);
+    if (channel.type === "DM") {
+      throw new BadRequestError("Direct messages cannot be archived.");
+    }
+    if (channel.isArchived) {
+      throw new BadRequestError("This channel is already archived.");
+    }
+
+    if (role !== "ADMIN") {
+      const membership = await ChannelMember.findOne({ channelId, userId });
+      if (membership?.role !== "ADMIN") {
+        throw new ForbiddenError("Only admins can archive channels.");
+      }
+    }
+
+    // Posted first, while the channel still accepts messages
+    const user = await User.findById(userId).select("name");
+    await messageService.post({
+      organizationId,
+      channelId,
+      senderId: userId,
+      content: `${user?.name || "Someone"} archived this channel`,
+      contentType: "SYSTEM",
+    });
+
+    channel.isArchived = true;
+    channel.archivedAt = new Date();
+    channel.archivedBy = userId as unknown as IChannel["archivedBy"];
+    await channel.save();
+
+    await this.notifyMembers(channel);
+    webhookService.dispatch(organizationId, "channel.archived", {
+      id: channel._id,
+      name: channel.name,
+      type: channel.type,
+      archivedBy: userId,
+    });
+
+    return channel;
+  }
+
+  /**
+   * Restore an archived channel. Only organization admins can.
+   */
+  async unarchive(
+    organizationId: string,
+    userId: string,
+    role: UserRole,
+    channelId: string
+  ): Promise<IChannel> {
+    if (role !== "ADMIN") {
+      throw new ForbiddenError("Only admins can restore archived channels.");
+    }
+
+    const channel = await this.findChannel(organizationId, channelId);
+    if (!channel.isArchived) {
+      throw new BadRequestError("This channel is not archived.");
+    }
+    if (await this.findActiveDeletion(channelId)) {
+      throw new BadRequestError("This channel is being deleted.");
+    }
+
+    channel.isArchived = false;
+    channel.archivedAt = null;
+    channel.archivedBy = null;
+    await channel.save();
+
+    const user = await User.findById(userId).select("name");
+    await messageService.post({
+      organizationId,
+      channelId,
+      senderId: userId,
+      content: `${user?.name || "Someone"} restored this channel`,
+      contentType: "SYSTEM",
+    });
+
+    await this.notifyMembers(channel);
+    webhookService.dispatch(organizationId, "channel.unarchived", {
+      id: channel._id,
+      name: channel.name,
+      type: channel.type,
+      unarchivedBy: userId,
+    });
+
+    return channel;
+  }
+
+  /**
+   * Queue an archived channel for permanent deletion. The channel disappears
+   * for its members right away; the job removes its content afterwards.
+   */
+  async requestDeletion(
+    organizationId: string,
+    userId: string,
+    role: UserRole,
+    channelId: string
+  ): Promise<IChannelDeletion> {
+    if (role !== "ADMIN") {
+      throw new ForbiddenError("Only admins can delete channels.");
+    }
+
+    const channel = await this.findChannel(organizationId, channelId);
+    if (!channel.isArchived) {
+      throw new BadRequestError(
+        "Archive the channel before deleting it permanently."
+      );
+    }
+
+    const active = await this.findActiveDeletion(channelId);
+    if (active) return active;
+
+    const deletion = await ChannelDeletion.create({
+      organizationId,
+      channelId,
+      channelName: channel.name,
+      requestedBy: userId,
+    });
+
+    const memberIds = await ChannelMember.distinct("userId", { channelId });
+    try {
+      const io = getIO();
+      for (const memberId of memberIds) {
+        io.to(`user:${memberId}`).emit("channel-deleted", { id: channelId });
+      }
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+
+    return deletion;
+  }
+
+  /**
+   * The most recent deletion of a channel, including finished ones
+   */
+  async getDeletion(
+    organizationId: string,
+    channelId: string
+  ): Promise<IChannelDeletion> {
+    const deletion = await ChannelDeletion.findOne({
+      organizationId,
+      channelId,
+    }).sort({ createdAt: -1 });
+    if (!deletion) {
+      throw new NotFoundError("This channel has not been deleted.");
+    }
+    return deletion;
+  }
+
+  /**
+   * Channels whose deletion is queued or running, which are hidden from
+   * everyone even though their documents still exist
+   */
+  async getDeletingChannelIds(organizationId: string): Promise<string[]> {
+    const ids = await ChannelDeletion.distinct("channelId", {
+      organizationId,
+      status: { $in: ["PENDING", "RUNNING"] },
+    });
+    return ids.map((id) => id.toString());
+  }
+
+  /**
+   * Run queued deletions. Each one is claimed before it runs, so that two
+   * workers never delete the same channel.
+   */
+  async runPendingDeletions(): Promise<number> {
+    await ChannelDeletion.updateMany(
+      {
+        status: "RUNNING",
+        startedAt: { $lt: new Date(Date.now() - STALE_RUN_MS) },
+      },
+      { $set: { status: "PENDING" } }
+    );
+
+    const pending = await ChannelDeletion.findPending();
+    let completed = 0;
+
+    for (const record of pending) {
+      const deletion = await ChannelDeletion.findOneAndUpdate(
+        { _id: record._id, status: "PENDING" },
+        {
+          $set: { status: "RUNNING", startedAt: new Date(), error: null },
+          $inc: { attempts: 1 },
+        },
+        { new: true }
+      );
+      if (!deletion) continue;
+
+      try {
+        await this.deleteChannelContent(deletion);
+        deletion.status = "COMPLETED";
+        deletion.completedAt = new Date();
+        await deletion.save();
+        completed++;
+
+        webhookService.dispatch(deletion.organizationId, "channel.deleted", {
+          id: deletion.channelId,
+          name: deletion.channelName,
+          deletedBy: deletion.requestedBy,
+        });
+      } catch (error) {
+        console.error(
+          `Deletion of channel ${deletion.channelId} failed:`,
+          error
+        );
+        // Every step can be repeated, so a failed run is retried from the top
+        deletion.status =
+          deletion.attempts < MAX_ATTEMPTS ? "PENDING" : "FAILED";
+        deletion.error = error instanceof Error ? error.message : String(error);
+        await deletion.save();
+      }
+
+      this.notifyRequester(deletion);
+    }
+
+    return completed;
+  }
+
+  private async deleteChannelContent(
+    deletion: IChannelDeletion
+  ): Promise<void> {
+    const channelId = deletion.channelId;
+
+    // Messages go in batches, with their Cloudinary assets, so progress is
+    // visible and a huge channel doesn't have to fit in memory
+    for (;;) {
+      const batch = await Message.find({ channelId })
+        .select("attachments")
+        .limit(BATCH_SIZE)
+        .lean();
+      if (batch.length === 0) break;
+
+      const attachments = batch.flatMap((message) => message.attachments || []);
+      await destroyAttachmentAssets(attachments);
+      await Message.deleteMany({
+        _id: { $in: batch.map((message) => message._id) },
+      });
+
+      deletion.counts.messages += batch.length;
+      deletion.counts.attachments += attachments.length;
+      await deletion.save();
+    }
+
+    const [members, tasks, wikiPages, canvases] = await Promise.all([
+      ChannelMember.deleteMany({ channelId }),
+      Task.deleteMany({ channelId }),
+      WikiPage.deleteMany({ channelId }),
+      Canvas.deleteMany({ channelId }),
+    ]);
+    deletion.counts.members += members.deletedCount;
+    deletion.counts.tasks += tasks.deletedCount;
+    deletion.counts.wikiPages += wikiPages.deletedCount;
+    deletion.counts.canvases += canvases.deletedCount;
+    await deletion.save();
+
+    await Promise.all([
+      Draft.deleteMany({ channelId }),
+      Reminder.deleteMany({ channelId }),
+      ScheduledMessage.deleteMany({ channelId }),
+      IncomingWebhook.deleteMany({ channelId }),
+      DigestItem.deleteMany({ channelId }),
+    ]);
+
+    await Channel.deleteOne({ _id: channelId });
+  }
+
+  private async findChannel(
+    organizationId: string,
+    channelId: string
+  ): Promise<IChannel> {
+    const channel = await Channel.findOne({ _id: channelId, organizationId });
+    if (!channel) {
+      throw new NotFoundError("Channel not found.");
+    }
+    return channel;
+  }
+
+  private findActiveDeletion(channelId: string) {
+    return ChannelDeletion.findOne({
+      channelId,
+      status: { $in: ["PENDING", "RUNNING"] },
+    });
+  }
+
+  // Members keep the channel but see it move in or out of the archive
+  private async notifyMembers(channel: IChannel): Promise<void> {
+    const memberIds = await ChannelMember.distinct("userId", {
+      channelId: channel._id,
+    });
+    const payload = {
+      id: channel._id,
+      isArchived: channel.isArchived,
+      archivedAt: channel.archivedAt ?? null,
+    };
+
+    try {
+      const io = getIO();
+      for (const memberId of memberIds) {
+        io.to(`user:${memberId}`).emit("channel-archive-updated", payload);
+      }
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+  }
+
+  private notifyRequester(deletion: IChannelDeletion): void {
+    try {
+      getIO()
+        .to(`user:${deletion.requestedBy}`)
+        .emit("channel-deletion-updated", serializeChannelDeletion(deletion));
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+  }
+}
+
+export const serializeChannelDeletion = (deletion: IChannelDeletion) => ({
+  id: deletion._id,
+  channelId: deletion.channelId,
+  channelName: deletion.channelName,
+  status: deletion.status,
+  counts: deletion.counts,
+  attempts: deletion.attempts,
+  error: deletion.error ?? null,
+  requestedBy: deletion.requestedBy,
+  startedAt: deletion.startedAt ?? null,
+  completedAt: deletion.completedAt ?? null,
+  createdAt: deletion.createdAt,
+});
+
+export const channelArchiveService = new ChannelArchiveService();
+export default channelArchiveService;
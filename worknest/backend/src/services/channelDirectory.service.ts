@@ -0,0 +1,160 @@
+import {
+  Channel,
+  ChannelMember,
+  getMessageSender,
+  Message,
+} from "../models/index.js";
+import { BadRequestError, NotFoundError } from "../utils/index.js";
+
+export type ChannelDirectorySort = "members" | "activity" | "name";
+
+export const CHANNEL_DIRECTORY_SORTS: ChannelDirectorySort[] = [
+  "members",
+  "activity",
+  "name",
+];
+
+const PAGE_SIZE = 30;
+const PREVIEW_MESSAGES = 20;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Channel Directory Service
+ * Lets people find the organization's public channels, including ones they
+ * are not in, and read recent messages before joining
+ */
+class ChannelDirectoryService {
+  /**
+   * Public channels matching `search`, one page at a time. Every public
+   * channel is counted so that sorting by members covers all of them.
+   */
+  async browse(
+    organizationId: string,
+    userId: string,
+    options: { search?: string; sort?: string; page?: number }
+  ) {
+    const sort = (options.sort || "members") as ChannelDirectorySort;
+    if (!CHANNEL_DIRECTORY_SORTS.includes(sort)) {
+      throw new BadRequestError(
+        `Sort must be one of: ${CHANNEL_DIRECTORY_SORTS.join(", ")}.`
+      );
+    }
+    const page = Math.max(1, options.page || 1);
+
+    const query: Record<string, unknown> = {
+      organizationId,
+      type: "PUBLIC",
+      isArchived: { $ne: true },
+    };
+    const search = options.search?.trim();
+    if (search) {
+      const pattern = new RegExp(escapeRegExp(search), "i");
+      query.$or = [
+        { name: pattern },
+        { description: pattern },
+        { topic: pattern },
+      ];
+    }
+
+    const channels = await Channel.find(query).select(
+      "name description topic type createdAt lastMessageAt"
+    );
+    const channelIds = channels.map((channel) => channel._id);
+
+    const [counts, joined] = await Promise.all([
+      ChannelMember.aggregate<{ _id: string; count: number }>([
+        { $match: { channelId: { $in: channelIds } } },
+        { $group: { _id: "$channelId", count: { $sum: 1 } } },
+      ]),
+      ChannelMember.distinct("channelId", {
+        channelId: { $in: channelIds },
+        userId,
+      }),
+    ]);
+    const memberCounts = new Map(
+      counts.map((entry) => [entry._id.toString(), entry.count])
+    );
+    const joinedIds = new Set(joined.map(String));
+
+    const entries = channels.map((channel) => ({
+      id: channel._id,
+      name: channel.name,
+      description: channel.description || "",
+      topic: channel.topic || "",
+      type: channel.type,
+      memberCount: memberCounts.get(channel._id.toString()) || 0,
+      lastMessageAt: channel.lastMessageAt || null,
+      createdAt: channel.createdAt,
+      isMember: joinedIds.has(channel._id.toString()),
+    }));
+
+    entries.sort((a, b) => {
+      if (sort === "members" && a.memberCount !== b.memberCount) {
+        return b.memberCount - a.memberCount;
+      }
+      if (sort === "activity") {
+        const diff =
+          (b.lastMessageAt?.getTime() || 0) - (a.lastMessageAt?.getTime() || 0);
+        if (diff !== 0) return diff;
+      }
+      return a.name.localeCompare(b.name);
+    });
+
+    return {
+      channels: entries.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+      total: entries.length,
+      page,
+      hasMore: page * PAGE_SIZE < entries.length,
+    };
+  }
+
+  /**
+   * The latest messages of a public channel, for someone deciding whether
+   * to join. Thread replies are left out.
+   */
+  async preview(organizationId: string, channelId: string) {
+    const channel = await Channel.findOne({
+      _id: channelId,
+      organizationId,
+      type: "PUBLIC",
+    });
+    if (!channel) {
+      throw new NotFoundError("Channel not found.");
+    }
+
+    const messages = await Message.find({
+      channelId,
+      organizationId,
+      isDeleted: false,
+      parentMessageId: null,
+    })
+      .populate("senderId", "name avatar")
+      .sort({ createdAt: -1 })
+      .limit(PREVIEW_MESSAGES);
+
+    return {
+      channel: {
+        id: channel._id,
+        name: channel.name,
+        description: channel.description || "",
+        topic: channel.topic || "",
+        type: channel.type,
+        isArchived: channel.isArchived,
+        memberCount: await ChannelMember.countDocuments({ channelId }),
+      },
+      messages: messages.reverse().map((message) => ({
+        id: message._id,
+        content: message.content,
+        contentType: message.contentType,
+        sender: getMessageSender(message),
+        attachments: message.attachments,
+        createdAt: message.createdAt,
+      })),
+    };
+  }
+}
+
+export const channelDirectoryService = new ChannelDirectoryService();
+export default channelDirectoryService;
@@ -0,0 +1,400 @@
+import { getIO } from "../config/socket.js";
+import {
+  Channel,
+  ChannelMember,
+  IChannel,
+  IChannelMember,
+  IUser,
+  Message,
+  User,
+} from "../models/index.js";
+import { UserRole } from "../types/index.js";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/index.js";
+import { ephemeralService } from "./ephemeral.service.js";
+import { webhookService } from "./webhook.service.js";
+
+// Mentioned non-members listed in a single invite prompt
+const MAX_INVITE_PROMPT_USERS = 10;
+
+const formatNames = (names: string[]): string =>
+  names.length <= 1
+    ? names.join("")
+    : `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+
+/**
+ * Channel Membership Service
+ * Adding and removing channel members along with the system message and
+ * socket events everyone in the channel expects
+ */
+class ChannelMembershipService {
+  constructor() {
+    ephemeralService.registerAction("invite-members", async (context, value) => {
+      const userIds = Array.isArray(value.userIds) ? value.userIds.map(String) : [];
+      const added = await this.inviteMentioned(context, userIds);
+      return {
+        text: added.length
+          ? `Added ${formatNames(added)} to the channel.`
+          : "Everyone you mentioned is already in the channel.",
+      };
+    });
+  }
+
+  /**
+   * Anyone in a public channel can invite people; private channels are
+   * curated by their admins
+   */
+  canInvite(
+    channel: IChannel,
+    role: UserRole,
+    membership: IChannelMember | null
+  ): boolean {
+    if (!membership && role !== "ADMIN") return false;
+    if (channel.type === "PRIVATE") {
+      return role === "ADMIN" || membership?.role === "ADMIN";
+    }
+    return channel.type === "PUBLIC";
+  }
+
+  /**
+   * Offer to invite people who were @mentioned in a message but are not in
+   * the channel, since they won't be notified
+   */
+  async promptMentionedNonMembers(message: {
+    organizationId: string;
+    channelId: string;
+    senderId: string;
+    content: string;
+  }): Promise<void> {
+    const { organizationId, channelId, senderId, content } = message;
+    if (!content.includes("@")) return;
+
+    const channel = await Channel.findOne({ _id: channelId, organizationId });
+    if (!channel || channel.type === "DM") return;
+
+    const memberIds = await ChannelMember.distinct("userId", { channelId });
+    const candidates = await User.find({
+      organizationId,
+      status: "ACTIVE",
+      _id: { $nin: memberIds },
+    }).select("name");
+
+    const mentioned = candidates
+      .filter((user) =>
+        new RegExp(
+          `@${user.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w])`,
+          "i"
+        ).test(content)
+      )
+      .slice(0, MAX_INVITE_PROMPT_USERS);
+    if (mentioned.length === 0) return;
+
+    const [sender, membership] = await Promise.all([
+      User.findById(senderId).select("role"),
+      ChannelMember.findOne({ channelId, userId: senderId }),
+    ]);
+    if (!sender) return;
+
+    const names = formatNames(mentioned.map((user) => user.name));
+    const notHere = `${names} ${mentioned.length === 1 ? "isn't" : "aren't"} in #${channel.name} and won't be notified.`;
+
+    if (!this.canInvite(channel, sender.role, membership)) {
+      ephemeralService.send(organizationId, senderId, {
+        channelId,
+        text: `${notHere} Ask a channel admin to invite ${mentioned.length === 1 ? "them" : "them all"}.`,
+      });
+      return;
+    }
+
+    ephemeralService.send(organizationId, senderId, {
+      channelId,
+      text: `${notHere} Would you like to invite ${mentioned.length === 1 ? "them" : "them all"}?`,
+      actions: [
+        {
+          label: mentioned.length === 1 ? "Invite them" : "Invite them all",
+          style: "primary",
+          action: "invite-members",
+          value: { userIds: mentioned.map((user) => user._id.toString()) },
+        },
+        { label: "Do nothing" },
+      ],
+    });
+  }
+
+  /**
+   * Join a public channel from the directory
+   */
+  async join(channel: IChannel, user: IUser): Promise<void> {
+    if (channel.type !== "PUBLIC") {
+      throw new ForbiddenError("Only public channels can be joined.");
+    }
+    if (channel.isArchived) {
+      throw new BadRequestError("Archived channels cannot be joined.");
+    }
+    if (await ChannelMember.isMember(channel._id.toString(), user._id.toString())) {
+      throw new ConflictError(`You are already in #${channel.name}.`);
+    }
+
+    await this.addMember(channel, user, user._id.toString());
+  }
+
+  /**
+   * Leave a channel. Direct messages can't be left, and a channel's last
+   * admin has to hand over to someone else first.
+   */
+  async leave(channel: IChannel, user: IUser): Promise<void> {
+    if (channel.type === "DM") {
+      throw new BadRequestError("You can't leave a direct message.");
+    }
+
+    const membership = await ChannelMember.findOne({
+      channelId: channel._id,
+      userId: user._id,
+    });
+    if (!membership) {
+      throw new BadRequestError(`You are not in #${channel.name}.`);
+    }
+
+    if (membership.role === "ADMIN") {
+      const [admins, members] = await Promise.all([
+        ChannelMember.countDocuments({ channelId: channel._id, role: "ADMIN" }),
+        ChannelMember.countDocuments({ channelId: channel._id }),
+      ]);
+      if (admins === 1 && members > 1) {
+        throw new BadRequestError(
+          "You are the only admin of this channel. Make someone else an admin before leaving."
+        );
+      }
+    }
+
+    await this.removeMember(channel, user, user._id.toString());
+  }
+
+  /**
+   * Add a user to a channel. Callers check permissions and that the user is
+   * not already a member.
+   */
+  async addMember(
+    channel: IChannel,
+    user: IUser,
+    actorId: string
+  ): Promise<void> {
+    await this.addMembers(channel, [user], actorId);
+  }
+
+  /**
+   * Add several users at once with a single system message, e.g. when
+   * backfilling a default channel. Users who are already members are skipped.
+   */
+  async addMembers(
+    channel: IChannel,
+    users: IUser[],
+    actorId: string
+  ): Promise<IUser[]> {
+    const channelId = channel._id.toString();
+
+    const existing = new Set(
+      (
+        await ChannelMember.distinct("userId", {
+          channelId,
+          userId: { $in: users.map((user) => user._id) },
+        })
+      ).map(String)
+    );
+    const added = users.filter((user) => !existing.has(user._id.toString()));
+    if (added.length === 0) return [];
+
+    const joinedAt = new Date();
+    await ChannelMember.insertMany(
+      added.map((user) => ({
+        organizationId: channel.organizationId,
+        channelId,
+        userId: user._id,
+        role: "MEMBER",
+        joinedAt,
+      }))
+    );
+
+    let content: string;
+    if (added.length === 1) {
+      content =
+        actorId === added[0]._id.toString()
+          ? `${added[0].name} joined the channel`
+          : `${added[0].name} was added to the channel`;
+    } else {
+      const shown = added.slice(0, 3).map((user) => user.name);
+      const others = added.length - shown.length;
+      content = `${others > 0 ? `${shown.join(", ")} and ${others} ${others === 1 ? "other" : "others"}` : formatNames(shown)} were added to the channel`;
+    }
+
+    const systemMessage = await Message.create({
+      organizationId: channel.organizationId,
+      channelId,
+      senderId: actorId,
+      content,
+      contentType: "SYSTEM",
+    });
+    await systemMessage.populate("senderId", "name avatar");
+
+    const channelData = {
+      id: channel._id,
+      name: channel.name,
+      description: channel.description,
+      topic: channel.topic || "",
+      type: channel.type,
+      memberCount: await ChannelMember.countDocuments({ channelId }),
+      unreadCount: 0,
+      lastMessage: {
+        content: systemMessage.content,
+        senderName: (systemMessage.senderId as any)?.name,
+        createdAt: systemMessage.createdAt,
+      },
+      role: "MEMBER",
+      joinedAt,
+    };
+
+    try {
+      const io = getIO();
+
+      io.to(`channel:${channelId}`).emit("receive-message", {
+        id: systemMessage._id,
+        content: systemMessage.content,
+        contentType: systemMessage.contentType,
+        sender: systemMessage.senderId,
+        channelId,
+        createdAt: systemMessage.createdAt,
+      });
+
+      // Existing members get the new members, new members get the channel
+      for (const user of added) {
+        io.to(`channel:${channelId}`).emit("member-added", {
+          channelId,
+          member: {
+            user: {
+              id: user._id,
+              name: user.name,
+              email: user.email,
+              avatar: user.avatar,
+              status: user.status,
+              // Goes to the whole channel, so only public last seen times
+              lastSeenAt:
+                user.settings?.privacy?.showOnlineStatus === false ||
+                (user.settings?.privacy?.lastSeenVisibility ?? "everyone") !==
+                  "everyone"
+                  ? null
+                  : user.lastSeenAt,
+            },
+            role: "MEMBER",
+            joinedAt,
+          },
+        });
+        io.to(`user:${user._id}`).emit("channel-added", channelData);
+      }
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+
+    for (const user of added) {
+      webhookService.dispatchChannelEvent(
+        channel.organizationId,
+        "member.added",
+        channel._id,
+        { channelId: channel._id, userId: user._id, addedBy: actorId }
+      );
+    }
+
+    return added;
+  }
+
+  /**
+   * Remove a user from a channel, either because they left or because
+   * someone removed them
+   */
+  async removeMember(
+    channel: IChannel,
+    user: IUser,
+    actorId: string
+  ): Promise<boolean> {
+    const channelId = channel._id.toString();
+    const result = await ChannelMember.deleteOne({
+      channelId,
+      userId: user._id,
+    });
+    if (result.deletedCount === 0) return false;
+
+    const left = actorId === user._id.toString();
+    const systemMessage = await Message.create({
+      organizationId: channel.organizationId,
+      channelId,
+      senderId: actorId,
+      content: left
+        ? `${user.name} left the channel`
+        : `${user.name} was removed from the channel`,
+      contentType: "SYSTEM",
+    });
+    await systemMessage.populate("senderId", "name avatar");
+
+    try {
+      const io = getIO();
+
+      io.to(`channel:${channelId}`).emit("receive-message", {
+        id: systemMessage._id,
+        content: systemMessage.content,
+        contentType: systemMessage.contentType,
+        sender: systemMessage.senderId,
+        channelId,
+        createdAt: systemMessage.createdAt,
+      });
+      io.to(`channel:${channelId}`).emit("member-removed", {
+        channelId,
+        userId: user._id,
+      });
+      io.to(`user:${user._id}`).emit("channel-removed", { id: channelId });
+      io.in(`user:${user._id}`).socketsLeave(`channel:${channelId}`);
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+
+    webhookService.dispatchChannelEvent(
+      channel.organizationId,
+      "member.removed",
+      channel._id,
+      { channelId: channel._id, userId: user._id, removedBy: actorId }
+    );
+
+    return true;
+  }
+
+  // Permissions are checked again since the prompt may be hours old
+  private async inviteMentioned(
+    context: { organizationId: string; userId: string; role: UserRole; channelId: string },
+    userIds: string[]
+  ): Promise<string[]> {
+    const { organizationId, userId, role, channelId } = context;
+
+    const [channel, membership] = await Promise.all([
+      Channel.findOne({ _id: channelId, organizationId }),
+      ChannelMember.findOne({ channelId, userId }),
+    ]);
+    if (!channel) throw new NotFoundError("Channel not found.");
+    if (!this.canInvite(channel, role, membership)) {
+      throw new ForbiddenError("You can't invite people to this channel.");
+    }
+
+    const users = await User.find({
+      _id: { $in: userIds },
+      organizationId,
+      status: "ACTIVE",
+    });
+
+    const added = await this.addMembers(channel, users, userId);
+    return added.map((user) => user.name);
+  }
+}
+
+export const channelMembershipService = new ChannelMembershipService();
+export default channelMembershipService;
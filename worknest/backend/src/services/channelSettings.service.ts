@@ -0,0 +1,299 @@
+import xss from "xss";
+import { getIO } from "../config/socket.js";
+import {
+  Channel,
+  ChannelMember,
+  IChannel,
+  Organization,
+  User,
+} from "../models/index.js";
+import { UserRole } from "../types/index.js";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/index.js";
+import { channelArchiveService } from "./channelArchive.service.js";
+import { messageService } from "./message.service.js";
+import { webhookService } from "./webhook.service.js";
+
+export interface UpdateChannelInput {
+  name?: unknown;
+  description?: unknown;
+  topic?: unknown;
+  type?: unknown;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_TEXT_LENGTH = 500;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Channel Settings Service
+ * Renaming a channel, its purpose and topic, and switching it between public
+ * and private. Each change is announced in the channel with a system message
+ * and sent to every member as `channel-updated`.
+ */
+class ChannelSettingsService {
+  /**
+   * Apply the given changes. Organization admins and the channel's admins
+   * can edit a channel.
+   */
+  async update(
+    organizationId: string,
+    userId: string,
+    role: UserRole,
+    channelId: string,
+    input: UpdateChannelInput
+  ): Promise<IChannel> {
+    const channel = await Channel.findOne({ _id: channelId, organizationId });
+    if (!channel) {
+      throw new NotFoundError("Channel not found.");
+    }
+    if (channel.type === "DM") {
+      throw new BadRequestError("Direct messages cannot be edited.");
+    }
+    await channelArchiveService.assertWritable(channel._id);
+
+    if (role !== "ADMIN") {
+      const membership = await ChannelMember.findOne({ channelId, userId });
+      if (membership?.role !== "ADMIN") {
+        throw new ForbiddenError("Only channel admins can edit this channel.");
+      }
+    }
+
+    const user = await User.findById(userId).select("name");
+    const actor = user?.name || "Someone";
+    const announcements: string[] = [];
+
+    if (input.name !== undefined) {
+      const name = this.parseText(input.name, "Channel name", MAX_NAME_LENGTH);
+      if (!name) {
+        throw new BadRequestError("Channel name is required.");
+      }
+      if (name !== channel.name) {
+        await this.assertNameAvailable(organizationId, channel, name);
+        announcements.push(
+          `${actor} renamed the channel from #${channel.name} to #${name}`
+        );
+        channel.name = name;
+      }
+    }
+
+    if (input.description !== undefined) {
+      const description = this.parseText(
+        input.description,
+        "Purpose",
+        MAX_TEXT_LENGTH
+      );
+      if (description !== (channel.description || "")) {
+        announcements.push(
+          description
+            ? `${actor} set the channel purpose: ${description}`
+            : `${actor} cleared the channel purpose`
+        );
+        channel.description = description;
+      }
+    }
+
+    if (input.topic !== undefined) {
+      const topic = this.parseText(input.topic, "Topic", MAX_TEXT_LENGTH);
+      if (topic !== (channel.topic || "")) {
+        announcements.push(
+          topic
+            ? `${actor} set the channel topic: ${topic}`
+            : `${actor} cleared the channel topic`
+        );
+        channel.topic = topic;
+      }
+    }
+
+    if (input.type !== undefined && input.type !== channel.type) {
+      if (input.type !== "PUBLIC" && input.type !== "PRIVATE") {
+        throw new BadRequestError("Channels can only be PUBLIC or PRIVATE.");
+      }
+      if (input.type === "PRIVATE") {
+        await this.assertPrivateAllowed(organizationId, role);
+      }
+      announcements.push(
+        `${actor} made the channel ${input.type === "PRIVATE" ? "private" : "public"}`
+      );
+      channel.type = input.type;
+    }
+
+    if (announcements.length === 0) return channel;
+    await channel.save();
+
+    for (const content of announcements) {
+      await messageService.post({
+        organizationId,
+        channelId,
+        senderId: userId,
+        content,
+        contentType: "SYSTEM",
+      });
+    }
+
+    await this.notifyMembers(channel);
+    webhookService.dispatch(organizationId, "channel.updated", {
+      ...this.serialize(channel),
+      updatedBy: userId,
+    });
+
+    return channel;
+  }
+
+  /**
+   * Turn a group direct message into a private channel. Its history and
+   * members stay; whoever converts it becomes the channel's admin.
+   */
+  async convertGroupDM(
+    organizationId: string,
+    userId: string,
+    role: UserRole,
+    channelId: string,
+    name: unknown
+  ): Promise<IChannel> {
+    const channel = await Channel.findOne({ _id: channelId, organizationId });
+    if (!channel) {
+      throw new NotFoundError("Channel not found.");
+    }
+    if (
+      channel.type !== "DM" ||
+      new Set((channel.dmParticipants || []).map(String)).size < 3
+    ) {
+      throw new BadRequestError(
+        "Only group direct messages can be converted into a channel."
+      );
+    }
+    await channelArchiveService.assertWritable(channel._id);
+
+    const membership = await ChannelMember.findOne({ channelId, userId });
+    if (!membership) {
+      throw new ForbiddenError("You are not in this conversation.");
+    }
+    await this.assertPrivateAllowed(organizationId, role);
+
+    const channelName = this.parseText(name, "Channel name", MAX_NAME_LENGTH);
+    if (!channelName) {
+      throw new BadRequestError("Channel name is required.");
+    }
+    await this.assertNameAvailable(organizationId, channel, channelName);
+
+    channel.type = "PRIVATE";
+    channel.name = channelName;
+    // No longer found when starting a conversation with the same people
+    channel.dmParticipants = [];
+    await channel.save();
+
+    membership.role = "ADMIN";
+    await membership.save();
+
+    const user = await User.findById(userId).select("name");
+    await messageService.post({
+      organizationId,
+      channelId,
+      senderId: userId,
+      content: `${user?.name || "Someone"} turned this conversation into the private channel #${channelName}`,
+      contentType: "SYSTEM",
+    });
+
+    await this.notifyMembers(channel);
+    webhookService.dispatch(organizationId, "channel.created", {
+      id: channel._id,
+      name: channel.name,
+      description: channel.description,
+      type: channel.type,
+      createdBy: userId,
+    });
+
+    return channel;
+  }
+
+  serialize(channel: IChannel) {
+    return {
+      id: channel._id,
+      name: channel.name,
+      description: channel.description || "",
+      topic: channel.topic || "",
+      type: channel.type,
+    };
+  }
+
+  private parseText(value: unknown, label: string, maxLength: number): string {
+    if (value === null) return "";
+    if (typeof value !== "string") {
+      throw new BadRequestError(`${label} must be text.`);
+    }
+    const text = value.trim();
+    if (text.length > maxLength) {
+      throw new BadRequestError(
+        `${label} cannot exceed ${maxLength} characters.`
+      );
+    }
+    return xss(text);
+  }
+
+  /**
+   * Only admins create private channels, and not at all in organizations that
+   * turn off `allowPrivateChannels`. Checked when creating a private channel,
+   * making a channel private and converting a group DM.
+   */
+  async assertPrivateAllowed(
+    organizationId: string,
+    role: UserRole
+  ): Promise<void> {
+    if (role !== "ADMIN") {
+      throw new ForbiddenError("Only admins can create private channels.");
+    }
+
+    const organization = await Organization.findById(organizationId).select(
+      "settings.channelPolicies.allowPrivateChannels"
+    );
+    if (
+      organization?.settings?.channelPolicies?.allowPrivateChannels === false
+    ) {
+      throw new ForbiddenError(
+        "Your organization does not allow private channels."
+      );
+    }
+  }
+
+  private async assertNameAvailable(
+    organizationId: string,
+    channel: IChannel,
+    name: string
+  ): Promise<void> {
+    const existing = await Channel.exists({
+      organizationId,
+      _id: { $ne: channel._id },
+      type: { $ne: "DM" },
+      name: new RegExp(`^${escapeRegExp(name)}$`, "i"),
+    });
+    if (existing) {
+      throw new ConflictError("Channel with this name already exists.");
+    }
+  }
+
+  // Every member, not only those viewing the channel, so sidebars update too
+  private async notifyMembers(channel: IChannel): Promise<void> {
+    const memberIds = await ChannelMember.distinct("userId", {
+      channelId: channel._id,
+    });
+    if (memberIds.length === 0) return;
+
+    try {
+      getIO()
+        .to(memberIds.map((id) => `user:${id}`))
+        .emit("channel-updated", this.serialize(channel));
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+  }
+}
+
+export const channelSettingsService = new ChannelSettingsService();
+export default channelSettingsService;
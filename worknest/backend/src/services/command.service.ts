@@ -0,0 +1,378 @@
+import mongoose from "mongoose";
+import { builtinCommands } from "../commands/index.js";
+import {
+  Channel,
+  ChannelMember,
+  IChannel,
+  IChannelMember,
+  IUser,
+  User,
+} from "../models/index.js";
+import { EphemeralAction, UserRole } from "../types/index.js";
+import {
+  AppError,
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  parseDuration,
+  parseNaturalTime,
+} from "../utils/index.js";
+import { ARCHIVED_CHANNEL_MESSAGE } from "./channelArchive.service.js";
+import { EphemeralMessage, ephemeralService } from "./ephemeral.service.js";
+import { searchService } from "./search.service.js";
+
+export type CommandArgumentType = "word" | "text" | "user" | "duration" | "time";
+
+export interface CommandArgument {
+  name: string;
+  // "text" takes the rest of the input, so it must be the last argument
+  type: CommandArgumentType;
+  required?: boolean;
+}
+
+/**
+ * Who may run a command. "channel-admin" also admits organization admins.
+ */
+export type CommandPermission = "member" | "channel-admin" | "admin";
+
+export interface CommandContext {
+  organizationId: string;
+  userId: string;
+  role: UserRole;
+  user: IUser;
+  channel: IChannel;
+  membership: IChannelMember;
+}
+
+export interface CommandArgs {
+  [name: string]: string | number | Date | IUser | undefined;
+}
+
+// Sent to the user who ran the command as an ephemeral message
+export interface CommandResponse {
+  text?: string;
+  actions?: EphemeralAction[];
+}
+
+export interface CommandDefinition {
+  name: string;
+  description: string;
+  usage: string;
+  args: CommandArgument[];
+  permission?: CommandPermission;
+  allowInDM?: boolean;
+  execute(context: CommandContext, args: CommandArgs): Promise<CommandResponse>;
+}
+
+export interface CommandResult {
+  command: string | null;
+  ok: boolean;
+  message: EphemeralMessage | null;
+}
+
+// A quoted string or a run of non-space characters
+const TOKEN_PATTERN = /"([^"]*)"|(\S+)/g;
+
+interface Token {
+  value: string;
+  start: number;
+}
+
+/**
+ * Command Service
+ * Registry and runner for slash commands typed in the composer. Commands
+ * declare typed arguments and a permission level; their responses and any
+ * errors go back to the user who ran them as ephemeral messages.
+ */
+class CommandService {
+  private commands = new Map<string, CommandDefinition>();
+
+  constructor() {
+    builtinCommands.forEach((command) => this.register(command));
+  }
+
+  register(definition: CommandDefinition): void {
+    const last = definition.args.findIndex((a) => a.type === "text");
+    if (last !== -1 && last !== definition.args.length - 1) {
+      throw new Error(`/${definition.name}: a text argument must come last`);
+    }
+    this.commands.set(definition.name, definition);
+  }
+
+  get(name: string): CommandDefinition | undefined {
+    return this.commands.get(name.toLowerCase());
+  }
+
+  /**
+   * Commands the user can run in the channel, for composer autocomplete
+   */
+  async getAvailable(organizationId: string, userId: string, role: UserRole, channelId?: string) {
+    let channel: IChannel | null = null;
+    let membership: IChannelMember | null = null;
+    if (channelId && mongoose.isValidObjectId(channelId)) {
+      [channel, membership] = await Promise.all([
+        Channel.findOne({ _id: channelId, organizationId }),
+        ChannelMember.findOne({ channelId, userId }),
+      ]);
+    }
+
+    return [...this.commands.values()]
+      .filter((command) => {
+        if (channel?.type === "DM" && !command.allowInDM) return false;
+        return this.isPermitted(command, role, membership);
+      })
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(({ name, description, usage, args }) => ({
+        name,
+        description,
+        usage,
+        args,
+      }));
+  }
+
+  /**
+   * Run a command line such as `/invite @asha` in a channel
+   */
+  async execute(
+    organizationId: string,
+    userId: string,
+    role: UserRole,
+    channelId: string,
+    input: string
+  ): Promise<CommandResult> {
+    const match = input.trim().match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+    if (!match) {
+      throw new BadRequestError("Commands start with / followed by a name.");
+    }
+
+    const reply = (response: CommandResponse) =>
+      response.text
+        ? ephemeralService.send(organizationId, userId, {
+            channelId,
+            text: response.text,
+            actions: response.actions,
+          })
+        : null;
+
+    const name = match[1].toLowerCase();
+    const command = this.commands.get(name);
+    if (!command) {
+      return {
+        command: null,
+        ok: false,
+        message: reply({
+          text: `/${name} is not a command. Type / to see the available commands.`,
+        }),
+      };
+    }
+
+    try {
+      const context = await this.buildContext(organizationId, userId, role, channelId);
+
+      if (context.channel.type === "DM" && !command.allowInDM) {
+        throw new BadRequestError(`/${command.name} can't be used in direct messages.`);
+      }
+      if (context.channel.isArchived) {
+        throw new ForbiddenError(ARCHIVED_CHANNEL_MESSAGE);
+      }
+      if (!this.isPermitted(command, role, context.membership)) {
+        throw new ForbiddenError(
+          command.permission === "admin"
+            ? `Only workspace admins can use /${command.name}.`
+            : `Only channel admins can use /${command.name} here.`
+        );
+      }
+
+      const args = await this.parseArguments(
+        command,
+        organizationId,
+        match[2] || "",
+        context.user.profile?.timezone || "UTC"
+      );
+      const response = await command.execute(context, args);
+      return { command: command.name, ok: true, message: reply(response) };
+    } catch (error) {
+      // Expected failures become a reply to the user; anything else is a bug
+      if (error instanceof AppError) {
+        return {
+          command: command.name,
+          ok: false,
+          message: reply({ text: error.message }),
+        };
+      }
+      throw error;
+    }
+  }
+
+  private async buildContext(
+    organizationId: string,
+    userId: string,
+    role: UserRole,
+    channelId: string
+  ): Promise<CommandContext> {
+    if (!mongoose.isValidObjectId(channelId)) {
+      throw new NotFoundError("Channel not found.");
+    }
+
+    const [channel, membership, user] = await Promise.all([
+      Channel.findOne({ _id: channelId, organizationId }),
+      ChannelMember.findOne({ channelId, userId }),
+      User.findById(userId),
+    ]);
+    if (!channel || !user) {
+      throw new NotFoundError("Channel not found.");
+    }
+    if (!membership) {
+      throw new ForbiddenError("You are not a member of this channel.");
+    }
+
+    return { organizationId, userId, role, user, channel, membership };
+  }
+
+  private isPermitted(
+    command: CommandDefinition,
+    role: UserRole,
+    membership: IChannelMember | null
+  ): boolean {
+    switch (command.permission || "member") {
+      case "admin":
+        return role === "ADMIN";
+      case "channel-admin":
+        return role === "ADMIN" || membership?.role === "ADMIN";
+      default:
+        return true;
+    }
+  }
+
+  private async parseArguments(
+    command: CommandDefinition,
+    organizationId: string,
+    input: string,
+    timezone: string
+  ): Promise<CommandArgs> {
+    const tokens: Token[] = [...input.matchAll(TOKEN_PATTERN)].map((m) => ({
+      value: m[1] ?? m[2],
+      start: m.index!,
+    }));
+    const usageError = () => new BadRequestError(`Usage: ${command.usage}`);
+
+    const args: CommandArgs = {};
+    let position = 0;
+
+    for (const arg of command.args) {
+      if (position >= tokens.length) {
+        if (arg.required) throw usageError();
+        continue;
+      }
+
+      switch (arg.type) {
+        case "word":
+          args[arg.name] = tokens[position++].value;
+          break;
+
+        case "text": {
+          const rest = input.slice(tokens[position].start).trim();
+          args[arg.name] = /^"[^"]*"$/.test(rest) ? rest.slice(1, -1) : rest;
+          position = tokens.length;
+          break;
+        }
+
+        case "duration": {
+          // Longest run of tokens that reads as a duration, e.g. "2 hours 30 min"
+          let consumed = 0;
+          for (let n = Math.min(6, tokens.length - position); n > 0; n--) {
+            const text = tokens
+              .slice(position, position + n)
+              .map((t) => t.value)
+              .join(" ");
+            const ms = parseDuration(text);
+            if (ms !== null) {
+              args[arg.name] = ms;
+              consumed = n;
+              break;
+            }
+          }
+          if (consumed === 0 && arg.required) {
+            throw new BadRequestError(
+              `"${tokens[position].value}" is not a duration, try 30m, 2h or 1d. Usage: ${command.usage}`
+            );
+          }
+          position += consumed;
+          break;
+        }
+
+        case "time": {
+          // Longest run of tokens that reads as a time on the user's clock,
+          // e.g. "next Monday at 9am" or "in 2 hours"
+          let consumed = 0;
+          for (let n = Math.min(6, tokens.length - position); n > 0; n--) {
+            const text = tokens
+              .slice(position, position + n)
+              .map((t) => t.value)
+              .join(" ");
+            const time = parseNaturalTime(text, timezone);
+            if (time) {
+              args[arg.name] = time;
+              consumed = n;
+              break;
+            }
+          }
+          if (consumed === 0 && arg.required) {
+            throw new BadRequestError(
+              `"${tokens[position].value}" is not a time, try "in 2 hours", "tomorrow at 9am" or "next Monday". Usage: ${command.usage}`
+            );
+          }
+          position += consumed;
+          break;
+        }
+
+        case "user": {
+          const { user, consumed } = await this.resolveUser(
+            organizationId,
+            tokens.slice(position).map((t) => t.value)
+          );
+          if (!user) {
+            throw new BadRequestError(
+              `Couldn't find a member named ${tokens[position].value}.`
+            );
+          }
+          args[arg.name] = user;
+          position += consumed;
+          break;
+        }
+      }
+    }
+
+    if (position < tokens.length) throw usageError();
+    return args;
+  }
+
+  /**
+   * Resolve `@handle`, or a full name typed after @ across up to three words
+   */
+  private async resolveUser(
+    organizationId: string,
+    words: string[]
+  ): Promise<{ user: IUser | null; consumed: number }> {
+    for (let n = Math.min(3, words.length); n > 0; n--) {
+      const handle = words
+        .slice(0, n)
+        .join(" ")
+        .replace(/^@/, "")
+        .toLowerCase();
+      const userId = await searchService.resolveUserHandle(organizationId, handle);
+      if (userId) {
+        const user = await User.findOne({
+          _id: userId,
+          organizationId,
+          status: { $ne: "BLOCKED" },
+        });
+        if (user) return { user, consumed: n };
+      }
+    }
+    return { user: null, consumed: 0 };
+  }
+}
+
+export const commandService = new CommandService();
+export default commandService;
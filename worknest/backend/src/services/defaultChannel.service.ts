@@ -0,0 +1,175 @@
+import xss from "xss";
+import {
+  Channel,
+  IChannel,
+  IUser,
+  Organization,
+  User,
+} from "../models/index.js";
+import { BadRequestError } from "../utils/index.js";
+import { channelMembershipService } from "./channelMembership.service.js";
+import { webhookService } from "./webhook.service.js";
+
+const MAX_DEFAULT_CHANNELS = 20;
+
+export interface DefaultChannelBackfill {
+  channelId: string;
+  name: string;
+  created: boolean;
+  added: number;
+}
+
+/**
+ * Default Channel Service
+ * Applies Organization.settings.channelPolicies.defaultChannels. Everyone who
+ * joins the organization lands in these channels, which are created as
+ * public channels when they don't exist yet.
+ */
+class DefaultChannelService {
+  /**
+   * Validate a defaultChannels setting, returning trimmed unique names
+   */
+  normalizeNames(input: unknown): string[] {
+    if (!Array.isArray(input) || input.some((name) => typeof name !== "string")) {
+      throw new BadRequestError("Default channels must be a list of channel names.");
+    }
+
+    const names: string[] = [];
+    for (const raw of input as string[]) {
+      const name = raw.trim().replace(/^#/, "");
+      if (!name) continue;
+      if (name.length > 100) {
+        throw new BadRequestError("Channel names cannot exceed 100 characters.");
+      }
+      if (!names.some((n) => n.toLowerCase() === name.toLowerCase())) {
+        names.push(name);
+      }
+    }
+
+    if (names.length > MAX_DEFAULT_CHANNELS) {
+      throw new BadRequestError(
+        `At most ${MAX_DEFAULT_CHANNELS} default channels are allowed.`
+      );
+    }
+    return names;
+  }
+
+  async getNames(organizationId: string): Promise<string[]> {
+    const organization = await Organization.findById(organizationId).select(
+      "settings.channelPolicies.defaultChannels"
+    );
+    return organization?.settings?.channelPolicies?.defaultChannels || [];
+  }
+
+  /**
+   * Find the channels with the given names, creating the missing ones
+   */
+  async ensureChannels(
+    organizationId: string,
+    names: string[],
+    createdBy: string
+  ): Promise<{ channel: IChannel; created: boolean }[]> {
+    if (names.length === 0) return [];
+
+    const existing = await Channel.find({
+      organizationId,
+      type: { $ne: "DM" },
+    }).select("name description type organizationId createdBy");
+
+    const result: { channel: IChannel; created: boolean }[] = [];
+    for (const name of names) {
+      const match = existing.find(
+        (channel) => channel.name.toLowerCase() === name.toLowerCase()
+      );
+      if (match) {
+        result.push({ channel: match, created: false });
+        continue;
+      }
+
+      const channel = await Channel.create({
+        organizationId,
+        name: xss(name),
+        description: "",
+        type: "PUBLIC",
+        createdBy,
+      });
+      webhookService.dispatch(organizationId, "channel.created", {
+        id: channel._id,
+        name: channel.name,
+        description: channel.description,
+        type: channel.type,
+        createdBy,
+      });
+      existing.push(channel);
+      result.push({ channel, created: true });
+    }
+
+    return result;
+  }
+
+  /**
+   * Add a user who just joined the organization to its default channels
+   */
+  async join(user: IUser): Promise<IChannel[]> {
+    const organizationId = user.organizationId.toString();
+    const names = await this.getNames(organizationId);
+    const channels = await this.ensureChannels(
+      organizationId,
+      names,
+      user._id.toString()
+    );
+
+    const joined: IChannel[] = [];
+    for (const { channel } of channels) {
+      const added = await channelMembershipService.addMembers(
+        channel,
+        [user],
+        user._id.toString()
+      );
+      if (added.length > 0) joined.push(channel);
+    }
+    return joined;
+  }
+
+  /**
+   * Add every active user to the default channels, e.g. after a channel was
+   * added to the list. Limit it to some of the defaults with `names`.
+   */
+  async backfill(
+    organizationId: string,
+    actorId: string,
+    names?: string[]
+  ): Promise<DefaultChannelBackfill[]> {
+    const defaults = await this.getNames(organizationId);
+    const selected = names
+      ? defaults.filter((name) =>
+          names.some((n) => n.toLowerCase() === name.toLowerCase())
+        )
+      : defaults;
+    if (names && selected.length !== names.length) {
+      throw new BadRequestError("Only default channels can be backfilled.");
+    }
+
+    const channels = await this.ensureChannels(organizationId, selected, actorId);
+    const users = await User.find({ organizationId, status: "ACTIVE" });
+
+    const result: DefaultChannelBackfill[] = [];
+    for (const { channel, created } of channels) {
+      const added = await channelMembershipService.addMembers(
+        channel,
+        users,
+        actorId
+      );
+      result.push({
+        channelId: channel._id.toString(),
+        name: channel.name,
+        created,
+        added: added.length,
+      });
+    }
+    return result;
+  }
+}
+
+export const defaultChannelService = new DefaultChannelService();
+export default defaultChannelService;
@@ -0,0 +1,156 @@
+import { getIO } from "../config/socket.js";
+import {
+  Channel,
+  ChannelMember,
+  IChannel,
+  IUser,
+  User,
+} from "../models/index.js";
+import { BadRequestError, NotFoundError } from "../utils/index.js";
+
+// Everyone in the conversation, including the person starting it
+export const MAX_DM_PARTICIPANTS =
+  parseInt(process.env.GROUP_DM_MAX_PARTICIPANTS || "", 10) || 9;
+
+const PARTICIPANT_FIELDS = "name email avatar status lastSeenAt";
+
+/**
+ * Direct Message Service
+ * One-to-one and group conversations. A conversation is identified by its
+ * set of participants, so starting one with the same people again reopens
+ * it.
+ */
+class DirectMessageService {
+  /**
+   * Find or start the conversation between the user and `userIds`
+   */
+  async open(
+    organizationId: string,
+    userId: string,
+    userIds: string[]
+  ): Promise<{ channel: IChannel; others: IUser[] }> {
+    const otherIds = [...new Set(userIds.map(String))].filter(
+      (id) => id !== userId
+    );
+    // Messaging only yourself keeps the two-entry shape it always had
+    const participantIds =
+      otherIds.length > 0 ? [userId, ...otherIds] : [userId, userId];
+
+    if (participantIds.length > MAX_DM_PARTICIPANTS) {
+      throw new BadRequestError(
+        `A direct message can include at most ${MAX_DM_PARTICIPANTS} people. Create a private channel instead.`
+      );
+    }
+
+    const others = await User.find({
+      _id: { $in: otherIds },
+      organizationId,
+    }).select(PARTICIPANT_FIELDS);
+    if (others.length !== otherIds.length) {
+      throw new NotFoundError("User not found.");
+    }
+
+    const channel = await Channel.findOrCreateDM(organizationId, participantIds);
+
+    const existing = new Set(
+      (
+        await ChannelMember.distinct("userId", { channelId: channel._id })
+      ).map(String)
+    );
+    const joining = [...new Set(participantIds)].filter(
+      (id) => !existing.has(id)
+    );
+    if (joining.length > 0) {
+      await ChannelMember.insertMany(
+        joining.map((id) => ({
+          organizationId,
+          channelId: channel._id,
+          userId: id,
+          role: "MEMBER",
+        }))
+      );
+    }
+
+    // The others see the conversation in their sidebar before the first
+    // message. Last seen times respect privacy settings, so they are left out
+    // here and come with the next channel list.
+    const starter = await User.findById(userId).select(PARTICIPANT_FIELDS);
+    try {
+      const io = getIO();
+      for (const other of others) {
+        if (!joining.includes(other._id.toString())) continue;
+        const theirOthers = [
+          ...(starter ? [starter] : []),
+          ...others.filter((user) => !user._id.equals(other._id)),
+        ];
+        io.to(`user:${other._id}`).emit("channel-added", {
+          id: channel._id,
+          type: "DM",
+          memberCount: new Set(participantIds).size,
+          unreadCount: 0,
+          lastMessage: null,
+          role: "MEMBER",
+          joinedAt: new Date(),
+          ...this.describe(
+            theirOthers,
+            new Set(theirOthers.map((user) => user._id.toString()))
+          ),
+        });
+      }
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+
+    return { channel, others };
+  }
+
+  /**
+   * The name and people shown for a conversation, given everyone in it but
+   * the viewer. One-to-one conversations carry `dmUser`, groups `dmUsers`.
+   */
+  describe(others: IUser[], hiddenLastSeen: Set<string> = new Set()) {
+    const people = others.map((user) => ({
+      id: user._id,
+      name: user.name,
+      avatar: user.avatar,
+      status: user.status,
+      lastSeenAt: hiddenLastSeen.has(user._id.toString())
+        ? null
+        : user.lastSeenAt,
+    }));
+
+    if (people.length > 1) {
+      return {
+        name: people.map((person) => person.name).join(", "),
+        dmUser: null,
+        dmUsers: people,
+      };
+    }
+    return {
+      name: people[0]?.name || "Direct Message",
+      dmUser: people[0] || null,
+      dmUsers: null,
+    };
+  }
+
+  /**
+   * Everyone in a conversation except the viewer
+   */
+  async getOthers(channel: IChannel, viewerId: string): Promise<IUser[]> {
+    const otherIds = (channel.dmParticipants || [])
+      .map(String)
+      .filter((id) => id !== viewerId);
+    if (otherIds.length === 0) return [];
+
+    const users = await User.find({ _id: { $in: otherIds } }).select(
+      PARTICIPANT_FIELDS
+    );
+    // In the conversation's own order, so names don't shuffle between loads
+    return otherIds.flatMap((id) =>
+      users.filter((user) => user._id.toString() === id)
+    );
+  }
+}
+
+export const directMessageService = new DirectMessageService();
+export default directMessageService;
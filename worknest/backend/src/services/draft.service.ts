@@ -0,0 +1,179 @@
+import mongoose from "mongoose";
+import { getIO } from "../config/socket.js";
+import {
+  ChannelMember,
+  Draft,
+  IDraft,
+  IDraftAttachment,
+  Message,
+} from "../models/index.js";
+import { BadRequestError, ForbiddenError } from "../utils/index.js";
+
+const MAX_CONTENT_LENGTH = 4000;
+const MAX_ATTACHMENTS = 10;
+
+export interface SaveDraftInput {
+  content?: unknown;
+  threadId?: unknown;
+  replyToId?: unknown;
+  attachments?: unknown;
+}
+
+/**
+ * Draft Service
+ * Unsent composer text per user, channel and thread, kept on the server so
+ * it follows the user to their other devices. Saving an empty draft deletes
+ * it.
+ */
+class DraftService {
+  /**
+   * The user's drafts in channels they are still a member of, most recently
+   * edited first
+   */
+  async list(organizationId: string, userId: string): Promise<IDraft[]> {
+    const [drafts, channelIds] = await Promise.all([
+      this.findPopulated({ organizationId, userId }),
+      ChannelMember.distinct("channelId", { userId }),
+    ]);
+
+    const memberOf = new Set(channelIds.map((id) => id.toString()));
+    return drafts.filter((draft) =>
+      memberOf.has(this.channelIdOf(draft).toString())
+    );
+  }
+
+  async save(
+    organizationId: string,
+    userId: string,
+    channelId: string,
+    input: SaveDraftInput
+  ): Promise<IDraft | null> {
+    const threadId = this.optionalId(input.threadId, "thread");
+    const replyToId = threadId ? null : this.optionalId(input.replyToId, "reply");
+    const content = typeof input.content === "string" ? input.content : "";
+    const attachments = this.normalizeAttachments(input.attachments);
+
+    if (content.length > MAX_CONTENT_LENGTH) {
+      throw new BadRequestError(
+        `Message cannot exceed ${MAX_CONTENT_LENGTH} characters.`
+      );
+    }
+
+    await this.assertAccess(channelId, userId, threadId);
+
+    if (!content.trim() && attachments.length === 0 && !replyToId) {
+      await this.delete(organizationId, userId, channelId, threadId);
+      return null;
+    }
+
+    const draft = await Draft.findOneAndUpdate(
+      { organizationId, userId, channelId, threadId },
+      { $set: { content, replyToId, attachments } },
+      { new: true, upsert: true, setDefaultsOnInsert: true, runValidators: true }
+    );
+    const [populated] = await this.findPopulated({ _id: draft._id });
+
+    this.emit(userId, "draft-updated", populated);
+    return populated;
+  }
+
+  async delete(
+    organizationId: string,
+    userId: string,
+    channelId: string,
+    threadId: string | null = null
+  ): Promise<void> {
+    const { deletedCount } = await Draft.deleteOne({
+      organizationId,
+      userId,
+      channelId,
+      threadId,
+    });
+    if (deletedCount > 0) {
+      this.emit(userId, "draft-removed", { channelId, threadId });
+    }
+  }
+
+  private async assertAccess(
+    channelId: string,
+    userId: string,
+    threadId: string | null
+  ): Promise<void> {
+    if (!mongoose.isValidObjectId(channelId)) {
+      throw new BadRequestError("Invalid channel ID.");
+    }
+    const isMember = await ChannelMember.isMember(channelId, userId);
+    if (!isMember) {
+      throw new ForbiddenError("You are not a member of this channel.");
+    }
+
+    if (threadId) {
+      const parent = await Message.exists({ _id: threadId, channelId });
+      if (!parent) {
+        throw new BadRequestError("Thread not found in this channel.");
+      }
+    }
+  }
+
+  private optionalId(value: unknown, name: string): string | null {
+    if (value === undefined || value === null || value === "") return null;
+    if (typeof value !== "string" || !mongoose.isValidObjectId(value)) {
+      throw new BadRequestError(`Invalid ${name} ID.`);
+    }
+    return value;
+  }
+
+  // Only the metadata of files that were already uploaded
+  private normalizeAttachments(value: unknown): IDraftAttachment[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.length > MAX_ATTACHMENTS) {
+      throw new BadRequestError(
+        `Drafts can have up to ${MAX_ATTACHMENTS} attachments.`
+      );
+    }
+
+    return value.map((attachment) => {
+      const { url, name, type, size } = (attachment || {}) as Record<string, unknown>;
+      if (
+        typeof url !== "string" ||
+        typeof name !== "string" ||
+        typeof type !== "string" ||
+        typeof size !== "number"
+      ) {
+        throw new BadRequestError("Invalid attachment.");
+      }
+      return { url, name, type, size };
+    });
+  }
+
+  private channelIdOf(draft: IDraft): mongoose.Types.ObjectId {
+    const channel = draft.channelId as unknown as
+      | { _id: mongoose.Types.ObjectId }
+      | mongoose.Types.ObjectId;
+    return "_id" in channel ? channel._id : channel;
+  }
+
+  // Drafts with their channel and the message being replied to, most
+  // recently edited first
+  private findPopulated(filter: Record<string, unknown>): Promise<IDraft[]> {
+    return Draft.find(filter)
+      .sort({ updatedAt: -1 })
+      .populate("channelId", "name type")
+      .populate({
+        path: "replyToId",
+        select: "content senderId",
+        populate: { path: "senderId", select: "name" },
+      });
+  }
+
+  private emit(userId: string, event: string, payload: unknown): void {
+    try {
+      getIO().to(`user:${userId}`).emit(event, payload);
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+  }
+}
+
+export const draftService = new DraftService();
+export default draftService;
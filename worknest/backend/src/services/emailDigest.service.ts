@@ -0,0 +1,385 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { getIO } from "../config/socket.js";
+import {
+  Channel,
+  ChannelMember,
+  DigestItem,
+  DigestReason,
+  IChannelMember,
+  IDigestItem,
+  IMessage,
+  Message,
+  Organization,
+  User,
+} from "../models/index.js";
+import {
+  BadRequestError,
+  DigestEmailEntry,
+  emailService,
+  isWithinDND,
+} from "../utils/index.js";
+
+const UNSUBSCRIBE_TOKEN_AUDIENCE = "email-unsubscribe";
+const DEFAULT_DELAY_MS = 30 * 60 * 1000; // 30 minutes
+const MAX_ITEMS_PER_DIGEST = 50;
+// An item claimed this long ago belongs to a run that was interrupted, e.g.
+// by a restart, and is queued again
+const STALE_CLAIM_MS = 15 * 60 * 1000;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Email Digest Service
+ * Collects mentions, direct messages and keyword hits for each user as they
+ * are posted, and emails them in one digest once the user has been away for
+ * a while (EMAIL_DIGEST_DELAY_MS). Anything the user reads before then is
+ * left out. Organization and user email settings, channel mutes and DND
+ * hours are respected.
+ */
+class EmailDigestService {
+  /**
+   * Queue a new message for the digests of the members it concerns
+   */
+  async queueMessage(message: IMessage): Promise<void> {
+    if (message.contentType === "SYSTEM" || !message.content) return;
+
+    const channel = await Channel.findById(message.channelId).select("type");
+    if (!channel) return;
+
+    const senderId = message.senderId?._id?.toString();
+    const members = await ChannelMember.find({
+      channelId: message.channelId,
+      ...(senderId ? { userId: { $ne: senderId } } : {}),
+    });
+    if (members.length === 0) return;
+
+    const users = await User.find({
+      _id: { $in: members.map((member) => member.userId) },
+      status: "ACTIVE",
+      "settings.notifications.email": { $ne: false },
+    }).select("name settings.notifications");
+    const membersByUser = new Map(
+      members.map((member) => [member.userId.toString(), member])
+    );
+
+    const items = [];
+    for (const user of users) {
+      const member = membersByUser.get(user._id.toString());
+      if (!member || this.isMuted(member)) continue;
+
+      const match = this.matchReason(
+        message.content,
+        channel.type === "DM",
+        user.name,
+        user.settings?.notifications
+      );
+      if (!match) continue;
+
+      items.push({
+        organizationId: message.organizationId,
+        userId: user._id,
+        channelId: message.channelId,
+        messageId: message._id,
+        parentMessageId: message.parentMessageId || null,
+        ...match,
+      });
+    }
+
+    if (items.length > 0) {
+      await DigestItem.insertMany(items, { ordered: false }).catch((error) => {
+        // Duplicate items for the same message are fine
+        if (error?.code !== 11000) throw error;
+      });
+    }
+  }
+
+  /**
+   * Send the digests of users who have been away longer than the delay.
+   * Returns how many emails went out.
+   */
+  async sendDue(): Promise<number> {
+    await DigestItem.updateMany(
+      {
+        status: "SENDING",
+        claimedAt: { $lt: new Date(Date.now() - STALE_CLAIM_MS) },
+      },
+      { $set: { status: "PENDING", claimedAt: null } }
+    );
+
+    const cutoff = new Date(Date.now() - this.delayMs());
+    const userIds = await DigestItem.findDueUserIds(cutoff);
+
+    let sent = 0;
+    for (const userId of userIds) {
+      try {
+        if (await this.sendDigest(userId.toString(), cutoff)) sent++;
+      } catch (error) {
+        console.error(`Email digest for user ${userId} failed:`, error);
+      }
+    }
+    return sent;
+  }
+
+  /**
+   * Turn off email notifications for the user a token was issued to
+   */
+  async unsubscribe(token: string): Promise<{ email: string }> {
+    const userId = this.verifyUnsubscribeToken(token);
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new BadRequestError("This unsubscribe link is no longer valid.");
+    }
+
+    if (user.settings && user.settings.notifications.email !== false) {
+      user.settings.notifications.email = false;
+      user.markModified("settings");
+      await user.save();
+    }
+    await DigestItem.deleteMany({ userId: user._id });
+
+    return { email: user.email };
+  }
+
+  verifyUnsubscribeToken(token: string): string {
+    try {
+      const claims = jwt.verify(token, this.unsubscribeSecret(), {
+        audience: UNSUBSCRIBE_TOKEN_AUDIENCE,
+      }) as jwt.JwtPayload;
+      if (!claims.sub) throw new Error("Missing subject");
+      return claims.sub;
+    } catch {
+      throw new BadRequestError("This unsubscribe link is no longer valid.");
+    }
+  }
+
+  unsubscribeUrl(userId: string): string {
+    const token = jwt.sign({}, this.unsubscribeSecret(), {
+      audience: UNSUBSCRIBE_TOKEN_AUDIENCE,
+      subject: userId,
+    });
+    const baseUrl =
+      process.env.PUBLIC_API_URL ||
+      `http://localhost:${process.env.PORT || 5000}`;
+    return `${baseUrl}/email/unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Send one user's digest. Returns whether an email went out; items stay
+   * queued while the user is online or in DND. Items are claimed first, so
+   * runs on two servers never email the same message twice.
+   */
+  private async sendDigest(userId: string, cutoff: Date): Promise<boolean> {
+    const user = await User.findById(userId);
+    const organization = user
+      ? await Organization.findById(user.organizationId)
+      : null;
+
+    if (
+      !user ||
+      !organization ||
+      user.status !== "ACTIVE" ||
+      organization.status !== "ACTIVE" ||
+      user.settings?.notifications?.email === false ||
+      organization.settings?.notifications?.enableEmailNotifications === false
+    ) {
+      await DigestItem.deleteMany({ userId });
+      return false;
+    }
+
+    const claimedAt = new Date();
+    const items = await this.claim(userId, claimedAt);
+    if (items.length === 0) return false;
+
+    try {
+      const entries = await this.collectUnread(userId, items);
+
+      // Whatever was read, deleted or muted in the meantime is done with
+      const pendingIds = new Set(entries.map((entry) => entry.itemId));
+      await DigestItem.deleteMany({
+        _id: {
+          $in: items
+            .filter((item) => !pendingIds.has(item._id.toString()))
+            .map((item) => item._id),
+        },
+      });
+      if (entries.length === 0) return false;
+
+      if (
+        (user.lastSeenAt && user.lastSeenAt > cutoff) ||
+        (await this.isConnected(userId))
+      ) {
+        return false;
+      }
+
+      const dnd = user.settings?.notifications?.dnd;
+      if (
+        dnd?.enabled &&
+        isWithinDND(dnd.start, dnd.end, user.profile?.timezone)
+      ) {
+        return false;
+      }
+
+      await emailService.sendDigestEmail(user.email, {
+        userName: user.name,
+        orgName: organization.name,
+        subdomain: organization.subdomain,
+        entries: entries.slice(0, MAX_ITEMS_PER_DIGEST),
+        moreCount: Math.max(0, entries.length - MAX_ITEMS_PER_DIGEST),
+        unsubscribeUrl: this.unsubscribeUrl(userId),
+      });
+
+      await DigestItem.deleteMany({
+        _id: { $in: entries.map((entry) => entry.itemId) },
+      });
+      return true;
+    } finally {
+      // Items that were not sent go back in the queue for the next run
+      await DigestItem.updateMany(
+        { userId, status: "SENDING", claimedAt },
+        { $set: { status: "PENDING", claimedAt: null } }
+      );
+    }
+  }
+
+  /**
+   * Claim the user's queued items, oldest first. An item another run claimed
+   * in the meantime is skipped.
+   */
+  private async claim(userId: string, claimedAt: Date): Promise<IDigestItem[]> {
+    const pending = await DigestItem.find({ userId, status: "PENDING" })
+      .sort({ createdAt: 1 })
+      .select("_id");
+
+    const claimed: IDigestItem[] = [];
+    for (const { _id } of pending) {
+      const item = await DigestItem.findOneAndUpdate(
+        { _id, status: "PENDING" },
+        { $set: { status: "SENDING", claimedAt } },
+        { new: true }
+      );
+      if (item) claimed.push(item);
+    }
+    return claimed;
+  }
+
+  /**
+   * The queued messages the user still hasn't read, oldest first
+   */
+  private async collectUnread(
+    userId: string,
+    items: IDigestItem[]
+  ): Promise<(DigestEmailEntry & { itemId: string })[]> {
+    if (items.length === 0) return [];
+
+    const [messages, memberships, channels] = await Promise.all([
+      Message.find({
+        _id: { $in: items.map((item) => item.messageId) },
+        isDeleted: false,
+      }).populate("senderId", "name"),
+      ChannelMember.find({
+        userId,
+        channelId: { $in: items.map((item) => item.channelId) },
+      }),
+      Channel.find({
+        _id: { $in: items.map((item) => item.channelId) },
+      }).select("name type dmParticipants"),
+    ]);
+
+    const messagesById = new Map(messages.map((m) => [m._id.toString(), m]));
+    const membershipsByChannel = new Map(
+      memberships.map((m) => [m.channelId.toString(), m])
+    );
+    const channelsById = new Map(channels.map((c) => [c._id.toString(), c]));
+
+    const entries: (DigestEmailEntry & { itemId: string })[] = [];
+    for (const item of items) {
+      const message = messagesById.get(item.messageId.toString());
+      const membership = membershipsByChannel.get(item.channelId.toString());
+      const channel = channelsById.get(item.channelId.toString());
+      if (!message || !membership || !channel || this.isMuted(membership)) {
+        continue;
+      }
+      if (membership.lastReadAt && membership.lastReadAt >= message.createdAt) {
+        continue;
+      }
+
+      const senderName =
+        message.bot?.name ||
+        (message.senderId as unknown as { name?: string })?.name ||
+        "Someone";
+
+      entries.push({
+        itemId: item._id.toString(),
+        reason: item.reason,
+        keyword: item.keyword,
+        channelId: channel._id.toString(),
+        channelName: channel.type === "DM" ? senderName : channel.name,
+        isDM: channel.type === "DM",
+        threadId: item.parentMessageId?.toString() || null,
+        senderName,
+        content: message.content,
+        createdAt: message.createdAt,
+      });
+    }
+    return entries;
+  }
+
+  private matchReason(
+    content: string,
+    isDM: boolean,
+    userName: string,
+    notifications?: { mentions?: boolean; keywords?: string[] }
+  ): { reason: DigestReason; keyword?: string } | null {
+    if (isDM) return { reason: "DM" };
+
+    const mentioned =
+      new RegExp(`@${escapeRegExp(userName)}\\b`, "i").test(content) ||
+      /@channel\b/i.test(content);
+    if (mentioned && notifications?.mentions !== false) {
+      return { reason: "MENTION" };
+    }
+
+    const keyword = notifications?.keywords?.find((k) =>
+      new RegExp(`\\b${escapeRegExp(k)}\\b`, "i").test(content)
+    );
+    if (keyword) return { reason: "KEYWORD", keyword };
+
+    return null;
+  }
+
+  // A muted channel, or one with notifications switched off, sends no email
+  private isMuted(membership: IChannelMember): boolean {
+    const { notifyOn, muteUntil } = membership.notifications || {};
+    return (
+      notifyOn === "NONE" || (!!muteUntil && new Date(muteUntil) > new Date())
+    );
+  }
+
+  private async isConnected(userId: string): Promise<boolean> {
+    try {
+      const sockets = await getIO().in(`user:${userId}`).fetchSockets();
+      return sockets.length > 0;
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+      return false;
+    }
+  }
+
+  private delayMs(): number {
+    return parseInt(process.env.EMAIL_DIGEST_DELAY_MS || `${DEFAULT_DELAY_MS}`);
+  }
+
+  // Derived from the JWT secret so unsubscribe tokens can never pass as
+  // access tokens
+  private unsubscribeSecret(): Buffer {
+    return crypto
+      .createHmac("sha256", process.env.JWT_SECRET || "secret")
+      .update(UNSUBSCRIBE_TOKEN_AUDIENCE)
+      .digest();
+  }
+}
+
+export const emailDigestService = new EmailDigestService();
+export default emailDigestService;
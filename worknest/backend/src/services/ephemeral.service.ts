@@ -0,0 +1,195 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { getIO } from "../config/socket.js";
+import {
+  EphemeralAction,
+  EphemeralContentType,
+  UserRole,
+} from "../types/index.js";
+import { BadRequestError, ForbiddenError } from "../utils/index.js";
+
+export interface EphemeralMessageInput {
+  channelId: string;
+  text: string;
+  actions?: EphemeralAction[];
+}
+
+export interface EphemeralMessage {
+  id: string;
+  channelId: string;
+  content: string;
+  contentType: EphemeralContentType;
+  // `token` is null for buttons that only dismiss the message
+  actions: {
+    id: string;
+    label: string;
+    style: NonNullable<EphemeralAction["style"]>;
+    token: string | null;
+  }[];
+  createdAt: Date;
+}
+
+export interface EphemeralActionContext {
+  organizationId: string;
+  userId: string;
+  role: UserRole;
+  channelId: string;
+  messageId: string;
+}
+
+/**
+ * Runs when a user clicks an action button. Returning a message replaces the
+ * one that was clicked; returning nothing removes it.
+ */
+export type EphemeralActionHandler = (
+  context: EphemeralActionContext,
+  value: Record<string, unknown>
+) => Promise<Omit<EphemeralMessageInput, "channelId"> | void>;
+
+interface ActionClaims {
+  sub: string;
+  org: string;
+  cid: string;
+  mid: string;
+  act: string;
+  val: Record<string, unknown>;
+}
+
+const ACTION_TOKEN_AUDIENCE = "ephemeral-action";
+const ACTION_TOKEN_TTL = "24h";
+
+/**
+ * Ephemeral Service
+ * Messages shown to a single user in a channel, such as command feedback and
+ * prompts. They are sent to the user's own room and are never stored, so
+ * action buttons carry a signed token describing what to run.
+ */
+class EphemeralService {
+  private handlers = new Map<string, EphemeralActionHandler>();
+
+  registerAction(name: string, handler: EphemeralActionHandler): void {
+    this.handlers.set(name, handler);
+  }
+
+  /**
+   * Send an ephemeral message to every session of the user. Pass `id` to
+   * replace a message the user already has.
+   */
+  send(
+    organizationId: string,
+    userId: string,
+    input: EphemeralMessageInput,
+    id = `ephemeral-${crypto.randomBytes(8).toString("hex")}`
+  ): EphemeralMessage {
+    const message: EphemeralMessage = {
+      id,
+      channelId: input.channelId,
+      content: input.text,
+      contentType: "EPHEMERAL",
+      actions: (input.actions || []).map((action, index) => ({
+        id: `${id}-${index}`,
+        label: action.label,
+        style: action.style || "default",
+        token: action.action
+          ? this.signAction({
+              sub: userId,
+              org: organizationId,
+              cid: input.channelId,
+              mid: id,
+              act: action.action,
+              val: action.value || {},
+            })
+          : null,
+      })),
+      createdAt: new Date(),
+    };
+
+    try {
+      getIO().to(`user:${userId}`).emit("ephemeral-message", message);
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+
+    return message;
+  }
+
+  /**
+   * Run the action behind a button the user clicked
+   */
+  async runAction(
+    user: { userId: string; organizationId: string; role: UserRole },
+    token: string
+  ): Promise<EphemeralMessage | null> {
+    let claims: ActionClaims;
+    try {
+      claims = jwt.verify(token, this.actionSecret(), {
+        audience: ACTION_TOKEN_AUDIENCE,
+      }) as unknown as ActionClaims;
+    } catch {
+      throw new BadRequestError("This action has expired.");
+    }
+
+    if (claims.sub !== user.userId || claims.org !== user.organizationId) {
+      throw new ForbiddenError("This action belongs to someone else.");
+    }
+
+    const handler = this.handlers.get(claims.act);
+    if (!handler) {
+      throw new BadRequestError("This action is no longer available.");
+    }
+
+    const result = await handler(
+      {
+        organizationId: user.organizationId,
+        userId: user.userId,
+        role: user.role,
+        channelId: claims.cid,
+        messageId: claims.mid,
+      },
+      claims.val
+    );
+
+    if (result) {
+      return this.send(
+        user.organizationId,
+        user.userId,
+        { channelId: claims.cid, ...result },
+        claims.mid
+      );
+    }
+
+    this.remove(user.userId, claims.cid, claims.mid);
+    return null;
+  }
+
+  /**
+   * Take an ephemeral message away from every session of the user
+   */
+  remove(userId: string, channelId: string, id: string): void {
+    try {
+      getIO()
+        .to(`user:${userId}`)
+        .emit("ephemeral-message-removed", { id, channelId });
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+  }
+
+  private signAction(claims: ActionClaims): string {
+    return jwt.sign(claims, this.actionSecret(), {
+      audience: ACTION_TOKEN_AUDIENCE,
+      expiresIn: ACTION_TOKEN_TTL,
+    });
+  }
+
+  // Derived from the JWT secret so action tokens can never pass as access tokens
+  private actionSecret(): Buffer {
+    return crypto
+      .createHmac("sha256", process.env.JWT_SECRET || "secret")
+      .update(ACTION_TOKEN_AUDIENCE)
+      .digest();
+  }
+}
+
+export const ephemeralService = new EphemeralService();
+export default ephemeralService;
@@ -0,0 +1,182 @@
+import crypto from "crypto";
+import xss from "xss";
+import {
+  Channel,
+  IIncomingWebhook,
+  IMessage,
+  IncomingWebhook,
+} from "../models/index.js";
+import {
+  BadRequestError,
+  NotFoundError,
+  blocksToText,
+  isHttpUrl,
+  parseMessageBlocks,
+} from "../utils/index.js";
+import { messageService } from "./message.service.js";
+
+const MAX_CONTENT_LENGTH = 4000;
+const MAX_ATTACHMENTS = 10;
+
+export interface IncomingWebhookPayload {
+  text?: unknown;
+  username?: unknown;
+  avatarUrl?: unknown;
+  attachments?: unknown;
+  blocks?: unknown;
+}
+
+/**
+ * Incoming Webhook Service
+ * Lets external systems post into a channel through a secret URL. Messages
+ * carry a bot identity instead of a sender and are otherwise posted like
+ * user messages, through messageService.
+ */
+class IncomingWebhookService {
+  /**
+   * Create a webhook for a channel. The token is returned only here and on
+   * regeneration; the database keeps its hash.
+   */
+  async create(data: {
+    organizationId: string;
+    channelId: string;
+    name: string;
+    avatar?: string | null;
+    createdBy: string;
+  }): Promise<{ webhook: IIncomingWebhook; token: string }> {
+    const token = this.generateToken();
+    const webhook = await IncomingWebhook.create({
+      ...data,
+      tokenHash: this.hash(token),
+      tokenPrefix: token.slice(0, 8),
+    });
+    return { webhook, token };
+  }
+
+  async regenerateToken(webhook: IIncomingWebhook): Promise<string> {
+    const token = this.generateToken();
+    webhook.tokenHash = this.hash(token);
+    webhook.tokenPrefix = token.slice(0, 8);
+    await webhook.save();
+    return token;
+  }
+
+  /**
+   * Look up an active webhook by the token from its URL
+   */
+  async findByToken(token: string): Promise<IIncomingWebhook | null> {
+    if (!token || token.length > 200) return null;
+    return IncomingWebhook.findOne({
+      tokenHash: this.hash(token),
+      isActive: true,
+    });
+  }
+
+  /**
+   * Validate a payload and post it to the webhook's channel
+   */
+  async post(webhook: IIncomingWebhook, payload: IncomingWebhookPayload) {
+    const channel = await Channel.findOne({
+      _id: webhook.channelId,
+      organizationId: webhook.organizationId,
+    });
+    if (!channel) {
+      throw new NotFoundError("Channel not found.");
+    }
+
+    const blocks = parseMessageBlocks(payload.blocks);
+    const attachments = this.parseAttachments(payload.attachments);
+
+    let text = "";
+    if (payload.text !== undefined && payload.text !== null) {
+      if (typeof payload.text !== "string") {
+        throw new BadRequestError("text must be a string.");
+      }
+      text = payload.text.trim();
+    }
+    if (text.length > MAX_CONTENT_LENGTH) {
+      throw new BadRequestError(
+        `text cannot exceed ${MAX_CONTENT_LENGTH} characters.`
+      );
+    }
+
+    // Content doubles as the fallback for clients, search and notifications
+    const content =
+      text ||
+      blocksToText(blocks) ||
+      attachments.map((a) => a.name).join(", ");
+    if (!content) {
+      throw new BadRequestError(
+        "Provide text, blocks or attachments to post a message."
+      );
+    }
+
+    const name =
+      typeof payload.username === "string" && payload.username.trim()
+        ? xss(payload.username.trim().slice(0, 80))
+        : webhook.name;
+    const avatar = isHttpUrl(payload.avatarUrl)
+      ? payload.avatarUrl
+      : webhook.avatar || null;
+
+    const { messageData } = await messageService.post({
+      organizationId: webhook.organizationId.toString(),
+      channelId: channel._id.toString(),
+      bot: { incomingWebhookId: webhook._id.toString(), name, avatar },
+      content: content.slice(0, MAX_CONTENT_LENGTH),
+      contentType: text || blocks.length > 0 ? "TEXT" : "FILE",
+      attachments,
+      blocks,
+    });
+
+    await IncomingWebhook.updateOne(
+      { _id: webhook._id },
+      { $inc: { messageCount: 1 }, $set: { lastUsedAt: new Date() } }
+    );
+
+    return messageData;
+  }
+
+  private parseAttachments(input: unknown): NonNullable<IMessage["attachments"]> {
+    if (input === undefined || input === null) return [];
+    if (!Array.isArray(input) || input.length > MAX_ATTACHMENTS) {
+      throw new BadRequestError(
+        `attachments must be an array of up to ${MAX_ATTACHMENTS} files.`
+      );
+    }
+
+    return input.map((raw, index) => {
+      if (!isHttpUrl(raw?.url)) {
+        throw new BadRequestError(
+          `attachments[${index}].url must be an http(s) URL.`
+        );
+      }
+      const fallbackName =
+        new URL(raw.url).pathname.split("/").pop() || "attachment";
+      return {
+        url: raw.url,
+        name: xss(
+          typeof raw.name === "string" && raw.name.trim()
+            ? raw.name.trim().slice(0, 255)
+            : fallbackName
+        ),
+        type:
+          typeof raw.type === "string" && raw.type
+            ? raw.type
+            : "application/octet-stream",
+        size: typeof raw.size === "number" && raw.size >= 0 ? raw.size : 0,
+      };
+    });
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(24).toString("base64url");
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+}
+
+export const incomingWebhookService = new IncomingWebhookService();
+export default incomingWebhookService;
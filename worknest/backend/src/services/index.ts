@@ -0,0 +1,26 @@
+export { retentionService } from "./retention.service.js";
+export { sessionService } from "./session.service.js";
+export { searchService } from "./search.service.js";
+export { searchHistoryService } from "./searchHistory.service.js";
+export { webhookService } from "./webhook.service.js";
+export { incomingWebhookService } from "./incomingWebhook.service.js";
+export { channelMembershipService } from "./channelMembership.service.js";
+export { reminderService } from "./reminder.service.js";
+export { messageService } from "./message.service.js";
+export { commandService } from "./command.service.js";
+export { ephemeralService } from "./ephemeral.service.js";
+export { defaultChannelService } from "./defaultChannel.service.js";
+export { readStateService } from "./readState.service.js";
+export { emailDigestService } from "./emailDigest.service.js";
+export { scheduledMessageService } from "./scheduledMessage.service.js";
+export { draftService } from "./draft.service.js";
+export { pollService } from "./poll.service.js";
+export {
+  ARCHIVED_CHANNEL_MESSAGE,
+  channelArchiveService,
+  serializeChannelDeletion,
+} from "./channelArchive.service.js";
+export { channelSettingsService } from "./channelSettings.service.js";
+export { channelDirectoryService } from "./channelDirectory.service.js";
+export { directMessageService } from "./directMessage.service.js";
+export { organizationAdminService } from "./organizationAdmin.service.js";
@@ -0,0 +1,290 @@
+import { getIO } from "../config/socket.js";
+import {
+  Channel,
+  ChannelMember,
+  IMessage,
+  IMessagePoll,
+  IUser,
+  Message,
+  getMessageSender,
+  serializePoll,
+} from "../models/index.js";
+import { getSocketState } from "../sockets/state/index.js";
+import { ContentType } from "../types/index.js";
+import {
+  BadRequestError,
+  isWithinDND,
+  sanitizeMessageContent,
+} from "../utils/index.js";
+import { channelArchiveService } from "./channelArchive.service.js";
+import { channelMembershipService } from "./channelMembership.service.js";
+import { emailDigestService } from "./emailDigest.service.js";
+import { searchHistoryService } from "./searchHistory.service.js";
+import { webhookService } from "./webhook.service.js";
+
+export interface PostMessageInput {
+  organizationId: string;
+  channelId: string;
+  // Set one of the two: integrations post under a bot identity instead of
+  // a member, see services/incomingWebhook.service.ts
+  senderId?: string;
+  bot?: IMessage["bot"];
+  content: string;
+  contentType?: ContentType;
+  replyTo?: string | null;
+  attachments?: IMessage["attachments"];
+  blocks?: IMessage["blocks"];
+  // Required for POLL messages, see services/poll.service.ts
+  poll?: Omit<IMessagePoll, "options"> & { options: { text: string }[] };
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Message Service
+ * Posting a member or bot message to a channel: persistence, unread counters,
+ * the `receive-message` broadcast, per-member notifications and the
+ * integrations that watch new messages
+ */
+class MessageService {
+  async post(input: PostMessageInput) {
+    const { organizationId, channelId, senderId, bot } = input;
+    if (!senderId === !bot) {
+      throw new BadRequestError("A message needs either a sender or a bot.");
+    }
+    if (input.contentType === "POLL" && !input.poll) {
+      throw new BadRequestError("Polls must be created with a question and options.");
+    }
+    await channelArchiveService.assertWritable(channelId);
+
+    const message = await Message.create({
+      organizationId,
+      channelId,
+      senderId,
+      bot,
+      content: sanitizeMessageContent(input.content.trim()),
+      contentType: input.contentType || "TEXT",
+      replyTo: input.replyTo || null,
+      attachments: input.attachments || [],
+      blocks: input.blocks?.length ? input.blocks : undefined,
+      poll: input.contentType === "POLL" ? input.poll : undefined,
+    });
+
+    // Update channel's last message time
+    await Channel.updateOne({ _id: channelId }, { lastMessageAt: new Date() });
+
+    // Increment unread count for other members
+    await ChannelMember.updateMany(
+      { channelId, ...(senderId ? { userId: { $ne: senderId } } : {}) },
+      { $inc: { unreadCount: 1 } }
+    );
+
+    // Populate sender and replyTo info
+    const { replyTo } = await message.populate<{
+      replyTo: (Omit<IMessage, "senderId"> & { senderId: IUser | null }) | null;
+    }>([
+      { path: "senderId", select: "name email avatar" },
+      {
+        path: "replyTo",
+        populate: { path: "senderId", select: "name" },
+      },
+    ]);
+
+    const messageData = {
+      id: message._id,
+      content: message.content,
+      contentType: message.contentType,
+      sender: getMessageSender(message),
+      ...(message.bot ? { bot: message.bot } : {}),
+      ...(message.blocks?.length ? { blocks: message.blocks } : {}),
+      replyTo: replyTo
+        ? {
+            id: replyTo._id,
+            content: replyTo.content,
+            sender: replyTo.senderId,
+          }
+        : null,
+      attachments: message.attachments || [],
+      poll: message.poll ? serializePoll(message.poll) : undefined,
+      channelId,
+      createdAt: message.createdAt,
+    };
+
+    try {
+      getIO().to(`channel:${channelId}`).emit("receive-message", messageData);
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+
+    searchHistoryService
+      .notifyMatches(message)
+      .catch((error) =>
+        console.error("Saved search notifications failed:", error)
+      );
+    webhookService.dispatchChannelEvent(
+      organizationId,
+      "message.created",
+      channelId,
+      webhookService.serializeMessage(message)
+    );
+    if (message.contentType !== "SYSTEM") {
+      emailDigestService
+        .queueMessage(message)
+        .catch((error) =>
+          console.error("Email digest queueing failed:", error)
+        );
+      if (senderId) {
+        channelMembershipService
+          .promptMentionedNonMembers({
+            organizationId,
+            channelId,
+            senderId,
+            content: message.content,
+          })
+          .catch((error) =>
+            console.error("Mention invite prompt failed:", error)
+          );
+      }
+      this.notifyMembers(organizationId, channelId, senderId, messageData).catch(
+        (error) => console.error("Message notifications failed:", error)
+      );
+    }
+
+    return { message, messageData };
+  }
+
+  /**
+   * Send each member a `new-message-notification`, deciding whether it should
+   * alert them from their keywords, mentions, channel level, DND and mutes
+   */
+  private async notifyMembers(
+    organizationId: string,
+    channelId: string,
+    senderId: string | undefined,
+    messageData: { content: string } & Record<string, unknown>
+  ): Promise<void> {
+    const content = messageData.content;
+    const members = await ChannelMember.find({ channelId }).populate<{
+      userId: IUser;
+    }>("userId");
+
+    for (const member of members) {
+      // Skip sender
+      if (member.userId._id.toString() === senderId) continue;
+
+      const targetUser = member.userId;
+      const channelSettings = member.notifications;
+      const globalSettings = targetUser.settings?.notifications;
+
+      let shouldAlert = false;
+      let alertReason = "NORMAL";
+
+      // 1. Check Keywords
+      const keywords = globalSettings?.keywords || [];
+      if (keywords.length > 0) {
+        const matchedKeyword = keywords.find(
+          (keyword) =>
+            new RegExp(`\\b${escapeRegExp(keyword)}\\b`, "i").test(content)
+        );
+        if (matchedKeyword) {
+          shouldAlert = true;
+          alertReason = "KEYWORD";
+        }
+      }
+
+      // 2. Check Direct Mentions (@Name)
+      if (!shouldAlert) {
+        const nameRegex = new RegExp(
+          `@${escapeRegExp(targetUser.name)}\\b`,
+          "i"
+        );
+        if (nameRegex.test(content)) {
+          shouldAlert = true;
+          alertReason = "MENTION";
+        }
+      }
+
+      // 3. Check Special Mentions (@channel, @here, @online)
+      if (!shouldAlert && /@(channel|here|online)\b/i.test(content)) {
+        // Determine if special mention applies to this user
+        if (content.toLowerCase().includes("@channel")) {
+          shouldAlert = true;
+          alertReason = "MENTION";
+        } else if (
+          content.toLowerCase().includes("@here") ||
+          content.toLowerCase().includes("@online")
+        ) {
+          // Only alert if user is online
+          const isOnline = await getSocketState().isOnline(
+            organizationId,
+            targetUser._id.toString()
+          );
+          if (isOnline) {
+            shouldAlert = true;
+            alertReason = "MENTION";
+          }
+        }
+      }
+
+      // 4. Check Level-based notifications (ALL/MENTIONS/NONE)
+      if (!shouldAlert && channelSettings?.notifyOn === "ALL") {
+        shouldAlert = true;
+        alertReason = "NORMAL";
+      }
+
+      // 5. Check DND (Do Not Disturb) suppression, but still send the
+      // unread notification
+      if (
+        shouldAlert &&
+        globalSettings?.dnd?.enabled &&
+        isWithinDND(
+          globalSettings.dnd.start,
+          globalSettings.dnd.end,
+          targetUser.profile?.timezone
+        )
+      ) {
+        shouldAlert = false;
+      }
+
+      // 6. Check Mute Override
+      if (
+        shouldAlert &&
+        channelSettings?.muteUntil &&
+        new Date(channelSettings.muteUntil) > new Date()
+      ) {
+        shouldAlert = false;
+      }
+
+      // 7. Check User Global Mute (if messages: false)
+      if (shouldAlert && globalSettings?.messages === false) {
+        shouldAlert = false;
+      }
+
+      // 8. Check Desktop Notification setting
+      if (shouldAlert && globalSettings?.desktop === false) {
+        shouldAlert = false;
+      }
+
+      // Send notification to user specifically
+      try {
+        getIO()
+          .to(`user:${targetUser._id}`)
+          .emit("new-message-notification", {
+            channelId,
+            message: messageData,
+            shouldAlert,
+            alertReason,
+            sound: shouldAlert
+              ? channelSettings?.sound || globalSettings?.soundName || "default"
+              : null,
+          });
+      } catch {
+        // Socket.IO is not initialized when running outside the server
+      }
+    }
+  }
+}
+
+export const messageService = new MessageService();
+export default messageService;
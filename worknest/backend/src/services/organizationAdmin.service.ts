@@ -0,0 +1,440 @@
+import crypto from "crypto";
+import {
+  AuditAction,
+  AuditLog,
+  IOrganization,
+  IUser,
+  Organization,
+  User,
+} from "../models/index.js";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  emailService,
+} from "../utils/index.js";
+
+const TRANSFER_EXPIRY_HOURS =
+  parseInt(process.env.OWNERSHIP_TRANSFER_EXPIRY_HOURS || "", 10) || 24;
+
+const AUDIT_PAGE_SIZE = 50;
+// Admin changes are short; a lock older than this was left by a crash
+const ADMIN_LOCK_MS = 10 * 1000;
+const ADMIN_LOCK_WAIT_MS = 3 * 1000;
+const ADMIN_LOCK_RETRY_MS = 100;
+
+/**
+ * Organization Admin Service
+ * Who runs an organization: its owner, who alone can hand the organization
+ * over to someone else, and its admins. An organization always keeps at
+ * least one active admin.
+ */
+class OrganizationAdminService {
+  /**
+   * The owner of the organization. Organizations created before owners
+   * existed get their earliest active admin.
+   */
+  async resolveOwnerId(organization: IOrganization): Promise<string | null> {
+    if (organization.ownerId) return organization.ownerId.toString();
+
+    const admin = await User.findOne({
+      organizationId: organization._id,
+      role: "ADMIN",
+      status: "ACTIVE",
+    })
+      .sort({ createdAt: 1 })
+      .select("_id");
+    if (!admin) return null;
+
+    organization.ownerId = admin._id;
+    await organization.save();
+    return admin._id.toString();
+  }
+
+  async getOwnerId(organizationId: string): Promise<string | null> {
+    const organization = await this.getOrganization(organizationId);
+    return this.resolveOwnerId(organization);
+  }
+
+  /**
+   * Run `change`, which takes `userId`'s admin rights away, only if someone
+   * else stays an active admin. The count and the change run under a lock on
+   * the organization, so two such changes at once cannot each count the
+   * other as the remaining admin.
+   */
+  async withAdminKept<T>(
+    organizationId: string,
+    userId: string,
+    change: () => Promise<T>
+  ): Promise<T> {
+    const lockedUntil = await this.lockAdminChanges(organizationId);
+    try {
+      const otherAdmins = await User.countDocuments({
+        organizationId,
+        _id: { $ne: userId },
+        role: "ADMIN",
+        status: "ACTIVE",
+      });
+      if (otherAdmins === 0) {
+        throw new BadRequestError(
+          "An organization must keep at least one active admin. Make someone else an admin first."
+        );
+      }
+      return await change();
+    } finally {
+      await Organization.updateOne(
+        { _id: organizationId, adminChangeLockedUntil: lockedUntil },
+        { $set: { adminChangeLockedUntil: null } }
+      );
+    }
+  }
+
+  /**
+   * Throw if `userId` owns the organization, for changes the owner can only
+   * make after transferring ownership
+   */
+  async assertNotOwner(
+    organizationId: string,
+    userId: string,
+    action: string
+  ) {
+    if ((await this.getOwnerId(organizationId)) === userId) {
+      throw new BadRequestError(
+        `The organization owner cannot ${action}. Transfer ownership first.`
+      );
+    }
+  }
+
+  /**
+   * Block `user`, unless they own the organization or are its last active
+   * admin. Other unsaved changes to `user` are saved with it.
+   */
+  async block(organizationId: string, user: IUser): Promise<void> {
+    const userId = user._id.toString();
+    await this.assertNotOwner(organizationId, userId, "be blocked or removed");
+
+    const apply = async () => {
+      user.status = "BLOCKED";
+      await user.save();
+    };
+    if (user.role === "ADMIN") {
+      await this.withAdminKept(organizationId, userId, apply);
+    } else {
+      await apply();
+    }
+  }
+
+  async promote(
+    organizationId: string,
+    actorId: string,
+    userId: string
+  ): Promise<IUser> {
+    const user = await this.getMember(organizationId, userId);
+    if (user.role === "ADMIN") {
+      throw new ConflictError(`${user.name} is already an admin.`);
+    }
+    if (user.status !== "ACTIVE") {
+      throw new BadRequestError("Only active members can be made admins.");
+    }
+
+    user.role = "ADMIN";
+    await user.save();
+    await this.record(organizationId, actorId, "ADMIN_PROMOTED", user._id);
+    return user;
+  }
+
+  async demote(
+    organizationId: string,
+    actorId: string,
+    userId: string
+  ): Promise<IUser> {
+    const user = await this.getMember(organizationId, userId);
+    if (user.role !== "ADMIN") {
+      throw new ConflictError(`${user.name} is not an admin.`);
+    }
+    await this.assertNotOwner(organizationId, userId, "stop being an admin");
+    await this.withAdminKept(organizationId, userId, async () => {
+      user.role = "EMPLOYEE";
+      await user.save();
+    });
+    await this.record(organizationId, actorId, "ADMIN_DEMOTED", user._id);
+    return user;
+  }
+
+  /**
+   * Offer ownership to another active member. It changes hands once they
+   * confirm from the email; a new request replaces a pending one.
+   */
+  async requestTransfer(
+    organizationId: string,
+    actorId: string,
+    userId: string
+  ) {
+    const organization = await this.getOrganization(organizationId);
+    if ((await this.resolveOwnerId(organization)) !== actorId) {
+      throw new ForbiddenError(
+        "Only the organization owner can transfer ownership."
+      );
+    }
+    if (userId === actorId) {
+      throw new BadRequestError("You already own this organization.");
+    }
+
+    const [owner, user] = await Promise.all([
+      this.getMember(organizationId, actorId),
+      this.getMember(organizationId, userId),
+    ]);
+    if (user.status !== "ACTIVE") {
+      throw new BadRequestError(
+        "Ownership can only be transferred to an active member."
+      );
+    }
+
+    const token = crypto.randomBytes(32).toString("hex");
+    const expiresAt = new Date(
+      Date.now() + TRANSFER_EXPIRY_HOURS * 60 * 60 * 1000
+    );
+    organization.ownershipTransfer = {
+      toUserId: user._id,
+      requestedBy: owner._id,
+      tokenHash: this.hash(token),
+      expiresAt,
+    };
+    await organization.save();
+
+    await this.record(
+      organizationId,
+      actorId,
+      "OWNERSHIP_TRANSFER_REQUESTED",
+      user._id,
+      { expiresAt }
+    );
+
+    emailService
+      .sendOwnershipTransferEmail(user.email, {
+        userName: user.name,
+        ownerName: owner.name,
+        orgName: organization.name,
+        subdomain: organization.subdomain,
+        token,
+        expiresAt,
+      })
+      .catch((err) => console.error("Ownership transfer email failed", err));
+
+    return this.serializeTransfer(organization, user);
+  }
+
+  async cancelTransfer(organizationId: string, actorId: string) {
+    const organization = await this.getOrganization(organizationId);
+    if ((await this.resolveOwnerId(organization)) !== actorId) {
+      throw new ForbiddenError(
+        "Only the organization owner can cancel an ownership transfer."
+      );
+    }
+    const transfer = organization.ownershipTransfer;
+    if (!transfer) {
+      throw new NotFoundError("There is no pending ownership transfer.");
+    }
+
+    organization.ownershipTransfer = null;
+    await organization.save();
+    await this.record(
+      organizationId,
+      actorId,
+      "OWNERSHIP_TRANSFER_CANCELLED",
+      transfer.toUserId
+    );
+  }
+
+  /**
+   * Confirm a transfer from its emailed link. Only the member it was offered
+   * to can accept; they become owner and admin, and the previous owner stays
+   * an admin.
+   */
+  async acceptTransfer(organizationId: string, userId: string, token: string) {
+    const organization = await this.getOrganization(organizationId);
+    const transfer = organization.ownershipTransfer;
+    if (!transfer || transfer.tokenHash !== this.hash(token)) {
+      throw new BadRequestError(
+        "This ownership transfer link is invalid or has been cancelled."
+      );
+    }
+    if (transfer.expiresAt < new Date()) {
+      throw new BadRequestError(
+        "This ownership transfer link has expired. Ask the owner to send a new one."
+      );
+    }
+    if (transfer.toUserId.toString() !== userId) {
+      throw new ForbiddenError(
+        "This ownership transfer was offered to someone else."
+      );
+    }
+
+    const user = await this.getMember(organizationId, userId);
+    if (user.status !== "ACTIVE") {
+      throw new BadRequestError(
+        "Ownership can only be transferred to an active member."
+      );
+    }
+
+    const previousOwnerId = await this.resolveOwnerId(organization);
+    organization.ownerId = user._id;
+    organization.ownershipTransfer = null;
+    await organization.save();
+
+    if (user.role !== "ADMIN") {
+      user.role = "ADMIN";
+      await user.save();
+    }
+
+    await this.record(
+      organizationId,
+      userId,
+      "OWNERSHIP_TRANSFERRED",
+      user._id,
+      { previousOwnerId }
+    );
+
+    return { ownerId: user._id.toString() };
+  }
+
+  /**
+   * The owner, and the transfer waiting to be confirmed, if any
+   */
+  async getOwnership(organizationId: string) {
+    const organization = await this.getOrganization(organizationId);
+    const ownerId = await this.resolveOwnerId(organization);
+
+    const transfer = organization.ownershipTransfer;
+    const toUser =
+      transfer && transfer.expiresAt > new Date()
+        ? await User.findById(transfer.toUserId).select("name email avatar")
+        : null;
+
+    return {
+      ownerId,
+      pendingTransfer: toUser
+        ? this.serializeTransfer(organization, toUser)
+        : null,
+    };
+  }
+
+  /**
+   * Admin and ownership changes, newest first. Pass the `createdAt` of the
+   * last entry as `before` for the next page.
+   */
+  async listAuditLog(organizationId: string, before?: Date) {
+    const query: Record<string, unknown> = { organizationId };
+    if (before) query.createdAt = { $lt: before };
+
+    const entries = await AuditLog.find(query)
+      .populate("actorId", "name avatar")
+      .populate("targetUserId", "name avatar")
+      .sort({ createdAt: -1 })
+      .limit(AUDIT_PAGE_SIZE + 1);
+
+    const person = (value: unknown) => {
+      const user = value as IUser | null;
+      return user?.name
+        ? { id: user._id, name: user.name, avatar: user.avatar }
+        : null;
+    };
+
+    return {
+      entries: entries.slice(0, AUDIT_PAGE_SIZE).map((entry) => ({
+        id: entry._id,
+        action: entry.action,
+        actor: person(entry.actorId),
+        target: person(entry.targetUserId),
+        metadata: entry.metadata || {},
+        createdAt: entry.createdAt,
+      })),
+      hasMore: entries.length > AUDIT_PAGE_SIZE,
+    };
+  }
+
+  private serializeTransfer(organization: IOrganization, toUser: IUser) {
+    return {
+      toUser: {
+        id: toUser._id,
+        name: toUser.name,
+        email: toUser.email,
+        avatar: toUser.avatar,
+      },
+      expiresAt: organization.ownershipTransfer?.expiresAt,
+    };
+  }
+
+  private async record(
+    organizationId: string,
+    actorId: string,
+    action: AuditAction,
+    targetUserId: IUser["_id"] | null,
+    metadata: Record<string, unknown> = {}
+  ) {
+    await AuditLog.create({
+      organizationId,
+      actorId,
+      action,
+      targetUserId,
+      metadata,
+    });
+  }
+
+  /**
+   * Take the organization's admin change lock, waiting a moment for one
+   * that is held. A lock left by a crashed request expires by itself.
+   */
+  private async lockAdminChanges(organizationId: string): Promise<Date> {
+    const waitUntil = Date.now() + ADMIN_LOCK_WAIT_MS;
+
+    for (;;) {
+      const now = new Date();
+      const lockedUntil = new Date(now.getTime() + ADMIN_LOCK_MS);
+      const locked = await Organization.findOneAndUpdate(
+        {
+          _id: organizationId,
+          $or: [
+            { adminChangeLockedUntil: null },
+            { adminChangeLockedUntil: { $lt: now } },
+          ],
+        },
+        { $set: { adminChangeLockedUntil: lockedUntil } }
+      );
+      if (locked) return lockedUntil;
+
+      if (Date.now() >= waitUntil) {
+        throw new ConflictError(
+          "Another admin change is in progress. Try again in a moment."
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, ADMIN_LOCK_RETRY_MS));
+    }
+  }
+
+  private async getOrganization(organizationId: string) {
+    const organization = await Organization.findById(organizationId).select(
+      "+ownershipTransfer"
+    );
+    if (!organization) {
+      throw new NotFoundError("Organization not found.");
+    }
+    return organization;
+  }
+
+  private async getMember(organizationId: string, userId: string) {
+    const user = await User.findOne({ _id: userId, organizationId });
+    if (!user) {
+      throw new NotFoundError("User not found.");
+    }
+    return user;
+  }
+
+  private hash(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+}
+
+export const organizationAdminService = new OrganizationAdminService();
+export default organizationAdminService;
@@ -0,0 +1,296 @@
+import mongoose from "mongoose";
+import { getIO } from "../config/socket.js";
+import {
+  ChannelMember,
+  IMessage,
+  Message,
+  serializePoll,
+} from "../models/index.js";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+} from "../utils/index.js";
+import { channelArchiveService } from "./channelArchive.service.js";
+import { messageService } from "./message.service.js";
+
+export const MAX_POLL_OPTIONS = 10;
+const MIN_OPEN_MS = 60 * 1000; // 1 minute
+const MAX_OPEN_MS = 365 * 24 * 60 * 60 * 1000; // 1 year
+
+export interface CreatePollInput {
+  organizationId: string;
+  channelId: string;
+  senderId: string;
+  question: unknown;
+  options: unknown;
+  multipleChoice?: unknown;
+  anonymous?: unknown;
+  closesAt?: unknown;
+}
+
+/**
+ * Poll Service
+ * Polls are POLL messages with their question and votes on the message.
+ * Each vote replaces the voter's previous choice and every change is
+ * broadcast to the channel as `poll-updated`.
+ */
+class PollService {
+  async create(input: CreatePollInput) {
+    const { organizationId, channelId, senderId } = input;
+
+    const question =
+      typeof input.question === "string" ? input.question.trim() : "";
+    if (!question) {
+      throw new BadRequestError("A poll needs a question.");
+    }
+    if (question.length > 300) {
+      throw new BadRequestError("Poll questions cannot exceed 300 characters.");
+    }
+
+    const options = this.parseOptions(input.options);
+    const closesAt = this.parseClosesAt(input.closesAt);
+
+    const membership = await ChannelMember.findOne({
+      channelId,
+      userId: senderId,
+    });
+    if (!membership) {
+      throw new ForbiddenError("You are not a member of this channel.");
+    }
+
+    const { messageData } = await messageService.post({
+      organizationId,
+      channelId,
+      senderId,
+      content: `📊 ${question}`,
+      contentType: "POLL",
+      poll: {
+        question,
+        options: options.map((text) => ({ text })),
+        multipleChoice: input.multipleChoice === true,
+        anonymous: input.anonymous === true,
+        closesAt,
+        closedAt: null,
+      },
+    });
+    return messageData;
+  }
+
+  /**
+   * Set the user's choice on a poll. An empty list takes their vote back.
+   */
+  async vote(
+    organizationId: string,
+    userId: string,
+    messageId: string,
+    optionIds: unknown
+  ) {
+    const message = await this.findPoll(organizationId, messageId);
+
+    // Verify membership
+    const membership = await ChannelMember.findOne({
+      channelId: message.channelId,
+      userId,
+    });
+    if (!membership) {
+      throw new ForbiddenError("You are not a member of this channel.");
+    }
+    await channelArchiveService.assertWritable(message.channelId);
+
+    const poll = message.poll!;
+    if (serializePoll(poll).isClosed) {
+      throw new BadRequestError("This poll is closed.");
+    }
+
+    if (
+      !Array.isArray(optionIds) ||
+      optionIds.some((id) => typeof id !== "string")
+    ) {
+      throw new BadRequestError("Choose the options to vote for.");
+    }
+    const chosen = [...new Set(optionIds as string[])];
+    const known = new Set(poll.options.map((option) => option._id.toString()));
+    if (chosen.some((id) => !known.has(id))) {
+      throw new BadRequestError("That option is not on this poll.");
+    }
+    if (!poll.multipleChoice && chosen.length > 1) {
+      throw new BadRequestError("This poll only allows one choice.");
+    }
+
+    // Two updates rather than a read-modify-write so that concurrent voters
+    // don't overwrite each other's votes
+    const voter = new mongoose.Types.ObjectId(userId);
+    const open = { _id: message._id, "poll.closedAt": null };
+    await Message.updateOne(open, {
+      $pull: { "poll.options.$[].votes": voter },
+    });
+    if (chosen.length > 0) {
+      await Message.updateOne(
+        open,
+        { $addToSet: { "poll.options.$[option].votes": voter } },
+        {
+          arrayFilters: [
+            {
+              "option._id": {
+                $in: chosen.map((id) => new mongoose.Types.ObjectId(id)),
+              },
+            },
+          ],
+        }
+      );
+    }
+
+    const updated = await this.findPoll(organizationId, messageId);
+    this.broadcast(updated, userId);
+    return serializePoll(updated.poll!, userId);
+  }
+
+  /**
+   * Close a poll before its close time. Only its creator or an admin can.
+   */
+  async close(
+    organizationId: string,
+    userId: string,
+    role: string,
+    messageId: string
+  ) {
+    const message = await this.findPoll(organizationId, messageId);
+    if (role !== "ADMIN" && message.senderId?.toString() !== userId) {
+      throw new ForbiddenError("Only the poll's creator can close it.");
+    }
+    await channelArchiveService.assertWritable(message.channelId);
+    if (message.poll!.closedAt) {
+      throw new BadRequestError("This poll is already closed.");
+    }
+
+    message.poll!.closedAt = new Date();
+    await message.save();
+
+    this.broadcast(message, userId);
+    return serializePoll(message.poll!, userId);
+  }
+
+  /**
+   * Close polls whose close time has passed and send their final results
+   */
+  async closeDue(): Promise<number> {
+    const due = await Message.find({
+      contentType: "POLL",
+      isDeleted: false,
+      "poll.closedAt": null,
+      "poll.closesAt": { $lte: new Date() },
+    }).limit(100);
+    let closed = 0;
+
+    for (const message of due) {
+      const claimed = await Message.findOneAndUpdate(
+        { _id: message._id, "poll.closedAt": null },
+        { $set: { "poll.closedAt": message.poll!.closesAt } },
+        { new: true }
+      );
+      if (!claimed) continue;
+
+      this.broadcast(claimed);
+      closed++;
+    }
+
+    return closed;
+  }
+
+  private parseOptions(value: unknown): string[] {
+    if (!Array.isArray(value)) {
+      throw new BadRequestError("A poll needs at least two options.");
+    }
+
+    const options: string[] = [];
+    for (const option of value) {
+      const text = typeof option === "string" ? option.trim() : "";
+      if (!text) continue;
+      if (text.length > 200) {
+        throw new BadRequestError("Poll options cannot exceed 200 characters.");
+      }
+      if (options.some((o) => o.toLowerCase() === text.toLowerCase())) {
+        throw new BadRequestError(`"${text}" is on the poll twice.`);
+      }
+      options.push(text);
+    }
+
+    if (options.length < 2) {
+      throw new BadRequestError("A poll needs at least two options.");
+    }
+    if (options.length > MAX_POLL_OPTIONS) {
+      throw new BadRequestError(
+        `Polls can have at most ${MAX_POLL_OPTIONS} options.`
+      );
+    }
+    return options;
+  }
+
+  private parseClosesAt(value: unknown): Date | null {
+    if (value === undefined || value === null || value === "") return null;
+
+    const closesAt =
+      value instanceof Date
+        ? value
+        : typeof value === "string"
+          ? new Date(value)
+          : null;
+    if (!closesAt || isNaN(closesAt.getTime())) {
+      throw new BadRequestError("The poll's close time is not a valid date.");
+    }
+
+    const aheadMs = closesAt.getTime() - Date.now();
+    if (aheadMs < MIN_OPEN_MS) {
+      throw new BadRequestError("Polls must stay open for at least a minute.");
+    }
+    if (aheadMs > MAX_OPEN_MS) {
+      throw new BadRequestError("Polls can stay open for at most a year.");
+    }
+    return closesAt;
+  }
+
+  private async findPoll(
+    organizationId: string,
+    messageId: string
+  ): Promise<IMessage> {
+    const message = await Message.findOne({
+      _id: messageId,
+      organizationId,
+      contentType: "POLL",
+      isDeleted: false,
+    });
+    if (!message || !message.poll) {
+      throw new NotFoundError("Poll not found.");
+    }
+    return message;
+  }
+
+  // Results to the channel, and to the voter's sessions with their own votes
+  // which anonymous results leave out
+  private broadcast(message: IMessage, voterId?: string): void {
+    const payload = {
+      messageId: message._id,
+      channelId: message.channelId,
+    };
+
+    try {
+      const io = getIO();
+      io.to(`channel:${message.channelId}`).emit("poll-updated", {
+        ...payload,
+        poll: serializePoll(message.poll!),
+      });
+      if (voterId) {
+        io.to(`user:${voterId}`).emit("poll-updated", {
+          ...payload,
+          poll: serializePoll(message.poll!, voterId),
+        });
+      }
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+  }
+}
+
+export const pollService = new PollService();
+export default pollService;
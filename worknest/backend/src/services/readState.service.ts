@@ -0,0 +1,153 @@
+import { getIO } from "../config/socket.js";
+import { ChannelMember, Message, User } from "../models/index.js";
+import { ForbiddenError, NotFoundError } from "../utils/index.js";
+
+export interface ReadCursor {
+  userId: string;
+  lastReadAt: Date;
+}
+
+export interface SeenByEntry {
+  user: {
+    id: string;
+    name: string;
+    avatar?: string;
+  };
+  readAt: Date;
+}
+
+/**
+ * Read State Service
+ * Each member's read position in a channel is a cursor on their membership
+ * (ChannelMember.lastReadAt): every message created up to that time has been
+ * read. "Seen by" for a message is worked out from the cursors when asked,
+ * so marking a channel read is a single write however long it is.
+ */
+class ReadStateService {
+  /**
+   * Move the user's cursor to now and clear their unread count. Returns the
+   * new cursor, or null when the user isn't a member.
+   */
+  async markRead(
+    organizationId: string,
+    channelId: string,
+    userId: string
+  ): Promise<Date | null> {
+    const lastReadAt = new Date();
+    const result = await ChannelMember.updateOne(
+      { channelId, userId, organizationId },
+      { lastReadAt, unreadCount: 0 }
+    );
+    if (result.matchedCount === 0) return null;
+
+    // Members who turned read receipts off still get their unread count
+    // cleared, but nobody else hears about it
+    const hidden = await this.findReceiptsHidden([userId]);
+    if (!hidden.has(userId)) {
+      try {
+        getIO()
+          .to(`channel:${channelId}`)
+          .emit("messages-read", { channelId, userId, lastReadAt });
+      } catch {
+        // Socket.IO is not initialized when running outside the server
+      }
+    }
+
+    return lastReadAt;
+  }
+
+  /**
+   * Read cursors of the channel's members who share read receipts
+   */
+  async getCursors(channelId: string): Promise<ReadCursor[]> {
+    const members = await ChannelMember.find({
+      channelId,
+      lastReadAt: { $ne: null },
+    }).select("userId lastReadAt");
+
+    const hidden = await this.findReceiptsHidden(
+      members.map((member) => member.userId.toString())
+    );
+
+    return members
+      .filter((member) => !hidden.has(member.userId.toString()))
+      .map((member) => ({
+        userId: member.userId.toString(),
+        lastReadAt: member.lastReadAt!,
+      }));
+  }
+
+  /**
+   * Members whose cursor has passed the message, apart from its sender and
+   * anyone who turned read receipts off
+   */
+  async getSeenBy(
+    organizationId: string,
+    messageId: string,
+    viewerId: string
+  ): Promise<SeenByEntry[]> {
+    const message = await Message.findOne({
+      _id: messageId,
+      organizationId,
+      isDeleted: false,
+    }).select("channelId senderId createdAt");
+    if (!message) {
+      throw new NotFoundError("Message not found.");
+    }
+
+    const isMember = await ChannelMember.isMember(
+      message.channelId.toString(),
+      viewerId
+    );
+    if (!isMember) {
+      throw new ForbiddenError("You are not a member of this channel.");
+    }
+
+    const members = await ChannelMember.find({
+      channelId: message.channelId,
+      lastReadAt: { $gte: message.createdAt },
+      ...(message.senderId ? { userId: { $ne: message.senderId } } : {}),
+    })
+      .select("userId lastReadAt")
+      .sort({ lastReadAt: 1 });
+
+    const hidden = await this.findReceiptsHidden(
+      members.map((member) => member.userId.toString())
+    );
+    const visible = members.filter(
+      (member) => !hidden.has(member.userId.toString())
+    );
+
+    const users = await User.find({
+      _id: { $in: visible.map((member) => member.userId) },
+    }).select("name avatar");
+    const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+
+    return visible.flatMap((member) => {
+      const user = usersById.get(member.userId.toString());
+      if (!user) return [];
+      return [
+        {
+          user: {
+            id: user._id.toString(),
+            name: user.name,
+            avatar: user.avatar,
+          },
+          readAt: member.lastReadAt!,
+        },
+      ];
+    });
+  }
+
+  private async findReceiptsHidden(userIds: string[]): Promise<Set<string>> {
+    if (userIds.length === 0) return new Set();
+    const users = await User.find({
+      _id: { $in: userIds },
+      "settings.privacy.readReceipts": false,
+    }).select("_id");
+    return new Set(users.map((user) => user._id.toString()));
+  }
+}
+
+export const readStateService = new ReadStateService();
+export default readStateService;
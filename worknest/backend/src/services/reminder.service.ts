@@ -0,0 +1,355 @@
+import { getIO } from "../config/socket.js";
+import {
+  Channel,
+  ChannelMember,
+  IReminder,
+  IUser,
+  Message,
+  Reminder,
+  User,
+} from "../models/index.js";
+import { EphemeralAction } from "../types/index.js";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  formatZonedTime,
+  isValidTimeZone,
+  isWithinDND,
+  parseNaturalTime,
+} from "../utils/index.js";
+import { ephemeralService } from "./ephemeral.service.js";
+
+const MAX_ACTIVE_PER_USER = 200;
+const MIN_AHEAD_MS = 60 * 1000; // 1 minute
+const MAX_AHEAD_MS = 365 * 24 * 60 * 60 * 1000; // 1 year
+const MESSAGE_EXCERPT_LENGTH = 140;
+
+// Offered on a delivered reminder
+const SNOOZE_OPTIONS: { label: string; when: string }[] = [
+  { label: "In 20 minutes", when: "in 20 minutes" },
+  { label: "In 1 hour", when: "in 1 hour" },
+  { label: "Tomorrow", when: "tomorrow" },
+];
+
+export interface CreateReminderInput {
+  organizationId: string;
+  userId: string;
+  channelId?: string | null;
+  messageId?: string | null;
+  text?: string;
+  remindAt: Date;
+}
+
+/**
+ * Reminder Service
+ * Reminders about free text or a message. Due reminders are delivered by a
+ * background job as an ephemeral message in the channel they were set from
+ * and a notification; they stay on the user's list until completed.
+ */
+class ReminderService {
+  constructor() {
+    ephemeralService.registerAction("reminder-complete", async (context, value) => {
+      await this.complete(context.organizationId, context.userId, String(value.reminderId));
+      return { text: "Reminder marked as complete." };
+    });
+
+    ephemeralService.registerAction("reminder-snooze", async (context, value) => {
+      const reminder = await this.snooze(
+        context.organizationId,
+        context.userId,
+        String(value.reminderId),
+        String(value.when)
+      );
+      const timezone = await this.getTimezone(context.userId);
+      return {
+        text: `Snoozed until ${formatZonedTime(reminder.remindAt, timezone)}.`,
+      };
+    });
+  }
+
+  /**
+   * Resolve "in 2 hours", "tomorrow at 9am" or an ISO time on the user's clock
+   */
+  async resolveTime(userId: string, when: unknown): Promise<Date> {
+    if (typeof when !== "string" || !when.trim()) {
+      throw new BadRequestError("A reminder time is required.");
+    }
+
+    const timezone = await this.getTimezone(userId);
+    const remindAt =
+      parseNaturalTime(when, timezone) ||
+      (/^\d{4}-\d{2}-\d{2}T/.test(when) ? new Date(when) : null);
+    if (!remindAt || isNaN(remindAt.getTime())) {
+      throw new BadRequestError(
+        `"${when}" is not a time, try "in 2 hours", "tomorrow at 9am" or "next Monday".`
+      );
+    }
+    return remindAt;
+  }
+
+  async create(input: CreateReminderInput): Promise<IReminder> {
+    const { organizationId, userId } = input;
+    const text = (input.text || "").trim();
+    let channelId = input.channelId || null;
+
+    if (input.messageId) {
+      const message = await Message.findOne({
+        _id: input.messageId,
+        organizationId,
+      }).select("channelId");
+      if (!message) {
+        throw new NotFoundError("Message not found.");
+      }
+      const isMember = await ChannelMember.isMember(message.channelId.toString(), userId);
+      if (!isMember) {
+        throw new ForbiddenError("You are not a member of this channel.");
+      }
+      channelId = message.channelId.toString();
+    } else if (!text) {
+      throw new BadRequestError("What should the reminder say?");
+    } else if (channelId) {
+      // The reminder is delivered into this channel
+      const channel = await Channel.exists({ _id: channelId, organizationId });
+      if (!channel) {
+        throw new NotFoundError("Channel not found.");
+      }
+      const isMember = await ChannelMember.isMember(channelId, userId);
+      if (!isMember) {
+        throw new ForbiddenError("You are not a member of this channel.");
+      }
+    }
+    if (text.length > 1000) {
+      throw new BadRequestError("Reminders cannot exceed 1000 characters.");
+    }
+
+    this.assertTime(input.remindAt);
+
+    const active = await Reminder.countDocuments({ userId, completedAt: null });
+    if (active >= MAX_ACTIVE_PER_USER) {
+      throw new BadRequestError(
+        `You can have up to ${MAX_ACTIVE_PER_USER} reminders. Complete some first.`
+      );
+    }
+
+    const reminder = await Reminder.create({
+      organizationId,
+      userId,
+      channelId,
+      messageId: input.messageId || null,
+      text,
+      remindAt: input.remindAt,
+    });
+    return this.publish(reminder);
+  }
+
+  /**
+   * The user's reminders that are not completed, soonest first. Delivered
+   * ones stay here until they are completed or snoozed.
+   */
+  async list(organizationId: string, userId: string): Promise<IReminder[]> {
+    return this.findPopulated({ organizationId, userId, completedAt: null });
+  }
+
+  async snooze(
+    organizationId: string,
+    userId: string,
+    id: string,
+    when: unknown
+  ): Promise<IReminder> {
+    const reminder = await this.findOwn(organizationId, userId, id);
+    const remindAt = await this.resolveTime(userId, when);
+    this.assertTime(remindAt);
+
+    reminder.remindAt = remindAt;
+    reminder.deliveredAt = null;
+    await reminder.save();
+    return this.publish(reminder);
+  }
+
+  async complete(organizationId: string, userId: string, id: string): Promise<void> {
+    const reminder = await this.findOwn(organizationId, userId, id);
+    reminder.completedAt = new Date();
+    await reminder.save();
+    this.emit(userId, "reminder-removed", { id: reminder._id });
+  }
+
+  async delete(organizationId: string, userId: string, id: string): Promise<void> {
+    const reminder = await this.findOwn(organizationId, userId, id);
+    await reminder.deleteOne();
+    this.emit(userId, "reminder-removed", { id: reminder._id });
+  }
+
+  /**
+   * Deliver due reminders. Each one is claimed before it is sent so that a
+   * second worker does not deliver it again. Reminders are stored, so those
+   * that came due while the server was down are delivered on the next run.
+   */
+  async deliverDue(): Promise<number> {
+    const due = await Reminder.findDue();
+    let delivered = 0;
+
+    for (const reminder of due) {
+      const claimed = await Reminder.findOneAndUpdate(
+        { _id: reminder._id, deliveredAt: null, completedAt: null },
+        { $set: { deliveredAt: new Date() } },
+        { new: true }
+      );
+      if (!claimed) continue;
+
+      try {
+        await this.deliver(claimed);
+        delivered++;
+      } catch (error) {
+        console.error(`Reminder ${claimed._id} could not be delivered:`, error);
+      }
+    }
+
+    return delivered;
+  }
+
+  private async deliver(reminder: IReminder): Promise<void> {
+    const user = await User.findById(reminder.userId);
+    if (!user || user.status !== "ACTIVE") return;
+
+    const [populated] = await this.findPopulated({ _id: reminder._id });
+    const content = this.describe(populated || reminder, !!reminder.messageId);
+    const userId = user._id.toString();
+    const channelId = reminder.channelId?.toString() || null;
+
+    if (channelId) {
+      const actions: EphemeralAction[] = [
+        {
+          label: "Mark as complete",
+          style: "primary",
+          action: "reminder-complete",
+          value: { reminderId: reminder._id.toString() },
+        },
+        ...SNOOZE_OPTIONS.map((option) => ({
+          label: option.label,
+          action: "reminder-snooze",
+          value: { reminderId: reminder._id.toString(), when: option.when },
+        })),
+      ];
+      // A stable id so a reminder snoozed and delivered again replaces itself
+      ephemeralService.send(
+        reminder.organizationId.toString(),
+        userId,
+        { channelId, text: content, actions },
+        `reminder-${reminder._id}`
+      );
+    }
+
+    const settings = user.settings?.notifications;
+    const isQuiet =
+      settings?.desktop === false ||
+      (!!settings?.dnd?.enabled &&
+        isWithinDND(settings.dnd.start, settings.dnd.end, user.profile?.timezone));
+
+    this.emit(userId, "new-message-notification", {
+      channelId,
+      message: {
+        id: `reminder-${reminder._id}`,
+        channelId,
+        content,
+        contentType: "EPHEMERAL",
+        sender: { id: "worknest", name: "WorkNest", isBot: true },
+        createdAt: new Date(),
+      },
+      shouldAlert: !isQuiet,
+      alertReason: "REMINDER",
+      sound: isQuiet ? null : settings?.soundName || "default",
+    });
+    this.emit(userId, "reminder", populated || reminder);
+  }
+
+  // "Reminder: call Bob" or the excerpt of the message it is about
+  private describe(reminder: IReminder, aboutMessage: boolean): string {
+    if (!aboutMessage) {
+      return `Reminder: ${reminder.text}`;
+    }
+
+    const message = reminder.messageId as unknown as {
+      content?: string;
+      isDeleted?: boolean;
+      senderId?: { name?: string };
+    } | null;
+
+    let about: string;
+    if (!message || typeof message !== "object" || message.isDeleted) {
+      about = "Reminder about a message that has since been deleted.";
+    } else {
+      const content = message.content || "";
+      const excerpt =
+        content.length > MESSAGE_EXCERPT_LENGTH
+          ? `${content.slice(0, MESSAGE_EXCERPT_LENGTH)}…`
+          : content;
+      about = `Reminder about a message from ${message.senderId?.name || "someone"}: "${excerpt}"`;
+    }
+    return reminder.text ? `${about}\n${reminder.text}` : about;
+  }
+
+  private assertTime(remindAt: Date): void {
+    const aheadMs = remindAt.getTime() - Date.now();
+    if (aheadMs < MIN_AHEAD_MS) {
+      throw new BadRequestError("Reminders must be at least a minute away.");
+    }
+    if (aheadMs > MAX_AHEAD_MS) {
+      throw new BadRequestError("Reminders can be at most a year away.");
+    }
+  }
+
+  private async findOwn(
+    organizationId: string,
+    userId: string,
+    id: string
+  ): Promise<IReminder> {
+    const reminder = await Reminder.findOne({
+      _id: id,
+      organizationId,
+      userId,
+      completedAt: null,
+    });
+    if (!reminder) {
+      throw new NotFoundError("Reminder not found.");
+    }
+    return reminder;
+  }
+
+  private async getTimezone(userId: string): Promise<string> {
+    const user = await User.findById(userId).select("profile.timezone");
+    const timezone = (user as IUser | null)?.profile?.timezone;
+    return timezone && isValidTimeZone(timezone) ? timezone : "UTC";
+  }
+
+  // Reminders with the message they are about, its author, and the channel
+  private findPopulated(filter: Record<string, unknown>): Promise<IReminder[]> {
+    return Reminder.find(filter)
+      .sort({ remindAt: 1 })
+      .limit(MAX_ACTIVE_PER_USER)
+      .populate({
+        path: "messageId",
+        select: "content isDeleted senderId",
+        populate: { path: "senderId", select: "name" },
+      })
+      .populate("channelId", "name type");
+  }
+
+  // Tell the user's other sessions about a new or changed reminder
+  private async publish(reminder: IReminder): Promise<IReminder> {
+    const [populated] = await this.findPopulated({ _id: reminder._id });
+    this.emit(reminder.userId.toString(), "reminder-updated", populated || reminder);
+    return populated || reminder;
+  }
+
+  private emit(userId: string, event: string, payload: unknown): void {
+    try {
+      getIO().to(`user:${userId}`).emit(event, payload);
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+  }
+}
+
+export const reminderService = new ReminderService();
+export default reminderService;
@@ -0,0 +1,329 @@
+import mongoose from "mongoose";
+import { getIO } from "../config/socket.js";
+import { Organization, Channel, Message } from "../models/index.js";
+import { RetentionMode } from "../types/index.js";
+import { destroyAttachmentAssets } from "../utils/index.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 500;
+const MAX_REPORTED_ASSETS = 100;
+
+export const DELETED_MESSAGE_CONTENT = "This message has been deleted";
+
+export interface ChannelRetentionReport {
+  channelId: string;
+  name: string;
+  type: string;
+  retentionDays: number;
+  source: "ORGANIZATION" | "CHANNEL";
+  cutoff: Date;
+  messages: number;
+  threadReplies: number;
+  attachments: number;
+  cloudinaryPublicIds: string[];
+}
+
+export interface RetentionReport {
+  organizationId: string;
+  mode: RetentionMode;
+  dryRun: boolean;
+  generatedAt: Date;
+  channels: ChannelRetentionReport[];
+  totals: {
+    messages: number;
+    threadReplies: number;
+    attachments: number;
+  };
+}
+
+interface ExpiredMessage {
+  _id: mongoose.Types.ObjectId;
+  parentMessageId?: mongoose.Types.ObjectId | null;
+  lastThreadReplyAt?: Date | null;
+  attachments?: { type: string; public_id?: string }[];
+}
+
+/**
+ * Retention Service
+ * Enforces Organization.settings.channelPolicies.messageRetentionDays and
+ * per-channel retentionDays overrides by soft- or hard-deleting old messages
+ */
+class RetentionService {
+  /**
+   * Build a report of what would be purged for an organization (no writes)
+   */
+  async buildReport(organizationId: string): Promise<RetentionReport> {
+    return this.process(organizationId, true);
+  }
+
+  /**
+   * Purge expired messages for an organization and return what was removed
+   */
+  async purgeOrganization(organizationId: string): Promise<RetentionReport> {
+    return this.process(organizationId, false);
+  }
+
+  /**
+   * Purge every organization that has a retention window configured,
+   * either organization-wide or on at least one channel
+   */
+  async runAll(): Promise<RetentionReport[]> {
+    const [orgIds, channelOrgIds] = await Promise.all([
+      Organization.distinct("_id", {
+        status: "ACTIVE",
+        "settings.channelPolicies.messageRetentionDays": { $gt: 0 },
+      }),
+      Channel.distinct("organizationId", { retentionDays: { $gt: 0 } }),
+    ]);
+
+    const organizationIds = new Set(
+      [...orgIds, ...channelOrgIds].map((id) => id.toString())
+    );
+
+    const reports: RetentionReport[] = [];
+    for (const organizationId of organizationIds) {
+      try {
+        reports.push(await this.purgeOrganization(organizationId));
+      } catch (error) {
+        console.error(
+          `Retention purge failed for organization ${organizationId}:`,
+          error
+        );
+      }
+    }
+
+    return reports;
+  }
+
+  private async process(
+    organizationId: string,
+    dryRun: boolean
+  ): Promise<RetentionReport> {
+    const organization = await Organization.findById(organizationId);
+    const orgDays =
+      organization?.settings?.channelPolicies?.messageRetentionDays || 0;
+    const mode = organization?.settings?.channelPolicies?.retentionMode || "SOFT";
+
+    const channels = await Channel.find({ organizationId }).select(
+      "name type retentionDays"
+    );
+
+    const report: RetentionReport = {
+      organizationId,
+      mode,
+      dryRun,
+      generatedAt: new Date(),
+      channels: [],
+      totals: { messages: 0, threadReplies: 0, attachments: 0 },
+    };
+
+    for (const channel of channels) {
+      const hasOverride =
+        channel.retentionDays !== null && channel.retentionDays !== undefined;
+      const retentionDays = hasOverride ? channel.retentionDays! : orgDays;
+
+      // 0 = keep forever
+      if (!retentionDays || retentionDays <= 0) continue;
+
+      const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+      const channelReport = dryRun
+        ? await this.inspectChannel(channel._id, cutoff, mode)
+        : await this.purgeChannel(channel._id, cutoff, mode);
+
+      if (channelReport.messages + channelReport.threadReplies === 0) continue;
+
+      report.channels.push({
+        channelId: channel._id.toString(),
+        name: channel.name,
+        type: channel.type,
+        retentionDays,
+        source: hasOverride ? "CHANNEL" : "ORGANIZATION",
+        cutoff,
+        ...channelReport,
+      });
+      report.totals.messages += channelReport.messages;
+      report.totals.threadReplies += channelReport.threadReplies;
+      report.totals.attachments += channelReport.attachments;
+    }
+
+    return report;
+  }
+
+  /**
+   * Soft mode only touches messages that are still visible; hard mode also
+   * removes tombstones left behind by earlier soft deletes, except parents
+   * kept as tombstones while their thread is active, which would only be
+   * kept (and counted) again
+   */
+  private expiredQuery(
+    channelId: mongoose.Types.ObjectId,
+    cutoff: Date,
+    mode: RetentionMode
+  ): Record<string, unknown> {
+    return {
+      channelId,
+      createdAt: { $lt: cutoff },
+      ...(mode === "SOFT"
+        ? { isDeleted: false }
+        : {
+            $nor: [
+              {
+                isDeleted: true,
+                parentMessageId: null,
+                lastThreadReplyAt: { $gte: cutoff },
+              },
+            ],
+          }),
+    };
+  }
+
+  private async inspectChannel(
+    channelId: mongoose.Types.ObjectId,
+    cutoff: Date,
+    mode: RetentionMode
+  ) {
+    const summary = {
+      messages: 0,
+      threadReplies: 0,
+      attachments: 0,
+      cloudinaryPublicIds: [] as string[],
+    };
+
+    const cursor = Message.find(this.expiredQuery(channelId, cutoff, mode))
+      .select("parentMessageId attachments")
+      .lean<ExpiredMessage[]>()
+      .cursor();
+
+    for await (const message of cursor) {
+      this.tally(summary, message);
+    }
+
+    return summary;
+  }
+
+  private async purgeChannel(
+    channelId: mongoose.Types.ObjectId,
+    cutoff: Date,
+    mode: RetentionMode
+  ) {
+    const summary = {
+      messages: 0,
+      threadReplies: 0,
+      attachments: 0,
+      cloudinaryPublicIds: [] as string[],
+    };
+    const query = this.expiredQuery(channelId, cutoff, mode);
+    let lastId: mongoose.Types.ObjectId | null = null;
+
+    // Walk the expired set in _id order so soft-deleted tombstones that still
+    // match the query in HARD mode are not visited twice
+    while (true) {
+      const batch: ExpiredMessage[] = await Message.find({
+        ...query,
+        ...(lastId ? { _id: { $gt: lastId } } : {}),
+      })
+        .sort({ _id: 1 })
+        .limit(BATCH_SIZE)
+        .select("parentMessageId lastThreadReplyAt attachments")
+        .lean<ExpiredMessage[]>();
+
+      if (batch.length === 0) break;
+      lastId = batch[batch.length - 1]._id;
+
+      for (const message of batch) {
+        this.tally(summary, message);
+      }
+
+      await destroyAttachmentAssets(
+        batch.flatMap((message) => message.attachments || [])
+      );
+
+      if (mode === "HARD") {
+        // A parent whose thread is still receiving replies inside the window
+        // is kept as a tombstone so the newer replies are not orphaned
+        const tombstoneIds = batch
+          .filter(
+            (m) =>
+              !m.parentMessageId &&
+              m.lastThreadReplyAt &&
+              m.lastThreadReplyAt >= cutoff
+          )
+          .map((m) => m._id);
+        const tombstoneSet = new Set(tombstoneIds.map((id) => id.toString()));
+        const deleteIds = batch
+          .map((m) => m._id)
+          .filter((id) => !tombstoneSet.has(id.toString()));
+
+        await Message.deleteMany({ _id: { $in: deleteIds } });
+        if (tombstoneIds.length > 0) {
+          await this.softDelete(tombstoneIds);
+        }
+      } else {
+        await this.softDelete(batch.map((m) => m._id));
+      }
+
+      if (batch.length < BATCH_SIZE) break;
+    }
+
+    if (summary.messages + summary.threadReplies > 0) {
+      try {
+        getIO().to(`channel:${channelId}`).emit("messages-purged", {
+          channelId,
+          before: cutoff,
+          mode,
+        });
+      } catch {
+        // Socket.IO is not initialized when running outside the server
+      }
+    }
+
+    return summary;
+  }
+
+  private async softDelete(ids: mongoose.Types.ObjectId[]): Promise<void> {
+    await Message.updateMany(
+      { _id: { $in: ids } },
+      {
+        $set: {
+          isDeleted: true,
+          deletedAt: new Date(),
+          content: DELETED_MESSAGE_CONTENT,
+          attachments: [],
+          reactions: {},
+          isPinned: false,
+          pinnedAt: null,
+          pinnedBy: null,
+        },
+      }
+    );
+  }
+
+  private tally(
+    summary: {
+      messages: number;
+      threadReplies: number;
+      attachments: number;
+      cloudinaryPublicIds: string[];
+    },
+    message: ExpiredMessage
+  ): void {
+    if (message.parentMessageId) {
+      summary.threadReplies += 1;
+    } else {
+      summary.messages += 1;
+    }
+
+    for (const attachment of message.attachments || []) {
+      summary.attachments += 1;
+      if (
+        attachment.public_id &&
+        summary.cloudinaryPublicIds.length < MAX_REPORTED_ASSETS
+      ) {
+        summary.cloudinaryPublicIds.push(attachment.public_id);
+      }
+    }
+  }
+}
+
+export const retentionService = new RetentionService();
+export default retentionService;
@@ -0,0 +1,351 @@
+import { getIO } from "../config/socket.js";
+import {
+  Channel,
+  ChannelMember,
+  IScheduledMessage,
+  ScheduledMessage,
+  User,
+} from "../models/index.js";
+import {
+  BadRequestError,
+  ForbiddenError,
+  NotFoundError,
+  isValidTimeZone,
+  zonedTimeToDate,
+} from "../utils/index.js";
+import { ARCHIVED_CHANNEL_MESSAGE } from "./channelArchive.service.js";
+import { ephemeralService } from "./ephemeral.service.js";
+import { messageService } from "./message.service.js";
+
+const MAX_PENDING_PER_USER = 100;
+const MAX_SCHEDULE_AHEAD_MS = 120 * 24 * 60 * 60 * 1000; // 120 days
+const MAX_CONTENT_LENGTH = 4000;
+// A message still SENDING this long after it was claimed belongs to a worker
+// that was interrupted, e.g. by a restart, and is sent again
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+export interface ScheduleMessageInput {
+  organizationId: string;
+  channelId: string;
+  senderId: string;
+  content: string;
+  // "YYYY-MM-DDTHH:mm" in `timezone`, or an ISO time with an offset
+  sendAt: string;
+  // Defaults to the sender's profile.timezone
+  timezone?: string;
+}
+
+/**
+ * Scheduled Message Service
+ * Messages written now and sent later ("send later"). When due, they are
+ * posted through messageService.post like any other message, so unread
+ * counts, notifications and integrations behave the same.
+ */
+class ScheduledMessageService {
+  async schedule(input: ScheduleMessageInput): Promise<IScheduledMessage> {
+    const { organizationId, channelId, senderId } = input;
+    const content = this.normalizeContent(input.content);
+
+    const isMember = await ChannelMember.isMember(channelId, senderId);
+    if (!isMember) {
+      throw new ForbiddenError("You are not a member of this channel.");
+    }
+
+    const pending = await ScheduledMessage.countDocuments({
+      senderId,
+      status: "PENDING",
+    });
+    if (pending >= MAX_PENDING_PER_USER) {
+      throw new BadRequestError(
+        `You can have up to ${MAX_PENDING_PER_USER} scheduled messages.`
+      );
+    }
+
+    const timezone = await this.resolveTimezone(senderId, input.timezone);
+    const scheduled = await ScheduledMessage.create({
+      organizationId,
+      channelId,
+      senderId,
+      content,
+      scheduledAt: this.resolveSendAt(input.sendAt, timezone),
+      timezone,
+    });
+    return scheduled.populate("channelId", "name type");
+  }
+
+  /**
+   * The user's pending and failed scheduled messages, soonest first
+   */
+  async list(
+    organizationId: string,
+    senderId: string,
+    channelId?: string
+  ): Promise<IScheduledMessage[]> {
+    return ScheduledMessage.find({
+      organizationId,
+      senderId,
+      status: { $in: ["PENDING", "FAILED"] },
+      ...(channelId ? { channelId } : {}),
+    })
+      .sort({ scheduledAt: 1 })
+      .populate("channelId", "name type");
+  }
+
+  /**
+   * Change the text or send time of a pending message. Rescheduling a failed
+   * one puts it back in the queue.
+   */
+  async update(
+    organizationId: string,
+    senderId: string,
+    id: string,
+    changes: { content?: string; sendAt?: string; timezone?: string }
+  ): Promise<IScheduledMessage> {
+    const scheduled = await this.findOwn(organizationId, senderId, id);
+
+    if (changes.content !== undefined) {
+      scheduled.content = this.normalizeContent(changes.content);
+    }
+
+    if (changes.sendAt !== undefined || changes.timezone !== undefined) {
+      const timezone = await this.resolveTimezone(
+        senderId,
+        changes.timezone ?? scheduled.timezone
+      );
+      scheduled.scheduledAt = changes.sendAt
+        ? this.resolveSendAt(changes.sendAt, timezone)
+        : this.assertSendAt(scheduled.scheduledAt);
+      scheduled.timezone = timezone;
+      scheduled.status = "PENDING";
+      scheduled.failureReason = null;
+    }
+
+    await scheduled.save();
+    return scheduled.populate("channelId", "name type");
+  }
+
+  async cancel(
+    organizationId: string,
+    senderId: string,
+    id: string
+  ): Promise<void> {
+    const scheduled = await this.findOwn(organizationId, senderId, id);
+    await scheduled.deleteOne();
+  }
+
+  /**
+   * Send messages that are due. Each one is claimed before it is sent so
+   * that a second worker does not send it again.
+   */
+  async sendDue(): Promise<number> {
+    const staleBefore = new Date(Date.now() - STALE_CLAIM_MS);
+    // Posted, or interrupted while posting; either way never posted again
+    await ScheduledMessage.deleteMany({
+      status: "SENT",
+      claimedAt: { $lt: staleBefore },
+    });
+    await ScheduledMessage.updateMany(
+      {
+        status: "SENDING",
+        // Claims made before claimedAt was recorded have none
+        $or: [
+          { claimedAt: { $lt: staleBefore } },
+          { claimedAt: null },
+        ],
+      },
+      { $set: { status: "PENDING", claimedAt: null } }
+    );
+
+    const due = await ScheduledMessage.findDue();
+    let sent = 0;
+
+    for (const { _id } of due) {
+      const claimed = await ScheduledMessage.findOneAndUpdate(
+        { _id, status: "PENDING" },
+        { $set: { status: "SENDING", claimedAt: new Date() } },
+        { new: true }
+      );
+      if (!claimed) continue;
+
+      try {
+        if (await this.send(claimed)) sent++;
+      } catch (error) {
+        console.error(`Scheduled message ${claimed._id} failed:`, error);
+        await this.fail(claimed, "The message could not be sent.");
+      }
+    }
+
+    return sent;
+  }
+
+  private async send(scheduled: IScheduledMessage): Promise<boolean> {
+    const channelId = scheduled.channelId.toString();
+    const senderId = scheduled.senderId.toString();
+
+    const [isMember, sender] = await Promise.all([
+      ChannelMember.isMember(channelId, senderId),
+      User.findById(senderId).select("status"),
+    ]);
+    if (!sender || sender.status !== "ACTIVE") {
+      await scheduled.deleteOne();
+      return false;
+    }
+    if (!isMember) {
+      await this.fail(
+        scheduled,
+        "You are no longer a member of this channel."
+      );
+      return false;
+    }
+    if (await Channel.isArchived(channelId)) {
+      await this.fail(scheduled, ARCHIVED_CHANNEL_MESSAGE);
+      return false;
+    }
+
+    // Marked before posting: a worker that stops after the post, or a
+    // failure cleaning up, must not lead to the message being posted again
+    const marked = await ScheduledMessage.updateOne(
+      { _id: scheduled._id, status: "SENDING", claimedAt: scheduled.claimedAt },
+      { $set: { status: "SENT" } }
+    );
+    if (marked.modifiedCount === 0) return false;
+
+    const posted = await messageService
+      .post({
+        organizationId: scheduled.organizationId.toString(),
+        channelId,
+        senderId,
+        content: scheduled.content,
+      })
+      .catch(async (error) => {
+        console.error(`Scheduled message ${scheduled._id} failed:`, error);
+        await this.fail(scheduled, "The message could not be sent.");
+        return null;
+      });
+    if (!posted) return false;
+
+    try {
+      await scheduled.deleteOne();
+    } catch (error) {
+      // Left as SENT, which sendDue cleans up later
+      console.error(
+        `Sent scheduled message ${scheduled._id} was not removed:`,
+        error
+      );
+    }
+    this.emit(senderId, "scheduled-message-sent", {
+      id: scheduled._id,
+      channelId,
+      messageId: posted.message._id,
+    });
+    return true;
+  }
+
+  private async fail(
+    scheduled: IScheduledMessage,
+    reason: string
+  ): Promise<void> {
+    scheduled.status = "FAILED";
+    scheduled.failureReason = reason;
+    await scheduled.save();
+
+    const senderId = scheduled.senderId.toString();
+    const channelId = scheduled.channelId.toString();
+    this.emit(senderId, "scheduled-message-failed", {
+      id: scheduled._id,
+      channelId,
+      reason,
+    });
+    ephemeralService.send(scheduled.organizationId.toString(), senderId, {
+      channelId,
+      text: `Your scheduled message wasn't sent. ${reason}`,
+    });
+  }
+
+  private async findOwn(
+    organizationId: string,
+    senderId: string,
+    id: string
+  ): Promise<IScheduledMessage> {
+    const scheduled = await ScheduledMessage.findOne({
+      _id: id,
+      organizationId,
+      senderId,
+      status: { $in: ["PENDING", "FAILED"] },
+    });
+    if (!scheduled) {
+      throw new NotFoundError("Scheduled message not found.");
+    }
+    return scheduled;
+  }
+
+  private normalizeContent(content: unknown): string {
+    if (typeof content !== "string" || content.trim().length === 0) {
+      throw new BadRequestError("Message content is required.");
+    }
+    if (content.trim().length > MAX_CONTENT_LENGTH) {
+      throw new BadRequestError(
+        `Message cannot exceed ${MAX_CONTENT_LENGTH} characters.`
+      );
+    }
+    return content.trim();
+  }
+
+  private async resolveTimezone(
+    userId: string,
+    timezone?: unknown
+  ): Promise<string> {
+    if (timezone !== undefined && timezone !== null && timezone !== "") {
+      if (typeof timezone !== "string" || !isValidTimeZone(timezone)) {
+        throw new BadRequestError("Unknown timezone.");
+      }
+      return timezone;
+    }
+
+    const user = await User.findById(userId).select("profile.timezone");
+    const profileTimezone = user?.profile?.timezone;
+    return profileTimezone && isValidTimeZone(profileTimezone)
+      ? profileTimezone
+      : "UTC";
+  }
+
+  private resolveSendAt(sendAt: unknown, timezone: string): Date {
+    if (typeof sendAt !== "string") {
+      throw new BadRequestError("A send time is required.");
+    }
+
+    // Times with an explicit offset ("Z", "+05:30") are taken as they are
+    const scheduledAt = /(Z|[+-]\d{2}:?\d{2})$/i.test(sendAt.trim())
+      ? new Date(sendAt)
+      : zonedTimeToDate(sendAt, timezone);
+    if (!scheduledAt || isNaN(scheduledAt.getTime())) {
+      throw new BadRequestError("Invalid send time.");
+    }
+
+    return this.assertSendAt(scheduledAt);
+  }
+
+  private assertSendAt(scheduledAt: Date): Date {
+    const aheadMs = scheduledAt.getTime() - Date.now();
+    if (aheadMs <= 0) {
+      throw new BadRequestError("The send time must be in the future.");
+    }
+    if (aheadMs > MAX_SCHEDULE_AHEAD_MS) {
+      throw new BadRequestError(
+        "Messages can be scheduled up to 120 days ahead."
+      );
+    }
+    return scheduledAt;
+  }
+
+  private emit(userId: string, event: string, payload: object): void {
+    try {
+      getIO().to(`user:${userId}`).emit(event, payload);
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+  }
+}
+
+export const scheduledMessageService = new ScheduledMessageService();
+export default scheduledMessageService;
@@ -0,0 +1,835 @@
+import mongoose, { Model, PipelineStage } from "mongoose";
+import {
+  Message,
+  Channel,
+  ChannelMember,
+  User,
+  WikiPage,
+  Task,
+  getMessageSender,
+} from "../models/index.js";
+import {
+  parseSearchQuery,
+  hasSearchOperators,
+  ParsedSearchQuery,
+} from "../utils/searchQuery.js";
+import {
+  ParsedSearchText,
+  ResolvedSearch,
+  SearchFilters,
+  SearchType,
+} from "../types/index.js";
+
+export type { ParsedSearchText, ResolvedSearch, SearchFilters, SearchType };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Final score = relevance * (1 + RECENCY_WEIGHT / (1 + age / RECENCY_HALF_LIFE))
+// so a message from today counts double and a year-old one barely gets a boost
+const RECENCY_WEIGHT = 1;
+const RECENCY_HALF_LIFE_DAYS = 30;
+const SNIPPET_RADIUS = 80;
+const ALL_TYPES_LIMIT = 5;
+
+export const SEARCH_TYPES: SearchType[] = [
+  "all",
+  "messages",
+  "threads",
+  "files",
+  "wiki",
+  "tasks",
+];
+
+export interface SearchOptions {
+  organizationId: string;
+  userId: string;
+  text: string;
+  type: SearchType;
+  filters: SearchFilters;
+  page: number;
+  limit: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: [number, number][];
+}
+
+export type SearchFacets = Record<Exclude<SearchType, "all">, number>;
+
+interface TypeQuery {
+  model: Model<any>;
+  match: Record<string, unknown>;
+  dateField: "createdAt" | "updatedAt";
+}
+
+/**
+ * Search Service
+ * Full-text search over messages, thread replies, files, wiki pages and tasks
+ * using the Mongo text indexes declared on each model. Quoted phrases map to
+ * $text phrases, `word*` is a prefix match and hits are ranked by text score
+ * with a recency boost. Operators (from:, in:, has:, is:, before:, after:, on:)
+ * are parsed by utils/searchQuery.ts and resolved here.
+ */
+class SearchService {
+  /**
+   * Split raw search text into plain terms, "quoted phrases" and prefix* terms
+   */
+  parseText(text: string): ParsedSearchText {
+    const parsed: ParsedSearchText = { terms: [], phrases: [], prefixes: [] };
+    const tokenPattern = /"([^"]+)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tokenPattern.exec(text)) !== null) {
+      if (match[1]) {
+        const phrase = match[1].trim().toLowerCase();
+        if (phrase) parsed.phrases.push(phrase);
+        continue;
+      }
+
+      const word = match[2].toLowerCase().replace(/["]/g, "");
+      if (word.endsWith("*")) {
+        const prefix = word.replace(/\*+$/, "");
+        if (prefix.length >= 2) parsed.prefixes.push(prefix);
+      } else if (word) {
+        parsed.terms.push(word);
+      }
+    }
+
+    return parsed;
+  }
+
+  isEmpty(parsed: ParsedSearchText): boolean {
+    return (
+      parsed.terms.length === 0 &&
+      parsed.phrases.length === 0 &&
+      parsed.prefixes.length === 0
+    );
+  }
+
+  /**
+   * Turn parsed operators into filters, merged with the explicit ones.
+   * Returns null when an operator cannot match anything (unknown person or
+   * channel, empty date range), so the search can short-circuit.
+   */
+  async resolveFilters(
+    organizationId: string,
+    userId: string,
+    query: ParsedSearchQuery,
+    explicit: SearchFilters
+  ): Promise<SearchFilters | null> {
+    const filters: SearchFilters = { ...explicit };
+
+    if (query.from.length > 0) {
+      const senderIds: string[] = [];
+      for (const handle of query.from) {
+        const id =
+          handle === "me"
+            ? userId
+            : await this.resolveUserHandle(organizationId, handle);
+        if (!id) return null;
+        senderIds.push(id);
+      }
+      filters.senderIds = this.intersect(explicit.senderIds, senderIds);
+      if (filters.senderIds.length === 0) return null;
+    }
+
+    if (query.in.length > 0) {
+      const channelIds: string[] = [];
+      for (const name of query.in) {
+        const ids = await this.resolveChannelName(organizationId, userId, name);
+        if (ids.length === 0) return null;
+        channelIds.push(...ids);
+      }
+      filters.channelIds = this.intersect(explicit.channelIds, channelIds);
+      if (filters.channelIds.length === 0) return null;
+    }
+
+    const DAY_END_MS = DAY_MS - 1;
+    const starts = [
+      explicit.startDate,
+      query.after && new Date(query.after.getTime() + DAY_MS),
+      query.on,
+    ].filter((d): d is Date => !!d);
+    const ends = [
+      explicit.endDate,
+      query.before && new Date(query.before.getTime() - 1),
+      query.on && new Date(query.on.getTime() + DAY_END_MS),
+    ].filter((d): d is Date => !!d);
+
+    if (starts.length > 0) {
+      filters.startDate = new Date(Math.max(...starts.map((d) => d.getTime())));
+    }
+    if (ends.length > 0) {
+      filters.endDate = new Date(Math.min(...ends.map((d) => d.getTime())));
+    }
+    if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+      return null;
+    }
+
+    if (query.has.includes("file")) filters.hasFile = true;
+    if (query.has.includes("link")) filters.hasLink = true;
+    if (query.has.includes("reaction")) filters.hasReaction = true;
+    if (query.is.includes("pinned")) filters.isPinned = true;
+    if (query.is.includes("thread")) filters.isThread = true;
+
+    return filters;
+  }
+
+  /**
+   * Match a lowercase handle against email local parts, then full names with
+   * spaces removed, then first names. Also used to resolve @mentions in
+   * slash commands.
+   */
+  async resolveUserHandle(
+    organizationId: string,
+    handle: string
+  ): Promise<string | null> {
+    const users = await User.find({ organizationId }).select("name email");
+    const compact = handle.replace(/[\s._-]/g, "");
+
+    const match =
+      users.find((u) => u.email.split("@")[0].toLowerCase() === handle) ||
+      users.find((u) => u.email.toLowerCase() === handle) ||
+      users.find(
+        (u) => u.name.toLowerCase().replace(/[\s._-]/g, "") === compact
+      ) ||
+      users.find((u) => u.name.toLowerCase().split(/\s+/)[0] === handle);
+
+    return match ? match._id.toString() : null;
+  }
+
+  /**
+   * Resolve in:#channel (by name) or in:@person (the DM with that person)
+   * among the channels the user belongs to
+   */
+  private async resolveChannelName(
+    organizationId: string,
+    userId: string,
+    name: string
+  ): Promise<string[]> {
+    const accessible = await this.getSearchableChannelIds(organizationId, userId);
+
+    if (name.startsWith("@")) {
+      const otherId = await this.resolveUserHandle(organizationId, name.slice(1));
+      if (!otherId) return [];
+
+      const dms = await Channel.find({
+        _id: { $in: accessible },
+        type: "DM",
+      }).select("_id");
+      const shared = await ChannelMember.find({
+        channelId: { $in: dms.map((c) => c._id) },
+        userId: otherId,
+      }).select("channelId");
+      return shared.map((m) => m.channelId.toString());
+    }
+
+    const channelName = name.replace(/^#/, "");
+    const channels = await Channel.find({
+      _id: { $in: accessible },
+      type: { $ne: "DM" },
+      name: { $regex: `^${this.escape(channelName)}$`, $options: "i" },
+    }).select("_id");
+    return channels.map((c) => c._id.toString());
+  }
+
+  private intersect(current: string[] | undefined, next: string[]): string[] {
+    if (!current || current.length === 0) return [...new Set(next)];
+    const allowed = new Set(current);
+    return [...new Set(next)].filter((id) => allowed.has(id));
+  }
+
+  /**
+   * Channel IDs the user can search, optionally narrowed to the requested ones
+   */
+  async getSearchableChannelIds(
+    organizationId: string,
+    userId: string,
+    requested?: string[]
+  ): Promise<mongoose.Types.ObjectId[]> {
+    const memberships = await ChannelMember.find({
+      userId,
+      organizationId,
+    }).select("channelId");
+
+    const channelIds = memberships.map((m) => m.channelId);
+    if (!requested || requested.length === 0) return channelIds;
+
+    const wanted = new Set(requested);
+    return channelIds.filter((id) => wanted.has(id.toString()));
+  }
+
+  async search(options: SearchOptions) {
+    const { organizationId, userId, type } = options;
+    const query = parseSearchQuery(options.text);
+    const parsed = this.parseText(query.text);
+    const filters = await this.resolveFilters(
+      organizationId,
+      userId,
+      query,
+      options.filters
+    );
+    const channelIds = filters
+      ? await this.getSearchableChannelIds(
+          organizationId,
+          userId,
+          filters.channelIds
+        )
+      : [];
+
+    const emptyFacets: SearchFacets = {
+      messages: 0,
+      threads: 0,
+      files: 0,
+      wiki: 0,
+      tasks: 0,
+    };
+
+    if (
+      !filters ||
+      channelIds.length === 0 ||
+      (this.isEmpty(parsed) && !hasSearchOperators(query))
+    ) {
+      return {
+        query: options.text,
+        ignoredOperators: query.invalid,
+        results: {
+          messages: [],
+          threads: [],
+          files: [],
+          wiki: [],
+          tasks: [],
+        },
+        facets: emptyFacets,
+        total: 0,
+        page: options.page,
+        totalPages: 0,
+      };
+    }
+
+    const queries = this.buildQueries(organizationId, channelIds, parsed, filters);
+    const hasText = parsed.terms.length > 0 || parsed.phrases.length > 0;
+    const highlighter = this.buildHighlighter(parsed);
+
+    const limitFor = (t: Exclude<SearchType, "all">) =>
+      type === "all" ? ALL_TYPES_LIMIT : type === t ? options.limit : 0;
+    const skip = type === "all" ? 0 : (options.page - 1) * options.limit;
+
+    const types = Object.keys(queries) as Exclude<SearchType, "all">[];
+    const [counts, ranked] = await Promise.all([
+      Promise.all(
+        types.map((t) => queries[t]!.model.countDocuments(queries[t]!.match))
+      ),
+      Promise.all(
+        types.map((t) =>
+          limitFor(t) > 0
+            ? this.rank(queries[t]!, hasText, skip, limitFor(t))
+            : Promise.resolve([])
+        )
+      ),
+    ]);
+
+    const facets = { ...emptyFacets };
+    const hits: Record<Exclude<SearchType, "all">, any[]> = {
+      messages: [],
+      threads: [],
+      files: [],
+      wiki: [],
+      tasks: [],
+    };
+    types.forEach((t, i) => {
+      facets[t] = counts[i];
+      hits[t] = ranked[i];
+    });
+
+    const [messages, threads, files, wiki, tasks] = await Promise.all([
+      this.formatMessages(hits.messages, highlighter),
+      this.formatMessages(hits.threads, highlighter),
+      this.formatFiles(hits.files, highlighter),
+      this.formatWikiPages(hits.wiki, highlighter),
+      this.formatTasks(hits.tasks, highlighter),
+    ]);
+
+    const total =
+      type === "all"
+        ? Object.values(facets).reduce((sum, n) => sum + n, 0)
+        : facets[type];
+
+    return {
+      query: options.text,
+      ignoredOperators: query.invalid,
+      results: { messages, threads, files, wiki, tasks },
+      facets,
+      total,
+      page: options.page,
+      totalPages: Math.ceil(
+        total / (type === "all" ? ALL_TYPES_LIMIT : options.limit)
+      ),
+    };
+  }
+
+  /**
+   * Parse a query and resolve its operators as the given user would run it.
+   * Returns null when there is nothing to search for or an operator can never
+   * match.
+   */
+  async resolveSearch(
+    organizationId: string,
+    userId: string,
+    text: string,
+    explicit: SearchFilters
+  ): Promise<ResolvedSearch | null> {
+    const query = parseSearchQuery(text);
+    const parsed = this.parseText(query.text);
+    if (this.isEmpty(parsed) && !hasSearchOperators(query)) return null;
+
+    const filters = await this.resolveFilters(
+      organizationId,
+      userId,
+      query,
+      explicit
+    );
+    return filters ? { text: parsed, filters } : null;
+  }
+
+  /**
+   * Whether a single message matches a resolved search as the given user
+   * would run it. Used to evaluate saved searches against newly posted
+   * messages.
+   */
+  async matchesMessage(
+    options: Pick<SearchOptions, "organizationId" | "userId" | "type"> & {
+      search: ResolvedSearch;
+    },
+    messageId: string
+  ): Promise<boolean> {
+    const { text, filters } = options.search;
+
+    const channelIds = await this.getSearchableChannelIds(
+      options.organizationId,
+      options.userId,
+      filters.channelIds
+    );
+    if (channelIds.length === 0) return false;
+
+    const queries = this.buildQueries(
+      options.organizationId,
+      channelIds,
+      text,
+      filters
+    );
+    const types =
+      options.type === "all"
+        ? (["messages", "threads", "files"] as const)
+        : options.type === "messages" ||
+          options.type === "threads" ||
+          options.type === "files"
+        ? [options.type]
+        : [];
+
+    for (const type of types) {
+      const match = queries[type]?.match;
+      if (
+        match &&
+        (await Message.exists({
+          ...match,
+          _id: new mongoose.Types.ObjectId(messageId),
+        }))
+      ) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private buildQueries(
+    organizationId: string,
+    channelIds: mongoose.Types.ObjectId[],
+    parsed: ParsedSearchText,
+    filters: SearchFilters
+  ): Partial<Record<Exclude<SearchType, "all">, TypeQuery>> {
+    const textMatch = (fields: string[]) => {
+      const match: Record<string, unknown> = {};
+      const search = [
+        ...parsed.terms,
+        ...parsed.phrases.map((p) => `"${p}"`),
+      ].join(" ");
+
+      if (search) match.$text = { $search: search };
+      if (parsed.prefixes.length > 0) {
+        match.$and = parsed.prefixes.map((prefix) => ({
+          $or: fields.map((field) => ({
+            [field]: { $regex: `\\b${this.escape(prefix)}`, $options: "i" },
+          })),
+        }));
+      }
+      return match;
+    };
+
+    const dateRange = () => {
+      if (!filters.startDate && !filters.endDate) return undefined;
+      const range: Record<string, Date> = {};
+      if (filters.startDate) range.$gte = filters.startDate;
+      if (filters.endDate) range.$lte = filters.endDate;
+      return range;
+    };
+
+    const senderIds = filters.senderIds?.length
+      ? { $in: filters.senderIds.map((id) => new mongoose.Types.ObjectId(id)) }
+      : undefined;
+
+    const messageBase: Record<string, unknown> = {
+      organizationId: new mongoose.Types.ObjectId(organizationId),
+      channelId: { $in: channelIds },
+      isDeleted: false,
+      ...(senderIds ? { senderId: senderIds } : {}),
+      ...(dateRange() ? { createdAt: dateRange() } : {}),
+      ...(filters.hasFile ? { "attachments.0": { $exists: true } } : {}),
+      ...(filters.hasLink
+        ? { content: { $regex: "https?://|www\\.", $options: "i" } }
+        : {}),
+      ...(filters.isPinned ? { isPinned: true } : {}),
+      ...(filters.hasReaction
+        ? {
+            $expr: {
+              $gt: [
+                {
+                  $size: {
+                    $filter: {
+                      input: { $objectToArray: { $ifNull: ["$reactions", {}] } },
+                      cond: { $gt: [{ $size: "$$this.v" }, 0] },
+                    },
+                  },
+                },
+                0,
+              ],
+            },
+          }
+        : {}),
+    };
+
+    const channelBase: Record<string, unknown> = {
+      organizationId: new mongoose.Types.ObjectId(organizationId),
+      channelId: { $in: channelIds },
+      ...(dateRange() ? { updatedAt: dateRange() } : {}),
+    };
+
+    const messageQueries = {
+      messages: {
+        model: Message,
+        match: {
+          ...messageBase,
+          ...textMatch(["content"]),
+          parentMessageId: null,
+          // is:thread keeps only messages that started a thread
+          ...(filters.isThread ? { threadCount: { $gt: 0 } } : {}),
+        },
+        dateField: "createdAt" as const,
+      },
+      threads: {
+        model: Message,
+        match: {
+          ...messageBase,
+          ...textMatch(["content"]),
+          parentMessageId: { $ne: null },
+        },
+        dateField: "createdAt" as const,
+      },
+      files: {
+        model: Message,
+        match: {
+          ...messageBase,
+          ...textMatch(["attachments.name", "content"]),
+          "attachments.0": { $exists: true },
+          ...(filters.isThread
+            ? {
+                $or: [
+                  { parentMessageId: { $ne: null } },
+                  { threadCount: { $gt: 0 } },
+                ],
+              }
+            : {}),
+        },
+        dateField: "createdAt" as const,
+      },
+    };
+
+    if (
+      filters.hasFile ||
+      filters.hasLink ||
+      filters.hasReaction ||
+      filters.isPinned ||
+      filters.isThread
+    ) {
+      return messageQueries;
+    }
+
+    return {
+      ...messageQueries,
+      wiki: {
+        model: WikiPage,
+        match: {
+          ...channelBase,
+          ...textMatch(["title", "content"]),
+          ...(senderIds ? { authorId: senderIds } : {}),
+        },
+        dateField: "updatedAt",
+      },
+      tasks: {
+        model: Task,
+        match: {
+          ...channelBase,
+          ...textMatch(["title", "description"]),
+          ...(senderIds ? { creatorId: senderIds } : {}),
+        },
+        dateField: "updatedAt",
+      },
+    };
+  }
+
+  /**
+   * Score by text relevance (or 1 for prefix-only queries) times a recency boost
+   */
+  private async rank(
+    query: TypeQuery,
+    hasText: boolean,
+    skip: number,
+    limit: number
+  ): Promise<any[]> {
+    const ageInHalfLives = {
+      $divide: [
+        { $subtract: [new Date(), `$${query.dateField}`] },
+        RECENCY_HALF_LIFE_DAYS * DAY_MS,
+      ],
+    };
+
+    const pipeline: PipelineStage[] = [
+      { $match: query.match },
+      {
+        $addFields: {
+          _score: {
+            $multiply: [
+              hasText ? { $meta: "textScore" } : 1,
+              {
+                $add: [
+                  1,
+                  {
+                    $divide: [
+                      RECENCY_WEIGHT,
+                      { $add: [1, { $max: [0, ageInHalfLives] }] },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      },
+      { $sort: { _score: -1, [query.dateField]: -1 } },
+      { $skip: skip },
+      { $limit: limit },
+    ];
+
+    return query.model.aggregate(pipeline);
+  }
+
+  private async formatMessages(docs: any[], highlighter: RegExp) {
+    if (docs.length === 0) return [];
+
+    await Message.populate(docs, [
+      { path: "senderId", select: "name email avatar" },
+      { path: "channelId", select: "name type" },
+      {
+        path: "parentMessageId",
+        select: "content senderId bot",
+        populate: { path: "senderId", select: "name email avatar" },
+      },
+    ]);
+
+    return docs.map((msg) => ({
+      id: msg._id,
+      content: msg.content,
+      contentType: msg.contentType,
+      sender: getMessageSender(msg),
+      channel: this.formatChannel(msg.channelId),
+      parentMessage: msg.parentMessageId
+        ? {
+            id: msg.parentMessageId._id,
+            content: msg.parentMessageId.content,
+            sender: getMessageSender(msg.parentMessageId),
+          }
+        : null,
+      attachments: msg.attachments,
+      createdAt: msg.createdAt,
+      threadCount: msg.threadCount,
+      score: msg._score,
+      snippet: this.snippet(msg.content, highlighter),
+    }));
+  }
+
+  private async formatFiles(docs: any[], highlighter: RegExp) {
+    if (docs.length === 0) return [];
+
+    await Message.populate(docs, [
+      { path: "senderId", select: "name email avatar" },
+      { path: "channelId", select: "name type" },
+    ]);
+
+    return docs.flatMap((msg) => {
+      const attachments: any[] = msg.attachments || [];
+      // Prefer the attachments whose names matched; fall back to all of them
+      // when only the message text did
+      const matching = attachments.filter((att) => {
+        highlighter.lastIndex = 0;
+        return highlighter.test(att.name);
+      });
+
+      return (matching.length > 0 ? matching : attachments).map((att) => ({
+        id: `${msg._id}-${att.name}`,
+        messageId: msg._id,
+        channel: this.formatChannel(msg.channelId),
+        sender: getMessageSender(msg),
+        file: att,
+        createdAt: msg.createdAt,
+        score: msg._score,
+        snippet: this.snippet(att.name, highlighter),
+      }));
+    });
+  }
+
+  private async formatWikiPages(docs: any[], highlighter: RegExp) {
+    if (docs.length === 0) return [];
+
+    await WikiPage.populate(docs, [
+      { path: "lastEditedBy", select: "name email avatar" },
+      { path: "channelId", select: "name type" },
+    ]);
+
+    return docs.map((page) => ({
+      id: page._id,
+      title: page.title,
+      slug: page.slug,
+      channel: this.formatChannel(page.channelId),
+      lastEditedBy: page.lastEditedBy,
+      updatedAt: page.updatedAt,
+      score: page._score,
+      titleSnippet: this.snippet(page.title, highlighter),
+      snippet: this.snippet(this.stripHtml(page.content), highlighter),
+    }));
+  }
+
+  private async formatTasks(docs: any[], highlighter: RegExp) {
+    if (docs.length === 0) return [];
+
+    await Task.populate(docs, [
+      { path: "assigneeId", select: "name email avatar" },
+      { path: "channelId", select: "name type" },
+    ]);
+
+    return docs.map((task) => ({
+      id: task._id,
+      title: task.title,
+      status: task.status,
+      priority: task.priority,
+      labels: task.labels,
+      channel: this.formatChannel(task.channelId),
+      assignee: task.assigneeId || null,
+      dueDate: task.dueDate,
+      updatedAt: task.updatedAt,
+      score: task._score,
+      titleSnippet: this.snippet(task.title, highlighter),
+      snippet: this.snippet(task.description || "", highlighter),
+    }));
+  }
+
+  private formatChannel(channel: any) {
+    return {
+      id: channel?._id || channel,
+      name: channel?.name,
+      type: channel?.type,
+    };
+  }
+
+  /**
+   * Regex matching every searched term for highlighting. Terms are matched as
+   * word prefixes with common suffixes trimmed, approximating the stemming the
+   * text index applies (so "deploying" highlights "deployed").
+   */
+  private buildHighlighter(parsed: ParsedSearchText): RegExp {
+    const stem = (term: string) =>
+      term.length > 4 ? term.replace(/(ing|ed|es|s)$/, "") : term;
+
+    const patterns = [
+      ...parsed.phrases.map((p) => this.escape(p).replace(/\s+/g, "\\s+")),
+      ...parsed.terms.map((t) => `\\b${this.escape(stem(t))}\\w*`),
+      ...parsed.prefixes.map((p) => `\\b${this.escape(p)}\\w*`),
+    ];
+
+    return new RegExp(patterns.join("|") || "(?!)", "gi");
+  }
+
+  /**
+   * Cut a window around the first match and report highlight offsets in it
+   */
+  private snippet(text: string, highlighter: RegExp): SearchSnippet {
+    if (!text) return { text: "", highlights: [] };
+
+    highlighter.lastIndex = 0;
+    const first = highlighter.exec(text);
+    let start = 0;
+    let end = Math.min(text.length, SNIPPET_RADIUS * 2);
+
+    if (first) {
+      start = Math.max(0, first.index - SNIPPET_RADIUS);
+      end = Math.min(text.length, first.index + SNIPPET_RADIUS);
+      // Avoid cutting words in half
+      if (start > 0) {
+        const space = text.indexOf(" ", start);
+        if (space !== -1 && space < first.index) start = space + 1;
+      }
+      if (end < text.length) {
+        const space = text.lastIndexOf(" ", end);
+        if (space > first.index + first[0].length) end = space;
+      }
+    }
+
+    const prefix = start > 0 ? "…" : "";
+    const suffix = end < text.length ? "…" : "";
+    const body = text.slice(start, end);
+    const highlights: [number, number][] = [];
+
+    highlighter.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = highlighter.exec(body)) !== null) {
+      if (match[0].length === 0) {
+        highlighter.lastIndex++;
+        continue;
+      }
+      highlights.push([
+        prefix.length + match.index,
+        prefix.length + match.index + match[0].length,
+      ]);
+    }
+
+    return { text: `${prefix}${body}${suffix}`, highlights };
+  }
+
+  private stripHtml(html: string): string {
+    return (html || "")
+      .replace(/<[^>]+>/g, " ")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  private escape(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
+
+export const searchService = new SearchService();
+export default searchService;
@@ -0,0 +1,199 @@
+import mongoose from "mongoose";
+import { getIO } from "../config/socket.js";
+import {
+  ChannelMember,
+  IMessage,
+  ISavedSearch,
+  IUser,
+  SavedSearch,
+  SearchHistory,
+} from "../models/index.js";
+import { MAX_RECENT_SEARCHES } from "../models/SearchHistory.js";
+import { SearchFilterParams } from "../types/index.js";
+import { isPopulated, refId } from "../utils/index.js";
+import { searchService } from "./search.service.js";
+
+// A saved search notifies at most once per interval, so a busy channel
+// does not turn into a stream of identical alerts
+const NOTIFY_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Search History Service
+ * Recent searches per user and saved searches that can notify their owner
+ * when a newly posted message matches
+ */
+class SearchHistoryService {
+  /**
+   * Normalize filters coming from the client so equal searches compare equal
+   */
+  normalizeFilters(filters: SearchFilterParams = {}): SearchFilterParams {
+    return {
+      channelId:
+        filters.channelId && mongoose.isValidObjectId(filters.channelId)
+          ? filters.channelId
+          : undefined,
+      userId:
+        filters.userId && mongoose.isValidObjectId(filters.userId)
+          ? filters.userId
+          : undefined,
+      type: filters.type || "all",
+    };
+  }
+
+  /**
+   * Record a search, moving it to the top if it was run before
+   */
+  async record(
+    organizationId: string,
+    userId: string,
+    query: string,
+    filters: SearchFilterParams = {}
+  ) {
+    const normalized = this.normalizeFilters(filters);
+    const signature = JSON.stringify([
+      query.trim().toLowerCase(),
+      normalized.channelId || null,
+      normalized.userId || null,
+      normalized.type,
+    ]);
+
+    const entry = await SearchHistory.findOneAndUpdate(
+      { userId, signature },
+      {
+        $set: {
+          organizationId,
+          query: query.trim(),
+          filters: normalized,
+          searchedAt: new Date(),
+        },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    const stale = await SearchHistory.find({ userId })
+      .sort({ searchedAt: -1 })
+      .skip(MAX_RECENT_SEARCHES)
+      .select("_id");
+    if (stale.length > 0) {
+      await SearchHistory.deleteMany({ _id: { $in: stale.map((s) => s._id) } });
+    }
+
+    return entry;
+  }
+
+  /**
+   * Run the notifying saved searches of the channel's members against a new
+   * message and alert the owners whose search matches
+   */
+  async notifyMatches(message: IMessage): Promise<void> {
+    if (message.contentType === "SYSTEM") return;
+
+    const senderId = refId(message.senderId);
+    const sender =
+      message.bot ||
+      (isPopulated<Pick<IUser, "_id" | "name">>(message.senderId)
+        ? message.senderId
+        : null);
+
+    const members = await ChannelMember.find({
+      channelId: message.channelId,
+      ...(senderId && { userId: { $ne: senderId } }),
+    }).select("userId");
+    if (members.length === 0) return;
+
+    const savedSearches = await SavedSearch.findNotifying(
+      message.organizationId.toString(),
+      members.map((m) => m.userId.toString()),
+      message.channelId.toString()
+    );
+
+    for (const savedSearch of savedSearches) {
+      if (
+        savedSearch.lastNotifiedAt &&
+        Date.now() - savedSearch.lastNotifiedAt.getTime() < NOTIFY_COOLDOWN_MS
+      ) {
+        continue;
+      }
+
+      try {
+        // Searches saved before their query was kept are resolved once here
+        if (savedSearch.resolved === undefined) {
+          await this.resolve(savedSearch);
+          await savedSearch.save();
+        }
+        if (!savedSearch.resolved) continue;
+
+        const matched = await searchService.matchesMessage(
+          {
+            organizationId: message.organizationId.toString(),
+            userId: savedSearch.userId.toString(),
+            type: savedSearch.filters?.type || "all",
+            search: savedSearch.resolved,
+          },
+          message._id.toString()
+        );
+        if (!matched) continue;
+
+        savedSearch.lastNotifiedAt = new Date();
+        await savedSearch.save();
+
+        this.emitMatch(savedSearch, message, sender);
+      } catch (error) {
+        console.error(
+          `Saved search ${savedSearch._id} notification failed:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Parse a saved search's query and resolve its operators (from:, in:, ...)
+   * so notifyMatches does not redo it for every new message. Call it whenever
+   * the query or filters change.
+   */
+  async resolve(savedSearch: ISavedSearch): Promise<void> {
+    savedSearch.resolved = await searchService.resolveSearch(
+      savedSearch.organizationId.toString(),
+      savedSearch.userId.toString(),
+      savedSearch.query,
+      this.toSearchFilters(savedSearch)
+    );
+  }
+
+  private toSearchFilters(savedSearch: ISavedSearch) {
+    const { channelId, userId } = savedSearch.filters || {};
+    return {
+      channelIds: channelId ? [channelId] : undefined,
+      senderIds: userId ? [userId] : undefined,
+    };
+  }
+
+  private emitMatch(
+    savedSearch: ISavedSearch,
+    message: IMessage,
+    sender: { name: string } | null
+  ): void {
+    try {
+      getIO()
+        .to(`user:${savedSearch.userId}`)
+        .emit("saved-search-match", {
+          savedSearchId: savedSearch._id,
+          name: savedSearch.name,
+          channelId: message.channelId,
+          message: {
+            id: message._id,
+            content: message.content,
+            sender: sender ? { name: sender.name } : null,
+            parentMessageId: message.parentMessageId || null,
+            createdAt: message.createdAt,
+          },
+        });
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+  }
+}
+
+export const searchHistoryService = new SearchHistoryService();
+export default searchHistoryService;
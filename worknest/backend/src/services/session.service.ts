@@ -0,0 +1,432 @@
+import { Request } from "express";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { getIO } from "../config/socket.js";
+import { generateToken } from "../middlewares/auth.middleware.js";
+import { Organization, Session, User, ISession, IUser } from "../models/index.js";
+import { SessionRevokeReason } from "../types/index.js";
+import { UnauthorizedError } from "../utils/AppError.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 1440;
+// lastActiveAt is only written when it is older than this, so every request
+// does not turn into a session update
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+// How long the refresh token replaced by a rotation keeps working, for tabs
+// that refreshed at the same moment as the one that won
+const ROTATION_GRACE_MS = 30 * 1000;
+
+const HANDOFF_CODE_TTL_MS = 60 * 1000;
+
+const REFRESH_TOKEN_TTL_MS =
+  (parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || "", 10) || 30) * DAY_MS;
+
+export interface IssuedTokens {
+  token: string;
+  // Null when the presented refresh token was rotated moments ago by a
+  // concurrent refresh; the client keeps the refresh token that one received
+  refreshToken: string | null;
+  sessionId: string;
+}
+
+/**
+ * Session Service
+ * One session per signed-in device. Access tokens are short-lived JWTs bound to
+ * a session; refresh tokens rotate on every use and are stored only as hashes.
+ * Sessions end when revoked, when the refresh window closes or when the user is
+ * idle for longer than the organization's sessionTimeoutMinutes.
+ */
+class SessionService {
+  private socketTouches = new Map<string, number>();
+
+  /**
+   * Start a session for a user that just authenticated
+   */
+  async create(user: IUser, req: Request): Promise<IssuedTokens> {
+    const secret = this.generateSecret();
+    const session = await Session.create({
+      organizationId: user.organizationId,
+      userId: user._id,
+      refreshTokenHash: this.hash(secret),
+      userAgent: req.headers["user-agent"]?.slice(0, 500) || null,
+      ipAddress: req.ip || null,
+      lastActiveAt: new Date(),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    });
+
+    return this.issue(user, session, secret);
+  }
+
+  /**
+   * Exchange a refresh token for a new access/refresh pair. The rotation is a
+   * single conditional update, so of two concurrent refreshes only one wins.
+   * The token it replaced only gets a new access token, and only within the
+   * grace window; after that, presenting it again revokes the session.
+   */
+  async refresh(refreshToken: string): Promise<IssuedTokens> {
+    const [sessionId, secret] = refreshToken.split(".");
+    if (!sessionId || !secret || !mongoose.isValidObjectId(sessionId)) {
+      throw new UnauthorizedError("Invalid refresh token.", "INVALID_TOKEN");
+    }
+
+    const session = await Session.findById(sessionId);
+    if (!session || !(await this.isUsable(session))) {
+      throw new UnauthorizedError(
+        "Session expired. Please login again.",
+        "SESSION_EXPIRED"
+      );
+    }
+
+    const user = await User.findById(session.userId);
+    if (!user || user.status !== "ACTIVE") {
+      await this.revoke(session._id.toString(), "REVOKED");
+      throw new UnauthorizedError(
+        "Session expired. Please login again.",
+        "SESSION_EXPIRED"
+      );
+    }
+
+    const nextSecret = this.generateSecret();
+    const rotated = await Session.findOneAndUpdate(
+      {
+        _id: session._id,
+        refreshTokenHash: this.hash(secret),
+        revokedAt: null,
+      },
+      {
+        $set: {
+          refreshTokenHash: this.hash(nextSecret),
+          previousRefreshTokenHash: this.hash(secret),
+          rotatedAt: new Date(),
+          lastActiveAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (rotated) return this.issue(user, rotated, nextSecret);
+
+    const current = await Session.findById(session._id).select(
+      "+previousRefreshTokenHash"
+    );
+    if (
+      !current ||
+      current.revokedAt ||
+      !current.previousRefreshTokenHash ||
+      !this.hashMatches(secret, current.previousRefreshTokenHash)
+    ) {
+      // A secret that never belonged to this session says nothing about who
+      // holds the real one, so it is rejected without ending the session
+      throw new UnauthorizedError("Invalid refresh token.", "INVALID_TOKEN");
+    }
+
+    if (
+      current.rotatedAt &&
+      Date.now() - current.rotatedAt.getTime() <= ROTATION_GRACE_MS
+    ) {
+      return this.issue(user, current, null);
+    }
+
+    await this.revoke(session._id.toString(), "TOKEN_REUSE");
+    throw new UnauthorizedError(
+      "Session expired. Please login again.",
+      "SESSION_EXPIRED"
+    );
+  }
+
+  /**
+   * Create a one-time code for a redirect to the organization's subdomain, so
+   * the tokens of a new session never appear in a URL
+   */
+  async createHandoffCode(sessionId: string): Promise<string> {
+    const secret = this.generateSecret();
+    await Session.updateOne(
+      { _id: sessionId, revokedAt: null },
+      {
+        $set: {
+          handoffCodeHash: this.hash(secret),
+          handoffExpiresAt: new Date(Date.now() + HANDOFF_CODE_TTL_MS),
+        },
+      }
+    );
+    return `${sessionId}.${secret}`;
+  }
+
+  /**
+   * Exchange a handoff code for the session's tokens. The code works once and
+   * the refresh token is rotated, so the pair issued at sign-in stops working.
+   */
+  async redeemHandoffCode(code: string): Promise<IssuedTokens> {
+    const [sessionId, secret] = code.split(".");
+    if (!sessionId || !secret || !mongoose.isValidObjectId(sessionId)) {
+      throw new UnauthorizedError("Invalid sign-in link.", "INVALID_TOKEN");
+    }
+
+    const nextSecret = this.generateSecret();
+    const session = await Session.findOneAndUpdate(
+      {
+        _id: sessionId,
+        handoffCodeHash: this.hash(secret),
+        handoffExpiresAt: { $gt: new Date() },
+        revokedAt: null,
+      },
+      {
+        $set: {
+          handoffCodeHash: null,
+          handoffExpiresAt: null,
+          refreshTokenHash: this.hash(nextSecret),
+          previousRefreshTokenHash: null,
+          rotatedAt: new Date(),
+          lastActiveAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!session) {
+      throw new UnauthorizedError(
+        "This sign-in link has expired. Please login again.",
+        "INVALID_TOKEN"
+      );
+    }
+
+    const user = await User.findById(session.userId);
+    if (!user || user.status !== "ACTIVE") {
+      await this.revoke(session._id.toString(), "REVOKED");
+      throw new UnauthorizedError(
+        "Session expired. Please login again.",
+        "SESSION_EXPIRED"
+      );
+    }
+
+    return this.issue(user, session, nextSecret);
+  }
+
+  /**
+   * Sign out the device holding this refresh token
+   */
+  async end(refreshToken: string): Promise<void> {
+    const [sessionId, secret] = refreshToken.split(".");
+    if (!sessionId || !secret || !mongoose.isValidObjectId(sessionId)) return;
+
+    const session = await Session.findById(sessionId).select(
+      "+refreshTokenHash"
+    );
+    if (session && this.hashMatches(secret, session.refreshTokenHash)) {
+      await this.revoke(sessionId, "LOGOUT");
+    }
+  }
+
+  /**
+   * Return the session if it can still be used, recording activity on it.
+   * Sessions found to be idle past the organization timeout are revoked.
+   */
+  async getActiveSession(sessionId: string): Promise<ISession | null> {
+    if (!mongoose.isValidObjectId(sessionId)) return null;
+
+    const session = await Session.findById(sessionId);
+    if (!session || !(await this.isUsable(session))) return null;
+
+    if (Date.now() - session.lastActiveAt.getTime() > TOUCH_INTERVAL_MS) {
+      session.lastActiveAt = new Date();
+      await Session.updateOne(
+        { _id: session._id },
+        { $set: { lastActiveAt: session.lastActiveAt } }
+      );
+    }
+
+    return session;
+  }
+
+  /**
+   * Record activity coming from a socket connection (throttled in memory)
+   */
+  touch(sessionId: string): void {
+    const now = Date.now();
+    const last = this.socketTouches.get(sessionId) || 0;
+    if (now - last < TOUCH_INTERVAL_MS) return;
+
+    this.socketTouches.set(sessionId, now);
+    Session.updateOne(
+      { _id: sessionId, revokedAt: null },
+      { $set: { lastActiveAt: new Date(now) } }
+    ).catch((error) => console.error("Session touch failed:", error));
+  }
+
+  async listForUser(userId: string): Promise<ISession[]> {
+    return Session.findActiveByUser(userId);
+  }
+
+  /**
+   * Revoke one session and disconnect its sockets
+   */
+  async revoke(
+    sessionId: string,
+    reason: SessionRevokeReason,
+    userId?: string
+  ): Promise<boolean> {
+    const result = await Session.updateOne(
+      { _id: sessionId, revokedAt: null, ...(userId ? { userId } : {}) },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    if (result.modifiedCount === 0) return false;
+
+    this.disconnectSockets([sessionId], reason);
+    return true;
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping one
+   */
+  async revokeUserSessions(
+    userId: string,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    return this.revokeWhere(
+      {
+        userId,
+        ...(exceptSessionId ? { _id: { $ne: exceptSessionId } } : {}),
+      },
+      reason
+    );
+  }
+
+  async revokeOrganizationSessions(
+    organizationId: string,
+    reason: SessionRevokeReason
+  ): Promise<number> {
+    return this.revokeWhere({ organizationId }, reason);
+  }
+
+  /**
+   * Revoke sessions that passed their refresh window or the organization's
+   * idle timeout, so sockets of abandoned devices are closed too
+   */
+  async expireSessions(): Promise<number> {
+    let expired = await this.revokeWhere(
+      { expiresAt: { $lte: new Date() } },
+      "EXPIRED"
+    );
+
+    const organizationIds = await Session.distinct("organizationId", {
+      revokedAt: null,
+    });
+
+    for (const organizationId of organizationIds) {
+      const timeoutMs = await this.getIdleTimeoutMs(organizationId.toString());
+      expired += await this.revokeWhere(
+        {
+          organizationId,
+          lastActiveAt: { $lt: new Date(Date.now() - timeoutMs) },
+        },
+        "IDLE_TIMEOUT"
+      );
+    }
+
+    return expired;
+  }
+
+  private async revokeWhere(
+    filter: Record<string, unknown>,
+    reason: SessionRevokeReason
+  ): Promise<number> {
+    const query = { ...filter, revokedAt: null };
+    const sessionIds = (await Session.distinct("_id", query)).map((id) =>
+      id.toString()
+    );
+    if (sessionIds.length === 0) return 0;
+
+    await Session.updateMany(
+      { _id: { $in: sessionIds }, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    this.disconnectSockets(sessionIds, reason);
+    return sessionIds.length;
+  }
+
+  private async isUsable(session: ISession): Promise<boolean> {
+    if (session.revokedAt) return false;
+
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await this.revoke(session._id.toString(), "EXPIRED");
+      return false;
+    }
+
+    const timeoutMs = await this.getIdleTimeoutMs(
+      session.organizationId.toString()
+    );
+    if (Date.now() - session.lastActiveAt.getTime() > timeoutMs) {
+      await this.revoke(session._id.toString(), "IDLE_TIMEOUT");
+      return false;
+    }
+
+    return true;
+  }
+
+  private async getIdleTimeoutMs(organizationId: string): Promise<number> {
+    const organization = await Organization.findById(organizationId).select(
+      "settings.security.sessionTimeoutMinutes"
+    );
+    const minutes =
+      organization?.settings?.security?.sessionTimeoutMinutes ||
+      DEFAULT_IDLE_TIMEOUT_MINUTES;
+    return minutes * 60 * 1000;
+  }
+
+  private issue(
+    user: IUser,
+    session: ISession,
+    secret: string | null
+  ): IssuedTokens {
+    const sessionId = session._id.toString();
+    return {
+      token: generateToken({
+        userId: user._id.toString(),
+        organizationId: user.organizationId.toString(),
+        role: user.role,
+        tokenVersion: user.tokenVersion,
+        sessionId,
+      }),
+      refreshToken: secret ? `${sessionId}.${secret}` : null,
+      sessionId,
+    };
+  }
+
+  private disconnectSockets(
+    sessionIds: string[],
+    reason: SessionRevokeReason
+  ): void {
+    try {
+      const io = getIO();
+      for (const sessionId of sessionIds) {
+        this.socketTouches.delete(sessionId);
+        io.to(`session:${sessionId}`).emit("session-expired", { reason });
+        io.in(`session:${sessionId}`).disconnectSockets();
+      }
+    } catch {
+      // Socket.IO is not initialized when running outside the server
+    }
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(48).toString("hex");
+  }
+
+  private hash(secret: string): string {
+    return crypto.createHash("sha256").update(secret).digest("hex");
+  }
+
+  private hashMatches(secret: string, storedHash: string): boolean {
+    const candidate = Buffer.from(this.hash(secret), "hex");
+    const stored = Buffer.from(storedHash, "hex");
+    return (
+      candidate.length === stored.length &&
+      crypto.timingSafeEqual(candidate, stored)
+    );
+  }
+}
+
+export const sessionService = new SessionService();
+export default sessionService;
@@ -0,0 +1,381 @@
+import crypto from "crypto";
+import {
+  Channel,
+  IMessage,
+  ITask,
+  IWebhook,
+  IWikiPage,
+  IWebhookDelivery,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+} from "../models/index.js";
+import { refId } from "../utils/index.js";
+
+const MAX_ATTEMPTS = 6;
+// 30s, 1m, 2m, 4m, 8m between attempts, capped at an hour
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A delivery picked up for sending is hidden from other workers this long
+const CLAIM_MS = REQUEST_TIMEOUT_MS + 20 * 1000;
+// Failed attempts in a row (across deliveries) before a webhook is disabled
+const DISABLE_AFTER_FAILURES = 15;
+const MAX_RESPONSE_BODY = 2000;
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-WorkNest-Signature";
+
+// Events about something inside one channel
+type ChannelWebhookEvent = Extract<
+  WebhookEvent,
+  `${"message" | "member" | "task" | "wiki"}.${string}`
+>;
+
+/**
+ * Webhook Service
+ * Outgoing webhooks for organization events. Every event becomes one delivery
+ * per subscribed webhook; payloads are JSON signed with HMAC-SHA256 over
+ * `${timestamp}.${body}`. Failed attempts are retried with exponential backoff
+ * by the webhook job and webhooks that keep failing are disabled.
+ */
+class WebhookService {
+  /**
+   * Queue an event for every subscribed webhook. Never throws, so callers can
+   * fire and forget from request handlers and socket events.
+   */
+  dispatch(
+    organizationId: string | { toString(): string },
+    event: WebhookEvent,
+    data: Record<string, unknown>
+  ): void {
+    this.enqueue(organizationId.toString(), event, data).catch((error) =>
+      console.error(`Webhook dispatch of ${event} failed:`, error)
+    );
+  }
+
+  /**
+   * Queue a message, member, task or wiki event. Webhooks belong to the whole
+   * organization and their endpoints are set up by admins who are not in
+   * every conversation, so events from DMs and private channels are never
+   * sent.
+   */
+  dispatchChannelEvent(
+    organizationId: string | { toString(): string },
+    event: ChannelWebhookEvent,
+    channelId: string | { toString(): string },
+    data: Record<string, unknown>
+  ): void {
+    this.enqueueChannelEvent(
+      organizationId.toString(),
+      event,
+      channelId.toString(),
+      data
+    ).catch((error) =>
+      console.error(`Webhook dispatch of ${event} failed:`, error)
+    );
+  }
+
+  async enqueueChannelEvent(
+    organizationId: string,
+    event: ChannelWebhookEvent,
+    channelId: string,
+    data: Record<string, unknown>
+  ): Promise<IWebhookDelivery[]> {
+    const isPublic = await Channel.exists({
+      _id: channelId,
+      organizationId,
+      type: "PUBLIC",
+    });
+    if (!isPublic) return [];
+    return this.enqueue(organizationId, event, data);
+  }
+
+  async enqueue(
+    organizationId: string,
+    event: string,
+    data: Record<string, unknown>,
+    webhooks?: IWebhook[]
+  ): Promise<IWebhookDelivery[]> {
+    const targets =
+      webhooks || (await Webhook.findSubscribed(organizationId, event));
+    if (targets.length === 0) return [];
+
+    const eventId = crypto.randomUUID();
+    const payload = {
+      id: eventId,
+      event,
+      organizationId,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    const deliveries = await WebhookDelivery.insertMany(
+      targets.map((webhook) => ({
+        organizationId,
+        webhookId: webhook._id,
+        eventId,
+        event,
+        payload,
+        nextAttemptAt: new Date(),
+      }))
+    );
+
+    for (const delivery of deliveries) {
+      this.attempt(delivery._id.toString()).catch((error) =>
+        console.error(`Webhook delivery ${delivery._id} failed:`, error)
+      );
+    }
+
+    return deliveries as unknown as IWebhookDelivery[];
+  }
+
+  /**
+   * Send a ping event to one webhook
+   */
+  async ping(webhook: IWebhook): Promise<IWebhookDelivery> {
+    const [delivery] = await this.enqueue(
+      webhook.organizationId.toString(),
+      "ping",
+      { webhookId: webhook._id, name: webhook.name },
+      [webhook]
+    );
+    return delivery;
+  }
+
+  /**
+   * Deliver a logged event again as a new delivery with the same payload
+   */
+  async replay(original: IWebhookDelivery): Promise<IWebhookDelivery> {
+    const delivery = await WebhookDelivery.create({
+      organizationId: original.organizationId,
+      webhookId: original.webhookId,
+      eventId: original.eventId,
+      event: original.event,
+      payload: original.payload,
+      replayOf: original._id,
+      nextAttemptAt: new Date(),
+    });
+
+    await this.attempt(delivery._id.toString());
+    return (await WebhookDelivery.findById(delivery._id)) || delivery;
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed
+   */
+  async processDueDeliveries(): Promise<number> {
+    const due = await WebhookDelivery.findDue();
+    for (const delivery of due) {
+      await this.attempt(delivery._id.toString());
+    }
+    return due.length;
+  }
+
+  generateSecret(): string {
+    return `whsec_${crypto.randomBytes(32).toString("hex")}`;
+  }
+
+  sign(secret: string, timestamp: string, body: string): string {
+    const digest = crypto
+      .createHmac("sha256", secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+    return `sha256=${digest}`;
+  }
+
+  serializeMessage(message: IMessage) {
+    return {
+      id: message._id,
+      channelId: message.channelId,
+      senderId: refId(message.senderId),
+      bot: message.bot || null,
+      content: message.content,
+      contentType: message.contentType,
+      parentMessageId: message.parentMessageId || null,
+      attachments: (message.attachments || []).map((a) => ({
+        name: a.name,
+        url: a.url,
+        type: a.type,
+        size: a.size,
+      })),
+      createdAt: message.createdAt,
+    };
+  }
+
+  serializeTask(task: ITask) {
+    return {
+      id: task._id,
+      channelId: task.channelId,
+      title: task.title,
+      description: task.description || "",
+      status: task.status,
+      priority: task.priority,
+      creatorId: refId(task.creatorId),
+      assigneeId: refId(task.assigneeId),
+      dueDate: task.dueDate || null,
+      labels: task.labels,
+      order: task.order,
+      updatedAt: task.updatedAt,
+    };
+  }
+
+  serializeWikiPage(page: IWikiPage) {
+    return {
+      id: page._id,
+      channelId: page.channelId,
+      title: page.title,
+      slug: page.slug,
+      content: page.content,
+      parentId: page.parentId || null,
+      authorId: refId(page.authorId),
+      lastEditedBy: refId(page.lastEditedBy),
+      updatedAt: page.updatedAt,
+    };
+  }
+
+  /**
+   * Make one attempt at a delivery if it is still pending and due
+   */
+  private async attempt(deliveryId: string): Promise<void> {
+    const now = new Date();
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { _id: deliveryId, status: "PENDING", nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: new Date(now.getTime() + CLAIM_MS) } },
+      { new: true }
+    );
+    if (!delivery) return;
+
+    const webhook = await Webhook.findById(delivery.webhookId).select(
+      "+secret"
+    );
+    if (!webhook || !webhook.isActive) {
+      delivery.status = "FAILED";
+      delivery.nextAttemptAt = null;
+      delivery.error = webhook ? "Webhook is disabled" : "Webhook was deleted";
+      await delivery.save();
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const started = Date.now();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "WorkNest-Webhooks/1.0",
+          "X-WorkNest-Event": delivery.event,
+          "X-WorkNest-Delivery": delivery._id.toString(),
+          "X-WorkNest-Timestamp": timestamp,
+          [WEBHOOK_SIGNATURE_HEADER]: this.sign(webhook.secret, timestamp, body),
+        },
+        body,
+        redirect: "manual",
+        signal: controller.signal,
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+    } catch (err) {
+      error =
+        (err as Error).name === "AbortError"
+          ? `Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+          : (err as Error).message;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    const succeeded =
+      responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+
+    delivery.attempts += 1;
+    delivery.lastAttemptAt = new Date();
+    delivery.durationMs = Date.now() - started;
+    delivery.responseStatus = responseStatus;
+    delivery.responseBody = responseBody;
+
+    if (succeeded) {
+      delivery.status = "SUCCESS";
+      delivery.deliveredAt = delivery.lastAttemptAt;
+      delivery.nextAttemptAt = null;
+      delivery.error = null;
+      await delivery.save();
+
+      await Webhook.updateOne(
+        { _id: webhook._id },
+        {
+          $set: {
+            consecutiveFailures: 0,
+            lastDeliveryAt: delivery.lastAttemptAt,
+            lastSuccessAt: delivery.lastAttemptAt,
+          },
+        }
+      );
+      return;
+    }
+
+    delivery.error = error || `Endpoint responded with HTTP ${responseStatus}`;
+    if (delivery.attempts >= MAX_ATTEMPTS) {
+      delivery.status = "FAILED";
+      delivery.nextAttemptAt = null;
+    } else {
+      delivery.nextAttemptAt = new Date(
+        Date.now() + this.backoff(delivery.attempts)
+      );
+    }
+    await delivery.save();
+
+    const updated = await Webhook.findByIdAndUpdate(
+      webhook._id,
+      {
+        $inc: { consecutiveFailures: 1 },
+        $set: { lastDeliveryAt: delivery.lastAttemptAt },
+      },
+      { new: true }
+    );
+    if (updated && updated.consecutiveFailures >= DISABLE_AFTER_FAILURES) {
+      await this.disable(
+        updated,
+        `Disabled after ${updated.consecutiveFailures} consecutive failed deliveries`
+      );
+    }
+  }
+
+  /**
+   * Stop sending to a webhook and give up on its queued deliveries
+   */
+  private async disable(webhook: IWebhook, reason: string): Promise<void> {
+    const result = await Webhook.updateOne(
+      { _id: webhook._id, isActive: true },
+      { $set: { isActive: false, disabledAt: new Date(), disabledReason: reason } }
+    );
+    if (result.modifiedCount === 0) return;
+
+    await WebhookDelivery.updateMany(
+      { webhookId: webhook._id, status: "PENDING" },
+      {
+        $set: {
+          status: "FAILED",
+          nextAttemptAt: null,
+          error: "Webhook was disabled",
+        },
+      }
+    );
+    console.warn(`🪝 Webhook ${webhook._id} (${webhook.url}) ${reason}`);
+  }
+
+  private backoff(attempts: number): number {
+    const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+    // Up to 10% jitter so retries from a burst do not line up
+    return delay + Math.floor(Math.random() * delay * 0.1);
+  }
+}
+
+export const webhookService = new WebhookService();
+export default webhookService;
@@ -1,17 +1,54 @@
 import { Server } from "socket.io";
 import { AuthenticatedSocket } from "../config/socket.js";
-import { Message, ChannelMember, Channel, User } from "../models/index.js";
-import xss from "xss";
-
-// Online users tracking (in production, use Redis)
-const onlineUsers = new Map<string, Set<string>>(); // organizationId -> Set of userIds
-const userSockets = new Map<string, string>(); // socketId -> { odiv, orgId }
-const typingUsers = new Map<string, Map<string, NodeJS.Timeout>>(); // channelId -> userId -> timeout
-const activeHuddles = new Map<string, Set<string>>(); // channelId -> Set of userIds (who are in huddle)
-const canvasCursors = new Map<string, Map<string, any>>(); // channelId -> userId -> cursor data
+import { Message, Channel, ChannelMember, User } from "../models/index.js";
+import {
+  ARCHIVED_CHANNEL_MESSAGE,
+  ephemeralService,
+  messageService,
+  pollService,
+  readStateService,
+} from "../services/index.js";
+import { ContentType } from "../types/index.js";
+import { AppError } from "../utils/AppError.js";
+import {
+  getSocketState,
+  HuddleParticipant,
+  SocketConnection,
+} from "./state/index.js";
+
+const TYPING_TIMEOUT_MS = 3000;
+// Must stay well below the Redis store's CONNECTION_TTL_MS
+const PRESENCE_REFRESH_MS = 30 * 1000;
 
 export const initializeChatSocket = (io: Server): void => {
-  io.on("connection", async (socket: AuthenticatedSocket) => {
+  // Huddles each socket on this instance is in, by socket id
+  const socketHuddles = new Map<string, Set<string>>();
+
+  // Presence, typing, huddles and canvas cursors live in the shared state
+  // store; this instance keeps its own sockets and huddles alive there
+  const heartbeat = setInterval(() => {
+    const connections: SocketConnection[] = [];
+    const huddles: HuddleParticipant[] = [];
+    const sockets = io.of("/").sockets as Map<string, AuthenticatedSocket>;
+    for (const socket of sockets.values()) {
+      if (socket.userId && socket.organizationId) {
+        connections.push({
+          organizationId: socket.organizationId,
+          userId: socket.userId,
+          socketId: socket.id,
+        });
+        for (const channelId of socketHuddles.get(socket.id) || []) {
+          huddles.push({ channelId, userId: socket.userId });
+        }
+      }
+    }
+    getSocketState()
+      .refreshConnections(connections, huddles)
+      .catch((error) => console.error("Presence refresh failed:", error));
+  }, PRESENCE_REFRESH_MS);
+  heartbeat.unref();
+
+  io.on("connection", (socket: AuthenticatedSocket) => {
     const userId = socket.userId;
     const organizationId = socket.organizationId;
 
@@ -22,29 +59,98 @@ export const initializeChatSocket = (io: Server): void => {
 
     console.log(`✅ User ${userId} connected from org ${organizationId}`);
 
-    // Track online status
-    if (!onlineUsers.has(organizationId)) {
-      onlineUsers.set(organizationId, new Set());
-    }
-    onlineUsers.get(organizationId)!.add(userId);
-    userSockets.set(socket.id, userId);
+    const state = getSocketState();
+    const connection = { organizationId, userId, socketId: socket.id };
 
-    // Join organization and private user room
-    socket.join(`org:${organizationId}`);
-    socket.join(`user:${userId}`);
+    // What this socket started, so it can be cleaned up when it disconnects
+    const typingTimers = new Map<string, NodeJS.Timeout>(); // channelId -> timeout
+    const huddleChannels = new Set<string>();
+    const canvasChannels = new Set<string>();
+    socketHuddles.set(socket.id, huddleChannels);
 
-    // Broadcast user online status
-    socket.to(`org:${organizationId}`).emit("user-online", {
-      userId,
-      timestamp: new Date(),
-    });
+    // A user stays online until their last socket (e.g. browser tab) is gone
+    const goOffline = async () => {
+      const wasLastSocket = await state.removeConnection(connection);
+
+      // Update last seen
+      await User.updateOne({ _id: userId }, { lastSeenAt: new Date() });
+
+      // Broadcast user offline, unless they appeared offline all along
+      if (wasLastSocket && !(await isInvisible(userId))) {
+        io.to(`org:${organizationId}`).emit("user-offline", {
+          userId,
+          timestamp: new Date(),
+        });
+      }
+    };
+
+    const stopTyping = async (channelId: string) => {
+      const timeout = typingTimers.get(channelId);
+      if (timeout) clearTimeout(timeout);
+      typingTimers.delete(channelId);
+      await state.clearTyping(channelId, userId);
+    };
+
+    const leaveHuddle = async (channelId: string) => {
+      huddleChannels.delete(channelId);
+      const participants = await state.leaveHuddle(channelId, userId);
+
+      socket.leave(`huddle:${channelId}`);
+      io.to(`huddle:${channelId}`).emit("huddle:user-left", { userId });
+
+      // Notify the entire channel that huddle status changed
+      io.to(`channel:${channelId}`).emit("huddle:status", {
+        channelId,
+        participants,
+      });
+    };
+
+    const leaveCanvas = async (channelId: string) => {
+      canvasChannels.delete(channelId);
+      socket.leave(`canvas:${channelId}`);
+
+      // Cleanup cursor
+      if (await state.removeCursor(channelId, userId)) {
+        io.to(`canvas:${channelId}`).emit("canvas:cursor-update", {
+          userId,
+          cursor: null,
+        });
+      }
+    };
 
-    // Send current online users to the connecting user
-    const orgOnlineUsers = Array.from(onlineUsers.get(organizationId) || []);
-    socket.emit("online-users", { users: orgOnlineUsers });
+    // Runs once every handler below is registered, so events the client
+    // sends right after connecting are not missed
+    const setUpPresence = async () => {
+      // Join organization and private user room
+      socket.join(`org:${organizationId}`);
+      socket.join(`user:${userId}`);
 
-    // Update last seen
-    await User.updateOne({ _id: userId }, { lastSeenAt: new Date() });
+      try {
+        // Track online status
+        const isFirstSocket = await state.addConnection(connection);
+
+        // Broadcast user online status, unless they appear offline or were
+        // already online in another tab
+        if (isFirstSocket && !(await isInvisible(userId))) {
+          socket.to(`org:${organizationId}`).emit("user-online", {
+            userId,
+            timestamp: new Date(),
+          });
+        }
+
+        // Send current online users to the connecting user
+        const orgOnlineUsers = await withoutInvisible(
+          await state.getOnlineUsers(organizationId),
+          userId
+        );
+        socket.emit("online-users", { users: orgOnlineUsers });
+
+        // Update last seen
+        await User.updateOne({ _id: userId }, { lastSeenAt: new Date() });
+      } catch (error) {
+        console.error("Socket connection setup error:", error);
+      }
+    };
 
     // === JOIN CHANNEL ===
     socket.on("join-channel", async (data: { channelId: string }) => {
@@ -72,16 +178,18 @@ export const initializeChatSocket = (io: Server): void => {
           "userId"
         );
         const memberIds = channelMembers.map((m) => m.userId.toString());
-        const onlineMemberIds = memberIds.filter((id) =>
-          onlineUsers.get(organizationId)?.has(id)
+        const onlineIds = new Set(await state.getOnlineUsers(organizationId));
+        const onlineMemberIds = await withoutInvisible(
+          memberIds.filter((id) => onlineIds.has(id)),
+          userId
         );
+        const huddleParticipants = await state.getHuddle(channelId);
 
         socket.emit("channel-joined", {
           channelId,
           onlineMembers: onlineMemberIds,
-          activeHuddle: activeHuddles.has(channelId)
-            ? Array.from(activeHuddles.get(channelId)!)
-            : null,
+          activeHuddle:
+            huddleParticipants.length > 0 ? huddleParticipants : null,
         });
       } catch (error) {
         console.error("Join channel error:", error);
@@ -141,7 +249,18 @@ export const initializeChatSocket = (io: Server): void => {
           });
 
           if (!membership) {
-            socket.emit("error", { message: "Not a member of this channel" });
+            ephemeralService.send(organizationId, userId, {
+              channelId,
+              text: "You're not a member of this channel, so your message wasn't sent.",
+            });
+            return;
+          }
+
+          if (await Channel.isArchived(channelId)) {
+            ephemeralService.send(organizationId, userId, {
+              channelId,
+              text: `${ARCHIVED_CHANNEL_MESSAGE} Your message wasn't sent.`,
+            });
             return;
           }
 
@@ -159,213 +278,23 @@ export const initializeChatSocket = (io: Server): void => {
           console.log("🔗 Is array:", Array.isArray(attachments));
           console.log("🔗 Attachments content:", attachments);
 
-          // Create message
-          const message = await Message.create({
+          // Same path as REST and scheduled messages: unread counts,
+          // broadcast, notifications and integrations
+          const { message } = await messageService.post({
             organizationId,
             channelId,
             senderId: userId,
-            content: xss(content.trim()),
-            contentType,
+            content,
+            contentType: contentType as ContentType,
             replyTo: processedReplyTo,
             attachments: attachments || [],
           });
 
           console.log("💾 Message saved with ID:", message._id);
-          console.log(
-            "💾 Message replyTo field (before populate):",
-            message.replyTo
-          );
-
-          // Populate sender and replyTo
-          await message.populate([
-            { path: "senderId", select: "name email avatar" },
-            {
-              path: "replyTo",
-              populate: { path: "senderId", select: "name" },
-            },
-          ]);
-
-          console.log(
-            "📎 After populate - replyTo:",
-            message.replyTo
-              ? {
-                  id: (message.replyTo as any)?._id,
-                  content: (message.replyTo as any)?.content?.substring(0, 30),
-                  sender: (message.replyTo as any)?.senderId?.name,
-                }
-              : null
-          );
-
-          // Update channel
-          await Channel.updateOne(
-            { _id: channelId },
-            { lastMessageAt: new Date() }
-          );
-
-          // Increment unread for other members
-          await ChannelMember.updateMany(
-            { channelId, userId: { $ne: userId } },
-            { $inc: { unreadCount: 1 } }
-          );
-
-          // Clear typing indicator
-          clearTyping(channelId, userId);
-
-          const messageData = {
-            id: message._id,
-            content: message.content,
-            contentType: message.contentType,
-            sender: message.senderId,
-            replyTo: message.replyTo
-              ? {
-                  id: (message.replyTo as any)._id,
-                  content: (message.replyTo as any).content,
-                  sender: (message.replyTo as any).senderId,
-                }
-              : null,
-            attachments: message.attachments || [],
-            channelId,
-            createdAt: message.createdAt,
-            readBy: message.readBy || [],
-          };
-
-          console.log(
-            "📤 Broadcasting messageData.replyTo:",
-            messageData.replyTo
-          );
           console.log("========== END DEBUG ==========\n");
 
-          // Broadcast to channel room
-          io.to(`channel:${channelId}`).emit("receive-message", messageData);
-
-          // === GRANULAR NOTIFICATION LOGIC ===
-          const members = await ChannelMember.find({ channelId }).populate(
-            "userId"
-          );
-
-          for (const member of members) {
-            // Skip sender
-            if (member.userId._id.toString() === userId) continue;
-
-            const targetUser = member.userId as any;
-            const channelSettings = member.notifications;
-            const globalSettings = targetUser.settings?.notifications;
-
-            let shouldAlert = false;
-            let alertReason = "NORMAL";
-
-            // 1. Check Keywords
-            if (globalSettings?.keywords?.length > 0) {
-              const matchedKeyword = globalSettings.keywords.find(
-                (keyword: string) => {
-                  const regex = new RegExp(
-                    `\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`,
-                    "i"
-                  );
-                  return regex.test(content);
-                }
-              );
-              if (matchedKeyword) {
-                shouldAlert = true;
-                alertReason = "KEYWORD";
-              }
-            }
-
-            // 2. Check Direct Mentions (@Name)
-            if (!shouldAlert) {
-              const nameRegex = new RegExp(
-                `@${targetUser.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`,
-                "i"
-              );
-              if (nameRegex.test(content)) {
-                shouldAlert = true;
-                alertReason = "MENTION";
-              }
-            }
-
-            // 3. Check Special Mentions (@channel, @here, @online)
-            if (!shouldAlert) {
-              const hasSpecialMention = /@(channel|here|online)\b/i.test(
-                content
-              );
-              if (hasSpecialMention) {
-                // Determine if special mention applies to this user
-                if (content.toLowerCase().includes("@channel")) {
-                  shouldAlert = true;
-                  alertReason = "MENTION";
-                } else if (
-                  content.toLowerCase().includes("@here") ||
-                  content.toLowerCase().includes("@online")
-                ) {
-                  // Only alert if user is online
-                  const isOnline = onlineUsers
-                    .get(organizationId)
-                    ?.has(targetUser._id.toString());
-                  if (isOnline) {
-                    shouldAlert = true;
-                    alertReason = "MENTION";
-                  }
-                }
-              }
-            }
-
-            // 4. Check Level-based notifications (ALL/MENTIONS/NONE)
-            if (!shouldAlert) {
-              if (channelSettings?.notifyOn === "ALL") {
-                shouldAlert = true;
-                alertReason = "NORMAL";
-              } else if (channelSettings?.notifyOn === "MENTIONS") {
-                // Handled above
-              } else {
-                // NONE - skip unless matched keywords or mentioned
-              }
-            }
-
-            // 5. Check DND (Do Not Disturb) suppression
-            if (shouldAlert && globalSettings?.dnd?.enabled) {
-              if (
-                isWithinDND(
-                  globalSettings.dnd.start,
-                  globalSettings.dnd.end,
-                  targetUser.profile?.timezone
-                )
-              ) {
-                shouldAlert = false; // Suppress alert but still send unread notification
-              }
-            }
-
-            // 6. Check Mute Override
-            if (
-              shouldAlert &&
-              channelSettings?.muteUntil &&
-              new Date(channelSettings.muteUntil) > new Date()
-            ) {
-              shouldAlert = false;
-            }
-
-            // 7. Check User Global Mute (if messages: false)
-            if (shouldAlert && globalSettings?.messages === false) {
-              shouldAlert = false;
-            }
-
-            // 8. Check Desktop Notification setting
-            if (shouldAlert && globalSettings?.desktop === false) {
-              shouldAlert = false;
-            }
-
-            // Send notification to user specifically
-            io.to(`user:${targetUser._id}`).emit("new-message-notification", {
-              channelId,
-              message: messageData,
-              shouldAlert,
-              alertReason,
-              sound: shouldAlert
-                ? channelSettings?.sound ||
-                  globalSettings?.soundName ||
-                  "default"
-                : null,
-            });
-          }
+          // Clear typing indicator
+          await stopTyping(channelId);
         } catch (error) {
           console.error("Send message error:", error);
           socket.emit("error", { message: "Failed to send message" });
@@ -375,51 +304,52 @@ export const initializeChatSocket = (io: Server): void => {
 
     // === TYPING INDICATOR ===
     socket.on("typing", async (data: { channelId: string }) => {
-      const { channelId } = data;
+      try {
+        const { channelId } = data;
 
-      // Get user name
-      const user = await User.findById(userId).select("name");
-      if (!user) return;
+        // Get user name
+        const user = await User.findById(userId).select("name");
+        if (!user) return;
 
-      // Set/reset typing timeout
-      if (!typingUsers.has(channelId)) {
-        typingUsers.set(channelId, new Map());
-      }
+        // Clear existing timeout
+        const existing = typingTimers.get(channelId);
+        if (existing) clearTimeout(existing);
 
-      const channelTyping = typingUsers.get(channelId)!;
+        // Set new timeout (3 seconds)
+        const timeout = setTimeout(() => {
+          stopTyping(channelId).catch((error) =>
+            console.error("Stop typing error:", error)
+          );
+          socket.to(`channel:${channelId}`).emit("stop-typing", {
+            channelId,
+            userId,
+          });
+        }, TYPING_TIMEOUT_MS);
 
-      // Clear existing timeout
-      if (channelTyping.has(userId)) {
-        clearTimeout(channelTyping.get(userId)!);
-      }
+        typingTimers.set(channelId, timeout);
+        await state.setTyping(channelId, userId, TYPING_TIMEOUT_MS);
 
-      // Set new timeout (3 seconds)
-      const timeout = setTimeout(() => {
-        clearTyping(channelId, userId);
-        socket.to(`channel:${channelId}`).emit("stop-typing", {
+        // Broadcast typing
+        socket.to(`channel:${channelId}`).emit("typing", {
           channelId,
           userId,
+          userName: user.name,
         });
-      }, 3000);
-
-      channelTyping.set(userId, timeout);
-
-      // Broadcast typing
-      socket.to(`channel:${channelId}`).emit("typing", {
-        channelId,
-        userId,
-        userName: user.name,
-      });
+      } catch (error) {
+        console.error("Typing error:", error);
+      }
     });
 
     // === STOP TYPING ===
-    socket.on("stop-typing", (data: { channelId: string }) => {
+    socket.on("stop-typing", async (data: { channelId: string }) => {
       const { channelId } = data;
-      clearTyping(channelId, userId);
       socket.to(`channel:${channelId}`).emit("stop-typing", {
         channelId,
         userId,
       });
+      await stopTyping(channelId).catch((error) =>
+        console.error("Stop typing error:", error)
+      );
     });
 
     // === MARK AS READ ===
@@ -427,38 +357,8 @@ export const initializeChatSocket = (io: Server): void => {
       try {
         const { channelId } = data;
 
-        // Update member unread status
-        await ChannelMember.updateOne(
-          { channelId, userId, organizationId },
-          { lastReadAt: new Date(), unreadCount: 0 }
-        );
-
-        // Update specific messages
-        await Message.updateMany(
-          {
-            channelId,
-            organizationId,
-            "readBy.userId": { $ne: userId },
-            isDeleted: false,
-          },
-          {
-            $push: {
-              readBy: {
-                userId,
-                readAt: new Date(),
-              },
-            },
-          }
-        );
-
-        // Broadcast that messages were read in this channel
-        // In a real app, you might want to send specific message IDs,
-        // but for now we'll just notify the channel room to refresh seen status
-        io.to(`channel:${channelId}`).emit("messages-read", {
-          channelId,
-          userId,
-          readAt: new Date(),
-        });
+        // Moves the user's read cursor and tells the channel about it
+        await readStateService.markRead(organizationId, channelId, userId);
       } catch (error) {
         console.error("Mark as read error:", error);
       }
@@ -491,6 +391,11 @@ export const initializeChatSocket = (io: Server): void => {
           return;
         }
 
+        if (await Channel.isArchived(message.channelId.toString())) {
+          socket.emit("error", { message: ARCHIVED_CHANNEL_MESSAGE });
+          return;
+        }
+
         // Toggle reaction
         if (!message.reactions) {
           message.reactions = new Map();
@@ -528,60 +433,70 @@ export const initializeChatSocket = (io: Server): void => {
       }
     });
 
+    // === POLL VOTE ===
+    socket.on(
+      "poll-vote",
+      async (data: { messageId: string; optionIds: string[] }) => {
+        try {
+          // Checks channel membership and the poll's rules, then broadcasts
+          // `poll-updated` to the channel
+          await pollService.vote(
+            organizationId,
+            userId,
+            data.messageId,
+            data.optionIds
+          );
+        } catch (error) {
+          console.error("Poll vote error:", error);
+          socket.emit("error", {
+            message:
+              error instanceof AppError ? error.message : "Failed to record vote",
+          });
+        }
+      }
+    );
+
     // === HUDDLE EVENTS ===
     socket.on("huddle:join", async (data: { channelId: string }) => {
-      const { channelId } = data;
-      console.log(`User ${userId} joining huddle in ${channelId}`);
+      try {
+        const { channelId } = data;
+        console.log(`User ${userId} joining huddle in ${channelId}`);
 
-      if (!activeHuddles.has(channelId)) {
-        activeHuddles.set(channelId, new Set());
-      }
-      activeHuddles.get(channelId)!.add(userId);
+        const participants = await state.joinHuddle(channelId, userId);
+        huddleChannels.add(channelId);
 
-      socket.join(`huddle:${channelId}`);
+        socket.join(`huddle:${channelId}`);
 
-      // Notify others in the huddle that a new user joined
-      socket.to(`huddle:${channelId}`).emit("huddle:user-joined", {
-        userId,
-        peerId: socket.id, // We'll use socket.id as peer identifier for simplicity
-      });
+        // Notify others in the huddle that a new user joined
+        socket.to(`huddle:${channelId}`).emit("huddle:user-joined", {
+          userId,
+          peerId: socket.id, // We'll use socket.id as peer identifier for simplicity
+        });
 
-      // Send list of current participants to the joining user
-      const participants = Array.from(activeHuddles.get(channelId) || []);
-      socket.emit("huddle:participants", {
-        participants: participants.filter((id) => id !== userId),
-      });
+        // Send list of current participants to the joining user
+        socket.emit("huddle:participants", {
+          participants: participants.filter((id) => id !== userId),
+        });
 
-      // Notify the entire channel that huddle status changed
-      io.to(`channel:${channelId}`).emit("huddle:status", {
-        channelId,
-        participants,
-        startedBy: userId,
-      });
+        // Notify the entire channel that huddle status changed
+        io.to(`channel:${channelId}`).emit("huddle:status", {
+          channelId,
+          participants,
+          startedBy: userId,
+        });
+      } catch (error) {
+        console.error("Huddle join error:", error);
+        socket.emit("error", { message: "Failed to join huddle" });
+      }
     });
 
-    socket.on("huddle:leave", (data: { channelId: string }) => {
+    socket.on("huddle:leave", async (data: { channelId: string }) => {
       const { channelId } = data;
       console.log(`User ${userId} leaving huddle in ${channelId}`);
 
-      if (activeHuddles.has(channelId)) {
-        activeHuddles.get(channelId)!.delete(userId);
-        if (activeHuddles.get(channelId)!.size === 0) {
-          activeHuddles.delete(channelId);
-        }
-      }
-
-      socket.leave(`huddle:${channelId}`);
-      socket.to(`huddle:${channelId}`).emit("huddle:user-left", { userId });
-
-      // Notify the entire channel that huddle status changed
-      const participants = activeHuddles.has(channelId)
-        ? Array.from(activeHuddles.get(channelId)!)
-        : [];
-      io.to(`channel:${channelId}`).emit("huddle:status", {
-        channelId,
-        participants,
-      });
+      await leaveHuddle(channelId).catch((error) =>
+        console.error("Huddle leave error:", error)
+      );
     });
 
     socket.on(
@@ -611,38 +526,36 @@ export const initializeChatSocket = (io: Server): void => {
     socket.on("canvas:join", (data: { channelId: string }) => {
       const { channelId } = data;
       socket.join(`canvas:${channelId}`);
+      canvasChannels.add(channelId);
     });
 
-    socket.on("canvas:leave", (data: { channelId: string }) => {
+    socket.on("canvas:leave", async (data: { channelId: string }) => {
       const { channelId } = data;
-      socket.leave(`canvas:${channelId}`);
-
-      // Cleanup cursor
-      if (canvasCursors.has(channelId)) {
-        canvasCursors.get(channelId)!.delete(userId);
-        socket.to(`canvas:${channelId}`).emit("canvas:cursor-update", {
-          userId,
-          cursor: null,
-        });
-      }
+      await leaveCanvas(channelId).catch((error) =>
+        console.error("Canvas leave error:", error)
+      );
     });
 
     socket.on(
       "canvas:cursor-move",
-      (data: { channelId: string; x: number; y: number; name: string }) => {
+      async (data: {
+        channelId: string;
+        x: number;
+        y: number;
+        name: string;
+      }) => {
         const { channelId, x, y, name } = data;
 
-        if (!canvasCursors.has(channelId)) {
-          canvasCursors.set(channelId, new Map());
-        }
-
         const cursorData = { x, y, name, updatedAt: Date.now() };
-        canvasCursors.get(channelId)!.set(userId, cursorData);
 
         socket.to(`canvas:${channelId}`).emit("canvas:cursor-update", {
           userId,
           cursor: cursorData,
         });
+
+        await state
+          .setCursor(channelId, userId, cursorData)
+          .catch((error) => console.error("Canvas cursor error:", error));
       }
     );
 
@@ -661,88 +574,56 @@ export const initializeChatSocket = (io: Server): void => {
     // === DISCONNECT ===
     socket.on("disconnect", async () => {
       console.log(`❌ User ${userId} disconnected`);
+      socketHuddles.delete(socket.id);
 
-      // Remove from online users
-      onlineUsers.get(organizationId)?.delete(userId);
-      userSockets.delete(socket.id);
+      try {
+        // The connection must be recorded before it can be removed
+        await presenceReady;
 
-      // Clear all typing indicators for this user
-      typingUsers.forEach((channelMap, channelId) => {
-        if (channelMap.has(userId)) {
-          clearTimeout(channelMap.get(userId)!);
-          channelMap.delete(userId);
+        // Clear the typing indicators, huddles and cursors of this socket
+        for (const channelId of Array.from(typingTimers.keys())) {
+          await stopTyping(channelId);
           io.to(`channel:${channelId}`).emit("stop-typing", {
             channelId,
             userId,
           });
         }
-      });
-
-      // Update last seen
-      await User.updateOne({ _id: userId }, { lastSeenAt: new Date() });
+        for (const channelId of Array.from(huddleChannels)) {
+          await leaveHuddle(channelId);
+        }
+        for (const channelId of Array.from(canvasChannels)) {
+          await leaveCanvas(channelId);
+        }
 
-      // Broadcast user offline
-      socket.to(`org:${organizationId}`).emit("user-offline", {
-        userId,
-        timestamp: new Date(),
-      });
+        await goOffline();
+      } catch (error) {
+        console.error("Socket disconnect error:", error);
+      }
     });
+
+    const presenceReady = setUpPresence();
   });
 };
 
-function clearTyping(channelId: string, odiv: string): void {
-  const channelTyping = typingUsers.get(channelId);
-  if (channelTyping?.has(odiv)) {
-    clearTimeout(channelTyping.get(odiv)!);
-    channelTyping.delete(odiv);
-  }
-}
-
 /**
- * Helper to check if current time is within DND range
- * @param start "HH:mm"
- * @param end "HH:mm"
- * @param timezone User's timezone
+ * Users who turn off "show online status" are still tracked as online, so
+ * @here reaches them, but their presence is never shown to others
  */
-function isWithinDND(
-  start: string,
-  end: string,
-  timezone: string = "UTC"
-): boolean {
-  if (!start || !end) return false;
-
-  try {
-    const now = new Date();
-    const formatter = new Intl.DateTimeFormat("en-US", {
-      hour: "2-digit",
-      minute: "2-digit",
-      hour12: false,
-      timeZone: timezone,
-    });
-
-    const parts = formatter.formatToParts(now);
-    const h = Number(parts.find((p) => p.type === "hour")?.value);
-    const m = Number(parts.find((p) => p.type === "minute")?.value);
-
-    const currentMinutes = h * 60 + m;
-
-    const [startH, startM] = start.split(":").map(Number);
-    const [endH, endM] = end.split(":").map(Number);
-
-    const startMinutes = startH * 60 + startM;
-    const endMinutes = endH * 60 + endM;
+async function isInvisible(userId: string): Promise<boolean> {
+  const user = await User.findById(userId).select("settings.privacy");
+  return user?.settings?.privacy?.showOnlineStatus === false;
+}
 
-    if (startMinutes < endMinutes) {
-      return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
-    } else {
-      // Overlap midnight (e.g., 22:00 to 08:00)
-      return currentMinutes >= startMinutes || currentMinutes <= endMinutes;
-    }
-  } catch (error) {
-    console.error("DND check error:", error);
-    // Fallback to UTC/System if timezone is invalid
-    return false;
-  }
+async function withoutInvisible(
+  userIds: string[],
+  viewerId: string
+): Promise<string[]> {
+  const invisible = await User.find({
+    _id: { $in: userIds.filter((id) => id !== viewerId) },
+    "settings.privacy.showOnlineStatus": false,
+  }).select("_id");
+  const hidden = new Set(invisible.map((user) => user._id.toString()));
+  return userIds.filter((id) => !hidden.has(id));
 }
 
 export default { initializeChatSocket };
@@ -0,0 +1,3 @@
+export * from "./socketState.js";
+export { MemorySocketState } from "./memorySocketState.js";
+export { RedisSocketState, CONNECTION_TTL_MS } from "./redisSocketState.js";
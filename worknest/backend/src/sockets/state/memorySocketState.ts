@@ -0,0 +1,115 @@
+import type {
+  CanvasCursor,
+  SocketConnection,
+  SocketStateStore,
+} from "./socketState.js";
+
+/**
+ * In-memory socket state for a single backend instance
+ */
+export class MemorySocketState implements SocketStateStore {
+  private sockets = new Map<string, Map<string, Set<string>>>(); // organizationId -> userId -> socketIds
+  private typing = new Map<string, number>(); // channelId:userId -> expires at
+  private huddles = new Map<string, Set<string>>(); // channelId -> userIds
+  private cursors = new Map<string, Map<string, CanvasCursor>>(); // channelId -> userId -> cursor
+
+  async addConnection({
+    organizationId,
+    userId,
+    socketId,
+  }: SocketConnection): Promise<boolean> {
+    if (!this.sockets.has(organizationId)) {
+      this.sockets.set(organizationId, new Map());
+    }
+    const users = this.sockets.get(organizationId)!;
+    if (!users.has(userId)) {
+      users.set(userId, new Set());
+    }
+    const userSockets = users.get(userId)!;
+    userSockets.add(socketId);
+    return userSockets.size === 1;
+  }
+
+  async removeConnection({
+    organizationId,
+    userId,
+    socketId,
+  }: SocketConnection): Promise<boolean> {
+    const users = this.sockets.get(organizationId);
+    const userSockets = users?.get(userId);
+    if (!users || !userSockets) return false;
+
+    userSockets.delete(socketId);
+    if (userSockets.size > 0) return false;
+
+    users.delete(userId);
+    if (users.size === 0) this.sockets.delete(organizationId);
+    return true;
+  }
+
+  async refreshConnections(): Promise<void> {
+    // Nothing to expire: every socket lives in this process
+  }
+
+  async getOnlineUsers(organizationId: string): Promise<string[]> {
+    return Array.from(this.sockets.get(organizationId)?.keys() || []);
+  }
+
+  async isOnline(organizationId: string, userId: string): Promise<boolean> {
+    return !!this.sockets.get(organizationId)?.has(userId);
+  }
+
+  async setTyping(
+    channelId: string,
+    userId: string,
+    ttlMs: number
+  ): Promise<void> {
+    this.typing.set(`${channelId}:${userId}`, Date.now() + ttlMs);
+  }
+
+  async clearTyping(channelId: string, userId: string): Promise<boolean> {
+    const key = `${channelId}:${userId}`;
+    const expiresAt = this.typing.get(key);
+    this.typing.delete(key);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  async joinHuddle(channelId: string, userId: string): Promise<string[]> {
+    if (!this.huddles.has(channelId)) {
+      this.huddles.set(channelId, new Set());
+    }
+    this.huddles.get(channelId)!.add(userId);
+    return this.getHuddle(channelId);
+  }
+
+  async leaveHuddle(channelId: string, userId: string): Promise<string[]> {
+    const participants = this.huddles.get(channelId);
+    participants?.delete(userId);
+    if (participants?.size === 0) this.huddles.delete(channelId);
+    return this.getHuddle(channelId);
+  }
+
+  async getHuddle(channelId: string): Promise<string[]> {
+    return Array.from(this.huddles.get(channelId) || []);
+  }
+
+  async setCursor(
+    channelId: string,
+    userId: string,
+    cursor: CanvasCursor
+  ): Promise<void> {
+    if (!this.cursors.has(channelId)) {
+      this.cursors.set(channelId, new Map());
+    }
+    this.cursors.get(channelId)!.set(userId, cursor);
+  }
+
+  async removeCursor(channelId: string, userId: string): Promise<boolean> {
+    const channelCursors = this.cursors.get(channelId);
+    const removed = !!channelCursors?.delete(userId);
+    if (channelCursors?.size === 0) this.cursors.delete(channelId);
+    return removed;
+  }
+}
+
+export default MemorySocketState;
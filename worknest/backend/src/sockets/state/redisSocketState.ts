@@ -0,0 +1,227 @@
+import type { RedisClientType } from "redis";
+import type {
+  CanvasCursor,
+  HuddleParticipant,
+  SocketConnection,
+  SocketStateStore,
+} from "./socketState.js";
+
+const PREFIX = "worknest:";
+// Sockets and huddle participants not refreshed within this time belong to a
+// crashed instance
+export const CONNECTION_TTL_MS = 90 * 1000;
+const CURSOR_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Socket state shared by every backend instance through Redis
+ *
+ * Keys:
+ * - presence:{orgId}             set of user ids with at least one socket
+ * - presence:{orgId}:{userId}    sorted set of socket ids, scored by expiry
+ * - typing:{channelId}:{userId}  flag with the typing TTL
+ * - huddle:{channelId}           sorted set of participant user ids, scored
+ *                                by expiry
+ * - canvas:{channelId}           hash of user id -> cursor JSON
+ *
+ * Presence and huddle keys expire with CONNECTION_TTL_MS unless the heartbeat
+ * of a live instance keeps them, so nothing a crashed instance wrote stays.
+ */
+export class RedisSocketState implements SocketStateStore {
+  constructor(private client: RedisClientType) {}
+
+  async addConnection({
+    organizationId,
+    userId,
+    socketId,
+  }: SocketConnection): Promise<boolean> {
+    const now = Date.now();
+    const socketsKey = this.key(`presence:${organizationId}:${userId}`);
+    const usersKey = this.key(`presence:${organizationId}`);
+
+    const [, , count] = await this.client
+      .multi()
+      .zRemRangeByScore(socketsKey, 0, now)
+      .zAdd(socketsKey, { score: now + CONNECTION_TTL_MS, value: socketId })
+      .zCard(socketsKey)
+      .pExpire(socketsKey, CONNECTION_TTL_MS)
+      .sAdd(usersKey, userId)
+      .pExpire(usersKey, CONNECTION_TTL_MS)
+      .exec();
+
+    return Number(count) === 1;
+  }
+
+  async removeConnection({
+    organizationId,
+    userId,
+    socketId,
+  }: SocketConnection): Promise<boolean> {
+    const socketsKey = this.key(`presence:${organizationId}:${userId}`);
+
+    const [, , count] = await this.client
+      .multi()
+      .zRem(socketsKey, socketId)
+      .zRemRangeByScore(socketsKey, 0, Date.now())
+      .zCard(socketsKey)
+      .exec();
+
+    if (Number(count) > 0) return false;
+
+    await this.client.sRem(this.key(`presence:${organizationId}`), userId);
+
+    // Another tab may have connected in the meantime, on any instance
+    if ((await this.client.zCard(socketsKey)) > 0) {
+      const usersKey = this.key(`presence:${organizationId}`);
+      await this.client
+        .multi()
+        .sAdd(usersKey, userId)
+        .pExpire(usersKey, CONNECTION_TTL_MS)
+        .exec();
+      return false;
+    }
+    return true;
+  }
+
+  async refreshConnections(
+    connections: SocketConnection[],
+    huddles: HuddleParticipant[]
+  ): Promise<void> {
+    if (connections.length === 0) return;
+
+    const expiresAt = Date.now() + CONNECTION_TTL_MS;
+    const multi = this.client.multi();
+    for (const { organizationId, userId, socketId } of connections) {
+      const socketsKey = this.key(`presence:${organizationId}:${userId}`);
+      const usersKey = this.key(`presence:${organizationId}`);
+      multi
+        .zAdd(socketsKey, { score: expiresAt, value: socketId })
+        .pExpire(socketsKey, CONNECTION_TTL_MS)
+        .sAdd(usersKey, userId)
+        .pExpire(usersKey, CONNECTION_TTL_MS);
+    }
+    for (const { channelId, userId } of huddles) {
+      const huddleKey = this.key(`huddle:${channelId}`);
+      multi
+        .zAdd(huddleKey, { score: expiresAt, value: userId })
+        .pExpire(huddleKey, CONNECTION_TTL_MS);
+    }
+    await multi.exec();
+  }
+
+  async getOnlineUsers(organizationId: string): Promise<string[]> {
+    const userIds = await this.client.sMembers(
+      this.key(`presence:${organizationId}`)
+    );
+    if (userIds.length === 0) return [];
+
+    const now = Date.now();
+    const multi = this.client.multi();
+    for (const userId of userIds) {
+      const socketsKey = this.key(`presence:${organizationId}:${userId}`);
+      multi.zRemRangeByScore(socketsKey, 0, now).zCard(socketsKey);
+    }
+    const replies = await multi.exec();
+
+    const online: string[] = [];
+    const stale: string[] = [];
+    userIds.forEach((userId, i) => {
+      if (Number(replies[i * 2 + 1]) > 0) online.push(userId);
+      else stale.push(userId);
+    });
+
+    // Users whose sockets all expired were left behind by a crashed instance
+    if (stale.length > 0) {
+      await this.client.sRem(this.key(`presence:${organizationId}`), stale);
+    }
+    return online;
+  }
+
+  async isOnline(organizationId: string, userId: string): Promise<boolean> {
+    const socketsKey = this.key(`presence:${organizationId}:${userId}`);
+    const [, count] = await this.client
+      .multi()
+      .zRemRangeByScore(socketsKey, 0, Date.now())
+      .zCard(socketsKey)
+      .exec();
+    return Number(count) > 0;
+  }
+
+  async setTyping(
+    channelId: string,
+    userId: string,
+    ttlMs: number
+  ): Promise<void> {
+    await this.client.set(this.key(`typing:${channelId}:${userId}`), "1", {
+      PX: ttlMs,
+    });
+  }
+
+  async clearTyping(channelId: string, userId: string): Promise<boolean> {
+    const removed = await this.client.del(
+      this.key(`typing:${channelId}:${userId}`)
+    );
+    return removed > 0;
+  }
+
+  async joinHuddle(channelId: string, userId: string): Promise<string[]> {
+    const now = Date.now();
+    const huddleKey = this.key(`huddle:${channelId}`);
+    const [, , , participants] = await this.client
+      .multi()
+      .zRemRangeByScore(huddleKey, 0, now)
+      .zAdd(huddleKey, { score: now + CONNECTION_TTL_MS, value: userId })
+      .pExpire(huddleKey, CONNECTION_TTL_MS)
+      .zRange(huddleKey, 0, -1)
+      .exec();
+    return participants as unknown as string[];
+  }
+
+  async leaveHuddle(channelId: string, userId: string): Promise<string[]> {
+    // An empty sorted set is removed by Redis, which ends the huddle
+    const huddleKey = this.key(`huddle:${channelId}`);
+    const [, , participants] = await this.client
+      .multi()
+      .zRem(huddleKey, userId)
+      .zRemRangeByScore(huddleKey, 0, Date.now())
+      .zRange(huddleKey, 0, -1)
+      .exec();
+    return participants as unknown as string[];
+  }
+
+  async getHuddle(channelId: string): Promise<string[]> {
+    const huddleKey = this.key(`huddle:${channelId}`);
+    const [, participants] = await this.client
+      .multi()
+      .zRemRangeByScore(huddleKey, 0, Date.now())
+      .zRange(huddleKey, 0, -1)
+      .exec();
+    return participants as unknown as string[];
+  }
+
+  async setCursor(
+    channelId: string,
+    userId: string,
+    cursor: CanvasCursor
+  ): Promise<void> {
+    const cursorsKey = this.key(`canvas:${channelId}`);
+    await this.client
+      .multi()
+      .hSet(cursorsKey, userId, JSON.stringify(cursor))
+      .pExpire(cursorsKey, CURSOR_TTL_MS)
+      .exec();
+  }
+
+  async removeCursor(channelId: string, userId: string): Promise<boolean> {
+    const removed = await this.client.hDel(
+      this.key(`canvas:${channelId}`),
+      userId
+    );
+    return removed > 0;
+  }
+
+  private key(name: string): string {
+    return `${PREFIX}${name}`;
+  }
+}
+
+export default RedisSocketState;
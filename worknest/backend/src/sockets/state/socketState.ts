@@ -0,0 +1,66 @@
+import { MemorySocketState } from "./memorySocketState.js";
+
+export interface CanvasCursor {
+  x: number;
+  y: number;
+  name: string;
+  updatedAt: number;
+}
+
+export interface SocketConnection {
+  organizationId: string;
+  userId: string;
+  socketId: string;
+}
+
+export interface HuddleParticipant {
+  channelId: string;
+  userId: string;
+}
+
+/**
+ * Shared real-time state: presence, typing, huddles and canvas cursors.
+ * With several backend instances every instance must see the same state, so
+ * it lives behind this interface (Redis in production, memory otherwise).
+ *
+ * Presence is counted per socket: a user with several tabs open comes online
+ * with their first socket and goes offline with their last.
+ */
+export interface SocketStateStore {
+  /** Returns true when this is the user's first socket */
+  addConnection(connection: SocketConnection): Promise<boolean>;
+  /** Returns true when this was the user's last socket */
+  removeConnection(connection: SocketConnection): Promise<boolean>;
+  /**
+   * Called periodically with this instance's sockets and the huddles they are
+   * in. Sockets and huddle participants that stop being refreshed (their
+   * instance crashed) expire instead of staying online or in the huddle.
+   */
+  refreshConnections(
+    connections: SocketConnection[],
+    huddles: HuddleParticipant[]
+  ): Promise<void>;
+  getOnlineUsers(organizationId: string): Promise<string[]>;
+  isOnline(organizationId: string, userId: string): Promise<boolean>;
+
+  setTyping(channelId: string, userId: string, ttlMs: number): Promise<void>;
+  /** Returns true when the user was typing */
+  clearTyping(channelId: string, userId: string): Promise<boolean>;
+
+  /** Both return the participants after the change */
+  joinHuddle(channelId: string, userId: string): Promise<string[]>;
+  leaveHuddle(channelId: string, userId: string): Promise<string[]>;
+  getHuddle(channelId: string): Promise<string[]>;
+
+  setCursor(channelId: string, userId: string, cursor: CanvasCursor): Promise<void>;
+  /** Returns true when the user had a cursor */
+  removeCursor(channelId: string, userId: string): Promise<boolean>;
+}
+
+let store: SocketStateStore = new MemorySocketState();
+
+export const setSocketState = (next: SocketStateStore): void => {
+  store = next;
+};
+
+export const getSocketState = (): SocketStateStore => store;
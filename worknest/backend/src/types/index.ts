@@ -6,6 +6,7 @@ export interface JWTPayload {
   organizationId: string;
   role: "ADMIN" | "EMPLOYEE";
   tokenVersion: number;
+  sessionId?: string;
   iat?: number;
   exp?: number;
 }
@@ -20,17 +21,97 @@ export interface AuthenticatedRequest extends Request {
 // Organization Types
 export type OrganizationStatus = "ACTIVE" | "SUSPENDED";
 export type OrganizationPlan = "FREE" | "PRO" | "ENTERPRISE";
+export type RetentionMode = "SOFT" | "HARD";
 
 // User Types
 export type UserRole = "ADMIN" | "EMPLOYEE";
 export type UserStatus = "ACTIVE" | "INVITED" | "BLOCKED";
 
+// Session Types
+export type SessionRevokeReason =
+  | "LOGOUT"
+  | "REVOKED"
+  | "IDLE_TIMEOUT"
+  | "EXPIRED"
+  | "TOKEN_REUSE";
+
 // Channel Types
 export type ChannelType = "PUBLIC" | "PRIVATE" | "DM";
 export type ChannelMemberRole = "ADMIN" | "MEMBER";
 
 // Message Types
-export type ContentType = "TEXT" | "FILE" | "SYSTEM" | "AUDIO";
+export type ContentType = "TEXT" | "FILE" | "SYSTEM" | "AUDIO" | "POLL";
+
+// Ephemeral messages go to a single user and are never stored
+export type EphemeralContentType = "EPHEMERAL";
+
+// A button on an ephemeral message. `action` names a handler registered with
+// the ephemeral service; buttons without one only dismiss the message.
+export interface EphemeralAction {
+  label: string;
+  style?: "primary" | "danger" | "default";
+  action?: string;
+  value?: Record<string, unknown>;
+}
+
+// Structured blocks attached to bot messages (see utils/messageBlocks.ts)
+export type MessageBlock =
+  | { type: "header"; text: string }
+  | { type: "section"; text: string }
+  | { type: "context"; text: string }
+  | { type: "fields"; fields: { title: string; value: string }[] }
+  | { type: "image"; url: string; alt?: string }
+  | { type: "divider" };
+
+// Identity of a message posted by an integration rather than a user
+export interface MessageBot {
+  incomingWebhookId: string;
+  name: string;
+  avatar?: string | null;
+}
+
+// Search Types
+export type SearchType =
+  | "all"
+  | "messages"
+  | "threads"
+  | "files"
+  | "wiki"
+  | "tasks";
+
+// Filters sent alongside the query text, persisted with search history
+export interface SearchFilterParams {
+  channelId?: string;
+  userId?: string;
+  type?: SearchType;
+}
+
+// Search text split into plain terms, "quoted phrases" and prefix* terms
+export interface ParsedSearchText {
+  terms: string[];
+  phrases: string[];
+  prefixes: string[];
+}
+
+export interface SearchFilters {
+  channelIds?: string[];
+  senderIds?: string[];
+  startDate?: Date;
+  endDate?: Date;
+  // Message-only filters; wiki pages and tasks are skipped when any is set
+  hasFile?: boolean;
+  hasLink?: boolean;
+  hasReaction?: boolean;
+  isPinned?: boolean;
+  isThread?: boolean;
+}
+
+// A query with its operators resolved, kept on saved searches so new
+// messages are matched without parsing it again
+export interface ResolvedSearch {
+  text: ParsedSearchText;
+  filters: SearchFilters;
+}
 
 // API Response Types
 export interface ApiResponse<T = unknown> {
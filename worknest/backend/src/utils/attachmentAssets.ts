@@ -0,0 +1,43 @@
+/**
+ * Attachment Assets
+ * Removes the Cloudinary assets behind message attachments when the messages
+ * are purged or their channel is deleted.
+ */
+
+import cloudinary from "../config/cloudinary.js";
+
+/**
+ * Mirrors the resource types chosen in upload.routes.ts
+ */
+export const attachmentResourceType = (
+  mimeType: string
+): "image" | "video" | "raw" => {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/") || mimeType.startsWith("audio/")) {
+    return "video";
+  }
+  return "raw";
+};
+
+/**
+ * Failures are logged and do not throw, otherwise a single missing asset
+ * would stall the purge or deletion that removes the messages
+ */
+export const destroyAttachmentAssets = async (
+  attachments: { type: string; public_id?: string }[]
+): Promise<void> => {
+  for (const attachment of attachments) {
+    if (!attachment.public_id) continue;
+
+    try {
+      await cloudinary.uploader.destroy(attachment.public_id, {
+        resource_type: attachmentResourceType(attachment.type),
+      });
+    } catch (error) {
+      console.error(
+        `Failed to delete Cloudinary asset ${attachment.public_id}:`,
+        error
+      );
+    }
+  }
+};
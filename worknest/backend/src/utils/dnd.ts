@@ -0,0 +1,46 @@
+/**
+ * Helper to check if current time is within DND range
+ * @param start "HH:mm"
+ * @param end "HH:mm"
+ * @param timezone User's timezone
+ */
+export function isWithinDND(
+  start: string,
+  end: string,
+  timezone: string = "UTC"
+): boolean {
+  if (!start || !end) return false;
+
+  try {
+    const now = new Date();
+    const formatter = new Intl.DateTimeFormat("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: false,
+      timeZone: timezone,
+    });
+
+    const parts = formatter.formatToParts(now);
+    const h = Number(parts.find((p) => p.type === "hour")?.value);
+    const m = Number(parts.find((p) => p.type === "minute")?.value);
+
+    const currentMinutes = h * 60 + m;
+
+    const [startH, startM] = start.split(":").map(Number);
+    const [endH, endM] = end.split(":").map(Number);
+
+    const startMinutes = startH * 60 + startM;
+    const endMinutes = endH * 60 + endM;
+
+    if (startMinutes < endMinutes) {
+      return currentMinutes >= startMinutes && currentMinutes <= endMinutes;
+    } else {
+      // Overlap midnight (e.g., 22:00 to 08:00)
+      return currentMinutes >= startMinutes || currentMinutes <= endMinutes;
+    }
+  } catch (error) {
+    console.error("DND check error:", error);
+    // Fallback to UTC/System if timezone is invalid
+    return false;
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Durations
+ * Parses the short durations used by slash commands, e.g. `30m`, `2h`,
+ * `1d 4h`, `90 minutes` or `in 2 hours`.
+ */
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const UNIT_ALIASES: Record<string, keyof typeof UNIT_MS> = {
+  s: "s",
+  sec: "s",
+  secs: "s",
+  second: "s",
+  seconds: "s",
+  m: "m",
+  min: "m",
+  mins: "m",
+  minute: "m",
+  minutes: "m",
+  h: "h",
+  hr: "h",
+  hrs: "h",
+  hour: "h",
+  hours: "h",
+  d: "d",
+  day: "d",
+  days: "d",
+  w: "w",
+  week: "w",
+  weeks: "w",
+};
+
+const PART_PATTERN = /(\d+(?:\.\d+)?)\s*([a-z]+)/g;
+
+/**
+ * Parse a duration into milliseconds, or null when the text is not a
+ * duration. A leading "in" and "and"/commas between parts are allowed.
+ */
+export const parseDuration = (input: string): number | null => {
+  const text = input
+    .trim()
+    .toLowerCase()
+    .replace(/^in\s+/, "")
+    .replace(/,|\band\b/g, " ");
+  if (!text) return null;
+
+  let total = 0;
+  let consumed = "";
+  for (const match of text.matchAll(PART_PATTERN)) {
+    const unit = UNIT_ALIASES[match[2]];
+    if (!unit) return null;
+    total += parseFloat(match[1]) * UNIT_MS[unit];
+    consumed += match[0];
+  }
+
+  // Every non-space character must belong to a number+unit part
+  if (consumed.replace(/\s/g, "") !== text.replace(/\s/g, "")) return null;
+  return total > 0 ? Math.round(total) : null;
+};
+
+/**
+ * Human-readable duration, largest two units, e.g. "2 hours 30 minutes"
+ */
+export const formatDuration = (ms: number): string => {
+  const units: [string, number][] = [
+    ["week", UNIT_MS.w],
+    ["day", UNIT_MS.d],
+    ["hour", UNIT_MS.h],
+    ["minute", UNIT_MS.m],
+    ["second", UNIT_MS.s],
+  ];
+
+  const parts: string[] = [];
+  let remaining = ms;
+  for (const [name, size] of units) {
+    const count = Math.floor(remaining / size);
+    if (count > 0) {
+      parts.push(`${count} ${name}${count === 1 ? "" : "s"}`);
+      remaining -= count * size;
+    }
+    if (parts.length === 2) break;
+  }
+  return parts.join(" ") || "0 seconds";
+};
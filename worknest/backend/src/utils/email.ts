@@ -3,6 +3,27 @@ import dotenv from "dotenv";
 
 dotenv.config();
 
+export interface DigestEmailEntry {
+  reason: "MENTION" | "DM" | "KEYWORD";
+  keyword?: string;
+  channelId: string;
+  channelName: string;
+  isDM: boolean;
+  // Parent message when the entry is a thread reply
+  threadId: string | null;
+  senderName: string;
+  content: string;
+  createdAt: Date;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
 /**
  * Email Service
  * Handles sending emails using Nodemailer
@@ -11,15 +32,18 @@ class EmailService {
   private transporter: nodemailer.Transporter;
 
   constructor() {
-    // For development, use Mailtrap or a similar service
-    // If no credentials are found, it will log to console
+    // For development, use Mailtrap or a similar service, or a local SMTP
+    // sink such as Mailpit (SMTP_HOST without SMTP_USER)
+    // If neither is configured, it will log to console
     this.transporter = nodemailer.createTransport({
       host: process.env.SMTP_HOST || "smtp.mailtrap.io",
       port: parseInt(process.env.SMTP_PORT || "2525"),
-      auth: {
-        user: process.env.SMTP_USER,
-        pass: process.env.SMTP_PASS,
-      },
+      auth: process.env.SMTP_USER
+        ? {
+            user: process.env.SMTP_USER,
+            pass: process.env.SMTP_PASS,
+          }
+        : undefined,
     });
   }
 
@@ -31,6 +55,7 @@ class EmailService {
     subject: string;
     text: string;
     html: string;
+    headers?: Record<string, string>;
   }): Promise<void> {
     const mailOptions = {
       from: `"WorkNest" <${process.env.EMAIL_FROM || "noreply@worknest.com"}>`,
@@ -38,10 +63,11 @@ class EmailService {
       subject: options.subject,
       text: options.text,
       html: options.html,
+      headers: options.headers,
     };
 
     try {
-      if (!process.env.SMTP_USER) {
+      if (!process.env.SMTP_USER && !process.env.SMTP_HOST) {
         console.log("-----------------------------------------");
         console.log("EMAIL SIMULATION (No SMTP credentials)");
         console.log(`To: ${options.to}`);
@@ -128,6 +154,130 @@ class EmailService {
       `,
     });
   }
+
+  /**
+   * Ask a member to confirm becoming their organization's owner
+   */
+  async sendOwnershipTransferEmail(
+    to: string,
+    transfer: {
+      userName: string;
+      ownerName: string;
+      orgName: string;
+      subdomain: string;
+      token: string;
+      expiresAt: Date;
+    }
+  ): Promise<void> {
+    const acceptUrl = `http://${transfer.subdomain}.${
+      process.env.BASE_DOMAIN || "localhost"
+    }:5173/transfer-ownership?token=${transfer.token}`;
+    const expires = transfer.expiresAt.toUTCString();
+
+    await this.sendEmail({
+      to,
+      subject: `${transfer.ownerName} wants to make you the owner of ${transfer.orgName}`,
+      text: `Hi ${transfer.userName}, ${transfer.ownerName} wants to transfer ownership of ${transfer.orgName} on WorkNest to you. Confirm it here before ${expires}: ${acceptUrl}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e1e1e1; border-radius: 10px;">
+          <h2 style="color: #4f46e5;">Become the owner of ${escapeHtml(transfer.orgName)}</h2>
+          <p>Hi ${escapeHtml(transfer.userName)},</p>
+          <p><strong>${escapeHtml(transfer.ownerName)}</strong> wants to transfer ownership of <strong>${escapeHtml(transfer.orgName)}</strong> on WorkNest to you. As the owner you will be an admin and the only one who can transfer the organization again.</p>
+          <div style="margin: 30px 0; text-align: center;">
+            <a href="${acceptUrl}" style="background-color: #4f46e5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; font-weight: bold;">Accept Ownership</a>
+          </div>
+          <p>Or copy this link into your browser:</p>
+          <p style="font-size: 12px; color: #6b7280; word-break: break-all;">${acceptUrl}</p>
+          <hr style="border: 0; border-top: 1px solid #e1e1e1; margin: 20px 0;">
+          <p style="font-size: 12px; color: #6b7280;">This link expires on ${expires}. If you don't want to become the owner, you can ignore this email.</p>
+        </div>
+      `,
+    });
+  }
+
+  /**
+   * Send a digest of unread mentions, direct messages and keyword hits
+   */
+  async sendDigestEmail(
+    to: string,
+    digest: {
+      userName: string;
+      orgName: string;
+      subdomain: string;
+      entries: DigestEmailEntry[];
+      moreCount: number;
+      unsubscribeUrl: string;
+    }
+  ): Promise<void> {
+    const workspaceUrl = `http://${digest.subdomain}.${
+      process.env.BASE_DOMAIN || "localhost"
+    }:5173`;
+    const linkTo = (entry: DigestEmailEntry) =>
+      `${workspaceUrl}/chat?channel=${entry.channelId}${
+        entry.threadId ? `&thread=${entry.threadId}` : ""
+      }`;
+    const describe = (entry: DigestEmailEntry) => {
+      const where = entry.isDM ? "in a direct message" : `in #${entry.channelName}`;
+      if (entry.reason === "DM") return `${entry.senderName} messaged you`;
+      if (entry.reason === "KEYWORD") {
+        return `${entry.senderName} mentioned "${entry.keyword}" ${where}`;
+      }
+      return `${entry.senderName} mentioned you ${where}${
+        entry.threadId ? " (thread)" : ""
+      }`;
+    };
+
+    const total = digest.entries.length + digest.moreCount;
+    const subject = `You have ${total} unread ${
+      total === 1 ? "notification" : "notifications"
+    } in ${digest.orgName}`;
+    const more = digest.moreCount > 0 ? `And ${digest.moreCount} more.` : "";
+
+    const text = [
+      `Hi ${digest.userName},`,
+      "",
+      `Here's what you missed in ${digest.orgName}:`,
+      "",
+      ...digest.entries.map(
+        (entry) =>
+          `${describe(entry)}:\n  "${entry.content}"\n  ${linkTo(entry)}\n`
+      ),
+      ...(more ? [more, ""] : []),
+      `Stop these emails: ${digest.unsubscribeUrl}`,
+    ].join("\n");
+
+    const items = digest.entries
+      .map(
+        (entry) => `
+          <div style="margin: 0 0 16px; padding: 12px 15px; background-color: #f3f4f6; border-radius: 5px;">
+            <p style="margin: 0 0 6px; font-size: 13px; color: #6b7280;">${escapeHtml(describe(entry))}</p>
+            <p style="margin: 0 0 8px; white-space: pre-wrap;">${escapeHtml(entry.content)}</p>
+            <a href="${linkTo(entry)}" style="color: #4f46e5; font-weight: bold; text-decoration: none; font-size: 13px;">Open in WorkNest</a>
+          </div>`
+      )
+      .join("");
+
+    await this.sendEmail({
+      to,
+      subject,
+      text,
+      headers: {
+        "List-Unsubscribe": `<${digest.unsubscribeUrl}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      },
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #e1e1e1; border-radius: 10px;">
+          <h2 style="color: #4f46e5;">Here's what you missed</h2>
+          <p>Hi ${escapeHtml(digest.userName)},</p>
+          <p>You have unread messages in <strong>${escapeHtml(digest.orgName)}</strong>:</p>
+          ${items}
+          ${more ? `<p style="color: #6b7280;">${more}</p>` : ""}
+          <hr style="border: 0; border-top: 1px solid #e1e1e1; margin: 20px 0;">
+          <p style="font-size: 12px; color: #6b7280;">You're receiving this because email notifications are on. <a href="${digest.unsubscribeUrl}" style="color: #6b7280;">Unsubscribe</a></p>
+        </div>
+      `,
+    });
+  }
 }
 
 export const emailService = new EmailService();
@@ -1,3 +1,13 @@
 export * from "./AppError.js";
 export { asyncHandler } from "./asyncHandler.js";
-export { emailService } from "./email.js";
+export { emailService, DigestEmailEntry } from "./email.js";
+export * from "./passwordPolicy.js";
+export * from "./searchQuery.js";
+export * from "./messageBlocks.js";
+export * from "./duration.js";
+export * from "./dnd.js";
+export * from "./timezone.js";
+export * from "./naturalTime.js";
+export * from "./messageContent.js";
+export * from "./attachmentAssets.js";
+export * from "./populate.js";
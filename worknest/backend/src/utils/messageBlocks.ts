@@ -0,0 +1,139 @@
+/**
+ * Message Blocks
+ * Validates the structured blocks integrations can attach to a message and
+ * derives the plain-text fallback that search and notifications use.
+ */
+
+import xss from "xss";
+import { MessageBlock } from "../types/index.js";
+import { BadRequestError } from "./AppError.js";
+
+export const MAX_MESSAGE_BLOCKS = 20;
+export const MAX_BLOCK_FIELDS = 10;
+const MAX_BLOCK_TEXT = 3000;
+const MAX_FIELD_TEXT = 500;
+
+const BLOCK_TYPES = [
+  "header",
+  "section",
+  "context",
+  "fields",
+  "image",
+  "divider",
+] as const;
+
+const readText = (value: unknown, label: string, max: number): string => {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new BadRequestError(`${label} must be a non-empty string.`);
+  }
+  if (value.length > max) {
+    throw new BadRequestError(`${label} cannot exceed ${max} characters.`);
+  }
+  return xss(value.trim());
+};
+
+export const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== "string") return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validate raw blocks from a request body. Throws a BadRequestError naming
+ * the first invalid block.
+ */
+export const parseMessageBlocks = (input: unknown): MessageBlock[] => {
+  if (input === undefined || input === null) return [];
+  if (!Array.isArray(input)) {
+    throw new BadRequestError("blocks must be an array.");
+  }
+  if (input.length > MAX_MESSAGE_BLOCKS) {
+    throw new BadRequestError(
+      `A message can have up to ${MAX_MESSAGE_BLOCKS} blocks.`
+    );
+  }
+
+  return input.map((raw, index): MessageBlock => {
+    const label = `blocks[${index}]`;
+    const type = raw?.type;
+    if (!(BLOCK_TYPES as readonly string[]).includes(type)) {
+      throw new BadRequestError(
+        `${label}.type must be one of ${BLOCK_TYPES.join(", ")}.`
+      );
+    }
+
+    switch (type as MessageBlock["type"]) {
+      case "header":
+        return { type, text: readText(raw.text, `${label}.text`, 150) };
+      case "section":
+      case "context":
+        return {
+          type,
+          text: readText(raw.text, `${label}.text`, MAX_BLOCK_TEXT),
+        };
+      case "fields": {
+        if (
+          !Array.isArray(raw.fields) ||
+          raw.fields.length === 0 ||
+          raw.fields.length > MAX_BLOCK_FIELDS
+        ) {
+          throw new BadRequestError(
+            `${label}.fields must have 1 to ${MAX_BLOCK_FIELDS} entries.`
+          );
+        }
+        return {
+          type: "fields",
+          fields: raw.fields.map((field: any, i: number) => ({
+            title: readText(field?.title, `${label}.fields[${i}].title`, 100),
+            value: readText(
+              field?.value,
+              `${label}.fields[${i}].value`,
+              MAX_FIELD_TEXT
+            ),
+          })),
+        };
+      }
+      case "image":
+        if (!isHttpUrl(raw.url)) {
+          throw new BadRequestError(`${label}.url must be an http(s) URL.`);
+        }
+        return {
+          type: "image",
+          url: raw.url,
+          alt:
+            raw.alt !== undefined
+              ? readText(raw.alt, `${label}.alt`, 200)
+              : undefined,
+        };
+      default:
+        return { type: "divider" };
+    }
+  });
+};
+
+/**
+ * Plain-text rendering of blocks, used as the message content when an
+ * integration sends blocks without text
+ */
+export const blocksToText = (blocks: MessageBlock[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case "header":
+        case "section":
+        case "context":
+          return block.text;
+        case "fields":
+          return block.fields.map((f) => `${f.title}: ${f.value}`).join("\n");
+        case "image":
+          return block.alt || "";
+        default:
+          return "";
+      }
+    })
+    .filter(Boolean)
+    .join("\n");
@@ -0,0 +1,14 @@
+/**
+ * Message Content
+ * Message text is markdown that clients render as text, never as HTML. The
+ * default xss() whitelist keeps tags like <b> and <div> and strips their
+ * attributes, which changes code in a message; here no tag is allowed, so
+ * every < and > is escaped and the client turns them back into characters.
+ */
+
+import { FilterXSS } from "xss";
+
+const messageFilter = new FilterXSS({ whiteList: {} });
+
+export const sanitizeMessageContent = (content: string): string =>
+  messageFilter.process(content);
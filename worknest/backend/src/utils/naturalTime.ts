@@ -0,0 +1,171 @@
+/**
+ * Natural times
+ * Parses when something should happen, as typed by a person: a duration
+ * ("in 2 hours", "30m") or a day and time on the user's clock ("tomorrow",
+ * "at 5pm", "next Monday 9am", "Oct 20 at 14:30", "2026-10-20").
+ */
+import { parseDuration } from "./duration.js";
+import { zonedDateParts, zonedTimeToDate } from "./timezone.js";
+
+// Used when only a day is given
+const DEFAULT_TIME = "09:00";
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const TIME_PATTERN = /^(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MONTH_DAY_PATTERN = /^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?$/;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+};
+
+// "9am", "9:30 pm", "14:00", "at noon" as "HH:mm"
+const parseClockTime = (text: string): string | null => {
+  const word = text.replace(/^at\s+/, "");
+  if (word === "noon") return "12:00";
+  if (word === "midnight") return "00:00";
+
+  const match = TIME_PATTERN.exec(text);
+  if (!match) return null;
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2] || 0);
+  const meridiem = match[3];
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === "pm" ? 12 : 0);
+  } else if (hour > 23 || match[2] === undefined) {
+    // A bare hour such as "5" could be morning or evening
+    return null;
+  }
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+interface DaySpec {
+  date: string;
+  // Default time of day, e.g. "tonight"
+  time?: string;
+  // Days to move forward by when the time has already passed
+  rollOver?: number;
+}
+
+const parseDay = (
+  text: string,
+  today: string,
+  todayWeekday: number
+): DaySpec | null => {
+  const word = text.replace(/^on\s+/, "");
+  if (word === "today") return { date: today };
+  if (word === "tonight") return { date: today, time: "20:00" };
+  if (word === "tomorrow") return { date: addDays(today, 1) };
+  if (word === "next week") {
+    return { date: addDays(today, (8 - todayWeekday) % 7 || 7) };
+  }
+
+  // "friday", "fri", "next friday"
+  const weekdayMatch = /^(next\s+)?([a-z]{3,})$/.exec(word);
+  if (weekdayMatch) {
+    const weekday = WEEKDAYS.findIndex((name) =>
+      name.startsWith(weekdayMatch[2])
+    );
+    if (weekday !== -1) {
+      const ahead = (weekday - todayWeekday + 7) % 7;
+      if (ahead > 0) return { date: addDays(today, ahead) };
+      return weekdayMatch[1]
+        ? { date: addDays(today, 7) }
+        : { date: today, rollOver: 7 };
+    }
+  }
+
+  if (ISO_DATE_PATTERN.test(word)) return { date: word };
+
+  // "oct 20", "October 20th"
+  const monthDayMatch = MONTH_DAY_PATTERN.exec(word);
+  if (monthDayMatch) {
+    const month = MONTHS.indexOf(monthDayMatch[1].slice(0, 3)) + 1;
+    const day = Number(monthDayMatch[2]);
+    if (month === 0 || day < 1 || day > 31) return null;
+
+    // A day that has passed this year means next year
+    const year = Number(today.slice(0, 4));
+    const date = `${year}-${pad(month)}-${pad(day)}`;
+    return { date: date < today ? `${year + 1}-${pad(month)}-${pad(day)}` : date };
+  }
+
+  return null;
+};
+
+/**
+ * The instant described by `input` in the user's timezone, or null when it
+ * does not read as a time. A day without a time means 9:00 AM, and a time
+ * that has already passed today means tomorrow.
+ */
+export const parseNaturalTime = (
+  input: string,
+  timeZone: string,
+  now: Date = new Date()
+): Date | null => {
+  const text = input.trim().toLowerCase().replace(/,/g, " ").replace(/\s+/g, " ");
+  if (!text) return null;
+
+  const duration = parseDuration(text);
+  if (duration !== null) return new Date(now.getTime() + duration);
+
+  const { date: today, weekday } = zonedDateParts(now, timeZone);
+  const words = text.split(" ");
+
+  // A day and a time of day in either order: "tomorrow at 9am", "5pm friday"
+  for (let split = 0; split <= words.length; split++) {
+    const head = words.slice(0, split).join(" ");
+    const tail = words.slice(split).join(" ");
+
+    for (const [dayText, timeText] of [
+      [head, tail],
+      [tail, head],
+    ]) {
+      const day: DaySpec | null = dayText
+        ? parseDay(dayText, today, weekday)
+        : { date: today, rollOver: 1 };
+      const time = timeText ? parseClockTime(timeText) : day?.time || DEFAULT_TIME;
+      if (!day || !time || (!dayText && !timeText)) continue;
+
+      const result = zonedTimeToDate(`${day.date}T${time}`, timeZone);
+      if (result && result <= now && day.rollOver) {
+        return zonedTimeToDate(`${addDays(day.date, day.rollOver)}T${time}`, timeZone);
+      }
+      return result;
+    }
+  }
+
+  return null;
+};
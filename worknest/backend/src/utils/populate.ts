@@ -0,0 +1,25 @@
+import mongoose from "mongoose";
+
+interface WithId {
+  _id: mongoose.Types.ObjectId;
+}
+
+// A reference field that may have been populated with its document
+export type Ref<T extends WithId> = mongoose.Types.ObjectId | T;
+
+/**
+ * Whether a reference field holds its populated document rather than an id
+ */
+export const isPopulated = <T extends WithId>(
+  ref: Ref<T> | null | undefined
+): ref is T => !!ref && !(ref instanceof mongoose.Types.ObjectId);
+
+/**
+ * The id behind a reference field, populated or not
+ */
+export const refId = (
+  ref: Ref<WithId> | null | undefined
+): mongoose.Types.ObjectId | null => {
+  if (!ref) return null;
+  return isPopulated(ref) ? ref._id : ref;
+};
@@ -0,0 +1,147 @@
+/**
+ * Search Query Language
+ * Splits a raw search string like `deploy from:@asha in:#ops has:file` into
+ * free text and operators. Resolving names to IDs is left to the search
+ * service; unknown operators stay part of the free text.
+ */
+
+export type SearchHasOperator = "file" | "link" | "reaction";
+export type SearchIsOperator = "pinned" | "thread";
+
+export interface ParsedSearchQuery {
+  text: string;
+  from: string[];
+  in: string[];
+  has: SearchHasOperator[];
+  is: SearchIsOperator[];
+  before?: Date;
+  after?: Date;
+  on?: Date;
+  invalid: string[];
+}
+
+export const SEARCH_OPERATORS = [
+  "from",
+  "in",
+  "has",
+  "is",
+  "before",
+  "after",
+  "on",
+] as const;
+
+export const SEARCH_HAS_VALUES: SearchHasOperator[] = [
+  "file",
+  "link",
+  "reaction",
+];
+export const SEARCH_IS_VALUES: SearchIsOperator[] = ["pinned", "thread"];
+
+// operator:value or operator:"quoted value"
+const OPERATOR_PATTERN = new RegExp(
+  `(?:^|\\s)(${SEARCH_OPERATORS.join("|")}):(?:"([^"]*)"|(\\S*))`,
+  "gi"
+);
+
+/**
+ * Parse a date operator value: YYYY-MM-DD, "today" or "yesterday".
+ * Returns the start of that day in server time.
+ */
+export const parseSearchDate = (value: string): Date | undefined => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const normalized = value.toLowerCase();
+  if (normalized === "today") return today;
+  if (normalized === "yesterday") {
+    return new Date(today.getTime() - 24 * 60 * 60 * 1000);
+  }
+
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  if (!match) return undefined;
+
+  const date = new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3])
+  );
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Strip the @ / # sigils people type in front of users and channels
+ */
+const stripSigil = (value: string): string =>
+  value.replace(/^[@#]/, "").trim().toLowerCase();
+
+export const parseSearchQuery = (raw: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = {
+    text: "",
+    from: [],
+    in: [],
+    has: [],
+    is: [],
+    invalid: [],
+  };
+
+  const text = raw.replace(
+    OPERATOR_PATTERN,
+    (token, name: string, quoted?: string, bare?: string) => {
+      const operator = name.toLowerCase();
+      const value = (quoted ?? bare ?? "").trim();
+
+      // A bare "from:" while the user is still typing is not an operator yet
+      if (!value) return token;
+
+      switch (operator) {
+        case "from":
+          parsed.from.push(stripSigil(value));
+          break;
+        case "in":
+          // Keep "@" so in:@person can be told apart from a channel name
+          parsed.in.push(value.replace(/^#/, "").trim().toLowerCase());
+          break;
+        case "has": {
+          const has = value.toLowerCase() as SearchHasOperator;
+          if (SEARCH_HAS_VALUES.includes(has)) {
+            if (!parsed.has.includes(has)) parsed.has.push(has);
+          } else {
+            parsed.invalid.push(token.trim());
+          }
+          break;
+        }
+        case "is": {
+          const is = value.toLowerCase() as SearchIsOperator;
+          if (SEARCH_IS_VALUES.includes(is)) {
+            if (!parsed.is.includes(is)) parsed.is.push(is);
+          } else {
+            parsed.invalid.push(token.trim());
+          }
+          break;
+        }
+        default: {
+          const date = parseSearchDate(value);
+          if (!date) {
+            parsed.invalid.push(token.trim());
+            break;
+          }
+          parsed[operator as "before" | "after" | "on"] = date;
+        }
+      }
+
+      return " ";
+    }
+  );
+
+  parsed.text = text.replace(/\s+/g, " ").trim();
+  return parsed;
+};
+
+export const hasSearchOperators = (parsed: ParsedSearchQuery): boolean =>
+  parsed.from.length > 0 ||
+  parsed.in.length > 0 ||
+  parsed.has.length > 0 ||
+  parsed.is.length > 0 ||
+  !!parsed.before ||
+  !!parsed.after ||
+  !!parsed.on;
@@ -0,0 +1,107 @@
+/**
+ * Timezones
+ * Converts wall-clock times picked in a user's timezone (profile.timezone)
+ * to instants, using the IANA zone names Intl understands.
+ */
+
+const LOCAL_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+const zoneOffsetMs = (instant: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * The instant a local "YYYY-MM-DDTHH:mm" time happens in the timezone, or
+ * null when the input is malformed. A time skipped or repeated by a DST change
+ * resolves to an instant within the hour around it.
+ */
+export const zonedTimeToDate = (
+  localTime: string,
+  timeZone: string
+): Date | null => {
+  const match = LOCAL_TIME_PATTERN.exec(localTime.trim());
+  if (!match || !isValidTimeZone(timeZone)) return null;
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second || 0);
+  if (new Date(asUtc).getUTCDate() !== day) return null;
+
+  // The offset can differ either side of a DST change, so check it again at
+  // the first guess
+  let instant = asUtc - zoneOffsetMs(asUtc, timeZone);
+  const offset = zoneOffsetMs(instant, timeZone);
+  if (offset !== asUtc - instant) {
+    instant = asUtc - offset;
+  }
+  return new Date(instant);
+};
+
+/**
+ * The calendar date ("YYYY-MM-DD") and weekday (0 = Sunday) of an instant in
+ * the timezone
+ */
+export const zonedDateParts = (
+  date: Date,
+  timeZone: string
+): { date: string; weekday: number } => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+  }).formatToParts(date);
+  const get = (type: string) =>
+    parts.find((part) => part.type === type)?.value || "";
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(
+      get("weekday")
+    ),
+  };
+};
+
+/**
+ * An instant as the timezone's clock shows it, e.g. "Tue, Oct 20, 9:00 AM"
+ */
+export const formatZonedTime = (date: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(date);
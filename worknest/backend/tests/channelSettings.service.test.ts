@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import { Organization } from "../src/models/index.js";
+import { channelSettingsService } from "../src/services/channelSettings.service.js";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const organizationId = new mongoose.Types.ObjectId().toString();
+
+const mockPolicy = (allowPrivateChannels: boolean) =>
+  mock.method(Organization, "findById", () => ({
+    select: async () => ({
+      settings: { channelPolicies: { allowPrivateChannels } },
+    }),
+  }));
+
+describe("private channel policy", () => {
+  it("refuses members", async () => {
+    const findById = mockPolicy(true);
+
+    await assert.rejects(
+      channelSettingsService.assertPrivateAllowed(organizationId, "EMPLOYEE"),
+      { statusCode: 403, message: "Only admins can create private channels." }
+    );
+    assert.equal(findById.mock.callCount(), 0);
+  });
+
+  it("lets admins create private channels by default", async () => {
+    mockPolicy(true);
+
+    await channelSettingsService.assertPrivateAllowed(organizationId, "ADMIN");
+  });
+
+  it("refuses admins when the organization disables private channels", async () => {
+    mockPolicy(false);
+
+    await assert.rejects(
+      channelSettingsService.assertPrivateAllowed(organizationId, "ADMIN"),
+      {
+        statusCode: 403,
+        message: "Your organization does not allow private channels.",
+      }
+    );
+  });
+});
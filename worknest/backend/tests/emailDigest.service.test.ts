@@ -0,0 +1,222 @@
+import assert from "node:assert/strict";
+import net from "node:net";
+import { after, afterEach, before, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+// A local SMTP sink that accepts every message
+const received: ReceivedMail[] = [];
+const sink = net.createServer((socket) => {
+  let buffer = "";
+  let mail: ReceivedMail = { from: "", to: [], data: "" };
+  let inData = false;
+
+  socket.write("220 localhost ESMTP sink\r\n");
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString();
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      if (inData) {
+        if (line === ".") {
+          inData = false;
+          received.push(mail);
+          mail = { from: "", to: [], data: "" };
+          socket.write("250 OK\r\n");
+        } else {
+          mail.data += `${line}\n`;
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === "EHLO" || command === "HELO") {
+        socket.write("250 localhost\r\n");
+      } else if (command === "MAIL") {
+        mail.from = line.slice(10);
+        socket.write("250 OK\r\n");
+      } else if (command === "RCPT") {
+        mail.to.push(line.slice(8));
+        socket.write("250 OK\r\n");
+      } else if (command === "DATA") {
+        inData = true;
+        socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+      } else if (command === "QUIT") {
+        socket.end("221 Bye\r\n");
+      } else {
+        socket.write("250 OK\r\n");
+      }
+    }
+  });
+});
+
+// The modules are loaded once the sink is listening, since the email
+// transport reads its SMTP settings on import
+type EmailDigestModule =
+  typeof import("../src/services/emailDigest.service.js");
+let models: typeof import("../src/models/index.js");
+let emailDigestService: EmailDigestModule["emailDigestService"];
+
+before(async () => {
+  await new Promise<void>((resolve) => sink.listen(0, "127.0.0.1", resolve));
+  process.env.SMTP_HOST = "127.0.0.1";
+  process.env.SMTP_PORT = String((sink.address() as net.AddressInfo).port);
+  process.env.SMTP_USER = "";
+
+  models = await import("../src/models/index.js");
+  ({ emailDigestService } = await import(
+    "../src/services/emailDigest.service.js"
+  ));
+});
+
+after(() => {
+  sink.close();
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  received.length = 0;
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// One user with one queued mention, served through mocked models
+const mockQueue = (options: { claimed?: boolean; lastSeenAt?: Date } = {}) => {
+  const { DigestItem, User, Organization, Message, ChannelMember, Channel } =
+    models;
+  const userId = new mongoose.Types.ObjectId();
+  const channelId = new mongoose.Types.ObjectId();
+  const item = {
+    _id: new mongoose.Types.ObjectId(),
+    userId,
+    channelId,
+    messageId: new mongoose.Types.ObjectId(),
+    parentMessageId: null,
+    reason: "MENTION",
+  };
+
+  mock.method(DigestItem, "findDueUserIds", async () => [userId]);
+  mock.method(DigestItem, "find", () => ({
+    sort: () => ({ select: async () => [{ _id: item._id }] }),
+  }));
+  const claim = mock.method(DigestItem, "findOneAndUpdate", async () =>
+    options.claimed === false ? null : item
+  );
+  const updateMany = mock.method(DigestItem, "updateMany", async () => ({
+    modifiedCount: 0,
+  }));
+  const deleteMany = mock.method(DigestItem, "deleteMany", async () => ({
+    deletedCount: 1,
+  }));
+
+  mock.method(User, "findById", async () => ({
+    _id: userId,
+    name: "Ada",
+    email: "ada@example.com",
+    status: "ACTIVE",
+    organizationId: new mongoose.Types.ObjectId(),
+    lastSeenAt: options.lastSeenAt || new Date(Date.now() - 2 * HOUR_MS),
+    settings: { notifications: { email: true } },
+  }));
+  mock.method(Organization, "findById", async () => ({
+    name: "Acme",
+    subdomain: "acme",
+    status: "ACTIVE",
+    settings: {},
+  }));
+  const findMessages = mock.method(Message, "find", () => ({
+    populate: async () => [
+      {
+        _id: item.messageId,
+        content: "@Ada the deploy is done",
+        senderId: { name: "Grace" },
+        createdAt: new Date(Date.now() - HOUR_MS),
+      },
+    ],
+  }));
+  mock.method(ChannelMember, "find", async () => [
+    { channelId, lastReadAt: null, notifications: {} },
+  ]);
+  mock.method(Channel, "find", () => ({
+    select: async () => [{ _id: channelId, name: "releases", type: "PUBLIC" }],
+  }));
+
+  return { item, userId, claim, updateMany, deleteMany, findMessages };
+};
+
+describe("email digests", () => {
+  it("emails unread items over SMTP and removes them", async () => {
+    const { item, userId, claim, updateMany, deleteMany } = mockQueue();
+
+    assert.equal(await emailDigestService.sendDue(), 1);
+
+    assert.equal(received.length, 1);
+    const [mail] = received;
+    assert.deepEqual(mail.to, ["<ada@example.com>"]);
+    assert.match(mail.data, /Subject: You have 1 unread notification in Acme/);
+    assert.match(mail.data, /List-Unsubscribe:\s+<http/);
+    assert.match(mail.data, /Grace mentioned you in #releases/);
+    assert.match(mail.data, /the deploy is done/);
+
+    // Claimed before sending, deleted once sent
+    assert.deepEqual(claim.mock.calls[0].arguments[0], {
+      _id: item._id,
+      status: "PENDING",
+    });
+    const [, claimUpdate] = claim.mock.calls[0].arguments as any[];
+    assert.equal(claimUpdate.$set.status, "SENDING");
+    const [sent] = deleteMany.mock.calls.at(-1)!.arguments as any[];
+    assert.deepEqual(sent, { _id: { $in: [item._id.toString()] } });
+
+    // The release after the run only matches this run's claims
+    const [release] = updateMany.mock.calls.at(-1)!.arguments as any[];
+    assert.deepEqual(release, {
+      userId: userId.toString(),
+      status: "SENDING",
+      claimedAt: claimUpdate.$set.claimedAt,
+    });
+  });
+
+  it("skips items another run has claimed", async () => {
+    const { findMessages } = mockQueue({ claimed: false });
+
+    assert.equal(await emailDigestService.sendDue(), 0);
+
+    assert.equal(received.length, 0);
+    assert.equal(findMessages.mock.callCount(), 0);
+  });
+
+  it("queues claims of interrupted runs again", async () => {
+    const { updateMany } = mockQueue({ claimed: false });
+
+    const started = Date.now();
+    await emailDigestService.sendDue();
+
+    const [filter, update] = updateMany.mock.calls[0].arguments as any[];
+    assert.equal(filter.status, "SENDING");
+    const staleBefore = started - filter.claimedAt.$lt.getTime();
+    assert.ok(staleBefore >= 15 * 60 * 1000 - 1000, `was ${staleBefore}`);
+    assert.deepEqual(update, { $set: { status: "PENDING", claimedAt: null } });
+  });
+
+  it("puts items back while the user is active", async () => {
+    const { updateMany, deleteMany } = mockQueue({ lastSeenAt: new Date() });
+
+    assert.equal(await emailDigestService.sendDue(), 0);
+
+    assert.equal(received.length, 0);
+    // Nothing was read or sent, so nothing is deleted
+    const [done] = deleteMany.mock.calls[0].arguments as any[];
+    assert.deepEqual(done, { _id: { $in: [] } });
+    const [release, update] = updateMany.mock.calls.at(-1)!.arguments as any[];
+    assert.equal(release.status, "SENDING");
+    assert.deepEqual(update, { $set: { status: "PENDING", claimedAt: null } });
+  });
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { setImmediate } from "node:timers/promises";
+import { afterEach, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import { AuditLog, Organization, User } from "../src/models/index.js";
+import { organizationAdminService } from "../src/services/organizationAdmin.service.js";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const organizationId = new mongoose.Types.ObjectId().toString();
+
+// An organization with the given admins, kept in memory behind mocked models
+const mockOrganization = (adminCount: number) => {
+  const owner = new mongoose.Types.ObjectId();
+  const admins = Array.from({ length: adminCount }, (_, i) => ({
+    _id: new mongoose.Types.ObjectId(),
+    name: `Admin ${i + 1}`,
+    role: "ADMIN",
+    status: "ACTIVE",
+    save: async () => undefined,
+  }));
+  let lockedUntil: Date | null = null;
+
+  mock.method(Organization, "findById", () => ({
+    select: async () => ({ _id: organizationId, ownerId: owner }),
+  }));
+  mock.method(
+    Organization,
+    "findOneAndUpdate",
+    async (_filter: any, update: any) => {
+      if (lockedUntil && lockedUntil >= new Date()) return null;
+      lockedUntil = update.$set.adminChangeLockedUntil;
+      return { _id: organizationId };
+    }
+  );
+  mock.method(Organization, "updateOne", async (filter: any) => {
+    if (filter.adminChangeLockedUntil === lockedUntil) lockedUntil = null;
+    return { modifiedCount: 1 };
+  });
+
+  mock.method(User, "findOne", async (filter: any) =>
+    admins.find((a) => a._id.toString() === filter._id)
+  );
+  mock.method(User, "countDocuments", async (filter: any) => {
+    // Let other requests run between the count and the change
+    await setImmediate();
+    return admins.filter(
+      (a) =>
+        a.role === "ADMIN" &&
+        a.status === "ACTIVE" &&
+        a._id.toString() !== filter._id.$ne
+    ).length;
+  });
+  mock.method(AuditLog, "create", async () => ({}));
+
+  return { admins, isLocked: () => lockedUntil !== null };
+};
+
+describe("last admin guard", () => {
+  it("refuses to demote the last active admin", async () => {
+    const { admins, isLocked } = mockOrganization(1);
+
+    await assert.rejects(
+      organizationAdminService.demote(
+        organizationId,
+        admins[0]._id.toString(),
+        admins[0]._id.toString()
+      ),
+      { statusCode: 400, message: /at least one active admin/ }
+    );
+    assert.equal(admins[0].role, "ADMIN");
+    assert.equal(isLocked(), false);
+  });
+
+  it("keeps one admin when two demotions run at once", async () => {
+    const { admins, isLocked } = mockOrganization(2);
+    const [first, second] = admins.map((a) => a._id.toString());
+
+    const results = await Promise.allSettled([
+      organizationAdminService.demote(organizationId, second, first),
+      organizationAdminService.demote(organizationId, first, second),
+    ]);
+
+    assert.equal(results.filter((r) => r.status === "fulfilled").length, 1);
+    assert.equal(admins.filter((a) => a.role === "ADMIN").length, 1);
+    assert.equal(isLocked(), false);
+  });
+
+  it("refuses to block the last active admin", async () => {
+    const { admins } = mockOrganization(1);
+
+    await assert.rejects(
+      organizationAdminService.block(organizationId, admins[0] as any),
+      { statusCode: 400 }
+    );
+    assert.equal(admins[0].status, "ACTIVE");
+  });
+
+  it("blocks an admin when another one stays", async () => {
+    const { admins } = mockOrganization(2);
+
+    await organizationAdminService.block(organizationId, admins[0] as any);
+
+    assert.equal(admins[0].status, "BLOCKED");
+  });
+});
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import { Channel, ChannelMember, Reminder } from "../src/models/index.js";
+import { reminderService } from "../src/services/reminder.service.js";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const organizationId = new mongoose.Types.ObjectId().toString();
+const userId = new mongoose.Types.ObjectId().toString();
+const channelId = new mongoose.Types.ObjectId().toString();
+
+const input = () => ({
+  organizationId,
+  userId,
+  channelId,
+  text: "check the build",
+  remindAt: new Date(Date.now() + 60 * 60 * 1000),
+});
+
+describe("reminders set from a channel", () => {
+  it("are refused for channels of other organizations", async () => {
+    const exists = mock.method(Channel, "exists", async () => null);
+    const create = mock.method(Reminder, "create");
+
+    await assert.rejects(reminderService.create(input()), {
+      statusCode: 404,
+    });
+    assert.deepEqual(exists.mock.calls[0].arguments[0], {
+      _id: channelId,
+      organizationId,
+    });
+    assert.equal(create.mock.callCount(), 0);
+  });
+
+  it("are refused for channels the user is not in", async () => {
+    mock.method(Channel, "exists", async () => ({ _id: channelId }));
+    mock.method(ChannelMember, "isMember", async () => false);
+    const create = mock.method(Reminder, "create");
+
+    await assert.rejects(reminderService.create(input()), {
+      statusCode: 403,
+    });
+    assert.equal(create.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import { Channel, Message, Organization } from "../src/models/index.js";
+import { retentionService } from "../src/services/retention.service.js";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const organizationId = new mongoose.Types.ObjectId().toString();
+const channelId = new mongoose.Types.ObjectId();
+
+// A HARD mode organization keeping 30 days, with one channel whose expired
+// messages are `expired`
+const mockChannel = (expired: Record<string, unknown>[]) => {
+  mock.method(Organization, "findById", async () => ({
+    settings: {
+      channelPolicies: { messageRetentionDays: 30, retentionMode: "HARD" },
+    },
+  }));
+  mock.method(Channel, "find", () => ({
+    select: async () => [{ _id: channelId, name: "general", type: "PUBLIC" }],
+  }));
+
+  const filters: Record<string, any>[] = [];
+  mock.method(Message, "find", (filter: Record<string, any>) => {
+    filters.push(filter);
+    const batch = filters.length === 1 ? expired : [];
+    const chain = {
+      sort: () => chain,
+      limit: () => chain,
+      select: () => chain,
+      lean: async () => batch,
+    };
+    return chain;
+  });
+  const deleteMany = mock.method(Message, "deleteMany", async () => ({
+    deletedCount: 0,
+  }));
+  const updateMany = mock.method(Message, "updateMany", async () => ({
+    modifiedCount: 0,
+  }));
+
+  return { filters, deleteMany, updateMany };
+};
+
+describe("hard retention", () => {
+  it("tombstones parents of active threads and skips them later", async () => {
+    const activeParent = {
+      _id: new mongoose.Types.ObjectId(),
+      parentMessageId: null,
+      lastThreadReplyAt: new Date(),
+    };
+    const old = { _id: new mongoose.Types.ObjectId(), parentMessageId: null };
+    const { filters, deleteMany, updateMany } = mockChannel([
+      activeParent,
+      old,
+    ]);
+
+    const report = await retentionService.purgeOrganization(organizationId);
+
+    assert.equal(report.totals.messages, 2);
+    const [deleted] = deleteMany.mock.calls[0].arguments as any[];
+    assert.deepEqual(deleted, { _id: { $in: [old._id] } });
+    const [tombstoned] = updateMany.mock.calls[0].arguments as any[];
+    assert.deepEqual(tombstoned, { _id: { $in: [activeParent._id] } });
+
+    // Tombstones of active threads are not selected, and counted, again
+    const [{ $nor }] = filters;
+    const cutoff = $nor[0].lastThreadReplyAt.$gte as Date;
+    assert.deepEqual($nor, [
+      {
+        isDeleted: true,
+        parentMessageId: null,
+        lastThreadReplyAt: { $gte: cutoff },
+      },
+    ]);
+    const keptDays = (Date.now() - cutoff.getTime()) / DAY_MS;
+    assert.ok(Math.abs(keptDays - 30) < 0.01, `was ${keptDays}`);
+  });
+});
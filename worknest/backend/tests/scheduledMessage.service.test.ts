@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import {
+  Channel,
+  ChannelMember,
+  ScheduledMessage,
+  User,
+} from "../src/models/index.js";
+import { ephemeralService } from "../src/services/ephemeral.service.js";
+import { messageService } from "../src/services/message.service.js";
+import { scheduledMessageService } from "../src/services/scheduledMessage.service.js";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+// One due message, claimed by this worker, served through mocked models
+const mockDue = (
+  options: { isMember?: boolean; deleteFails?: boolean; marked?: boolean } = {}
+) => {
+  const claimedAt = new Date();
+  const scheduled = {
+    _id: new mongoose.Types.ObjectId(),
+    organizationId: new mongoose.Types.ObjectId(),
+    channelId: new mongoose.Types.ObjectId(),
+    senderId: new mongoose.Types.ObjectId(),
+    content: "Standup notes are in the doc",
+    status: "SENDING",
+    claimedAt,
+    failureReason: null as string | null,
+    save: mock.fn(async () => undefined),
+    deleteOne: mock.fn(async () => {
+      if (options.deleteFails) throw new Error("connection reset");
+    }),
+  };
+
+  const deleteMany = mock.method(ScheduledMessage, "deleteMany", async () => ({
+    deletedCount: 0,
+  }));
+  const updateMany = mock.method(ScheduledMessage, "updateMany", async () => ({
+    modifiedCount: 0,
+  }));
+  mock.method(ScheduledMessage, "findDue", async () => [{ _id: scheduled._id }]);
+  const claim = mock.method(
+    ScheduledMessage,
+    "findOneAndUpdate",
+    async () => scheduled
+  );
+  const mark = mock.method(ScheduledMessage, "updateOne", async () => ({
+    modifiedCount: options.marked === false ? 0 : 1,
+  }));
+
+  mock.method(ChannelMember, "isMember", async () => options.isMember ?? true);
+  mock.method(User, "findById", () => ({
+    select: async () => ({ status: "ACTIVE" }),
+  }));
+  mock.method(Channel, "isArchived", async () => false);
+  const ephemeral = mock.method(ephemeralService, "send", () => undefined);
+  mock.method(console, "error", () => undefined);
+
+  return { scheduled, claim, mark, deleteMany, updateMany, ephemeral };
+};
+
+const mockPost = (post: () => Promise<unknown>) =>
+  mock.method(messageService, "post", post as typeof messageService.post);
+
+describe("scheduled message delivery", () => {
+  it("posts a due message once and removes it", async () => {
+    const { scheduled, claim, mark } = mockDue();
+    const post = mockPost(async () => ({
+      message: { _id: new mongoose.Types.ObjectId() },
+      messageData: {},
+    }));
+
+    assert.equal(await scheduledMessageService.sendDue(), 1);
+
+    const [claimFilter] = claim.mock.calls[0].arguments as any[];
+    assert.deepEqual(claimFilter, { _id: scheduled._id, status: "PENDING" });
+
+    // Marked SENT by this claim before it is posted
+    const [markFilter, markUpdate] = mark.mock.calls[0].arguments as any[];
+    assert.deepEqual(markFilter, {
+      _id: scheduled._id,
+      status: "SENDING",
+      claimedAt: scheduled.claimedAt,
+    });
+    assert.deepEqual(markUpdate, { $set: { status: "SENT" } });
+
+    const [input] = post.mock.calls[0].arguments as any[];
+    assert.equal(input.content, scheduled.content);
+    assert.equal(input.senderId, scheduled.senderId.toString());
+    assert.equal(scheduled.deleteOne.mock.callCount(), 1);
+    assert.equal(scheduled.save.mock.callCount(), 0);
+  });
+
+  it("is not reported as failed when cleaning up after the post fails", async () => {
+    const { scheduled, ephemeral } = mockDue({ deleteFails: true });
+    mockPost(async () => ({
+      message: { _id: new mongoose.Types.ObjectId() },
+      messageData: {},
+    }));
+
+    assert.equal(await scheduledMessageService.sendDue(), 1);
+
+    assert.notEqual(scheduled.status, "FAILED");
+    assert.equal(scheduled.save.mock.callCount(), 0);
+    assert.equal(ephemeral.mock.callCount(), 0);
+  });
+
+  it("is not posted when another worker has taken it over", async () => {
+    mockDue({ marked: false });
+    const post = mockPost(async () => ({}));
+
+    assert.equal(await scheduledMessageService.sendDue(), 0);
+
+    assert.equal(post.mock.callCount(), 0);
+  });
+
+  it("fails when the sender left the channel", async () => {
+    const { scheduled, mark, ephemeral } = mockDue({ isMember: false });
+    const post = mockPost(async () => ({}));
+
+    assert.equal(await scheduledMessageService.sendDue(), 0);
+
+    assert.equal(post.mock.callCount(), 0);
+    assert.equal(mark.mock.callCount(), 0);
+    assert.equal(scheduled.status, "FAILED");
+    assert.equal(
+      scheduled.failureReason,
+      "You are no longer a member of this channel."
+    );
+    assert.equal(scheduled.save.mock.callCount(), 1);
+    const [, , notice] = ephemeral.mock.calls[0].arguments as any[];
+    assert.match(notice.text, /wasn't sent/);
+  });
+
+  it("fails when posting fails", async () => {
+    const { scheduled } = mockDue();
+    mockPost(async () => {
+      throw new Error("channel is archived");
+    });
+
+    assert.equal(await scheduledMessageService.sendDue(), 0);
+
+    assert.equal(scheduled.status, "FAILED");
+    assert.equal(scheduled.failureReason, "The message could not be sent.");
+    assert.equal(scheduled.deleteOne.mock.callCount(), 0);
+  });
+
+  it("drops stale SENT rows and queues stale claims again", async () => {
+    const { deleteMany, updateMany } = mockDue({ marked: false });
+    mockPost(async () => ({}));
+
+    await scheduledMessageService.sendDue();
+
+    const [sentFilter] = deleteMany.mock.calls[0].arguments as any[];
+    assert.equal(sentFilter.status, "SENT");
+    const [claimFilter, update] = updateMany.mock.calls[0].arguments as any[];
+    assert.equal(claimFilter.status, "SENDING");
+    assert.deepEqual(update, { $set: { status: "PENDING", claimedAt: null } });
+  });
+});
+
+describe("rescheduling", () => {
+  it("refuses a send time that has already passed", async () => {
+    const scheduled = {
+      _id: new mongoose.Types.ObjectId(),
+      status: "FAILED",
+      timezone: "UTC",
+      scheduledAt: new Date(Date.now() - 60 * 1000),
+      save: mock.fn(async () => undefined),
+    };
+    mock.method(ScheduledMessage, "findOne", async () => scheduled);
+
+    await assert.rejects(
+      scheduledMessageService.update(
+        new mongoose.Types.ObjectId().toString(),
+        new mongoose.Types.ObjectId().toString(),
+        scheduled._id.toString(),
+        { timezone: "Europe/Berlin" }
+      ),
+      { statusCode: 400, message: "The send time must be in the future." }
+    );
+    assert.equal(scheduled.status, "FAILED");
+    assert.equal(scheduled.save.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import {
+  ChannelMember,
+  IMessage,
+  SavedSearch,
+  User,
+} from "../src/models/index.js";
+import { searchHistoryService } from "../src/services/searchHistory.service.js";
+import { searchService } from "../src/services/search.service.js";
+import { ResolvedSearch } from "../src/types/index.js";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const organizationId = new mongoose.Types.ObjectId();
+const channelId = new mongoose.Types.ObjectId();
+const ownerId = new mongoose.Types.ObjectId();
+
+const message = {
+  _id: new mongoose.Types.ObjectId(),
+  organizationId,
+  channelId,
+  senderId: new mongoose.Types.ObjectId(),
+  content: "deploy finished",
+  contentType: "TEXT",
+} as unknown as IMessage;
+
+const resolved: ResolvedSearch = {
+  text: { terms: ["deploy"], phrases: [], prefixes: [] },
+  filters: { senderIds: [message.senderId.toString()] },
+};
+
+// One channel member with one notifying saved search
+const mockSavedSearch = (fields: { resolved?: ResolvedSearch | null }) => {
+  const savedSearch = {
+    _id: new mongoose.Types.ObjectId(),
+    organizationId,
+    userId: ownerId,
+    name: "Deploys",
+    query: "deploy from:grace",
+    filters: { type: "all" },
+    lastNotifiedAt: null as Date | null,
+    save: mock.fn(async () => undefined),
+    ...fields,
+  };
+  mock.method(ChannelMember, "find", () => ({
+    select: async () => [{ userId: ownerId }],
+  }));
+  const findNotifying = mock.method(
+    SavedSearch,
+    "findNotifying",
+    async () => [savedSearch]
+  );
+  return { savedSearch, findNotifying };
+};
+
+describe("saved search notifications", () => {
+  it("match new messages against the query resolved on save", async () => {
+    const { savedSearch, findNotifying } = mockSavedSearch({ resolved });
+    const resolveSearch = mock.method(searchService, "resolveSearch");
+    const findUsers = mock.method(User, "find");
+    const matchesMessage = mock.method(
+      searchService,
+      "matchesMessage",
+      async () => true
+    );
+
+    await searchHistoryService.notifyMatches(message);
+
+    // Searches limited to other channels are left out by the query
+    const [, , channelFilter] = findNotifying.mock.calls[0].arguments;
+    assert.equal(channelFilter, channelId.toString());
+
+    assert.equal(resolveSearch.mock.callCount(), 0);
+    assert.equal(findUsers.mock.callCount(), 0);
+    const [options] = matchesMessage.mock.calls[0].arguments as any[];
+    assert.equal(options.search, resolved);
+    assert.ok(savedSearch.lastNotifiedAt);
+  });
+
+  it("skip searches that can never match", async () => {
+    mockSavedSearch({ resolved: null });
+    const matchesMessage = mock.method(searchService, "matchesMessage");
+
+    await searchHistoryService.notifyMatches(message);
+
+    assert.equal(matchesMessage.mock.callCount(), 0);
+  });
+
+  it("resolve searches saved before the query was kept, once", async () => {
+    const { savedSearch } = mockSavedSearch({});
+    const resolveSearch = mock.method(
+      searchService,
+      "resolveSearch",
+      async () => resolved
+    );
+    mock.method(searchService, "matchesMessage", async () => false);
+
+    await searchHistoryService.notifyMatches(message);
+
+    assert.equal(resolveSearch.mock.callCount(), 1);
+    assert.equal(savedSearch.resolved, resolved);
+    assert.equal(savedSearch.save.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { afterEach, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import { Organization, Session, User } from "../src/models/index.js";
+import { sessionService } from "../src/services/session.service.js";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const hash = (secret: string) =>
+  crypto.createHash("sha256").update(secret).digest("hex");
+
+// A query result that can be awaited directly or after .select()
+const query = (value: unknown) => ({
+  select: async () => value,
+  then: (resolve: (v: unknown) => unknown, reject: (e: unknown) => unknown) =>
+    Promise.resolve(value).then(resolve, reject),
+});
+
+// One signed-in session, kept in memory behind mocked models
+const mockSession = () => {
+  const secret = "first-secret";
+  const user = {
+    _id: new mongoose.Types.ObjectId(),
+    organizationId: new mongoose.Types.ObjectId(),
+    role: "EMPLOYEE",
+    status: "ACTIVE",
+    tokenVersion: 0,
+  };
+  const session: Record<string, any> = {
+    _id: new mongoose.Types.ObjectId(),
+    organizationId: user.organizationId,
+    userId: user._id,
+    refreshTokenHash: hash(secret),
+    previousRefreshTokenHash: null,
+    rotatedAt: null,
+    revokedAt: null,
+    revokedReason: null,
+    lastActiveAt: new Date(),
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  };
+
+  mock.method(Organization, "findById", () => query(null));
+  mock.method(User, "findById", async () => user);
+  mock.method(Session, "findById", () => query({ ...session }));
+  mock.method(
+    Session,
+    "findOneAndUpdate",
+    async (filter: any, update: any) => {
+      if (
+        session.revokedAt ||
+        filter.refreshTokenHash !== session.refreshTokenHash
+      ) {
+        return null;
+      }
+      Object.assign(session, update.$set);
+      return { ...session };
+    }
+  );
+  mock.method(Session, "updateOne", async (_filter: any, update: any) => {
+    if (session.revokedAt) return { modifiedCount: 0 };
+    Object.assign(session, update.$set);
+    return { modifiedCount: 1 };
+  });
+
+  return { session, refreshToken: `${session._id}.${secret}` };
+};
+
+describe("refresh token rotation", () => {
+  it("rotates the refresh token on every use", async () => {
+    const { session, refreshToken } = mockSession();
+
+    const first = await sessionService.refresh(refreshToken);
+    assert.ok(first.token);
+    assert.ok(first.refreshToken);
+    assert.notEqual(first.refreshToken, refreshToken);
+
+    const second = await sessionService.refresh(first.refreshToken);
+    assert.ok(second.refreshToken);
+    assert.notEqual(second.refreshToken, first.refreshToken);
+    assert.equal(session.revokedAt, null);
+  });
+
+  it("gives a concurrent refresh of the same token only an access token", async () => {
+    const { session, refreshToken } = mockSession();
+
+    const results = await Promise.all([
+      sessionService.refresh(refreshToken),
+      sessionService.refresh(refreshToken),
+    ]);
+
+    assert.ok(results.every((result) => result.token));
+    assert.equal(results.filter((result) => result.refreshToken).length, 1);
+    assert.equal(session.revokedAt, null);
+  });
+
+  it("revokes the session when a replaced token is reused after the grace window", async () => {
+    const { session, refreshToken } = mockSession();
+
+    await sessionService.refresh(refreshToken);
+    session.rotatedAt = new Date(Date.now() - 60 * 1000);
+
+    await assert.rejects(sessionService.refresh(refreshToken), {
+      statusCode: 401,
+      code: "SESSION_EXPIRED",
+    });
+    assert.ok(session.revokedAt);
+    assert.equal(session.revokedReason, "TOKEN_REUSE");
+  });
+
+  it("rejects a secret that never belonged to the session without revoking it", async () => {
+    const { session } = mockSession();
+
+    await assert.rejects(
+      sessionService.refresh(`${session._id}.some-other-secret`),
+      { statusCode: 401, code: "INVALID_TOKEN" }
+    );
+    assert.equal(session.revokedAt, null);
+  });
+});
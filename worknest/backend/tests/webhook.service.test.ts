@@ -0,0 +1,249 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, before, after, describe, it, mock } from "node:test";
+import mongoose from "mongoose";
+import { Channel, Webhook, WebhookDelivery } from "../src/models/index.js";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  webhookService,
+} from "../src/services/webhook.service.js";
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// A local endpoint that answers with the queued status codes, then 200
+const received: ReceivedRequest[] = [];
+const statuses: number[] = [];
+let server: http.Server;
+let url: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(statuses.shift() ?? 200).end("ok");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+});
+
+after(() => {
+  server.close();
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  received.length = 0;
+  statuses.length = 0;
+});
+
+const secret = "whsec_test";
+
+const mockWebhook = (consecutiveFailures = 0) => {
+  const webhook = {
+    _id: new mongoose.Types.ObjectId(),
+    url,
+    secret,
+    isActive: true,
+    consecutiveFailures,
+  };
+  mock.method(Webhook, "findById", () => ({
+    select: async () => webhook,
+  }));
+  return webhook;
+};
+
+// Serve one delivery from the queue and record what gets saved on it
+const mockDelivery = (webhookId: mongoose.Types.ObjectId, attempts = 0) => {
+  const delivery = {
+    _id: new mongoose.Types.ObjectId(),
+    webhookId,
+    event: "ping",
+    payload: { id: "evt_1", event: "ping", data: { hello: "world" } },
+    status: "PENDING",
+    attempts,
+    nextAttemptAt: new Date() as Date | null,
+    error: null as string | null,
+    save: mock.fn(async () => undefined),
+  };
+  mock.method(WebhookDelivery, "findDue", async () => [delivery]);
+  mock.method(WebhookDelivery, "findOneAndUpdate", async () => delivery);
+  return delivery;
+};
+
+describe("webhook delivery", () => {
+  it("signs the body with the webhook secret", async () => {
+    const webhook = mockWebhook();
+    const delivery = mockDelivery(webhook._id);
+    const updateOne = mock.method(Webhook, "updateOne", async () => ({
+      modifiedCount: 1,
+    }));
+
+    assert.equal(await webhookService.processDueDeliveries(), 1);
+
+    assert.equal(received.length, 1);
+    const [request] = received;
+    assert.equal(request.body, JSON.stringify(delivery.payload));
+    assert.equal(request.headers["x-worknest-event"], "ping");
+    assert.equal(
+      request.headers["x-worknest-delivery"],
+      delivery._id.toString()
+    );
+
+    const timestamp = request.headers["x-worknest-timestamp"] as string;
+    const expected = `sha256=${crypto
+      .createHmac("sha256", secret)
+      .update(`${timestamp}.${request.body}`)
+      .digest("hex")}`;
+    assert.equal(
+      request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()],
+      expected
+    );
+
+    assert.equal(delivery.status, "SUCCESS");
+    assert.equal(delivery.attempts, 1);
+    assert.equal(delivery.nextAttemptAt, null);
+    // A success resets the failure streak
+    const [, update] = updateOne.mock.calls[0].arguments as any[];
+    assert.equal(update.$set.consecutiveFailures, 0);
+  });
+
+  it("schedules a retry with backoff when the endpoint fails", async () => {
+    statuses.push(500);
+    const webhook = mockWebhook();
+    const delivery = mockDelivery(webhook._id);
+    mock.method(Webhook, "findByIdAndUpdate", async () => ({
+      ...webhook,
+      consecutiveFailures: 1,
+    }));
+    const disable = mock.method(Webhook, "updateOne", async () => ({
+      modifiedCount: 1,
+    }));
+
+    const started = Date.now();
+    await webhookService.processDueDeliveries();
+
+    assert.equal(received.length, 1);
+    assert.equal(delivery.status, "PENDING");
+    assert.equal(delivery.attempts, 1);
+    assert.equal(delivery.error, "Endpoint responded with HTTP 500");
+    const delay = delivery.nextAttemptAt!.getTime() - started;
+    assert.ok(delay >= 30 * 1000 && delay <= 34 * 1000, `delay was ${delay}`);
+    assert.equal(disable.mock.callCount(), 0);
+  });
+
+  it("gives up on a delivery after its last attempt", async () => {
+    statuses.push(502);
+    const webhook = mockWebhook();
+    const delivery = mockDelivery(webhook._id, 5);
+    mock.method(Webhook, "findByIdAndUpdate", async () => ({
+      ...webhook,
+      consecutiveFailures: 6,
+    }));
+
+    await webhookService.processDueDeliveries();
+
+    assert.equal(delivery.status, "FAILED");
+    assert.equal(delivery.attempts, 6);
+    assert.equal(delivery.nextAttemptAt, null);
+  });
+
+  it("disables a webhook that keeps failing", async () => {
+    statuses.push(500);
+    const webhook = mockWebhook(14);
+    mockDelivery(webhook._id);
+    mock.method(Webhook, "findByIdAndUpdate", async () => ({
+      ...webhook,
+      consecutiveFailures: 15,
+    }));
+    const updateOne = mock.method(Webhook, "updateOne", async () => ({
+      modifiedCount: 1,
+    }));
+    const updateMany = mock.method(
+      WebhookDelivery,
+      "updateMany",
+      async () => ({ modifiedCount: 3 })
+    );
+    mock.method(console, "warn", () => undefined);
+
+    await webhookService.processDueDeliveries();
+
+    assert.equal(updateOne.mock.callCount(), 1);
+    const [filter, update] = updateOne.mock.calls[0].arguments as any[];
+    assert.deepEqual(filter, { _id: webhook._id, isActive: true });
+    assert.equal(update.$set.isActive, false);
+    assert.match(update.$set.disabledReason, /15 consecutive failed/);
+
+    // Queued deliveries are given up on with it
+    const [pendingFilter, pendingUpdate] = updateMany.mock.calls[0]
+      .arguments as any[];
+    assert.deepEqual(pendingFilter, {
+      webhookId: webhook._id,
+      status: "PENDING",
+    });
+    assert.equal(pendingUpdate.$set.status, "FAILED");
+  });
+});
+
+describe("channel events", () => {
+  const organizationId = new mongoose.Types.ObjectId().toString();
+  const channelId = new mongoose.Types.ObjectId().toString();
+
+  it("are not sent for DMs or private channels", async () => {
+    const exists = mock.method(Channel, "exists", async () => null);
+    const findSubscribed = mock.method(Webhook, "findSubscribed", async () => []);
+
+    const deliveries = await webhookService.enqueueChannelEvent(
+      organizationId,
+      "message.created",
+      channelId,
+      { content: "secret" }
+    );
+
+    assert.deepEqual(deliveries, []);
+    assert.equal(findSubscribed.mock.callCount(), 0);
+    assert.deepEqual(exists.mock.calls[0].arguments[0], {
+      _id: channelId,
+      organizationId,
+      type: "PUBLIC",
+    });
+  });
+
+  it("leave out tasks and wiki pages of private channels", async () => {
+    mock.method(Channel, "exists", async () => null);
+    const findSubscribed = mock.method(Webhook, "findSubscribed", async () => []);
+
+    for (const event of ["task.created", "wiki.page.updated"] as const) {
+      const deliveries = await webhookService.enqueueChannelEvent(
+        organizationId,
+        event,
+        channelId,
+        { channelId, title: "Launch plan", content: "confidential" }
+      );
+      assert.deepEqual(deliveries, []);
+    }
+    assert.equal(findSubscribed.mock.callCount(), 0);
+  });
+
+  it("are sent for public channels", async () => {
+    mock.method(Channel, "exists", async () => ({ _id: channelId }));
+    const findSubscribed = mock.method(Webhook, "findSubscribed", async () => []);
+
+    await webhookService.enqueueChannelEvent(
+      organizationId,
+      "task.created",
+      channelId,
+      { title: "Ship it" }
+    );
+
+    assert.equal(findSubscribed.mock.callCount(), 1);
+    assert.equal(findSubscribed.mock.calls[0].arguments[1], "task.created");
+  });
+});
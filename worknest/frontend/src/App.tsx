@@ -1,13 +1,14 @@
 import { useEffect, useState } from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '@/store';
-import { Login, Register, Chat, AcceptInvite, AuthCallback, Settings } from '@/pages';
+import { Login, Register, Chat, AcceptInvite, AuthCallback, Settings, AcceptOwnership } from '@/pages';
 import { Toaster } from '@/components/ui/sonner';
 import { HuddleBar } from '@/components/HuddleBar';
 
 // Protected Route Component
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, isLoading, fetchUser } = useAuthStore();
+  const location = useLocation();
   const [isChecking, setIsChecking] = useState(true);
 
   useEffect(() => {
@@ -45,7 +46,8 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   }
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    // Come back here after signing in, e.g. to a link from an email
+    return <Navigate to="/login" replace state={{ from: `${location.pathname}${location.search}` }} />;
   }
 
   return <>{children}</>;
@@ -54,9 +56,10 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
 // Public Route Component (redirects if authenticated)
 function PublicRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated } = useAuthStore();
+  const location = useLocation();
 
   if (isAuthenticated) {
-    return <Navigate to="/chat" replace />;
+    return <Navigate to={(location.state as { from?: string } | null)?.from || '/chat'} replace />;
   }
 
   return <>{children}</>;
@@ -133,6 +136,14 @@ function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/transfer-ownership"
+          element={
+            <ProtectedRoute>
+              <AcceptOwnership />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Default redirect */}
         <Route path="/" element={<Navigate to="/chat" replace />} />
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Archive, Hash, Lock, RotateCcw, Trash2 } from 'lucide-react';
+import { useAuthStore, useChatStore } from '@/store';
+import type { Channel } from '@/store/chatStore';
+import { formatInTimezone } from '@/lib/timezone';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+
+/**
+ * The sidebar link to archived channels. They open read-only; admins can
+ * restore them or delete them for good.
+ */
+export function ArchivedChannelsList() {
+    const { user } = useAuthStore();
+    const { archivedChannels, setActiveChannel, unarchiveChannel, deleteChannel } = useChatStore();
+    const timezone = useUserTimezone();
+    const [isOpen, setIsOpen] = useState(false);
+    const isAdmin = user?.role === 'ADMIN';
+
+    if (archivedChannels.length === 0) return null;
+
+    const open = (channel: Channel) => {
+        setActiveChannel(channel);
+        setIsOpen(false);
+    };
+
+    const remove = async (channel: Channel) => {
+        if (!window.confirm(`Permanently delete #${channel.name}? Its messages, files, tasks, wiki pages and canvas will be deleted. This cannot be undone.`)) return;
+        try {
+            await deleteChannel(channel.id);
+        } catch {
+            // The store has already shown the error
+        }
+    };
+
+    return (
+        <>
+            <button
+                onClick={() => setIsOpen(true)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 mb-4 rounded-md text-sm opacity-70 hover:opacity-100 hover:bg-sidebar-accent hover:text-sidebar-accent-foreground transition-all"
+            >
+                <Archive className="h-4 w-4 shrink-0" />
+                <span className="flex-1 text-left">Archived channels</span>
+                <span className="text-xs">{archivedChannels.length}</span>
+            </button>
+
+            <Dialog open={isOpen} onOpenChange={setIsOpen}>
+                <DialogContent className="sm:max-w-[480px]">
+                    <DialogHeader>
+                        <DialogTitle>Archived channels</DialogTitle>
+                        <DialogDescription>
+                            Archived channels are read-only. Their history can still be searched.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <ScrollArea className="max-h-[360px]">
+                        <div className="space-y-1">
+                            {archivedChannels.map((channel) => (
+                                <div key={channel.id} className="flex items-center gap-2 rounded-md px-2 py-2 hover:bg-muted/50">
+                                    {channel.type === 'PRIVATE' ? (
+                                        <Lock className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                    ) : (
+                                        <Hash className="h-4 w-4 shrink-0 text-muted-foreground" />
+                                    )}
+                                    <button className="flex-1 min-w-0 text-left" onClick={() => open(channel)}>
+                                        <span className="block truncate text-sm font-medium">{channel.name}</span>
+                                        {channel.archivedAt && (
+                                            <span className="block text-xs text-muted-foreground">
+                                                Archived {formatInTimezone(channel.archivedAt, timezone)}
+                                            </span>
+                                        )}
+                                    </button>
+                                    {isAdmin && (
+                                        <>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-8 w-8"
+                                                title="Restore channel"
+                                                onClick={() => unarchiveChannel(channel.id)}
+                                            >
+                                                <RotateCcw className="h-4 w-4" />
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-8 w-8 text-destructive hover:text-destructive"
+                                                title="Delete permanently"
+                                                onClick={() => remove(channel)}
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </ScrollArea>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
+
+export default ArchivedChannelsList;
@@ -0,0 +1,302 @@
+import { useEffect, useState } from 'react';
+import { Check, Hash, Loader2, Paperclip, Search, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { useChatStore } from '@/store';
+import { channelsApi } from '@/lib/api';
+import { cn, formatTime, getInitials } from '@/lib/utils';
+import type { ChannelPreview, DirectoryChannel } from '@/types';
+import { MessageContent } from '@/components/MessageContent';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+
+type DirectorySort = 'members' | 'activity' | 'name';
+
+interface ChannelBrowserProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * The organization's public channels, including ones the user is not in.
+ * A channel's recent messages can be read before joining it.
+ */
+export function ChannelBrowser(props: ChannelBrowserProps) {
+    return (
+        <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+            <DialogContent className="sm:max-w-[860px]">
+                {/* Mounted per opening, so the directory is always fresh */}
+                {props.open && <ChannelBrowserContent {...props} />}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function ChannelBrowserContent({ onOpenChange }: ChannelBrowserProps) {
+    const { channels: myChannels, setActiveChannel, joinChannel } = useChatStore();
+    const [query, setQuery] = useState('');
+    const [sort, setSort] = useState<DirectorySort>('members');
+    const [page, setPage] = useState(1);
+    const [channels, setChannels] = useState<DirectoryChannel[]>([]);
+    const [total, setTotal] = useState(0);
+    const [hasMore, setHasMore] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [preview, setPreview] = useState<ChannelPreview | null>(null);
+    const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+    const [joiningId, setJoiningId] = useState<string | null>(null);
+
+    // Debounced while typing; later pages are appended to the list
+    useEffect(() => {
+        let cancelled = false;
+        const timeout = setTimeout(async () => {
+            setIsLoading(true);
+            try {
+                const { data } = await channelsApi.browse({ q: query.trim() || undefined, sort, page });
+                if (cancelled) return;
+                setChannels((previous) => (page === 1 ? data.data.channels : [...previous, ...data.data.channels]));
+                setTotal(data.data.total);
+                setHasMore(data.data.hasMore);
+            } catch {
+                if (!cancelled) toast.error('Failed to load channels');
+            } finally {
+                if (!cancelled) setIsLoading(false);
+            }
+        }, page === 1 ? 300 : 0);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timeout);
+        };
+    }, [query, sort, page]);
+
+    useEffect(() => {
+        if (!selectedId) return;
+        let cancelled = false;
+        setIsPreviewLoading(true);
+        channelsApi
+            .preview(selectedId)
+            .then(({ data }) => {
+                if (!cancelled) setPreview(data.data);
+            })
+            .catch(() => {
+                if (!cancelled) toast.error('Failed to load channel preview');
+            })
+            .finally(() => {
+                if (!cancelled) setIsPreviewLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [selectedId]);
+
+    const changeQuery = (value: string) => {
+        setQuery(value);
+        setPage(1);
+    };
+
+    const changeSort = (value: string) => {
+        setSort(value as DirectorySort);
+        setPage(1);
+    };
+
+    // The store follows joins and leaves made while the directory is open
+    const isMember = (channel: DirectoryChannel) => myChannels.some((c) => c.id === channel.id);
+
+    const open = (id: string) => {
+        const channel = myChannels.find((c) => c.id === id);
+        if (!channel) return;
+        setActiveChannel(channel);
+        onOpenChange(false);
+    };
+
+    const join = async (id: string) => {
+        setJoiningId(id);
+        const joined = await joinChannel(id);
+        setJoiningId(null);
+        if (joined) onOpenChange(false);
+    };
+
+    const selected = channels.find((c) => c.id === selectedId);
+
+    return (
+        <>
+            <DialogHeader>
+                <DialogTitle>Browse channels</DialogTitle>
+                <DialogDescription>
+                    {total} public {total === 1 ? 'channel' : 'channels'} in your organization
+                </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex gap-2">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                        placeholder="Search by name, topic or purpose"
+                        className="pl-9"
+                        value={query}
+                        onChange={(e) => changeQuery(e.target.value)}
+                        autoFocus
+                    />
+                </div>
+                <Select value={sort} onValueChange={changeSort}>
+                    <SelectTrigger className="w-[170px]">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="members">Most members</SelectItem>
+                        <SelectItem value="activity">Recent activity</SelectItem>
+                        <SelectItem value="name">Name</SelectItem>
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 h-[420px]">
+                <ScrollArea className="h-[420px] rounded-md border">
+                    <div className="p-1">
+                        {channels.map((channel) => (
+                            <button
+                                key={channel.id}
+                                onClick={() => setSelectedId(channel.id)}
+                                className={cn(
+                                    'w-full flex items-start gap-2 rounded-md px-2 py-2 text-left hover:bg-muted/50',
+                                    channel.id === selectedId && 'bg-muted'
+                                )}
+                            >
+                                <Hash className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                                <div className="flex-1 min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <span className="truncate text-sm font-medium">{channel.name}</span>
+                                        {isMember(channel) && (
+                                            <span className="flex items-center gap-0.5 text-xs text-emerald-600">
+                                                <Check className="h-3 w-3" /> Joined
+                                            </span>
+                                        )}
+                                    </div>
+                                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                        <Users className="h-3 w-3" />
+                                        {channel.memberCount} {channel.memberCount === 1 ? 'member' : 'members'}
+                                        {channel.lastMessageAt && <> · active {formatTime(channel.lastMessageAt)}</>}
+                                    </span>
+                                    {(channel.topic || channel.description) && (
+                                        <span className="block truncate text-xs text-muted-foreground">
+                                            {channel.topic || channel.description}
+                                        </span>
+                                    )}
+                                </div>
+                            </button>
+                        ))}
+
+                        {isLoading && (
+                            <div className="flex justify-center py-4">
+                                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                            </div>
+                        )}
+                        {!isLoading && channels.length === 0 && (
+                            <p className="py-8 text-center text-sm text-muted-foreground">
+                                {query.trim() ? 'No channels match your search.' : 'There are no public channels yet.'}
+                            </p>
+                        )}
+                        {!isLoading && hasMore && (
+                            <Button variant="ghost" className="w-full" onClick={() => setPage(page + 1)}>
+                                Show more
+                            </Button>
+                        )}
+                    </div>
+                </ScrollArea>
+
+                <div className="flex flex-col rounded-md border min-h-0">
+                    {!selected ? (
+                        <p className="m-auto px-6 text-center text-sm text-muted-foreground">
+                            Select a channel to see its recent messages.
+                        </p>
+                    ) : (
+                        <>
+                            <div className="flex items-center gap-2 border-b px-3 py-2">
+                                <div className="flex-1 min-w-0">
+                                    <p className="truncate text-sm font-semibold">#{selected.name}</p>
+                                    {selected.description && (
+                                        <p className="truncate text-xs text-muted-foreground">{selected.description}</p>
+                                    )}
+                                </div>
+                                {isMember(selected) ? (
+                                    <Button size="sm" variant="outline" onClick={() => open(selected.id)}>
+                                        Open
+                                    </Button>
+                                ) : (
+                                    <Button size="sm" onClick={() => join(selected.id)} disabled={joiningId !== null}>
+                                        {joiningId === selected.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                        Join
+                                    </Button>
+                                )}
+                            </div>
+                            <ScrollArea className="flex-1 min-h-0">
+                                <div className="space-y-3 p-3">
+                                    {isPreviewLoading || preview?.channel.id !== selected.id ? (
+                                        <div className="flex justify-center py-4">
+                                            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                                        </div>
+                                    ) : preview.messages.length === 0 ? (
+                                        <p className="py-8 text-center text-sm text-muted-foreground">No messages yet.</p>
+                                    ) : (
+                                        preview.messages.map((message) =>
+                                            message.contentType === 'SYSTEM' ? (
+                                                <p key={message.id} className="text-center text-xs text-muted-foreground">
+                                                    {message.content}
+                                                </p>
+                                            ) : (
+                                                <div key={message.id} className="flex gap-2">
+                                                    <Avatar className="h-7 w-7">
+                                                        <AvatarImage src={message.sender?.avatar} />
+                                                        <AvatarFallback className="text-[10px]">
+                                                            {getInitials(message.sender?.name || '?')}
+                                                        </AvatarFallback>
+                                                    </Avatar>
+                                                    <div className="flex-1 min-w-0">
+                                                        <div className="flex items-baseline gap-2">
+                                                            <span className="text-sm font-medium">{message.sender?.name}</span>
+                                                            <span className="text-xs text-muted-foreground">
+                                                                {formatTime(message.createdAt)}
+                                                            </span>
+                                                        </div>
+                                                        {message.content && (
+                                                            <MessageContent content={message.content} className="text-sm break-words" />
+                                                        )}
+                                                        {message.attachments.length > 0 && (
+                                                            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                                                <Paperclip className="h-3 w-3" />
+                                                                {message.attachments.map((a) => a.name).join(', ')}
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            )
+                                        )
+                                    )}
+                                </div>
+                            </ScrollArea>
+                        </>
+                    )}
+                </div>
+            </div>
+        </>
+    );
+}
+
+export default ChannelBrowser;
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { Hash, Lock, MoreVertical, Phone, Video, Users, Info, Trash2, Search, X, Headphones } from 'lucide-react';
+import { Hash, Lock, MoreVertical, Phone, Video, Users, Info, Archive, RotateCcw, Pencil, Search, X, Headphones, LogOut } from 'lucide-react';
 import { useChatStore, useAuthStore } from '@/store';
 import { useHuddleStore } from '@/store/huddleStore';
 import { cn, getInitials, getAvatarColor } from '@/lib/utils';
@@ -14,27 +14,33 @@ import {
     DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { EditChannelDialog } from '@/components/EditChannelDialog';
+import { ConvertGroupDMDialog } from '@/components/ConvertGroupDMDialog';
+import { GroupAvatar } from '@/components/GroupAvatar';
 
 interface ChatHeaderProps {
     onOpenGlobalSearch?: () => void;
 }
 
 export function ChatHeader({ onOpenGlobalSearch }: ChatHeaderProps) {
-    const { activeChannel, onlineUsers, deleteChannel, setActiveChannel, openDetails, searchMessages, searchResults, activeView, setActiveView } = useChatStore();
+    const { activeChannel, onlineUsers, archiveChannel, unarchiveChannel, leaveChannel, openDetails, searchMessages, searchResults, activeView, setActiveView } = useChatStore();
     const { isInHuddle, activeChannelId, joinHuddle, leaveHuddle, activeHuddlesIds } = useHuddleStore();
-    const { user } = useAuthStore();
+    const { user, organization } = useAuthStore();
     const [isSearchOpen, setIsSearchOpen] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
+    const [isEditOpen, setIsEditOpen] = useState(false);
+    const [isConvertOpen, setIsConvertOpen] = useState(false);
     const searchRef = useRef<HTMLDivElement>(null);
 
-    const handleDeleteChannel = async () => {
-        if (!activeChannel || !window.confirm('Are you sure you want to delete this channel?')) return;
-        try {
-            await deleteChannel(activeChannel.id);
-            setActiveChannel(null);
-        } catch (error) {
-            console.error('Failed to delete channel:', error);
-        }
+    const handleArchiveChannel = async () => {
+        if (!activeChannel || !window.confirm(`Archive #${activeChannel.name}? It becomes read-only and leaves everyone's sidebar.`)) return;
+        await archiveChannel(activeChannel.id);
+    };
+
+    const handleLeaveChannel = async () => {
+        if (!activeChannel) return;
+        if (activeChannel.type === 'PRIVATE' && !window.confirm(`Leave #${activeChannel.name}? You'll need to be invited again to rejoin.`)) return;
+        await leaveChannel(activeChannel.id);
     };
 
     useEffect(() => {
@@ -64,6 +70,10 @@ export function ChatHeader({ onOpenGlobalSearch }: ChatHeaderProps) {
 
     const isOnline = activeChannel ? (activeChannel.dmUser && onlineUsers.includes(activeChannel.dmUser.id)) : false;
     const isAdmin = activeChannel ? (user?.role === 'ADMIN') : false;
+    // Organization admins and the channel's own admins manage a channel
+    const canManage = isAdmin || activeChannel?.role === 'ADMIN';
+    const isGroupDM = activeChannel.type === 'DM' && !!activeChannel.dmUsers?.length;
+    const canConvert = isAdmin && organization?.settings?.channelPolicies?.allowPrivateChannels !== false;
 
     return (
         <div className="h-14 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 flex items-center justify-between px-4">
@@ -78,7 +88,9 @@ export function ChatHeader({ onOpenGlobalSearch }: ChatHeaderProps) {
                     }
                 }}
             >
-                {activeChannel.type === 'DM' ? (
+                {isGroupDM ? (
+                    <GroupAvatar users={activeChannel.dmUsers!} size="md" />
+                ) : activeChannel.type === 'DM' ? (
                     <div className="relative">
                         <Avatar className="h-8 w-8">
                             <AvatarImage src={activeChannel.dmUser?.avatar} />
@@ -108,8 +120,13 @@ export function ChatHeader({ onOpenGlobalSearch }: ChatHeaderProps) {
                 <div>
                     <h1 className="font-semibold text-base group-hover/header:text-primary transition-colors">
                         {activeChannel.type === 'DM'
-                            ? activeChannel.dmUser?.name || 'Direct Message'
+                            ? activeChannel.dmUser?.name || activeChannel.name
                             : activeChannel.name}
+                        {activeChannel.isArchived && (
+                            <span className="ml-2 align-middle text-[10px] font-bold uppercase bg-muted text-muted-foreground px-1.5 py-0.5 rounded">
+                                Archived
+                            </span>
+                        )}
                     </h1>
                     <div className="flex items-center gap-2">
                         {activeChannel.type !== 'DM' ? (
@@ -186,6 +203,11 @@ export function ChatHeader({ onOpenGlobalSearch }: ChatHeaderProps) {
                                 {activeChannel.memberCount || 0}
                             </span>
                         )}
+                        {activeChannel.topic && (
+                            <span className="text-xs text-muted-foreground truncate max-w-[320px]" title={activeChannel.topic}>
+                                {activeChannel.topic}
+                            </span>
+                        )}
                     </div>
                 </div>
             </div>
@@ -389,26 +411,68 @@ export function ChatHeader({ onOpenGlobalSearch }: ChatHeaderProps) {
                                 </DropdownMenuItem>
                             </>
                         )}
-                        {isAdmin && activeChannel.type !== 'DM' && (
+                        {canManage && activeChannel.type !== 'DM' && !activeChannel.isArchived && (
                             <>
+                                <DropdownMenuItem onClick={() => setIsEditOpen(true)}>
+                                    <Pencil className="mr-2 h-4 w-4" />
+                                    Edit Channel
+                                </DropdownMenuItem>
                                 <DropdownMenuSeparator />
                                 <DropdownMenuItem
                                     className="text-destructive focus:text-destructive"
-                                    onClick={handleDeleteChannel}
+                                    onClick={handleArchiveChannel}
                                 >
-                                    <Trash2 className="mr-2 h-4 w-4" />
-                                    Delete Channel
+                                    <Archive className="mr-2 h-4 w-4" />
+                                    Archive Channel
+                                </DropdownMenuItem>
+                            </>
+                        )}
+                        {isAdmin && activeChannel.isArchived && (
+                            <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={() => unarchiveChannel(activeChannel.id)}>
+                                    <RotateCcw className="mr-2 h-4 w-4" />
+                                    Restore Channel
+                                </DropdownMenuItem>
+                            </>
+                        )}
+                        {activeChannel.type !== 'DM' && (
+                            <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={handleLeaveChannel}>
+                                    <LogOut className="mr-2 h-4 w-4" />
+                                    Leave Channel
                                 </DropdownMenuItem>
                             </>
                         )}
-                        {activeChannel.type === 'DM' && (
+                        {activeChannel.type === 'DM' && activeChannel.dmUser && (
                             <DropdownMenuItem onClick={() => openDetails('USER', activeChannel.dmUser!.id)}>
                                 <Info className="mr-2 h-4 w-4" />
                                 User Profile
                             </DropdownMenuItem>
                         )}
+                        {isGroupDM && (
+                            <>
+                                <DropdownMenuItem onClick={() => openDetails('CHANNEL', activeChannel.id)}>
+                                    <Users className="mr-2 h-4 w-4" />
+                                    View Members
+                                </DropdownMenuItem>
+                                {!activeChannel.isArchived && canConvert && (
+                                    <DropdownMenuItem onClick={() => setIsConvertOpen(true)}>
+                                        <Lock className="mr-2 h-4 w-4" />
+                                        Convert to Private Channel
+                                    </DropdownMenuItem>
+                                )}
+                            </>
+                        )}
                     </DropdownMenuContent>
                 </DropdownMenu>
+                {activeChannel.type !== 'DM' && (
+                    <EditChannelDialog open={isEditOpen} onOpenChange={setIsEditOpen} channel={activeChannel} />
+                )}
+                {isGroupDM && (
+                    <ConvertGroupDMDialog open={isConvertOpen} onOpenChange={setIsConvertOpen} channel={activeChannel} />
+                )}
             </div>
         </div>
     );
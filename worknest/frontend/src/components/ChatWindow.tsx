@@ -1,12 +1,22 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { Send, Paperclip, X, Smile, AtSign, Video, Mic, StopCircle, Trash } from 'lucide-react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { Send, Paperclip, X, Smile, AtSign, Video, Mic, StopCircle, Trash, Slash, CalendarClock, BarChart3, Archive } from 'lucide-react';
 import EmojiPicker, { EmojiClickData } from 'emoji-picker-react';
+import axios from 'axios';
+import { toast } from 'sonner';
 import { useChatStore } from '@/store';
 import { getSocket } from '@/lib/socket';
+import { commandsApi } from '@/lib/api';
+import type { DraftAttachment, SlashCommand, SlashCommandResult } from '@/types';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { KanbanBoard, WikiView, CanvasView, MessageBubble } from '@/components';
+import { ScheduleMessageDialog, ScheduledMessagesDialog } from '@/components/ScheduledMessages';
+import { CreatePollDialog } from '@/components/Polls';
+import { FormattingToolbar } from '@/components/FormattingToolbar';
+import { useMarkdownFormatting } from '@/hooks/use-markdown-formatting';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { formatInTimezone } from '@/lib/timezone';
 import {
     DropdownMenu,
     DropdownMenuContent,
@@ -50,6 +60,7 @@ export function ChatWindow() {
     const {
         activeChannel,
         messages,
+        ephemeralMessages,
         isLoadingMessages,
         typingUsers,
         replyTo,
@@ -61,21 +72,49 @@ export function ChatWindow() {
         stopTyping,
         loadMoreMessages,
         hasMoreMessages,
-        activeView
+        activeView,
+        addEphemeralMessage,
+        scheduledMessages,
+        fetchScheduledMessages,
+        scheduleMessage,
+        composer,
+        setComposer
     } = useChatStore();
 
-    const [inputValue, setInputValue] = useState('');
-    const [pendingAttachments, setPendingAttachments] = useState<{ url: string, name: string, type: string, size: number }[]>([]);
+    // The composer is kept in the store so each channel keeps its own draft
+    const inputValue = composer.content;
+    const pendingAttachments = composer.attachments;
+    const setInputValue = useCallback((content: string) => setComposer({ content }), [setComposer]);
+    const setPendingAttachments = useCallback(
+        (update: DraftAttachment[] | ((attachments: DraftAttachment[]) => DraftAttachment[])) =>
+            setComposer((current) => ({
+                attachments: typeof update === 'function' ? update(current.attachments) : update,
+            })),
+        [setComposer]
+    );
     const [isUploading, setIsUploading] = useState(false);
     const [mentionSuggestions, setMentionSuggestions] = useState<{ id: string, name: string, isSpecial?: boolean, description?: string }[]>([]);
     const [mentionPosition, setMentionPosition] = useState<{ top: number, left: number } | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLTextAreaElement>(null);
+    const { format, handleShortcut } = useMarkdownFormatting(inputRef, inputValue, setInputValue);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const scrollAreaRef = useRef<HTMLDivElement>(null);
     const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const isTypingRef = useRef(false);
     const [showChannelConfirm, setShowChannelConfirm] = useState(false);
+    const [showPollBuilder, setShowPollBuilder] = useState(false);
+
+    // Send later
+    const scheduleTimezone = useUserTimezone();
+    const [showSchedule, setShowSchedule] = useState(false);
+    const [showScheduledList, setShowScheduledList] = useState(false);
+    const channelScheduled = scheduledMessages.filter(m => m.channelId === activeChannel?.id);
+
+    // Slash commands
+    const [commands, setCommands] = useState<SlashCommand[]>([]);
+    const [commandIndex, setCommandIndex] = useState(0);
+    const [commandMenuDismissed, setCommandMenuDismissed] = useState(false);
 
     // Voice Recording State
     const [isRecording, setIsRecording] = useState(false);
@@ -93,7 +132,7 @@ export function ChatWindow() {
         if (messagesEndRef.current) {
             messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
         }
-    }, [messages]);
+    }, [messages, ephemeralMessages]);
 
     // Fetch messages when channel changes
     useEffect(() => {
@@ -102,11 +141,32 @@ export function ChatWindow() {
         }
     }, [activeChannel, fetchMessages]);
 
+    // Fetch the slash commands available in this channel
+    useEffect(() => {
+        if (!activeChannel) return;
+        let cancelled = false;
+        commandsApi.getAll(activeChannel.id)
+            .then((response) => {
+                if (!cancelled) setCommands(response.data.data);
+            })
+            .catch(() => {
+                if (!cancelled) setCommands([]);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [activeChannel]);
+
     // Fetch users for mentions
     useEffect(() => {
         fetchUsers();
     }, [fetchUsers]);
 
+    // Scheduled messages are listed per channel above the composer
+    useEffect(() => {
+        fetchScheduledMessages();
+    }, [fetchScheduledMessages]);
+
     // Focus input when channel changes
     useEffect(() => {
         if (activeChannel && inputRef.current) {
@@ -114,9 +174,47 @@ export function ChatWindow() {
         }
     }, [activeChannel]);
 
+    const runCommand = useCallback(async (text: string) => {
+        if (!activeChannel) return;
+        const channelId = activeChannel.id;
+
+        setInputValue('');
+        stopTyping();
+        isTypingRef.current = false;
+        if (inputRef.current) {
+            inputRef.current.style.height = 'auto';
+        }
+
+        try {
+            // The reply also arrives over the socket; the store keeps one copy
+            const response = await commandsApi.execute(channelId, text);
+            const result: SlashCommandResult = response.data.data;
+            if (result.message) {
+                addEphemeralMessage(result.message);
+            }
+        } catch (err) {
+            addEphemeralMessage({
+                id: `ephemeral-local-${Date.now()}`,
+                channelId,
+                content: axios.isAxiosError(err)
+                    ? err.response?.data?.error || err.message
+                    : 'Failed to run command',
+                contentType: 'EPHEMERAL',
+                actions: [],
+                createdAt: new Date().toISOString(),
+            });
+        }
+    }, [activeChannel, stopTyping, addEphemeralMessage, setInputValue]);
+
     const executeSend = useCallback((overrideConfirm = false) => {
         if ((!inputValue.trim() && pendingAttachments.length === 0) || !activeChannel) return;
 
+        // Slash commands run on the server instead of being posted
+        if (inputValue.trim().startsWith('/') && pendingAttachments.length === 0) {
+            runCommand(inputValue.trim());
+            return;
+        }
+
         // Check for @channel mention
         const hasChannelMention = inputValue.toLowerCase().includes('@channel');
 
@@ -150,12 +248,37 @@ export function ChatWindow() {
         if (inputRef.current) {
             inputRef.current.style.height = 'auto';
         }
-    }, [inputValue, activeChannel, pendingAttachments, replyTo, stopTyping, setReplyTo]);
+    }, [inputValue, activeChannel, pendingAttachments, replyTo, stopTyping, setReplyTo, runCommand, setInputValue, setPendingAttachments]);
 
     const handleSendMessage = () => {
         executeSend(false);
     };
 
+    const handleScheduleMessage = async ({ content, sendAt }: { content: string; sendAt: string }) => {
+        if (!activeChannel) return false;
+        const scheduled = await scheduleMessage({
+            channelId: activeChannel.id,
+            content,
+            sendAt,
+            timezone: scheduleTimezone,
+        });
+        if (!scheduled) return false;
+
+        toast.success(`Message scheduled for ${formatInTimezone(scheduled.scheduledAt, scheduleTimezone)}`);
+        setInputValue('');
+        setMentionSuggestions([]);
+        setMentionPosition(null);
+        stopTyping();
+        isTypingRef.current = false;
+        if (inputRef.current) {
+            inputRef.current.style.height = 'auto';
+        }
+        return true;
+    };
+
+    // Attachments, voice messages and slash commands can't be scheduled
+    const canSchedule = !!inputValue.trim() && pendingAttachments.length === 0 && !inputValue.trim().startsWith('/');
+
     const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = e.target.files;
         if (!files || files.length === 0) return;
@@ -181,6 +304,8 @@ export function ChatWindow() {
         const value = e.target.value;
         const selectionStart = e.target.selectionStart;
         setInputValue(value);
+        setCommandIndex(0);
+        setCommandMenuDismissed(false);
 
         // Auto-resize textarea
         e.target.style.height = 'auto';
@@ -284,7 +409,41 @@ export function ChatWindow() {
         }, 0);
     };
 
+    // Command names are suggested until the first space
+    const commandQuery = /^\/[\w-]*$/.test(inputValue) ? inputValue.slice(1).toLowerCase() : null;
+    const commandSuggestions = commandQuery === null || commandMenuDismissed
+        ? []
+        : commands.filter(c => c.name.startsWith(commandQuery));
+
+    const handleCommandSelect = (command: SlashCommand) => {
+        setInputValue(`/${command.name}${command.args.length > 0 ? ' ' : ''}`);
+        setCommandIndex(0);
+        setTimeout(() => inputRef.current?.focus(), 0);
+    };
+
     const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (commandSuggestions.length > 0) {
+            const selected = commandSuggestions[Math.min(commandIndex, commandSuggestions.length - 1)];
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setCommandIndex((commandIndex + step + commandSuggestions.length) % commandSuggestions.length);
+                return;
+            }
+            if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && inputValue !== `/${selected.name}`)) {
+                e.preventDefault();
+                handleCommandSelect(selected);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setCommandMenuDismissed(true);
+                return;
+            }
+        }
+
+        if (handleShortcut(e)) return;
+
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
             handleSendMessage();
@@ -478,6 +637,15 @@ export function ChatWindow() {
     };
 
     // Check if messages should be grouped
+    // Ephemeral messages slot into the channel timeline by time
+    const timeline = useMemo(() => {
+        const channelEphemeral = ephemeralMessages.filter(m => m.channelId === activeChannel?.id);
+        if (channelEphemeral.length === 0) return messages;
+        return [...messages, ...channelEphemeral].sort(
+            (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        );
+    }, [messages, ephemeralMessages, activeChannel?.id]);
+
     const shouldGroup = (current: typeof messages[0], prev: typeof messages[0] | undefined) => {
         if (!prev) return false;
         if (current.sender._id !== prev.sender._id) return false;
@@ -487,7 +655,7 @@ export function ChatWindow() {
     };
 
     const onEmojiClick = (emojiData: EmojiClickData) => {
-        setInputValue((prev) => prev + emojiData.emoji);
+        setInputValue(inputValue + emojiData.emoji);
         inputRef.current?.focus();
     };
 
@@ -560,11 +728,11 @@ export function ChatWindow() {
                             )}
 
                             {/* Messages */}
-                            {messages.map((message, index) => (
+                            {timeline.map((message, index) => (
                                 <MessageBubble
                                     key={message.id}
                                     message={message}
-                                    isGrouped={shouldGroup(message, messages[index - 1])}
+                                    isGrouped={shouldGroup(message, timeline[index - 1])}
                                     onReply={handleReply}
                                     onReact={handleReact}
                                     onScrollToMessage={scrollToMessage}
@@ -581,8 +749,16 @@ export function ChatWindow() {
                 </>
             )}
 
+            {/* Archived channels are read-only */}
+            {activeView === 'messages' && activeChannel.isArchived && (
+                <div className="p-4 border-t border-border flex items-center justify-center gap-2 text-sm text-muted-foreground bg-muted/30">
+                    <Archive className="h-4 w-4" />
+                    This channel is archived. Its history can be read and searched, but not added to.
+                </div>
+            )}
+
             {/* Message Input (only shown in messages view) */}
-            {activeView === 'messages' && (
+            {activeView === 'messages' && !activeChannel.isArchived && (
                 <div className="p-4 border-t border-border relative">
                     {/* Reply Preview */}
                     {replyTo && (
@@ -608,6 +784,24 @@ export function ChatWindow() {
                         </div>
                     )}
 
+                    {/* Scheduled messages in this channel */}
+                    {channelScheduled.length > 0 && (
+                        <button
+                            type="button"
+                            className="flex items-center gap-2 mb-2 px-2 text-xs text-muted-foreground hover:text-primary transition-colors"
+                            onClick={() => setShowScheduledList(true)}
+                        >
+                            <CalendarClock className="h-3.5 w-3.5" />
+                            {channelScheduled.length === 1
+                                ? '1 scheduled message'
+                                : `${channelScheduled.length} scheduled messages`}
+                            {channelScheduled.some(m => m.status === 'FAILED') && (
+                                <span className="text-destructive">· not sent</span>
+                            )}
+                            <span className="underline">View</span>
+                        </button>
+                    )}
+
                     {/* Pending Attachments */}
                     {pendingAttachments.length > 0 && (
                         <div className="flex flex-wrap gap-2 mb-3">
@@ -647,6 +841,41 @@ export function ChatWindow() {
                         </div>
                     )}
 
+                    {/* Slash Command Suggestions */}
+                    {commandSuggestions.length > 0 && (
+                        <div
+                            className="absolute z-50 bg-popover border border-border rounded-lg shadow-xl min-w-[320px] max-w-[480px] overflow-hidden animate-in fade-in slide-in-from-bottom-2"
+                            style={{ bottom: '100%', left: '16px', marginBottom: '8px' }}
+                        >
+                            <div className="p-2 border-b border-border bg-muted/30">
+                                <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Commands</span>
+                            </div>
+                            <div className="py-1 max-h-[280px] overflow-y-auto">
+                                {commandSuggestions.map((command, i) => (
+                                    <button
+                                        key={command.name}
+                                        className={cn(
+                                            'w-full flex items-start gap-3 px-3 py-2 text-sm transition-colors text-left',
+                                            i === Math.min(commandIndex, commandSuggestions.length - 1)
+                                                ? 'bg-primary/10 text-primary'
+                                                : 'hover:bg-primary/10 hover:text-primary'
+                                        )}
+                                        onMouseEnter={() => setCommandIndex(i)}
+                                        onClick={() => handleCommandSelect(command)}
+                                    >
+                                        <div className="h-7 w-7 shrink-0 rounded-lg bg-muted flex items-center justify-center">
+                                            <Slash className="h-4 w-4" />
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="font-mono text-xs font-medium truncate">{command.usage}</div>
+                                            <div className="text-xs text-muted-foreground">{command.description}</div>
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Mention Suggestions */}
                     {mentionPosition && mentionSuggestions.length > 0 && (
                         <div
@@ -703,6 +932,11 @@ export function ChatWindow() {
                         </div>
                     )}
 
+                    {/* Formatting */}
+                    <div className="mb-1">
+                        <FormattingToolbar onFormat={format} disabled={isRecording || !!audioBlob} />
+                    </div>
+
                     {/* Input Area */}
                     <div className="flex items-end gap-2 relative">
                         <div className="flex-1 relative">
@@ -738,7 +972,7 @@ export function ChatWindow() {
                                     value={inputValue}
                                     onChange={handleInputChange}
                                     onKeyDown={handleKeyDown}
-                                    placeholder={`Message #${activeChannel.type === 'DM' ? activeChannel.dmUser?.name || 'user' : activeChannel.name}`}
+                                    placeholder={activeChannel.type === 'DM' ? `Message ${activeChannel.dmUser?.name || activeChannel.name}` : `Message #${activeChannel.name}`}
                                     className={cn(
                                         'flex-1 resize-none bg-transparent py-3 text-sm max-h-[150px]',
                                         'placeholder:text-muted-foreground focus:outline-none'
@@ -788,6 +1022,18 @@ export function ChatWindow() {
                                 >
                                     <AtSign className="h-5 w-5" />
                                 </Button>
+
+                                {/* Poll Button */}
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Create poll"
+                                    className="h-10 w-10 shrink-0 text-muted-foreground hover:text-foreground"
+                                    onClick={() => setShowPollBuilder(true)}
+                                >
+                                    <BarChart3 className="h-5 w-5" />
+                                </Button>
                             </div>
                         </div>
 
@@ -859,6 +1105,17 @@ export function ChatWindow() {
                                 >
                                     <Mic className="h-6 w-6" />
                                 </Button>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Schedule message"
+                                    disabled={!canSchedule}
+                                    className="h-12 w-12 rounded-xl text-muted-foreground hover:text-primary hover:bg-primary/5"
+                                    onClick={() => setShowSchedule(true)}
+                                >
+                                    <CalendarClock className="h-6 w-6" />
+                                </Button>
                                 <Button
                                     onClick={handleSendMessage}
                                     disabled={!inputValue.trim() && pendingAttachments.length === 0}
@@ -884,6 +1141,26 @@ export function ChatWindow() {
                 </div>
             )}
 
+            {/* Send later */}
+            <ScheduleMessageDialog
+                open={showSchedule}
+                onOpenChange={setShowSchedule}
+                timezone={scheduleTimezone}
+                content={inputValue}
+                onSubmit={handleScheduleMessage}
+            />
+            <ScheduledMessagesDialog
+                open={showScheduledList}
+                onOpenChange={setShowScheduledList}
+                channelId={activeChannel.id}
+            />
+
+            <CreatePollDialog
+                open={showPollBuilder}
+                onOpenChange={setShowPollBuilder}
+                channelId={activeChannel.id}
+            />
+
             {/* @channel Confirmation Dialog */}
             <Dialog open={showChannelConfirm} onOpenChange={setShowChannelConfirm}>
                 <DialogContent className="sm:max-w-[425px]">
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Hash, Loader2 } from 'lucide-react';
+import { useChatStore } from '@/store';
+import type { Channel } from '@/store/chatStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ConvertGroupDMDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    channel: Channel;
+}
+
+/**
+ * Turn a group direct message into a private channel, keeping its history
+ * and everyone in it
+ */
+export function ConvertGroupDMDialog(props: ConvertGroupDMDialogProps) {
+    return (
+        <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+            <DialogContent className="sm:max-w-[440px]">
+                {props.open && <ConvertGroupDMForm {...props} />}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function ConvertGroupDMForm({ onOpenChange, channel }: ConvertGroupDMDialogProps) {
+    const { convertGroupDM } = useChatStore();
+    const [name, setName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const submit = async () => {
+        if (!name.trim()) return;
+        setIsSaving(true);
+        const converted = await convertGroupDM(channel.id, name.trim());
+        setIsSaving(false);
+        if (converted) onOpenChange(false);
+    };
+
+    return (
+        <>
+            <DialogHeader>
+                <DialogTitle>Convert to a private channel</DialogTitle>
+                <DialogDescription>
+                    Everyone in this conversation becomes a member and keeps its history. You'll be the channel's admin. This can't be undone.
+                </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+                <Label htmlFor="convert-channel-name">Channel name</Label>
+                <div className="relative">
+                    <Hash className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                        id="convert-channel-name"
+                        className="pl-9"
+                        placeholder="e.g. launch-planning"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && submit()}
+                        maxLength={100}
+                        autoFocus
+                    />
+                </div>
+            </div>
+
+            <DialogFooter className="gap-2 sm:gap-0 mt-2">
+                <Button variant="ghost" onClick={() => onOpenChange(false)}>
+                    Cancel
+                </Button>
+                <Button onClick={submit} disabled={!name.trim() || isSaving}>
+                    {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Convert
+                </Button>
+            </DialogFooter>
+        </>
+    );
+}
+
+export default ConvertGroupDMDialog;
@@ -1,4 +1,4 @@
-import { X, Mail, Shield, Clock, Hash, Lock, Users, Info, Calendar, Search, UserPlus, Pin, Trash2, AlertTriangle, FileIcon, Download, Image, Video, FileText, Music, Bell } from 'lucide-react';
+import { X, Mail, Shield, Clock, Hash, Lock, Users, Info, Calendar, Search, UserPlus, Pin, Trash2, AlertTriangle, Archive, RotateCcw, Pencil, FileIcon, Download, Image, Video, FileText, Music, Bell, Webhook, Copy, RefreshCw } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuthStore, useChatStore } from '@/store';
 import { cn, getInitials, getAvatarColor, formatTime } from '@/lib/utils';
@@ -17,10 +17,12 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { channelsApi } from '@/lib/api';
+import { EditChannelDialog } from '@/components/EditChannelDialog';
+import type { IncomingWebhook } from '@/types';
 
 export function DetailsPanel() {
     const { user: currentUser } = useAuthStore();
-    const { detailsPanel, closeDetails, channels, users, onlineUsers, addMemberToChannel, pinnedMessages, fetchPinnedMessages, deleteChannel } = useChatStore();
+    const { detailsPanel, closeDetails, channels, archivedChannels, users, onlineUsers, addMemberToChannel, pinnedMessages, fetchPinnedMessages, archiveChannel, unarchiveChannel, deleteChannel } = useChatStore();
     const { isOpen, type, id } = detailsPanel;
 
     const [isAddMemberOpen, setIsAddMemberOpen] = useState(false);
@@ -29,6 +31,7 @@ export function DetailsPanel() {
     const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
     const [deleteConfirmName, setDeleteConfirmName] = useState('');
     const [isDeleting, setIsDeleting] = useState(false);
+    const [isEditOpen, setIsEditOpen] = useState(false);
     const [files, setFiles] = useState<{
         url: string;
         name: string;
@@ -203,7 +206,7 @@ export function DetailsPanel() {
             </div>
         );
     } else if (type === 'CHANNEL') {
-        const channel = channels.find((c) => c.id === id);
+        const channel = [...channels, ...archivedChannels].find((c) => c.id === id);
         if (!channel) return null;
 
         content = (
@@ -253,13 +256,25 @@ export function DetailsPanel() {
                         <div className="mb-6">
                             <div className="flex items-center gap-2 text-xl font-bold mb-2">
                                 {channel.type === 'PRIVATE' ? <Lock className="h-5 w-5" /> : <Hash className="h-5 w-5" />}
-                                <span>{channel.name}</span>
+                                <span className="flex-1 min-w-0 truncate">{channel.name}</span>
+                                {channel.type !== 'DM' && !channel.isArchived && (currentUser?.role === 'ADMIN' || channel.role === 'ADMIN') && (
+                                    <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit channel" onClick={() => setIsEditOpen(true)}>
+                                        <Pencil className="h-4 w-4" />
+                                    </Button>
+                                )}
                             </div>
+                            {channel.topic && (
+                                <p className="text-sm mb-1">
+                                    <span className="text-muted-foreground">Topic: </span>
+                                    {channel.topic}
+                                </p>
+                            )}
                             {channel.description && (
                                 <p className="text-sm text-muted-foreground italic">
                                     {channel.description}
                                 </p>
                             )}
+                            <EditChannelDialog open={isEditOpen} onOpenChange={setIsEditOpen} channel={channel} />
                         </div>
 
                         <div className="grid grid-cols-2 gap-3 mb-6">
@@ -340,6 +355,24 @@ export function DetailsPanel() {
                                 </div>
                             </div>
 
+                            {currentUser?.role === 'ADMIN' && (
+                                <>
+                                    <Separator />
+                                    <RetentionOverride
+                                        key={channel.id}
+                                        channelId={channel.id}
+                                        retentionDays={channel.retentionDays ?? null}
+                                    />
+                                </>
+                            )}
+
+                            {channel.type !== 'DM' && (currentUser?.role === 'ADMIN' || channel.role === 'ADMIN') && (
+                                <>
+                                    <Separator />
+                                    <IncomingWebhooks key={`hooks-${channel.id}`} channelId={channel.id} />
+                                </>
+                            )}
+
                             <Separator />
 
                             <div>
@@ -424,10 +457,38 @@ export function DetailsPanel() {
                                 </div>
                             </div>
 
-                            {currentUser?.role === 'ADMIN' && (
+                            {(currentUser?.role === 'ADMIN' || channel.role === 'ADMIN') && channel.type !== 'DM' && !channel.isArchived && (
                                 <>
                                     <Separator />
                                     <div className="pt-2 px-1">
+                                        <Button
+                                            variant="ghost"
+                                            className="w-full justify-start text-destructive hover:text-destructive hover:bg-destructive/10 gap-3 px-3"
+                                            onClick={() => {
+                                                if (window.confirm(`Archive #${channel.name}? It becomes read-only and leaves everyone's sidebar.`)) {
+                                                    archiveChannel(channel.id);
+                                                }
+                                            }}
+                                        >
+                                            <Archive className="h-4 w-4" />
+                                            <span>Archive Channel</span>
+                                        </Button>
+                                    </div>
+                                </>
+                            )}
+
+                            {currentUser?.role === 'ADMIN' && channel.isArchived && (
+                                <>
+                                    <Separator />
+                                    <div className="pt-2 px-1 space-y-1">
+                                        <Button
+                                            variant="ghost"
+                                            className="w-full justify-start gap-3 px-3"
+                                            onClick={() => unarchiveChannel(channel.id)}
+                                        >
+                                            <RotateCcw className="h-4 w-4" />
+                                            <span>Restore Channel</span>
+                                        </Button>
                                         <Dialog open={isDeleteDialogOpen} onOpenChange={(open) => {
                                             setIsDeleteDialogOpen(open);
                                             if (!open) setDeleteConfirmName('');
@@ -435,7 +496,7 @@ export function DetailsPanel() {
                                             <DialogTrigger asChild>
                                                 <Button variant="ghost" className="w-full justify-start text-destructive hover:text-destructive hover:bg-destructive/10 gap-3 px-3">
                                                     <Trash2 className="h-4 w-4" />
-                                                    <span>Delete Channel</span>
+                                                    <span>Delete Permanently</span>
                                                 </Button>
                                             </DialogTrigger>
                                             <DialogContent className="sm:max-w-[425px]">
@@ -445,7 +506,7 @@ export function DetailsPanel() {
                                                         Delete Channel
                                                     </DialogTitle>
                                                     <DialogDescription>
-                                                        This action cannot be undone. This will permanently delete the <strong>#{channel.name}</strong> channel and all of its message history.
+                                                        This action cannot be undone. This will permanently delete the <strong>#{channel.name}</strong> channel with its messages, files, tasks, wiki pages and canvas. The deletion runs in the background.
                                                     </DialogDescription>
                                                 </DialogHeader>
                                                 <div className="space-y-4 py-4">
@@ -477,7 +538,7 @@ export function DetailsPanel() {
                                                             }
                                                         }}
                                                     >
-                                                        {isDeleting ? "Deleting..." : "Delete Channel"}
+                                                        {isDeleting ? "Deleting..." : "Delete Permanently"}
                                                     </Button>
                                                     <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
                                                         Cancel
@@ -703,3 +764,184 @@ export function DetailsPanel() {
         </div>
     );
 }
+
+function RetentionOverride({ channelId, retentionDays }: { channelId: string; retentionDays: number | null }) {
+    const [value, setValue] = useState(retentionDays === null ? '' : String(retentionDays));
+    const [isSaving, setIsSaving] = useState(false);
+
+    const save = async (next: number | null) => {
+        setIsSaving(true);
+        try {
+            await channelsApi.updateRetention(channelId, next);
+            setValue(next === null ? '' : String(next));
+            toast.success(next === null ? 'Channel now follows the workspace retention policy' : `Messages older than ${next} days will be purged`);
+        } catch {
+            toast.error('Failed to update retention');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-3 px-1 flex items-center gap-2">
+                <Clock className="h-3 w-3" />
+                Message Retention
+            </h4>
+            <div className="flex gap-2 px-1">
+                <Input
+                    type="number"
+                    min={0}
+                    placeholder="Workspace default"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    className="h-8 text-sm"
+                />
+                <Button
+                    size="sm"
+                    className="h-8"
+                    disabled={isSaving || value === '' || parseInt(value) < 0}
+                    onClick={() => save(parseInt(value))}
+                >
+                    Save
+                </Button>
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8"
+                    disabled={isSaving || (retentionDays === null && value === '')}
+                    onClick={() => save(null)}
+                >
+                    Reset
+                </Button>
+            </div>
+            <p className="text-[10px] text-muted-foreground px-1 mt-1 italic">
+                Days to keep messages in this channel. 0 keeps them forever; empty inherits the workspace policy.
+            </p>
+        </div>
+    );
+}
+
+function IncomingWebhooks({ channelId }: { channelId: string }) {
+    const [webhooks, setWebhooks] = useState<IncomingWebhook[]>([]);
+    const [name, setName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    // The URL contains the secret token and is only returned on create/regenerate
+    const [revealed, setRevealed] = useState<{ id: string; url: string } | null>(null);
+
+    useEffect(() => {
+        channelsApi.getIncomingWebhooks(channelId)
+            .then((response) => setWebhooks(response.data.data))
+            .catch(() => toast.error('Failed to load incoming webhooks'));
+    }, [channelId]);
+
+    const create = async () => {
+        setIsSaving(true);
+        try {
+            const response = await channelsApi.createIncomingWebhook(channelId, { name: name.trim() });
+            const { webhook, url } = response.data.data;
+            setWebhooks((prev) => [webhook, ...prev]);
+            setRevealed({ id: webhook.id, url });
+            setName('');
+        } catch {
+            toast.error('Failed to create incoming webhook');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const toggle = async (webhook: IncomingWebhook) => {
+        try {
+            const response = await channelsApi.updateIncomingWebhook(channelId, webhook.id, { isActive: !webhook.isActive });
+            setWebhooks((prev) => prev.map((w) => (w.id === webhook.id ? response.data.data : w)));
+        } catch {
+            toast.error('Failed to update incoming webhook');
+        }
+    };
+
+    const regenerate = async (webhook: IncomingWebhook) => {
+        if (!window.confirm(`Regenerate the URL for "${webhook.name}"? The current URL stops working.`)) return;
+        try {
+            const response = await channelsApi.regenerateIncomingWebhook(channelId, webhook.id);
+            setRevealed({ id: webhook.id, url: response.data.data.url });
+        } catch {
+            toast.error('Failed to regenerate URL');
+        }
+    };
+
+    const remove = async (webhook: IncomingWebhook) => {
+        if (!window.confirm(`Delete "${webhook.name}"? Integrations using it will stop posting.`)) return;
+        try {
+            await channelsApi.deleteIncomingWebhook(channelId, webhook.id);
+            setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+        } catch {
+            toast.error('Failed to delete incoming webhook');
+        }
+    };
+
+    return (
+        <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground mb-3 px-1 flex items-center gap-2">
+                <Webhook className="h-3 w-3" />
+                Incoming Webhooks
+            </h4>
+            <div className="space-y-2 px-1">
+                {webhooks.map((webhook) => (
+                    <div key={webhook.id} className="rounded-lg border p-2 space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                            <div className="min-w-0">
+                                <p className={cn('text-sm font-medium truncate', !webhook.isActive && 'text-muted-foreground line-through')}>
+                                    {webhook.name}
+                                </p>
+                                <p className="text-[10px] text-muted-foreground font-mono">
+                                    /hooks/{webhook.tokenPrefix}… • {webhook.messageCount} messages
+                                </p>
+                            </div>
+                            <div className="flex shrink-0">
+                                <Button variant="ghost" size="icon" className="h-7 w-7" title="Regenerate URL" onClick={() => regenerate(webhook)}>
+                                    <RefreshCw className="h-3.5 w-3.5" />
+                                </Button>
+                                <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" title="Delete" onClick={() => remove(webhook)}>
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                </Button>
+                            </div>
+                        </div>
+                        <button className="text-[10px] text-primary hover:underline" onClick={() => toggle(webhook)}>
+                            {webhook.isActive ? 'Disable' : 'Enable'}
+                        </button>
+                        {revealed?.id === webhook.id && (
+                            <div className="flex gap-1">
+                                <Input readOnly value={revealed.url} className="h-7 text-[10px] font-mono" />
+                                <Button
+                                    variant="outline"
+                                    size="icon"
+                                    className="h-7 w-7 shrink-0"
+                                    onClick={() => {
+                                        navigator.clipboard.writeText(revealed.url);
+                                        toast.success('Webhook URL copied');
+                                    }}
+                                >
+                                    <Copy className="h-3.5 w-3.5" />
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                ))}
+                <div className="flex gap-2">
+                    <Input
+                        placeholder="Integration name, e.g. CI"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="h-8 text-sm"
+                    />
+                    <Button size="sm" className="h-8" disabled={isSaving || !name.trim()} onClick={create}>
+                        Add
+                    </Button>
+                </div>
+            </div>
+            <p className="text-[10px] text-muted-foreground px-1 mt-1 italic">
+                POST JSON with text, attachments or blocks to the URL to post here. Copy it now; it is shown only once.
+            </p>
+        </div>
+    );
+}
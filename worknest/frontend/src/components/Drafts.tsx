@@ -0,0 +1,81 @@
+import { useEffect } from 'react';
+import { Pencil } from 'lucide-react';
+import { useChatStore } from '@/store';
+import type { User } from '@/store/chatStore';
+import type { Draft } from '@/types';
+import { cn } from '@/lib/utils';
+
+const describeDraft = (draft: Draft) => {
+    if (draft.content.trim()) return draft.content;
+    if (draft.attachments.length > 0) {
+        return `${draft.attachments.length} attachment${draft.attachments.length === 1 ? '' : 's'}`;
+    }
+    return `Reply to ${draft.replyTo?.sender.name || 'a message'}`;
+};
+
+/**
+ * Unsent drafts in the sidebar, most recently edited first. Opening one goes
+ * to its channel, or thread, where the composer picks it up.
+ */
+export function DraftsList() {
+    const { drafts, channels, activeChannel, threadPanel, setActiveChannel, openThread, fetchDrafts } = useChatStore();
+
+    useEffect(() => {
+        fetchDrafts();
+    }, [fetchDrafts]);
+
+    if (drafts.length === 0) return null;
+
+    const openDraft = (draft: Draft) => {
+        const channel = channels.find((c) => c.id === draft.channelId);
+        if (!channel) return;
+        if (activeChannel?.id !== channel.id) setActiveChannel(channel);
+        if (draft.threadId) {
+            // The thread panel loads the parent message itself
+            openThread({ id: draft.threadId, content: '', sender: { name: '' } as User });
+        }
+    };
+
+    return (
+        <div className="mb-4">
+            <div className="flex items-center px-2 py-1">
+                <span className="text-xs font-semibold uppercase tracking-wider opacity-60">
+                    Drafts
+                </span>
+            </div>
+            <div className="space-y-0.5">
+                {drafts.map((draft) => {
+                    const channel = channels.find((c) => c.id === draft.channelId);
+                    const channelName = channel?.type === 'DM'
+                        ? channel.dmUser?.name || channel.name
+                        : `#${channel?.name || draft.channel?.name || 'channel'}`;
+                    const isOpen = draft.threadId
+                        ? threadPanel.parentMessage?.id === draft.threadId
+                        : activeChannel?.id === draft.channelId;
+
+                    return (
+                        <button
+                            key={`${draft.channelId}:${draft.threadId || ''}`}
+                            onClick={() => openDraft(draft)}
+                            className={cn(
+                                'w-full flex items-start gap-2 px-2 py-1.5 rounded-md text-sm text-left transition-all',
+                                'hover:bg-sidebar-accent hover:text-sidebar-accent-foreground',
+                                isOpen && 'bg-sidebar-accent text-sidebar-accent-foreground'
+                            )}
+                        >
+                            <Pencil className="h-4 w-4 mt-0.5 shrink-0 opacity-60" />
+                            <span className="flex-1 min-w-0">
+                                <span className="block truncate font-medium">
+                                    {draft.threadId ? `Thread in ${channelName}` : channelName}
+                                </span>
+                                <span className="block truncate text-xs opacity-60">{describeDraft(draft)}</span>
+                            </span>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
+export default DraftsList;
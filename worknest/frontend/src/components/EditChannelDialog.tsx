@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useAuthStore, useChatStore } from '@/store';
+import type { Channel } from '@/store/chatStore';
+import { decodeEntities } from '@/lib/markdown';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+
+interface EditChannelDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    channel: Channel;
+}
+
+/**
+ * Rename a channel, set its topic and purpose, or make it public or private
+ */
+export function EditChannelDialog(props: EditChannelDialogProps) {
+    return (
+        <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+            <DialogContent className="sm:max-w-[480px]">
+                {/* Mounted per opening, so the form starts from the channel */}
+                {props.open && <EditChannelForm {...props} />}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function EditChannelForm({ onOpenChange, channel }: EditChannelDialogProps) {
+    const { user, organization } = useAuthStore();
+    const { updateChannel } = useChatStore();
+    // Saved text is escaped by the server; edit it as it was typed
+    const [name, setName] = useState(() => decodeEntities(channel.name));
+    const [topic, setTopic] = useState(() => decodeEntities(channel.topic || ''));
+    const [description, setDescription] = useState(() => decodeEntities(channel.description || ''));
+    const [isPrivate, setIsPrivate] = useState(channel.type === 'PRIVATE');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const canMakePrivate = user?.role === 'ADMIN' && organization?.settings?.channelPolicies?.allowPrivateChannels !== false;
+
+    const changes = {
+        name: name.trim() !== decodeEntities(channel.name) ? name.trim() : undefined,
+        topic: topic.trim() !== decodeEntities(channel.topic || '') ? topic.trim() : undefined,
+        description: description.trim() !== decodeEntities(channel.description || '') ? description.trim() : undefined,
+        type: isPrivate !== (channel.type === 'PRIVATE') ? (isPrivate ? 'PRIVATE' as const : 'PUBLIC' as const) : undefined,
+    };
+    const hasChanges = Object.values(changes).some((value) => value !== undefined);
+
+    const submit = async () => {
+        if (!name.trim() || !hasChanges) return;
+        setIsSaving(true);
+        const saved = await updateChannel(channel.id, changes);
+        setIsSaving(false);
+        if (saved) onOpenChange(false);
+    };
+
+    return (
+        <>
+            <DialogHeader>
+                <DialogTitle>Edit channel</DialogTitle>
+                <DialogDescription>Everyone in the channel sees the changes.</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+                <div className="space-y-2">
+                    <Label htmlFor="channel-name">Name</Label>
+                    <Input
+                        id="channel-name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        maxLength={100}
+                        autoFocus
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="channel-topic">Topic</Label>
+                    <Input
+                        id="channel-topic"
+                        value={topic}
+                        onChange={(e) => setTopic(e.target.value)}
+                        placeholder="What's being discussed right now"
+                        maxLength={500}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="channel-purpose">Purpose</Label>
+                    <Textarea
+                        id="channel-purpose"
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        placeholder="What this channel is for"
+                        maxLength={500}
+                        rows={3}
+                    />
+                </div>
+                {(canMakePrivate || channel.type === 'PRIVATE') && (
+                    <label className="flex items-center justify-between gap-2 text-sm">
+                        <span>
+                            Private channel
+                            <span className="block text-xs text-muted-foreground">
+                                {isPrivate
+                                    ? 'Only invited members can find and join it.'
+                                    : 'Anyone in the organization can find and join it.'}
+                            </span>
+                        </span>
+                        <Switch
+                            checked={isPrivate}
+                            onCheckedChange={setIsPrivate}
+                            disabled={!canMakePrivate && !isPrivate}
+                        />
+                    </label>
+                )}
+            </div>
+
+            <DialogFooter className="gap-2 sm:gap-0 mt-2">
+                <Button variant="ghost" onClick={() => onOpenChange(false)}>
+                    Cancel
+                </Button>
+                <Button onClick={submit} disabled={!name.trim() || !hasChanges || isSaving}>
+                    {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save
+                </Button>
+            </DialogFooter>
+        </>
+    );
+}
+
+export default EditChannelDialog;
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { EyeOff, X } from 'lucide-react';
+import { cn, formatTime } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import type { Message } from '@/store/chatStore';
+import { useChatStore } from '@/store';
+
+interface EphemeralMessageBubbleProps {
+    message: Message;
+}
+
+/**
+ * A message only the current user can see, with optional action buttons
+ */
+export function EphemeralMessageBubble({ message }: EphemeralMessageBubbleProps) {
+    const { dismissEphemeralMessage, runEphemeralAction } = useChatStore();
+    const [pendingActionId, setPendingActionId] = useState<string | null>(null);
+
+    const handleAction = async (actionId: string) => {
+        setPendingActionId(actionId);
+        try {
+            await runEphemeralAction(message.id, actionId);
+        } finally {
+            setPendingActionId(null);
+        }
+    };
+
+    return (
+        <div
+            id={`message-${message.id}`}
+            className="mx-4 my-2 flex items-start gap-3 rounded-lg border border-dashed border-primary/40 bg-primary/5 px-3 py-2 message-enter"
+        >
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1.5 text-xs text-muted-foreground mb-0.5">
+                    <EyeOff className="h-3 w-3" />
+                    <span>Only visible to you</span>
+                    <span>·</span>
+                    <span>{formatTime(message.createdAt)}</span>
+                </div>
+                <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+                {message.actions && message.actions.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                        {message.actions.map((action) => (
+                            <Button
+                                key={action.id}
+                                size="sm"
+                                variant={action.style === 'primary' ? 'default' : action.style === 'danger' ? 'destructive' : 'outline'}
+                                className={cn('h-7 text-xs', pendingActionId === action.id && 'opacity-70')}
+                                disabled={pendingActionId !== null}
+                                onClick={() => handleAction(action.id)}
+                            >
+                                {action.label}
+                            </Button>
+                        ))}
+                    </div>
+                )}
+            </div>
+            <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                title="Dismiss"
+                onClick={() => dismissEphemeralMessage(message.id)}
+            >
+                <X className="h-3.5 w-3.5" />
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,54 @@
+import { Bold, Code, Italic, Link, List, ListOrdered, Quote, SquareCode, Strikethrough } from 'lucide-react';
+import type { FormatAction } from '@/lib/markdown';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+interface FormattingToolbarProps {
+    onFormat: (action: FormatAction) => void;
+    disabled?: boolean;
+}
+
+const ACTIONS: { action: FormatAction; label: string; shortcut: string; icon: typeof Bold }[] = [
+    { action: 'bold', label: 'Bold', shortcut: 'Ctrl+B', icon: Bold },
+    { action: 'italic', label: 'Italic', shortcut: 'Ctrl+I', icon: Italic },
+    { action: 'strike', label: 'Strikethrough', shortcut: 'Ctrl+Shift+X', icon: Strikethrough },
+    { action: 'link', label: 'Link', shortcut: 'Ctrl+K', icon: Link },
+    { action: 'orderedList', label: 'Numbered list', shortcut: 'Ctrl+Shift+7', icon: ListOrdered },
+    { action: 'bulletList', label: 'Bulleted list', shortcut: 'Ctrl+Shift+8', icon: List },
+    { action: 'quote', label: 'Quote', shortcut: 'Ctrl+Shift+9', icon: Quote },
+    { action: 'code', label: 'Code', shortcut: 'Ctrl+E', icon: Code },
+    { action: 'codeBlock', label: 'Code block', shortcut: 'Ctrl+Shift+C', icon: SquareCode },
+];
+
+/**
+ * Markdown formatting buttons for a composer
+ */
+export function FormattingToolbar({ onFormat, disabled }: FormattingToolbarProps) {
+    return (
+        <div className="flex items-center gap-0.5">
+            {ACTIONS.map(({ action, label, shortcut, icon: Icon }) => (
+                <Tooltip key={action}>
+                    <TooltipTrigger asChild>
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                            disabled={disabled}
+                            // Keep the textarea's selection
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => onFormat(action)}
+                        >
+                            <Icon className="h-3.5 w-3.5" />
+                        </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                        {label} <span className="text-muted-foreground">{shortcut}</span>
+                    </TooltipContent>
+                </Tooltip>
+            ))}
+        </div>
+    );
+}
+
+export default FormattingToolbar;
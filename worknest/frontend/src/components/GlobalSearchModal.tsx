@@ -1,10 +1,16 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { Search, FileIcon, MessageSquare, Hash, Lock, User, Calendar, Filter, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Search, FileIcon, MessageSquare, MessagesSquare, BookOpen, CheckSquare, Hash, Lock, User, Calendar, Filter, Loader2, Bookmark, Bell, BellOff, Clock, Trash2, X } from 'lucide-react';
+import axios from 'axios';
+import { toast } from 'sonner';
 import { searchApi } from '@/lib/api';
 import { useChatStore } from '@/store';
+import { useWikiStore } from '@/store/wikiStore';
 import { cn, formatTime, getInitials, getAvatarColor } from '@/lib/utils';
+import { getSearchSuggestions, applySearchSuggestion, type SearchSuggestion } from '@/lib/searchOperators';
+import type { SearchType, SearchFilterParams, RecentSearch, SavedSearch } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -22,71 +28,221 @@ import {
     SelectValue,
 } from '@/components/ui/select';
 
+interface SearchSnippet {
+    text: string;
+    highlights: [number, number][];
+}
+
+type SearchTab = SearchType;
+
+interface SearchSender {
+    name: string;
+    email: string;
+    avatar?: string;
+    id?: string;
+    _id?: string;
+}
+
+interface SearchChannel {
+    id: string;
+    name: string;
+    type: string;
+}
+
+interface MessageResult {
+    id: string;
+    content: string;
+    sender: SearchSender;
+    channel: SearchChannel;
+    parentMessage: { id: string; content: string; sender: SearchSender } | null;
+    createdAt: string;
+    attachments?: unknown[];
+    threadCount?: number;
+    snippet: SearchSnippet;
+}
+
 interface SearchResult {
-    messages: {
-        id: string;
-        content: string;
-        sender: { name: string; email: string; avatar?: string; _id?: string };
-        channel: { id: string; name: string; type: string };
-        createdAt: string;
-        attachments?: unknown[];
-        threadCount?: number;
-    }[];
+    messages: MessageResult[];
+    threads: MessageResult[];
     files: {
         id: string;
         messageId: string;
-        channel: { id: string; name: string; type: string };
-        sender: { name: string; email: string; avatar?: string; _id?: string };
+        channel: SearchChannel;
+        sender: SearchSender;
         file: { url: string; name: string; type: string; size: number };
         createdAt: string;
+        snippet: SearchSnippet;
+    }[];
+    wiki: {
+        id: string;
+        title: string;
+        slug: string;
+        channel: SearchChannel;
+        lastEditedBy?: SearchSender;
+        updatedAt: string;
+        titleSnippet: SearchSnippet;
+        snippet: SearchSnippet;
     }[];
+    tasks: {
+        id: string;
+        title: string;
+        status: string;
+        priority: string;
+        labels: string[];
+        channel: SearchChannel;
+        assignee: SearchSender | null;
+        updatedAt: string;
+        titleSnippet: SearchSnippet;
+        snippet: SearchSnippet;
+    }[];
+    facets: Record<Exclude<SearchTab, 'all'>, number>;
     total: number;
-    totalMessages: number;
-    totalFiles: number;
     page: number;
     totalPages: number;
     query: string;
 }
 
+function HighlightedSnippet({ snippet }: { snippet: SearchSnippet }) {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    snippet.highlights.forEach(([start, end], i) => {
+        if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+        parts.push(
+            <mark key={i} className="bg-yellow-200 dark:bg-yellow-800 px-0.5 rounded">
+                {snippet.text.slice(start, end)}
+            </mark>
+        );
+        cursor = end;
+    });
+    if (cursor < snippet.text.length) parts.push(snippet.text.slice(cursor));
+
+    return <>{parts}</>;
+}
+
+const SEARCH_TABS: { value: Exclude<SearchTab, 'all'>; label: string; icon: typeof MessageSquare }[] = [
+    { value: 'messages', label: 'Messages', icon: MessageSquare },
+    { value: 'threads', label: 'Threads', icon: MessagesSquare },
+    { value: 'files', label: 'Files', icon: FileIcon },
+    { value: 'wiki', label: 'Wiki', icon: BookOpen },
+    { value: 'tasks', label: 'Tasks', icon: CheckSquare },
+];
+
+const hasResults = (results: SearchResult) =>
+    SEARCH_TABS.some(({ value }) => results[value].length > 0);
+
 interface GlobalSearchModalProps {
     isOpen: boolean;
     onClose: () => void;
 }
 
 export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
-    const { channels, setActiveChannel, users: allUsers } = useChatStore();
+    const { channels, archivedChannels, setActiveChannel, setActiveView, openThread, users: allUsers } = useChatStore();
+    const { fetchPage } = useWikiStore();
     const [query, setQuery] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [results, setResults] = useState<SearchResult | null>(null);
-    const [activeTab, setActiveTab] = useState<'all' | 'messages' | 'files'>('all');
+    const [activeTab, setActiveTab] = useState<SearchTab>('all');
     const [selectedChannel, setSelectedChannel] = useState<string>('');
     const [selectedUser, setSelectedUser] = useState<string>('');
     const [showFilters, setShowFilters] = useState(false);
-    const [recentSearches, setRecentSearches] = useState<string[]>([]);
+    const [recentSearches, setRecentSearches] = useState<RecentSearch[]>([]);
+    const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+    const [showSaveForm, setShowSaveForm] = useState(false);
+    const [saveName, setSaveName] = useState('');
+    const [saveNotify, setSaveNotify] = useState(false);
+    const [ignoredOperators, setIgnoredOperators] = useState<string[]>([]);
+    const [caret, setCaret] = useState(0);
+    const [showSuggestions, setShowSuggestions] = useState(false);
+    const [suggestionIndex, setSuggestionIndex] = useState(0);
     const inputRef = useRef<HTMLInputElement>(null);
     const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-    // Load recent searches
+    // Load recent and saved searches
     useEffect(() => {
-        const saved = localStorage.getItem('recentSearches');
-        if (saved) {
-            try {
-                setRecentSearches(JSON.parse(saved));
-            } catch {
-                console.error('Failed to parse recent searches');
-            }
-        }
+        if (!isOpen) return;
+        Promise.all([searchApi.getHistory(), searchApi.getSavedSearches()])
+            .then(([history, saved]) => {
+                setRecentSearches(history.data.data.recentSearches);
+                setSavedSearches(saved.data.data);
+            })
+            .catch((error) => console.error('Failed to load search history:', error));
     }, [isOpen]);
 
+    const getCurrentFilters = (): SearchFilterParams => ({
+        channelId: (selectedChannel && selectedChannel !== 'all-channels') ? selectedChannel : undefined,
+        userId: (selectedUser && selectedUser !== 'anyone') ? selectedUser : undefined,
+        type: activeTab,
+    });
+
     const addToRecentSearches = (searchTerm: string) => {
         const trimmed = searchTerm.trim();
-        if (!trimmed) return;
-        setRecentSearches(prev => {
-            const filtered = prev.filter(s => s !== trimmed);
-            const updated = [trimmed, ...filtered].slice(0, 5);
-            localStorage.setItem('recentSearches', JSON.stringify(updated));
-            return updated;
-        });
+        if (trimmed.length < 2) return;
+        searchApi.recordHistory({ query: trimmed, filters: getCurrentFilters() })
+            .catch((error) => console.error('Failed to record search:', error));
+    };
+
+    const applySearch = (search: { query: string; filters: SearchFilterParams }) => {
+        setQuery(search.query);
+        setSelectedChannel(search.filters.channelId || '');
+        setSelectedUser(search.filters.userId || '');
+        setActiveTab(search.filters.type || 'all');
+        setShowFilters(!!(search.filters.channelId || search.filters.userId));
+    };
+
+    const removeRecentSearch = async (id: string) => {
+        try {
+            await searchApi.deleteHistoryEntry(id);
+            setRecentSearches(prev => prev.filter(s => s.id !== id));
+        } catch (error) {
+            console.error('Failed to remove search:', error);
+        }
+    };
+
+    const clearRecentSearches = async () => {
+        try {
+            await searchApi.clearHistory();
+            setRecentSearches([]);
+        } catch (error) {
+            console.error('Failed to clear search history:', error);
+        }
+    };
+
+    const handleSaveSearch = async () => {
+        if (!saveName.trim()) return;
+        try {
+            const { data } = await searchApi.createSavedSearch({
+                name: saveName.trim(),
+                query: query.trim(),
+                filters: getCurrentFilters(),
+                notify: saveNotify,
+            });
+            setSavedSearches(prev => [...prev, data.data].sort((a, b) => a.name.localeCompare(b.name)));
+            setShowSaveForm(false);
+            setSaveName('');
+            setSaveNotify(false);
+            toast.success('Search saved');
+        } catch (err) {
+            toast.error(axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to save search');
+        }
+    };
+
+    const toggleSavedSearchNotify = async (savedSearch: SavedSearch) => {
+        try {
+            const { data } = await searchApi.updateSavedSearch(savedSearch.id, { notify: !savedSearch.notify });
+            setSavedSearches(prev => prev.map(s => (s.id === savedSearch.id ? data.data : s)));
+        } catch (err) {
+            toast.error(axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to update saved search');
+        }
+    };
+
+    const deleteSavedSearch = async (id: string) => {
+        try {
+            await searchApi.deleteSavedSearch(id);
+            setSavedSearches(prev => prev.filter(s => s.id !== id));
+        } catch (err) {
+            toast.error(axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to delete saved search');
+        }
     };
 
     // Focus input when modal opens
@@ -105,10 +261,12 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
             setSelectedChannel('');
             setSelectedUser('');
             setShowFilters(false);
+            setShowSuggestions(false);
+            setShowSaveForm(false);
         }
     }, [isOpen]);
 
-    const performSearch = useCallback(async (searchQuery: string, type: 'all' | 'messages' | 'files' = 'all') => {
+    const performSearch = useCallback(async (searchQuery: string, type: SearchTab = 'all') => {
         if (searchQuery.trim().length < 2) {
             setResults(null);
             return;
@@ -125,6 +283,7 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
             });
             if (data.success) {
                 setResults(data.data);
+                setIgnoredOperators(data.data.ignoredOperators || []);
             }
         } catch (error) {
             console.error('Search failed:', error);
@@ -154,29 +313,82 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
         };
     }, [query, activeTab, performSearch]);
 
-    const handleResultClick = (channelId: string) => {
-        addToRecentSearches(query);
-        // Find and set the active channel
-        const channel = channels.find(c => c.id === channelId);
-        if (channel) {
-            setActiveChannel(channel);
-            onClose();
+    const suggestionResult = showSuggestions
+        ? getSearchSuggestions(query, caret, { users: allUsers, channels })
+        : null;
+
+    const pickSuggestion = (suggestion: SearchSuggestion) => {
+        if (!suggestionResult) return;
+        const next = applySearchSuggestion(query, suggestionResult, suggestion);
+        setQuery(next.query);
+        setCaret(next.caret);
+        setSuggestionIndex(0);
+        requestAnimationFrame(() => {
+            inputRef.current?.focus();
+            inputRef.current?.setSelectionRange(next.caret, next.caret);
+        });
+    };
+
+    const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!suggestionResult) {
+            if (e.key === 'Enter') addToRecentSearches(query);
+            return;
+        }
+        const count = suggestionResult.suggestions.length;
+
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setSuggestionIndex((i) => (i + 1) % count);
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setSuggestionIndex((i) => (i - 1 + count) % count);
+        } else if (e.key === 'Enter' || e.key === 'Tab') {
+            e.preventDefault();
+            pickSuggestion(suggestionResult.suggestions[Math.min(suggestionIndex, count - 1)]);
         }
     };
 
-    const highlightMatch = (text: string, query: string) => {
-        if (!query.trim()) return text;
-        const regex = new RegExp(`(${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi');
-        const parts = text.split(regex);
-        return parts.map((part, i) =>
-            regex.test(part) ? (
-                <mark key={i} className="bg-yellow-200 dark:bg-yellow-800 px-0.5 rounded">
-                    {part}
-                </mark>
-            ) : (
-                part
-            )
-        );
+    const openChannel = (channelId: string) => {
+        addToRecentSearches(query);
+        // Find and set the active channel; archived ones open read-only
+        const channel = [...channels, ...archivedChannels].find(c => c.id === channelId);
+        if (!channel) return false;
+        setActiveChannel(channel);
+        onClose();
+        return true;
+    };
+
+    const handleResultClick = (channelId: string) => {
+        openChannel(channelId);
+    };
+
+    const handleThreadClick = (reply: MessageResult) => {
+        if (!reply.parentMessage || !openChannel(reply.channel.id)) return;
+        const { sender } = reply.parentMessage;
+        const senderId = sender.id || sender._id;
+        openThread({
+            id: reply.parentMessage.id,
+            content: reply.parentMessage.content,
+            sender: allUsers.find(u => u.id === senderId) || {
+                id: senderId || '',
+                name: sender.name,
+                email: sender.email,
+                avatar: sender.avatar,
+                role: 'EMPLOYEE',
+                status: 'ACTIVE',
+            },
+        });
+    };
+
+    const handleWikiClick = (page: SearchResult['wiki'][number]) => {
+        if (!openChannel(page.channel.id)) return;
+        setActiveView('wiki');
+        fetchPage(page.channel.id, page.slug);
+    };
+
+    const handleTaskClick = (task: SearchResult['tasks'][number]) => {
+        if (!openChannel(task.channel.id)) return;
+        setActiveView('tasks');
     };
 
     const formatFileSize = (bytes: number) => {
@@ -198,6 +410,61 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
         }
     };
 
+    const showSection = (tab: Exclude<SearchTab, 'all'>) => activeTab === 'all' || activeTab === tab;
+
+    const sectionHeading = (tab: Exclude<SearchTab, 'all'>) => {
+        if (activeTab !== 'all' || !results) return null;
+        const { label, icon: Icon } = SEARCH_TABS.find(t => t.value === tab)!;
+        return (
+            <h3 className="text-sm font-semibold text-muted-foreground mb-3 flex items-center gap-2">
+                <Icon className="h-4 w-4" />
+                {label} ({results.facets[tab]})
+            </h3>
+        );
+    };
+
+    const renderMessage = (msg: MessageResult, onClick: () => void) => (
+        <button
+            key={msg.id}
+            className="w-full text-left p-3 rounded-lg border hover:bg-muted/50 transition-colors group"
+            onClick={onClick}
+        >
+            <div className="flex items-start gap-3">
+                <Avatar className="h-8 w-8 shrink-0">
+                    <AvatarImage src={msg.sender.avatar} />
+                    <AvatarFallback className={cn('text-xs', getAvatarColor(msg.sender.name))}>
+                        {getInitials(msg.sender.name)}
+                    </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-sm">
+                        <span className="font-semibold">{msg.sender.name}</span>
+                        <span className="text-muted-foreground text-xs flex items-center gap-1">
+                            in {getChannelIcon(msg.channel.type)} {msg.channel.name}
+                        </span>
+                        <span className="text-muted-foreground text-xs ml-auto flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            {formatTime(msg.createdAt)}
+                        </span>
+                    </div>
+                    {msg.parentMessage && (
+                        <p className="text-xs text-muted-foreground mt-1 truncate">
+                            Reply to {msg.parentMessage.sender?.name}: {msg.parentMessage.content}
+                        </p>
+                    )}
+                    <p className="text-sm mt-1 line-clamp-2">
+                        <HighlightedSnippet snippet={msg.snippet} />
+                    </p>
+                    {!!msg.threadCount && msg.threadCount > 0 && (
+                        <span className="text-xs text-primary mt-1 inline-block">
+                            {msg.threadCount} replies
+                        </span>
+                    )}
+                </div>
+            </div>
+        </button>
+    );
+
     return (
         <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
             <DialogContent className="max-w-3xl max-h-[80vh] p-0 gap-0 overflow-hidden">
@@ -208,10 +475,52 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
                         <Input
                             ref={inputRef}
                             value={query}
-                            onChange={(e) => setQuery(e.target.value)}
-                            placeholder="Search messages, files, and more..."
+                            onChange={(e) => {
+                                setQuery(e.target.value);
+                                setCaret(e.target.selectionStart ?? e.target.value.length);
+                                setShowSuggestions(true);
+                                setSuggestionIndex(0);
+                            }}
+                            onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+                            onKeyDown={handleInputKeyDown}
+                            onBlur={() => setShowSuggestions(false)}
+                            placeholder="Search messages, files, wiki and tasks..."
                             className="pl-10 pr-20 h-12 text-lg border-0 border-b rounded-none focus-visible:ring-0"
                         />
+                        {suggestionResult && (
+                            <div className="absolute left-0 right-0 top-full mt-1 z-50 rounded-md border bg-popover text-popover-foreground shadow-md p-1">
+                                {suggestionResult.suggestions.map((suggestion, i) => (
+                                    <button
+                                        key={suggestion.key}
+                                        type="button"
+                                        className={cn(
+                                            'w-full flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-left',
+                                            i === suggestionIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-muted/50'
+                                        )}
+                                        // Keep focus in the input so onBlur does not close the list first
+                                        onMouseDown={(e) => e.preventDefault()}
+                                        onClick={() => pickSuggestion(suggestion)}
+                                    >
+                                        {suggestion.user ? (
+                                            <Avatar className="h-5 w-5">
+                                                <AvatarImage src={suggestion.user.avatar} />
+                                                <AvatarFallback className="text-[8px] bg-primary/20">
+                                                    {getInitials(suggestion.user.name)}
+                                                </AvatarFallback>
+                                            </Avatar>
+                                        ) : suggestion.channel ? (
+                                            getChannelIcon(suggestion.channel.type)
+                                        ) : (
+                                            <Filter className="h-3 w-3 text-muted-foreground" />
+                                        )}
+                                        <span className="font-medium">{suggestion.label}</span>
+                                        {suggestion.description && (
+                                            <span className="text-xs text-muted-foreground ml-auto">{suggestion.description}</span>
+                                        )}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
                         <div className="absolute right-3 top-1/2 -translate-y-1/2 flex items-center gap-2">
                             {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
                             <kbd className="hidden sm:inline-flex h-5 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium text-muted-foreground">
@@ -224,21 +533,18 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
                 <div className="p-4 border-b">
                     <div className="flex items-center justify-between gap-4">
                         <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as typeof activeTab)} className="flex-1">
-                            <TabsList className="grid w-full grid-cols-3 max-w-md">
+                            <TabsList className="flex w-full justify-start overflow-x-auto">
                                 <TabsTrigger value="all" className="gap-2">
                                     All
                                     {results && <span className="text-xs text-muted-foreground">({results.total})</span>}
                                 </TabsTrigger>
-                                <TabsTrigger value="messages" className="gap-2">
-                                    <MessageSquare className="h-4 w-4" />
-                                    Messages
-                                    {results && <span className="text-xs text-muted-foreground">({results.totalMessages})</span>}
-                                </TabsTrigger>
-                                <TabsTrigger value="files" className="gap-2">
-                                    <FileIcon className="h-4 w-4" />
-                                    Files
-                                    {results && <span className="text-xs text-muted-foreground">({results.totalFiles})</span>}
-                                </TabsTrigger>
+                                {SEARCH_TABS.map(({ value, label, icon: Icon }) => (
+                                    <TabsTrigger key={value} value={value} className="gap-2">
+                                        <Icon className="h-4 w-4" />
+                                        {label}
+                                        {results && <span className="text-xs text-muted-foreground">({results.facets[value]})</span>}
+                                    </TabsTrigger>
+                                ))}
                             </TabsList>
                         </Tabs>
 
@@ -251,8 +557,39 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
                             <Filter className="h-4 w-4" />
                             Filters
                         </Button>
+                        <Button
+                            variant={showSaveForm ? 'secondary' : 'outline'}
+                            size="sm"
+                            className="gap-2"
+                            disabled={query.trim().length < 2}
+                            onClick={() => setShowSaveForm(!showSaveForm)}
+                        >
+                            <Bookmark className="h-4 w-4" />
+                            Save
+                        </Button>
                     </div>
 
+                    {/* Save search */}
+                    {showSaveForm && query.trim().length >= 2 && (
+                        <div className="mt-4 flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
+                            <Input
+                                value={saveName}
+                                onChange={(e) => setSaveName(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleSaveSearch()}
+                                placeholder="Name this search"
+                                maxLength={80}
+                                className="h-9 flex-1"
+                            />
+                            <label className="flex items-center gap-2 text-xs text-muted-foreground whitespace-nowrap">
+                                <Switch checked={saveNotify} onCheckedChange={setSaveNotify} />
+                                Notify me of new matches
+                            </label>
+                            <Button size="sm" onClick={handleSaveSearch} disabled={!saveName.trim()}>
+                                Save search
+                            </Button>
+                        </div>
+                    )}
+
                     {/* Filters */}
                     {showFilters && (
                         <div className="mt-4 grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2">
@@ -312,21 +649,76 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
                 <ScrollArea className="flex-1 max-h-[60vh]">
                     {!query.trim() ? (
                         <div className="p-8">
+                            {savedSearches.length > 0 && (
+                                <div className="mb-8">
+                                    <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">Saved Searches</h3>
+                                    <div className="space-y-1">
+                                        {savedSearches.map((saved) => (
+                                            <div
+                                                key={saved.id}
+                                                className="group flex items-center gap-2 rounded-lg px-3 py-2 hover:bg-muted/50"
+                                            >
+                                                <button
+                                                    className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                                                    onClick={() => applySearch(saved)}
+                                                >
+                                                    <Bookmark className="h-4 w-4 text-primary shrink-0" />
+                                                    <span className="text-sm font-medium truncate">{saved.name}</span>
+                                                    <span className="text-xs text-muted-foreground font-mono truncate">{saved.query}</span>
+                                                </button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-7 w-7"
+                                                    title={saved.notify ? 'Stop notifying me' : 'Notify me of new matches'}
+                                                    onClick={() => toggleSavedSearchNotify(saved)}
+                                                >
+                                                    {saved.notify ? <Bell className="h-4 w-4 text-primary" /> : <BellOff className="h-4 w-4 text-muted-foreground" />}
+                                                </Button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                                                    title="Delete saved search"
+                                                    onClick={() => deleteSavedSearch(saved.id)}
+                                                >
+                                                    <Trash2 className="h-4 w-4 text-muted-foreground" />
+                                                </Button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
                             {recentSearches.length > 0 && (
                                 <div className="mb-8">
-                                    <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">Recent Searches</h3>
+                                    <div className="flex items-center justify-between mb-3">
+                                        <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Recent Searches</h3>
+                                        <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={clearRecentSearches}>
+                                            Clear
+                                        </Button>
+                                    </div>
                                     <div className="flex flex-wrap gap-2">
-                                        {recentSearches.map((s, i) => (
-                                            <Button
-                                                key={i}
-                                                variant="secondary"
-                                                size="sm"
-                                                className="h-8 rounded-full px-4 gap-2 text-sm"
-                                                onClick={() => setQuery(s)}
+                                        {recentSearches.slice(0, 8).map((recent) => (
+                                            <div
+                                                key={recent.id}
+                                                className="flex items-center h-8 rounded-full bg-secondary text-secondary-foreground text-sm"
                                             >
-                                                <Search className="h-3 w-3" />
-                                                {s}
-                                            </Button>
+                                                <button
+                                                    className="flex items-center gap-2 pl-4 pr-2 h-full"
+                                                    onClick={() => applySearch(recent)}
+                                                >
+                                                    <Clock className="h-3 w-3" />
+                                                    {recent.query}
+                                                </button>
+                                                <button
+                                                    className="pr-3 h-full text-muted-foreground hover:text-foreground"
+                                                    title="Remove from history"
+                                                    onClick={() => removeRecentSearch(recent.id)}
+                                                >
+                                                    <X className="h-3 w-3" />
+                                                </button>
+                                            </div>
                                         ))}
                                     </div>
                                 </div>
@@ -336,7 +728,13 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
                                 <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4 opacity-20" />
                                 <h3 className="text-base font-semibold">Global Search</h3>
                                 <p className="text-muted-foreground text-sm mt-1 max-w-xs mx-auto">
-                                    Search across all messages, files, and channels in your workspace.
+                                    Search across messages, thread replies, files, wiki pages and tasks in your workspace.
+                                </p>
+                                <p className="text-muted-foreground text-xs mt-2 max-w-xs mx-auto">
+                                    Use <code className="font-mono">"quotes"</code> for exact phrases and <code className="font-mono">word*</code> for prefixes.
+                                    Narrow results with <code className="font-mono">from:@name</code>, <code className="font-mono">in:#channel</code>,{' '}
+                                    <code className="font-mono">has:file</code>, <code className="font-mono">is:pinned</code> or{' '}
+                                    <code className="font-mono">before:2024-01-31</code>.
                                 </p>
                                 <div className="mt-6 flex flex-wrap justify-center gap-2">
                                     <kbd className="px-2 py-1 rounded bg-muted text-xs border shadow-sm font-mono">⌘ K</kbd>
@@ -352,67 +750,37 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
                         <div className="p-8 flex items-center justify-center">
                             <Loader2 className="h-8 w-8 animate-spin text-primary" />
                         </div>
-                    ) : results && (results.messages.length > 0 || results.files.length > 0) ? (
+                    ) : results && hasResults(results) ? (
                         <div className="p-4 space-y-6">
+                            {ignoredOperators.length > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                    Ignored unknown filters: {ignoredOperators.join(', ')}
+                                </p>
+                            )}
                             {/* Messages */}
-                            {(activeTab === 'all' || activeTab === 'messages') && results.messages.length > 0 && (
+                            {showSection('messages') && results.messages.length > 0 && (
                                 <div>
-                                    {activeTab === 'all' && (
-                                        <h3 className="text-sm font-semibold text-muted-foreground mb-3 flex items-center gap-2">
-                                            <MessageSquare className="h-4 w-4" />
-                                            Messages ({results.totalMessages})
-                                        </h3>
-                                    )}
+                                    {sectionHeading('messages')}
                                     <div className="space-y-2">
-                                        {results.messages.map((msg) => (
-                                            <button
-                                                key={msg.id}
-                                                className="w-full text-left p-3 rounded-lg border hover:bg-muted/50 transition-colors group"
-                                                onClick={() => handleResultClick(msg.channel.id)}
-                                            >
-                                                <div className="flex items-start gap-3">
-                                                    <Avatar className="h-8 w-8 shrink-0">
-                                                        <AvatarImage src={msg.sender.avatar} />
-                                                        <AvatarFallback className={cn('text-xs', getAvatarColor(msg.sender.name))}>
-                                                            {getInitials(msg.sender.name)}
-                                                        </AvatarFallback>
-                                                    </Avatar>
-                                                    <div className="flex-1 min-w-0">
-                                                        <div className="flex items-center gap-2 text-sm">
-                                                            <span className="font-semibold">{msg.sender.name}</span>
-                                                            <span className="text-muted-foreground text-xs flex items-center gap-1">
-                                                                in {getChannelIcon(msg.channel.type)} {msg.channel.name}
-                                                            </span>
-                                                            <span className="text-muted-foreground text-xs ml-auto flex items-center gap-1">
-                                                                <Calendar className="h-3 w-3" />
-                                                                {formatTime(msg.createdAt)}
-                                                            </span>
-                                                        </div>
-                                                        <p className="text-sm mt-1 line-clamp-2">
-                                                            {highlightMatch(msg.content, query)}
-                                                        </p>
-                                                        {msg.threadCount && msg.threadCount > 0 && (
-                                                            <span className="text-xs text-primary mt-1 inline-block">
-                                                                {msg.threadCount} replies
-                                                            </span>
-                                                        )}
-                                                    </div>
-                                                </div>
-                                            </button>
-                                        ))}
+                                        {results.messages.map((msg) => renderMessage(msg, () => handleResultClick(msg.channel.id)))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Thread replies */}
+                            {showSection('threads') && results.threads.length > 0 && (
+                                <div>
+                                    {sectionHeading('threads')}
+                                    <div className="space-y-2">
+                                        {results.threads.map((reply) => renderMessage(reply, () => handleThreadClick(reply)))}
                                     </div>
                                 </div>
                             )}
 
                             {/* Files */}
-                            {(activeTab === 'all' || activeTab === 'files') && results.files.length > 0 && (
+                            {showSection('files') && results.files.length > 0 && (
                                 <div>
-                                    {activeTab === 'all' && (
-                                        <h3 className="text-sm font-semibold text-muted-foreground mb-3 flex items-center gap-2">
-                                            <FileIcon className="h-4 w-4" />
-                                            Files ({results.totalFiles})
-                                        </h3>
-                                    )}
+                                    {sectionHeading('files')}
                                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
                                         {results.files.map((file) => (
                                             <a
@@ -427,7 +795,7 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
                                                 </div>
                                                 <div className="flex-1 min-w-0">
                                                     <p className="text-sm font-medium truncate">
-                                                        {highlightMatch(file.file.name, query)}
+                                                        <HighlightedSnippet snippet={file.snippet} />
                                                     </p>
                                                     <p className="text-xs text-muted-foreground flex items-center gap-2">
                                                         <span>{formatFileSize(file.file.size)}</span>
@@ -442,6 +810,75 @@ export function GlobalSearchModal({ isOpen, onClose }: GlobalSearchModalProps) {
                                     </div>
                                 </div>
                             )}
+
+                            {/* Wiki pages */}
+                            {showSection('wiki') && results.wiki.length > 0 && (
+                                <div>
+                                    {sectionHeading('wiki')}
+                                    <div className="space-y-2">
+                                        {results.wiki.map((page) => (
+                                            <button
+                                                key={page.id}
+                                                className="w-full text-left p-3 rounded-lg border hover:bg-muted/50 transition-colors"
+                                                onClick={() => handleWikiClick(page)}
+                                            >
+                                                <div className="flex items-center gap-2 text-sm">
+                                                    <BookOpen className="h-4 w-4 text-primary shrink-0" />
+                                                    <span className="font-semibold truncate">
+                                                        <HighlightedSnippet snippet={page.titleSnippet} />
+                                                    </span>
+                                                    <span className="text-muted-foreground text-xs flex items-center gap-1">
+                                                        in {getChannelIcon(page.channel.type)} {page.channel.name}
+                                                    </span>
+                                                    <span className="text-muted-foreground text-xs ml-auto flex items-center gap-1">
+                                                        <Calendar className="h-3 w-3" />
+                                                        {formatTime(page.updatedAt)}
+                                                    </span>
+                                                </div>
+                                                {page.snippet.text && (
+                                                    <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                                                        <HighlightedSnippet snippet={page.snippet} />
+                                                    </p>
+                                                )}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Tasks */}
+                            {showSection('tasks') && results.tasks.length > 0 && (
+                                <div>
+                                    {sectionHeading('tasks')}
+                                    <div className="space-y-2">
+                                        {results.tasks.map((task) => (
+                                            <button
+                                                key={task.id}
+                                                className="w-full text-left p-3 rounded-lg border hover:bg-muted/50 transition-colors"
+                                                onClick={() => handleTaskClick(task)}
+                                            >
+                                                <div className="flex items-center gap-2 text-sm">
+                                                    <CheckSquare className="h-4 w-4 text-primary shrink-0" />
+                                                    <span className="font-semibold truncate">
+                                                        <HighlightedSnippet snippet={task.titleSnippet} />
+                                                    </span>
+                                                    <span className="text-muted-foreground text-xs flex items-center gap-1">
+                                                        in {getChannelIcon(task.channel.type)} {task.channel.name}
+                                                    </span>
+                                                    <span className="ml-auto text-xs rounded bg-muted px-1.5 py-0.5 capitalize">
+                                                        {task.status.replace('-', ' ')}
+                                                    </span>
+                                                </div>
+                                                {task.snippet.text && (
+                                                    <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                                                        <HighlightedSnippet snippet={task.snippet} />
+                                                    </p>
+                                                )}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
                         </div>
                     ) : results ? (
                         <div className="p-8 text-center">
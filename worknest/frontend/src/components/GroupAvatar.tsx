@@ -0,0 +1,45 @@
+import { cn, getAvatarColor, getInitials } from '@/lib/utils';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+
+interface GroupAvatarProps {
+    users: { id: string; name: string; avatar?: string }[];
+    size?: 'sm' | 'md';
+}
+
+/**
+ * A group direct message: the first two people's avatars, overlapping, with
+ * the number of others
+ */
+export function GroupAvatar({ users, size = 'sm' }: GroupAvatarProps) {
+    const [first, second] = users;
+    const box = size === 'sm' ? 'h-6 w-6' : 'h-8 w-8';
+    const face = size === 'sm' ? 'h-4 w-4 text-[8px]' : 'h-5 w-5 text-[9px]';
+    const more = users.length - 2;
+
+    return (
+        <div className={cn('relative shrink-0', box)}>
+            {[first, second].filter(Boolean).map((user, index) => (
+                <Avatar
+                    key={user.id}
+                    className={cn(
+                        'absolute border border-background',
+                        face,
+                        index === 0 ? 'top-0 left-0' : 'bottom-0 right-0'
+                    )}
+                >
+                    <AvatarImage src={user.avatar} />
+                    <AvatarFallback className={cn(face, getAvatarColor(user.name))}>
+                        {getInitials(user.name)}
+                    </AvatarFallback>
+                </Avatar>
+            ))}
+            {more > 0 && (
+                <span className="absolute -bottom-1 -left-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-muted text-muted-foreground text-[8px] font-bold flex items-center justify-center border border-background">
+                    +{more}
+                </span>
+            )}
+        </div>
+    );
+}
+
+export default GroupAvatar;
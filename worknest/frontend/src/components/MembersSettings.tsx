@@ -0,0 +1,315 @@
+import { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { Crown, History, Loader2, MoreVertical, UserPlus } from 'lucide-react';
+import { useAuthStore, useChatStore } from '@/store';
+import { settingsApi, usersApi } from '@/lib/api';
+import { cn, getAvatarColor, getInitials } from '@/lib/utils';
+import type { User } from '@/store/chatStore';
+import type { AuditLogEntry, OrganizationOwnership } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+const errorMessage = (err: unknown, fallback: string) =>
+    axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+const describeAuditEntry = (entry: AuditLogEntry) => {
+    const actor = entry.actor?.name || 'Someone';
+    const target = entry.target?.name || 'a former member';
+    switch (entry.action) {
+        case 'ADMIN_PROMOTED':
+            return `${actor} made ${target} an admin`;
+        case 'ADMIN_DEMOTED':
+            return `${actor} removed ${target} as an admin`;
+        case 'OWNERSHIP_TRANSFER_REQUESTED':
+            return `${actor} offered ownership to ${target}`;
+        case 'OWNERSHIP_TRANSFER_CANCELLED':
+            return `${actor} cancelled the ownership transfer to ${target}`;
+        case 'OWNERSHIP_TRANSFERRED':
+            return `${target} became the owner of the organization`;
+    }
+};
+
+/**
+ * Admin settings for the organization's members: roles, blocking,
+ * ownership transfer and the log of admin changes
+ */
+export function MembersSettings() {
+    const { user, fetchUser } = useAuthStore();
+    const { users, fetchUsers } = useChatStore();
+    const [ownership, setOwnership] = useState<OrganizationOwnership | null>(null);
+    const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
+    const [hasMoreAudit, setHasMoreAudit] = useState(false);
+    const [transferTo, setTransferTo] = useState<User | null>(null);
+    const [isTransferring, setIsTransferring] = useState(false);
+
+    const isOwner = !!user && ownership?.ownerId === user.id;
+
+    const fetchOwnership = useCallback(async () => {
+        try {
+            const { data } = await settingsApi.getOwnership();
+            setOwnership(data.data);
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to load organization ownership'));
+        }
+    }, []);
+
+    const fetchAuditLog = useCallback(async (before?: string) => {
+        try {
+            const { data } = await settingsApi.getAuditLog(before);
+            setAuditLog((prev) => (before ? [...prev, ...data.data.entries] : data.data.entries));
+            setHasMoreAudit(data.data.hasMore);
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to load the audit log'));
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchOwnership();
+        fetchAuditLog();
+    }, [fetchOwnership, fetchAuditLog]);
+
+    const handleRoleChange = async (member: User) => {
+        const isDemotion = member.role === 'ADMIN';
+        if (isDemotion && member.id === user?.id
+            && !window.confirm('Remove your own admin rights? You will lose access to organization settings.')) return;
+        try {
+            const { data } = isDemotion ? await usersApi.demote(member.id) : await usersApi.promote(member.id);
+            toast.success(data.message);
+            fetchUsers();
+            fetchAuditLog();
+            // Demoting yourself hides these settings
+            if (member.id === user?.id) fetchUser();
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to change role'));
+        }
+    };
+
+    const handleBlock = async (member: User) => {
+        if (!window.confirm(`Block ${member.name}? They will be signed out and can no longer sign in.`)) return;
+        try {
+            await usersApi.delete(member.id);
+            toast.success(`${member.name} has been blocked`);
+            fetchUsers();
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to block member'));
+        }
+    };
+
+    const handleTransfer = async () => {
+        if (!transferTo) return;
+        setIsTransferring(true);
+        try {
+            const { data } = await settingsApi.transferOwnership(transferTo.id);
+            setOwnership((prev) => prev && { ...prev, pendingTransfer: data.data });
+            toast.success(data.message);
+            setTransferTo(null);
+            fetchAuditLog();
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to transfer ownership'));
+        } finally {
+            setIsTransferring(false);
+        }
+    };
+
+    const handleCancelTransfer = async () => {
+        try {
+            await settingsApi.cancelOwnershipTransfer();
+            setOwnership((prev) => prev && { ...prev, pendingTransfer: null });
+            toast.success('Ownership transfer cancelled');
+            fetchAuditLog();
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to cancel the transfer'));
+        }
+    };
+
+    const pendingTransfer = ownership?.pendingTransfer;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-end">
+                <div>
+                    <h2 className="text-2xl font-bold">Members & Access</h2>
+                    <p className="text-muted-foreground">Manage team members, roles, and invitations.</p>
+                </div>
+                <Button className="gap-2">
+                    <UserPlus className="h-4 w-4" />
+                    Invite Member
+                </Button>
+            </div>
+
+            {pendingTransfer && (
+                <div className="p-4 rounded-xl bg-amber-500/10 border border-amber-500/20 flex items-center gap-4">
+                    <Crown className="h-5 w-5 text-amber-500 flex-shrink-0" />
+                    <p className="flex-1 text-sm text-amber-700 dark:text-amber-400">
+                        Waiting for <b>{pendingTransfer.toUser.name}</b> to accept ownership. The link expires{' '}
+                        {formatDistanceToNow(new Date(pendingTransfer.expiresAt), { addSuffix: true })}.
+                    </p>
+                    {isOwner && (
+                        <Button variant="outline" size="sm" onClick={handleCancelTransfer}>
+                            Cancel Transfer
+                        </Button>
+                    )}
+                </div>
+            )}
+
+            <Card className="glass-card">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b bg-muted/50">
+                                <th className="px-4 py-3 text-left font-medium">Member</th>
+                                <th className="px-4 py-3 text-left font-medium">Role</th>
+                                <th className="px-4 py-3 text-left font-medium">Status</th>
+                                <th className="px-4 py-3 text-left font-medium">Last Active</th>
+                                <th className="px-4 py-3 text-right font-medium">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {users.map((u) => {
+                                const isMemberOwner = u.id === ownership?.ownerId;
+                                return (
+                                    <tr key={u.id} className="border-b hover:bg-muted/30 transition-colors">
+                                        <td className="px-4 py-3">
+                                            <div className="flex items-center gap-3">
+                                                <Avatar className="h-8 w-8">
+                                                    <AvatarImage src={u.avatar} />
+                                                    <AvatarFallback className={cn('text-xs', getAvatarColor(u.name))}>
+                                                        {getInitials(u.name)}
+                                                    </AvatarFallback>
+                                                </Avatar>
+                                                <div>
+                                                    <p className="font-medium">{u.name}</p>
+                                                    <p className="text-xs text-muted-foreground">{u.email}</p>
+                                                </div>
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <span className={cn(
+                                                'px-2 py-1 rounded-full text-[10px] font-bold uppercase',
+                                                isMemberOwner
+                                                    ? 'bg-purple-500/20 text-purple-500'
+                                                    : u.role === 'ADMIN' ? 'bg-amber-500/20 text-amber-500' : 'bg-blue-500/20 text-blue-500'
+                                            )}>
+                                                {isMemberOwner ? 'OWNER' : u.role}
+                                            </span>
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex items-center gap-1.5">
+                                                <span className={cn(
+                                                    'h-2 w-2 rounded-full',
+                                                    u.status === 'ACTIVE' ? 'bg-green-500' : 'bg-gray-500'
+                                                )} />
+                                                {u.status}
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-3 text-muted-foreground">
+                                            {u.lastSeenAt ? new Date(u.lastSeenAt).toLocaleDateString() : 'Never'}
+                                        </td>
+                                        <td className="px-4 py-3 text-right">
+                                            {!isMemberOwner && (
+                                                <DropdownMenu>
+                                                    <DropdownMenuTrigger asChild>
+                                                        <Button variant="ghost" size="icon"><MoreVertical className="h-4 w-4" /></Button>
+                                                    </DropdownMenuTrigger>
+                                                    <DropdownMenuContent align="end">
+                                                        <DropdownMenuItem onClick={() => handleRoleChange(u)}>
+                                                            {u.role === 'ADMIN' ? 'Remove Admin' : 'Make Admin'}
+                                                        </DropdownMenuItem>
+                                                        {isOwner && (
+                                                            <DropdownMenuItem onClick={() => setTransferTo(u)}>
+                                                                Transfer Ownership
+                                                            </DropdownMenuItem>
+                                                        )}
+                                                        {u.id !== user?.id && (
+                                                            <>
+                                                                <DropdownMenuSeparator />
+                                                                <DropdownMenuItem className="text-destructive" onClick={() => handleBlock(u)}>
+                                                                    Deactivate
+                                                                </DropdownMenuItem>
+                                                            </>
+                                                        )}
+                                                    </DropdownMenuContent>
+                                                </DropdownMenu>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+
+            <Card className="glass-card">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <History className="h-5 w-5" />
+                        Audit Log
+                    </CardTitle>
+                    <CardDescription>Changes to admins and ownership of the organization.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                    {auditLog.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No changes yet.</p>
+                    ) : (
+                        auditLog.map((entry) => (
+                            <div key={entry.id} className="flex items-center justify-between gap-4 text-sm">
+                                <span>{describeAuditEntry(entry)}</span>
+                                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                    {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                                </span>
+                            </div>
+                        ))
+                    )}
+                    {hasMoreAudit && (
+                        <Button
+                            variant="ghost"
+                            className="w-full"
+                            onClick={() => fetchAuditLog(auditLog[auditLog.length - 1]?.createdAt)}
+                        >
+                            Show more
+                        </Button>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={!!transferTo} onOpenChange={(open) => !open && setTransferTo(null)}>
+                <DialogContent className="sm:max-w-[440px]">
+                    <DialogHeader>
+                        <DialogTitle>Transfer ownership to {transferTo?.name}?</DialogTitle>
+                        <DialogDescription>
+                            We'll email {transferTo?.name} a link to accept. Once they do, they become the owner and an admin, and you stay an admin. Only the owner can transfer the organization again.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        <Button variant="outline" onClick={() => setTransferTo(null)}>Cancel</Button>
+                        <Button onClick={handleTransfer} disabled={isTransferring}>
+                            {isTransferring && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Send Transfer Request
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
+
+export default MembersSettings;
@@ -0,0 +1,50 @@
+import type { MessageBlock } from '@/types';
+
+interface MessageBlocksProps {
+    blocks: MessageBlock[];
+}
+
+/**
+ * Renders the structured blocks integrations attach to their messages
+ */
+export function MessageBlocks({ blocks }: MessageBlocksProps) {
+    return (
+        <div className="mt-1 space-y-2 border-l-2 border-primary/40 pl-3 max-w-[85%]">
+            {blocks.map((block, i) => {
+                switch (block.type) {
+                    case 'header':
+                        return <p key={i} className="font-semibold text-sm">{block.text}</p>;
+                    case 'section':
+                        return <p key={i} className="text-sm whitespace-pre-wrap break-words">{block.text}</p>;
+                    case 'context':
+                        return <p key={i} className="text-xs text-muted-foreground whitespace-pre-wrap">{block.text}</p>;
+                    case 'fields':
+                        return (
+                            <div key={i} className="grid grid-cols-2 gap-x-4 gap-y-1">
+                                {block.fields.map((field, j) => (
+                                    <div key={j} className="min-w-0">
+                                        <p className="text-xs font-semibold">{field.title}</p>
+                                        <p className="text-sm break-words">{field.value}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        );
+                    case 'image':
+                        return (
+                            <img
+                                key={i}
+                                src={block.url}
+                                alt={block.alt || ''}
+                                className="max-h-[300px] w-auto max-w-full rounded-lg ring-1 ring-border cursor-pointer"
+                                onClick={() => window.open(block.url, '_blank')}
+                            />
+                        );
+                    case 'divider':
+                        return <hr key={i} className="border-border" />;
+                    default:
+                        return null;
+                }
+            })}
+        </div>
+    );
+}
@@ -1,18 +1,30 @@
 import { memo, useState } from 'react';
-import { Reply, Smile, MoreHorizontal, Pencil, Trash2, Check, CheckCheck, Pin, PinOff, Download, FileIcon, MessageSquare } from 'lucide-react';
+import { Reply, Smile, MoreHorizontal, Pencil, Trash2, Check, CheckCheck, Pin, PinOff, Download, FileIcon, MessageSquare, AlarmClock } from 'lucide-react';
 import { cn, formatTime, getInitials, getAvatarColor } from '@/lib/utils';
 import { VoiceMessage } from './VoiceMessage';
+import { MessageBlocks } from './MessageBlocks';
+import { PollCard } from './Polls';
+import { MessageContent } from './MessageContent';
+import { EphemeralMessageBubble } from './EphemeralMessageBubble';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import {
     DropdownMenu,
     DropdownMenuContent,
     DropdownMenuItem,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger,
     DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import type { Message } from '@/store/chatStore';
 import { useAuthStore, useChatStore } from '@/store';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { REMINDER_TIMES } from '@/lib/reminders';
+import { decodeEntities } from '@/lib/markdown';
+import { formatInTimezone } from '@/lib/timezone';
+import { toast } from 'sonner';
 
 const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
@@ -40,12 +52,37 @@ export const MessageBubble = memo(function MessageBubble({
     onScrollToMessage,
 }: MessageBubbleProps) {
     const { user } = useAuthStore();
-    const { editMessage, deleteMessage, openDetails, users, activeChannel, openThread } = useChatStore();
+    const { editMessage, deleteMessage, openDetails, users, activeChannel, openThread, readCursors, createReminder } = useChatStore();
+    const timezone = useUserTimezone();
     const [isEditing, setIsEditing] = useState(false);
-    const [editValue, setEditValue] = useState(message.content);
+    // Stored text has < and > escaped; they are edited as characters
+    const editableContent = decodeEntities(message.content);
+    const [editValue, setEditValue] = useState(editableContent);
     const isMe = (message.sender?._id === user?.id) || (message.sender?.id === user?.id);
     const isOwn = isMe;
     const isSystem = message.contentType === 'SYSTEM';
+    // Members whose read cursor has passed this message
+    const seenBy = isOwn
+        ? Object.entries(readCursors)
+            .filter(([userId, lastReadAt]) => userId !== user?.id && new Date(lastReadAt) >= new Date(message.createdAt))
+            .map(([userId, readAt]) => ({ userId, readAt }))
+        : [];
+    // Integrations have no profile to open
+    const isBot = !!message.sender?.isBot;
+    const openSender = () => {
+        if (!isBot) openDetails('USER', message.sender?._id || message.sender?.id || '');
+    };
+
+    const remindMe = async (when: string) => {
+        const reminder = await createReminder({ messageId: message.id, when });
+        if (reminder) {
+            toast.success(`Reminder set for ${formatInTimezone(reminder.remindAt, timezone)}`);
+        }
+    };
+
+    if (message.contentType === 'EPHEMERAL') {
+        return <EphemeralMessageBubble message={message} />;
+    }
 
     if (isSystem) {
         return (
@@ -71,8 +108,8 @@ export const MessageBubble = memo(function MessageBubble({
             <div className="w-10 flex-shrink-0">
                 {!isGrouped && (
                     <Avatar
-                        className="h-10 w-10 cursor-pointer hover:opacity-80 transition-opacity"
-                        onClick={() => openDetails('USER', message.sender?._id || message.sender?.id || '')}
+                        className={cn('h-10 w-10 transition-opacity', !isBot && 'cursor-pointer hover:opacity-80')}
+                        onClick={openSender}
                     >
                         <AvatarImage src={message.sender.avatar} />
                         <AvatarFallback className={getAvatarColor(message.sender.name)}>
@@ -87,11 +124,16 @@ export const MessageBubble = memo(function MessageBubble({
                 {!isGrouped && (
                     <div className="flex items-baseline gap-2 mb-0.5">
                         <span
-                            className="font-semibold text-sm hover:underline cursor-pointer"
-                            onClick={() => openDetails('USER', message.sender?._id || message.sender?.id || '')}
+                            className={cn('font-semibold text-sm', !isBot && 'hover:underline cursor-pointer')}
+                            onClick={openSender}
                         >
                             {message.sender.name}
                         </span>
+                        {isBot && (
+                            <span className="text-[10px] font-bold uppercase bg-muted text-muted-foreground px-1.5 py-0.5 rounded">
+                                App
+                            </span>
+                        )}
                         <span className="text-xs text-muted-foreground">
                             {formatTime(message.createdAt)}
                         </span>
@@ -111,13 +153,17 @@ export const MessageBubble = memo(function MessageBubble({
                             Replying to <strong>{message.replyTo.sender?.name || 'Someone'}</strong>
                         </span>
                         <span className="text-xs text-muted-foreground truncate max-w-[200px] opacity-70">
-                            {message.replyTo.content}
+                            {decodeEntities(message.replyTo.content)}
                         </span>
                     </div>
                 )}
 
-                {/* Message Content (Voice or Text) */}
-                {message.contentType === 'AUDIO' && message.attachments && message.attachments[0] ? (
+                {/* Message Content (Blocks, Poll, Voice or Text); blocks replace the text, which is their fallback */}
+                {message.blocks && message.blocks.length > 0 && !message.isDeleted ? (
+                    <MessageBlocks blocks={message.blocks} />
+                ) : message.contentType === 'POLL' && message.poll && !message.isDeleted ? (
+                    <PollCard message={message} />
+                ) : message.contentType === 'AUDIO' && message.attachments && message.attachments[0] ? (
                     <div className="mt-2">
                         <VoiceMessage
                             url={message.attachments[0].url}
@@ -148,7 +194,7 @@ export const MessageBubble = memo(function MessageBubble({
                                         variant="ghost"
                                         onClick={() => {
                                             setIsEditing(false);
-                                            setEditValue(message.content);
+                                            setEditValue(editableContent);
                                         }}
                                     >
                                         Cancel
@@ -156,7 +202,7 @@ export const MessageBubble = memo(function MessageBubble({
                                     <Button
                                         size="sm"
                                         onClick={async () => {
-                                            if (editValue.trim() && editValue !== message.content) {
+                                            if (editValue.trim() && editValue !== editableContent) {
                                                 await editMessage(message.id, editValue);
                                             }
                                             setIsEditing(false);
@@ -171,92 +217,7 @@ export const MessageBubble = memo(function MessageBubble({
                                 {message.isDeleted ? (
                                     "This message has been deleted"
                                 ) : (
-                                    (() => {
-                                        // Improved mention regex logic...
-                                        const content = message.content;
-                                        const renderedParts: (string | React.ReactNode)[] = [];
-                                        const specialMentions = ['@channel', '@here', '@online'];
-                                        const mentions: { start: number, end: number, userId?: string, name: string, isSpecial: boolean }[] = [];
-
-                                        specialMentions.forEach(mention => {
-                                            const regex = new RegExp(mention + '\\b', 'gi');
-                                            let match;
-                                            while ((match = regex.exec(content)) !== null) {
-                                                mentions.push({
-                                                    start: match.index,
-                                                    end: match.index + match[0].length,
-                                                    name: mention.substring(1),
-                                                    isSpecial: true
-                                                });
-                                            }
-                                        });
-
-                                        const sortedUsers = [...users].sort((a, b) => b.name.length - a.name.length);
-                                        sortedUsers.forEach(user => {
-                                            const mentionText = `@${user.name}`;
-                                            let pos = content.indexOf(mentionText);
-                                            while (pos !== -1) {
-                                                const overlapsSpecial = mentions.some(m =>
-                                                    m.isSpecial &&
-                                                    ((pos >= m.start && pos < m.end) || (pos + mentionText.length > m.start && pos + mentionText.length <= m.end))
-                                                );
-                                                if (!overlapsSpecial) {
-                                                    mentions.push({
-                                                        start: pos,
-                                                        end: pos + mentionText.length,
-                                                        userId: user.id,
-                                                        name: user.name,
-                                                        isSpecial: false
-                                                    });
-                                                }
-                                                pos = content.indexOf(mentionText, pos + mentionText.length);
-                                            }
-                                        });
-
-                                        mentions.sort((a, b) => {
-                                            if (a.start !== b.start) return a.start - b.start;
-                                            return b.end - a.end;
-                                        });
-
-                                        let currentPos = 0;
-                                        mentions.forEach((mention, idx) => {
-                                            if (mention.start >= currentPos) {
-                                                if (mention.start > currentPos) {
-                                                    renderedParts.push(content.substring(currentPos, mention.start));
-                                                }
-                                                if (mention.isSpecial) {
-                                                    renderedParts.push(
-                                                        <span
-                                                            key={`special-mention-${idx}`}
-                                                            className="font-bold text-white bg-gradient-to-r from-primary to-purple-600 px-1.5 py-0.5 rounded cursor-default inline-block text-sm"
-                                                        >
-                                                            @{mention.name}
-                                                        </span>
-                                                    );
-                                                } else {
-                                                    renderedParts.push(
-                                                        <span
-                                                            key={`mention-${idx}`}
-                                                            className="font-bold text-primary bg-primary/10 px-1 rounded cursor-pointer hover:bg-primary/20 transition-colors inline-block"
-                                                            onClick={(e) => {
-                                                                e.stopPropagation();
-                                                                openDetails('USER', mention.userId!);
-                                                            }}
-                                                        >
-                                                            @{mention.name}
-                                                        </span>
-                                                    );
-                                                }
-                                                currentPos = mention.end;
-                                            }
-                                        });
-
-                                        if (currentPos < content.length) {
-                                            renderedParts.push(content.substring(currentPos));
-                                        }
-
-                                        return renderedParts.length > 0 ? renderedParts : [content];
-                                    })()
+                                    <MessageContent content={message.content} />
                                 )}
                             </>
                         )}
@@ -359,13 +320,13 @@ export const MessageBubble = memo(function MessageBubble({
                         <Tooltip>
                             <TooltipTrigger asChild>
                                 <div className="flex items-center gap-1 cursor-default">
-                                    {message.readBy && message.readBy.filter(r => r.userId !== user?.id).length > 0 ? (
+                                    {seenBy.length > 0 ? (
                                         <div className="flex items-center gap-1">
                                             <span className="text-[10px] text-primary font-medium mr-0.5">Seen</span>
                                             <CheckCheck className="h-3 w-3 text-primary" />
                                             {activeChannel?.type !== 'DM' && (
                                                 <span className="text-[10px] text-primary font-medium ml-0.5">
-                                                    {message.readBy.filter(r => r.userId !== user?.id).length}
+                                                    {seenBy.length}
                                                 </span>
                                             )}
                                         </div>
@@ -380,20 +341,18 @@ export const MessageBubble = memo(function MessageBubble({
                             <TooltipContent side="left">
                                 <div className="text-xs space-y-1">
                                     <p className="font-bold border-b pb-1 mb-1">Seen by</p>
-                                    {message.readBy && message.readBy.length > 0 ? (
-                                        message.readBy
-                                            .filter(r => r.userId !== user?.id)
-                                            .map(r => {
-                                                const reader = useChatStore.getState().users.find(u =>
-                                                    (u.id === r.userId) || (u._id === r.userId)
-                                                );
-                                                return (
-                                                    <div key={r.userId} className="flex justify-between gap-4">
-                                                        <span className="font-medium">{reader?.name || 'Someone'}</span>
-                                                        <span className="text-muted-foreground">{formatTime(r.readAt)}</span>
-                                                    </div>
-                                                );
-                                            })
+                                    {seenBy.length > 0 ? (
+                                        seenBy.map(r => {
+                                            const reader = users.find(u =>
+                                                (u.id === r.userId) || (u._id === r.userId)
+                                            );
+                                            return (
+                                                <div key={r.userId} className="flex justify-between gap-4">
+                                                    <span className="font-medium">{reader?.name || 'Someone'}</span>
+                                                    <span className="text-muted-foreground">{formatTime(r.readAt)}</span>
+                                                </div>
+                                            );
+                                        })
                                     ) : (
                                         <p className="italic text-muted-foreground text-[10px]">No one yet</p>
                                     )}
@@ -499,13 +458,16 @@ export const MessageBubble = memo(function MessageBubble({
                         <DropdownMenuContent align="end">
                             {isOwn && !message.isDeleted && (
                                 <>
-                                    <DropdownMenuItem onClick={() => {
-                                        setIsEditing(true);
-                                        setEditValue(message.content); // Ensure editValue is current
-                                    }}>
-                                        <Pencil className="mr-2 h-4 w-4" />
-                                        Edit Message
-                                    </DropdownMenuItem>
+                                    {/* A poll's question can't change once people have voted */}
+                                    {message.contentType !== 'POLL' && (
+                                        <DropdownMenuItem onClick={() => {
+                                            setIsEditing(true);
+                                            setEditValue(editableContent); // Ensure editValue is current
+                                        }}>
+                                            <Pencil className="mr-2 h-4 w-4" />
+                                            Edit Message
+                                        </DropdownMenuItem>
+                                    )}
                                     <DropdownMenuItem onClick={() => deleteMessage(message.id)}>
                                         <Trash2 className="mr-2 h-4 w-4" />
                                         Delete Message
@@ -543,6 +505,21 @@ export const MessageBubble = memo(function MessageBubble({
                                     {message.threadCount ? 'View Thread' : 'Start Thread'}
                                 </DropdownMenuItem>
                             )}
+                            {!message.isDeleted && (
+                                <DropdownMenuSub>
+                                    <DropdownMenuSubTrigger>
+                                        <AlarmClock className="mr-2 h-4 w-4" />
+                                        Remind me about this
+                                    </DropdownMenuSubTrigger>
+                                    <DropdownMenuSubContent>
+                                        {REMINDER_TIMES.map((option) => (
+                                            <DropdownMenuItem key={option.when} onClick={() => remindMe(option.when)}>
+                                                {option.label}
+                                            </DropdownMenuItem>
+                                        ))}
+                                    </DropdownMenuSubContent>
+                                </DropdownMenuSub>
+                            )}
                         </DropdownMenuContent>
                     </DropdownMenu>
                 </div>
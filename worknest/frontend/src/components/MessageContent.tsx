@@ -0,0 +1,178 @@
+import { Fragment, memo, useMemo, type ReactNode } from 'react';
+import { useChatStore } from '@/store';
+import { highlightCode } from '@/lib/highlight';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+interface MessageContentProps {
+    content: string;
+    className?: string;
+}
+
+interface Mention {
+    start: number;
+    end: number;
+    userId?: string;
+    name: string;
+    isSpecial: boolean;
+}
+
+const SPECIAL_MENTIONS = ['@channel', '@here', '@online'];
+
+const TOKEN_CLASSES: Record<string, string> = {
+    comment: 'text-muted-foreground italic',
+    string: 'text-emerald-600 dark:text-emerald-400',
+    number: 'text-amber-600 dark:text-amber-400',
+    keyword: 'text-purple-600 dark:text-purple-400 font-semibold',
+};
+
+/**
+ * Message text rendered from its markdown, with @mentions highlighted. Code
+ * is left as written, so mentions in it are not.
+ */
+export const MessageContent = memo(function MessageContent({ content, className }: MessageContentProps) {
+    const { users, openDetails } = useChatStore();
+    const blocks = useMemo(() => parseMarkdown(content), [content]);
+    // Longest names first, so "@Ann Lee" wins over "@Ann"
+    const sortedUsers = useMemo(() => [...users].sort((a, b) => b.name.length - a.name.length), [users]);
+
+    const renderMentions = (text: string, key: string): ReactNode[] => {
+        const mentions: Mention[] = [];
+
+        SPECIAL_MENTIONS.forEach((mention) => {
+            const regex = new RegExp(mention + '\\b', 'gi');
+            let match;
+            while ((match = regex.exec(text)) !== null) {
+                mentions.push({
+                    start: match.index,
+                    end: match.index + match[0].length,
+                    name: mention.substring(1),
+                    isSpecial: true,
+                });
+            }
+        });
+
+        sortedUsers.forEach((user) => {
+            const mentionText = `@${user.name}`;
+            let pos = text.indexOf(mentionText);
+            while (pos !== -1) {
+                const overlapsSpecial = mentions.some((m) =>
+                    m.isSpecial &&
+                    ((pos >= m.start && pos < m.end) || (pos + mentionText.length > m.start && pos + mentionText.length <= m.end))
+                );
+                if (!overlapsSpecial) {
+                    mentions.push({ start: pos, end: pos + mentionText.length, userId: user.id, name: user.name, isSpecial: false });
+                }
+                pos = text.indexOf(mentionText, pos + mentionText.length);
+            }
+        });
+
+        mentions.sort((a, b) => (a.start !== b.start ? a.start - b.start : b.end - a.end));
+
+        const parts: ReactNode[] = [];
+        let currentPos = 0;
+        mentions.forEach((mention, idx) => {
+            if (mention.start < currentPos) return;
+            if (mention.start > currentPos) {
+                parts.push(text.substring(currentPos, mention.start));
+            }
+            parts.push(
+                mention.isSpecial ? (
+                    <span
+                        key={`${key}-special-mention-${idx}`}
+                        className="font-bold text-white bg-gradient-to-r from-primary to-purple-600 px-1.5 py-0.5 rounded cursor-default inline-block text-sm"
+                    >
+                        @{mention.name}
+                    </span>
+                ) : (
+                    <span
+                        key={`${key}-mention-${idx}`}
+                        className="font-bold text-primary bg-primary/10 px-1 rounded cursor-pointer hover:bg-primary/20 transition-colors inline-block"
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            openDetails('USER', mention.userId!);
+                        }}
+                    >
+                        @{mention.name}
+                    </span>
+                )
+            );
+            currentPos = mention.end;
+        });
+        if (currentPos < text.length) {
+            parts.push(text.substring(currentPos));
+        }
+        return parts;
+    };
+
+    const renderInline = (nodes: MarkdownInline[], key: string): ReactNode[] =>
+        nodes.map((node, i) => {
+            const k = `${key}-${i}`;
+            switch (node.type) {
+                case 'text':
+                    return <Fragment key={k}>{renderMentions(node.text, k)}</Fragment>;
+                case 'bold':
+                    return <strong key={k} className="font-semibold">{renderInline(node.children, k)}</strong>;
+                case 'italic':
+                    return <em key={k}>{renderInline(node.children, k)}</em>;
+                case 'strike':
+                    return <s key={k}>{renderInline(node.children, k)}</s>;
+                case 'code':
+                    return (
+                        <code key={k} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em] text-destructive">
+                            {node.text}
+                        </code>
+                    );
+                case 'link':
+                    return (
+                        <a
+                            key={k}
+                            href={node.href}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary underline underline-offset-2 hover:opacity-80 break-all"
+                            onClick={(e) => e.stopPropagation()}
+                        >
+                            {renderInline(node.children, k)}
+                        </a>
+                    );
+            }
+        });
+
+    const renderBlocks = (nodes: MarkdownBlock[], key: string): ReactNode[] =>
+        nodes.map((block, i) => {
+            const k = `${key}-${i}`;
+            switch (block.type) {
+                case 'paragraph':
+                    return <p key={k} className="whitespace-pre-wrap">{renderInline(block.children, k)}</p>;
+                case 'code':
+                    return (
+                        <pre key={k} className="my-1 max-w-full overflow-x-auto rounded-lg border border-border bg-muted/60 p-3 font-mono text-xs leading-relaxed">
+                            <code>
+                                {highlightCode(block.code, block.language).map((token, j) => (
+                                    <span key={j} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+                                ))}
+                            </code>
+                        </pre>
+                    );
+                case 'quote':
+                    return (
+                        <blockquote key={k} className="my-1 border-l-4 border-border pl-3 text-muted-foreground">
+                            {renderBlocks(block.children, k)}
+                        </blockquote>
+                    );
+                case 'list': {
+                    const items = block.items.map((item, j) => <li key={j}>{renderInline(item, `${k}-${j}`)}</li>);
+                    return block.ordered ? (
+                        <ol key={k} start={block.start} className="my-1 list-decimal pl-6">{items}</ol>
+                    ) : (
+                        <ul key={k} className="my-1 list-disc pl-6">{items}</ul>
+                    );
+                }
+            }
+        });
+
+    return <div className={cn('space-y-1', className)}>{renderBlocks(blocks, 'md')}</div>;
+});
+
+export default MessageContent;
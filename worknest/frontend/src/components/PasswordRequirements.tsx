@@ -0,0 +1,40 @@
+import { Check, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { checkPasswordPolicy } from '@/lib/passwordPolicy';
+import type { PasswordPolicy } from '@/types';
+
+interface PasswordRequirementsProps {
+    password: string;
+    policy: PasswordPolicy;
+    className?: string;
+}
+
+/**
+ * Live checklist of the organization's password rules
+ */
+export function PasswordRequirements({ password, policy, className }: PasswordRequirementsProps) {
+    const results = checkPasswordPolicy(password, policy);
+
+    return (
+        <ul className={cn('space-y-1 text-xs', className)}>
+            {results.map((result) => (
+                <li
+                    key={result.rule}
+                    className={cn(
+                        'flex items-center gap-1.5 transition-colors',
+                        result.passed ? 'text-green-600 dark:text-green-500' : 'text-muted-foreground'
+                    )}
+                >
+                    {result.passed ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+                    {result.message}
+                </li>
+            ))}
+            {policy.historyCount > 0 && (
+                <li className="flex items-center gap-1.5 text-muted-foreground">
+                    <span className="h-3 w-3" />
+                    Must differ from your last {policy.historyCount} passwords
+                </li>
+            )}
+        </ul>
+    );
+}
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { BarChart3, Check, Loader2, Lock, Plus, X } from 'lucide-react';
+import { useAuthStore, useChatStore } from '@/store';
+import type { Message } from '@/store/chatStore';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { MAX_POLL_OPTIONS, POLL_DURATIONS } from '@/lib/polls';
+import { formatInTimezone } from '@/lib/timezone';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+
+interface PollCardProps {
+    message: Message;
+}
+
+/**
+ * A POLL message: its options with live results. Clicking an option votes
+ * for it; clicking the chosen option again takes the vote back.
+ */
+export function PollCard({ message }: PollCardProps) {
+    const { user } = useAuthStore();
+    const { users, votePoll, closePoll } = useChatStore();
+    const timezone = useUserTimezone();
+    const poll = message.poll!;
+    const userId = user?.id || '';
+
+    // Named results carry the voters, so they show the choice even before
+    // the user's own results have arrived
+    const myVotes = poll.myVotes
+        ?? poll.options.filter((o) => o.voterIds?.includes(userId)).map((o) => o.id);
+    const isCreator = message.sender?._id === userId || message.sender?.id === userId;
+    const canVote = !poll.isClosed && !message.isDeleted;
+
+    const vote = (optionId: string) => {
+        if (!canVote) return;
+        const chosen = myVotes.includes(optionId);
+        const optionIds = poll.multipleChoice
+            ? chosen ? myVotes.filter((id) => id !== optionId) : [...myVotes, optionId]
+            : chosen ? [] : [optionId];
+        votePoll(message.id, optionIds);
+    };
+
+    const voterNames = (voterIds: string[]) =>
+        voterIds.map((id) => users.find((u) => u.id === id)?.name || 'Someone').join(', ');
+
+    return (
+        <div className="mt-1 w-full max-w-[420px] rounded-xl border border-border bg-muted/30 p-3 space-y-2">
+            <div className="flex items-start gap-2">
+                <BarChart3 className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                <div className="min-w-0">
+                    <p className="text-sm font-semibold break-words">{poll.question}</p>
+                    <p className="text-[11px] text-muted-foreground">
+                        {poll.multipleChoice ? 'Choose any' : 'Choose one'}
+                        {poll.anonymous && ' · Anonymous'}
+                    </p>
+                </div>
+            </div>
+
+            <div className="space-y-1.5">
+                {poll.options.map((option) => {
+                    const percent = poll.voterCount > 0 ? Math.round((option.voteCount / poll.voterCount) * 100) : 0;
+                    const isChosen = myVotes.includes(option.id);
+                    const row = (
+                        <button
+                            type="button"
+                            disabled={!canVote}
+                            onClick={() => vote(option.id)}
+                            className={cn(
+                                'relative w-full overflow-hidden rounded-lg border px-3 py-2 text-left text-sm transition-colors',
+                                isChosen ? 'border-primary' : 'border-border',
+                                canVote && 'hover:border-primary/60'
+                            )}
+                        >
+                            <span
+                                className={cn('absolute inset-y-0 left-0', isChosen ? 'bg-primary/20' : 'bg-muted')}
+                                style={{ width: `${percent}%` }}
+                            />
+                            <span className="relative flex items-center justify-between gap-2">
+                                <span className="flex items-center gap-1.5 min-w-0">
+                                    {isChosen && <Check className="h-3.5 w-3.5 text-primary shrink-0" />}
+                                    <span className="break-words">{option.text}</span>
+                                </span>
+                                <span className="text-xs text-muted-foreground shrink-0">
+                                    {option.voteCount} · {percent}%
+                                </span>
+                            </span>
+                        </button>
+                    );
+
+                    return option.voterIds && option.voterIds.length > 0 ? (
+                        <Tooltip key={option.id}>
+                            <TooltipTrigger asChild>{row}</TooltipTrigger>
+                            <TooltipContent>{voterNames(option.voterIds)}</TooltipContent>
+                        </Tooltip>
+                    ) : (
+                        <div key={option.id}>{row}</div>
+                    );
+                })}
+            </div>
+
+            <div className="flex items-center justify-between gap-2 text-[11px] text-muted-foreground">
+                <span className="flex items-center gap-1">
+                    {poll.isClosed && <Lock className="h-3 w-3" />}
+                    {poll.voterCount} {poll.voterCount === 1 ? 'vote' : 'votes'}
+                    {poll.isClosed
+                        ? ' · Closed'
+                        : poll.closesAt && ` · Closes ${formatInTimezone(poll.closesAt, timezone)}`}
+                </span>
+                {!poll.isClosed && !message.isDeleted && (isCreator || user?.role === 'ADMIN') && (
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-[11px]" onClick={() => closePoll(message.id)}>
+                        Close poll
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+interface CreatePollDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    channelId: string;
+}
+
+/**
+ * Build a poll: a question, its options, how people vote and when it closes
+ */
+export function CreatePollDialog(props: CreatePollDialogProps) {
+    return (
+        <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+            <DialogContent className="sm:max-w-[480px]">
+                {/* Mounted per opening, so each poll starts empty */}
+                {props.open && <CreatePollForm {...props} />}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function CreatePollForm({ onOpenChange, channelId }: CreatePollDialogProps) {
+    const { createPoll } = useChatStore();
+    const [question, setQuestion] = useState('');
+    const [options, setOptions] = useState(['', '']);
+    const [multipleChoice, setMultipleChoice] = useState(false);
+    const [anonymous, setAnonymous] = useState(false);
+    const [duration, setDuration] = useState('never');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const filled = options.map((o) => o.trim()).filter(Boolean);
+    const canSubmit = !!question.trim() && filled.length >= 2 && !isSaving;
+
+    const setOption = (index: number, value: string) =>
+        setOptions(options.map((o, i) => (i === index ? value : o)));
+
+    const submit = async () => {
+        if (!canSubmit) return;
+        const durationMs = POLL_DURATIONS.find((d) => d.value === duration)?.ms;
+
+        setIsSaving(true);
+        const created = await createPoll({
+            channelId,
+            question: question.trim(),
+            options: filled,
+            multipleChoice,
+            anonymous,
+            closesAt: durationMs ? new Date(Date.now() + durationMs).toISOString() : null,
+        });
+        setIsSaving(false);
+        if (created) onOpenChange(false);
+    };
+
+    return (
+        <>
+            <DialogHeader>
+                <DialogTitle>Create poll</DialogTitle>
+                <DialogDescription>Results update live as people vote.</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+                <div className="space-y-2">
+                    <Label htmlFor="poll-question">Question</Label>
+                    <Input
+                        id="poll-question"
+                        value={question}
+                        onChange={(e) => setQuestion(e.target.value)}
+                        placeholder="What should we ask?"
+                        maxLength={300}
+                        autoFocus
+                    />
+                </div>
+
+                <div className="space-y-2">
+                    <Label>Options</Label>
+                    {options.map((option, i) => (
+                        <div key={i} className="flex items-center gap-2">
+                            <Input
+                                value={option}
+                                onChange={(e) => setOption(i, e.target.value)}
+                                placeholder={`Option ${i + 1}`}
+                                maxLength={200}
+                            />
+                            {options.length > 2 && (
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 shrink-0"
+                                    title="Remove option"
+                                    onClick={() => setOptions(options.filter((_, j) => j !== i))}
+                                >
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            )}
+                        </div>
+                    ))}
+                    {options.length < MAX_POLL_OPTIONS && (
+                        <Button variant="ghost" size="sm" onClick={() => setOptions([...options, ''])}>
+                            <Plus className="h-4 w-4 mr-1" />
+                            Add option
+                        </Button>
+                    )}
+                </div>
+
+                <div className="space-y-2">
+                    <label className="flex items-center justify-between gap-2 text-sm">
+                        Let people choose more than one option
+                        <Switch checked={multipleChoice} onCheckedChange={setMultipleChoice} />
+                    </label>
+                    <label className="flex items-center justify-between gap-2 text-sm">
+                        Hide who voted for what
+                        <Switch checked={anonymous} onCheckedChange={setAnonymous} />
+                    </label>
+                </div>
+
+                <div className="space-y-2">
+                    <Label>Close</Label>
+                    <Select value={duration} onValueChange={setDuration}>
+                        <SelectTrigger className="h-9">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {POLL_DURATIONS.map((d) => (
+                                <SelectItem key={d.value} value={d.value}>
+                                    {d.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            <DialogFooter className="gap-2 sm:gap-0 mt-2">
+                <Button variant="ghost" onClick={() => onOpenChange(false)}>
+                    Cancel
+                </Button>
+                <Button onClick={submit} disabled={!canSubmit}>
+                    {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Post poll
+                </Button>
+            </DialogFooter>
+        </>
+    );
+}
+
+export default PollCard;
@@ -0,0 +1,114 @@
+import { useEffect } from 'react';
+import { AlarmClock, Check, Clock, Trash2 } from 'lucide-react';
+import { useChatStore } from '@/store';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { REMINDER_TIMES } from '@/lib/reminders';
+import { formatInTimezone } from '@/lib/timezone';
+import { cn } from '@/lib/utils';
+import type { Reminder } from '@/types';
+import { Button } from '@/components/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+const describeReminder = (reminder: Reminder) => {
+    if (!reminder.messageId) return reminder.text;
+    if (!reminder.message || reminder.message.isDeleted) return reminder.text || 'A deleted message';
+    return reminder.text || `${reminder.message.senderName || 'Message'}: ${reminder.message.content}`;
+};
+
+/**
+ * The user's reminders in the sidebar. Delivered ones stay here, marked as
+ * due, until they are completed or snoozed.
+ */
+export function RemindersList() {
+    const { reminders, channels, setActiveChannel, fetchReminders, snoozeReminder, completeReminder, deleteReminder } = useChatStore();
+    const timezone = useUserTimezone();
+
+    useEffect(() => {
+        fetchReminders();
+    }, [fetchReminders]);
+
+    if (reminders.length === 0) return null;
+
+    return (
+        <div className="mb-4">
+            <div className="flex items-center px-2 py-1">
+                <span className="text-xs font-semibold uppercase tracking-wider opacity-60">
+                    Reminders
+                </span>
+            </div>
+            <div className="space-y-0.5">
+                {reminders.map((reminder) => {
+                    const channel = channels.find((c) => c.id === reminder.channelId);
+                    const isDue = !!reminder.deliveredAt;
+
+                    return (
+                        <div
+                            key={reminder.id}
+                            className="group flex items-start gap-2 px-2 py-1.5 rounded-md text-sm hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
+                        >
+                            <AlarmClock className={cn('h-4 w-4 mt-0.5 shrink-0', isDue ? 'text-destructive' : 'opacity-60')} />
+                            <button
+                                className="flex-1 min-w-0 text-left"
+                                disabled={!channel}
+                                onClick={() => channel && setActiveChannel(channel)}
+                            >
+                                <span className="block truncate">{describeReminder(reminder)}</span>
+                                <span className={cn('block text-xs', isDue ? 'text-destructive' : 'opacity-60')}>
+                                    {isDue ? 'Due ' : ''}
+                                    {formatInTimezone(reminder.remindAt, timezone)}
+                                </span>
+                            </button>
+                            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                                <Tooltip>
+                                    <TooltipTrigger asChild>
+                                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => completeReminder(reminder.id)}>
+                                            <Check className="h-3.5 w-3.5" />
+                                        </Button>
+                                    </TooltipTrigger>
+                                    <TooltipContent>Mark as complete</TooltipContent>
+                                </Tooltip>
+                                <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                        <Button variant="ghost" size="icon" className="h-6 w-6" title="Snooze">
+                                            <Clock className="h-3.5 w-3.5" />
+                                        </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end">
+                                        <DropdownMenuLabel>Snooze</DropdownMenuLabel>
+                                        {REMINDER_TIMES.map((option) => (
+                                            <DropdownMenuItem key={option.when} onClick={() => snoozeReminder(reminder.id, option.when)}>
+                                                {option.label}
+                                            </DropdownMenuItem>
+                                        ))}
+                                    </DropdownMenuContent>
+                                </DropdownMenu>
+                                <Tooltip>
+                                    <TooltipTrigger asChild>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-6 w-6 hover:text-destructive"
+                                            onClick={() => deleteReminder(reminder.id)}
+                                        >
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                        </Button>
+                                    </TooltipTrigger>
+                                    <TooltipContent>Delete</TooltipContent>
+                                </Tooltip>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
+export default RemindersList;
@@ -0,0 +1,256 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, CalendarClock, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { useChatStore } from '@/store';
+import { useUserTimezone } from '@/hooks/use-user-timezone';
+import { addDaysToDate, formatInTimezone, toZonedParts } from '@/lib/timezone';
+import type { ScheduledMessage } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+
+interface ScheduleMessageDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    timezone: string;
+    // The composer text being scheduled
+    content?: string;
+    // Set when editing an existing scheduled message
+    initial?: { content: string; scheduledAt: string };
+    onSubmit: (data: { content: string; sendAt: string }) => Promise<boolean>;
+}
+
+interface SchedulePreset {
+    label: string;
+    date: string;
+    time: string;
+}
+
+// Worked out on the user's clock each time the dialog opens
+const getPresets = (timezone: string): SchedulePreset[] => {
+    const now = new Date();
+    const today = toZonedParts(now, timezone);
+    const inAnHour = toZonedParts(new Date(now.getTime() + 60 * 60 * 1000), timezone);
+    const daysToMonday = (8 - today.weekday) % 7 || 7;
+    return [
+        { label: 'In 1 hour', date: inAnHour.date, time: inAnHour.time },
+        { label: 'Tomorrow at 9:00 AM', date: addDaysToDate(today.date, 1), time: '09:00' },
+        { label: 'Monday at 9:00 AM', date: addDaysToDate(today.date, daysToMonday), time: '09:00' },
+    ];
+};
+
+/**
+ * Pick when a message goes out: a few presets or a custom date and time.
+ * When editing, the text can be changed too.
+ */
+export function ScheduleMessageDialog(props: ScheduleMessageDialogProps) {
+    return (
+        <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+            <DialogContent className="sm:max-w-[440px]">
+                {/* Mounted per opening, so the form starts from fresh presets */}
+                {props.open && <ScheduleMessageForm {...props} />}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function ScheduleMessageForm({ onOpenChange, timezone, content, initial, onSubmit }: ScheduleMessageDialogProps) {
+    const [presets] = useState(() => getPresets(timezone));
+    const [initialParts] = useState(() =>
+        initial ? toZonedParts(new Date(initial.scheduledAt), timezone) : null
+    );
+    const [text, setText] = useState(initial?.content || '');
+    const [date, setDate] = useState(initialParts?.date || presets[1].date);
+    const [time, setTime] = useState(initialParts?.time || '09:00');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const submit = async (sendDate: string, sendTime: string) => {
+        const messageContent = initial ? text : content || '';
+        if (!messageContent.trim() || !sendDate || !sendTime) return;
+
+        setIsSaving(true);
+        const saved = await onSubmit({ content: messageContent, sendAt: `${sendDate}T${sendTime}` });
+        setIsSaving(false);
+        if (saved) onOpenChange(false);
+    };
+
+    return (
+        <>
+            <DialogHeader>
+                <DialogTitle>{initial ? 'Edit scheduled message' : 'Schedule message'}</DialogTitle>
+                <DialogDescription>
+                    Times are in your timezone ({timezone}). You can change it in your profile.
+                </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+                {initial && (
+                    <div className="space-y-2">
+                        <Label htmlFor="scheduled-content">Message</Label>
+                        <Textarea
+                            id="scheduled-content"
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            rows={4}
+                            maxLength={4000}
+                        />
+                    </div>
+                )}
+
+                {!initial && (
+                    <div className="space-y-1">
+                        {presets.map((preset) => (
+                            <button
+                                key={preset.label}
+                                type="button"
+                                disabled={isSaving}
+                                className="w-full flex items-center justify-between rounded-lg px-3 py-2 text-sm hover:bg-primary/10 hover:text-primary transition-colors text-left"
+                                onClick={() => submit(preset.date, preset.time)}
+                            >
+                                <span className="font-medium">{preset.label}</span>
+                                <span className="text-xs text-muted-foreground">{preset.date} {preset.time}</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                        <Label htmlFor="scheduled-date">Date</Label>
+                        <Input id="scheduled-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="scheduled-time">Time</Label>
+                        <Input id="scheduled-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+                    </div>
+                </div>
+            </div>
+
+            <DialogFooter className="gap-2 sm:gap-0 mt-2">
+                <Button variant="ghost" onClick={() => onOpenChange(false)}>
+                    Cancel
+                </Button>
+                <Button onClick={() => submit(date, time)} disabled={isSaving || !date || !time || (!!initial && !text.trim())}>
+                    {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {initial ? 'Save' : 'Schedule'}
+                </Button>
+            </DialogFooter>
+        </>
+    );
+}
+
+interface ScheduledMessagesDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    // Only show the messages scheduled in this channel
+    channelId?: string;
+}
+
+/**
+ * The user's pending scheduled messages, with editing and cancelling
+ */
+export function ScheduledMessagesDialog({ open, onOpenChange, channelId }: ScheduledMessagesDialogProps) {
+    const { scheduledMessages, updateScheduledMessage, cancelScheduledMessage } = useChatStore();
+    const timezone = useUserTimezone();
+    const [editing, setEditing] = useState<ScheduledMessage | null>(null);
+    const editingInitial = useMemo(
+        () => (editing ? { content: editing.content, scheduledAt: editing.scheduledAt } : undefined),
+        [editing]
+    );
+
+    const visible = channelId
+        ? scheduledMessages.filter((m) => m.channelId === channelId)
+        : scheduledMessages;
+
+    return (
+        <>
+            <Dialog open={open && !editing} onOpenChange={onOpenChange}>
+                <DialogContent className="sm:max-w-[520px]">
+                    <DialogHeader>
+                        <DialogTitle>Scheduled messages</DialogTitle>
+                        <DialogDescription>
+                            Messages you've scheduled are sent at the time shown ({timezone}).
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {visible.length === 0 ? (
+                        <div className="flex flex-col items-center gap-2 py-8 text-sm text-muted-foreground">
+                            <CalendarClock className="h-8 w-8" />
+                            <span>No scheduled messages</span>
+                        </div>
+                    ) : (
+                        <div className="max-h-[400px] overflow-y-auto space-y-2">
+                            {visible.map((scheduled) => (
+                                <div key={scheduled.id} className="rounded-lg border border-border p-3 space-y-2">
+                                    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                                        <span className="flex items-center gap-1">
+                                            <CalendarClock className="h-3.5 w-3.5" />
+                                            {formatInTimezone(scheduled.scheduledAt, timezone)}
+                                            {!channelId && scheduled.channel && (
+                                                <span>
+                                                    {' · '}
+                                                    {scheduled.channel.type === 'DM' ? 'Direct message' : `#${scheduled.channel.name}`}
+                                                </span>
+                                            )}
+                                        </span>
+                                        <div className="flex items-center gap-1">
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-7 w-7"
+                                                title="Edit"
+                                                disabled={scheduled.status === 'SENDING'}
+                                                onClick={() => setEditing(scheduled)}
+                                            >
+                                                <Pencil className="h-3.5 w-3.5" />
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-7 w-7 hover:text-destructive"
+                                                title="Cancel message"
+                                                disabled={scheduled.status === 'SENDING'}
+                                                onClick={() => cancelScheduledMessage(scheduled.id)}
+                                            >
+                                                <Trash2 className="h-3.5 w-3.5" />
+                                            </Button>
+                                        </div>
+                                    </div>
+                                    <p className="text-sm whitespace-pre-wrap break-words line-clamp-4">{scheduled.content}</p>
+                                    {scheduled.status === 'FAILED' && (
+                                        <p className="flex items-center gap-1 text-xs text-destructive">
+                                            <AlertCircle className="h-3.5 w-3.5" />
+                                            Not sent. {scheduled.failureReason} Pick a new time to try again.
+                                        </p>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
+
+            <ScheduleMessageDialog
+                open={!!editing}
+                onOpenChange={(isOpen) => !isOpen && setEditing(null)}
+                timezone={timezone}
+                initial={editingInitial}
+                onSubmit={async ({ content, sendAt }) => {
+                    if (!editing) return false;
+                    const updated = await updateScheduledMessage(editing.id, { content, sendAt, timezone });
+                    return !!updated;
+                }}
+            />
+        </>
+    );
+}
+
+export default ScheduledMessagesDialog;
@@ -12,6 +12,10 @@ import {
     UserPlus,
     Mail,
     Headphones,
+    Pencil,
+    Compass,
+    Check,
+    X,
 } from 'lucide-react';
 import { useAuthStore, useChatStore } from '@/store';
 import { useHuddleStore } from '@/store/huddleStore';
@@ -39,24 +43,34 @@ import {
 } from '@/components/ui/dialog';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { StatusPicker } from '@/components/StatusPicker';
+import { RemindersList } from '@/components/Reminders';
+import { DraftsList } from '@/components/Drafts';
+import { ArchivedChannelsList } from '@/components/ArchivedChannels';
+import { ChannelBrowser } from '@/components/ChannelBrowser';
+import { GroupAvatar } from '@/components/GroupAvatar';
 
 export function Sidebar() {
     const navigate = useNavigate();
     const { user, organization, logout } = useAuthStore();
-    const { channels, activeChannel, setActiveChannel, onlineUsers, createChannel, fetchUsers, users, createDM } = useChatStore();
+    const { channels, activeChannel, setActiveChannel, onlineUsers, createChannel, fetchUsers, users, createDM, drafts } = useChatStore();
     const { activeHuddlesIds } = useHuddleStore();
     const [isCreateChannelOpen, setIsCreateChannelOpen] = useState(false);
     const [isDirectMessageOpen, setIsDirectMessageOpen] = useState(false);
+    const [isBrowseOpen, setIsBrowseOpen] = useState(false);
     const [newChannelName, setNewChannelName] = useState('');
     const [newChannelDescription, setNewChannelDescription] = useState('');
     const [newChannelType, setNewChannelType] = useState<'PUBLIC' | 'PRIVATE'>('PUBLIC');
     const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
+    const [selectedDMUsers, setSelectedDMUsers] = useState<string[]>([]);
     const [searchQuery, setSearchQuery] = useState('');
     const [isInviteOpen, setIsInviteOpen] = useState(false);
     const [inviteEmail, setInviteEmail] = useState('');
     const [inviteName, setInviteName] = useState('');
     const { invite, isLoading: isAuthLoading, error: authError, clearError: clearAuthError } = useAuthStore();
 
+    // Only admins create private channels, unless the organization turns them off
+    const canCreatePrivate = user?.role === 'ADMIN' && organization?.settings?.channelPolicies?.allowPrivateChannels !== false;
+
     const publicChannels = channels.filter((c) => c.type === 'PUBLIC');
     const privateChannels = channels.filter((c) => c.type === 'PRIVATE');
     const dmChannels = channels.filter((c) => c.type === 'DM');
@@ -85,13 +99,21 @@ export function Sidebar() {
     };
 
     const handleOpenDMDialog = async () => {
+        setSelectedDMUsers([]);
         setIsDirectMessageOpen(true);
         await fetchUsers();
     };
 
-    const handleStartDM = async (userId: string) => {
+    const toggleDMUser = (userId: string) => {
+        setSelectedDMUsers((selected) =>
+            selected.includes(userId) ? selected.filter((id) => id !== userId) : [...selected, userId]
+        );
+    };
+
+    const handleStartDM = async () => {
+        if (selectedDMUsers.length === 0) return;
         try {
-            const channel = await createDM(userId);
+            const channel = await createDM(selectedDMUsers);
             setActiveChannel(channel);
             setIsDirectMessageOpen(false);
         } catch (error) {
@@ -124,6 +146,9 @@ export function Sidebar() {
     const ChannelItem = ({ channel }: { channel: typeof channels[0] }) => {
         const isActive = activeChannel?.id === channel.id;
         const isOnline = channel.dmUser && onlineUsers.includes(channel.dmUser.id);
+        const isGroup = channel.type === 'DM' && !!channel.dmUsers?.length;
+        // The open channel's composer already shows its draft
+        const hasDraft = !isActive && drafts.some((d) => d.channelId === channel.id && !d.threadId);
 
         return (
             <button
@@ -134,7 +159,9 @@ export function Sidebar() {
                     isActive && 'bg-sidebar-accent text-sidebar-accent-foreground'
                 )}
             >
-                {channel.type === 'DM' ? (
+                {isGroup ? (
+                    <GroupAvatar users={channel.dmUsers!} />
+                ) : channel.type === 'DM' ? (
                     <div className="relative">
                         <Avatar className="h-6 w-6">
                             <AvatarImage src={channel.dmUser?.avatar} />
@@ -152,11 +179,14 @@ export function Sidebar() {
                     <Hash className="h-4 w-4 opacity-60" />
                 )}
                 <span className="truncate flex-1 text-left flex items-center gap-2">
-                    {channel.type === 'DM' ? channel.dmUser?.name || 'Direct Message' : channel.name}
+                    {channel.type === 'DM' ? channel.dmUser?.name || channel.name : channel.name}
                     {activeHuddlesIds.get(channel.id) && (
                         <Headphones className="h-3 w-3 text-green-500 animate-pulse" />
                     )}
                 </span>
+                {hasDraft && !channel.unreadCount && (
+                    <Pencil className="h-3 w-3 opacity-60" aria-label="Unsent draft" />
+                )}
                 {channel.unreadCount ? (
                     <span className="flex items-center justify-center h-5 min-w-[20px] px-1.5 text-xs font-bold bg-primary text-primary-foreground rounded-full">
                         {channel.unreadCount > 99 ? '99+' : channel.unreadCount}
@@ -259,7 +289,7 @@ export function Sidebar() {
                                     </div>
                                     <div className="space-y-3">
                                         <label className="text-sm font-medium">Visibility</label>
-                                        <div className={cn("grid gap-4", user?.role === 'ADMIN' ? "grid-cols-2" : "grid-cols-1")}>
+                                        <div className={cn("grid gap-4", canCreatePrivate ? "grid-cols-2" : "grid-cols-1")}>
                                             <button
                                                 onClick={() => setNewChannelType('PUBLIC')}
                                                 className={cn(
@@ -275,7 +305,7 @@ export function Sidebar() {
                                                 <span className="text-xs text-muted-foreground mt-1">Anyone in your workspace can join</span>
                                             </button>
 
-                                            {user?.role === 'ADMIN' && (
+                                            {canCreatePrivate && (
                                                 <button
                                                     onClick={() => setNewChannelType('PRIVATE')}
                                                     className={cn(
@@ -344,6 +374,14 @@ export function Sidebar() {
                         {publicChannels.map((channel) => (
                             <ChannelItem key={channel.id} channel={channel} />
                         ))}
+                        <button
+                            onClick={() => setIsBrowseOpen(true)}
+                            className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-sm opacity-70 hover:opacity-100 hover:bg-sidebar-accent hover:text-sidebar-accent-foreground transition-all"
+                        >
+                            <Compass className="h-4 w-4 shrink-0" />
+                            <span className="flex-1 text-left">Browse channels</span>
+                        </button>
+                        <ChannelBrowser open={isBrowseOpen} onOpenChange={setIsBrowseOpen} />
                     </div>
                 </div>
 
@@ -363,6 +401,15 @@ export function Sidebar() {
                     </div>
                 )}
 
+                {/* Archived Channels */}
+                <ArchivedChannelsList />
+
+                {/* Reminders */}
+                <RemindersList />
+
+                {/* Drafts */}
+                <DraftsList />
+
                 {/* Direct Messages */}
                 <div className="mb-4">
                     <div className="flex items-center justify-between px-2 py-1">
@@ -383,9 +430,24 @@ export function Sidebar() {
                             <DialogContent>
                                 <DialogHeader>
                                     <DialogTitle>New Message</DialogTitle>
-                                    <DialogDescription>Start a conversation with a team member.</DialogDescription>
+                                    <DialogDescription>Start a conversation with one or more team members.</DialogDescription>
                                 </DialogHeader>
                                 <div className="space-y-4 py-4">
+                                    {selectedDMUsers.length > 0 && (
+                                        <div className="flex flex-wrap gap-1">
+                                            {selectedDMUsers.map((id) => {
+                                                const selected = users.find((u) => u.id === id);
+                                                return (
+                                                    <span key={id} className="flex items-center gap-1 rounded-full bg-primary/10 text-primary pl-2 pr-1 py-0.5 text-xs">
+                                                        {selected?.name || 'User'}
+                                                        <button onClick={() => toggleDMUser(id)} aria-label={`Remove ${selected?.name || 'user'}`}>
+                                                            <X className="h-3 w-3" />
+                                                        </button>
+                                                    </span>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
                                     <div className="relative">
                                         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                                         <Input
@@ -401,8 +463,11 @@ export function Sidebar() {
                                                 filteredUsers.map((u) => (
                                                     <button
                                                         key={u.id}
-                                                        onClick={() => handleStartDM(u.id)}
-                                                        className="w-full flex items-center gap-3 p-2 rounded-md hover:bg-accent transition-colors"
+                                                        onClick={() => toggleDMUser(u.id)}
+                                                        className={cn(
+                                                            'w-full flex items-center gap-3 p-2 rounded-md hover:bg-accent transition-colors',
+                                                            selectedDMUsers.includes(u.id) && 'bg-accent'
+                                                        )}
                                                     >
                                                         <div className="relative">
                                                             <Avatar className="h-9 w-9">
@@ -415,10 +480,11 @@ export function Sidebar() {
                                                                 <span className="absolute -bottom-0.5 -right-0.5 h-3 w-3 rounded-full bg-green-500 border-2 border-background" />
                                                             )}
                                                         </div>
-                                                        <div className="text-left">
+                                                        <div className="text-left flex-1 min-w-0">
                                                             <p className="font-medium text-sm">{u.name}</p>
                                                             <p className="text-xs text-muted-foreground">{u.email}</p>
                                                         </div>
+                                                        {selectedDMUsers.includes(u.id) && <Check className="h-4 w-4 text-primary" />}
                                                     </button>
                                                 ))
                                             ) : (
@@ -459,6 +525,14 @@ export function Sidebar() {
                                         </div>
                                     )}
                                 </div>
+                                <DialogFooter>
+                                    <Button variant="outline" onClick={() => setIsDirectMessageOpen(false)}>
+                                        Cancel
+                                    </Button>
+                                    <Button onClick={handleStartDM} disabled={selectedDMUsers.length === 0}>
+                                        {selectedDMUsers.length > 1 ? 'Start group message' : 'Start message'}
+                                    </Button>
+                                </DialogFooter>
                             </DialogContent>
                         </Dialog>
                     </div>
@@ -7,6 +7,9 @@ import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
+import { FormattingToolbar } from '@/components/FormattingToolbar';
+import { MessageContent } from '@/components/MessageContent';
+import { useMarkdownFormatting } from '@/hooks/use-markdown-formatting';
 import { toast } from 'sonner';
 
 interface ThreadMessage {
@@ -30,16 +33,30 @@ interface ThreadData {
 }
 
 export function ThreadPanel() {
-    const { threadPanel, closeThread } = useChatStore();
+    const { threadPanel, closeThread, updateDraft, activeChannel } = useChatStore();
     const { isOpen, parentMessage } = threadPanel;
 
     const [threadData, setThreadData] = useState<ThreadData | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const [inputValue, setInputValue] = useState('');
+    // Threads are opened from the active channel; the panel is remounted per
+    // thread, so its draft is read once here
+    const [channelId] = useState(() => useChatStore.getState().activeChannel?.id);
+    const [inputValue, setInputValue] = useState(() => {
+        const { drafts } = useChatStore.getState();
+        return drafts.find((d) => d.channelId === channelId && d.threadId === parentMessage?.id)?.content || '';
+    });
     const [isSending, setIsSending] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLTextAreaElement>(null);
 
+    const setReply = useCallback((content: string) => {
+        setInputValue(content);
+        if (channelId && parentMessage?.id) {
+            updateDraft(channelId, parentMessage.id, { content });
+        }
+    }, [channelId, parentMessage?.id, updateDraft]);
+    const { format, handleShortcut } = useMarkdownFormatting(inputRef, inputValue, setReply);
+
     const fetchThread = useCallback(async () => {
         if (!parentMessage?.id) return;
         setIsLoading(true);
@@ -86,6 +103,7 @@ export function ThreadPanel() {
                     parent: { ...prev.parent, threadCount: prev.parent.threadCount + 1 },
                 } : null);
                 setInputValue('');
+                if (channelId) updateDraft(channelId, parentMessage.id, { content: '' });
                 if (inputRef.current) {
                     inputRef.current.style.height = 'auto';
                 }
@@ -99,6 +117,8 @@ export function ThreadPanel() {
     };
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (handleShortcut(e)) return;
+
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
             handleSendReply();
@@ -106,7 +126,7 @@ export function ThreadPanel() {
     };
 
     const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-        setInputValue(e.target.value);
+        setReply(e.target.value);
         // Auto-resize
         e.target.style.height = 'auto';
         e.target.style.height = `${Math.min(e.target.scrollHeight, 120)}px`;
@@ -157,7 +177,7 @@ export function ThreadPanel() {
                                                 {formatTime(threadData.parent.createdAt)}
                                             </span>
                                         </div>
-                                        <p className="text-sm mt-1 whitespace-pre-wrap">{threadData.parent.content}</p>
+                                        <MessageContent content={threadData.parent.content} className="text-sm mt-1 break-words" />
                                         {threadData.parent.attachments && threadData.parent.attachments.length > 0 && (
                                             <div className="mt-2 flex flex-wrap gap-2">
                                                 {threadData.parent.attachments.map((att, i) => (
@@ -210,7 +230,7 @@ export function ThreadPanel() {
                                                 <span className="text-xs text-muted-foreground italic">(edited)</span>
                                             )}
                                         </div>
-                                        <p className="text-sm mt-0.5 whitespace-pre-wrap">{reply.content}</p>
+                                        <MessageContent content={reply.content} className="text-sm mt-0.5 break-words" />
                                         {reply.attachments && reply.attachments.length > 0 && (
                                             <div className="mt-2 flex flex-wrap gap-2">
                                                 {reply.attachments.map((att, i) => (
@@ -234,34 +254,43 @@ export function ThreadPanel() {
                         </div>
                     </ScrollArea>
 
-                    {/* Reply input */}
-                    <div className="p-4 border-t">
-                        <div className="flex items-end gap-2">
-                            <div className="flex-1 relative">
-                                <textarea
-                                    ref={inputRef}
-                                    value={inputValue}
-                                    onChange={handleInputChange}
-                                    onKeyDown={handleKeyDown}
-                                    placeholder="Reply to thread..."
-                                    className={cn(
-                                        "w-full min-h-[42px] max-h-[120px] px-4 py-2.5 rounded-lg border border-input",
-                                        "bg-background resize-none focus:outline-none focus:ring-2 focus:ring-ring",
-                                        "text-sm placeholder:text-muted-foreground"
-                                    )}
-                                    rows={1}
-                                />
+                    {/* Reply input; archived channels are read-only */}
+                    {activeChannel?.isArchived ? (
+                        <div className="p-4 border-t text-center text-sm text-muted-foreground">
+                            This channel is archived.
+                        </div>
+                    ) : (
+                        <div className="p-4 border-t">
+                            <div className="mb-1">
+                                <FormattingToolbar onFormat={format} />
+                            </div>
+                            <div className="flex items-end gap-2">
+                                <div className="flex-1 relative">
+                                    <textarea
+                                        ref={inputRef}
+                                        value={inputValue}
+                                        onChange={handleInputChange}
+                                        onKeyDown={handleKeyDown}
+                                        placeholder="Reply to thread..."
+                                        className={cn(
+                                            "w-full min-h-[42px] max-h-[120px] px-4 py-2.5 rounded-lg border border-input",
+                                            "bg-background resize-none focus:outline-none focus:ring-2 focus:ring-ring",
+                                            "text-sm placeholder:text-muted-foreground"
+                                        )}
+                                        rows={1}
+                                    />
+                                </div>
+                                <Button
+                                    size="icon"
+                                    className="h-[42px] w-[42px] rounded-lg"
+                                    onClick={handleSendReply}
+                                    disabled={!inputValue.trim() || isSending}
+                                >
+                                    <Send className={cn("h-4 w-4", isSending && "animate-pulse")} />
+                                </Button>
                             </div>
-                            <Button
-                                size="icon"
-                                className="h-[42px] w-[42px] rounded-lg"
-                                onClick={handleSendReply}
-                                disabled={!inputValue.trim() || isSending}
-                            >
-                                <Send className={cn("h-4 w-4", isSending && "animate-pulse")} />
-                            </Button>
                         </div>
-                    </div>
+                    )}
                 </>
             ) : (
                 <div className="flex-1 flex items-center justify-center">
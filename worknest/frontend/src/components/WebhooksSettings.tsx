@@ -0,0 +1,442 @@
+import { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, KeyRound, Loader2, Plus, RotateCcw, Send, Trash2, Webhook as WebhookIcon } from 'lucide-react';
+import { webhooksApi } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+    SUCCESS: 'bg-green-500/15 text-green-600 dark:text-green-500',
+    PENDING: 'bg-amber-500/15 text-amber-600 dark:text-amber-500',
+    FAILED: 'bg-destructive/15 text-destructive',
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+    axios.isAxiosError(err) ? err.response?.data?.error || err.message : fallback;
+
+/**
+ * Admin settings for outgoing webhooks: subscriptions, secrets and the
+ * delivery log
+ */
+export function WebhooksSettings() {
+    const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+    const [events, setEvents] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const [isCreateOpen, setIsCreateOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [url, setUrl] = useState('');
+    const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Secrets are only returned on create and rotate, so show them once
+    const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+
+    const [selectedWebhookId, setSelectedWebhookId] = useState<string | null>(null);
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+    const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | 'ALL'>('ALL');
+    const [isLoadingDeliveries, setIsLoadingDeliveries] = useState(false);
+    const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+
+    const fetchWebhooks = useCallback(async () => {
+        try {
+            const response = await webhooksApi.getAll();
+            setWebhooks(response.data.data.webhooks);
+            setEvents(response.data.data.events);
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to load webhooks'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    const fetchDeliveries = useCallback(async (webhookId: string, status: WebhookDeliveryStatus | 'ALL') => {
+        setIsLoadingDeliveries(true);
+        try {
+            const response = await webhooksApi.getDeliveries(webhookId, {
+                status: status === 'ALL' ? undefined : status,
+            });
+            setDeliveries(response.data.data.deliveries);
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to load deliveries'));
+        } finally {
+            setIsLoadingDeliveries(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchWebhooks();
+    }, [fetchWebhooks]);
+
+    useEffect(() => {
+        if (selectedWebhookId) {
+            fetchDeliveries(selectedWebhookId, statusFilter);
+        }
+    }, [selectedWebhookId, statusFilter, fetchDeliveries]);
+
+    const resetForm = () => {
+        setName('');
+        setUrl('');
+        setSelectedEvents([]);
+    };
+
+    const toggleEvent = (event: string) => {
+        setSelectedEvents((prev) => {
+            if (event === '*') return prev.includes('*') ? [] : ['*'];
+            const withoutAll = prev.filter((e) => e !== '*');
+            return withoutAll.includes(event)
+                ? withoutAll.filter((e) => e !== event)
+                : [...withoutAll, event];
+        });
+    };
+
+    const handleCreate = async () => {
+        setIsSaving(true);
+        try {
+            const response = await webhooksApi.create({ name, url, events: selectedEvents });
+            setWebhooks((prev) => [response.data.data.webhook, ...prev]);
+            setRevealedSecret(response.data.data.secret);
+            setIsCreateOpen(false);
+            resetForm();
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to create webhook'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const replaceWebhook = (updated: Webhook) => {
+        setWebhooks((prev) => prev.map((w) => (w.id === updated.id ? updated : w)));
+    };
+
+    const handleToggle = async (webhook: Webhook) => {
+        try {
+            const response = await webhooksApi.update(webhook.id, { isActive: !webhook.isActive });
+            replaceWebhook(response.data.data);
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to update webhook'));
+        }
+    };
+
+    const handleTest = async (webhook: Webhook) => {
+        try {
+            await webhooksApi.test(webhook.id);
+            toast.success('Test event sent');
+            if (selectedWebhookId === webhook.id) {
+                fetchDeliveries(webhook.id, statusFilter);
+            }
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to send test event'));
+        }
+    };
+
+    const handleRotate = async (webhook: Webhook) => {
+        if (!window.confirm(`Rotate the signing secret for "${webhook.name}"? The old secret stops working immediately.`)) return;
+        try {
+            const response = await webhooksApi.rotateSecret(webhook.id);
+            replaceWebhook(response.data.data.webhook);
+            setRevealedSecret(response.data.data.secret);
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to rotate secret'));
+        }
+    };
+
+    const handleDelete = async (webhook: Webhook) => {
+        if (!window.confirm(`Delete "${webhook.name}" and its delivery log?`)) return;
+        try {
+            await webhooksApi.delete(webhook.id);
+            setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+            if (selectedWebhookId === webhook.id) setSelectedWebhookId(null);
+            toast.success('Webhook deleted');
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to delete webhook'));
+        }
+    };
+
+    const handleReplay = async (delivery: WebhookDelivery) => {
+        try {
+            const response = await webhooksApi.replayDelivery(delivery.webhookId, delivery.id);
+            toast.success(response.data.message);
+            fetchDeliveries(delivery.webhookId, statusFilter);
+        } catch (err) {
+            toast.error(errorMessage(err, 'Failed to replay delivery'));
+        }
+    };
+
+    const selectedWebhook = webhooks.find((w) => w.id === selectedWebhookId);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold">Integrations</h2>
+                    <p className="text-muted-foreground">Send signed workspace events to your own services.</p>
+                </div>
+                <Button onClick={() => setIsCreateOpen(true)} className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Add webhook
+                </Button>
+            </div>
+
+            <Card className="glass-card">
+                <CardHeader>
+                    <CardTitle>Outgoing Webhooks</CardTitle>
+                    <CardDescription>
+                        Each event is POSTed as JSON with an <code className="text-xs">X-WorkNest-Signature</code> header.
+                        Failed deliveries are retried with backoff; webhooks that keep failing are disabled.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                        </div>
+                    ) : webhooks.length === 0 ? (
+                        <div className="py-8 text-center text-sm text-muted-foreground">
+                            <WebhookIcon className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                            No webhooks yet.
+                        </div>
+                    ) : (
+                        webhooks.map((webhook) => (
+                            <div
+                                key={webhook.id}
+                                className={cn(
+                                    'border rounded-lg p-4 space-y-3 bg-background/50',
+                                    selectedWebhookId === webhook.id && 'border-primary/50'
+                                )}
+                            >
+                                <div className="flex items-start justify-between gap-4">
+                                    <div className="min-w-0">
+                                        <p className="font-medium truncate">{webhook.name}</p>
+                                        <p className="text-xs text-muted-foreground truncate">{webhook.url}</p>
+                                    </div>
+                                    <Switch checked={webhook.isActive} onCheckedChange={() => handleToggle(webhook)} />
+                                </div>
+
+                                <div className="flex flex-wrap gap-1">
+                                    {webhook.events.map((event) => (
+                                        <span key={event} className="text-[10px] font-mono bg-muted px-1.5 py-0.5 rounded">
+                                            {event === '*' ? 'all events' : event}
+                                        </span>
+                                    ))}
+                                </div>
+
+                                {!webhook.isActive && webhook.disabledReason && (
+                                    <p className="text-xs text-destructive">{webhook.disabledReason}</p>
+                                )}
+                                {webhook.lastDeliveryAt && (
+                                    <p className="text-xs text-muted-foreground">
+                                        Last delivery {formatDistanceToNow(new Date(webhook.lastDeliveryAt), { addSuffix: true })}
+                                        {webhook.consecutiveFailures > 0 && ` • ${webhook.consecutiveFailures} failed in a row`}
+                                    </p>
+                                )}
+
+                                <div className="flex flex-wrap gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => setSelectedWebhookId(selectedWebhookId === webhook.id ? null : webhook.id)}
+                                    >
+                                        {selectedWebhookId === webhook.id ? 'Hide deliveries' : 'Deliveries'}
+                                    </Button>
+                                    <Button variant="outline" size="sm" className="gap-1" disabled={!webhook.isActive} onClick={() => handleTest(webhook)}>
+                                        <Send className="h-3 w-3" />
+                                        Test
+                                    </Button>
+                                    <Button variant="outline" size="sm" className="gap-1" onClick={() => handleRotate(webhook)}>
+                                        <KeyRound className="h-3 w-3" />
+                                        Rotate secret
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="gap-1 text-destructive hover:bg-destructive/10"
+                                        onClick={() => handleDelete(webhook)}
+                                    >
+                                        <Trash2 className="h-3 w-3" />
+                                        Delete
+                                    </Button>
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </CardContent>
+            </Card>
+
+            {selectedWebhook && (
+                <Card className="glass-card">
+                    <CardHeader>
+                        <div className="flex items-center justify-between gap-4">
+                            <div>
+                                <CardTitle>Delivery Log</CardTitle>
+                                <CardDescription>Recent deliveries to {selectedWebhook.name}, kept for 30 days.</CardDescription>
+                            </div>
+                            <div className="flex gap-1">
+                                {(['ALL', 'SUCCESS', 'PENDING', 'FAILED'] as const).map((status) => (
+                                    <Button
+                                        key={status}
+                                        variant={statusFilter === status ? 'secondary' : 'ghost'}
+                                        size="sm"
+                                        className="text-xs capitalize"
+                                        onClick={() => setStatusFilter(status)}
+                                    >
+                                        {status.toLowerCase()}
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                        {isLoadingDeliveries ? (
+                            <div className="flex justify-center py-6">
+                                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                            </div>
+                        ) : deliveries.length === 0 ? (
+                            <p className="py-6 text-center text-sm text-muted-foreground">No deliveries.</p>
+                        ) : (
+                            deliveries.map((delivery) => (
+                                <div key={delivery.id} className="border rounded-lg bg-background/50">
+                                    <button
+                                        className="w-full p-3 flex items-center justify-between gap-3 text-left"
+                                        onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+                                    >
+                                        <div className="flex items-center gap-3 min-w-0">
+                                            <span className={cn('text-[10px] font-bold px-2 py-0.5 rounded-full', STATUS_STYLES[delivery.status])}>
+                                                {delivery.status}
+                                            </span>
+                                            <span className="font-mono text-xs truncate">{delivery.event}</span>
+                                            {delivery.replayOf && <span className="text-[10px] text-muted-foreground">replay</span>}
+                                        </div>
+                                        <span className="text-xs text-muted-foreground shrink-0">
+                                            {delivery.responseStatus ? `HTTP ${delivery.responseStatus} • ` : ''}
+                                            {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                                        </span>
+                                    </button>
+                                    {expandedDeliveryId === delivery.id && (
+                                        <div className="border-t p-3 space-y-2 text-xs">
+                                            <p className="text-muted-foreground">
+                                                {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                                                {delivery.durationMs != null && ` • ${delivery.durationMs} ms`}
+                                                {delivery.status === 'PENDING' && delivery.nextAttemptAt &&
+                                                    ` • next retry ${formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}`}
+                                            </p>
+                                            {delivery.error && <p className="text-destructive">{delivery.error}</p>}
+                                            <pre className="bg-muted rounded p-2 overflow-x-auto max-h-48">
+                                                {JSON.stringify(delivery.payload, null, 2)}
+                                            </pre>
+                                            {delivery.responseBody && (
+                                                <pre className="bg-muted rounded p-2 overflow-x-auto max-h-32 whitespace-pre-wrap">
+                                                    {delivery.responseBody}
+                                                </pre>
+                                            )}
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                className="gap-1"
+                                                disabled={!selectedWebhook.isActive}
+                                                onClick={() => handleReplay(delivery)}
+                                            >
+                                                <RotateCcw className="h-3 w-3" />
+                                                Replay
+                                            </Button>
+                                        </div>
+                                    )}
+                                </div>
+                            ))
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
+            <Dialog open={isCreateOpen} onOpenChange={(open) => { setIsCreateOpen(open); if (!open) resetForm(); }}>
+                <DialogContent className="max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Add webhook</DialogTitle>
+                        <DialogDescription>Choose where events are sent and which events to subscribe to.</DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="webhook-name">Name</Label>
+                            <Input id="webhook-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Deploy bot" />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="webhook-url">Endpoint URL</Label>
+                            <Input id="webhook-url" value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://example.com/hooks/worknest" />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Events</Label>
+                            <div className="grid grid-cols-2 gap-2 max-h-56 overflow-y-auto pr-1">
+                                {['*', ...events].map((event) => (
+                                    <label key={event} className="flex items-center gap-2 text-sm cursor-pointer">
+                                        <Checkbox
+                                            checked={selectedEvents.includes(event) || (event !== '*' && selectedEvents.includes('*'))}
+                                            disabled={event !== '*' && selectedEvents.includes('*')}
+                                            onCheckedChange={() => toggleEvent(event)}
+                                        />
+                                        <span className={cn(event !== '*' && 'font-mono text-xs')}>
+                                            {event === '*' ? 'All events' : event}
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+                        <Button
+                            onClick={handleCreate}
+                            disabled={isSaving || !name.trim() || !url.trim() || selectedEvents.length === 0}
+                        >
+                            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Create
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog open={!!revealedSecret} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+                <DialogContent className="max-w-lg">
+                    <DialogHeader>
+                        <DialogTitle>Signing secret</DialogTitle>
+                        <DialogDescription>
+                            Copy this secret now; it won't be shown again. Verify each request by computing
+                            HMAC-SHA256 of <code className="text-xs">{'{timestamp}.{body}'}</code> with it.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="flex gap-2">
+                        <Input readOnly value={revealedSecret || ''} className="font-mono text-xs" />
+                        <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => {
+                                navigator.clipboard.writeText(revealedSecret || '');
+                                toast.success('Secret copied');
+                            }}
+                        >
+                            <Copy className="h-4 w-4" />
+                        </Button>
+                    </div>
+                    <DialogFooter>
+                        <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
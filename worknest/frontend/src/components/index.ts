@@ -10,3 +10,12 @@ export { VoiceMessage } from "./VoiceMessage";
 export { KanbanBoard } from "./KanbanBoard";
 export { WikiView } from "./wiki/WikiView";
 export { CanvasView } from "./CanvasView";
+export { PasswordRequirements } from "./PasswordRequirements";
+export { WebhooksSettings } from "./WebhooksSettings";
+export { MembersSettings } from "./MembersSettings";
+export { ScheduleMessageDialog, ScheduledMessagesDialog } from "./ScheduledMessages";
+export { RemindersList } from './Reminders';
+export { DraftsList } from './Drafts';
+export { PollCard, CreatePollDialog } from './Polls';
+export { MessageContent } from './MessageContent';
+export { FormattingToolbar } from './FormattingToolbar';
@@ -0,0 +1,42 @@
+import { useCallback, type KeyboardEvent, type RefObject } from "react";
+import { applyFormat, getFormatShortcut, type FormatAction } from "@/lib/markdown";
+
+/**
+ * Formatting for a composer textarea: `format` applies an action to the
+ * selection and `handleShortcut` handles the keyboard shortcuts, returning
+ * true when the key press was one
+ */
+export function useMarkdownFormatting(
+  inputRef: RefObject<HTMLTextAreaElement | null>,
+  value: string,
+  setValue: (value: string) => void
+) {
+  const format = useCallback(
+    (action: FormatAction) => {
+      const input = inputRef.current;
+      if (!input) return;
+
+      const next = applyFormat(value, input.selectionStart, input.selectionEnd, action);
+      setValue(next.value);
+      // Restore the selection once React has rendered the new value
+      setTimeout(() => {
+        input.focus();
+        input.setSelectionRange(next.selectionStart, next.selectionEnd);
+      }, 0);
+    },
+    [inputRef, value, setValue]
+  );
+
+  const handleShortcut = useCallback(
+    (e: KeyboardEvent): boolean => {
+      const action = getFormatShortcut(e);
+      if (!action) return false;
+      e.preventDefault();
+      format(action);
+      return true;
+    },
+    [format]
+  );
+
+  return { format, handleShortcut };
+}
@@ -0,0 +1,10 @@
+import { useAuthStore } from "@/store";
+import { resolveTimezone } from "@/lib/timezone";
+
+/**
+ * The timezone from the user's profile, falling back to the browser's
+ */
+export function useUserTimezone(): string {
+  const { user } = useAuthStore();
+  return resolveTimezone(user?.profile?.timezone);
+}
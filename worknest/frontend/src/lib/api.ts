@@ -1,5 +1,12 @@
 import axios from "axios";
-import { UserSettings, OrganizationSettings } from "@/types";
+import {
+  UserSettings,
+  OrganizationSettings,
+  SearchType,
+  SearchFilterParams,
+  WebhookDeliveryStatus,
+  DraftAttachment,
+} from "@/types";
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:5000";
 
@@ -32,10 +39,83 @@ api.interceptors.request.use(
   }
 );
 
+// Access tokens are short-lived; concurrent 401s share one refresh request
+let refreshPromise: Promise<string | null> | null = null;
+
+const requestRefresh = async (): Promise<string | null> => {
+  const refreshToken = localStorage.getItem("refreshToken");
+  if (!refreshToken) return null;
+
+  const subdomain = localStorage.getItem("subdomain");
+  try {
+    const { data } = await axios.post(
+      `${API_BASE_URL}/api/auth/refresh`,
+      { refreshToken },
+      {
+        withCredentials: true,
+        headers: subdomain ? { "X-Organization-Subdomain": subdomain } : {},
+      }
+    );
+    localStorage.setItem("token", data.data.token);
+    // No refresh token comes back when another tab rotated it a moment ago;
+    // the one that tab stored stays in use
+    if (data.data.refreshToken) {
+      localStorage.setItem("refreshToken", data.data.refreshToken);
+    }
+    return data.data.token as string;
+  } catch {
+    // Another tab may have stored a newer refresh token in the meantime
+    if (localStorage.getItem("refreshToken") === refreshToken) {
+      localStorage.removeItem("refreshToken");
+    }
+    return null;
+  }
+};
+
+// Tabs share the tokens in localStorage, so only one of them refreshes at a
+// time. A tab that waited on the lock reuses the token the other one got.
+const refreshAcrossTabs = async (): Promise<string | null> => {
+  if (!navigator.locks) return requestRefresh();
+
+  const staleToken = localStorage.getItem("token");
+  return await navigator.locks.request("worknest-token-refresh", async () => {
+    const token = localStorage.getItem("token");
+    if (token && token !== staleToken) return token;
+    return requestRefresh();
+  });
+};
+
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = refreshAcrossTabs().finally(() => {
+    refreshPromise = null;
+  });
+
+  return refreshPromise;
+};
+
 // Response interceptor to handle errors
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
+  async (error) => {
+    const originalRequest = error.config;
+
+    // Renew an expired access token once and replay the request
+    if (
+      error.response?.status === 401 &&
+      error.response?.data?.code === "TOKEN_EXPIRED" &&
+      originalRequest &&
+      !originalRequest._retry
+    ) {
+      originalRequest._retry = true;
+      const token = await refreshAccessToken();
+      if (token) {
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return api(originalRequest);
+      }
+    }
+
     if (error.response?.status === 401) {
       // Get current path
       const currentPath = window.location.pathname;
@@ -45,6 +125,7 @@ api.interceptors.response.use(
       // This prevents redirect loops when fetchUser() fails on protected routes
       if (!publicRoutes.includes(currentPath)) {
         localStorage.removeItem("token");
+        localStorage.removeItem("refreshToken");
         localStorage.removeItem("user");
         localStorage.removeItem("subdomain");
         // Don't force redirect - let React Router handle it naturally via isAuthenticated state
@@ -77,6 +158,18 @@ export const authApi = {
 
   changePassword: (data: { currentPassword: string; newPassword: string }) =>
     api.post("/auth/change-password", data),
+
+  refresh: (refreshToken: string) =>
+    api.post("/auth/refresh", { refreshToken }),
+
+  exchange: (code: string) => api.post("/auth/exchange", { code }),
+
+  logout: (refreshToken: string) => api.post("/auth/logout", { refreshToken }),
+
+  getPasswordPolicy: (invitationToken?: string) =>
+    api.get("/auth/password-policy", {
+      params: invitationToken ? { token: invitationToken } : undefined,
+    }),
 };
 
 // Channels API
@@ -92,15 +185,47 @@ export const channelsApi = {
     members?: string[];
   }) => api.post("/channels", data),
 
+  update: (
+    id: string,
+    data: {
+      name?: string;
+      description?: string;
+      topic?: string;
+      type?: "PUBLIC" | "PRIVATE";
+    }
+  ) => api.put(`/channels/${id}`, data),
+
+  getArchived: () => api.get("/channels", { params: { archived: true } }),
+
+  archive: (id: string) => api.post(`/channels/${id}/archive`),
+
+  unarchive: (id: string) => api.post(`/channels/${id}/unarchive`),
+
+  // Permanent: only archived channels can be deleted
   delete: (id: string) => api.delete(`/channels/${id}`),
 
+  getDeletion: (id: string) => api.get(`/channels/${id}/deletion`),
+
+  browse: (params: { q?: string; sort?: string; page?: number }) =>
+    api.get("/channels/browse", { params }),
+
+  preview: (id: string) => api.get(`/channels/${id}/preview`),
+
+  join: (id: string) => api.post(`/channels/${id}/join`),
+
+  leave: (id: string) => api.post(`/channels/${id}/leave`),
+
   addMember: (channelId: string, userId: string) =>
     api.post(`/channels/${channelId}/members`, { userId }),
 
   removeMember: (channelId: string, userId: string) =>
     api.delete(`/channels/${channelId}/members/${userId}`),
 
-  createDM: (userId: string) => api.post("/channels/dm", { userId }),
+  // One person starts a DM, several a group DM
+  createDM: (userIds: string[]) => api.post("/channels/dm", { userIds }),
+
+  convertToChannel: (id: string, name: string) =>
+    api.post(`/channels/${id}/convert`, { name }),
 
   getFiles: (channelId: string, type?: string) =>
     api.get(`/channels/${channelId}/files`, { params: type ? { type } : {} }),
@@ -113,6 +238,23 @@ export const channelsApi = {
       sound?: string;
     }
   ) => api.put(`/channels/${id}/notifications`, data),
+  getIncomingWebhooks: (id: string) =>
+    api.get(`/channels/${id}/incoming-webhooks`),
+  createIncomingWebhook: (
+    id: string,
+    data: { name: string; avatar?: string | null }
+  ) => api.post(`/channels/${id}/incoming-webhooks`, data),
+  updateIncomingWebhook: (
+    id: string,
+    webhookId: string,
+    data: { name?: string; avatar?: string | null; isActive?: boolean }
+  ) => api.put(`/channels/${id}/incoming-webhooks/${webhookId}`, data),
+  deleteIncomingWebhook: (id: string, webhookId: string) =>
+    api.delete(`/channels/${id}/incoming-webhooks/${webhookId}`),
+  regenerateIncomingWebhook: (id: string, webhookId: string) =>
+    api.post(`/channels/${id}/incoming-webhooks/${webhookId}/regenerate`),
+  updateRetention: (id: string, retentionDays: number | null) =>
+    api.put(`/channels/${id}/retention`, { retentionDays }),
   updateColumns: (
     id: string,
     columns: { id: string; title: string; order: number }[]
@@ -141,6 +283,9 @@ export const messagesApi = {
 
   markRead: (channelId: string) => api.post(`/messages/${channelId}/read`),
 
+  getReadState: (channelId: string) =>
+    api.get(`/messages/${channelId}/read-state`),
+
   search: (channelId: string, query: string) =>
     api.get(`/messages/${channelId}/search`, { params: { q: query } }),
 
@@ -159,6 +304,73 @@ export const messagesApi = {
   ) => api.post(`/messages/${messageId}/thread`, data),
 };
 
+// Scheduled Messages API
+// `sendAt` is a local "YYYY-MM-DDTHH:mm" time in `timezone`
+export const scheduledMessagesApi = {
+  getAll: (channelId?: string) =>
+    api.get("/scheduled-messages", { params: channelId ? { channelId } : {} }),
+  create: (data: {
+    channelId: string;
+    content: string;
+    sendAt: string;
+    timezone?: string;
+  }) => api.post("/scheduled-messages", data),
+  update: (
+    id: string,
+    data: { content?: string; sendAt?: string; timezone?: string }
+  ) => api.put(`/scheduled-messages/${id}`, data),
+  delete: (id: string) => api.delete(`/scheduled-messages/${id}`),
+};
+
+// Reminders API
+export const remindersApi = {
+  getAll: () => api.get("/reminders"),
+  // `when` is "in 2 hours", "tomorrow at 9am" and the like
+  create: (data: {
+    when: string;
+    text?: string;
+    messageId?: string;
+    channelId?: string;
+  }) => api.post("/reminders", data),
+  snooze: (id: string, when: string) =>
+    api.post(`/reminders/${id}/snooze`, { when }),
+  complete: (id: string) => api.post(`/reminders/${id}/complete`),
+  delete: (id: string) => api.delete(`/reminders/${id}`),
+};
+
+// Polls API
+export const pollsApi = {
+  create: (data: {
+    channelId: string;
+    question: string;
+    options: string[];
+    multipleChoice: boolean;
+    anonymous: boolean;
+    closesAt?: string | null;
+  }) => api.post("/polls", data),
+  vote: (messageId: string, optionIds: string[]) =>
+    api.put(`/polls/${messageId}/votes`, { optionIds }),
+  close: (messageId: string) => api.post(`/polls/${messageId}/close`),
+};
+
+// Drafts API
+export const draftsApi = {
+  getAll: () => api.get("/drafts"),
+  save: (
+    channelId: string,
+    data: {
+      threadId?: string | null;
+      content: string;
+      replyToId?: string | null;
+      attachments: DraftAttachment[];
+    }
+  ) => api.put(`/drafts/${channelId}`, data),
+  delete: (channelId: string, threadId?: string | null) =>
+    api.delete(`/drafts/${channelId}`, {
+      params: threadId ? { threadId } : {},
+    }),
+};
+
 // Uploads API
 export const uploadsApi = {
   uploadFile: (file: File) => {
@@ -194,6 +406,9 @@ export const usersApi = {
   delete: (id: string) => api.delete(`/users/${id}`),
   deleteMe: () => api.delete("/users/me"),
 
+  promote: (id: string) => api.post(`/users/${id}/promote`),
+  demote: (id: string) => api.post(`/users/${id}/demote`),
+
   updateStatus: (data: {
     text?: string;
     emoji?: string;
@@ -223,6 +438,20 @@ export const settingsApi = {
     };
   }) => api.put("/settings/organization", data),
   forceLogoutAll: () => api.post("/settings/organization/force-logout"),
+  getRetentionReport: () =>
+    api.get("/settings/organization/retention/report"),
+  runRetention: () => api.post("/settings/organization/retention/run"),
+  backfillDefaultChannels: (channels?: string[]) =>
+    api.post("/settings/organization/default-channels/backfill", { channels }),
+  getOwnership: () => api.get("/settings/organization/ownership"),
+  transferOwnership: (userId: string) =>
+    api.post("/settings/organization/ownership/transfer", { userId }),
+  cancelOwnershipTransfer: () =>
+    api.delete("/settings/organization/ownership/transfer"),
+  acceptOwnershipTransfer: (token: string) =>
+    api.post("/settings/organization/ownership/accept", { token }),
+  getAuditLog: (before?: string) =>
+    api.get("/settings/organization/audit-log", { params: { before } }),
   updateUser: (data: {
     statusMessage?: string;
     settings?: {
@@ -232,6 +461,9 @@ export const settingsApi = {
     };
   }) => api.put("/settings/user", data),
   logoutDevices: () => api.post("/settings/user/logout-devices"),
+  getSessions: () => api.get("/settings/user/sessions"),
+  revokeSession: (sessionId: string) =>
+    api.delete(`/settings/user/sessions/${sessionId}`),
 };
 
 // Search API
@@ -242,11 +474,32 @@ export const searchApi = {
     userId?: string;
     startDate?: string;
     endDate?: string;
-    type?: "all" | "messages" | "files";
+    type?: SearchType;
     page?: number;
     limit?: number;
   }) => api.get("/search", { params }),
   getHistory: () => api.get("/search/history"),
+  recordHistory: (data: { query: string; filters?: SearchFilterParams }) =>
+    api.post("/search/history", data),
+  clearHistory: () => api.delete("/search/history"),
+  deleteHistoryEntry: (id: string) => api.delete(`/search/history/${id}`),
+  getSavedSearches: () => api.get("/search/saved"),
+  createSavedSearch: (data: {
+    name: string;
+    query: string;
+    filters?: SearchFilterParams;
+    notify?: boolean;
+  }) => api.post("/search/saved", data),
+  updateSavedSearch: (
+    id: string,
+    data: {
+      name?: string;
+      query?: string;
+      filters?: SearchFilterParams;
+      notify?: boolean;
+    }
+  ) => api.put(`/search/saved/${id}`, data),
+  deleteSavedSearch: (id: string) => api.delete(`/search/saved/${id}`),
 };
 
 // Wiki API
@@ -284,4 +537,37 @@ export const wikiApi = {
   ) => api.post(`/wiki/channel/${channelId}/reorder`, { pages }),
 };
 
+// Webhooks API (admin only)
+export const webhooksApi = {
+  getAll: () => api.get("/webhooks"),
+  create: (data: { name: string; url: string; events: string[] }) =>
+    api.post("/webhooks", data),
+  update: (
+    id: string,
+    data: { name?: string; url?: string; events?: string[]; isActive?: boolean }
+  ) => api.put(`/webhooks/${id}`, data),
+  delete: (id: string) => api.delete(`/webhooks/${id}`),
+  rotateSecret: (id: string) => api.post(`/webhooks/${id}/rotate-secret`),
+  test: (id: string) => api.post(`/webhooks/${id}/test`),
+  getDeliveries: (
+    id: string,
+    params?: { status?: WebhookDeliveryStatus; page?: number; limit?: number }
+  ) => api.get(`/webhooks/${id}/deliveries`, { params }),
+  replayDelivery: (id: string, deliveryId: string) =>
+    api.post(`/webhooks/${id}/deliveries/${deliveryId}/replay`),
+};
+
+// Slash Commands API
+export const commandsApi = {
+  getAll: (channelId?: string) =>
+    api.get("/commands", { params: { channelId } }),
+  execute: (channelId: string, text: string) =>
+    api.post("/commands/execute", { channelId, text }),
+};
+
+// Ephemeral Messages API
+export const ephemeralApi = {
+  runAction: (token: string) => api.post("/ephemeral/actions", { token }),
+};
+
 export default api;
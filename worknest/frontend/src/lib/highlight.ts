@@ -0,0 +1,93 @@
+/**
+ * A small syntax highlighter for code blocks in messages. It only knows
+ * comments, strings, numbers and keywords, which is enough to make a snippet
+ * readable without shipping a full grammar per language.
+ */
+
+export type CodeTokenKind = "comment" | "string" | "number" | "keyword" | "plain";
+
+export interface CodeToken {
+  kind: CodeTokenKind;
+  text: string;
+}
+
+const C_LIKE =
+  "break case catch class const continue default do else enum export extends false finally for if import in instanceof new null return static super switch this throw true try void while";
+
+const KEYWORDS: Record<string, string> = {
+  js: `${C_LIKE} async await function let of typeof undefined var yield from as`,
+  ts: `${C_LIKE} async await function let of typeof undefined var yield from as interface type implements private public protected readonly keyof any unknown never`,
+  python:
+    "and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return True try while with yield self",
+  go: "break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var nil true false",
+  rust: "as async await break const continue crate else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while",
+  java: `${C_LIKE} abstract boolean byte char double final float implements int interface long package private protected public short synchronized throws`,
+  c: `${C_LIKE} auto char double extern float goto int long register short signed sizeof struct typedef union unsigned volatile include define`,
+  sql: "select from where and or not insert into values update set delete create table drop alter index join left right inner outer on group by order having limit offset as distinct null is in like between case when then else end primary key",
+  sh: "if then else elif fi for while do done case esac in function return export local echo exit",
+};
+
+const ALIASES: Record<string, string> = {
+  javascript: "js",
+  jsx: "js",
+  typescript: "ts",
+  tsx: "ts",
+  py: "python",
+  golang: "go",
+  rs: "rust",
+  kotlin: "java",
+  "c++": "c",
+  cpp: "c",
+  "c#": "java",
+  csharp: "java",
+  bash: "sh",
+  shell: "sh",
+  zsh: "sh",
+};
+
+// Languages whose line comments start with #
+const HASH_COMMENTS = new Set(["python", "sh", "yaml", "yml", "ruby", "rb"]);
+
+export function highlightCode(code: string, language: string): CodeToken[] {
+  const lang = ALIASES[language] || language;
+  const keywords = new Set((KEYWORDS[lang] || KEYWORDS.js).split(" "));
+  const comment = HASH_COMMENTS.has(lang)
+    ? "#[^\\n]*"
+    : lang === "sql"
+      ? "--[^\\n]*"
+      : "\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/";
+  const pattern = new RegExp(
+    [
+      `(${comment})`,
+      "(\"(?:[^\"\\\\\\n]|\\\\.)*\"|'(?:[^'\\\\\\n]|\\\\.)*'|`(?:[^`\\\\]|\\\\.)*`)",
+      "(\\b\\d+(?:\\.\\d+)?\\b)",
+      "([A-Za-z_$][\\w$]*)",
+    ].join("|"),
+    "g"
+  );
+
+  const tokens: CodeToken[] = [];
+  let last = 0;
+  const push = (kind: CodeTokenKind, text: string) => {
+    const previous = tokens[tokens.length - 1];
+    if (previous && previous.kind === kind) previous.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  for (const match of code.matchAll(pattern)) {
+    const index = match.index!;
+    if (index > last) push("plain", code.slice(last, index));
+
+    const [text, comment, string, number, word] = match;
+    if (comment) push("comment", text);
+    else if (string) push("string", text);
+    else if (number) push("number", text);
+    else if (word && keywords.has(lang === "sql" ? word.toLowerCase() : word)) push("keyword", text);
+    else push("plain", text);
+
+    last = index + text.length;
+  }
+  if (last < code.length) push("plain", code.slice(last));
+
+  return tokens;
+}
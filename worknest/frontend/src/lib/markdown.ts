@@ -0,0 +1,318 @@
+/**
+ * The markdown subset chat messages support: bold, italic, strike, inline
+ * code, fenced code blocks, block quotes, lists and links. Messages are
+ * parsed into a tree that is rendered as React elements, never as HTML, so
+ * nothing in a message can inject markup.
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "bold" | "italic" | "strike"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "code"; language: string; code: string }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | { type: "list"; ordered: boolean; start: number; items: MarkdownInline[][] };
+
+const FENCE = /^\s*```\s*([\w+#.-]*)\s*$/;
+const QUOTE = /^\s*>\s?/;
+const BULLET = /^\s*[-*•]\s+/;
+const NUMBERED = /^\s*(\d{1,9})[.)]\s+/;
+
+// The server escapes < and > in message text; these are shown as characters
+const ENTITIES: Record<string, string> = {
+  "&lt;": "<",
+  "&gt;": ">",
+  "&amp;": "&",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&#x27;": "'",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(?:lt|gt|amp|quot|#39|#x27);/g, (entity) => ENTITIES[entity]);
+}
+
+export function parseMarkdown(content: string): MarkdownBlock[] {
+  return parseBlocks(decodeEntities(content).split("\n"));
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    // Single line breaks are kept, as they are in plain chat messages
+    const text = paragraph.join("\n").replace(/^\n+|\n+$/g, "");
+    if (text) blocks.push({ type: "paragraph", children: parseInline(text) });
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // ```code``` on a single line
+    const inlineFence = line.match(/^\s*```([^`]+)```\s*$/);
+    if (inlineFence) {
+      flushParagraph();
+      blocks.push({ type: "code", language: "", code: inlineFence[1] });
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      // An unclosed fence runs to the end of the message
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: "code", language: fence[1].toLowerCase(), code: code.join("\n") });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(QUOTE, ""));
+        i++;
+      }
+      blocks.push({ type: "quote", children: parseBlocks(quoted) });
+      continue;
+    }
+
+    const numbered = line.match(NUMBERED);
+    if (BULLET.test(line) || numbered) {
+      flushParagraph();
+      const pattern = numbered ? NUMBERED : BULLET;
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        items.push(parseInline(lines[i].replace(pattern, "")));
+        i++;
+      }
+      blocks.push({
+        type: "list",
+        ordered: !!numbered,
+        start: numbered ? parseInt(numbered[1], 10) : 1,
+        items,
+      });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+// Characters that end a bare URL rather than belong to it
+const URL_END = `[^\\s<>.,:;"')\\]!?]`;
+
+// In priority order: an earlier pattern wins when two start at the same place
+const INLINE_PATTERNS: { type: MarkdownInline["type"]; pattern: RegExp }[] = [
+  { type: "code", pattern: /`([^`\n]+)`/ },
+  { type: "link", pattern: /\[([^\]\n]+)\]\(((?:https?:\/\/|mailto:)[^\s)]+)\)/ },
+  {
+    type: "link",
+    pattern: new RegExp(`\\b((?:https?:\\/\\/|www\\.)[^\\s<>]*${URL_END})`),
+  },
+  { type: "bold", pattern: /\*\*(?=\S)([\s\S]*?\S)\*\*/ },
+  { type: "strike", pattern: /~~(?=\S)([\s\S]*?\S)~~/ },
+  { type: "italic", pattern: /(?<![\w*])\*(?=[^\s*])([^*\n]*?[^\s*])\*(?![\w*])/ },
+  { type: "italic", pattern: /(?<![\w_])_(?=[^\s_])([^_\n]*?[^\s_])_(?![\w_])/ },
+];
+
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  while (rest) {
+    let earliest: { type: MarkdownInline["type"]; match: RegExpMatchArray } | null = null;
+    for (const { type, pattern } of INLINE_PATTERNS) {
+      const match = rest.match(pattern);
+      if (match && match.index !== undefined && (!earliest || match.index < earliest.match.index!)) {
+        earliest = { type, match };
+      }
+    }
+
+    if (!earliest) {
+      nodes.push({ type: "text", text: rest });
+      break;
+    }
+
+    const { type, match } = earliest;
+    if (match.index! > 0) {
+      nodes.push({ type: "text", text: rest.slice(0, match.index) });
+    }
+
+    if (type === "code") {
+      nodes.push({ type: "code", text: match[1] });
+    } else if (type === "link") {
+      // [label](url), or a bare URL that is its own label
+      const [label, url] = match[2] ? [match[1], match[2]] : [match[1], match[1]];
+      nodes.push({
+        type: "link",
+        href: url.startsWith("www.") ? `https://${url}` : url,
+        children: match[2] ? parseInline(label) : [{ type: "text", text: label }],
+      });
+    } else if (type !== "text") {
+      nodes.push({ type, children: parseInline(match[1]) });
+    }
+
+    rest = rest.slice(match.index! + match[0].length);
+  }
+
+  return nodes;
+}
+
+export type FormatAction =
+  | "bold"
+  | "italic"
+  | "strike"
+  | "code"
+  | "codeBlock"
+  | "quote"
+  | "bulletList"
+  | "orderedList"
+  | "link";
+
+export interface FormattedText {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const WRAPPERS: Partial<Record<FormatAction, string>> = {
+  bold: "**",
+  italic: "_",
+  strike: "~~",
+  code: "`",
+};
+
+/**
+ * Apply a composer formatting action to the selected text. Inline formats
+ * wrap the selection, or unwrap it when it is already wrapped; block formats
+ * prefix each selected line.
+ */
+export function applyFormat(
+  value: string,
+  selectionStart: number,
+  selectionEnd: number,
+  action: FormatAction
+): FormattedText {
+  const before = value.slice(0, selectionStart);
+  const selected = value.slice(selectionStart, selectionEnd);
+  const after = value.slice(selectionEnd);
+
+  const wrapper = WRAPPERS[action];
+  if (wrapper) {
+    const n = wrapper.length;
+    if (before.endsWith(wrapper) && after.startsWith(wrapper)) {
+      return {
+        value: before.slice(0, -n) + selected + after.slice(n),
+        selectionStart: selectionStart - n,
+        selectionEnd: selectionEnd - n,
+      };
+    }
+    return {
+      value: before + wrapper + selected + wrapper + after,
+      selectionStart: selectionStart + n,
+      selectionEnd: selectionEnd + n,
+    };
+  }
+
+  if (action === "link") {
+    const label = selected || "text";
+    const next = `${before}[${label}](https://)${after}`;
+    // Select the URL so it can be typed over
+    const urlStart = before.length + label.length + 3;
+    return { value: next, selectionStart: urlStart, selectionEnd: urlStart + 8 };
+  }
+
+  if (action === "codeBlock") {
+    const open = before && !before.endsWith("\n") ? "\n```\n" : "```\n";
+    const close = after.startsWith("\n") ? "\n```" : "\n```\n";
+    return {
+      value: before + open + selected + close + after,
+      selectionStart: selectionStart + open.length,
+      selectionEnd: selectionEnd + open.length,
+    };
+  }
+
+  // Line formats work on whole lines, from the start of the first selected one
+  const lineStart = before.lastIndexOf("\n") + 1;
+  const lines = value.slice(lineStart, selectionEnd).split("\n");
+  const prefix = (i: number) =>
+    action === "quote" ? "> " : action === "orderedList" ? `${i + 1}. ` : "- ";
+  const pattern = action === "quote" ? QUOTE : action === "orderedList" ? NUMBERED : BULLET;
+
+  const isFormatted = lines.every((line) => pattern.test(line));
+  const formatted = lines.map((line, i) =>
+    isFormatted ? line.replace(pattern, "") : prefix(i) + line
+  );
+  const block = formatted.join("\n");
+  return {
+    value: value.slice(0, lineStart) + block + after,
+    selectionStart: lineStart,
+    selectionEnd: lineStart + block.length,
+  };
+}
+
+/**
+ * The formatting action for a composer keyboard shortcut, if it is one
+ */
+export function getFormatShortcut(event: {
+  key: string;
+  code: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}): FormatAction | null {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+
+  if (event.shiftKey) {
+    switch (event.code) {
+      case "KeyX":
+        return "strike";
+      case "KeyC":
+        return "codeBlock";
+      case "Digit7":
+        return "orderedList";
+      case "Digit8":
+        return "bulletList";
+      case "Digit9":
+        return "quote";
+      default:
+        return null;
+    }
+  }
+
+  switch (event.key.toLowerCase()) {
+    case "b":
+      return "bold";
+    case "i":
+      return "italic";
+    case "e":
+      return "code";
+    case "k":
+      return "link";
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,64 @@
+import type { PasswordPolicy, PasswordRuleResult } from "@/types";
+
+/**
+ * Client-side mirror of backend/src/utils/passwordPolicy.ts so forms can show
+ * which rules a password meets while the user types. The server stays the
+ * source of truth and returns the same rule ids in ValidationError.errors.
+ */
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireNumbers: false,
+  requireSymbols: false,
+  historyCount: 0,
+  expiryDays: 0,
+};
+
+export function checkPasswordPolicy(
+  password: string,
+  policy: PasswordPolicy
+): PasswordRuleResult[] {
+  const results: PasswordRuleResult[] = [
+    {
+      rule: "minLength",
+      passed: password.length >= policy.minLength,
+      message: `At least ${policy.minLength} characters`,
+    },
+  ];
+
+  if (policy.requireNumbers) {
+    results.push({
+      rule: "requireNumbers",
+      passed: /\d/.test(password),
+      message: "At least one number",
+    });
+  }
+
+  if (policy.requireSymbols) {
+    results.push({
+      rule: "requireSymbols",
+      passed: /[^A-Za-z0-9\s]/.test(password),
+      message: "At least one symbol",
+    });
+  }
+
+  return results;
+}
+
+export function meetsPasswordPolicy(
+  password: string,
+  policy: PasswordPolicy
+): boolean {
+  return checkPasswordPolicy(password, policy).every((result) => result.passed);
+}
+
+/**
+ * Flatten a PASSWORD_POLICY_VIOLATION response into rule messages
+ */
+export function getPasswordPolicyErrors(data: unknown): string[] {
+  const body = data as
+    | { code?: string; errors?: Record<string, string[]> }
+    | undefined;
+  if (body?.code !== "PASSWORD_POLICY_VIOLATION" || !body.errors) return [];
+  return Object.values(body.errors).flat();
+}
@@ -0,0 +1,12 @@
+// Matches the server's limit
+export const MAX_POLL_OPTIONS = 10;
+
+/**
+ * How long a new poll stays open
+ */
+export const POLL_DURATIONS: { label: string; value: string; ms?: number }[] = [
+  { label: "Never, close it by hand", value: "never" },
+  { label: "In 1 hour", value: "1h", ms: 60 * 60 * 1000 },
+  { label: "In 1 day", value: "1d", ms: 24 * 60 * 60 * 1000 },
+  { label: "In 1 week", value: "1w", ms: 7 * 24 * 60 * 60 * 1000 },
+];
@@ -0,0 +1,11 @@
+/**
+ * Times offered when setting or snoozing a reminder. The server reads them on
+ * the user's profile clock, so "tomorrow" is 9:00 AM wherever they are.
+ */
+export const REMINDER_TIMES: { label: string; when: string }[] = [
+  { label: "In 20 minutes", when: "in 20 minutes" },
+  { label: "In 1 hour", when: "in 1 hour" },
+  { label: "In 3 hours", when: "in 3 hours" },
+  { label: "Tomorrow", when: "tomorrow" },
+  { label: "Next week", when: "next week" },
+];
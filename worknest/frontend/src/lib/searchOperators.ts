@@ -0,0 +1,200 @@
+import type { Channel, User } from "@/store/chatStore";
+
+/**
+ * Autocompletion for the search query language parsed by
+ * backend/src/utils/searchQuery.ts (from:, in:, has:, is:, before:, after:, on:)
+ */
+
+export interface SearchSuggestion {
+  key: string;
+  label: string;
+  description?: string;
+  insert: string;
+  user?: User;
+  channel?: Channel;
+}
+
+export interface SearchSuggestionResult {
+  suggestions: SearchSuggestion[];
+  // Range of the query replaced when a suggestion is picked
+  start: number;
+  end: number;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+export const SEARCH_OPERATORS: { name: string; description: string }[] = [
+  { name: "from", description: "Messages from a person" },
+  { name: "in", description: "In a channel or DM" },
+  { name: "has", description: "Has a file, link or reaction" },
+  { name: "is", description: "Pinned messages or threads" },
+  { name: "before", description: "Before a date" },
+  { name: "after", description: "After a date" },
+  { name: "on", description: "On a date" },
+];
+
+const OPERATOR_VALUES: Record<
+  string,
+  { value: string; description: string }[]
+> = {
+  has: [
+    { value: "file", description: "Messages with attachments" },
+    { value: "link", description: "Messages containing links" },
+    { value: "reaction", description: "Messages with reactions" },
+  ],
+  is: [
+    { value: "pinned", description: "Pinned messages" },
+    { value: "thread", description: "Threads and thread replies" },
+  ],
+};
+
+/**
+ * Handle inserted for a person: the local part of their email, which the
+ * server matches first when resolving from: and in:@
+ */
+export function getUserHandle(user: User): string {
+  return user.email.split("@")[0];
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function userSuggestions(
+  operator: string,
+  sigilValue: string,
+  users: User[]
+): SearchSuggestion[] {
+  const needle = sigilValue.replace(/^@/, "").toLowerCase();
+  const matches = users.filter(
+    (u) =>
+      u.name.toLowerCase().includes(needle) ||
+      getUserHandle(u).toLowerCase().startsWith(needle)
+  );
+
+  const suggestions: SearchSuggestion[] = matches.map((u) => ({
+    key: `${operator}-user-${u.id}`,
+    label: u.name,
+    description: `@${getUserHandle(u)}`,
+    insert: `${operator}:@${getUserHandle(u)} `,
+    user: u,
+  }));
+
+  if (operator === "from" && "me".startsWith(needle)) {
+    suggestions.unshift({
+      key: "from-me",
+      label: "Me",
+      description: "Your own messages",
+      insert: "from:me ",
+    });
+  }
+
+  return suggestions;
+}
+
+export function getSearchSuggestions(
+  query: string,
+  caret: number,
+  options: { users: User[]; channels: Channel[] }
+): SearchSuggestionResult | null {
+  const before = query.slice(0, caret);
+  const start = before.search(/\S*$/);
+  const token = before.slice(start);
+  const end = caret + (query.slice(caret).match(/^\S*/)?.[0].length ?? 0);
+
+  if (!token) return null;
+
+  const operatorMatch = /^(\w+):(.*)$/.exec(token);
+  let suggestions: SearchSuggestion[] = [];
+
+  if (!operatorMatch) {
+    const name = token.toLowerCase();
+    suggestions = SEARCH_OPERATORS.filter(
+      (op) => op.name.startsWith(name) && op.name !== name
+    ).map((op) => ({
+      key: `op-${op.name}`,
+      label: `${op.name}:`,
+      description: op.description,
+      insert: `${op.name}:`,
+    }));
+  } else {
+    const operator = operatorMatch[1].toLowerCase();
+    const value = operatorMatch[2];
+
+    switch (operator) {
+      case "from":
+        suggestions = userSuggestions("from", value, options.users);
+        break;
+      case "in": {
+        if (value.startsWith("@")) {
+          suggestions = userSuggestions("in", value, options.users);
+          break;
+        }
+        const needle = value.replace(/^#/, "").toLowerCase();
+        suggestions = options.channels
+          .filter(
+            (c) => c.type !== "DM" && c.name.toLowerCase().includes(needle)
+          )
+          .map((c) => ({
+            key: `in-${c.id}`,
+            label: `#${c.name}`,
+            description: c.type === "PRIVATE" ? "Private channel" : undefined,
+            insert: /\s/.test(c.name) ? `in:"#${c.name}" ` : `in:#${c.name} `,
+            channel: c,
+          }));
+        break;
+      }
+      case "has":
+      case "is":
+        suggestions = OPERATOR_VALUES[operator]
+          .filter((v) => v.value.startsWith(value.toLowerCase()))
+          .map((v) => ({
+            key: `${operator}-${v.value}`,
+            label: `${operator}:${v.value}`,
+            description: v.description,
+            insert: `${operator}:${v.value} `,
+          }));
+        break;
+      case "before":
+      case "after":
+      case "on": {
+        const today = new Date();
+        const candidates = [
+          { value: "today", description: formatDate(today) },
+          { value: "yesterday", description: "" },
+          { value: formatDate(today), description: "YYYY-MM-DD" },
+        ];
+        suggestions = candidates
+          .filter(
+            (c) => c.value.startsWith(value.toLowerCase()) && c.value !== value
+          )
+          .map((c) => ({
+            key: `${operator}-${c.value}`,
+            label: `${operator}:${c.value}`,
+            description: c.description || undefined,
+            insert: `${operator}:${c.value} `,
+          }));
+        break;
+      }
+    }
+  }
+
+  if (suggestions.length === 0) return null;
+  return { suggestions: suggestions.slice(0, MAX_SUGGESTIONS), start, end };
+}
+
+/**
+ * Replace the token under the caret with the picked suggestion
+ */
+export function applySearchSuggestion(
+  query: string,
+  result: SearchSuggestionResult,
+  suggestion: SearchSuggestion
+): { query: string; caret: number } {
+  const next =
+    query.slice(0, result.start) +
+    suggestion.insert +
+    query.slice(result.end).replace(/^\s+/, "");
+  return { query: next, caret: result.start + suggestion.insert.length };
+}
@@ -1,4 +1,6 @@
 import { io, Socket } from "socket.io-client";
+import { refreshAccessToken } from "./api";
+import type { MessageBlock, MessageBot, MessagePoll } from "@/types";
 
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || "http://localhost:5000";
 
@@ -10,7 +12,6 @@ export const initSocket = (token: string): Socket => {
   if (socket) {
     // If socket exists but disconnected, reconnect with same instance
     if (socket.disconnected && !isInitializing) {
-      socket.auth = { token };
       socket.connect();
     }
     return socket;
@@ -25,7 +26,8 @@ export const initSocket = (token: string): Socket => {
   isInitializing = true;
 
   socket = io(SOCKET_URL, {
-    auth: { token },
+    // Read the token on every (re)connect so refreshed access tokens are used
+    auth: (cb) => cb({ token: localStorage.getItem("token") || token }),
     transports: ["websocket", "polling"],
     reconnection: true,
     reconnectionAttempts: 5,
@@ -43,9 +45,14 @@ export const initSocket = (token: string): Socket => {
     // Don't reset socket on disconnect - allow reconnection
   });
 
-  socket.on("connect_error", (error) => {
+  socket.on("connect_error", async (error) => {
     console.error("Socket connection error:", error.message);
     isInitializing = false;
+
+    // Handshake rejected because the access token expired: renew and retry
+    if (error.message === "Token expired" && (await refreshAccessToken())) {
+      socket?.connect();
+    }
   });
 
   socket.on("error", (error) => {
@@ -74,14 +81,14 @@ export interface MessagePayload {
   sender: {
     _id: string;
     name: string;
-    email: string;
+    email?: string;
     avatar?: string;
+    isBot?: boolean;
   };
+  bot?: MessageBot | null;
+  blocks?: MessageBlock[];
+  poll?: MessagePoll;
   channelId: string;
-  readBy: {
-    userId: string;
-    readAt: string;
-  }[];
   attachments?: {
     url: string;
     name: string;
@@ -113,4 +120,24 @@ export interface ReactionPayload {
   reactions: Record<string, string[]>;
 }
 
+export interface PollPayload {
+  messageId: string;
+  channelId: string;
+  poll: MessagePoll;
+}
+
+export interface ChannelArchivePayload {
+  id: string;
+  isArchived: boolean;
+  archivedAt: string | null;
+}
+
+export interface ChannelUpdatePayload {
+  id: string;
+  name: string;
+  description: string;
+  topic: string;
+  type: "PUBLIC" | "PRIVATE";
+}
+
 export default { initSocket, getSocket, disconnectSocket };
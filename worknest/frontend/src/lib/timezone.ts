@@ -0,0 +1,71 @@
+/**
+ * Timezone helpers for times picked in a user's profile timezone rather than
+ * the browser's
+ */
+
+export function getBrowserTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/**
+ * The user's profile timezone when it is one the browser knows
+ */
+export function resolveTimezone(timezone?: string | null): string {
+  if (!timezone) return getBrowserTimezone();
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return timezone;
+  } catch {
+    return getBrowserTimezone();
+  }
+}
+
+/**
+ * Date ("YYYY-MM-DD") and time ("HH:mm") of an instant on the zone's clock
+ */
+export function toZonedParts(
+  date: Date,
+  timezone: string
+): { date: string; time: string; weekday: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+
+  const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}`,
+    weekday: weekdays.indexOf(get("weekday")),
+  };
+}
+
+/**
+ * "YYYY-MM-DD" a number of days after the given date
+ */
+export function addDaysToDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + days));
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * e.g. "Tue, Oct 20, 9:00 AM"
+ */
+export function formatInTimezone(date: Date | string, timezone: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(typeof date === "string" ? new Date(date) : date);
+}
@@ -1,11 +1,14 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { useForm } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { Eye, EyeOff, UserPlus, Lock, User } from 'lucide-react';
 import { toast } from 'sonner';
 import { authApi } from '@/lib/api';
+import { DEFAULT_PASSWORD_POLICY, getPasswordPolicyErrors, meetsPasswordPolicy } from '@/lib/passwordPolicy';
+import type { PasswordPolicy } from '@/types';
+import { PasswordRequirements } from '@/components/PasswordRequirements';
 import { useAuthStore } from '@/store';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -21,8 +24,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 
 const acceptInviteSchema = z.object({
     name: z.string().min(2, 'Name must be at least 2 characters'),
-    password: z.string().min(6, 'Password must be at least 6 characters'),
-    confirmPassword: z.string().min(6, 'Password must be at least 6 characters'),
+    password: z.string().min(1, 'Password is required'),
+    confirmPassword: z.string().min(1, 'Please confirm your password'),
 }).refine((data) => data.password === data.confirmPassword, {
     message: "Passwords don't match",
     path: ["confirmPassword"],
@@ -37,6 +40,7 @@ export function AcceptInvite() {
     const [isLoading, setIsLoading] = useState(false);
     const [localError, setLocalError] = useState<string | null>(null);
     const [showPassword, setShowPassword] = useState(false);
+    const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
 
     const token = searchParams.get('token');
 
@@ -52,12 +56,28 @@ export function AcceptInvite() {
     useEffect(() => {
         if (!token) {
             setLocalError('Invalid or missing invitation token.');
+            return;
         }
+
+        authApi.getPasswordPolicy(token)
+            .then(({ data }) => {
+                if (data.success) setPasswordPolicy(data.data.policy);
+            })
+            .catch(() => {
+                // Fall back to the default rules; the server still enforces the real policy
+            });
     }, [token]);
 
+    const password = useWatch({ control: form.control, name: 'password' });
+
     const onSubmit = async (values: AcceptInviteValues) => {
         if (!token) return;
 
+        if (!meetsPasswordPolicy(values.password, passwordPolicy)) {
+            form.setError('password', { message: 'Password does not meet the requirements below' });
+            return;
+        }
+
         setIsLoading(true);
         setLocalError(null);
 
@@ -70,12 +90,18 @@ export function AcceptInvite() {
 
             if (data.success) {
                 localStorage.setItem('token', data.data.token);
+                localStorage.setItem('refreshToken', data.data.refreshToken);
                 toast.success('Account created successfully!');
                 await fetchUser();
                 navigate('/chat');
             }
         } catch (err: unknown) {
             const error = err as { response?: { data?: { error?: string } } };
+            const policyErrors = getPasswordPolicyErrors(error.response?.data);
+            if (policyErrors.length > 0) {
+                form.setError('password', { message: policyErrors.join(', ') });
+                return;
+            }
             toast.error(error.response?.data?.error || 'Failed to accept invitation. It may have expired.');
         } finally {
             setIsLoading(false);
@@ -170,6 +196,7 @@ export function AcceptInvite() {
                                                 )}
                                             </Button>
                                         </div>
+                                        <PasswordRequirements password={password} policy={passwordPolicy} />
                                         <FormMessage />
                                     </FormItem>
                                 )}
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import axios from 'axios';
+import { Crown, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { settingsApi } from '@/lib/api';
+import { useAuthStore } from '@/store';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+export function AcceptOwnership() {
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const { organization, fetchUser } = useAuthStore();
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const token = searchParams.get('token');
+
+    // Accepting is an explicit step, so opening the link alone changes nothing
+    const handleAccept = async () => {
+        if (!token) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const { data } = await settingsApi.acceptOwnershipTransfer(token);
+            toast.success(data.message);
+            await fetchUser();
+            navigate('/settings');
+        } catch (err: unknown) {
+            setError(
+                axios.isAxiosError(err)
+                    ? err.response?.data?.error || err.message
+                    : 'Failed to accept ownership'
+            );
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
+            <Card className="w-full max-w-md shadow-xl border-t-4 border-t-primary">
+                <CardHeader className="text-center">
+                    <div className="mx-auto h-12 w-12 bg-primary/10 rounded-full flex items-center justify-center mb-4">
+                        <Crown className="h-6 w-6 text-primary" />
+                    </div>
+                    <CardTitle className="text-2xl font-bold">
+                        {token ? `Become the owner of ${organization?.name || 'this organization'}` : 'Invalid Link'}
+                    </CardTitle>
+                    <CardDescription>
+                        {token
+                            ? "You'll be an admin and the only one who can transfer the organization again. The current owner stays an admin."
+                            : 'This ownership transfer link is invalid. Ask the owner to send a new one.'}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                    {error && (
+                        <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm border border-destructive/20">
+                            {error}
+                        </div>
+                    )}
+                    {token && (
+                        <Button onClick={handleAccept} disabled={isLoading} className="w-full">
+                            {isLoading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Accept Ownership
+                        </Button>
+                    )}
+                    <Button variant="ghost" onClick={() => navigate('/chat')} className="w-full">
+                        Back to WorkNest
+                    </Button>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+export default AcceptOwnership;
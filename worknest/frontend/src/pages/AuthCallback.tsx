@@ -1,25 +1,36 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import { authApi } from '@/lib/api';
 import { useAuthStore } from '@/store';
 
 export function AuthCallback() {
     const [searchParams] = useSearchParams();
     const navigate = useNavigate();
     const { fetchUser } = useAuthStore();
+    // The code works once, so it must not be redeemed again on a re-run
+    const redeemed = useRef(false);
 
     useEffect(() => {
-        const token = searchParams.get('token');
+        // The redirect carries a one-time code rather than the tokens themselves
+        const code = searchParams.get('code');
         const subdomain = searchParams.get('subdomain');
 
-        if (token) {
-            localStorage.setItem('token', token);
+        if (code) {
+            if (redeemed.current) return;
+            redeemed.current = true;
+
             if (subdomain) {
                 localStorage.setItem('subdomain', subdomain);
             }
 
-            // Fetch user data with the new token
-            fetchUser().then(() => {
-                navigate('/chat');
+            authApi.exchange(code).then(({ data }) => {
+                localStorage.setItem('token', data.data.token);
+                localStorage.setItem('refreshToken', data.data.refreshToken);
+
+                // Fetch user data with the new token
+                return fetchUser().then(() => {
+                    navigate('/chat');
+                });
             }).catch(() => {
                 navigate('/login');
             });
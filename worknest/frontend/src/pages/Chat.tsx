@@ -1,11 +1,15 @@
 import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
 import { useChatStore } from '@/store';
+import { messagesApi } from '@/lib/api';
 import { useHuddleStore } from '@/store/huddleStore';
 import { Sidebar, ChatHeader, ChatWindow, DetailsPanel, ThreadPanel, GlobalSearchModal } from '@/components';
 import { TooltipProvider } from '@/components/ui/tooltip';
 
 export function Chat() {
-    const { fetchChannels, initSocketEvents, detailsPanel, threadPanel } = useChatStore();
+    const { fetchChannels, initSocketEvents, detailsPanel, threadPanel, channels, users, setActiveChannel, openThread } = useChatStore();
+    const [searchParams, setSearchParams] = useSearchParams();
     const { listenForGlobalHuddles } = useHuddleStore();
     const [isSearchOpen, setIsSearchOpen] = useState(false);
 
@@ -18,6 +22,43 @@ export function Chat() {
         listenForGlobalHuddles();
     }, [fetchChannels, initSocketEvents, listenForGlobalHuddles]);
 
+    // Links from notification emails: /chat?channel=<id>&thread=<parent message id>
+    useEffect(() => {
+        const channelId = searchParams.get('channel');
+        if (!channelId || channels.length === 0) return;
+        const threadId = searchParams.get('thread');
+        setSearchParams({}, { replace: true });
+
+        const channel = channels.find(c => c.id === channelId);
+        if (!channel) {
+            toast.error("You don't have access to that conversation anymore");
+            return;
+        }
+        setActiveChannel(channel);
+
+        if (threadId) {
+            messagesApi.getThread(threadId, { limit: 1 })
+                .then(({ data }) => {
+                    if (!data.success) return;
+                    const { parent } = data.data;
+                    const senderId = parent.sender.id || parent.sender._id;
+                    openThread({
+                        id: parent.id,
+                        content: parent.content,
+                        sender: users.find(u => u.id === senderId) || {
+                            id: senderId,
+                            name: parent.sender.name,
+                            email: parent.sender.email,
+                            avatar: parent.sender.avatar,
+                            role: 'EMPLOYEE',
+                            status: 'ACTIVE',
+                        },
+                    });
+                })
+                .catch(() => toast.error('Failed to open thread'));
+        }
+    }, [searchParams, setSearchParams, channels, users, setActiveChannel, openThread]);
+
     // Keyboard shortcut listener (Cmd/Ctrl + K)
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -53,7 +94,7 @@ export function Chat() {
                         <ChatWindow />
 
                         {/* Thread Panel - shown when viewing a thread */}
-                        {threadPanel.isOpen && <ThreadPanel />}
+                        {threadPanel.isOpen && <ThreadPanel key={threadPanel.parentMessage?.id} />}
 
                         {/* Right Detail Panel */}
                         {detailsPanel.isOpen && <DetailsPanel />}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -43,6 +43,7 @@ type CredentialsFormValues = z.infer<typeof credentialsSchema>;
 
 export function Login() {
     const navigate = useNavigate();
+    const location = useLocation();
     const { login, setSubdomain, isLoading, clearError } = useAuthStore();
     const [step, setStep] = useState<'org' | 'credentials'>(
         localStorage.getItem('subdomain') ? 'credentials' : 'org'
@@ -93,7 +94,11 @@ export function Login() {
                 return;
             }
 
-            navigate('/chat');
+            if (useAuthStore.getState().user?.passwordExpired) {
+                toast.warning('Your password has expired. Please choose a new one in Settings → Security.');
+            }
+
+            navigate((location.state as { from?: string } | null)?.from || '/chat');
         } catch (err: unknown) {
             let errorMsg = 'Login failed. Please check your credentials.';
             if (err && typeof err === 'object' && 'response' in err) {
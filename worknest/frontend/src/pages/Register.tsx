@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
-import { useForm } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import {
@@ -22,6 +22,8 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuthStore } from '@/store';
+import { DEFAULT_PASSWORD_POLICY, getPasswordPolicyErrors, meetsPasswordPolicy } from '@/lib/passwordPolicy';
+import { PasswordRequirements } from '@/components/PasswordRequirements';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -63,7 +65,7 @@ const step2Schema = z.object({
 // Combined schema for the full form
 const fullFormSchema = step1Schema.merge(step2Schema).merge(
     z.object({
-        password: z.string().min(6, 'Password must be at least 6 characters'),
+        password: z.string().min(1, 'Password is required'),
         confirmPassword: z.string(),
     })
 ).refine((data) => data.password === data.confirmPassword, {
@@ -96,6 +98,10 @@ export function Register() {
         mode: 'onTouched',
     });
 
+    // A new workspace always starts on the default policy
+    const passwordPolicy = DEFAULT_PASSWORD_POLICY;
+    const password = useWatch({ control: form.control, name: 'password' });
+
     const validateStep = async (step: number): Promise<boolean> => {
         let fieldsToValidate: (keyof FormValues)[] = [];
 
@@ -124,6 +130,11 @@ export function Register() {
     };
 
     const handleSubmit = async (values: FormValues) => {
+        if (!meetsPasswordPolicy(values.password, passwordPolicy)) {
+            form.setError('password', { message: 'Password does not meet the requirements below' });
+            return;
+        }
+
         try {
             await registerOrg({
                 organizationName: values.organizationName,
@@ -138,6 +149,11 @@ export function Register() {
             let errorMsg = 'Registration failed. Please try again.';
             if (err && typeof err === 'object' && 'response' in err) {
                 const axiosError = err as { response?: { data?: { error?: string } } };
+                const policyErrors = getPasswordPolicyErrors(axiosError.response?.data);
+                if (policyErrors.length > 0) {
+                    form.setError('password', { message: policyErrors.join(', ') });
+                    return;
+                }
                 errorMsg = axiosError.response?.data?.error || errorMsg;
             }
             toast.error(errorMsg);
@@ -362,7 +378,7 @@ export function Register() {
                                                                 )}
                                                             </button>
                                                         </div>
-                                                        <FormDescription>At least 6 characters</FormDescription>
+                                                        <PasswordRequirements password={password} policy={passwordPolicy} />
                                                         <FormMessage />
                                                     </FormItem>
                                                 )}
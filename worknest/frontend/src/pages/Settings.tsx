@@ -20,9 +20,10 @@ import {
     Globe,
     ShieldCheck,
     MessageSquare,
-    UserPlus,
-    MoreVertical,
     ChevronRight,
+    Webhook,
+    Hash,
+    X,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuthStore, useChatStore } from '@/store';
@@ -42,23 +43,37 @@ import {
     DialogHeader,
     DialogTitle,
 } from '@/components/ui/dialog';
-import {
-    DropdownMenu,
-    DropdownMenuContent,
-    DropdownMenuItem,
-    DropdownMenuTrigger,
-} from '@/components/ui/dropdown-menu';
 import { usersApi, settingsApi, authApi, uploadsApi } from '@/lib/api';
-import { UserSettings } from '@/types';
-import { StatusPicker } from '@/components';
+import { UserSettings, RetentionReport, DeviceSession } from '@/types';
+import { formatDistanceToNow } from 'date-fns';
+import { StatusPicker, PasswordRequirements, WebhooksSettings, MembersSettings } from '@/components';
+import { DEFAULT_PASSWORD_POLICY, getPasswordPolicyErrors, meetsPasswordPolicy } from '@/lib/passwordPolicy';
+
+// Rough "Browser on OS" label for the sessions list
+const describeDevice = (userAgent?: string | null) => {
+    if (!userAgent) return 'Unknown device';
+    const browser = /Edg\//.test(userAgent) ? 'Edge'
+        : /Chrome\//.test(userAgent) ? 'Chrome'
+            : /Firefox\//.test(userAgent) ? 'Firefox'
+                : /Safari\//.test(userAgent) ? 'Safari'
+                    : 'Browser';
+    const os = /Windows/.test(userAgent) ? 'Windows'
+        : /Android/.test(userAgent) ? 'Android'
+            : /iPhone|iPad/.test(userAgent) ? 'iOS'
+                : /Mac OS X/.test(userAgent) ? 'macOS'
+                    : /Linux/.test(userAgent) ? 'Linux'
+                        : 'Unknown OS';
+    return `${browser} on ${os}`;
+};
 
 type SettingsSection =
     | 'u-profile' | 'u-preferences' | 'u-security' | 'u-notifications' | 'u-privacy'
-    | 'o-general' | 'o-members' | 'o-security' | 'o-policies' | 'o-notifications' | 'o-account';
+    | 'o-general' | 'o-members' | 'o-security' | 'o-policies' | 'o-notifications' | 'o-integrations' | 'o-account';
 
 export function Settings() {
     const navigate = useNavigate();
     const { user, organization, logout, fetchUser } = useAuthStore();
+    const passwordPolicy = { ...DEFAULT_PASSWORD_POLICY, ...organization?.settings?.security?.passwordPolicy };
     const { users, fetchUsers } = useChatStore();
 
     const isAdmin = user?.role === 'ADMIN';
@@ -73,6 +88,32 @@ export function Settings() {
         }
     }, [activeSection, fetchUsers]);
 
+    // Signed-in devices
+    const [sessions, setSessions] = useState<DeviceSession[]>([]);
+
+    useEffect(() => {
+        if (activeSection !== 'u-privacy') return;
+        settingsApi.getSessions()
+            .then(({ data }) => {
+                if (data.success) setSessions(data.data);
+            })
+            .catch(() => toast.error('Failed to load active sessions'));
+    }, [activeSection]);
+
+    const handleRevokeSession = async (sessionId: string) => {
+        try {
+            await settingsApi.revokeSession(sessionId);
+            setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+            toast.success('Device signed out');
+        } catch (err: unknown) {
+            let errorMsg = 'Failed to sign out device';
+            if (axios.isAxiosError(err)) {
+                errorMsg = err.response?.data?.error || err.message;
+            }
+            toast.error(errorMsg);
+        }
+    };
+
     // General States
     const [loading, setLoading] = useState(false);
 
@@ -97,8 +138,15 @@ export function Settings() {
         timezone: organization?.settings?.general?.timezone || 'UTC',
         language: organization?.settings?.general?.language || 'en',
         allowPrivateChannels: organization?.settings?.channelPolicies?.allowPrivateChannels ?? true,
+        enableEmailNotifications: organization?.settings?.notifications?.enableEmailNotifications ?? true,
+        defaultChannels: organization?.settings?.channelPolicies?.defaultChannels || [],
         messageRetentionDays: organization?.settings?.channelPolicies?.messageRetentionDays || 0,
+        retentionMode: organization?.settings?.channelPolicies?.retentionMode || 'SOFT',
         minLength: organization?.settings?.security?.passwordPolicy?.minLength || 8,
+        requireNumbers: organization?.settings?.security?.passwordPolicy?.requireNumbers ?? false,
+        requireSymbols: organization?.settings?.security?.passwordPolicy?.requireSymbols ?? false,
+        historyCount: organization?.settings?.security?.passwordPolicy?.historyCount || 0,
+        expiryDays: organization?.settings?.security?.passwordPolicy?.expiryDays || 0,
     });
 
     // Sync state with store updates
@@ -118,12 +166,94 @@ export function Settings() {
                 timezone: organization.settings?.general?.timezone || 'UTC',
                 language: organization.settings?.general?.language || 'en',
                 allowPrivateChannels: organization.settings?.channelPolicies?.allowPrivateChannels ?? true,
+                enableEmailNotifications: organization.settings?.notifications?.enableEmailNotifications ?? true,
+                defaultChannels: organization.settings?.channelPolicies?.defaultChannels || [],
                 messageRetentionDays: organization.settings?.channelPolicies?.messageRetentionDays || 0,
+                retentionMode: organization.settings?.channelPolicies?.retentionMode || 'SOFT',
                 minLength: organization.settings?.security?.passwordPolicy?.minLength || 8,
+                requireNumbers: organization.settings?.security?.passwordPolicy?.requireNumbers ?? false,
+                requireSymbols: organization.settings?.security?.passwordPolicy?.requireSymbols ?? false,
+                historyCount: organization.settings?.security?.passwordPolicy?.historyCount || 0,
+                expiryDays: organization.settings?.security?.passwordPolicy?.expiryDays || 0,
             });
         }
     }, [organization]);
 
+    // Default Channels State
+    const [newDefaultChannel, setNewDefaultChannel] = useState('');
+    const [isBackfilling, setIsBackfilling] = useState(false);
+    const savedDefaultChannels = organization?.settings?.channelPolicies?.defaultChannels || [];
+    const hasUnsavedDefaultChannels = orgData.defaultChannels.join('\n') !== savedDefaultChannels.join('\n');
+
+    const addDefaultChannel = () => {
+        const name = newDefaultChannel.trim().replace(/^#/, '');
+        if (!name) return;
+        if (!orgData.defaultChannels.some(c => c.toLowerCase() === name.toLowerCase())) {
+            setOrgData({ ...orgData, defaultChannels: [...orgData.defaultChannels, name] });
+        }
+        setNewDefaultChannel('');
+    };
+
+    const handleBackfillDefaultChannels = async () => {
+        if (!confirm("Add every active member to the default channels? Channels that don't exist yet will be created.")) return;
+        setIsBackfilling(true);
+        try {
+            const { data } = await settingsApi.backfillDefaultChannels();
+            if (data.success) {
+                const added = data.data.reduce((sum: number, c: { added: number }) => sum + c.added, 0);
+                toast.success(added > 0 ? `Added ${added} memberships across ${data.data.length} channels` : 'Everyone is already in the default channels');
+            }
+        } catch (err: unknown) {
+            let errorMsg = 'Failed to backfill default channels';
+            if (axios.isAxiosError(err)) {
+                errorMsg = err.response?.data?.error || err.message;
+            }
+            toast.error(errorMsg);
+        } finally {
+            setIsBackfilling(false);
+        }
+    };
+
+    // Retention Report State
+    const [retentionReport, setRetentionReport] = useState<RetentionReport | null>(null);
+    const [isRetentionLoading, setIsRetentionLoading] = useState(false);
+
+    const handleRetentionReport = async () => {
+        setIsRetentionLoading(true);
+        try {
+            const { data } = await settingsApi.getRetentionReport();
+            if (data.success) setRetentionReport(data.data);
+        } catch (err: unknown) {
+            let errorMsg = 'Failed to build retention report';
+            if (axios.isAxiosError(err)) {
+                errorMsg = err.response?.data?.error || err.message;
+            }
+            toast.error(errorMsg);
+        } finally {
+            setIsRetentionLoading(false);
+        }
+    };
+
+    const handleRunRetention = async () => {
+        if (!confirm("Apply the retention policy now? Expired messages and their attachments will be removed.")) return;
+        setIsRetentionLoading(true);
+        try {
+            const { data } = await settingsApi.runRetention();
+            if (data.success) {
+                setRetentionReport(null);
+                toast.success(`Purged ${data.data.totals.messages + data.data.totals.threadReplies} messages`);
+            }
+        } catch (err: unknown) {
+            let errorMsg = 'Failed to apply retention policy';
+            if (axios.isAxiosError(err)) {
+                errorMsg = err.response?.data?.error || err.message;
+            }
+            toast.error(errorMsg);
+        } finally {
+            setIsRetentionLoading(false);
+        }
+    };
+
     // Deletion Dialog State
     const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
@@ -188,7 +318,22 @@ export function Settings() {
                     },
                     channelPolicies: {
                         allowPrivateChannels: orgData.allowPrivateChannels,
-                    }
+                        defaultChannels: orgData.defaultChannels,
+                        messageRetentionDays: orgData.messageRetentionDays,
+                        retentionMode: orgData.retentionMode,
+                    },
+                    security: {
+                        passwordPolicy: {
+                            minLength: orgData.minLength,
+                            requireNumbers: orgData.requireNumbers,
+                            requireSymbols: orgData.requireSymbols,
+                            historyCount: orgData.historyCount,
+                            expiryDays: orgData.expiryDays,
+                        },
+                    },
+                    notifications: {
+                        enableEmailNotifications: orgData.enableEmailNotifications,
+                    },
                 }
             });
             await fetchUser();
@@ -211,6 +356,10 @@ export function Settings() {
             toast.error("Passwords do not match");
             return;
         }
+        if (!meetsPasswordPolicy(passwordData.newPassword, passwordPolicy)) {
+            toast.error("New password does not meet your organization's password policy");
+            return;
+        }
         setLoading(true);
         try {
             await authApi.changePassword({
@@ -222,7 +371,10 @@ export function Settings() {
         } catch (err: unknown) {
             let errorMsg = 'Failed to change password';
             if (axios.isAxiosError(err)) {
-                errorMsg = err.response?.data?.error || err.message;
+                const policyErrors = getPasswordPolicyErrors(err.response?.data);
+                errorMsg = policyErrors.length > 0
+                    ? policyErrors.join(', ')
+                    : err.response?.data?.error || err.message;
             }
             toast.error(errorMsg);
         } finally {
@@ -268,6 +420,7 @@ export function Settings() {
                 { id: 'o-security', label: 'Security & Access', icon: ShieldCheck },
                 { id: 'o-policies', label: 'Channel Policies', icon: MessageSquare },
                 { id: 'o-notifications', label: 'Global Notifications', icon: Globe },
+                { id: 'o-integrations', label: 'Integrations', icon: Webhook },
                 { id: 'o-account', label: 'Workspace Account', icon: AlertTriangle },
             ]
         }] : [])
@@ -640,6 +793,7 @@ export function Settings() {
                                             {showNewPassword ? "Hide" : "Show"}
                                         </button>
                                     </div>
+                                    <PasswordRequirements password={passwordData.newPassword} policy={passwordPolicy} />
                                 </div>
                                 <div className="grid gap-2">
                                     <Label>Confirm New Password</Label>
@@ -675,7 +829,7 @@ export function Settings() {
                                 {[
                                     { id: 'messages', label: 'All Messages', desc: 'Get notified for every message in your joined channels.' },
                                     { id: 'mentions', label: 'Mentions & DMs', desc: 'Only get notified when you are mentioned or receive a DM.' },
-                                    { id: 'email', label: 'Email Digest', desc: 'Receive a daily summary of missed activity.' },
+                                    { id: 'email', label: 'Email Digest', desc: 'Get an email of mentions and direct messages you missed while away.' },
                                 ].map((n) => {
                                     const key = n.id as keyof UserSettings['notifications'];
                                     const isEnabled = (user?.settings?.notifications?.[key] as boolean) ?? true;
@@ -988,87 +1142,7 @@ export function Settings() {
                 );
 
             case 'o-members':
-                return (
-                    <div className="space-y-6">
-                        <div className="flex justify-between items-end">
-                            <div>
-                                <h2 className="text-2xl font-bold">Members & Access</h2>
-                                <p className="text-muted-foreground">Manage team members, roles, and invitations.</p>
-                            </div>
-                            <Button className="gap-2">
-                                <UserPlus className="h-4 w-4" />
-                                Invite Member
-                            </Button>
-                        </div>
-
-                        <Card className="glass-card">
-                            <div className="overflow-x-auto">
-                                <table className="w-full text-sm">
-                                    <thead>
-                                        <tr className="border-b bg-muted/50">
-                                            <th className="px-4 py-3 text-left font-medium">Member</th>
-                                            <th className="px-4 py-3 text-left font-medium">Role</th>
-                                            <th className="px-4 py-3 text-left font-medium">Status</th>
-                                            <th className="px-4 py-3 text-left font-medium">Last Active</th>
-                                            <th className="px-4 py-3 text-right font-medium">Actions</th>
-                                        </tr>
-                                    </thead>
-                                    <tbody>
-                                        {users.map((u) => (
-                                            <tr key={u.id} className="border-b hover:bg-muted/30 transition-colors">
-                                                <td className="px-4 py-3">
-                                                    <div className="flex items-center gap-3">
-                                                        <Avatar className="h-8 w-8">
-                                                            <AvatarImage src={u.avatar} />
-                                                            <AvatarFallback className={cn('text-xs', getAvatarColor(u.name))}>
-                                                                {getInitials(u.name)}
-                                                            </AvatarFallback>
-                                                        </Avatar>
-                                                        <div>
-                                                            <p className="font-medium">{u.name}</p>
-                                                            <p className="text-xs text-muted-foreground">{u.email}</p>
-                                                        </div>
-                                                    </div>
-                                                </td>
-                                                <td className="px-4 py-3">
-                                                    <span className={cn(
-                                                        'px-2 py-1 rounded-full text-[10px] font-bold uppercase',
-                                                        u.role === 'ADMIN' ? 'bg-amber-500/20 text-amber-500' : 'bg-blue-500/20 text-blue-500'
-                                                    )}>
-                                                        {u.role}
-                                                    </span>
-                                                </td>
-                                                <td className="px-4 py-3">
-                                                    <div className="flex items-center gap-1.5">
-                                                        <span className={cn(
-                                                            'h-2 w-2 rounded-full',
-                                                            u.status === 'ACTIVE' ? 'bg-green-500' : 'bg-gray-500'
-                                                        )} />
-                                                        {u.status}
-                                                    </div>
-                                                </td>
-                                                <td className="px-4 py-3 text-muted-foreground">
-                                                    {u.lastSeenAt ? new Date(u.lastSeenAt).toLocaleDateString() : 'Never'}
-                                                </td>
-                                                <td className="px-4 py-3 text-right">
-                                                    <DropdownMenu>
-                                                        <DropdownMenuTrigger asChild>
-                                                            <Button variant="ghost" size="icon"><MoreVertical className="h-4 w-4" /></Button>
-                                                        </DropdownMenuTrigger>
-                                                        <DropdownMenuContent align="end">
-                                                            <DropdownMenuItem>Change Role</DropdownMenuItem>
-                                                            <DropdownMenuItem className="text-destructive">Deactivate</DropdownMenuItem>
-                                                        </DropdownMenuContent>
-                                                    </DropdownMenu>
-                                                </td>
-                                            </tr>
-                                        ))}
-                                    </tbody>
-                                </table>
-                            </div>
-                        </Card>
-                    </div>
-                );
+                return <MembersSettings />;
 
             case 'u-privacy':
                 return (
@@ -1128,27 +1202,61 @@ export function Settings() {
                                         )} />
                                     </button>
                                 </div>
+                                <Separator />
+                                <div className="flex items-center justify-between gap-4">
+                                    <div className="space-y-0.5">
+                                        <Label className="text-base">Last Seen</Label>
+                                        <p className="text-sm text-muted-foreground">Choose who can see when you were last active. Hidden while your online status is off.</p>
+                                    </div>
+                                    <select
+                                        className="flex h-10 w-40 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                                        value={user?.settings?.privacy?.lastSeenVisibility || 'everyone'}
+                                        onChange={async (e) => {
+                                            await settingsApi.updateUser({ settings: { privacy: { lastSeenVisibility: e.target.value as UserSettings['privacy']['lastSeenVisibility'] } } });
+                                            await fetchUser();
+                                        }}
+                                    >
+                                        <option value="everyone">Everyone</option>
+                                        <option value="contacts">Contacts</option>
+                                        <option value="none">Nobody</option>
+                                    </select>
+                                </div>
                             </CardContent>
                         </Card>
 
                         <Card className="border-destructive/20 bg-destructive/5 shadow-none">
                             <CardHeader>
                                 <CardTitle className="text-destructive">Active Sessions</CardTitle>
-                                <CardDescription>You are currently logged in on this device.</CardDescription>
+                                <CardDescription>Devices currently signed in to your account.</CardDescription>
                             </CardHeader>
-                            <CardContent>
-                                <div className="bg-background/50 border rounded-lg p-4 flex items-center justify-between">
-                                    <div className="flex items-center gap-4">
-                                        <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center">
-                                            <Monitor className="text-primary h-5 w-5" />
-                                        </div>
-                                        <div>
-                                            <p className="font-medium">Current Session</p>
-                                            <p className="text-xs text-muted-foreground">Web Browser • India</p>
+                            <CardContent className="space-y-2">
+                                {sessions.map((session) => (
+                                    <div key={session.id} className="bg-background/50 border rounded-lg p-4 flex items-center justify-between">
+                                        <div className="flex items-center gap-4">
+                                            <div className="h-10 w-10 rounded-full bg-primary/10 flex items-center justify-center">
+                                                <Monitor className="text-primary h-5 w-5" />
+                                            </div>
+                                            <div>
+                                                <p className="font-medium">{describeDevice(session.userAgent)}</p>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {session.ipAddress || 'Unknown IP'} • Active {formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })}
+                                                </p>
+                                            </div>
                                         </div>
+                                        {session.current ? (
+                                            <span className="text-xs bg-green-500/20 text-green-500 px-2 py-0.5 rounded-full font-bold">THIS DEVICE</span>
+                                        ) : (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="text-destructive hover:bg-destructive/10"
+                                                onClick={() => handleRevokeSession(session.id)}
+                                            >
+                                                Sign out
+                                            </Button>
+                                        )}
                                     </div>
-                                    <span className="text-xs bg-green-500/20 text-green-500 px-2 py-0.5 rounded-full font-bold">ACTIVE</span>
-                                </div>
+                                ))}
                                 <Button
                                     variant="outline"
                                     className="w-full mt-4 border-destructive/20 text-destructive hover:bg-destructive/10"
@@ -1195,6 +1303,59 @@ export function Settings() {
                                             onChange={e => setOrgData({ ...orgData, minLength: parseInt(e.target.value) })}
                                         />
                                     </div>
+                                    {[
+                                        { id: 'requireNumbers', label: 'Require Numbers', desc: 'Passwords must contain at least one digit.' },
+                                        { id: 'requireSymbols', label: 'Require Symbols', desc: 'Passwords must contain at least one special character.' },
+                                    ].map((rule) => {
+                                        const enabled = orgData[rule.id as 'requireNumbers' | 'requireSymbols'];
+                                        return (
+                                            <div key={rule.id} className="flex items-center justify-between">
+                                                <div className="space-y-0.5">
+                                                    <Label className="text-base">{rule.label}</Label>
+                                                    <p className="text-sm text-muted-foreground">{rule.desc}</p>
+                                                </div>
+                                                <button
+                                                    onClick={() => setOrgData({ ...orgData, [rule.id]: !enabled })}
+                                                    className={cn(
+                                                        "h-6 w-11 rounded-full relative transition-colors duration-200",
+                                                        enabled ? "bg-primary" : "bg-muted"
+                                                    )}
+                                                >
+                                                    <div className={cn(
+                                                        "absolute top-1 h-4 w-4 rounded-full bg-white transition-all shadow-sm",
+                                                        enabled ? "right-1" : "left-1"
+                                                    )} />
+                                                </button>
+                                            </div>
+                                        );
+                                    })}
+                                    <div className="flex items-center justify-between">
+                                        <div className="space-y-0.5">
+                                            <Label className="text-base">Password History</Label>
+                                            <p className="text-sm text-muted-foreground">Block reuse of this many previous passwords (0 = off).</p>
+                                        </div>
+                                        <Input
+                                            type="number"
+                                            min={0}
+                                            max={24}
+                                            className="w-20"
+                                            value={orgData.historyCount}
+                                            onChange={e => setOrgData({ ...orgData, historyCount: parseInt(e.target.value) || 0 })}
+                                        />
+                                    </div>
+                                    <div className="flex items-center justify-between">
+                                        <div className="space-y-0.5">
+                                            <Label className="text-base">Password Expiry (days)</Label>
+                                            <p className="text-sm text-muted-foreground">Ask members to choose a new password after this many days (0 = never).</p>
+                                        </div>
+                                        <Input
+                                            type="number"
+                                            min={0}
+                                            className="w-20"
+                                            value={orgData.expiryDays}
+                                            onChange={e => setOrgData({ ...orgData, expiryDays: parseInt(e.target.value) || 0 })}
+                                        />
+                                    </div>
                                     <Separator />
                                     <div className="flex items-center justify-between">
                                         <div className="space-y-0.5">
@@ -1240,7 +1401,7 @@ export function Settings() {
                                 <div className="flex items-center justify-between">
                                     <div className="space-y-0.5">
                                         <Label className="text-base">Allow Private Channels</Label>
-                                        <p className="text-sm text-muted-foreground">When disabled, only admins can create private channels.</p>
+                                        <p className="text-sm text-muted-foreground">Admins can create private channels. When disabled, no one can.</p>
                                     </div>
                                     <button
                                         onClick={() => setOrgData({ ...orgData, allowPrivateChannels: !orgData.allowPrivateChannels })}
@@ -1256,18 +1417,144 @@ export function Settings() {
                                     </button>
                                 </div>
                                 <Separator />
+                                <div className="flex items-center justify-between">
+                                    <div className="space-y-0.5">
+                                        <Label className="text-base">Email Notifications</Label>
+                                        <p className="text-sm text-muted-foreground">Email members a digest of mentions and direct messages they missed while away.</p>
+                                    </div>
+                                    <button
+                                        onClick={() => setOrgData({ ...orgData, enableEmailNotifications: !orgData.enableEmailNotifications })}
+                                        className={cn(
+                                            "h-6 w-11 rounded-full relative transition-colors duration-200",
+                                            orgData.enableEmailNotifications ? "bg-primary" : "bg-muted"
+                                        )}
+                                    >
+                                        <div className={cn(
+                                            "absolute top-1 h-4 w-4 rounded-full bg-white transition-all shadow-sm",
+                                            orgData.enableEmailNotifications ? "right-1" : "left-1"
+                                        )} />
+                                    </button>
+                                </div>
+                                <Separator />
+                                <div className="grid gap-2">
+                                    <Label>Default Channels</Label>
+                                    <p className="text-sm text-muted-foreground">New members join these channels when they activate their account. Missing channels are created as public channels.</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {orgData.defaultChannels.map((name) => (
+                                            <span key={name} className="flex items-center gap-1 rounded-full bg-muted px-3 py-1 text-sm">
+                                                <Hash className="h-3 w-3 text-muted-foreground" />
+                                                {name}
+                                                <button
+                                                    onClick={() => setOrgData({ ...orgData, defaultChannels: orgData.defaultChannels.filter(c => c !== name) })}
+                                                    className="ml-1 text-muted-foreground hover:text-destructive transition-colors"
+                                                >
+                                                    <X className="h-3 w-3" />
+                                                </button>
+                                            </span>
+                                        ))}
+                                        {orgData.defaultChannels.length === 0 && (
+                                            <span className="text-sm text-muted-foreground">No default channels</span>
+                                        )}
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Input
+                                            placeholder="Channel name"
+                                            value={newDefaultChannel}
+                                            onChange={e => setNewDefaultChannel(e.target.value)}
+                                            onKeyDown={e => {
+                                                if (e.key === 'Enter') {
+                                                    e.preventDefault();
+                                                    addDefaultChannel();
+                                                }
+                                            }}
+                                        />
+                                        <Button variant="outline" onClick={addDefaultChannel} disabled={!newDefaultChannel.trim()}>
+                                            Add
+                                        </Button>
+                                    </div>
+                                    <div className="flex items-center justify-between gap-4">
+                                        <p className="text-xs text-muted-foreground">
+                                            {hasUnsavedDefaultChannels
+                                                ? 'Save your changes before adding existing members.'
+                                                : 'Existing members are not added automatically when you add a channel.'}
+                                        </p>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={handleBackfillDefaultChannels}
+                                            disabled={isBackfilling || hasUnsavedDefaultChannels || savedDefaultChannels.length === 0}
+                                        >
+                                            {isBackfilling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                            Add Existing Members
+                                        </Button>
+                                    </div>
+                                </div>
+                                <Separator />
                                 <div className="grid gap-2">
                                     <Label>Message Retention (Days)</Label>
                                     <Input
                                         type="number"
+                                        min={0}
                                         value={orgData.messageRetentionDays}
-                                        onChange={e => setOrgData({ ...orgData, messageRetentionDays: parseInt(e.target.value) })}
+                                        onChange={e => setOrgData({ ...orgData, messageRetentionDays: Math.max(0, parseInt(e.target.value) || 0) })}
                                     />
-                                    <p className="text-xs text-muted-foreground text-amber-500">Set to 0 for infinite retention. Enterprise plan required for automatic deletion.</p>
+                                    <p className="text-xs text-muted-foreground text-amber-500">Set to 0 for infinite retention. Older messages are purged hourly; channels can override this window.</p>
                                 </div>
-                                <Button onClick={handleUpdateOrg} disabled={loading}>
-                                    Save Policies
-                                </Button>
+                                <div className="grid gap-2">
+                                    <Label>Purge Mode</Label>
+                                    <div className="flex gap-1 bg-muted p-1 rounded-lg">
+                                        {[
+                                            { id: 'SOFT', label: 'Soft delete', hint: 'Keep a "message deleted" placeholder' },
+                                            { id: 'HARD', label: 'Hard delete', hint: 'Remove messages from the database' },
+                                        ].map((opt) => (
+                                            <button
+                                                key={opt.id}
+                                                title={opt.hint}
+                                                onClick={() => setOrgData({ ...orgData, retentionMode: opt.id as 'SOFT' | 'HARD' })}
+                                                className={cn(
+                                                    "flex-1 py-1.5 text-xs font-semibold rounded-md transition-all",
+                                                    orgData.retentionMode === opt.id
+                                                        ? "bg-background text-foreground shadow-sm"
+                                                        : "text-muted-foreground hover:text-foreground"
+                                                )}
+                                            >
+                                                {opt.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">Attachments are always removed from storage; soft delete keeps a placeholder in the timeline.</p>
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button onClick={handleUpdateOrg} disabled={loading}>
+                                        Save Policies
+                                    </Button>
+                                    <Button variant="outline" onClick={handleRetentionReport} disabled={isRetentionLoading}>
+                                        {isRetentionLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                        Preview Purge
+                                    </Button>
+                                </div>
+                                {retentionReport && (
+                                    <div className="rounded-xl border bg-muted/30 p-4 space-y-3">
+                                        <div className="flex items-center justify-between">
+                                            <p className="text-sm font-semibold">
+                                                {retentionReport.totals.messages} messages, {retentionReport.totals.threadReplies} thread replies and {retentionReport.totals.attachments} attachments would be {retentionReport.mode === 'HARD' ? 'permanently removed' : 'soft-deleted'}
+                                            </p>
+                                            {retentionReport.channels.length > 0 && (
+                                                <Button variant="destructive" size="sm" onClick={handleRunRetention} disabled={isRetentionLoading}>
+                                                    Purge Now
+                                                </Button>
+                                            )}
+                                        </div>
+                                        {retentionReport.channels.map((c) => (
+                                            <div key={c.channelId} className="flex items-center justify-between text-xs text-muted-foreground">
+                                                <span className="font-medium text-foreground">#{c.name}</span>
+                                                <span>
+                                                    {c.retentionDays}d {c.source === 'CHANNEL' ? '(channel override)' : ''} · {c.messages + c.threadReplies} msgs · {c.attachments} files
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                             </CardContent>
                         </Card>
                     </div>
@@ -1292,8 +1579,13 @@ export function Settings() {
                     </div>
                 );
 
+            case 'o-integrations':
+                return <WebhooksSettings />;
+
             case 'o-account': {
-                const employeeCount = users.filter(u => u.role === 'EMPLOYEE').length;
+                // Only the owner is held back, until they hand the organization over
+                const isOwner = organization?.ownerId === user?.id;
+                const otherMemberCount = isOwner ? users.filter(u => u.id !== user?.id).length : 0;
                 return (
                     <div className="space-y-6">
                         <div>
@@ -1312,13 +1604,13 @@ export function Settings() {
                                 </CardDescription>
                             </CardHeader>
                             <CardContent className="space-y-6">
-                                {employeeCount > 0 ? (
+                                {otherMemberCount > 0 ? (
                                     <div className="p-4 rounded-xl bg-amber-500/10 border border-amber-500/20 flex gap-4">
                                         <AlertTriangle className="h-5 w-5 text-amber-500 flex-shrink-0" />
                                         <div>
                                             <p className="font-bold text-amber-500">Action Blocked</p>
                                             <p className="text-sm text-amber-700 dark:text-amber-400">
-                                                You have <b>{employeeCount} employees</b> in your organization. Deletion is only possible after all other members have been removed or deactivated.
+                                                You own an organization with <b>{otherMemberCount} other {otherMemberCount === 1 ? 'member' : 'members'}</b>. Transfer ownership to one of them under Members, or remove all other members, before deleting your account.
                                             </p>
                                         </div>
                                     </div>
@@ -1338,7 +1630,7 @@ export function Settings() {
                                     variant="destructive"
                                     size="lg"
                                     className="w-full font-bold shadow-lg shadow-destructive/25"
-                                    disabled={employeeCount > 0}
+                                    disabled={otherMemberCount > 0}
                                     onClick={() => setShowDeleteDialog(true)}
                                 >
                                     Delete My Account & Organization
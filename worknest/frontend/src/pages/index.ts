@@ -4,3 +4,4 @@ export { Chat } from "./Chat";
 export { AcceptInvite } from "./AcceptInvite";
 export { AuthCallback } from "./AuthCallback";
 export { Settings } from "./Settings";
+export { AcceptOwnership } from "./AcceptOwnership";
@@ -2,6 +2,7 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { authApi } from "@/lib/api";
 import { initSocket, disconnectSocket } from "@/lib/socket";
+import { toast } from "sonner";
 
 import { User, Organization } from "@/types";
 
@@ -37,6 +38,19 @@ interface AuthState {
   clearError: () => void;
 }
 
+/**
+ * Connect the socket and sign out locally when the server ends this session
+ * (revoked from another device, idle timeout, admin force logout)
+ */
+const connectSocket = (token: string, onSessionExpired: () => void) => {
+  const socket = initSocket(token);
+  socket.off("session-expired");
+  socket.on("session-expired", () => {
+    onSessionExpired();
+    toast.info("Your session has ended. Please sign in again.");
+  });
+};
+
 export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
@@ -59,7 +73,8 @@ export const useAuthStore = create<AuthState>()(
           const { data } = await authApi.login({ email, password });
 
           if (data.success) {
-            const { user, organization, token, redirectUrl } = data.data;
+            const { user, organization, token, refreshToken, redirectUrl } =
+              data.data;
 
             if (redirectUrl) {
               set({ isLoading: false });
@@ -67,13 +82,14 @@ export const useAuthStore = create<AuthState>()(
             }
 
             localStorage.setItem("token", token);
+            localStorage.setItem("refreshToken", refreshToken);
             localStorage.setItem(
               "subdomain",
               organization?.subdomain || get().subdomain || ""
             );
 
             // Initialize socket
-            initSocket(token);
+            connectSocket(token, () => get().logout());
 
             set({
               user,
@@ -101,13 +117,14 @@ export const useAuthStore = create<AuthState>()(
           const { data: response } = await authApi.register(data);
 
           if (response.success) {
-            const { user, organization, token } = response.data;
+            const { user, organization, token, refreshToken } = response.data;
 
             localStorage.setItem("token", token);
+            localStorage.setItem("refreshToken", refreshToken);
             localStorage.setItem("subdomain", organization.subdomain);
 
             // Initialize socket
-            initSocket(token);
+            connectSocket(token, () => get().logout());
 
             set({
               user,
@@ -129,8 +146,15 @@ export const useAuthStore = create<AuthState>()(
       },
 
       logout: () => {
+        const refreshToken = localStorage.getItem("refreshToken");
+        if (refreshToken) {
+          // End this device's session server-side; local state is cleared regardless
+          authApi.logout(refreshToken).catch(() => {});
+        }
+
         disconnectSocket();
         localStorage.removeItem("token");
+        localStorage.removeItem("refreshToken");
         localStorage.removeItem("subdomain");
 
         set({
@@ -157,7 +181,7 @@ export const useAuthStore = create<AuthState>()(
             const { user, organization } = data.data;
 
             // Initialize socket if not already
-            initSocket(token);
+            connectSocket(token, () => get().logout());
 
             set({
               user,
@@ -170,6 +194,7 @@ export const useAuthStore = create<AuthState>()(
           }
         } catch {
           localStorage.removeItem("token");
+          localStorage.removeItem("refreshToken");
           set({
             user: null,
             token: null,
@@ -208,7 +233,9 @@ export const useAuthStore = create<AuthState>()(
       onRehydrateStorage: () => (state) => {
         // When the store is rehydrated, ensure isAuthenticated is synced with token
         if (state) {
-          const token = state.token || localStorage.getItem("token");
+          // localStorage holds the most recently refreshed access token
+          const token = localStorage.getItem("token") || state.token;
+          state.token = token;
           if (token && state.user) {
             // Update localStorage to ensure it's in sync
             localStorage.setItem("token", token);
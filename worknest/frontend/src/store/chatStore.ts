@@ -1,19 +1,53 @@
 import { create } from "zustand";
-import { channelsApi, messagesApi, usersApi, uploadsApi } from "@/lib/api";
+import axios from "axios";
+import {
+  channelsApi,
+  messagesApi,
+  usersApi,
+  uploadsApi,
+  ephemeralApi,
+  scheduledMessagesApi,
+  remindersApi,
+  draftsApi,
+  pollsApi,
+} from "@/lib/api";
 import {
   getSocket,
   MessagePayload,
   TypingPayload,
   PresencePayload,
   ReactionPayload,
+  PollPayload,
+  ChannelArchivePayload,
+  ChannelUpdatePayload,
 } from "@/lib/socket";
 import { toast } from "sonner";
+import type {
+  ChannelDeletion,
+  Draft,
+  DraftAttachment,
+  EphemeralMessage,
+  EphemeralMessageAction,
+  MessageBlock,
+  MessageBot,
+  MessagePoll,
+  ReadCursor,
+  Reminder,
+  ScheduledMessage,
+} from "@/types";
 
 export interface Message {
   id: string;
   content: string;
   contentType: string;
   sender: User;
+  // Set on messages posted by an incoming webhook
+  bot?: MessageBot | null;
+  blocks?: MessageBlock[];
+  // Set on POLL messages
+  poll?: MessagePoll | null;
+  // Buttons on EPHEMERAL messages
+  actions?: EphemeralMessageAction[];
   channelId?: string;
   replyTo?: {
     id: string;
@@ -37,10 +71,6 @@ export interface Message {
     duration?: number;
   }[];
   reactions?: Record<string, string[]>;
-  readBy: {
-    userId: string;
-    readAt: string;
-  }[];
   // Thread-related fields
   threadCount?: number;
   parentMessageId?: string;
@@ -52,6 +82,7 @@ export interface Channel {
   id: string;
   name: string;
   description?: string;
+  topic?: string;
   type: "PUBLIC" | "PRIVATE" | "DM";
   memberCount?: number;
   unreadCount?: number;
@@ -67,6 +98,14 @@ export interface Channel {
     status?: string;
     lastSeenAt?: string;
   } | null;
+  // Everyone but the current user, for group DMs
+  dmUsers?: {
+    id: string;
+    name: string;
+    avatar?: string;
+    status?: string;
+    lastSeenAt?: string;
+  }[] | null;
   role?: string;
   joinedAt?: string;
   members?: {
@@ -84,6 +123,10 @@ export interface Channel {
     title: string;
     order: number;
   }[];
+  retentionDays?: number | null;
+  // Archived channels are read-only and listed apart from the sidebar
+  isArchived?: boolean;
+  archivedAt?: string | null;
 }
 
 export interface User {
@@ -95,6 +138,7 @@ export interface User {
   avatar?: string;
   lastSeenAt?: string;
   isOnline?: boolean;
+  isBot?: boolean;
   _id?: string; // Add for backend compatibility
   customStatus?: {
     text: string;
@@ -113,6 +157,7 @@ export interface User {
 interface ChatState {
   // Channels
   channels: Channel[];
+  archivedChannels: Channel[];
   activeChannel: Channel | null;
   isLoadingChannels: boolean;
 
@@ -122,6 +167,18 @@ interface ChatState {
   hasMoreMessages: boolean;
   pinnedMessages: Message[];
   searchResults: Message[];
+  // When each member of the active channel last read it, by user id
+  readCursors: Record<string, string>;
+  // Only visible to the current user; kept for the session across channels
+  ephemeralMessages: Message[];
+  // The current user's messages waiting to be sent, in every channel
+  scheduledMessages: ScheduledMessage[];
+  // The current user's reminders that are not completed, soonest first
+  reminders: Reminder[];
+  // The current user's unsent drafts in every channel and thread
+  drafts: Draft[];
+  // What is being written in the active channel's composer
+  composer: Composer;
 
   // Users
   users: User[];
@@ -152,18 +209,83 @@ interface ChatState {
     type: string;
     members?: string[];
   }) => Promise<void>;
+  updateChannel: (
+    id: string,
+    changes: {
+      name?: string;
+      description?: string;
+      topic?: string;
+      type?: "PUBLIC" | "PRIVATE";
+    }
+  ) => Promise<boolean>;
+  fetchArchivedChannels: () => Promise<void>;
+  archiveChannel: (id: string) => Promise<boolean>;
+  unarchiveChannel: (id: string) => Promise<boolean>;
+  // Permanently deletes an archived channel, in the background
   deleteChannel: (id: string) => Promise<void>;
+  // Joins a public channel from the directory and opens it
+  joinChannel: (id: string) => Promise<boolean>;
+  leaveChannel: (id: string) => Promise<boolean>;
   addMemberToChannel: (channelId: string, userId: string) => Promise<void>;
-  createDM: (userId: string) => Promise<Channel>;
+  createDM: (userIds: string[]) => Promise<Channel>;
+  // Turns a group DM into a private channel, which the user then admins
+  convertGroupDM: (id: string, name: string) => Promise<boolean>;
 
   fetchMessages: (channelId: string) => Promise<void>;
   loadMoreMessages: () => Promise<void>;
   sendMessage: (content: string, replyToId?: string) => void;
   addMessage: (message: UnifiedMessage) => void;
+  addEphemeralMessage: (message: EphemeralMessage) => void;
+  dismissEphemeralMessage: (id: string) => void;
+  runEphemeralAction: (messageId: string, actionId: string) => Promise<void>;
+  fetchScheduledMessages: () => Promise<void>;
+  scheduleMessage: (data: {
+    channelId: string;
+    content: string;
+    sendAt: string;
+    timezone: string;
+  }) => Promise<ScheduledMessage | null>;
+  updateScheduledMessage: (
+    id: string,
+    data: { content?: string; sendAt?: string; timezone?: string }
+  ) => Promise<ScheduledMessage | null>;
+  cancelScheduledMessage: (id: string) => Promise<void>;
+  fetchReminders: () => Promise<void>;
+  createReminder: (data: {
+    when: string;
+    text?: string;
+    messageId?: string;
+    channelId?: string;
+  }) => Promise<Reminder | null>;
+  snoozeReminder: (id: string, when: string) => Promise<void>;
+  completeReminder: (id: string) => Promise<void>;
+  deleteReminder: (id: string) => Promise<void>;
+  fetchDrafts: () => Promise<void>;
+  setComposer: (
+    changes: Partial<Composer> | ((composer: Composer) => Partial<Composer>)
+  ) => void;
+  // Keep a draft locally and save it to the server shortly after
+  updateDraft: (
+    channelId: string,
+    threadId: string | null,
+    changes: Partial<Pick<Draft, "content" | "attachments" | "replyTo">>
+  ) => void;
   updateMessageReactions: (
     messageId: string,
     reactions: Record<string, string[]>
   ) => void;
+  createPoll: (data: {
+    channelId: string;
+    question: string;
+    options: string[];
+    multipleChoice: boolean;
+    anonymous: boolean;
+    closesAt?: string | null;
+  }) => Promise<boolean>;
+  votePoll: (messageId: string, optionIds: string[]) => Promise<void>;
+  closePoll: (messageId: string) => Promise<void>;
+  // Results without `myVotes` keep the user's current choice
+  updateMessagePoll: (messageId: string, poll: MessagePoll) => void;
   editMessage: (id: string, content: string) => Promise<void>;
   deleteMessage: (id: string) => Promise<void>;
   togglePin: (id: string) => Promise<void>;
@@ -202,6 +324,11 @@ interface ChatState {
   initSocketEvents: () => void;
 }
 
+export interface Composer {
+  content: string;
+  attachments: DraftAttachment[];
+}
+
 // Types for backend responses
 type BackendUser = User | (Omit<User, "id"> & { _id: string });
 type BackendChannel = Channel | (Omit<Channel, "id"> & { _id: string });
@@ -223,12 +350,162 @@ const mapUser = (user: BackendUser): User => {
   } as User;
 };
 
+// Ephemeral messages come from the app rather than a person
+const EPHEMERAL_SENDER: User = {
+  id: "worknest",
+  _id: "worknest",
+  name: "WorkNest",
+  email: "",
+  isBot: true,
+};
+
+const mapEphemeralMessage = (message: EphemeralMessage): Message => ({
+  ...message,
+  sender: EPHEMERAL_SENDER,
+});
+
+type BackendScheduledMessage = Omit<ScheduledMessage, "channelId" | "channel"> & {
+  channelId: { id: string; name: string; type: string } | string | null;
+};
+
+// The API populates channelId with the channel's name and type
+const mapScheduledMessage = (
+  scheduled: BackendScheduledMessage
+): ScheduledMessage => {
+  const channel =
+    scheduled.channelId && typeof scheduled.channelId === "object"
+      ? scheduled.channelId
+      : null;
+  return {
+    ...scheduled,
+    channelId: channel ? channel.id : (scheduled.channelId as string),
+    channel,
+  };
+};
+
+type BackendReminder = Omit<Reminder, "channelId" | "channel" | "messageId" | "message"> & {
+  channelId: { id: string; name: string; type: string } | string | null;
+  messageId:
+    | {
+        id: string;
+        content: string;
+        isDeleted?: boolean;
+        senderId?: { name?: string } | string | null;
+      }
+    | string
+    | null;
+};
+
+// The API populates the channel and the message the reminder is about
+const mapReminder = (reminder: BackendReminder): Reminder => {
+  const channel =
+    reminder.channelId && typeof reminder.channelId === "object"
+      ? reminder.channelId
+      : null;
+  const message =
+    reminder.messageId && typeof reminder.messageId === "object"
+      ? reminder.messageId
+      : null;
+  return {
+    ...reminder,
+    channelId: channel ? channel.id : (reminder.channelId as string | null),
+    channel,
+    messageId: message ? message.id : (reminder.messageId as string | null),
+    message: message
+      ? {
+          id: message.id,
+          content: message.content,
+          isDeleted: message.isDeleted,
+          senderName:
+            message.senderId && typeof message.senderId === "object"
+              ? message.senderId.name
+              : undefined,
+        }
+      : null,
+  };
+};
+
+const upsertReminder = (reminders: Reminder[], reminder: Reminder) =>
+  [...reminders.filter((r) => r.id !== reminder.id), reminder].sort(
+    (a, b) => new Date(a.remindAt).getTime() - new Date(b.remindAt).getTime()
+  );
+
+type BackendDraft = Omit<Draft, "channelId" | "channel" | "replyTo"> & {
+  channelId: { id: string; name: string; type: string } | string;
+  replyToId:
+    | { id: string; content: string; senderId?: { name?: string } | null }
+    | string
+    | null;
+};
+
+// The API populates the channel and the message being replied to
+const mapDraft = (draft: BackendDraft): Draft => {
+  const channel = typeof draft.channelId === "object" ? draft.channelId : null;
+  const replyTo =
+    draft.replyToId && typeof draft.replyToId === "object"
+      ? draft.replyToId
+      : null;
+  return {
+    channelId: channel ? channel.id : (draft.channelId as string),
+    channel,
+    threadId: draft.threadId || null,
+    content: draft.content,
+    replyTo: replyTo
+      ? {
+          id: replyTo.id,
+          content: replyTo.content,
+          sender: { name: replyTo.senderId?.name || "Someone" },
+        }
+      : null,
+    attachments: draft.attachments || [],
+    updatedAt: draft.updatedAt,
+  };
+};
+
+const EMPTY_COMPOSER: Composer = { content: "", attachments: [] };
+
+const draftKey = (channelId: string, threadId: string | null) =>
+  `${channelId}:${threadId || ""}`;
+
+const findDraft = (
+  drafts: Draft[],
+  channelId: string,
+  threadId: string | null = null
+) => drafts.find((d) => d.channelId === channelId && d.threadId === threadId);
+
+// The message being replied to, as far as the composer needs it
+const draftReplyTo = (draft: Draft | undefined): Message | null =>
+  draft?.replyTo
+    ? {
+        id: draft.replyTo.id,
+        content: draft.replyTo.content,
+        contentType: "TEXT",
+        sender: { name: draft.replyTo.sender.name } as User,
+        createdAt: "",
+      }
+    : null;
+
+// Drafts are saved once typing pauses
+const DRAFT_SAVE_DELAY_MS = 1000;
+const draftSaveTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// Drafts with a save waiting or in flight; socket echoes of older saves for
+// them are ignored so they don't overwrite newer text
+const unsavedDrafts = new Set<string>();
+
+const apiErrorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error)
+    ? error.response?.data?.error || error.message
+    : fallback;
+
 const mapChannel = (channel: BackendChannel): Channel => {
   if (!channel) return channel as Channel;
   return {
     ...channel,
     id: "id" in channel ? channel.id : channel._id,
     dmUser: channel.dmUser ? mapUser(channel.dmUser as BackendUser) : null,
+    dmUsers: channel.dmUsers
+      ? channel.dmUsers.map((u) => mapUser(u as BackendUser))
+      : null,
     members: channel.members?.map((m) => ({
       ...m,
       user: mapUser(m.user as BackendUser),
@@ -239,6 +516,7 @@ const mapChannel = (channel: BackendChannel): Channel => {
 export const useChatStore = create<ChatState>((set, get) => {
   return {
     channels: [],
+    archivedChannels: [],
     activeChannel: null,
     isLoadingChannels: false,
     messages: [],
@@ -249,6 +527,12 @@ export const useChatStore = create<ChatState>((set, get) => {
     typingUsers: new Map(),
     pinnedMessages: [],
     searchResults: [],
+    readCursors: {},
+    ephemeralMessages: [],
+    scheduledMessages: [],
+    reminders: [],
+    drafts: [],
+    composer: EMPTY_COMPOSER,
     isSidebarOpen: true,
     replyTo: null,
     detailsPanel: {
@@ -264,6 +548,8 @@ export const useChatStore = create<ChatState>((set, get) => {
 
     fetchChannels: async () => {
       set({ isLoadingChannels: true });
+      // Archived channels are loaded too, for search results and the archive
+      get().fetchArchivedChannels();
       try {
         const { data } = await channelsApi.getAll();
         if (data.success) {
@@ -287,11 +573,18 @@ export const useChatStore = create<ChatState>((set, get) => {
         socket.emit("leave-channel", { channelId: prevChannel.id });
       }
 
+      // Pick up where the user left off in the channel
+      const draft = channel ? findDraft(get().drafts, channel.id) : undefined;
+
       set({
         activeChannel: channel,
         messages: [],
         hasMoreMessages: true,
-        replyTo: null,
+        readCursors: {},
+        replyTo: draftReplyTo(draft),
+        composer: draft
+          ? { content: draft.content, attachments: draft.attachments }
+          : EMPTY_COMPOSER,
         typingUsers: new Map(),
         activeView: "messages",
       });
@@ -314,20 +607,98 @@ export const useChatStore = create<ChatState>((set, get) => {
       }
     },
 
+    // Members, including this one, get the change as `channel-updated`
+    updateChannel: async (id, changes) => {
+      try {
+        await channelsApi.update(id, changes);
+        toast.success("Channel updated");
+        return true;
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to update channel"));
+        return false;
+      }
+    },
+
+    fetchArchivedChannels: async () => {
+      try {
+        const { data } = await channelsApi.getArchived();
+        if (data.success) {
+          set({ archivedChannels: data.data.map(mapChannel) });
+        }
+      } catch (error) {
+        console.error("Failed to fetch archived channels:", error);
+      }
+    },
+
+    // The sidebar and open channel follow from `channel-archive-updated`
+    archiveChannel: async (id) => {
+      try {
+        await channelsApi.archive(id);
+        toast.success("Channel archived");
+        return true;
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to archive channel"));
+        return false;
+      }
+    },
+
+    unarchiveChannel: async (id) => {
+      try {
+        await channelsApi.unarchive(id);
+        toast.success("Channel restored");
+        return true;
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to restore channel"));
+        return false;
+      }
+    },
+
     deleteChannel: async (id) => {
       try {
         await channelsApi.delete(id);
         set((state) => ({
           channels: state.channels.filter((c) => c.id !== id),
+          archivedChannels: state.archivedChannels.filter((c) => c.id !== id),
           activeChannel:
             state.activeChannel?.id === id ? null : state.activeChannel,
         }));
+        toast.success("Channel deletion started");
       } catch (error) {
-        console.error("Failed to delete channel:", error);
+        toast.error(apiErrorMessage(error, "Failed to delete channel"));
         throw error;
       }
     },
 
+    joinChannel: async (id) => {
+      try {
+        await channelsApi.join(id);
+        await get().fetchChannels();
+        const channel = get().channels.find((c) => c.id === id);
+        if (channel) get().setActiveChannel(channel);
+        return true;
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to join channel"));
+        return false;
+      }
+    },
+
+    // The sidebar also follows from `channel-removed`
+    leaveChannel: async (id) => {
+      try {
+        const { data } = await channelsApi.leave(id);
+        set((state) => ({
+          channels: state.channels.filter((c) => c.id !== id),
+          activeChannel:
+            state.activeChannel?.id === id ? null : state.activeChannel,
+        }));
+        toast.success(data.message || "Left the channel");
+        return true;
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to leave channel"));
+        return false;
+      }
+    },
+
     addMemberToChannel: async (channelId, userId) => {
       try {
         const { data: response } = await channelsApi.addMember(
@@ -351,9 +722,9 @@ export const useChatStore = create<ChatState>((set, get) => {
       }
     },
 
-    createDM: async (userId) => {
+    createDM: async (userIds) => {
       try {
-        const { data: response } = await channelsApi.createDM(userId);
+        const { data: response } = await channelsApi.createDM(userIds);
         if (response.success) {
           await get().fetchChannels();
           return mapChannel(response.data);
@@ -361,10 +732,29 @@ export const useChatStore = create<ChatState>((set, get) => {
         throw new Error("Failed to create DM");
       } catch (error) {
         console.error("Failed to create DM:", error);
+        toast.error(apiErrorMessage(error, "Failed to start conversation"));
         throw error;
       }
     },
 
+    // Name and type follow from `channel-updated`
+    convertGroupDM: async (id, name) => {
+      try {
+        await channelsApi.convertToChannel(id, name);
+        const promote = (c: Channel): Channel =>
+          c.id === id ? { ...c, role: "ADMIN" } : c;
+        set((state) => ({
+          channels: state.channels.map(promote),
+          activeChannel: state.activeChannel && promote(state.activeChannel),
+        }));
+        toast.success(`Converted to #${name}`);
+        return true;
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to convert conversation"));
+        return false;
+      }
+    },
+
     fetchMessages: async (channelId) => {
       set({ isLoadingMessages: true, messages: [], hasMoreMessages: true });
       try {
@@ -401,6 +791,15 @@ export const useChatStore = create<ChatState>((set, get) => {
             hasMoreMessages: data.data.length >= 50,
           });
 
+          const { data: readState } = await messagesApi.getReadState(channelId);
+          if (readState.success && get().activeChannel?.id === channelId) {
+            set({
+              readCursors: Object.fromEntries(
+                readState.data.map((c: ReadCursor) => [c.userId, c.lastReadAt])
+              ),
+            });
+          }
+
           // Mark as read when fetching initial messages
           await get().markAsRead(channelId);
         }
@@ -473,7 +872,6 @@ export const useChatStore = create<ChatState>((set, get) => {
         ...payload,
         id: "id" in payload ? payload.id : payload._id,
         sender: mapUser(payload.sender as BackendUser),
-        readBy: payload.readBy || [], // Ensure readBy is an array
         replyTo: payload.replyTo || null, // Explicitly preserve replyTo
       } as Message;
 
@@ -497,6 +895,276 @@ export const useChatStore = create<ChatState>((set, get) => {
       });
     },
 
+    addEphemeralMessage: (message) => {
+      const formattedMessage = mapEphemeralMessage(message);
+
+      // A message with a known id replaces the earlier version
+      set((state) => ({
+        ephemeralMessages: state.ephemeralMessages.some(
+          (m) => m.id === formattedMessage.id
+        )
+          ? state.ephemeralMessages.map((m) =>
+              m.id === formattedMessage.id ? formattedMessage : m
+            )
+          : [...state.ephemeralMessages, formattedMessage],
+      }));
+    },
+
+    dismissEphemeralMessage: (id) => {
+      set((state) => ({
+        ephemeralMessages: state.ephemeralMessages.filter((m) => m.id !== id),
+      }));
+    },
+
+    runEphemeralAction: async (messageId, actionId) => {
+      const message = get().ephemeralMessages.find((m) => m.id === messageId);
+      const action = message?.actions?.find((a) => a.id === actionId);
+      if (!action) return;
+
+      if (!action.token) {
+        get().dismissEphemeralMessage(messageId);
+        return;
+      }
+
+      try {
+        const { data } = await ephemeralApi.runAction(action.token);
+        if (data.data.message) {
+          get().addEphemeralMessage(data.data.message);
+        } else {
+          get().dismissEphemeralMessage(messageId);
+        }
+      } catch (error) {
+        toast.error(
+          axios.isAxiosError(error)
+            ? error.response?.data?.error || error.message
+            : "Action failed"
+        );
+      }
+    },
+
+    fetchScheduledMessages: async () => {
+      try {
+        const { data } = await scheduledMessagesApi.getAll();
+        set({ scheduledMessages: data.data.map(mapScheduledMessage) });
+      } catch (error) {
+        console.error("Failed to fetch scheduled messages:", error);
+      }
+    },
+
+    scheduleMessage: async (input) => {
+      try {
+        const { data } = await scheduledMessagesApi.create(input);
+        const scheduled = mapScheduledMessage(data.data);
+        set((state) => ({
+          scheduledMessages: [...state.scheduledMessages, scheduled].sort(
+            (a, b) =>
+              new Date(a.scheduledAt).getTime() -
+              new Date(b.scheduledAt).getTime()
+          ),
+        }));
+        return scheduled;
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to schedule message"));
+        return null;
+      }
+    },
+
+    updateScheduledMessage: async (id, changes) => {
+      try {
+        const { data } = await scheduledMessagesApi.update(id, changes);
+        const scheduled = mapScheduledMessage(data.data);
+        set((state) => ({
+          scheduledMessages: state.scheduledMessages
+            .map((m) => (m.id === id ? scheduled : m))
+            .sort(
+              (a, b) =>
+                new Date(a.scheduledAt).getTime() -
+                new Date(b.scheduledAt).getTime()
+            ),
+        }));
+        return scheduled;
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to update scheduled message"));
+        return null;
+      }
+    },
+
+    cancelScheduledMessage: async (id) => {
+      try {
+        await scheduledMessagesApi.delete(id);
+        set((state) => ({
+          scheduledMessages: state.scheduledMessages.filter((m) => m.id !== id),
+        }));
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to cancel scheduled message"));
+      }
+    },
+
+    fetchReminders: async () => {
+      try {
+        const { data } = await remindersApi.getAll();
+        set({ reminders: data.data.map(mapReminder) });
+      } catch (error) {
+        console.error("Failed to fetch reminders:", error);
+      }
+    },
+
+    createReminder: async (input) => {
+      try {
+        const { data } = await remindersApi.create(input);
+        const reminder = mapReminder(data.data);
+        set((state) => ({
+          reminders: upsertReminder(state.reminders, reminder),
+        }));
+        return reminder;
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to set reminder"));
+        return null;
+      }
+    },
+
+    snoozeReminder: async (id, when) => {
+      try {
+        const { data } = await remindersApi.snooze(id, when);
+        const reminder = mapReminder(data.data);
+        set((state) => ({
+          reminders: upsertReminder(state.reminders, reminder),
+        }));
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to snooze reminder"));
+      }
+    },
+
+    completeReminder: async (id) => {
+      try {
+        await remindersApi.complete(id);
+        set((state) => ({
+          reminders: state.reminders.filter((r) => r.id !== id),
+        }));
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to complete reminder"));
+      }
+    },
+
+    deleteReminder: async (id) => {
+      try {
+        await remindersApi.delete(id);
+        set((state) => ({
+          reminders: state.reminders.filter((r) => r.id !== id),
+        }));
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to delete reminder"));
+      }
+    },
+
+    fetchDrafts: async () => {
+      try {
+        const { data } = await draftsApi.getAll();
+        const drafts: Draft[] = data.data.map(mapDraft);
+        set({ drafts });
+
+        // Restore the draft of a channel opened before drafts were loaded
+        const { activeChannel, composer, replyTo } = get();
+        const draft = activeChannel && findDraft(drafts, activeChannel.id);
+        if (draft && !composer.content && !composer.attachments.length && !replyTo) {
+          set({
+            composer: { content: draft.content, attachments: draft.attachments },
+            replyTo: draftReplyTo(draft),
+          });
+        }
+      } catch (error) {
+        console.error("Failed to fetch drafts:", error);
+      }
+    },
+
+    setComposer: (changes) => {
+      const composer = {
+        ...get().composer,
+        ...(typeof changes === "function" ? changes(get().composer) : changes),
+      };
+      set({ composer });
+
+      const activeChannel = get().activeChannel;
+      if (activeChannel) {
+        get().updateDraft(activeChannel.id, null, composer);
+      }
+    },
+
+    updateDraft: (channelId, threadId, changes) => {
+      const existing = findDraft(get().drafts, channelId, threadId);
+      const next = {
+        content: existing?.content ?? "",
+        attachments: existing?.attachments ?? [],
+        replyTo: existing?.replyTo ?? null,
+        ...changes,
+      };
+      const isEmpty =
+        !next.content.trim() && next.attachments.length === 0 && !next.replyTo;
+      if (!existing && isEmpty) return;
+      if (
+        existing &&
+        existing.content === next.content &&
+        existing.attachments === next.attachments &&
+        existing.replyTo?.id === next.replyTo?.id
+      ) {
+        return;
+      }
+
+      const channel = get().channels.find((c) => c.id === channelId);
+      set((state) => ({
+        drafts: [
+          ...(isEmpty
+            ? []
+            : [
+                {
+                  channelId,
+                  channel: channel
+                    ? { id: channel.id, name: channel.name, type: channel.type }
+                    : existing?.channel || null,
+                  threadId,
+                  ...next,
+                  updatedAt: new Date().toISOString(),
+                },
+              ]),
+          ...state.drafts.filter(
+            (d) => d.channelId !== channelId || d.threadId !== threadId
+          ),
+        ],
+      }));
+
+      const key = draftKey(channelId, threadId);
+      clearTimeout(draftSaveTimers.get(key));
+      unsavedDrafts.add(key);
+      draftSaveTimers.set(
+        key,
+        setTimeout(async () => {
+          draftSaveTimers.delete(key);
+          const draft = findDraft(get().drafts, channelId, threadId);
+          try {
+            if (draft) {
+              await draftsApi.save(channelId, {
+                threadId,
+                content: draft.content,
+                replyToId: draft.replyTo?.id || null,
+                attachments: draft.attachments.map(({ url, name, type, size }) => ({
+                  url,
+                  name,
+                  type,
+                  size,
+                })),
+              });
+            } else {
+              await draftsApi.delete(channelId, threadId);
+            }
+          } catch (error) {
+            console.error("Failed to save draft:", error);
+          } finally {
+            if (!draftSaveTimers.has(key)) unsavedDrafts.delete(key);
+          }
+        }, DRAFT_SAVE_DELAY_MS)
+      );
+    },
+
     updateMessageReactions: (messageId, reactions) => {
       set((state) => ({
         messages: state.messages.map((m) =>
@@ -505,6 +1173,44 @@ export const useChatStore = create<ChatState>((set, get) => {
       }));
     },
 
+    createPoll: async (input) => {
+      try {
+        await pollsApi.create(input);
+        return true;
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to create poll"));
+        return false;
+      }
+    },
+
+    votePoll: async (messageId, optionIds) => {
+      try {
+        const { data } = await pollsApi.vote(messageId, optionIds);
+        get().updateMessagePoll(messageId, data.data.poll);
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to record vote"));
+      }
+    },
+
+    closePoll: async (messageId) => {
+      try {
+        const { data } = await pollsApi.close(messageId);
+        get().updateMessagePoll(messageId, data.data.poll);
+      } catch (error) {
+        toast.error(apiErrorMessage(error, "Failed to close poll"));
+      }
+    },
+
+    updateMessagePoll: (messageId, poll) => {
+      set((state) => ({
+        messages: state.messages.map((m) =>
+          m.id === messageId
+            ? { ...m, poll: { ...poll, myVotes: poll.myVotes ?? m.poll?.myVotes } }
+            : m
+        ),
+      }));
+    },
+
     editMessage: async (id, content) => {
       try {
         await messagesApi.update(id, content);
@@ -635,7 +1341,22 @@ export const useChatStore = create<ChatState>((set, get) => {
       socket.emit("stop-typing", { channelId: activeChannel.id });
     },
 
-    setReplyTo: (message) => set({ replyTo: message }),
+    setReplyTo: (message) => {
+      set({ replyTo: message });
+
+      const activeChannel = get().activeChannel;
+      if (activeChannel) {
+        get().updateDraft(activeChannel.id, null, {
+          replyTo: message
+            ? {
+                id: message.id,
+                content: message.content,
+                sender: { name: message.sender?.name || "Someone" },
+              }
+            : null,
+        });
+      }
+    },
 
     toggleSidebar: () =>
       set((state) => ({ isSidebarOpen: !state.isSidebarOpen })),
@@ -756,15 +1477,32 @@ export const useChatStore = create<ChatState>((set, get) => {
       socket.off("user-online");
       socket.off("user-offline");
       socket.off("reaction-updated");
+      socket.off("poll-updated");
       socket.off("message-updated");
       socket.off("message-deleted");
       socket.off("messages-read");
       socket.off("member-added");
+      socket.off("member-removed");
       socket.off("channel-added");
       socket.off("new-message-notification");
       socket.off("channel-deleted");
+      socket.off("channel-archive-updated");
+      socket.off("channel-deletion-updated");
+      socket.off("channel-removed");
+      socket.off("channel-updated");
       socket.off("user-status-changed");
       socket.off("thread-reply");
+      socket.off("messages-purged");
+      socket.off("saved-search-match");
+      socket.off("reminder");
+      socket.off("reminder-updated");
+      socket.off("reminder-removed");
+      socket.off("draft-updated");
+      socket.off("draft-removed");
+      socket.off("ephemeral-message");
+      socket.off("ephemeral-message-removed");
+      socket.off("scheduled-message-sent");
+      socket.off("scheduled-message-failed");
 
       socket.off("connect");
 
@@ -821,6 +1559,12 @@ export const useChatStore = create<ChatState>((set, get) => {
         get().updateMessageReactions(data.messageId, data.reactions);
       });
 
+      // Votes and closes on polls; the voter's own sessions also get their
+      // choice in `myVotes`
+      socket.on("poll-updated", (data: PollPayload) => {
+        get().updateMessagePoll(data.messageId, data.poll);
+      });
+
       socket.on("message-updated", (data: UnifiedMessage) => {
         const id = "id" in data ? data.id : (data as RawMessage)._id;
         set((state) => ({
@@ -850,23 +1594,12 @@ export const useChatStore = create<ChatState>((set, get) => {
 
       socket.on(
         "messages-read",
-        (data: { channelId: string; userId: string; readAt: string }) => {
-          const { channelId, userId, readAt } = data;
-          const { activeChannel } = get();
+        (data: { channelId: string; userId: string; lastReadAt: string }) => {
+          const { channelId, userId, lastReadAt } = data;
 
-          if (activeChannel?.id === channelId) {
+          if (get().activeChannel?.id === channelId) {
             set((state) => ({
-              messages: state.messages.map((m) => {
-                const alreadyRead = m.readBy.some(
-                  (r) => r.userId.toString() === userId.toString()
-                );
-                if (alreadyRead) return m;
-
-                return {
-                  ...m,
-                  readBy: [...m.readBy, { userId, readAt }],
-                };
-              }),
+              readCursors: { ...state.readCursors, [userId]: lastReadAt },
             }));
           }
         }
@@ -904,6 +1637,34 @@ export const useChatStore = create<ChatState>((set, get) => {
         }
       );
 
+      socket.on(
+        "member-removed",
+        (data: { channelId: string; userId: string }) => {
+          const { channelId, userId } = data;
+
+          set((state) => ({
+            channels: state.channels.map((c) =>
+              c.id === channelId
+                ? { ...c, memberCount: Math.max((c.memberCount || 1) - 1, 0) }
+                : c
+            ),
+            activeChannel:
+              state.activeChannel?.id === channelId
+                ? {
+                    ...state.activeChannel,
+                    memberCount: Math.max(
+                      (state.activeChannel.memberCount || 1) - 1,
+                      0
+                    ),
+                    members: state.activeChannel.members?.filter(
+                      (m) => m.user.id !== userId && m.user._id !== userId
+                    ),
+                  }
+                : state.activeChannel,
+          }));
+        }
+      );
+
       socket.on("channel-added", (data: BackendChannel) => {
         const formattedChannel = mapChannel(data);
         set((state) => {
@@ -921,31 +1682,36 @@ export const useChatStore = create<ChatState>((set, get) => {
           channelId: string;
           message: MessagePayload;
           shouldAlert?: boolean;
+          alertReason?: string;
           sound?: string;
         }) => {
           const { activeChannel, channels } = get();
+          // Reminders alert like a message but are not part of the channel
+          const isReminder = data.alertReason === "REMINDER";
 
           // Update unread count for the channel
-          set((state) => ({
-            channels: state.channels.map((c) =>
-              c.id === data.channelId && c.id !== state.activeChannel?.id
-                ? {
-                    ...c,
-                    unreadCount: (c.unreadCount || 0) + 1,
-                    lastMessage: {
-                      content: data.message.content,
-                      senderName: data.message.sender.name,
-                      senderId:
-                        (data.message.sender as { id?: string; _id?: string })
-                          .id ||
-                        (data.message.sender as { id?: string; _id?: string })
-                          ._id,
-                      createdAt: data.message.createdAt,
-                    },
-                  }
-                : c
-            ),
-          }));
+          if (!isReminder) {
+            set((state) => ({
+              channels: state.channels.map((c) =>
+                c.id === data.channelId && c.id !== state.activeChannel?.id
+                  ? {
+                      ...c,
+                      unreadCount: (c.unreadCount || 0) + 1,
+                      lastMessage: {
+                        content: data.message.content,
+                        senderName: data.message.sender.name,
+                        senderId:
+                          (data.message.sender as { id?: string; _id?: string })
+                            .id ||
+                          (data.message.sender as { id?: string; _id?: string })
+                            ._id,
+                        createdAt: data.message.createdAt,
+                      },
+                    }
+                  : c
+              ),
+            }));
+          }
 
           // Handle alerts (Toasts & Sounds)
           if (data.shouldAlert) {
@@ -955,7 +1721,10 @@ export const useChatStore = create<ChatState>((set, get) => {
 
             if (!isInChannel || !isWindowFocused) {
               const channel = channels.find((c) => c.id === data.channelId);
-              toast.info(`New message in #${channel?.name || "channel"}`, {
+              const title = isReminder
+                ? "Reminder"
+                : `New message in #${channel?.name || "channel"}`;
+              toast.info(title, {
                 description: `${
                   data.message.sender.name
                 }: ${data.message.content.substring(0, 50)}${
@@ -988,11 +1757,78 @@ export const useChatStore = create<ChatState>((set, get) => {
       socket.on("channel-deleted", (data: { id: string }) => {
         set((state) => ({
           channels: state.channels.filter((c) => c.id !== data.id),
+          archivedChannels: state.archivedChannels.filter(
+            (c) => c.id !== data.id
+          ),
           activeChannel:
             state.activeChannel?.id === data.id ? null : state.activeChannel,
         }));
       });
 
+      // The current user left or was removed from a channel
+      socket.on("channel-removed", (data: { id: string }) => {
+        set((state) => ({
+          channels: state.channels.filter((c) => c.id !== data.id),
+          activeChannel:
+            state.activeChannel?.id === data.id ? null : state.activeChannel,
+        }));
+      });
+
+      // An archived channel leaves the sidebar but stays open, read-only,
+      // for anyone looking at it
+      socket.on("channel-archive-updated", (data: ChannelArchivePayload) => {
+        const { channels, archivedChannels, activeChannel } = get();
+        const update = (c: Channel): Channel => ({
+          ...c,
+          isArchived: data.isArchived,
+          archivedAt: data.archivedAt,
+        });
+        const channel = [...channels, ...archivedChannels].find(
+          (c) => c.id === data.id
+        );
+
+        set({
+          channels: data.isArchived
+            ? channels.filter((c) => c.id !== data.id)
+            : channel && !channels.some((c) => c.id === data.id)
+              ? [...channels, update(channel)]
+              : channels,
+          archivedChannels: data.isArchived
+            ? channel && !archivedChannels.some((c) => c.id === data.id)
+              ? [...archivedChannels, update(channel)]
+              : archivedChannels
+            : archivedChannels.filter((c) => c.id !== data.id),
+          activeChannel:
+            activeChannel?.id === data.id ? update(activeChannel) : activeChannel,
+        });
+        // A restored channel the archive list never loaded
+        if (!data.isArchived && !channel) get().fetchChannels();
+      });
+
+      // Progress of a permanent deletion the current user started
+      socket.on("channel-deletion-updated", (data: ChannelDeletion) => {
+        if (data.status === "COMPLETED") {
+          toast.success(`#${data.channelName} was permanently deleted`);
+        } else if (data.status === "FAILED") {
+          toast.error(`Deleting #${data.channelName} failed: ${data.error}`);
+        }
+      });
+
+      // A channel was renamed, its purpose or topic changed, or it was made
+      // public or private
+      socket.on("channel-updated", (data: ChannelUpdatePayload) => {
+        const { id, ...changes } = data;
+        const update = (c: Channel): Channel =>
+          c.id === id ? { ...c, ...changes } : c;
+        set((state) => ({
+          channels: state.channels.map(update),
+          archivedChannels: state.archivedChannels.map(update),
+          activeChannel: state.activeChannel
+            ? update(state.activeChannel)
+            : null,
+        }));
+      });
+
       socket.on(
         "user-status-changed",
         (data: {
@@ -1013,6 +1849,141 @@ export const useChatStore = create<ChatState>((set, get) => {
         }
       );
 
+      // Retention purge: drop or tombstone messages older than the cutoff
+      socket.on(
+        "messages-purged",
+        (data: { channelId: string; before: string; mode: "SOFT" | "HARD" }) => {
+          if (get().activeChannel?.id !== data.channelId) return;
+          const cutoff = new Date(data.before).getTime();
+
+          set((state) => ({
+            messages:
+              data.mode === "HARD"
+                ? state.messages.filter(
+                    (m) => new Date(m.createdAt).getTime() >= cutoff
+                  )
+                : state.messages.map((m) =>
+                    new Date(m.createdAt).getTime() < cutoff
+                      ? {
+                          ...m,
+                          isDeleted: true,
+                          content: "This message has been deleted",
+                          attachments: [],
+                        }
+                      : m
+                  ),
+          }));
+        }
+      );
+
+      // A saved search with notifications turned on matched a new message
+      socket.on(
+        "saved-search-match",
+        (data: {
+          name: string;
+          channelId: string;
+          message: { content: string; sender: { name: string } | null };
+        }) => {
+          const { channels } = get();
+          const channel = channels.find((c) => c.id === data.channelId);
+          const preview = `${data.message.content.substring(0, 50)}${
+            data.message.content.length > 50 ? "..." : ""
+          }`;
+
+          toast.info(`New match for "${data.name}"`, {
+            description: data.message.sender
+              ? `${data.message.sender.name}: ${preview}`
+              : preview,
+            action: channel
+              ? {
+                  label: "View",
+                  onClick: () => get().setActiveChannel(channel),
+                }
+              : undefined,
+          });
+        }
+      );
+
+      // Messages only this user can see, e.g. command replies and prompts
+      socket.on("ephemeral-message", (data: EphemeralMessage) => {
+        get().addEphemeralMessage(data);
+      });
+
+      socket.on("ephemeral-message-removed", (data: { id: string }) => {
+        get().dismissEphemeralMessage(data.id);
+      });
+
+      // A scheduled message went out, or couldn't be sent
+      socket.on("scheduled-message-sent", (data: { id: string }) => {
+        set((state) => ({
+          scheduledMessages: state.scheduledMessages.filter(
+            (m) => m.id !== data.id
+          ),
+        }));
+      });
+
+      socket.on(
+        "scheduled-message-failed",
+        (data: { id: string; reason: string }) => {
+          set((state) => ({
+            scheduledMessages: state.scheduledMessages.map((m) =>
+              m.id === data.id
+                ? { ...m, status: "FAILED", failureReason: data.reason }
+                : m
+            ),
+          }));
+        }
+      );
+
+      // A reminder is due; the alert itself arrives as a notification
+      socket.on("reminder", (data: BackendReminder) => {
+        set((state) => ({
+          reminders: upsertReminder(state.reminders, mapReminder(data)),
+        }));
+      });
+
+      // Reminders set, snoozed, completed or deleted in another session
+      socket.on("reminder-updated", (data: BackendReminder) => {
+        set((state) => ({
+          reminders: upsertReminder(state.reminders, mapReminder(data)),
+        }));
+      });
+
+      socket.on("reminder-removed", (data: { id: string }) => {
+        set((state) => ({
+          reminders: state.reminders.filter((r) => r.id !== data.id),
+        }));
+      });
+
+      // Drafts edited on another device. The composer itself is left alone;
+      // the draft is restored the next time the channel is opened.
+      socket.on("draft-updated", (data: BackendDraft) => {
+        const draft = mapDraft(data);
+        if (unsavedDrafts.has(draftKey(draft.channelId, draft.threadId))) return;
+        set((state) => ({
+          drafts: [
+            draft,
+            ...state.drafts.filter(
+              (d) =>
+                d.channelId !== draft.channelId || d.threadId !== draft.threadId
+            ),
+          ],
+        }));
+      });
+
+      socket.on(
+        "draft-removed",
+        (data: { channelId: string; threadId: string | null }) => {
+          const threadId = data.threadId || null;
+          if (unsavedDrafts.has(draftKey(data.channelId, threadId))) return;
+          set((state) => ({
+            drafts: state.drafts.filter(
+              (d) => d.channelId !== data.channelId || d.threadId !== threadId
+            ),
+          }));
+        }
+      );
+
       // Thread reply listener
       socket.on(
         "thread-reply",
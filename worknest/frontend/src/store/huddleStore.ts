@@ -65,7 +65,9 @@ export const useHuddleStore = create<HuddleState>((set, get) => ({
             startedBy !== user?.id
           ) {
             const displayName =
-              channel.type === "DM" ? channel.dmUser?.name : `#${channel.name}`;
+              channel.type === "DM"
+                ? channel.dmUser?.name || channel.name
+                : `#${channel.name}`;
             toast.info(`Huddle started in ${displayName}`, {
               description: "Join the conversation now!",
               action: {
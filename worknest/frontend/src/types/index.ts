@@ -52,10 +52,41 @@ export interface User {
     bio?: string;
   };
   settings?: UserSettings;
+  passwordExpired?: boolean;
   lastSeenAt?: string;
   createdAt?: string;
 }
 
+export interface PasswordPolicy {
+  minLength: number;
+  requireNumbers: boolean;
+  requireSymbols: boolean;
+  historyCount: number;
+  expiryDays: number;
+}
+
+export type PasswordRule =
+  | "minLength"
+  | "requireNumbers"
+  | "requireSymbols"
+  | "history";
+
+export interface PasswordRuleResult {
+  rule: PasswordRule;
+  passed: boolean;
+  message: string;
+}
+
+export interface DeviceSession {
+  id: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
 export interface OrganizationSettings {
   general: {
     timezone: string;
@@ -65,13 +96,10 @@ export interface OrganizationSettings {
     defaultChannels: string[];
     allowPrivateChannels: boolean;
     messageRetentionDays: number;
+    retentionMode: "SOFT" | "HARD";
   };
   security: {
-    passwordPolicy: {
-      minLength: number;
-      requireNumbers: boolean;
-      requireSymbols: boolean;
-    };
+    passwordPolicy: PasswordPolicy;
     sessionTimeoutMinutes: number;
   };
   notifications: {
@@ -90,10 +118,332 @@ export interface Organization {
   status: OrganizationStatus;
   plan: OrganizationPlan;
   logo?: string;
+  // Only the owner can transfer the organization to someone else
+  ownerId?: string | null;
   settings?: OrganizationSettings;
   createdAt?: string;
 }
 
+export interface OrganizationOwnership {
+  ownerId: string | null;
+  // Waiting for the new owner to confirm from their email
+  pendingTransfer: {
+    toUser: { id: string; name: string; email: string; avatar?: string };
+    expiresAt: string;
+  } | null;
+}
+
+export type AuditAction =
+  | "ADMIN_PROMOTED"
+  | "ADMIN_DEMOTED"
+  | "OWNERSHIP_TRANSFER_REQUESTED"
+  | "OWNERSHIP_TRANSFER_CANCELLED"
+  | "OWNERSHIP_TRANSFERRED";
+
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  actor: { id: string; name: string; avatar?: string } | null;
+  target: { id: string; name: string; avatar?: string } | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface RetentionReport {
+  organizationId: string;
+  mode: "SOFT" | "HARD";
+  dryRun: boolean;
+  generatedAt: string;
+  channels: {
+    channelId: string;
+    name: string;
+    type: string;
+    retentionDays: number;
+    source: "ORGANIZATION" | "CHANNEL";
+    cutoff: string;
+    messages: number;
+    threadReplies: number;
+    attachments: number;
+    cloudinaryPublicIds: string[];
+  }[];
+  totals: {
+    messages: number;
+    threadReplies: number;
+    attachments: number;
+  };
+}
+
+// Structured blocks on messages posted by integrations
+export type MessageBlock =
+  | { type: "header"; text: string }
+  | { type: "section"; text: string }
+  | { type: "context"; text: string }
+  | { type: "fields"; fields: { title: string; value: string }[] }
+  | { type: "image"; url: string; alt?: string }
+  | { type: "divider" };
+
+export interface MessageBot {
+  incomingWebhookId: string;
+  name: string;
+  avatar?: string | null;
+}
+
+export interface PollOption {
+  id: string;
+  text: string;
+  voteCount: number;
+  // Left out of anonymous polls
+  voterIds?: string[];
+}
+
+// The question and results of a POLL message. `myVotes` is the current
+// user's choice; results broadcast to the channel leave it out.
+export interface MessagePoll {
+  question: string;
+  options: PollOption[];
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt: string | null;
+  closedAt: string | null;
+  isClosed: boolean;
+  voterCount: number;
+  myVotes?: string[];
+}
+
+// Permanent deletion of an archived channel, which runs in the background.
+// Counts grow as the channel's content is removed.
+export interface ChannelDeletion {
+  id: string;
+  channelId: string;
+  channelName: string;
+  status: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+  counts: {
+    messages: number;
+    attachments: number;
+    members: number;
+    tasks: number;
+    wikiPages: number;
+    canvases: number;
+  };
+  attempts: number;
+  error: string | null;
+  requestedBy: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+// A public channel as listed in the channel directory, whether or not the
+// current user is in it
+export interface DirectoryChannel {
+  id: string;
+  name: string;
+  description: string;
+  topic: string;
+  type: "PUBLIC";
+  memberCount: number;
+  lastMessageAt: string | null;
+  createdAt: string;
+  isMember: boolean;
+}
+
+export interface ChannelPreview {
+  channel: {
+    id: string;
+    name: string;
+    description: string;
+    topic: string;
+    type: "PUBLIC";
+    isArchived: boolean;
+    memberCount: number;
+  };
+  messages: {
+    id: string;
+    content: string;
+    contentType: string;
+    sender: { id?: string; _id?: string; name: string; avatar?: string };
+    attachments: { url: string; name: string; type: string }[];
+    createdAt: string;
+  }[];
+}
+
+export interface IncomingWebhook {
+  id: string;
+  channelId: string;
+  name: string;
+  avatar?: string | null;
+  tokenPrefix: string;
+  isActive: boolean;
+  messageCount: number;
+  lastUsedAt?: string | null;
+  createdAt: string;
+}
+
+export type SearchType =
+  | "all"
+  | "messages"
+  | "threads"
+  | "files"
+  | "wiki"
+  | "tasks";
+
+export interface SearchFilterParams {
+  channelId?: string;
+  userId?: string;
+  type?: SearchType;
+}
+
+export interface RecentSearch {
+  id: string;
+  query: string;
+  filters: SearchFilterParams;
+  searchedAt: string;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilterParams;
+  notify: boolean;
+  lastNotifiedAt?: string | null;
+  createdAt: string;
+}
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  isActive: boolean;
+  consecutiveFailures: number;
+  disabledAt?: string | null;
+  disabledReason?: string | null;
+  lastDeliveryAt?: string | null;
+  lastSuccessAt?: string | null;
+  createdAt: string;
+}
+
+export type WebhookDeliveryStatus = "PENDING" | "SUCCESS" | "FAILED";
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string | null;
+  lastAttemptAt?: string | null;
+  deliveredAt?: string | null;
+  responseStatus?: number | null;
+  responseBody?: string | null;
+  error?: string | null;
+  durationMs?: number | null;
+  replayOf?: string | null;
+  createdAt: string;
+}
+
+export interface SlashCommandArgument {
+  name: string;
+  type: "word" | "text" | "user" | "duration";
+  required?: boolean;
+}
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  usage: string;
+  args: SlashCommandArgument[];
+}
+
+export interface SlashCommandResult {
+  command: string | null;
+  ok: boolean;
+  // Reply shown only to the user who ran the command
+  message: EphemeralMessage | null;
+}
+
+// A button on an ephemeral message; buttons without a token only dismiss it
+export interface EphemeralMessageAction {
+  id: string;
+  label: string;
+  style: "primary" | "danger" | "default";
+  token: string | null;
+}
+
+// A message only the current user can see. It is never stored, so it is
+// gone after a reload.
+export interface EphemeralMessage {
+  id: string;
+  channelId: string;
+  content: string;
+  contentType: "EPHEMERAL";
+  actions: EphemeralMessageAction[];
+  createdAt: string;
+}
+
+// How far a channel member has read: every message created up to
+// lastReadAt has been seen
+export interface ReadCursor {
+  userId: string;
+  lastReadAt: string;
+}
+
+// A message waiting to be sent later. Sent ones are removed; FAILED ones
+// stay until they are rescheduled or cancelled.
+export interface ScheduledMessage {
+  id: string;
+  channelId: string;
+  channel: { id: string; name: string; type: string } | null;
+  content: string;
+  scheduledAt: string;
+  timezone: string;
+  status: "PENDING" | "SENDING" | "FAILED";
+  failureReason?: string | null;
+  createdAt: string;
+}
+
+// A reminder about free text or a message. Delivered reminders stay on the
+// list until they are completed or snoozed.
+export interface Reminder {
+  id: string;
+  text: string;
+  remindAt: string;
+  deliveredAt: string | null;
+  channelId: string | null;
+  channel: { id: string; name: string; type: string } | null;
+  messageId: string | null;
+  message: {
+    id: string;
+    content: string;
+    isDeleted?: boolean;
+    senderName?: string;
+  } | null;
+  createdAt: string;
+}
+
+// An uploaded file waiting in the composer
+export interface DraftAttachment {
+  url: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+// Unsent composer text in a channel, or in one of its threads when threadId
+// is set. Synced to the server so it follows the user between devices.
+export interface Draft {
+  channelId: string;
+  channel: { id: string; name: string; type: string } | null;
+  threadId: string | null;
+  content: string;
+  replyTo: { id: string; content: string; sender: { name: string } } | null;
+  attachments: DraftAttachment[];
+  updatedAt: string;
+}
+
 export interface ApiResponse<T = unknown> {
   success: boolean;
   data: T;